@@ -0,0 +1,37 @@
+/**
+ * In-memory repository table for unit tests
+ * Stands in for a user-owned repository (characters, personas, chats, ...) so
+ * code that creates and then looks up records can run end to end.
+ */
+
+export type TableRow = { id: string; userId: string; name?: string; [key: string]: any }
+
+export type InMemoryTable = ReturnType<typeof createInMemoryTable>
+
+/**
+ * Create an empty table
+ * @param now Timestamp given to created rows, for tests that compare them
+ */
+export function createInMemoryTable(now?: string) {
+  const rows = new Map<string, TableRow>()
+  return {
+    rows,
+    findById: jest.fn(async (id: string) => rows.get(id) ?? null),
+    findByUserId: jest.fn(async (userId: string) => [...rows.values()].filter(row => row.userId === userId)),
+    findByName: jest.fn(async (userId: string, name: string) =>
+      [...rows.values()].find(row => row.userId === userId && row.name === name) ?? null
+    ),
+    create: jest.fn(async (data: Partial<TableRow>) => {
+      const timestamp = now ?? new Date().toISOString()
+      const row = { ...data, id: crypto.randomUUID(), createdAt: timestamp, updatedAt: timestamp } as TableRow
+      rows.set(row.id, row)
+      return row
+    }),
+    update: jest.fn(async (id: string, data: Partial<TableRow>) => {
+      const row = rows.get(id)
+      if (!row) return null
+      Object.assign(row, data)
+      return row
+    }),
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Memory records for unit tests
+ */
+
+import type { Memory } from '@/lib/schemas/types'
+
+/**
+ * Build an auto-extracted memory of character `char-1`
+ * @param overrides Fields the test cares about (content, timestamps, links, ...)
+ */
+export function makeMemory(id: string, overrides: Partial<Memory> = {}): Memory {
+  return {
+    id,
+    characterId: 'char-1',
+    content: `Content of ${id}`,
+    summary: `Summary of ${id}`,
+    keywords: [],
+    tags: [],
+    importance: 0.5,
+    source: 'AUTO',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
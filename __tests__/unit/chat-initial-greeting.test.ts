@@ -1,5 +1,5 @@
 import { describe, it, expect, jest, beforeEach } from '@jest/globals'
-import { generateGreetingMessage } from '@/lib/chat/initial-greeting'
+import { buildGreetingMessages, generateGreetingMessage, selectGreetingIndex } from '@/lib/chat/initial-greeting'
 import { createLLMProvider } from '@/lib/llm'
 import type { LLMProvider } from '@/lib/llm/base'
 
@@ -89,3 +89,40 @@ describe('generateGreetingMessage', () => {
     expect(content).toBe('Hello there')
   })
 })
+
+describe('selectGreetingIndex', () => {
+  it('uses the first greeting when none was chosen', () => {
+    expect(selectGreetingIndex(3)).toBe(0)
+  })
+
+  it('returns the chosen greeting and rejects indexes out of range', () => {
+    expect(selectGreetingIndex(3, 2)).toBe(2)
+    expect(selectGreetingIndex(3, 3)).toBeNull()
+  })
+
+  it('picks a random greeting', () => {
+    expect(selectGreetingIndex(3, 'random', () => 0.5)).toBe(1)
+    expect(selectGreetingIndex(3, 'random', () => 0.99)).toBe(2)
+  })
+})
+
+describe('buildGreetingMessages', () => {
+  it('opens with the selected greeting and keeps the others as swipes', () => {
+    const messages = buildGreetingMessages(['Hello', 'Hi', 'Hey'], 1, '2025-01-01T00:00:00.000Z')
+
+    expect(messages.map(m => m.content)).toEqual(['Hi', 'Hello', 'Hey'])
+    expect(messages.map(m => m.swipeIndex)).toEqual([0, 1, 2])
+    expect(new Set(messages.map(m => m.swipeGroupId)).size).toBe(1)
+    expect(messages[0].swipeGroupId).toBe(`swipe-${messages[0].id}`)
+    expect(messages.every(m => m.role === 'ASSISTANT' && m.createdAt === '2025-01-01T00:00:00.000Z')).toBe(true)
+  })
+
+  it('creates a plain message for a single greeting', () => {
+    const [message, ...rest] = buildGreetingMessages(['Hello'], 0)
+
+    expect(rest).toHaveLength(0)
+    expect(message.content).toBe('Hello')
+    expect(message.swipeGroupId).toBeNull()
+    expect(message.swipeIndex).toBeNull()
+  })
+})
@@ -129,6 +129,38 @@ describe('buildChatContext', () => {
     })
   })
 
+  describe('Greetings', () => {
+    it('should list the first message followed by processed alternate greetings', async () => {
+      mockCharactersRepo.findById.mockResolvedValue({
+        ...mockCharacter,
+        alternateGreetings: ['Oh, {{user}}! Back already?', '  *{{char}} waves*  '],
+        personaLinks: [],
+      })
+      mockPersonasRepo.findById.mockResolvedValue(mockPersona)
+
+      const context = await buildChatContext('char-1', 'persona-1')
+
+      expect(context.greetings).toEqual([
+        'Hello! How can I help you today?',
+        'Oh, John! Back already?',
+        '*Alice waves*',
+      ])
+    })
+
+    it('should leave out a blank first message', async () => {
+      mockCharactersRepo.findById.mockResolvedValue({
+        ...mockCharacter,
+        firstMessage: '  ',
+        alternateGreetings: ['Hi!'],
+        personaLinks: [],
+      })
+
+      const context = await buildChatContext('char-1')
+
+      expect(context.greetings).toEqual(['Hi!'])
+    })
+  })
+
   describe('System prompt building', () => {
     it('should include character name in system prompt', async () => {
       mockCharactersRepo.findById.mockResolvedValue({
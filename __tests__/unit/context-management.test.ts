@@ -291,6 +291,19 @@ describe('Context Manager', () => {
       const prompt = buildSystemPrompt(character as any, null, override)
       expect(prompt).toContain(override)
     })
+
+    it('should place world info around the character definition', () => {
+      const prompt = buildSystemPrompt(character as any, null, null, undefined, { before: 'LORE-BEFORE', after: 'LORE-AFTER' })
+      expect(prompt.indexOf('LORE-BEFORE')).toBeLessThan(prompt.indexOf('Friendly and helpful'))
+      expect(prompt.indexOf('LORE-AFTER')).toBeGreaterThan(prompt.indexOf('Hi there!'))
+    })
+
+    it('should honour world info macros in the base prompt', () => {
+      const override = 'Lore: {{wiAfter}} / {{loreBefore}}'
+      const prompt = buildSystemPrompt(character as any, null, override, undefined, { before: 'B', after: 'A' })
+      expect(prompt).toContain('Lore: A / B')
+      expect(prompt).not.toContain('## World Info')
+    })
   })
 
   describe('formatMemoriesForContext', () => {
@@ -0,0 +1,238 @@
+/**
+ * Unit Tests for Quilltap chat archives
+ * Tests lib/chat/chat-archive.ts
+ *
+ * Repositories are kept in memory so a chat can be exported by one user and
+ * imported by another, as between two instances.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { ChatEvent, ChatMetadata, FileEntry } from '@/lib/schemas/types'
+import { formatSchemaVersion } from '@/lib/schema-version'
+import { createZip, readZip } from '@/lib/zip'
+import { getRepositories } from '@/lib/repositories/factory'
+import { readImageBuffer, restoreFileBuffer } from '@/lib/images-v2'
+import {
+  ChatArchiveError,
+  exportChatArchive,
+  importChatArchive,
+  readChatArchive,
+} from '@/lib/chat/chat-archive'
+import { createInMemoryTable, type InMemoryTable, type TableRow } from '@/__tests__/helpers/in-memory-table'
+
+jest.mock('@/lib/images-v2', () => ({
+  readImageBuffer: jest.fn(),
+  restoreFileBuffer: jest.fn(),
+}))
+
+const mockReadImageBuffer = jest.mocked(readImageBuffer)
+const mockRestoreFileBuffer = jest.mocked(restoreFileBuffer)
+
+const OWNER = crypto.randomUUID()
+const OTHER = crypto.randomUUID()
+const NOW = '2025-01-01T00:00:00.000Z'
+
+let characters: InMemoryTable
+let personas: InMemoryTable
+let connections: InMemoryTable
+let imageProfiles: InMemoryTable
+let files: InMemoryTable
+let tags: InMemoryTable
+let chats: InMemoryTable
+let events: Map<string, ChatEvent[]>
+let bytes: Map<string, Buffer>
+
+const insert = (t: InMemoryTable, row: Partial<TableRow>) => {
+  const full = { createdAt: NOW, updatedAt: NOW, ...row, id: row.id ?? crypto.randomUUID() } as TableRow
+  t.rows.set(full.id, full)
+  return full
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  characters = createInMemoryTable(NOW)
+  personas = createInMemoryTable(NOW)
+  connections = createInMemoryTable(NOW)
+  imageProfiles = createInMemoryTable(NOW)
+  files = createInMemoryTable(NOW)
+  tags = createInMemoryTable(NOW)
+  chats = createInMemoryTable(NOW)
+  events = new Map()
+  bytes = new Map()
+
+  mockReadImageBuffer.mockImplementation(async id => {
+    const data = bytes.get(id)
+    if (!data) throw new Error('missing')
+    return data
+  })
+  mockRestoreFileBuffer.mockImplementation(async (data, entry, userId, linkedTo) => {
+    const file = insert(files, { ...entry, userId, linkedTo })
+    bytes.set(file.id, data)
+    return file as FileEntry
+  })
+
+  ;(getRepositories as jest.Mock).mockReturnValue({
+    characters,
+    personas,
+    imageProfiles,
+    files,
+    tags,
+    connections: {
+      ...connections,
+      findDefault: jest.fn(async (userId: string) => [...connections.rows.values()].find(row => row.userId === userId) ?? null),
+    },
+    chats: {
+      ...chats,
+      getMessages: jest.fn(async (chatId: string) => events.get(chatId) ?? []),
+      addMessages: jest.fn(async (chatId: string, added: ChatEvent[]) => {
+        events.set(chatId, [...(events.get(chatId) ?? []), ...added])
+        return added
+      }),
+    },
+  })
+})
+
+/**
+ * A group chat of the owner with every kind of event worth keeping
+ */
+function ownerChat(): ChatMetadata {
+  const avatar = insert(files, { userId: OWNER, originalFilename: 'mira.png', mimeType: 'image/png', sha256: 'a'.repeat(64), size: 3, source: 'UPLOADED', category: 'AVATAR', linkedTo: [] })
+  const attachment = insert(files, { userId: OWNER, originalFilename: 'map.pdf', mimeType: 'application/pdf', sha256: 'b'.repeat(64), size: 4, source: 'UPLOADED', category: 'DOCUMENT', linkedTo: [], description: 'Harbor map' })
+  bytes.set(avatar.id, Buffer.from('png'))
+  bytes.set(attachment.id, Buffer.from('%PDF'))
+
+  const profile = insert(connections, { userId: OWNER, name: 'Claude', provider: 'ANTHROPIC', modelName: 'claude' })
+  const imageProfile = insert(imageProfiles, { userId: OWNER, name: 'Painter', provider: 'OPENAI', modelName: 'dall-e-3' })
+  const mira = insert(characters, { userId: OWNER, name: 'Mira', description: 'A lighthouse keeper', defaultImageId: avatar.id, tags: [], personaLinks: [], avatarOverrides: [], physicalDescriptions: [], isFavorite: true })
+  const sam = insert(personas, { userId: OWNER, name: 'Sam', description: 'A sailor', tags: [], characterLinks: [], physicalDescriptions: [] })
+  const tag = insert(tags, { userId: OWNER, name: 'Harbor', nameLower: 'harbor', quickHide: false })
+
+  const miraParticipant = {
+    id: crypto.randomUUID(), type: 'CHARACTER' as const, characterId: mira.id, personaId: null, connectionProfileId: profile.id,
+    imageProfileId: imageProfile.id, systemPromptOverride: 'Stormy night', displayOrder: 0, isActive: true, createdAt: NOW, updatedAt: NOW,
+  }
+  const samParticipant = {
+    id: crypto.randomUUID(), type: 'PERSONA' as const, characterId: null, personaId: sam.id, connectionProfileId: null,
+    imageProfileId: null, systemPromptOverride: null, displayOrder: 1, isActive: true, createdAt: NOW, updatedAt: NOW,
+  }
+
+  const chat = insert(chats, {
+    userId: OWNER,
+    title: 'Harbor night',
+    participants: [miraParticipant, samParticipant],
+    contextSummary: 'They met at the pier.',
+    sillyTavernMetadata: null,
+    tags: [tag.id],
+    messageCount: 5,
+    lastRenameCheckInterchange: 2,
+    turnStrategy: 'MANUAL',
+    toolPolicies: { web_search: 'ASK' },
+    parentChatId: null,
+    forkedFromMessageId: null,
+  }) as unknown as ChatMetadata
+
+  const message = (fields: Record<string, unknown>) => ({
+    type: 'message' as const, id: crypto.randomUUID(), rawResponse: null, tokenCount: null, swipeGroupId: null,
+    swipeIndex: null, attachments: [] as string[], participantId: null, createdAt: NOW, ...fields,
+  }) as ChatEvent
+  events.set(chat.id, [
+    message({ role: 'USER', content: 'Look at this map.', attachments: [attachment.id] }),
+    message({ role: 'ASSISTANT', content: 'A fine map.', swipeGroupId: 'swipe-1', swipeIndex: 0, participantId: miraParticipant.id }),
+    message({ role: 'ASSISTANT', content: 'An old map.', swipeGroupId: 'swipe-1', swipeIndex: 1, participantId: miraParticipant.id }),
+    message({ role: 'TOOL', content: '{"results":[]}', participantId: miraParticipant.id }),
+    { type: 'context-summary', id: crypto.randomUUID(), context: 'They studied a map.', createdAt: NOW },
+  ])
+
+  return chat
+}
+
+const withoutIds = (list: ChatEvent[]) => list.map(({ id: _id, ...event }: any) => {
+  const { participantId: _participantId, attachments: _attachments, ...rest } = event
+  return rest
+})
+
+describe('chat archives', () => {
+  it('round-trips a chat to another user, recreating what is missing', async () => {
+    const chat = ownerChat()
+    const fallback = insert(connections, { userId: OTHER, name: 'Local', provider: 'OLLAMA', modelName: 'llama' })
+
+    const archive = readChatArchive(await exportChatArchive(chat))
+    const result = await importChatArchive(OTHER, archive)
+
+    const imported = result.chat
+    expect(imported).toMatchObject({
+      userId: OTHER,
+      title: 'Harbor night',
+      contextSummary: 'They met at the pier.',
+      turnStrategy: 'MANUAL',
+      toolPolicies: { web_search: 'ASK' },
+      lastRenameCheckInterchange: 2,
+    })
+    expect(imported.tags.map(id => tags.rows.get(id)!)).toMatchObject([{ userId: OTHER, name: 'Harbor' }])
+
+    // Characters and personas are made from the archive's copies, avatar included
+    expect(result.createdCharacterIds).toHaveLength(1)
+    expect(result.createdPersonaIds).toHaveLength(1)
+    const mira = characters.rows.get(result.createdCharacterIds[0])!
+    expect(mira).toMatchObject({ userId: OTHER, name: 'Mira', description: 'A lighthouse keeper', isFavorite: true })
+    expect(bytes.get(mira.defaultImageId)!.toString()).toBe('png')
+
+    const [miraParticipant, samParticipant] = imported.participants
+    expect(miraParticipant).toMatchObject({
+      characterId: mira.id,
+      connectionProfileId: fallback.id,
+      imageProfileId: null,
+      systemPromptOverride: 'Stormy night',
+    })
+    expect(samParticipant.personaId).toBe(result.createdPersonaIds[0])
+
+    // Every event comes back, tool and summary events included, under new IDs
+    const original = events.get(chat.id)!
+    const copied = events.get(imported.id)!
+    expect(withoutIds(copied)).toEqual(withoutIds(original))
+    expect(copied.map(e => e.id)).not.toEqual(original.map(e => e.id))
+    expect(copied.slice(1, 4).map(e => e.type === 'message' && e.participantId)).toEqual([miraParticipant.id, miraParticipant.id, miraParticipant.id])
+
+    const [attachmentId] = (copied[0] as any).attachments
+    expect(files.rows.get(attachmentId)).toMatchObject({ userId: OTHER, originalFilename: 'map.pdf', category: 'DOCUMENT', description: 'Harbor map' })
+    expect(files.rows.get(attachmentId)!.linkedTo).toEqual([imported.id, copied[0].id])
+    expect(result.missingFiles).toBe(0)
+  })
+
+  it('reuses the owner\'s own characters, personas and profiles', async () => {
+    const chat = ownerChat()
+    const archive = readChatArchive(await exportChatArchive(chat))
+
+    const result = await importChatArchive(OWNER, archive)
+
+    expect(result.createdCharacterIds).toEqual([])
+    expect(result.createdPersonaIds).toEqual([])
+    expect(result.chat.participants.map(p => [p.characterId ?? p.personaId, p.connectionProfileId, p.imageProfileId]))
+      .toEqual(chat.participants.map(p => [p.characterId ?? p.personaId, p.connectionProfileId, p.imageProfileId]))
+    expect(result.chat.tags).toEqual(chat.tags)
+  })
+
+  it('needs a connection profile for characters', async () => {
+    const archive = readChatArchive(await exportChatArchive(ownerChat()))
+
+    await expect(importChatArchive(OTHER, archive)).rejects.toThrow('connection profile')
+  })
+
+  it('refuses archives it cannot read', async () => {
+    const exported = await exportChatArchive(ownerChat())
+    const rewrite = (path: string, edit: (text: string) => string) => createZip(readZip(exported).map(entry =>
+      entry.path === path ? { path, data: Buffer.from(edit(entry.data.toString('utf8'))) } : entry
+    ))
+    const manifest = (edit: (data: any) => void) => rewrite('manifest.json', text => {
+      const data = JSON.parse(text)
+      edit(data)
+      return JSON.stringify(data)
+    })
+
+    expect(() => readChatArchive(Buffer.from('not a zip'))).toThrow(ChatArchiveError)
+    expect(() => readChatArchive(createZip([{ path: 'manifest.json', data: Buffer.from('{}') }]))).toThrow('Not a Quilltap chat archive')
+    expect(() => readChatArchive(manifest(data => { data.schemaVersion = '99.0.0' }))).toThrow(`into schema version ${formatSchemaVersion()}`)
+    expect(() => readChatArchive(manifest(data => { data.version = 2 }))).toThrow('newer')
+    expect(() => readChatArchive(rewrite('events.jsonl', text => `${text}\n{"type":"message"}`))).toThrow('Line 6')
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Tests for chat forking helpers.
+ * Verifies the event log is cut at the fork point, swipe alternatives are
+ * handled, context summaries carry over, and chat lists form branch trees.
+ */
+
+import type { ChatEvent } from '@/lib/schemas/types'
+import { buildForkedEvents, orderChatsAsBranchTree } from '@/lib/chat/fork'
+
+function message(id: string, role: 'USER' | 'ASSISTANT', extra: Record<string, unknown> = {}): ChatEvent {
+  return {
+    type: 'message',
+    id,
+    role,
+    content: `content ${id}`,
+    attachments: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...extra,
+  } as ChatEvent
+}
+
+function summary(id: string, context: string): ChatEvent {
+  return { type: 'context-summary', id, context, createdAt: '2025-01-01T00:00:00.000Z' }
+}
+
+function idGenerator() {
+  let counter = 0
+  return () => `new-${++counter}`
+}
+
+describe('lib/chat/fork', () => {
+  describe('buildForkedEvents', () => {
+    it('returns null when the message is not in the chat', () => {
+      expect(buildForkedEvents([message('m1', 'USER')], 'missing')).toBeNull()
+    })
+
+    it('copies events up to and including the fork message with new IDs', () => {
+      const events = [
+        message('m1', 'USER', { attachments: ['file-1'] }),
+        message('m2', 'ASSISTANT'),
+        message('m3', 'USER'),
+        message('m4', 'ASSISTANT'),
+      ]
+
+      const result = buildForkedEvents(events, 'm3', null, idGenerator())!
+
+      expect(result.events.map(e => e.type === 'message' && e.content)).toEqual([
+        'content m1',
+        'content m2',
+        'content m3',
+      ])
+      expect(result.events.map(e => e.id)).toEqual(['new-1', 'new-2', 'new-3'])
+      expect(result.idMap.get('m1')).toBe('new-1')
+      expect(result.events[0].type === 'message' && result.events[0].attachments).toEqual(['file-1'])
+    })
+
+    it('keeps alternatives of earlier swipe groups but only the forked variant', () => {
+      const events = [
+        message('m1', 'USER'),
+        message('m2', 'ASSISTANT', { swipeGroupId: 'swipe-m2', swipeIndex: 0 }),
+        message('m3', 'USER'),
+        message('m4', 'ASSISTANT', { swipeGroupId: 'swipe-m4', swipeIndex: 0 }),
+        message('m2b', 'ASSISTANT', { swipeGroupId: 'swipe-m2', swipeIndex: 1 }),
+        message('m4b', 'ASSISTANT', { swipeGroupId: 'swipe-m4', swipeIndex: 1 }),
+      ]
+
+      const result = buildForkedEvents(events, 'm4b', null, idGenerator())!
+      const contents = result.events.map(e => e.type === 'message' && e.content)
+
+      expect(contents).toEqual(['content m1', 'content m2', 'content m3', 'content m2b', 'content m4b'])
+      const forked = result.events[result.events.length - 1]
+      expect(forked.type === 'message' && forked.swipeGroupId).toBeNull()
+    })
+
+    it('uses the latest context summary inside the branch', () => {
+      const events = [
+        message('m1', 'USER'),
+        summary('s1', 'first summary'),
+        message('m2', 'ASSISTANT'),
+        summary('s2', 'later summary'),
+      ]
+
+      const result = buildForkedEvents(events, 'm2', 'later summary', idGenerator())!
+
+      expect(result.events.some(e => e.type === 'context-summary')).toBe(true)
+      expect(result.contextSummary).toBe('first summary')
+    })
+
+    it('keeps the original context when the chat has no summary events', () => {
+      const result = buildForkedEvents([message('m1', 'USER')], 'm1', 'A rainy harbour town')!
+      expect(result.contextSummary).toBe('A rainy harbour town')
+    })
+
+    it('drops a summary that was generated after the fork point', () => {
+      const events = [message('m1', 'USER'), message('m2', 'ASSISTANT'), summary('s1', 'summary')]
+      const result = buildForkedEvents(events, 'm1', 'summary')!
+      expect(result.contextSummary).toBeNull()
+    })
+  })
+
+  describe('orderChatsAsBranchTree', () => {
+    it('places forks beneath their parents with depth', () => {
+      const chats = [
+        { id: 'c', parentChatId: 'a' },
+        { id: 'a' },
+        { id: 'd', parentChatId: 'c' },
+        { id: 'b', parentChatId: null },
+      ]
+
+      const tree = orderChatsAsBranchTree(chats)
+
+      expect(tree.map(n => [n.chat.id, n.depth])).toEqual([
+        ['a', 0],
+        ['c', 1],
+        ['d', 2],
+        ['b', 0],
+      ])
+    })
+
+    it('treats chats with a missing parent as roots', () => {
+      const tree = orderChatsAsBranchTree([{ id: 'x', parentChatId: 'deleted' }])
+      expect(tree).toEqual([{ chat: { id: 'x', parentChatId: 'deleted' }, depth: 0 }])
+    })
+
+    it('does not loop forever on parent cycles', () => {
+      const tree = orderChatsAsBranchTree([
+        { id: 'a', parentChatId: 'b' },
+        { id: 'b', parentChatId: 'a' },
+      ])
+      expect(tree.map(n => n.chat.id).sort()).toEqual(['a', 'b'])
+    })
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for tool approval policies
+ * Tests lib/chat/tool-approval.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  cancelPendingToolApprovals,
+  requestToolApproval,
+  resolveToolApproval,
+  resolveToolPolicy,
+} from '@/lib/chat/tool-approval'
+
+describe('resolveToolPolicy', () => {
+  it('allows tools that no policy mentions', () => {
+    expect(resolveToolPolicy('search_web')).toBe('ALWAYS_ALLOW')
+    expect(resolveToolPolicy('search_web', {}, {})).toBe('ALWAYS_ALLOW')
+  })
+
+  it('prefers exact names over wildcards and the longest wildcard over shorter ones', () => {
+    const policies = { 'mcp__*': 'ASK' as const, 'mcp__files__*': 'NEVER' as const, 'mcp__files__read': 'ALWAYS_ALLOW' as const }
+
+    expect(resolveToolPolicy('mcp__notes__search', policies)).toBe('ASK')
+    expect(resolveToolPolicy('mcp__files__delete', policies)).toBe('NEVER')
+    expect(resolveToolPolicy('mcp__files__read', policies)).toBe('ALWAYS_ALLOW')
+  })
+
+  it('lets the chat override the chat settings', () => {
+    expect(resolveToolPolicy('generate_image', { generate_image: 'ASK' }, { generate_image: 'NEVER' })).toBe('NEVER')
+    expect(resolveToolPolicy('generate_image', { generate_image: 'ASK' }, { search_web: 'NEVER' })).toBe('ASK')
+    // A chat wildcard still beats an exact setting
+    expect(resolveToolPolicy('mcp__notes__search', { mcp__notes__search: 'ASK' }, { 'mcp__*': 'ALWAYS_ALLOW' })).toBe('ALWAYS_ALLOW')
+  })
+})
+
+describe('pending tool approvals', () => {
+  it('resolves with the user decision once', async () => {
+    const { approvalId, decision } = requestToolApproval({ chatId: 'chat-1', userId: 'user-1', toolName: 'generate_image' })
+
+    expect(resolveToolApproval(approvalId, 'user-2', 'chat-1', true)).toBe(false)
+    expect(resolveToolApproval(approvalId, 'user-1', 'chat-2', true)).toBe(false)
+    expect(resolveToolApproval(approvalId, 'user-1', 'chat-1', true)).toBe(true)
+    expect(resolveToolApproval(approvalId, 'user-1', 'chat-1', false)).toBe(false)
+
+    await expect(decision).resolves.toBe(true)
+  })
+
+  it('resolves to null when nobody answers in time', async () => {
+    const { approvalId, decision } = requestToolApproval({ chatId: 'chat-1', userId: 'user-1', toolName: 'search_web', timeoutMs: 10 })
+
+    await expect(decision).resolves.toBeNull()
+    expect(resolveToolApproval(approvalId, 'user-1', 'chat-1', true)).toBe(false)
+  })
+
+  it('denies everything still waiting in a cancelled chat', async () => {
+    const first = requestToolApproval({ chatId: 'chat-3', userId: 'user-1', toolName: 'search_web' })
+    const other = requestToolApproval({ chatId: 'chat-4', userId: 'user-1', toolName: 'search_web' })
+
+    cancelPendingToolApprovals('chat-3')
+
+    await expect(first.decision).resolves.toBe(false)
+    expect(resolveToolApproval(other.approvalId, 'user-1', 'chat-4', true)).toBe(true)
+    await expect(other.decision).resolves.toBe(true)
+  })
+})
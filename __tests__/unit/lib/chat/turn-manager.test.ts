@@ -0,0 +1,211 @@
+/**
+ * Tests for group chat turn orchestration.
+ * Covers eligibility, round-robin rotation, mention matching, manual mode,
+ * explicit speaker requests, and the NATURAL strategy's LLM fallback chain.
+ */
+
+import type { ChatEvent, ChatParticipantBase } from '@/lib/schemas/types'
+import {
+  getEligibleSpeakers,
+  selectNextSpeaker,
+  selectByMention,
+  findLastSpeakerId,
+} from '@/lib/chat/turn-manager'
+
+const now = '2025-01-01T00:00:00.000Z'
+
+function makeParticipant(id: string, displayOrder: number, overrides: Partial<ChatParticipantBase> = {}): ChatParticipantBase {
+  return {
+    id,
+    type: 'CHARACTER',
+    characterId: `char-${id}`,
+    personaId: null,
+    connectionProfileId: 'profile-1',
+    imageProfileId: null,
+    systemPromptOverride: null,
+    displayOrder,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  } as ChatParticipantBase
+}
+
+function assistantMessage(id: string, participantId: string | null): ChatEvent {
+  return {
+    type: 'message',
+    id,
+    role: 'ASSISTANT',
+    content: `reply ${id}`,
+    attachments: [],
+    createdAt: now,
+    participantId,
+  } as ChatEvent
+}
+
+const alice = makeParticipant('p-alice', 0)
+const bob = makeParticipant('p-bob', 1)
+const carol = makeParticipant('p-carol', 2)
+const persona = makeParticipant('p-persona', 3, { type: 'PERSONA', characterId: null, personaId: 'persona-1', connectionProfileId: null })
+const participants = [carol, persona, bob, alice]
+const names = { 'p-alice': 'Alice', 'p-bob': 'Bob', 'p-carol': 'Carol' }
+
+describe('lib/chat/turn-manager', () => {
+  it('returns active characters with connection profiles in display order', () => {
+    const inactive = makeParticipant('p-dave', 4, { isActive: false })
+    const noProfile = makeParticipant('p-erin', 5, { connectionProfileId: null })
+
+    const eligible = getEligibleSpeakers([...participants, inactive, noProfile])
+
+    expect(eligible.map(p => p.id)).toEqual(['p-alice', 'p-bob', 'p-carol'])
+  })
+
+  it('finds the last assistant speaker, ignoring messages without a participant', () => {
+    const messages = [assistantMessage('m1', 'p-bob'), assistantMessage('m2', null)]
+
+    expect(findLastSpeakerId(messages, [alice, bob, carol])).toBe('p-bob')
+    expect(findLastSpeakerId([], [alice, bob, carol])).toBeNull()
+  })
+
+  it('returns null when nobody can respond', async () => {
+    const result = await selectNextSpeaker({
+      strategy: 'ROUND_ROBIN',
+      participants: [persona],
+      names,
+      messages: [],
+    })
+
+    expect(result).toBeNull()
+  })
+
+  it('always picks the only character in a one-on-one chat', async () => {
+    const result = await selectNextSpeaker({
+      strategy: 'MENTION',
+      participants: [bob, persona],
+      names,
+      messages: [],
+      userMessage: 'Hello Alice',
+    })
+
+    expect(result).toEqual({ participant: bob, reason: 'only-speaker' })
+  })
+
+  it('rotates through characters in round-robin order and wraps around', async () => {
+    const first = await selectNextSpeaker({ strategy: 'ROUND_ROBIN', participants, names, messages: [] })
+    const afterBob = await selectNextSpeaker({
+      strategy: 'ROUND_ROBIN',
+      participants,
+      names,
+      messages: [assistantMessage('m1', 'p-bob')],
+    })
+    const afterCarol = await selectNextSpeaker({
+      strategy: 'ROUND_ROBIN',
+      participants,
+      names,
+      messages: [assistantMessage('m1', 'p-bob'), assistantMessage('m2', 'p-carol')],
+    })
+
+    expect(first?.participant.id).toBe('p-alice')
+    expect(afterBob?.participant.id).toBe('p-carol')
+    expect(afterCarol?.participant.id).toBe('p-alice')
+  })
+
+  it('honours an explicitly requested participant over the strategy', async () => {
+    const result = await selectNextSpeaker({
+      strategy: 'ROUND_ROBIN',
+      participants,
+      names,
+      messages: [],
+      requestedParticipantId: 'p-carol',
+    })
+
+    expect(result).toEqual({ participant: carol, reason: 'requested' })
+  })
+
+  it('ignores a requested participant that cannot respond', async () => {
+    const result = await selectNextSpeaker({
+      strategy: 'ROUND_ROBIN',
+      participants,
+      names,
+      messages: [],
+      requestedParticipantId: 'p-persona',
+    })
+
+    expect(result?.participant.id).toBe('p-alice')
+    expect(result?.reason).toBe('round-robin')
+  })
+
+  it('matches the earliest whole-word mention, case-insensitively', () => {
+    const candidates = [alice, bob, carol].map(p => ({ participant: p, name: names[p.id as keyof typeof names] }))
+
+    expect(selectByMention('what do you think, carol? and bob?', candidates)?.id).toBe('p-carol')
+    expect(selectByMention('@Bob over to you', candidates)?.id).toBe('p-bob')
+    expect(selectByMention('Bobby is not here', candidates)).toBeNull()
+    expect(selectByMention(undefined, candidates)).toBeNull()
+  })
+
+  it('uses mentions for the MENTION strategy and falls back to round robin', async () => {
+    const mentioned = await selectNextSpeaker({
+      strategy: 'MENTION',
+      participants,
+      names,
+      messages: [],
+      userMessage: 'Bob, open the door',
+    })
+    const unmentioned = await selectNextSpeaker({
+      strategy: 'MENTION',
+      participants,
+      names,
+      messages: [assistantMessage('m1', 'p-alice')],
+      userMessage: 'Someone open the door',
+    })
+
+    expect(mentioned).toEqual({ participant: bob, reason: 'mention' })
+    expect(unmentioned).toEqual({ participant: bob, reason: 'round-robin' })
+  })
+
+  it('keeps the last speaker in MANUAL mode', async () => {
+    const result = await selectNextSpeaker({
+      strategy: 'MANUAL',
+      participants,
+      names,
+      messages: [assistantMessage('m1', 'p-carol')],
+    })
+
+    expect(result).toEqual({ participant: carol, reason: 'manual' })
+  })
+
+  it('asks the natural selector and accepts a returned name', async () => {
+    const naturalSelector = jest.fn().mockResolvedValue('carol')
+
+    const result = await selectNextSpeaker({
+      strategy: 'NATURAL',
+      participants,
+      names,
+      messages: [],
+      userMessage: 'Hello everyone',
+      naturalSelector,
+    })
+
+    expect(naturalSelector).toHaveBeenCalledWith(
+      expect.arrayContaining([expect.objectContaining({ name: 'Carol' })]),
+      'Hello everyone'
+    )
+    expect(result).toEqual({ participant: carol, reason: 'natural' })
+  })
+
+  it('falls back to mentions when the natural selector fails', async () => {
+    const naturalSelector = jest.fn().mockRejectedValue(new Error('cheap LLM offline'))
+
+    const result = await selectNextSpeaker({
+      strategy: 'NATURAL',
+      participants,
+      names,
+      messages: [],
+      userMessage: 'Carol?',
+      naturalSelector,
+    })
+
+    expect(result).toEqual({ participant: carol, reason: 'mention' })
+  })
+})
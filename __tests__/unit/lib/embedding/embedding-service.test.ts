@@ -9,10 +9,32 @@ jest.mock('@/lib/repositories/factory', () => ({
 jest.mock('@/lib/encryption', () => ({
   decryptApiKey: jest.fn(),
 }))
+jest.mock('@/lib/embedding/local-embedding', () => {
+  const embedLocally = jest.fn()
+  return {
+    embedLocally,
+    localEmbeddingProvider: {
+      provider: 'LOCAL',
+      requiresApiKey: false,
+      embed: (text: string, params: { model: string }) => embedLocally(text, params.model),
+      embedBatch: jest.fn(),
+      getDimensions: () => null,
+    },
+  }
+})
+jest.mock('@/lib/plugins/provider-registry', () => ({
+  providerRegistry: {
+    getProvider: jest.fn(),
+    createEmbeddingProvider: jest.fn(),
+  },
+}))
 
 import * as embeddingService from '@/lib/embedding/embedding-service'
 import { getRepositories } from '@/lib/repositories/factory'
 import { decryptApiKey } from '@/lib/encryption'
+import { embedLocally } from '@/lib/embedding/local-embedding'
+import { providerRegistry } from '@/lib/plugins/provider-registry'
+import type { EmbeddingProvider } from '@/lib/embedding/base'
 import type { EmbeddingProfile } from '@/lib/schemas/types'
 
 const {
@@ -20,6 +42,8 @@ const {
   getEmbeddingProfile,
   generateEmbedding,
   generateEmbeddingForUser,
+  generateEmbeddingsBatch,
+  getEmbeddingProvider,
   extractSearchTerms,
   prepareForSearch,
   cosineSimilarity,
@@ -30,6 +54,8 @@ const {
 
 const mockGetRepositories = getRepositories as jest.MockedFunction<typeof getRepositories>
 const mockDecryptApiKey = decryptApiKey as jest.MockedFunction<typeof decryptApiKey>
+const mockEmbedLocally = embedLocally as jest.MockedFunction<typeof embedLocally>
+const mockRegistry = providerRegistry as jest.Mocked<typeof providerRegistry>
 
 const globalAny = global as typeof globalThis & { fetch: jest.MockedFunction<typeof fetch> }
 globalAny.fetch = jest.fn()
@@ -74,6 +100,7 @@ describe('embedding service', () => {
     mockRepos.embeddingProfiles.findById.mockResolvedValue(null)
     mockRepos.embeddingProfiles.findByUserId.mockResolvedValue([])
     mockRepos.connections.findApiKeyById.mockResolvedValue(null)
+    mockRegistry.getProvider.mockReturnValue(null)
   })
 
   it('calls OpenAI embeddings API when provider is OPENAI', async () => {
@@ -130,6 +157,30 @@ describe('embedding service', () => {
     expect(embedding.embedding.length).toBe(3)
   })
 
+  it('embeds in-process without network access when provider is LOCAL', async () => {
+    const profile = makeProfile({
+      provider: 'LOCAL',
+      apiKeyId: null,
+      baseUrl: null,
+      modelName: 'Xenova/all-MiniLM-L6-v2',
+      dimensions: 384,
+    })
+    mockEmbedLocally.mockResolvedValue([0.6, 0.8])
+
+    const embedding = await generateEmbedding('offline text', profile, userId)
+
+    expect(mockEmbedLocally).toHaveBeenCalledWith('offline text', 'Xenova/all-MiniLM-L6-v2')
+    expect(globalAny.fetch).not.toHaveBeenCalled()
+    expect(embedding).toEqual({ embedding: [0.6, 0.8], model: 'Xenova/all-MiniLM-L6-v2', dimensions: 2, provider: 'LOCAL' })
+  })
+
+  it('reports local model failures as embedding errors', async () => {
+    mockEmbedLocally.mockRejectedValue(new Error('model download failed'))
+
+    await expect(generateEmbedding('text', makeProfile({ provider: 'LOCAL', apiKeyId: null }), userId))
+      .rejects.toThrow('Local embedding failed: model download failed')
+  })
+
   it('throws when OpenAI profile lacks an API key', async () => {
     const profile = makeProfile({ apiKeyId: null })
     await expect(generateEmbedding('missing key', profile, userId)).rejects.toThrow('No API key found')
@@ -176,6 +227,55 @@ describe('embedding service', () => {
     expect(result.embedding).toEqual([0.2, 0.1])
   })
 
+  it('routes profiles through plugins that contribute an embedding provider', async () => {
+    const pluginProvider: EmbeddingProvider = {
+      provider: 'GOOGLE',
+      requiresApiKey: true,
+      embed: jest.fn(async () => [0.9, 0.1]),
+      embedBatch: jest.fn(async () => [[1, 0], [0, 1]]),
+      getDimensions: () => 2,
+    }
+    mockRegistry.getProvider.mockReturnValue({
+      capabilities: { embeddings: true },
+      createEmbeddingProvider: jest.fn(),
+    } as any)
+    mockRegistry.createEmbeddingProvider.mockReturnValue(pluginProvider)
+    mockRepos.connections.findApiKeyById.mockResolvedValue({ ciphertext: 'c', iv: 'i', authTag: 't' })
+    mockDecryptApiKey.mockReturnValue('g-key')
+    const profile = makeProfile({ provider: 'GOOGLE', baseUrl: null, modelName: 'gemini-embedding-001', dimensions: null })
+
+    const single = await generateEmbedding('hello', profile, userId)
+    const batch = await generateEmbeddingsBatch(['a', 'b'], profile, userId)
+
+    expect(mockRegistry.createEmbeddingProvider).toHaveBeenCalledWith('GOOGLE', undefined)
+    expect(pluginProvider.embed).toHaveBeenCalledWith('hello', { model: 'gemini-embedding-001', dimensions: undefined }, 'g-key')
+    expect(single).toMatchObject({ embedding: [0.9, 0.1], provider: 'GOOGLE', dimensions: 2 })
+    expect(batch.map(r => r.embedding)).toEqual([[1, 0], [0, 1]])
+    expect(globalAny.fetch).not.toHaveBeenCalled()
+  })
+
+  it('sends batches to OpenAI-compatible endpoints in one request', async () => {
+    mockRepos.connections.findApiKeyById.mockResolvedValue({ ciphertext: 'c', iv: 'i', authTag: 't' })
+    mockDecryptApiKey.mockReturnValue('sk-test')
+    globalAny.fetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+      }),
+    } as any)
+
+    const results = await generateEmbeddingsBatch(['first', 'second'], makeProfile(), userId)
+
+    expect(globalAny.fetch).toHaveBeenCalledTimes(1)
+    expect(JSON.parse((globalAny.fetch.mock.calls[0][1] as RequestInit).body as string).input).toEqual(['first', 'second'])
+    expect(results.map(r => r.embedding)).toEqual([[1, 0], [0, 1]])
+  })
+
+  it('rejects providers that are neither built in nor registered', () => {
+    expect(() => getEmbeddingProvider({ provider: 'MYSTERY', baseUrl: null }))
+      .toThrow('Unsupported embedding provider: MYSTERY')
+  })
+
   it('extracts keywords and phrases for fallback search', () => {
     const result = extractSearchTerms('"exact phrase" find quick brown fox jumps')
     expect(result.exactPhrases).toEqual(['exact phrase'])
@@ -0,0 +1,157 @@
+/**
+ * HNSW Index Unit Tests
+ * Tests lib/embedding/hnsw-index.ts, including a recall/latency benchmark
+ * against the brute-force cosine scan.
+ */
+
+import { describe, it, expect, beforeAll } from '@jest/globals'
+import { HnswIndex } from '@/lib/embedding/hnsw-index'
+import { cosineSimilarity } from '@/lib/embedding/embedding-service'
+
+/**
+ * Deterministic pseudo-random source (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Vectors scattered around a number of cluster centres, like topic-grouped memories
+ */
+function clusteredVectors(count: number, dimensions: number, clusters: number, random: () => number): number[][] {
+  const centres = Array.from({ length: clusters }, () =>
+    Array.from({ length: dimensions }, () => random() * 2 - 1)
+  )
+  return Array.from({ length: count }, (_, i) => {
+    const centre = centres[i % clusters]
+    return centre.map(value => value + (random() * 2 - 1) * 0.35)
+  })
+}
+
+function bruteForce(vectors: Map<string, number[]>, query: number[], limit: number): string[] {
+  return Array.from(vectors.entries())
+    .map(([id, vector]) => ({ id, score: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.id)
+}
+
+describe('HnswIndex', () => {
+  it('finds exact matches and returns cosine scores', () => {
+    const index = new HnswIndex({ random: seededRandom(1) })
+    index.add('a', [1, 0, 0])
+    index.add('b', [0, 1, 0])
+    index.add('c', [0.9, 0.1, 0])
+
+    const results = index.search([1, 0, 0], 2)
+
+    expect(results.map(r => r.id)).toEqual(['a', 'c'])
+    expect(results[0].score).toBeCloseTo(1)
+    expect(results[1].score).toBeCloseTo(cosineSimilarity([1, 0, 0], [0.9, 0.1, 0]))
+  })
+
+  it('removes nodes and keeps the rest searchable', () => {
+    const random = seededRandom(2)
+    const vectors = clusteredVectors(300, 16, 6, random)
+    const index = new HnswIndex({ random })
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector))
+
+    for (let i = 0; i < 300; i += 2) {
+      index.remove(`v${i}`)
+    }
+
+    expect(index.size).toBe(150)
+    expect(index.has('v0')).toBe(false)
+    for (let i = 1; i < 300; i += 30) {
+      expect(index.search(vectors[i], 1)[0].id).toBe(`v${i}`)
+    }
+  })
+
+  it('replaces a node that is added twice', () => {
+    const index = new HnswIndex({ random: seededRandom(3) })
+    index.add('a', [1, 0])
+    index.add('b', [0, 1])
+    index.add('a', [0, -1])
+
+    expect(index.size).toBe(2)
+    expect(index.search([0, -1], 1)[0].id).toBe('a')
+  })
+
+  it('applies the filter to returned results only', () => {
+    const index = new HnswIndex({ random: seededRandom(4) })
+    index.add('a', [1, 0])
+    index.add('b', [0.8, 0.2])
+    index.add('c', [0, 1])
+
+    const results = index.search([1, 0], 2, id => id !== 'a')
+
+    expect(results.map(r => r.id)).toEqual(['b', 'c'])
+  })
+
+  it('restores an exported graph without re-inserting', () => {
+    const random = seededRandom(5)
+    const vectors = clusteredVectors(200, 8, 4, random)
+    const index = new HnswIndex({ random })
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector))
+
+    const restored = new HnswIndex()
+    vectors.forEach((vector, i) => restored.restoreNode(`v${i}`, vector, index.exportNode(`v${i}`)!))
+
+    expect(restored.prune()).toEqual([])
+    expect(restored.search(vectors[42], 5)).toEqual(index.search(vectors[42], 5))
+  })
+
+  describe('benchmark against brute force', () => {
+    const count = 5000
+    const dimensions = 64
+    const queries = 50
+    const limit = 10
+    const vectors = new Map<string, number[]>()
+    let index: HnswIndex
+    let queryVectors: number[][]
+
+    beforeAll(() => {
+      const random = seededRandom(42)
+      clusteredVectors(count, dimensions, 50, random).forEach((vector, i) => vectors.set(`m${i}`, vector))
+      // Queries land near stored memories, as they do when recalling a topic
+      const queryRandom = seededRandom(7)
+      const stored = Array.from(vectors.values())
+      queryVectors = Array.from({ length: queries }, (_, i) =>
+        stored[(i * 97) % count].map(value => value + (queryRandom() * 2 - 1) * 0.2)
+      )
+
+      index = new HnswIndex({ random })
+      for (const [id, vector] of vectors) {
+        index.add(id, vector)
+      }
+    })
+
+    it('keeps recall@10 above 0.9 and answers faster than a linear scan', () => {
+      let found = 0
+      let annMs = 0
+      let bruteMs = 0
+
+      for (const query of queryVectors) {
+        let start = performance.now()
+        const expected = bruteForce(vectors, query, limit)
+        bruteMs += performance.now() - start
+
+        start = performance.now()
+        const actual = index.search(query, limit).map(result => result.id)
+        annMs += performance.now() - start
+
+        found += actual.filter(id => expected.includes(id)).length
+      }
+
+      const recall = found / (queries * limit)
+      expect(recall).toBeGreaterThanOrEqual(0.9)
+      expect(annMs).toBeLessThan(bruteMs)
+    })
+  })
+})
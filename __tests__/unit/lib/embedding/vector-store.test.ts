@@ -1,22 +1,251 @@
 /**
  * Vector Store Unit Tests
  *
- * Note: CharacterVectorStore requires MongoDB for persistence.
- * These tests are skipped in unit tests and require integration testing
- * with an actual MongoDB instance.
- *
- * TODO: Add integration tests for MongoDB vector store functionality
+ * CharacterVectorStore persists through the MongoDB vector indices
+ * repository, which is replaced here by an in-memory fake so chunking,
+ * incremental saves, version 1 migration and shadow generations can be
+ * checked without MongoDB.
  */
 
-import { describe, it } from '@jest/globals'
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import type { VectorEntry, VectorIndex, VectorIndexChunk } from '@/lib/mongodb/repositories/vector-indices.repository'
+import type * as VectorStoreModule from '@/lib/embedding/vector-store'
+
+const headers = new Map<string, VectorIndex>()
+const chunks = new Map<string, VectorIndexChunk>()
+// Mirrors the repository: generation 0 chunks belong to the plain character ID
+const chunkOwner = (characterId: string, generation: number) =>
+  generation === 0 ? characterId : `${characterId}@${generation}`
+const chunkKey = (characterId: string, chunkIndex: number, generation: number = 0) =>
+  `${chunkOwner(characterId, generation)}:${chunkIndex}`
+
+const fakeRepository = {
+  findByCharacterId: jest.fn(async (characterId: string) => headers.get(characterId) ?? null),
+  findChunks: jest.fn(async (characterId: string, generation: number = 0) =>
+    Array.from(chunks.values())
+      .filter(chunk => chunk.characterId === chunkOwner(characterId, generation))
+      .sort((a, b) => a.chunkIndex - b.chunkIndex)
+  ),
+  save: jest.fn(async (characterId: string, index: Omit<VectorIndex, 'id' | 'generation'> & { generation?: number }) => {
+    const doc = { ...index, generation: index.generation ?? 0, id: characterId }
+    headers.set(characterId, doc)
+    return doc
+  }),
+  saveChunk: jest.fn(async (characterId: string, chunkIndex: number, entries: VectorEntry[], generation: number = 0) => {
+    const characterIdForGeneration = chunkOwner(characterId, generation)
+    chunks.set(
+      chunkKey(characterId, chunkIndex, generation),
+      JSON.parse(JSON.stringify({ characterId: characterIdForGeneration, chunkIndex, entries, updatedAt: '' }))
+    )
+  }),
+  deleteChunk: jest.fn(async (characterId: string, chunkIndex: number, generation: number = 0) => {
+    chunks.delete(chunkKey(characterId, chunkIndex, generation))
+  }),
+  deleteGeneration: jest.fn(async (characterId: string, generation: number) => {
+    for (const [key, chunk] of chunks) {
+      if (chunk.characterId === chunkOwner(characterId, generation)) {
+        chunks.delete(key)
+      }
+    }
+  }),
+  delete: jest.fn(async () => true),
+}
+
+jest.mock('@/lib/mongodb/repositories/vector-indices.repository', () => ({
+  getMongoVectorIndicesRepository: () => fakeRepository,
+}))
+
+// jest.setup mocks the vector store for every suite, so load the real one
+const { CharacterVectorStore, VECTOR_INDEX_CHUNK_SIZE } =
+  jest.requireActual<typeof VectorStoreModule>('@/lib/embedding/vector-store')
+type CharacterVectorStore = InstanceType<typeof CharacterVectorStore>
+
+function vectorFor(i: number): number[] {
+  return [Math.cos(i), Math.sin(i), Math.cos(i * 0.37), Math.sin(i * 0.53)]
+}
+
+async function fillStore(store: CharacterVectorStore, count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await store.addVector(`m${i}`, vectorFor(i), { memoryId: `m${i}`, characterId: 'char-1' })
+  }
+}
 
 describe('CharacterVectorStore', () => {
-  describe.skip('MongoDB Integration Tests Required', () => {
-    it('should be tested with integration tests against MongoDB', () => {
-      // CharacterVectorStore now requires MongoDB
-      // Unit tests cannot run without mocking the MongoDB connection
-      // These tests should be moved to integration tests
+  beforeEach(() => {
+    headers.clear()
+    chunks.clear()
+    jest.clearAllMocks()
+  })
+
+  it('persists entries in fixed-size chunks and reloads them', async () => {
+    const store = new CharacterVectorStore('char-1')
+    await fillStore(store, VECTOR_INDEX_CHUNK_SIZE + 10)
+    await store.save()
+
+    expect(chunks.size).toBe(2)
+    expect(chunks.get('char-1:0')!.entries).toHaveLength(VECTOR_INDEX_CHUNK_SIZE)
+    expect(headers.get('char-1')).toMatchObject({ version: 2, dimensions: 4, entries: [], chunkCount: 2 })
+
+    const reloaded = new CharacterVectorStore('char-1')
+    await reloaded.load()
+
+    expect(reloaded.size).toBe(VECTOR_INDEX_CHUNK_SIZE + 10)
+    expect(reloaded.search(vectorFor(7), 1)[0].id).toBe('m7')
+  })
+
+  it('only rewrites chunks touched since the last save', async () => {
+    const store = new CharacterVectorStore('char-1', { hnsw: { m: 4 } })
+    await fillStore(store, VECTOR_INDEX_CHUNK_SIZE * 3)
+    await store.save()
+    fakeRepository.saveChunk.mockClear()
+
+    await store.removeVector('m5')
+    await store.save()
+
+    const rewritten = fakeRepository.saveChunk.mock.calls.map(call => call[1])
+    expect(rewritten).toContain(0)
+    expect(rewritten.length).toBeLessThanOrEqual(3)
+
+    fakeRepository.saveChunk.mockClear()
+    await store.save()
+    expect(fakeRepository.saveChunk).not.toHaveBeenCalled()
+  })
+
+  it('deletes chunks that become empty', async () => {
+    const store = new CharacterVectorStore('char-1')
+    await fillStore(store, 3)
+    await store.save()
+
+    store.clear()
+    await store.save()
+
+    expect(fakeRepository.deleteChunk).toHaveBeenCalledWith('char-1', 0, 0)
+    expect(chunks.size).toBe(0)
+    expect(headers.get('char-1')).toMatchObject({ chunkCount: 0 })
+  })
+
+  it('moves a version 1 index into chunks on the next save', async () => {
+    headers.set('char-1', {
+      id: 'char-1',
+      characterId: 'char-1',
+      version: 1,
+      dimensions: 4,
+      generation: 0,
+      entries: [0, 1, 2].map(i => ({
+        id: `m${i}`,
+        embedding: vectorFor(i),
+        metadata: { memoryId: `m${i}`, characterId: 'char-1' },
+        createdAt: '2024-01-01T00:00:00.000Z',
+      })),
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
     })
+
+    const store = new CharacterVectorStore('char-1')
+    await store.load()
+    expect(store.size).toBe(3)
+    expect(fakeRepository.findChunks).not.toHaveBeenCalled()
+
+    await store.save()
+
+    expect(headers.get('char-1')).toMatchObject({ version: 2, entries: [], chunkCount: 1 })
+    const stored = chunks.get('char-1:0')!.entries
+    expect(stored.map(entry => entry.id).sort()).toEqual(['m0', 'm1', 'm2'])
+    expect(stored.every(entry => entry.hnsw !== undefined)).toBe(true)
+  })
+
+  it('records the embedding model in the header', async () => {
+    const store = new CharacterVectorStore('char-1')
+    await fillStore(store, 3)
+    store.setModel({ provider: 'OPENAI', modelName: 'text-embedding-3-small' })
+    await store.save()
+
+    expect(headers.get('char-1')).toMatchObject({ generation: 0, model: { provider: 'OPENAI', modelName: 'text-embedding-3-small' } })
+
+    const reloaded = new CharacterVectorStore('char-1')
+    await reloaded.load()
+    expect(reloaded.getModel()).toEqual({ provider: 'OPENAI', modelName: 'text-embedding-3-small' })
+  })
+
+  it('builds a shadow generation without touching the live index', async () => {
+    const live = new CharacterVectorStore('char-1')
+    await fillStore(live, 3)
+    live.setModel({ provider: 'OPENAI', modelName: 'old-model' })
+    await live.save()
+
+    const shadow = new CharacterVectorStore('char-1', { shadowGeneration: 1 })
+    await shadow.load()
+    expect(shadow.size).toBe(0)
+    await shadow.addVector('m0', [1, 0, 0, 0, 0], { memoryId: 'm0', characterId: 'char-1' })
+    await shadow.save()
+
+    expect(chunks.has('char-1@1:0')).toBe(true)
+    expect(headers.get('char-1')).toMatchObject({ generation: 0, dimensions: 4, model: { modelName: 'old-model' } })
+
+    // A resumed job picks up what the shadow already holds
+    const resumed = new CharacterVectorStore('char-1', { shadowGeneration: 1 })
+    await resumed.load()
+    expect(resumed.hasVector('m0')).toBe(true)
+
+    const reloaded = new CharacterVectorStore('char-1')
+    await reloaded.load()
+    expect(reloaded.size).toBe(3)
+    expect(reloaded.getDimensions()).toBe(4)
+  })
+
+  it('swaps the live index over to an activated shadow and drops the old chunks', async () => {
+    const live = new CharacterVectorStore('char-1')
+    await fillStore(live, 3)
+    await live.save()
+
+    const shadow = new CharacterVectorStore('char-1', { shadowGeneration: 1 })
+    await shadow.load()
+    await shadow.addVector('m0', [1, 0, 0, 0, 0], { memoryId: 'm0', characterId: 'char-1' })
+    await shadow.activate({ provider: 'OLLAMA', modelName: 'new-model' })
+
+    expect(headers.get('char-1')).toMatchObject({ generation: 1, dimensions: 5, model: { modelName: 'new-model' } })
+    expect(fakeRepository.deleteGeneration).toHaveBeenCalledWith('char-1', 0)
+    expect(chunks.has('char-1:0')).toBe(false)
+
+    const reloaded = new CharacterVectorStore('char-1')
+    await reloaded.load()
+    expect(reloaded.getGeneration()).toBe(1)
+    expect(reloaded.search([1, 0, 0, 0, 0], 1)[0].id).toBe('m0')
+  })
+
+  it('drops saves from a retired store', async () => {
+    const store = new CharacterVectorStore('char-1')
+    await fillStore(store, 2)
+    store.retire()
+    await store.save()
+
+    expect(headers.size).toBe(0)
+    expect(chunks.size).toBe(0)
+  })
+
+  it('refuses to activate a live store', async () => {
+    const store = new CharacterVectorStore('char-1')
+    await expect(store.activate(null)).rejects.toThrow('Only a shadow vector index can be activated')
+  })
+
+  it('matches the exact scan when searching through the graph', async () => {
+    const store = new CharacterVectorStore('char-1', { annMinVectors: 1 })
+    await fillStore(store, 400)
+
+    const query = vectorFor(123.4)
+    const approximate = store.search(query, 5).map(result => result.id)
+    const exact = store.exactSearch(query, 5).map(result => result.id)
+
+    expect(approximate).toEqual(exact)
+  })
+
+  it('falls back to the exact scan when a filter leaves too few graph hits', async () => {
+    const store = new CharacterVectorStore('char-1', { annMinVectors: 1, hnsw: { efSearch: 4 } })
+    await fillStore(store, 200)
+
+    const results = store.search(vectorFor(0), 3, metadata => metadata.memoryId === 'm150' || metadata.memoryId === 'm151')
+
+    expect(results.map(result => result.id).sort()).toEqual(['m150', 'm151'])
   })
 })
 
@@ -0,0 +1,135 @@
+/**
+ * Tests for lorebook (world info) scanning.
+ * Covers keyword and regex matching, secondary keys, scan depth,
+ * constant entries, token budgets and before/after assembly.
+ */
+
+import type { Lorebook, LorebookEntry } from '@/lib/schemas/types'
+import { buildWorldInfo, compileEntryKey, matchEntry, scanLorebooks } from '@/lib/lorebooks/world-info'
+
+const now = '2025-01-01T00:00:00.000Z'
+
+function makeEntry(id: string, overrides: Partial<LorebookEntry> = {}): LorebookEntry {
+  return {
+    id,
+    name: id,
+    keys: [],
+    secondaryKeys: [],
+    useRegex: false,
+    caseSensitive: false,
+    matchWholeWords: true,
+    content: `Content of ${id}`,
+    constant: false,
+    enabled: true,
+    position: 'AFTER_CHARACTER',
+    insertionOrder: 100,
+    ...overrides,
+  }
+}
+
+function makeLorebook(entries: LorebookEntry[], overrides: Partial<Lorebook> = {}): Lorebook {
+  return {
+    id: 'book-1',
+    userId: 'user-1',
+    name: 'Eldoria',
+    entries,
+    scanDepth: 4,
+    tokenBudget: 1024,
+    enabled: true,
+    characterIds: [],
+    personaIds: [],
+    chatIds: [],
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }
+}
+
+describe('lib/lorebooks/world-info', () => {
+  it('matches whole-word keys case-insensitively by default', () => {
+    const entry = makeEntry('dragon', { keys: ['dragon'] })
+
+    expect(matchEntry(entry, 'A DRAGON appears')).toBe('dragon')
+    expect(matchEntry(entry, 'The dragonfly buzzes')).toBeNull()
+    expect(matchEntry({ ...entry, matchWholeWords: false }, 'The dragonfly buzzes')).toBe('dragon')
+    expect(matchEntry({ ...entry, caseSensitive: true }, 'A DRAGON appears')).toBeNull()
+  })
+
+  it('supports regex keys written as /pattern/flags and ignores invalid ones', () => {
+    const entry = makeEntry('wyrm', { keys: ['/wyrms?|drakes?/', '(unclosed'], useRegex: true })
+
+    expect(matchEntry(entry, 'Two Drakes circled')).toBe('/wyrms?|drakes?/')
+    expect(compileEntryKey('(unclosed', entry)).toBeNull()
+    expect(matchEntry(entry, 'Nothing here')).toBeNull()
+  })
+
+  it('requires a secondary key when secondary keys are set', () => {
+    const entry = makeEntry('king', { keys: ['king'], secondaryKeys: ['castle', 'throne'] })
+
+    expect(matchEntry(entry, 'The king rides out')).toBeNull()
+    expect(matchEntry(entry, 'The king sits on his throne')).toBe('king')
+  })
+
+  it('only scans messages within the scan depth, with per-entry overrides', () => {
+    const messages = ['We talked about the dragon', 'Then lunch', 'Then a nap']
+    const shallow = makeEntry('shallow', { keys: ['dragon'] })
+    const deep = makeEntry('deep', { keys: ['dragon'], scanDepth: 3 })
+    const book = makeLorebook([shallow, deep], { scanDepth: 2 })
+
+    const triggered = scanLorebooks([book], messages)
+
+    expect(triggered.map(t => t.entry.id)).toEqual(['deep'])
+  })
+
+  it('always includes constant entries and skips disabled entries and lorebooks', () => {
+    const constant = makeEntry('constant', { constant: true })
+    const disabled = makeEntry('disabled', { keys: ['dragon'], enabled: false })
+    const disabledBook = makeLorebook([makeEntry('other', { constant: true })], { id: 'book-2', enabled: false })
+
+    const triggered = scanLorebooks([makeLorebook([constant, disabled]), disabledBook], ['dragon'])
+
+    expect(triggered).toEqual([expect.objectContaining({ matchedKey: null, entry: constant })])
+  })
+
+  it('splits entries by position and orders them by insertion order', () => {
+    const book = makeLorebook([
+      makeEntry('late', { keys: ['castle'], insertionOrder: 200, content: 'Late' }),
+      makeEntry('early', { keys: ['castle'], insertionOrder: 10, content: 'Early' }),
+      makeEntry('before', { keys: ['castle'], position: 'BEFORE_CHARACTER', content: 'Before' }),
+    ])
+
+    const result = buildWorldInfo({ lorebooks: [book], messages: ['To the castle!'] })
+
+    expect(result.before).toBe('Before')
+    expect(result.after).toBe('Early\nLate')
+    expect(result.entries).toHaveLength(3)
+    expect(result.tokenCount).toBeGreaterThan(0)
+  })
+
+  it('keeps constant and higher-order entries when the token budget is tight', () => {
+    const long = 'x'.repeat(40)
+    const book = makeLorebook([
+      makeEntry('low', { keys: ['castle'], insertionOrder: 1, content: long }),
+      makeEntry('high', { keys: ['castle'], insertionOrder: 50, content: long }),
+      makeEntry('always', { constant: true, insertionOrder: 0, content: long }),
+    ], { tokenBudget: 30 })
+
+    const result = buildWorldInfo({ lorebooks: [book], messages: ['castle'] })
+
+    expect(result.entries.map(e => e.entryId)).toEqual(['always', 'high'])
+    expect(result.skippedForBudget).toBe(1)
+  })
+
+  it('resolves template variables inside entry content', () => {
+    const book = makeLorebook([makeEntry('bond', { constant: true, content: '{{char}} trusts {{user}}.' })])
+
+    const result = buildWorldInfo({
+      lorebooks: [book],
+      messages: [],
+      templateContext: { char: 'Alice', user: 'Bob' },
+    })
+
+    expect(result.after).toBe('Alice trusts Bob.')
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for the MCP client and tool mapping
+ */
+
+import { describe, it, expect, afterAll } from '@jest/globals'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { McpClient, McpError } from '@/lib/mcp/client'
+import {
+  buildMcpToolName,
+  formatMcpToolResult,
+  isMcpToolName,
+  mcpToolToUniversalTool,
+} from '@/lib/mcp/tools'
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qtap-mcp-'))
+
+// A tiny stdio MCP server with one "echo" tool
+const serverScript = path.join(tempDir, 'server.js')
+fs.writeFileSync(serverScript, `
+const readline = require('readline')
+const rl = readline.createInterface({ input: process.stdin })
+const send = (msg) => process.stdout.write(JSON.stringify(msg) + '\\n')
+process.stdout.write('starting up\\n')
+rl.on('line', (line) => {
+  const msg = JSON.parse(line)
+  if (msg.id === undefined) return
+  if (msg.method === 'initialize') {
+    send({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: msg.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'echo-server', version: '0.1.0' } } })
+  } else if (msg.method === 'tools/list') {
+    const page = msg.params && msg.params.cursor
+      ? { tools: [{ name: 'shout', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } }] }
+      : { tools: [{ name: 'echo', description: 'Echo text back', inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] } }], nextCursor: 'page-2' }
+    send({ jsonrpc: '2.0', id: msg.id, result: page })
+  } else if (msg.method === 'tools/call') {
+    if (msg.params.name === 'echo') {
+      send({ jsonrpc: '2.0', id: msg.id, result: { content: [{ type: 'text', text: 'echo: ' + msg.params.arguments.text }] } })
+    } else {
+      send({ jsonrpc: '2.0', id: msg.id, error: { code: -32602, message: 'Unknown tool ' + msg.params.name } })
+    }
+  }
+})
+`)
+
+describe('MCP tool mapping', () => {
+  it('builds namespaced, provider-safe tool names', () => {
+    expect(buildMcpToolName('filesystem', 'read_file')).toBe('mcp__filesystem__read_file')
+    expect(buildMcpToolName('My Notes!', 'search.notes')).toBe('mcp__My_Notes__search_notes')
+    expect(buildMcpToolName('a'.repeat(80), 'tool').length).toBe(64)
+    expect(isMcpToolName('mcp__notes__search')).toBe(true)
+    expect(isMcpToolName('search_web')).toBe(false)
+  })
+
+  it('converts MCP tools into universal tools', () => {
+    const tool = mcpToolToUniversalTool({
+      exposedName: 'mcp__notes__search',
+      serverId: 'server-1',
+      serverName: 'notes',
+      toolName: 'search',
+      tool: { name: 'search', inputSchema: { type: 'object', properties: { q: { type: 'string' } } } },
+    })
+
+    expect(tool).toEqual({
+      type: 'function',
+      function: {
+        name: 'mcp__notes__search',
+        description: '[notes] Tool "search"',
+        parameters: { type: 'object', properties: { q: { type: 'string' } }, required: [] },
+      },
+    })
+  })
+
+  it('flattens call results into text', () => {
+    expect(formatMcpToolResult({
+      content: [
+        { type: 'text', text: 'First' },
+        { type: 'image', data: 'abc', mimeType: 'image/png' },
+        { type: 'resource', resource: { uri: 'file:///a.txt' } },
+      ],
+    })).toBe('First\n\n[Image: image/png]\n\n[Resource: file:///a.txt]')
+    expect(formatMcpToolResult({ content: [], isError: true })).toBe('The tool reported an error without details.')
+  })
+})
+
+describe('McpClient (stdio)', () => {
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('initializes, lists tools across pages and calls a tool', async () => {
+    const client = new McpClient({ transport: 'stdio', command: process.execPath, args: [serverScript] }, { name: 'echo' })
+
+    try {
+      await client.connect()
+      expect(client.isConnected).toBe(true)
+      expect(client.serverInfo).toEqual({ name: 'echo-server', version: '0.1.0' })
+
+      const tools = await client.listTools()
+      expect(tools.map(tool => tool.name)).toEqual(['echo', 'shout'])
+
+      const result = await client.callTool('echo', { text: 'hello' })
+      expect(result).toEqual({ content: [{ type: 'text', text: 'echo: hello' }], isError: false })
+
+      await expect(client.callTool('missing', {})).rejects.toBeInstanceOf(McpError)
+    } finally {
+      client.close()
+    }
+
+    expect(client.isConnected).toBe(false)
+  })
+
+  it('fails when the command cannot be started', async () => {
+    const client = new McpClient(
+      { transport: 'stdio', command: path.join(tempDir, 'does-not-exist') },
+      { requestTimeoutMs: 2000 }
+    )
+
+    await expect(client.connect()).rejects.toBeInstanceOf(McpError)
+    client.close()
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for the MCP server policy
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals'
+import { checkMcpServerPolicy, isMcpCommandAllowed } from '@/lib/mcp/policy'
+
+const originalCommands = process.env.MCP_STDIO_COMMANDS
+
+describe('MCP server policy', () => {
+  beforeEach(() => {
+    delete process.env.MCP_STDIO_COMMANDS
+  })
+
+  afterAll(() => {
+    if (originalCommands === undefined) {
+      delete process.env.MCP_STDIO_COMMANDS
+    } else {
+      process.env.MCP_STDIO_COMMANDS = originalCommands
+    }
+  })
+
+  it('should refuse every stdio command when no allowlist is set', async () => {
+    expect(isMcpCommandAllowed('npx')).toBe(false)
+    await expect(checkMcpServerPolicy({ transport: 'stdio', command: 'npx' })).resolves.toEqual({
+      error: expect.stringContaining('MCP_STDIO_COMMANDS'),
+      status: 403,
+    })
+  })
+
+  it('should allow only the listed commands', async () => {
+    process.env.MCP_STDIO_COMMANDS = 'npx, uvx'
+
+    expect(isMcpCommandAllowed('uvx')).toBe(true)
+    await expect(checkMcpServerPolicy({ transport: 'stdio', command: 'npx' })).resolves.toBeNull()
+    await expect(checkMcpServerPolicy({ transport: 'stdio', command: '/bin/sh' })).resolves.toMatchObject({ status: 403 })
+  })
+
+  it('should allow any command with a wildcard', () => {
+    process.env.MCP_STDIO_COMMANDS = '*'
+
+    expect(isMcpCommandAllowed('/usr/bin/anything')).toBe(true)
+  })
+
+  it('should refuse SSE servers on private addresses', async () => {
+    await expect(
+      checkMcpServerPolicy({ transport: 'sse', url: 'http://169.254.169.254/sse' })
+    ).resolves.toEqual({ error: 'MCP servers must be on a public address', status: 400 })
+    await expect(
+      checkMcpServerPolicy({ transport: 'sse', url: 'https://93.184.216.34/sse' })
+    ).resolves.toBeNull()
+  })
+})
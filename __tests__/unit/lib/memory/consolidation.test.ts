@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for memory consolidation review
+ * Tests lib/memory/consolidation.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { Memory, MemoryProposal } from '@/lib/schemas/types'
+import { getRepositories } from '@/lib/repositories/factory'
+import { reviewMemoryGroup } from '@/lib/memory/cheap-llm-tasks'
+import { createMemoryWithEmbedding, deleteMemoryWithVector } from '@/lib/memory/memory-service'
+import {
+  groupSimilarMemories,
+  runConsolidationPass,
+  acceptMemoryProposal,
+} from '@/lib/memory/consolidation'
+import { makeMemory } from '@/__tests__/helpers/memory'
+
+jest.mock('@/lib/repositories/factory')
+jest.mock('@/lib/memory/cheap-llm-tasks', () => ({
+  reviewMemoryGroup: jest.fn(),
+}))
+jest.mock('@/lib/memory/memory-service', () => ({
+  createMemoryWithEmbedding: jest.fn(),
+  deleteMemoryWithVector: jest.fn(),
+}))
+
+const mockReviewMemoryGroup = jest.mocked(reviewMemoryGroup)
+const mockCreateMemoryWithEmbedding = jest.mocked(createMemoryWithEmbedding)
+const mockDeleteMemoryWithVector = jest.mocked(deleteMemoryWithVector)
+
+const selection = { provider: 'OPENAI', modelName: 'gpt-4o-mini', isLocal: false } as never
+
+function makeProposal(overrides: Partial<MemoryProposal> = {}): MemoryProposal {
+  return {
+    id: 'proposal-1',
+    characterId: 'char-1',
+    type: 'MERGE',
+    status: 'PENDING',
+    memoryIds: ['tea-1', 'tea-2'],
+    reason: 'Both describe tea',
+    content: 'Loves green tea in the morning',
+    summary: 'Loves green tea',
+    keywords: ['tea'],
+    importance: 0.7,
+    createdAt: '2025-01-02T00:00:00.000Z',
+    updatedAt: '2025-01-02T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const tea1 = makeMemory('tea-1', { summary: 'Loves green tea', content: 'She loves green tea every morning', embedding: [1, 0, 0], chatId: 'chat-a', sourceMessageId: 'msg-1' })
+const tea2 = makeMemory('tea-2', { summary: 'Drinks green tea', content: 'She drinks green tea with breakfast', embedding: [0.9, 0.1, 0], chatId: 'chat-b', sourceMessageId: 'msg-2', importance: 0.7, createdAt: '2025-01-05T00:00:00.000Z' })
+const sword = makeMemory('sword', { summary: 'Owns a sword', content: 'He carries an old sword', embedding: [0, 0, 1] })
+
+describe('groupSimilarMemories', () => {
+  it('groups memories by embedding similarity, oldest first', () => {
+    const groups = groupSimilarMemories([tea2, sword, tea1])
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].map(m => m.id)).toEqual(['tea-1', 'tea-2'])
+  })
+
+  it('falls back to term overlap without embeddings', () => {
+    const groups = groupSimilarMemories([
+      makeMemory('a', { summary: 'Loves green tea', content: 'loves green tea' }),
+      makeMemory('b', { summary: 'Loves green tea', content: 'loves green tea daily' }),
+      makeMemory('c', { summary: 'Owns a sword', content: 'carries an old sword' }),
+    ])
+
+    expect(groups.map(group => group.map(m => m.id))).toEqual([['a', 'b']])
+  })
+
+  it('only returns groups containing the focus memories', () => {
+    const other1 = makeMemory('other-1', { embedding: [0, 1, 0] })
+    const other2 = makeMemory('other-2', { embedding: [0, 0.95, 0.05] })
+
+    expect(groupSimilarMemories([tea1, tea2, other1, other2], undefined, ['tea-2'])).toHaveLength(1)
+    expect(groupSimilarMemories([tea1, tea2, other1, other2], undefined, ['sword'])).toHaveLength(0)
+  })
+})
+
+describe('runConsolidationPass', () => {
+  const mockRepos = {
+    memories: {
+      findByCharacterId: jest.fn<Promise<Memory[]>, []>(),
+    },
+    memoryProposals: {
+      findByCharacterId: jest.fn<Promise<MemoryProposal[]>, []>(),
+      create: jest.fn<Promise<MemoryProposal>, [data: Omit<MemoryProposal, 'id' | 'createdAt' | 'updatedAt'>]>(),
+    },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+    mockRepos.memories.findByCharacterId.mockResolvedValue([tea1, tea2, sword])
+    mockRepos.memoryProposals.findByCharacterId.mockResolvedValue([])
+    mockRepos.memoryProposals.create.mockImplementation(async data => makeProposal(data))
+  })
+
+  it('queues a proposal for each group the cheap LLM wants to merge', async () => {
+    mockReviewMemoryGroup.mockResolvedValue({
+      success: true,
+      result: { verdict: 'merge', reason: 'Both describe tea', content: 'Loves green tea', summary: 'Tea lover' },
+    })
+
+    const result = await runConsolidationPass('char-1', { userId: 'user-1', selection })
+
+    expect(result.groupsReviewed).toBe(1)
+    expect(mockRepos.memoryProposals.create).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'MERGE',
+      memoryIds: ['tea-1', 'tea-2'],
+      importance: 0.7,
+    }))
+  })
+
+  it('queues nothing for distinct memories', async () => {
+    mockReviewMemoryGroup.mockResolvedValue({ success: true, result: { verdict: 'distinct', reason: 'Different' } })
+
+    const result = await runConsolidationPass('char-1', { userId: 'user-1', selection })
+
+    expect(result.proposals).toHaveLength(0)
+    expect(mockRepos.memoryProposals.create).not.toHaveBeenCalled()
+  })
+
+  it('skips groups that are pending or were rejected', async () => {
+    mockRepos.memoryProposals.findByCharacterId.mockResolvedValue([makeProposal({ status: 'REJECTED' })])
+
+    const result = await runConsolidationPass('char-1', { userId: 'user-1', selection })
+
+    expect(result.groupsReviewed).toBe(0)
+    expect(mockReviewMemoryGroup).not.toHaveBeenCalled()
+  })
+})
+
+describe('acceptMemoryProposal', () => {
+  const mockRepos = {
+    memories: {
+      findByIdForCharacter: jest.fn<Promise<Memory | null>, [characterId: string, id: string]>(),
+    },
+    memoryProposals: {
+      update: jest.fn<Promise<MemoryProposal>, [id: string, data: Partial<MemoryProposal>]>(),
+    },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+    const byId = new Map([[tea1.id, tea1], [tea2.id, tea2]])
+    mockRepos.memories.findByIdForCharacter.mockImplementation(async (_characterId, id) => byId.get(id) ?? null)
+    mockRepos.memoryProposals.update.mockImplementation(async (_id, data) => makeProposal(data))
+    mockCreateMemoryWithEmbedding.mockResolvedValue(makeMemory('merged'))
+  })
+
+  it('replaces the memories and keeps their source messages', async () => {
+    const result = await acceptMemoryProposal(makeProposal(), { summary: 'Edited' }, { userId: 'user-1' })
+
+    const input = mockCreateMemoryWithEmbedding.mock.calls[0][0]
+    expect(input.summary).toBe('Edited')
+    expect(input.chatId).toBeNull()
+    expect(input.consolidatedFrom).toEqual([
+      expect.objectContaining({ memoryId: 'tea-1', chatId: 'chat-a', sourceMessageId: 'msg-1' }),
+      expect.objectContaining({ memoryId: 'tea-2', chatId: 'chat-b', sourceMessageId: 'msg-2' }),
+    ])
+    expect(mockDeleteMemoryWithVector).toHaveBeenCalledTimes(2)
+    expect(result!.proposal).toMatchObject({ status: 'ACCEPTED', resultMemoryId: 'merged' })
+  })
+
+  it('carries provenance through memories that were already merged', async () => {
+    const provenance = { memoryId: 'orig', chatId: 'chat-z', sourceMessageId: 'msg-0', summary: 'Original', createdAt: tea1.createdAt }
+    mockRepos.memories.findByIdForCharacter.mockImplementation(async (_characterId, id) =>
+      id === 'tea-1' ? { ...tea1, consolidatedFrom: [provenance] } : tea2)
+
+    await acceptMemoryProposal(makeProposal(), {}, { userId: 'user-1' })
+
+    expect(mockCreateMemoryWithEmbedding.mock.calls[0][0].consolidatedFrom).toEqual([
+      provenance,
+      expect.objectContaining({ memoryId: 'tea-2', sourceMessageId: 'msg-2' }),
+    ])
+  })
+
+  it('returns null when the memories are gone', async () => {
+    mockRepos.memories.findByIdForCharacter.mockResolvedValue(null)
+
+    expect(await acceptMemoryProposal(makeProposal(), {}, { userId: 'user-1' })).toBeNull()
+    expect(mockCreateMemoryWithEmbedding).not.toHaveBeenCalled()
+  })
+})
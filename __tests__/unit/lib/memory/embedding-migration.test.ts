@@ -0,0 +1,268 @@
+/**
+ * Unit Tests for embedding model migration
+ * Tests lib/memory/embedding-migration.ts
+ *
+ * The real vector store runs against an in-memory vector indices repository,
+ * so the shadow generation and the swap can be checked end to end.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { EmbeddingMigration, EmbeddingProfile, Memory } from '@/lib/schemas/types'
+import type { VectorEntry, VectorIndex, VectorIndexChunk } from '@/lib/mongodb/repositories/vector-indices.repository'
+import { getRepositories } from '@/lib/repositories/factory'
+import {
+  generateEmbeddingsBatch,
+  getEmbeddingProfile,
+  getUserEmbeddingProfiles,
+} from '@/lib/embedding/embedding-service'
+import { CharacterVectorStore, getVectorStoreManager } from '@/lib/embedding/vector-store'
+import {
+  indexNeedsMigration,
+  resolveQueryProfileId,
+  runEmbeddingMigration,
+} from '@/lib/memory/embedding-migration'
+import { makeMemory } from '@/__tests__/helpers/memory'
+
+const headers = new Map<string, VectorIndex>()
+const chunks = new Map<string, VectorIndexChunk>()
+const chunkOwner = (characterId: string, generation: number) =>
+  generation === 0 ? characterId : `${characterId}@${generation}`
+
+const fakeIndices = {
+  findByCharacterId: jest.fn(async (characterId: string) => headers.get(characterId) ?? null),
+  findChunks: jest.fn(async (characterId: string, generation: number = 0) =>
+    Array.from(chunks.values()).filter(chunk => chunk.characterId === chunkOwner(characterId, generation))
+  ),
+  save: jest.fn(async (characterId: string, index: Omit<VectorIndex, 'id' | 'generation'> & { generation?: number }) => {
+    const doc = { ...index, generation: index.generation ?? 0, id: characterId }
+    headers.set(characterId, doc)
+    return doc
+  }),
+  saveChunk: jest.fn(async (characterId: string, chunkIndex: number, entries: VectorEntry[], generation: number = 0) => {
+    const owner = chunkOwner(characterId, generation)
+    chunks.set(`${owner}:${chunkIndex}`, JSON.parse(JSON.stringify({ characterId: owner, chunkIndex, entries, updatedAt: '' })))
+  }),
+  deleteChunk: jest.fn(async (characterId: string, chunkIndex: number, generation: number = 0) => {
+    chunks.delete(`${chunkOwner(characterId, generation)}:${chunkIndex}`)
+  }),
+  deleteGeneration: jest.fn(async (characterId: string, generation: number) => {
+    for (const [key, chunk] of chunks) {
+      if (chunk.characterId === chunkOwner(characterId, generation)) {
+        chunks.delete(key)
+      }
+    }
+  }),
+  delete: jest.fn(async () => true),
+}
+
+jest.mock('@/lib/repositories/factory')
+jest.mock('@/lib/mongodb/repositories/vector-indices.repository', () => ({
+  getMongoVectorIndicesRepository: () => fakeIndices,
+}))
+jest.mock('@/lib/embedding/embedding-service', () => ({
+  cosineSimilarity: jest.requireActual('@/lib/embedding/embedding-service').cosineSimilarity,
+  generateEmbeddingsBatch: jest.fn(),
+  getEmbeddingProfile: jest.fn(),
+  getUserEmbeddingProfiles: jest.fn(),
+  getEffectiveEmbeddingProfile: jest.fn(),
+}))
+// jest.setup mocks the vector store for every suite, so load the real one
+jest.mock('@/lib/embedding/vector-store', () => jest.requireActual('@/lib/embedding/vector-store'))
+
+const mockGenerateEmbeddingsBatch = jest.mocked(generateEmbeddingsBatch)
+const mockGetEmbeddingProfile = jest.mocked(getEmbeddingProfile)
+const mockGetUserEmbeddingProfiles = jest.mocked(getUserEmbeddingProfiles)
+
+const OLD_MODEL = { provider: 'OPENAI', modelName: 'text-embedding-3-small' }
+const NEW_MODEL = { provider: 'OLLAMA', modelName: 'nomic-embed-text' }
+
+function makeProfile(id: string, model: { provider: string; modelName: string }, overrides: Partial<EmbeddingProfile> = {}): EmbeddingProfile {
+  return {
+    id,
+    userId: 'user-1',
+    name: id,
+    provider: model.provider,
+    modelName: model.modelName,
+    isDefault: false,
+    tags: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  } as EmbeddingProfile
+}
+
+const newProfile = makeProfile('profile-new', NEW_MODEL)
+const memories = ['m0', 'm1', 'm2'].map(id => makeMemory(id))
+
+// Three-dimension vectors stand in for the new model, four for the old one
+const newVectorFor = (text: string) => [1, text.length, 0]
+
+const migrations = new Map<string, EmbeddingMigration>()
+
+const mockRepos = {
+  memories: {
+    findByCharacterId: jest.fn<Promise<Memory[]>, []>(),
+    updateForCharacter: jest.fn<Promise<Memory | null>, [characterId: string, id: string, data: Partial<Memory>]>(),
+  },
+  embeddingMigrations: {
+    findById: jest.fn(async (id: string) => migrations.get(id) ?? null),
+    update: jest.fn(async (id: string, data: Partial<EmbeddingMigration>) => {
+      const updated = { ...migrations.get(id)!, ...data }
+      migrations.set(id, updated)
+      return updated
+    }),
+  },
+}
+
+function makeMigration(overrides: Partial<EmbeddingMigration> = {}): EmbeddingMigration {
+  const migration: EmbeddingMigration = {
+    id: 'migration-1',
+    userId: 'user-1',
+    characterId: 'char-1',
+    status: 'RUNNING',
+    embeddingProfileId: newProfile.id,
+    toModel: NEW_MODEL,
+    fromModel: OLD_MODEL,
+    generation: 1,
+    total: 3,
+    processed: 0,
+    error: null,
+    completedAt: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+  migrations.set(migration.id, migration)
+  return migration
+}
+
+async function seedLiveIndex(): Promise<void> {
+  const live = new CharacterVectorStore('char-1')
+  for (const [i, memory] of memories.entries()) {
+    await live.addVector(memory.id, [i, 1, 0, 0], { memoryId: memory.id, characterId: 'char-1' })
+  }
+  live.setModel(OLD_MODEL)
+  await live.save()
+}
+
+describe('runEmbeddingMigration', () => {
+  beforeEach(async () => {
+    headers.clear()
+    chunks.clear()
+    migrations.clear()
+    jest.clearAllMocks()
+    getVectorStoreManager().unloadStore('char-1')
+    ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+    mockRepos.memories.findByCharacterId.mockResolvedValue(memories)
+    mockRepos.memories.updateForCharacter.mockResolvedValue(null)
+    mockGetEmbeddingProfile.mockResolvedValue(newProfile)
+    mockGenerateEmbeddingsBatch.mockImplementation(async texts =>
+      texts.map(text => ({ embedding: newVectorFor(text), model: NEW_MODEL.modelName, dimensions: 3, provider: NEW_MODEL.provider }))
+    )
+    await seedLiveIndex()
+  })
+
+  it('re-embeds every memory into a shadow index and swaps it in', async () => {
+    makeMigration()
+
+    const result = await runEmbeddingMigration('migration-1')
+
+    expect(result).toMatchObject({ status: 'COMPLETED', processed: 3, total: 3 })
+    expect(headers.get('char-1')).toMatchObject({ generation: 1, dimensions: 3, model: NEW_MODEL })
+    expect(chunks.has('char-1:0')).toBe(false)
+
+    const live = await getVectorStoreManager().getStore('char-1')
+    expect(live.getModel()).toEqual(NEW_MODEL)
+    expect(live.size).toBe(3)
+    expect(mockRepos.memories.updateForCharacter).toHaveBeenCalledTimes(3)
+    expect(mockRepos.memories.updateForCharacter).toHaveBeenCalledWith('char-1', 'm0', { embedding: expect.any(Array) })
+  })
+
+  it('leaves the old index serving while the shadow is incomplete', async () => {
+    makeMigration()
+    mockGenerateEmbeddingsBatch.mockRejectedValueOnce(new Error('Provider unreachable'))
+
+    const result = await runEmbeddingMigration('migration-1')
+
+    expect(result).toMatchObject({ status: 'FAILED', error: 'Provider unreachable' })
+    expect(headers.get('char-1')).toMatchObject({ generation: 0, dimensions: 4, model: OLD_MODEL })
+    expect(mockRepos.memories.updateForCharacter).not.toHaveBeenCalled()
+  })
+
+  it('resumes from the memories already in the shadow', async () => {
+    makeMigration({ status: 'FAILED', processed: 1 })
+    const shadow = new CharacterVectorStore('char-1', { shadowGeneration: 1 })
+    await shadow.addVector('m0', newVectorFor('m0'), { memoryId: 'm0', characterId: 'char-1' })
+    await shadow.save()
+
+    const result = await runEmbeddingMigration('migration-1')
+
+    expect(result).toMatchObject({ status: 'COMPLETED', processed: 3 })
+    const embedded = mockGenerateEmbeddingsBatch.mock.calls.flatMap(call => call[0])
+    expect(embedded).toHaveLength(2)
+    expect(embedded.some(text => text.includes('Summary of m0'))).toBe(false)
+  })
+
+  it('does nothing once the job has been cancelled', async () => {
+    makeMigration({ status: 'CANCELLED' })
+
+    const result = await runEmbeddingMigration('migration-1')
+
+    expect(result?.status).toBe('CANCELLED')
+    expect(mockGenerateEmbeddingsBatch).not.toHaveBeenCalled()
+    expect(headers.get('char-1')).toMatchObject({ generation: 0, model: OLD_MODEL })
+  })
+
+  it('fails when the target profile has been deleted', async () => {
+    makeMigration()
+    mockGetEmbeddingProfile.mockResolvedValue(null)
+
+    const result = await runEmbeddingMigration('migration-1')
+
+    expect(result?.status).toBe('FAILED')
+    expect(mockGenerateEmbeddingsBatch).not.toHaveBeenCalled()
+  })
+})
+
+describe('indexNeedsMigration', () => {
+  it('compares recorded models', () => {
+    expect(indexNeedsMigration({ model: OLD_MODEL, dimensions: 1536 }, newProfile)).toBe(true)
+    expect(indexNeedsMigration({ model: NEW_MODEL, dimensions: 768 }, newProfile)).toBe(false)
+  })
+
+  it('falls back to dimensions for indices without a recorded model', () => {
+    expect(indexNeedsMigration({ model: null, dimensions: 1536 }, makeProfile('p', NEW_MODEL, { dimensions: 768 }))).toBe(true)
+    expect(indexNeedsMigration({ model: null, dimensions: 1536 }, newProfile)).toBe(false)
+  })
+
+  it('never migrates an empty index', () => {
+    expect(indexNeedsMigration({ model: OLD_MODEL, dimensions: null }, newProfile)).toBe(false)
+  })
+})
+
+describe('resolveQueryProfileId', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUserEmbeddingProfiles.mockResolvedValue([
+      makeProfile('profile-old', OLD_MODEL),
+      makeProfile('profile-new', NEW_MODEL, { isDefault: true }),
+    ])
+  })
+
+  it('embeds queries with a profile matching the live index model', async () => {
+    const store = new CharacterVectorStore('char-2')
+    await store.addVector('m0', [1, 0, 0, 0], { memoryId: 'm0', characterId: 'char-2' })
+    store.setModel(OLD_MODEL)
+
+    expect(await resolveQueryProfileId(store, 'user-1', 'profile-new')).toBe('profile-old')
+    expect(await resolveQueryProfileId(store, 'user-1')).toBe('profile-old')
+  })
+
+  it('keeps the requested profile when the index was built with it', async () => {
+    const store = new CharacterVectorStore('char-2')
+    await store.addVector('m0', [1, 0, 0], { memoryId: 'm0', characterId: 'char-2' })
+    store.setModel(NEW_MODEL)
+
+    expect(await resolveQueryProfileId(store, 'user-1', 'profile-new')).toBe('profile-new')
+  })
+})
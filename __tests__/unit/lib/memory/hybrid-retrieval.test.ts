@@ -0,0 +1,208 @@
+/**
+ * Unit Tests for hybrid memory retrieval
+ * Tests lib/memory/hybrid-retrieval.ts and its use in searchMemoriesSemantic
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { Memory } from '@/lib/schemas/types'
+import { getRepositories } from '@/lib/repositories/factory'
+import { generateEmbeddingForUser } from '@/lib/embedding/embedding-service'
+import { getCharacterVectorStore, type ICharacterVectorStore } from '@/lib/embedding/vector-store'
+import {
+  bm25Rank,
+  mmrSelect,
+  rankMemories,
+  reciprocalRankFusion,
+  recencyBoost,
+  resolveRetrievalSettings,
+  DEFAULT_MEMORY_RETRIEVAL_SETTINGS,
+} from '@/lib/memory/hybrid-retrieval'
+import { searchMemoriesSemantic } from '@/lib/memory/memory-service'
+import { makeMemory } from '@/__tests__/helpers/memory'
+
+jest.mock('@/lib/repositories/factory')
+jest.mock('@/lib/embedding/embedding-service', () => ({
+  ...jest.requireActual('@/lib/embedding/embedding-service'),
+  generateEmbeddingForUser: jest.fn(),
+}))
+jest.mock('@/lib/embedding/vector-store', () => ({
+  getCharacterVectorStore: jest.fn(),
+  getVectorStoreManager: jest.fn(),
+}))
+
+const mockGenerateEmbeddingForUser = jest.mocked(generateEmbeddingForUser)
+const mockGetCharacterVectorStore = jest.mocked(getCharacterVectorStore)
+
+const NOW = new Date('2025-06-01T00:00:00.000Z').getTime()
+
+const memories = [
+  makeMemory('cat', { summary: 'User has a cat', content: 'The user adopted a grey cat named Whiskers.', keywords: ['cat', 'pet'] }),
+  makeMemory('cat-dup', { summary: 'User owns a cat', content: 'The user adopted a grey cat named Whiskers last spring.', keywords: ['cat'] }),
+  makeMemory('job', { summary: 'User works as a nurse', content: 'The user works night shifts as a nurse at the hospital.', keywords: ['job', 'nurse'] }),
+  makeMemory('trip', { summary: 'Trip to Lisbon', content: 'The user is planning a trip to Lisbon in autumn.', keywords: ['travel'], source: 'MANUAL' }),
+]
+
+describe('bm25Rank', () => {
+  it('scores only memories that share terms with the query', () => {
+    const results = bm25Rank('Whiskers the cat', memories)
+
+    expect(results.map(r => r.id).sort()).toEqual(['cat', 'cat-dup'])
+    expect(results.every(r => r.score > 0)).toBe(true)
+  })
+
+  it('weights keywords above body text', () => {
+    const results = bm25Rank('pet', [
+      makeMemory('body', { content: 'Something about a pet and other things entirely unrelated to anything.' }),
+      makeMemory('keyword', { content: 'Something else entirely.', keywords: ['pet'] }),
+    ])
+
+    expect(results[0].id).toBe('keyword')
+  })
+
+  it('ignores stop words', () => {
+    expect(bm25Rank('the and of', memories)).toEqual([])
+  })
+})
+
+describe('reciprocalRankFusion', () => {
+  it('rewards items ranked well in several lists', () => {
+    const fused = reciprocalRankFusion([
+      { ids: ['a', 'b', 'c'], weight: 1 },
+      { ids: ['b', 'c', 'a'], weight: 1 },
+    ], 60)
+
+    expect(fused.get('b')).toBeGreaterThan(fused.get('a')!)
+    expect(fused.get('b')).toBeCloseTo(1 / 62 + 1 / 61)
+  })
+
+  it('skips rankings with no weight', () => {
+    const fused = reciprocalRankFusion([
+      { ids: ['a'], weight: 0 },
+      { ids: ['b'], weight: 1 },
+    ], 60)
+
+    expect(fused.has('a')).toBe(false)
+  })
+})
+
+describe('recencyBoost', () => {
+  it('halves at the half-life', () => {
+    const memory = makeMemory('m', { createdAt: '2025-05-02T00:00:00.000Z' })
+    expect(recencyBoost(memory, 30, NOW)).toBeCloseTo(0.5)
+    expect(recencyBoost(makeMemory('new', { createdAt: '2025-06-01T00:00:00.000Z' }), 30, NOW)).toBe(1)
+  })
+})
+
+describe('mmrSelect', () => {
+  const items = [
+    { id: 'a', score: 1.0, group: 1 },
+    { id: 'a2', score: 0.95, group: 1 },
+    { id: 'b', score: 0.8, group: 2 },
+  ]
+  const similarity = (x: { group: number }, y: { group: number }) => (x.group === y.group ? 1 : 0)
+
+  it('ranks purely by score when lambda is 1', () => {
+    expect(mmrSelect(items, 2, 1, similarity).map(i => i.id)).toEqual(['a', 'a2'])
+  })
+
+  it('prefers a different item over a near-duplicate', () => {
+    expect(mmrSelect(items, 2, 0.7, similarity).map(i => i.id)).toEqual(['a', 'b'])
+  })
+})
+
+describe('rankMemories', () => {
+  it('fuses lexical and vector rankings', () => {
+    const results = rankMemories({
+      query: 'where does the user work',
+      memories,
+      vectorResults: [{ id: 'job', score: 0.9 }, { id: 'trip', score: 0.4 }],
+      limit: 3,
+      settings: resolveRetrievalSettings({ mmrLambda: 1 }),
+      now: NOW,
+    })
+
+    expect(results[0].memory.id).toBe('job')
+    expect(results[0].semanticScore).toBe(0.9)
+    expect(results.map(r => r.memory.id)).toContain('trip')
+    expect(results[0].score).toBeGreaterThan(0)
+    expect(results[0].score).toBeLessThanOrEqual(1)
+  })
+
+  it('keeps near-duplicates from crowding the results', () => {
+    const query = 'grey cat Whiskers nurse'
+    const plain = rankMemories({ query, memories, limit: 2, settings: resolveRetrievalSettings({ mmrLambda: 1 }), now: NOW })
+    const diverse = rankMemories({ query, memories, limit: 2, settings: resolveRetrievalSettings({ mmrLambda: 0.3 }), now: NOW })
+
+    expect(plain.map(r => r.memory.id).sort()).toEqual(['cat', 'cat-dup'])
+    expect(diverse.map(r => r.memory.id)).toContain('job')
+  })
+
+  it('applies importance and recency boosts', () => {
+    const tied = [
+      makeMemory('old-important', { content: 'Tea with grandmother', importance: 1, createdAt: '2024-01-01T00:00:00.000Z' }),
+      makeMemory('new-trivial', { content: 'Tea with grandmother', importance: 0, createdAt: '2025-06-01T00:00:00.000Z' }),
+    ]
+
+    const byImportance = rankMemories({ query: 'tea', memories: tied, limit: 2, settings: resolveRetrievalSettings({ importanceWeight: 1, mmrLambda: 1 }), now: NOW })
+    const byRecency = rankMemories({ query: 'tea', memories: tied, limit: 2, settings: resolveRetrievalSettings({ recencyWeight: 1, mmrLambda: 1 }), now: NOW })
+
+    expect(byImportance[0].memory.id).toBe('old-important')
+    expect(byRecency[0].memory.id).toBe('new-trivial')
+  })
+})
+
+describe('resolveRetrievalSettings', () => {
+  it('layers overrides over the defaults and ignores unset values', () => {
+    const settings = resolveRetrievalSettings({ lexicalWeight: 0.5 }, null, { semanticWeight: undefined, rrfK: 10 })
+
+    expect(settings).toEqual({ ...DEFAULT_MEMORY_RETRIEVAL_SETTINGS, lexicalWeight: 0.5, rrfK: 10 })
+  })
+})
+
+describe('searchMemoriesSemantic', () => {
+  const mockRepos = {
+    characters: { findById: jest.fn<Promise<unknown>, []>() },
+    memories: { findByCharacterId: jest.fn<Promise<Memory[]>, []>() },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+    mockRepos.memories.findByCharacterId.mockResolvedValue(memories)
+  })
+
+  it('still ranks lexically when embeddings are unavailable', async () => {
+    mockRepos.characters.findById.mockResolvedValue({ id: 'char-1', memoryRetrieval: null })
+    mockGenerateEmbeddingForUser.mockRejectedValue(new Error('No embedding profile'))
+
+    const results = await searchMemoriesSemantic('char-1', 'nurse at the hospital', { userId: 'user-1' })
+
+    expect(results[0].memory.id).toBe('job')
+    expect(results[0].usedEmbedding).toBe(false)
+    expect(results[0].lexicalScore).toBeGreaterThan(0)
+  })
+
+  it('skips the embedding call when the character turns semantic search off', async () => {
+    mockRepos.characters.findById.mockResolvedValue({ id: 'char-1', memoryRetrieval: { semanticWeight: 0 } })
+
+    const results = await searchMemoriesSemantic('char-1', 'Lisbon', { userId: 'user-1', minImportance: 0.5 })
+
+    expect(mockGenerateEmbeddingForUser).not.toHaveBeenCalled()
+    expect(results.map(r => r.memory.id)).toEqual(['trip'])
+  })
+
+  it('drops vector hits below minScore before fusing', async () => {
+    mockRepos.characters.findById.mockResolvedValue({ id: 'char-1', memoryRetrieval: null })
+    mockGenerateEmbeddingForUser.mockResolvedValue({ embedding: [1, 0], model: 'test', dimensions: 2, provider: 'OPENAI' })
+    mockGetCharacterVectorStore.mockResolvedValue({
+      size: 2,
+      getModel: () => null,
+      search: () => [{ id: 'cat', score: 0.9 }, { id: 'trip', score: 0.3 }],
+    } as unknown as ICharacterVectorStore)
+
+    const results = await searchMemoriesSemantic('char-1', 'pets at home', { userId: 'user-1', minScore: 0.5 })
+
+    expect(results.map(r => [r.memory.id, r.semanticScore])).toEqual([['cat', 0.9]])
+    expect(results[0].usedEmbedding).toBe(true)
+  })
+})
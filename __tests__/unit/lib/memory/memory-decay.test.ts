@@ -0,0 +1,204 @@
+/**
+ * Unit Tests for memory decay and reinforcement
+ * Tests lib/memory/memory-decay.ts and faded-memory consolidation in housekeeping
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import type { Memory } from '@/lib/schemas/types'
+import { getRepositories } from '@/lib/repositories/factory'
+import {
+  appendImportanceHistory,
+  buildImportanceTimeline,
+  decayMemory,
+  getEffectiveImportance,
+  getImportanceAt,
+  reinforceMemory,
+  IMPORTANCE_DECAY_HALF_LIFE_DAYS,
+  IMPORTANCE_FLOOR,
+  IMPORTANCE_HISTORY_LIMIT,
+} from '@/lib/memory/memory-decay'
+import { runHousekeeping } from '@/lib/memory/housekeeping'
+import { createMemoryWithEmbedding } from '@/lib/memory/memory-service'
+import { makeMemory } from '@/__tests__/helpers/memory'
+
+jest.mock('@/lib/repositories/factory')
+jest.mock('@/lib/memory/memory-service', () => ({
+  createMemoryWithEmbedding: jest.fn(),
+  findSimilarMemories: jest.fn(),
+  MemoryVetoedError: class MemoryVetoedError extends Error {},
+}))
+
+const mockCreateMemoryWithEmbedding = jest.mocked(createMemoryWithEmbedding)
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = new Date('2025-06-01T12:00:00.000Z').getTime()
+
+describe('getEffectiveImportance', () => {
+  it('halves the distance to the floor every half-life', () => {
+    const memory = makeMemory('m', {
+      importance: 0.85,
+      importanceUpdatedAt: new Date(NOW - IMPORTANCE_DECAY_HALF_LIFE_DAYS * DAY_MS).toISOString(),
+    })
+
+    expect(getEffectiveImportance(memory, NOW)).toBeCloseTo(IMPORTANCE_FLOOR + (0.85 - IMPORTANCE_FLOOR) / 2, 3)
+  })
+
+  it('never decays manual memories', () => {
+    const memory = makeMemory('m', { source: 'MANUAL', createdAt: '2020-01-01T00:00:00.000Z' })
+    expect(getEffectiveImportance(memory, NOW)).toBe(0.5)
+  })
+
+  it('starts the clock from the last access for memories without importance updates', () => {
+    const memory = makeMemory('m', {
+      createdAt: '2020-01-01T00:00:00.000Z',
+      lastAccessedAt: new Date(NOW).toISOString(),
+    })
+    expect(getEffectiveImportance(memory, NOW)).toBe(0.5)
+  })
+})
+
+describe('reinforceMemory', () => {
+  it('moves importance toward 1 and restarts the decay clock', () => {
+    const memory = makeMemory('m', { importanceUpdatedAt: new Date(NOW).toISOString() })
+
+    const update = reinforceMemory(memory, NOW)
+
+    expect(update.importance).toBeCloseTo(0.575)
+    expect(update.reinforcementCount).toBe(1)
+    expect(update.importanceUpdatedAt).toBe(new Date(NOW).toISOString())
+    expect(update.lastAccessedAt).toBe(update.importanceUpdatedAt)
+    expect(update.importanceHistory!.map(point => point.event)).toEqual(['created', 'reinforced'])
+  })
+
+  it('applies pending decay before reinforcing', () => {
+    const stale = makeMemory('m', {
+      importanceUpdatedAt: new Date(NOW - IMPORTANCE_DECAY_HALF_LIFE_DAYS * DAY_MS).toISOString(),
+    })
+    const fresh = makeMemory('m', { importanceUpdatedAt: new Date(NOW).toISOString() })
+
+    expect(reinforceMemory(stale, NOW).importance!).toBeLessThan(reinforceMemory(fresh, NOW).importance!)
+  })
+})
+
+describe('decayMemory', () => {
+  it('skips memories that have barely decayed', () => {
+    expect(decayMemory(makeMemory('m', { importanceUpdatedAt: new Date(NOW - DAY_MS).toISOString() }), NOW)).toBeNull()
+  })
+
+  it('records decay in the history', () => {
+    const update = decayMemory(makeMemory('m', { createdAt: new Date(NOW - 120 * DAY_MS).toISOString() }), NOW)
+
+    expect(update!.importance).toBeLessThan(0.5)
+    expect(update!.importanceHistory!.at(-1)).toMatchObject({ event: 'decayed', importance: update!.importance })
+  })
+})
+
+describe('appendImportanceHistory', () => {
+  it('keeps the starting point when trimming', () => {
+    let memory = makeMemory('m')
+    for (let i = 0; i < IMPORTANCE_HISTORY_LIMIT + 5; i++) {
+      memory = { ...memory, ...reinforceMemory(memory, NOW + i * DAY_MS) }
+    }
+
+    expect(memory.importanceHistory).toHaveLength(IMPORTANCE_HISTORY_LIMIT)
+    expect(memory.importanceHistory![0].event).toBe('created')
+    expect(appendImportanceHistory(memory, { at: new Date(NOW).toISOString(), importance: 1, event: 'reinforced' })[0].event).toBe('created')
+  })
+})
+
+describe('buildImportanceTimeline', () => {
+  it('tracks reinforcement and decay day by day', () => {
+    const created = new Date(NOW - 5 * DAY_MS).toISOString()
+    const memory = makeMemory('m', {
+      createdAt: created,
+      importance: 0.65,
+      importanceUpdatedAt: new Date(NOW - 2 * DAY_MS).toISOString(),
+      importanceHistory: [
+        { at: created, importance: 0.5, event: 'created' },
+        { at: new Date(NOW - 2 * DAY_MS).toISOString(), importance: 0.65, event: 'reinforced' },
+      ],
+    })
+
+    const timeline = buildImportanceTimeline([memory], 7, NOW)
+
+    expect(timeline).toHaveLength(7)
+    expect(timeline[0].memoryCount).toBe(0)
+    expect(timeline[2].averageImportance).toBeCloseTo(0.5, 1)
+    expect(timeline[4].reinforced).toBe(1)
+    expect(timeline[4].averageImportance).toBeGreaterThan(0.6)
+    expect(timeline[6].averageImportance).toBeLessThan(timeline[4].averageImportance)
+  })
+
+  it('reads importance before a memory existed as missing', () => {
+    const memory = makeMemory('m', { createdAt: new Date(NOW - 10 * DAY_MS).toISOString() })
+    expect(getImportanceAt(memory, NOW - 30 * DAY_MS)).toBeNull()
+  })
+})
+
+describe('runHousekeeping consolidation', () => {
+  const mockRepos = {
+    memories: {
+      findByCharacterId: jest.fn<Promise<Memory[]>, []>(),
+      updateForCharacter: jest.fn<Promise<unknown>, []>(),
+      bulkDelete: jest.fn<Promise<number>, [characterId: string, ids: string[]]>(),
+    },
+  }
+
+  const old = new Date(NOW - 400 * DAY_MS).toISOString()
+  const memories = [
+    makeMemory('faded-1', { chatId: 'chat-a', sourceMessageId: 'msg-1', importance: 0.2, createdAt: old }),
+    makeMemory('faded-2', { chatId: 'chat-a', sourceMessageId: 'msg-2', importance: 0.2, createdAt: old }),
+    makeMemory('faded-3', { chatId: 'chat-b', importance: 0.2, createdAt: old }),
+    makeMemory('important', { importance: 0.9, createdAt: old, lastAccessedAt: new Date(NOW - 10 * DAY_MS).toISOString() }),
+    makeMemory('manual', { source: 'MANUAL', importance: 0.1, createdAt: old }),
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers().setSystemTime(NOW)
+    ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+    mockRepos.memories.findByCharacterId.mockResolvedValue(memories)
+    mockRepos.memories.bulkDelete.mockImplementation(async (_characterId, ids) => ids.length)
+    let created = 0
+    mockCreateMemoryWithEmbedding.mockImplementation(async () => ({ id: `summary-${++created}` }) as Memory)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('previews faded memories as consolidated rather than deleted', async () => {
+    const result = await runHousekeeping('char-1', { dryRun: true, userId: 'user-1' })
+
+    expect(result.deleted).toBe(0)
+    expect(result.consolidated).toBe(3)
+    expect(result.totalAfter).toBe(4)
+    expect(mockCreateMemoryWithEmbedding).not.toHaveBeenCalled()
+    expect(mockRepos.memories.bulkDelete).not.toHaveBeenCalled()
+  })
+
+  it('folds faded memories into one summary per chat with provenance', async () => {
+    const result = await runHousekeeping('char-1', { userId: 'user-1' })
+
+    expect(mockCreateMemoryWithEmbedding).toHaveBeenCalledTimes(2)
+    const chatA = mockCreateMemoryWithEmbedding.mock.calls[0][0]
+    expect(chatA.consolidatedFrom).toEqual([
+      expect.objectContaining({ memoryId: 'faded-1', sourceMessageId: 'msg-1' }),
+      expect.objectContaining({ memoryId: 'faded-2', sourceMessageId: 'msg-2' }),
+    ])
+    expect(chatA.summary).toContain('and 1 related memory')
+
+    expect(result.consolidatedIds.sort()).toEqual(['faded-1', 'faded-2', 'faded-3'])
+    expect(result.createdIds).toEqual(['summary-1', 'summary-2'])
+    expect(result.deleted).toBe(0)
+    expect(mockRepos.memories.bulkDelete).toHaveBeenCalledWith('char-1', expect.arrayContaining(['faded-1', 'faded-2', 'faded-3']))
+  })
+
+  it('deletes faded memories when consolidation is turned off', async () => {
+    const result = await runHousekeeping('char-1', { userId: 'user-1', consolidateFaded: false })
+
+    expect(mockCreateMemoryWithEmbedding).not.toHaveBeenCalled()
+    expect(result.deleted).toBe(3)
+    expect(result.consolidated).toBe(0)
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for the memory timeline
+ * Tests lib/memory/memory-timeline.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { ChatEvent, Memory } from '@/lib/schemas/types'
+import { getRepositories } from '@/lib/repositories/factory'
+import {
+  buildMemoryTimeline,
+  filterTimelineMemories,
+  groupMemoryTimeline,
+} from '@/lib/memory/memory-timeline'
+import { makeMemory } from '@/__tests__/helpers/memory'
+
+jest.mock('@/lib/repositories/factory')
+
+const USER_ID = 'user-1'
+const CHAT_A = '11111111-1111-4111-8111-111111111111'
+const CHAT_B = '22222222-2222-4222-8222-222222222222'
+const PERSONA = '33333333-3333-4333-8333-333333333333'
+const TAG = '44444444-4444-4444-8444-444444444444'
+const MESSAGE = '55555555-5555-4555-8555-555555555555'
+
+const tea = makeMemory('tea', {
+  chatId: CHAT_A,
+  sourceMessageId: MESSAGE,
+  personaId: PERSONA,
+  tags: [TAG],
+  importance: 0.9,
+  embedding: [1, 0, 0],
+  createdAt: '2025-03-02T09:00:00.000Z',
+})
+const sword = makeMemory('sword', { chatId: CHAT_A, createdAt: '2025-03-01T18:00:00.000Z' })
+const boat = makeMemory('boat', { chatId: CHAT_B, createdAt: '2025-03-01T12:00:00.000Z' })
+const note = makeMemory('note', { source: 'MANUAL', importance: 0.2, createdAt: '2025-02-20T08:00:00.000Z' })
+
+describe('filterTimelineMemories', () => {
+  const memories = [tea, sword, boat, note]
+  const now = new Date('2025-03-02T12:00:00.000Z').getTime()
+
+  it('filters by persona, including memories without one', () => {
+    expect(filterTimelineMemories(memories, { personaId: PERSONA }, now).map(m => m.id)).toEqual(['tea'])
+    expect(filterTimelineMemories(memories, { personaId: null }, now).map(m => m.id)).toEqual(['sword', 'boat', 'note'])
+  })
+
+  it('filters by source, importance and tags', () => {
+    expect(filterTimelineMemories(memories, { source: 'MANUAL' }, now).map(m => m.id)).toEqual(['note'])
+    expect(filterTimelineMemories(memories, { minImportance: 0.8 }, now).map(m => m.id)).toEqual(['tea'])
+    expect(filterTimelineMemories(memories, { maxImportance: 0.3 }, now).map(m => m.id)).toEqual(['note'])
+    expect(filterTimelineMemories(memories, { tagIds: [TAG] }, now).map(m => m.id)).toEqual(['tea'])
+  })
+})
+
+describe('groupMemoryTimeline', () => {
+  const entry = (memory: Memory) => ({ memory, effectiveImportance: memory.importance, sourceMessage: null, sourceMissing: false })
+
+  it('groups by chat and day, newest first', () => {
+    const groups = groupMemoryTimeline(
+      [boat, note, sword, tea].map(entry),
+      new Map([[CHAT_A, { title: 'Tea time' }]])
+    )
+
+    expect(groups.map(g => g.chatId)).toEqual([CHAT_A, CHAT_B, null])
+    expect(groups[0]).toMatchObject({ chatTitle: 'Tea time', chatExists: true, count: 2, latestAt: tea.createdAt })
+    expect(groups[0].days.map(d => [d.date, d.memories.map(e => e.memory.id)])).toEqual([
+      ['2025-03-02', ['tea']],
+      ['2025-03-01', ['sword']],
+    ])
+    expect(groups[1]).toMatchObject({ chatTitle: null, chatExists: false })
+  })
+})
+
+describe('buildMemoryTimeline', () => {
+  const messages: ChatEvent[] = [
+    { type: 'message', id: MESSAGE, role: 'USER', content: 'I always drink green tea before sunrise.', attachments: [], createdAt: '2025-03-02T08:59:00.000Z' },
+  ]
+
+  const mockRepos = {
+    memories: { findByCharacterId: jest.fn<Promise<Memory[]>, []>() },
+    chats: {
+      findById: jest.fn<Promise<unknown>, [id: string]>(),
+      getMessages: jest.fn<Promise<ChatEvent[]>, [id: string]>(),
+    },
+    personas: { findById: jest.fn<Promise<unknown>, [id: string]>() },
+    tags: { findById: jest.fn<Promise<unknown>, [id: string]>() },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+    mockRepos.memories.findByCharacterId.mockResolvedValue([tea, sword, boat, note])
+    mockRepos.chats.findById.mockImplementation(async id =>
+      id === CHAT_A ? { id, userId: USER_ID, title: 'Tea time' } : { id, userId: 'someone-else', title: 'Not yours' }
+    )
+    mockRepos.chats.getMessages.mockResolvedValue(messages)
+    mockRepos.personas.findById.mockResolvedValue({ id: PERSONA, userId: USER_ID, name: 'Alex' })
+    mockRepos.tags.findById.mockResolvedValue({ id: TAG, name: 'Habits' })
+  })
+
+  it('attaches source messages and drops embeddings', async () => {
+    const timeline = await buildMemoryTimeline('char-1', USER_ID)
+
+    expect(timeline.total).toBe(4)
+    const teaEntry = timeline.groups[0].days[0].memories[0]
+    expect(teaEntry.memory).not.toHaveProperty('embedding')
+    expect(teaEntry.sourceMessage).toMatchObject({ id: MESSAGE, role: 'USER', excerpt: 'I always drink green tea before sunrise.' })
+    expect(teaEntry.sourceMissing).toBe(false)
+    expect(timeline.filterOptions).toEqual({
+      personas: [{ id: PERSONA, name: 'Alex' }],
+      tags: [{ id: TAG, name: 'Habits' }],
+    })
+  })
+
+  it('treats chats owned by someone else as missing', async () => {
+    const timeline = await buildMemoryTimeline('char-1', USER_ID)
+
+    const boatGroup = timeline.groups.find(g => g.chatId === CHAT_B)!
+    expect(boatGroup).toMatchObject({ chatTitle: null, chatExists: false })
+    expect(mockRepos.chats.getMessages).not.toHaveBeenCalledWith(CHAT_B)
+  })
+
+  it('flags source messages that no longer exist', async () => {
+    mockRepos.chats.getMessages.mockResolvedValue([])
+
+    const timeline = await buildMemoryTimeline('char-1', USER_ID, { tagIds: [TAG] })
+
+    expect(timeline.total).toBe(1)
+    expect(timeline.groups[0].days[0].memories[0]).toMatchObject({ sourceMessage: null, sourceMissing: true })
+  })
+})
@@ -0,0 +1,254 @@
+/**
+ * Unit Tests for memory export and import
+ * Tests lib/memory/memory-transfer.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { EmbeddingProfile, Memory } from '@/lib/schemas/types'
+import { getRepositories } from '@/lib/repositories/factory'
+import { generateEmbeddingForUser, getDefaultEmbeddingProfile } from '@/lib/embedding/embedding-service'
+import { clearPluginHooks, HOOK_POINTS, registerHookHandler } from '@/lib/plugins/hook-bus'
+import {
+  exportCharacterMemories,
+  importCharacterMemories,
+  parseMemoryExport,
+  serializeMemoryExport,
+  MemoryImportError,
+} from '@/lib/memory/memory-transfer'
+import { makeMemory } from '@/__tests__/helpers/memory'
+
+const mockVectorStore = {
+  size: 0,
+  getDimensions: jest.fn<number | null, []>(),
+  getModel: jest.fn<{ provider: string; modelName: string } | null, []>(),
+  setModel: jest.fn(),
+  hasVector: jest.fn(() => false),
+  addVector: jest.fn<Promise<void>, [id: string, embedding: number[], metadata: unknown]>(),
+  updateVector: jest.fn(),
+  save: jest.fn<Promise<void>, []>(),
+}
+
+jest.mock('@/lib/repositories/factory')
+jest.mock('@/lib/embedding/embedding-service', () => ({
+  generateEmbeddingForUser: jest.fn(),
+  getDefaultEmbeddingProfile: jest.fn(),
+  getEmbeddingProfile: jest.fn(),
+}))
+jest.mock('@/lib/embedding/vector-store', () => ({
+  getCharacterVectorStore: async () => mockVectorStore,
+}))
+
+const mockGenerateEmbeddingForUser = jest.mocked(generateEmbeddingForUser)
+const mockGetDefaultEmbeddingProfile = jest.mocked(getDefaultEmbeddingProfile)
+
+const USER_ID = '11111111-1111-4111-8111-111111111111'
+const TAG_ID = '22222222-2222-4222-8222-222222222222'
+const CHAT_ID = '33333333-3333-4333-8333-333333333333'
+
+const profile = {
+  id: '44444444-4444-4444-8444-444444444444',
+  provider: 'OPENAI',
+  modelName: 'text-embedding-3-small',
+  dimensions: 3,
+} as EmbeddingProfile
+
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`
+
+const mockRepos = {
+  memories: {
+    findByCharacterId: jest.fn<Promise<Memory[]>, []>(),
+    bulkInsert: jest.fn<Promise<Memory[]>, [memories: Omit<Memory, 'id'>[]]>(),
+    updateForCharacter: jest.fn<Promise<unknown>, []>(),
+  },
+  tags: {
+    findByUserId: jest.fn<Promise<unknown[]>, []>(),
+    findByName: jest.fn<Promise<unknown>, []>(),
+    create: jest.fn<Promise<unknown>, [data: { name: string }]>(),
+  },
+  personas: { findById: jest.fn<Promise<unknown>, []>() },
+  chats: { findById: jest.fn<Promise<unknown>, []>() },
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  clearPluginHooks()
+  ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+  mockGetDefaultEmbeddingProfile.mockResolvedValue(profile)
+  mockVectorStore.getDimensions.mockReturnValue(3)
+  mockVectorStore.size = 0
+  mockVectorStore.getModel.mockReturnValue(null)
+  mockRepos.tags.findByUserId.mockResolvedValue([{ id: TAG_ID, name: 'Family' }])
+  mockRepos.tags.findByName.mockResolvedValue(null)
+  mockRepos.tags.create.mockImplementation(async data => ({ id: `tag-${data.name}` }))
+  mockRepos.personas.findById.mockResolvedValue(null)
+  mockRepos.chats.findById.mockResolvedValue(null)
+  let inserted = 0
+  mockRepos.memories.bulkInsert.mockImplementation(async memories =>
+    memories.map(memory => ({ ...memory, id: `new-${++inserted}` }) as Memory))
+  mockGenerateEmbeddingForUser.mockResolvedValue({ embedding: [0, 0, 1], model: 'text-embedding-3-small', dimensions: 3, provider: 'OPENAI' })
+})
+
+describe('exportCharacterMemories', () => {
+  it('exports tags by name and records the embedding model', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([
+      makeMemory('m1', { tags: [TAG_ID], embedding: [1, 0, 0] }),
+    ])
+
+    const data = await exportCharacterMemories({ id: 'char-1', name: 'Ada' }, { userId: USER_ID, includeEmbeddings: true })
+
+    expect(data.embedding).toEqual({ provider: 'OPENAI', modelName: 'text-embedding-3-small', dimensions: 3 })
+    expect(data.memories[0]).toMatchObject({ id: 'm1', tags: ['Family'], embedding: [1, 0, 0] })
+    expect(data.memories[0]).not.toHaveProperty('characterId')
+  })
+
+  it('leaves vectors out unless asked', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([makeMemory('m1', { embedding: [1, 0, 0] })])
+
+    const data = await exportCharacterMemories({ id: 'char-1', name: 'Ada' }, { userId: USER_ID })
+
+    expect(data.embedding).toBeNull()
+    expect(data.memories[0]).not.toHaveProperty('embedding')
+  })
+})
+
+describe('parseMemoryExport', () => {
+  it('reads both JSON and JSONL', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([makeMemory(uuid(1)), makeMemory(uuid(2))])
+    const data = await exportCharacterMemories({ id: 'char-1', name: 'Ada' }, { userId: USER_ID })
+
+    const jsonl = serializeMemoryExport(data, 'jsonl')
+    expect(jsonl.trim().split('\n')).toHaveLength(3)
+    expect(parseMemoryExport(jsonl).memories.map(m => m.id)).toEqual([uuid(1), uuid(2)])
+    expect(parseMemoryExport(serializeMemoryExport(data, 'json'))).toEqual(data)
+  })
+
+  it('rejects files that are not memory exports', () => {
+    expect(() => parseMemoryExport('{"spec":"chara_card_v2"}')).toThrow(MemoryImportError)
+    expect(() => parseMemoryExport('not json')).toThrow(MemoryImportError)
+  })
+})
+
+describe('importCharacterMemories', () => {
+  const exportOf = (memories: Partial<Memory>[], embedding = { provider: 'OPENAI', modelName: 'text-embedding-3-small', dimensions: 3 }) =>
+    parseMemoryExport(JSON.stringify({
+      format: 'quilltap-memories',
+      version: 1,
+      exportedAt: '2025-02-01T00:00:00.000Z',
+      character: { id: 'char-9', name: 'Ada' },
+      embedding,
+      count: memories.length,
+      memories: memories.map((m, i) => {
+        const { characterId: _characterId, ...memory } = makeMemory(uuid(i), m)
+        return { ...memory, tags: ['Family'] }
+      }),
+    }))
+
+  it('skips memories the character already has', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([makeMemory('existing', { content: 'Likes  TEA' })])
+
+    const result = await importCharacterMemories('char-1', exportOf([{ content: 'likes tea' }, { content: 'Owns a cat' }, { content: 'owns a cat' }]), { userId: USER_ID })
+
+    expect(result.imported).toBe(1)
+    expect(result.duplicates).toBe(2)
+  })
+
+  it('keeps timestamps but drops links to chats the user does not own', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([])
+
+    await importCharacterMemories('char-1', exportOf([{ chatId: CHAT_ID, createdAt: '2024-05-05T00:00:00.000Z' }]), { userId: USER_ID })
+
+    const [inserted] = mockRepos.memories.bulkInsert.mock.calls[0][0]
+    expect(inserted).toMatchObject({ characterId: 'char-1', chatId: null, createdAt: '2024-05-05T00:00:00.000Z', tags: ['tag-Family'] })
+  })
+
+  it('runs the memory.create hook on every imported memory', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([])
+    registerHookHandler(HOOK_POINTS.MEMORY_CREATE, (payload: Memory & { userId: string }) => {
+      if (payload.content.includes('password')) {
+        return { veto: true as const, reason: 'No secrets' }
+      }
+      return { payload: { ...payload, content: payload.content.toUpperCase() } }
+    }, { pluginName: 'guard' })
+
+    const result = await importCharacterMemories('char-1', exportOf([
+      { content: 'The password is swordfish' },
+      { content: 'Likes tea', embedding: [1, 0, 0] },
+    ]), { userId: USER_ID })
+
+    expect(result).toMatchObject({ imported: 1, vetoed: 1, embeddingsReused: 0, reembedded: 1 })
+    const inserted = mockRepos.memories.bulkInsert.mock.calls[0][0]
+    expect(inserted).toHaveLength(1)
+    expect(inserted[0]).toMatchObject({ characterId: 'char-1', content: 'LIKES TEA', embedding: null })
+    expect(inserted[0]).not.toHaveProperty('userId')
+  })
+
+  it('makes memories limited to a dropped chat or persona global', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([])
+    mockRepos.chats.findById.mockResolvedValue({ userId: USER_ID })
+
+    await importCharacterMemories('char-1', exportOf([
+      { content: 'in an owned chat', chatId: CHAT_ID, visibility: 'CHAT' },
+      { content: 'with a foreign persona', personaId: uuid(99), visibility: 'PERSONA' },
+      { content: 'formed without a persona', visibility: 'PERSONA' },
+    ]), { userId: USER_ID })
+
+    const inserted = mockRepos.memories.bulkInsert.mock.calls[0][0]
+    expect(inserted[0]).toMatchObject({ chatId: CHAT_ID, visibility: 'CHAT' })
+    expect(inserted[1]).toMatchObject({ personaId: null })
+    expect(inserted[1]).not.toHaveProperty('visibility')
+    expect(inserted[2]).toMatchObject({ visibility: 'PERSONA' })
+  })
+
+  it('reuses matching vectors and re-embeds mismatched ones', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([])
+
+    const result = await importCharacterMemories('char-1', exportOf([
+      { content: 'fits', embedding: [1, 0, 0] },
+      { content: 'too long', embedding: [1, 0, 0, 0] },
+      { content: 'missing' },
+    ]), { userId: USER_ID })
+
+    expect(result).toMatchObject({ imported: 3, embeddingsReused: 1, reembedded: 2, unembedded: 0 })
+    expect(mockVectorStore.addVector).toHaveBeenCalledWith('new-1', [1, 0, 0], expect.anything())
+    expect(mockVectorStore.addVector).toHaveBeenCalledWith('new-2', [0, 0, 1], expect.anything())
+    expect(mockVectorStore.save).toHaveBeenCalled()
+  })
+
+  it('re-embeds vectors from a different model', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([])
+
+    const result = await importCharacterMemories('char-1', exportOf(
+      [{ embedding: [1, 0, 0] }],
+      { provider: 'OLLAMA', modelName: 'nomic-embed-text', dimensions: 3 }
+    ), { userId: USER_ID })
+
+    expect(result.reembedded).toBe(1)
+    expect(result.embeddingsReused).toBe(0)
+  })
+
+  it('judges vectors by the model of the character index, not the profile', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([])
+    mockVectorStore.size = 1
+    mockVectorStore.getModel.mockReturnValue({ provider: 'OLLAMA', modelName: 'nomic-embed-text' })
+
+    const result = await importCharacterMemories('char-1', exportOf(
+      [{ embedding: [1, 0, 0] }],
+      { provider: 'OLLAMA', modelName: 'nomic-embed-text', dimensions: 3 }
+    ), { userId: USER_ID })
+
+    expect(result.embeddingsReused).toBe(1)
+    expect(mockVectorStore.addVector).toHaveBeenCalledWith('new-1', [1, 0, 0], expect.anything())
+  })
+
+  it('leaves vectors from another model out of the index', async () => {
+    mockRepos.memories.findByCharacterId.mockResolvedValue([])
+    mockVectorStore.size = 1
+    mockVectorStore.getModel.mockReturnValue({ provider: 'OLLAMA', modelName: 'nomic-embed-text' })
+
+    const result = await importCharacterMemories('char-1', exportOf([{ embedding: [1, 0, 0] }]), { userId: USER_ID })
+
+    // Re-embedded with the profile, whose model the index is being migrated away from
+    expect(result.reembedded).toBe(1)
+    expect(mockVectorStore.addVector).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for memory visibility scopes
+ * Tests lib/memory/memory-visibility.ts and its enforcement in searchMemoriesSemantic
+ * and consolidation grouping
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { Memory } from '@/lib/schemas/types'
+import { getRepositories } from '@/lib/repositories/factory'
+import { generateEmbeddingForUser } from '@/lib/embedding/embedding-service'
+import { filterVisibleMemories, isMemoryVisible, memoryScopeKey } from '@/lib/memory/memory-visibility'
+import { groupSimilarMemories } from '@/lib/memory/consolidation'
+import { searchMemoriesSemantic } from '@/lib/memory/memory-service'
+import { makeMemory } from '@/__tests__/helpers/memory'
+
+jest.mock('@/lib/repositories/factory')
+jest.mock('@/lib/embedding/embedding-service', () => ({
+  ...jest.requireActual<object>('@/lib/embedding/embedding-service'),
+  generateEmbeddingForUser: jest.fn(),
+}))
+
+const mockGenerateEmbeddingForUser = jest.mocked(generateEmbeddingForUser)
+
+const CHAT_A = '11111111-1111-4111-8111-111111111111'
+const CHAT_B = '22222222-2222-4222-8222-222222222222'
+const PERSONA_A = '33333333-3333-4333-8333-333333333333'
+const PERSONA_B = '44444444-4444-4444-8444-444444444444'
+
+// The same fact, remembered in every visibility
+const bees = { content: 'The user keeps bees on the roof of their flat.', summary: 'User keeps bees', keywords: ['bees'], chatId: CHAT_A, personaId: PERSONA_A }
+const legacy = makeMemory('legacy', bees)
+const global = makeMemory('global', { ...bees, visibility: 'GLOBAL' })
+const personaOnly = makeMemory('persona', { ...bees, visibility: 'PERSONA' })
+const chatOnly = makeMemory('chat', { ...bees, visibility: 'CHAT' })
+const noPersona = makeMemory('no-persona', { chatId: CHAT_B, visibility: 'PERSONA' })
+
+describe('isMemoryVisible', () => {
+  it('shows global memories, and memories without a visibility, everywhere', () => {
+    expect(isMemoryVisible(legacy, { personaId: PERSONA_B, chatId: CHAT_B })).toBe(true)
+    expect(isMemoryVisible(global, {})).toBe(true)
+  })
+
+  it('limits persona-only memories to their persona', () => {
+    expect(isMemoryVisible(personaOnly, { personaId: PERSONA_A, chatId: CHAT_B })).toBe(true)
+    expect(isMemoryVisible(personaOnly, { personaId: PERSONA_B, chatId: CHAT_A })).toBe(false)
+    expect(isMemoryVisible(personaOnly, { personaId: null, chatId: CHAT_A })).toBe(false)
+    expect(isMemoryVisible(noPersona, { personaId: null })).toBe(true)
+    expect(isMemoryVisible(noPersona, { personaId: PERSONA_A })).toBe(false)
+  })
+
+  it('limits chat-only memories to their chat', () => {
+    expect(isMemoryVisible(chatOnly, { personaId: PERSONA_B, chatId: CHAT_A })).toBe(true)
+    expect(isMemoryVisible(chatOnly, { personaId: PERSONA_A, chatId: CHAT_B })).toBe(false)
+    expect(isMemoryVisible(makeMemory('orphan', { visibility: 'CHAT' }), { chatId: null })).toBe(false)
+  })
+
+  it('filters a list down to the visible memories', () => {
+    const visible = filterVisibleMemories([legacy, global, personaOnly, chatOnly, noPersona], { personaId: PERSONA_B, chatId: CHAT_A })
+    expect(visible.map(m => m.id)).toEqual(['legacy', 'global', 'chat'])
+  })
+})
+
+describe('memoryScopeKey', () => {
+  it('is shared by memories recalled in the same places', () => {
+    expect(memoryScopeKey(legacy)).toBe(memoryScopeKey(makeMemory('other', { chatId: CHAT_B })))
+    expect(memoryScopeKey(personaOnly)).not.toBe(memoryScopeKey(noPersona))
+    expect(memoryScopeKey(chatOnly)).not.toBe(memoryScopeKey(makeMemory('other', { chatId: CHAT_B, visibility: 'CHAT' })))
+  })
+})
+
+describe('groupSimilarMemories', () => {
+  it('never groups memories with different visibility scopes', () => {
+    const groups = groupSimilarMemories([legacy, global, personaOnly, chatOnly])
+    expect(groups.map(group => group.map(m => m.id))).toEqual([['legacy', 'global']])
+  })
+})
+
+describe('searchMemoriesSemantic', () => {
+  const mockRepos = {
+    characters: { findById: jest.fn<Promise<unknown>, []>() },
+    memories: { findByCharacterId: jest.fn<Promise<Memory[]>, []>() },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+    mockRepos.characters.findById.mockResolvedValue({ id: 'char-1', memoryRetrieval: null })
+    mockRepos.memories.findByCharacterId.mockResolvedValue([legacy, personaOnly, chatOnly])
+    mockGenerateEmbeddingForUser.mockRejectedValue(new Error('No embedding profile'))
+  })
+
+  it('hides memories that are not visible in the scope', async () => {
+    const results = await searchMemoriesSemantic('char-1', 'bees', {
+      userId: 'user-1',
+      scope: { personaId: PERSONA_B, chatId: CHAT_B },
+    })
+
+    expect(results.map(r => r.memory.id)).toEqual(['legacy'])
+  })
+
+  it('returns every memory without a scope', async () => {
+    const results = await searchMemoriesSemantic('char-1', 'bees', { userId: 'user-1' })
+
+    expect(results.map(r => r.memory.id).sort()).toEqual(['chat', 'legacy', 'persona'])
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for the public address checks
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { assertPublicUrl, isPrivateAddress, PrivateAddressError } from '@/lib/public-address'
+
+describe('isPrivateAddress', () => {
+  it('should refuse loopback, private and link-local addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:7f00:1',
+      '::ffff:a9fe:a9fe',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true)
+    }
+  })
+
+  it('should allow public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:808:808']) {
+      expect(isPrivateAddress(address)).toBe(false)
+    }
+  })
+
+  it('should treat anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true)
+  })
+})
+
+describe('assertPublicUrl', () => {
+  it('should refuse URLs on private hosts', async () => {
+    for (const url of [
+      'http://127.0.0.1:8080/sse',
+      'http://[::1]/',
+      'http://localhost:3000/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://2130706433/',
+    ]) {
+      await expect(assertPublicUrl(url)).rejects.toBeInstanceOf(PrivateAddressError)
+    }
+  })
+
+  it('should refuse protocols other than http(s)', async () => {
+    await expect(assertPublicUrl('file:///etc/passwd')).rejects.toBeInstanceOf(PrivateAddressError)
+    await expect(assertPublicUrl('not a url')).rejects.toBeInstanceOf(PrivateAddressError)
+  })
+
+  it('should allow URLs on public addresses', async () => {
+    await expect(assertPublicUrl('https://93.184.216.34/page')).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,281 @@
+/**
+ * Unit Tests for the SillyTavern bulk import
+ * Tests lib/sillytavern/bulk-import.ts
+ *
+ * Repositories are kept in memory so a whole data directory can be previewed
+ * and imported end to end.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { SillyTavernImport, SillyTavernImportItem } from '@/lib/schemas/types'
+import { exportSTCharacter } from '@/lib/sillytavern/character'
+import { createZip } from '@/lib/zip'
+import { getRepositories } from '@/lib/repositories/factory'
+import { deleteFile, downloadFile } from '@/lib/s3/operations'
+import {
+  createSillyTavernImport,
+  runSillyTavernImport,
+  SillyTavernImportError,
+  startSillyTavernImport,
+} from '@/lib/sillytavern/bulk-import'
+import { createInMemoryTable, type InMemoryTable } from '@/__tests__/helpers/in-memory-table'
+
+jest.mock('@/lib/s3/client', () => ({
+  buildS3Key: jest.fn((userId: string, fileId: string, filename: string, category: string) => `users/${userId}/${category}/${fileId}_${filename}`),
+}))
+jest.mock('@/lib/images-v2', () => ({
+  importFileBuffer: jest.fn(async () => ({ id: crypto.randomUUID(), mimeType: 'image/png' })),
+}))
+
+const USER_ID = 'user-1'
+
+let characters: InMemoryTable
+let personas: InMemoryTable
+let lorebooks: InMemoryTable
+let chats: InMemoryTable
+let jobs: Map<string, SillyTavernImport>
+let messages: Map<string, any[]>
+let archive: Buffer
+
+const card = (name: string, extensions: Record<string, unknown> = {}) => {
+  const exported = exportSTCharacter({
+    name,
+    description: `${name} description`,
+    personality: '',
+    scenario: '',
+    firstMessage: 'Hello.',
+    exampleDialogues: '',
+    systemPrompt: '',
+    sillyTavernData: null,
+  })
+  return { ...exported, data: { ...exported.data, extensions } }
+}
+
+// Stored jobs are copied in and out, as they would be by the database
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+const jsonl = (...lines: object[]) => Buffer.from(lines.map(line => JSON.stringify(line)).join('\n'), 'utf8')
+const json = (data: unknown) => Buffer.from(JSON.stringify(data), 'utf8')
+
+function buildArchive(): Buffer {
+  return createZip([
+    { path: 'default-user/characters/Mira.json', data: json(card('Mira', { world: 'Harbor' })) },
+    { path: 'default-user/characters/Bob.json', data: json(card('Bob')) },
+    {
+      path: 'default-user/chats/Mira/Mira - first.jsonl',
+      data: jsonl(
+        { user_name: 'Sam', character_name: 'Mira' },
+        { name: 'Mira', is_user: false, is_name: true, send_date: 1, mes: 'The lamp flickers.' },
+        { name: 'Sam', is_user: true, is_name: true, send_date: 2, mes: 'Who is there?' },
+      ),
+    },
+    {
+      path: 'default-user/chats/Ghost/Ghost - lost.jsonl',
+      data: jsonl({ character_name: 'Ghost' }, { name: 'Ghost', is_user: false, is_name: true, send_date: 1, mes: 'Boo.' }),
+    },
+    { path: 'default-user/groups/1.json', data: json({ id: '1', name: 'Harbor Crew', members: ['Mira.json', 'Bob.json'], chat_id: 'harbor-1' }) },
+    {
+      path: 'default-user/group chats/harbor-1.jsonl',
+      data: jsonl(
+        { user_name: 'Sam' },
+        { name: 'Mira', is_user: false, is_name: true, send_date: 1, mes: 'Ahoy.' },
+        { name: 'Bob', is_user: false, is_name: true, send_date: 2, mes: 'Hello.' },
+      ),
+    },
+    {
+      path: 'default-user/settings.json',
+      data: json({ power_user: { personas: { 'sam.png': 'Sam' }, persona_descriptions: { 'sam.png': { description: 'A sailor.' } } } }),
+    },
+    { path: 'default-user/worlds/Harbor.json', data: json({ entries: { 0: { uid: 0, key: ['harbor'], content: 'The harbor is old.' } } }) },
+  ])
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  characters = createInMemoryTable()
+  personas = createInMemoryTable()
+  lorebooks = createInMemoryTable()
+  chats = createInMemoryTable()
+  jobs = new Map()
+  messages = new Map()
+  archive = buildArchive()
+  jest.mocked(downloadFile).mockImplementation(async () => archive)
+
+  const mockRepos = {
+    characters,
+    personas,
+    lorebooks,
+    chats: {
+      ...chats,
+      addMessages: jest.fn(async (chatId: string, events: any[]) => {
+        messages.set(chatId, [...(messages.get(chatId) ?? []), ...events])
+        return events
+      }),
+    },
+    connections: {
+      findById: jest.fn(async (id: string) => (id === 'profile-1' ? { id, userId: USER_ID, tags: [] } : null)),
+      findDefault: jest.fn(async () => null),
+    },
+    sillyTavernImports: {
+      findById: jest.fn(async (id: string) => (jobs.has(id) ? clone(jobs.get(id)!) : null)),
+      create: jest.fn(async (data: Omit<SillyTavernImport, 'id' | 'createdAt' | 'updatedAt'>) => {
+        const job = { ...data, id: crypto.randomUUID(), createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' }
+        jobs.set(job.id, clone(job))
+        return job
+      }),
+      update: jest.fn(async (id: string, data: Partial<SillyTavernImport>) => {
+        const job = jobs.get(id)
+        if (!job) return null
+        Object.assign(job, clone(data))
+        return clone(job)
+      }),
+      findImportedItemsByHashes: jest.fn(async (userId: string, hashes: string[]) => {
+        const found = new Map<string, SillyTavernImportItem>()
+        for (const job of jobs.values()) {
+          for (const item of job.items) {
+            if (item.status === 'IMPORTED' && hashes.includes(item.hash)) found.set(item.hash, item)
+          }
+        }
+        return found
+      }),
+    },
+  }
+  ;(getRepositories as jest.Mock).mockReturnValue(mockRepos)
+})
+
+const itemAt = (job: SillyTavernImport, path: string) => job.items.find(item => item.path === path)!
+
+async function runJob(job: SillyTavernImport, connectionProfileId: string | null = 'profile-1') {
+  jobs.set(job.id, { ...jobs.get(job.id)!, status: 'RUNNING', connectionProfileId })
+  return (await runSillyTavernImport(job.id))!
+}
+
+describe('SillyTavern bulk import', () => {
+  it('previews the archive with conflicts', async () => {
+    await characters.create({ userId: USER_ID, name: 'Bob' })
+
+    const job = await createSillyTavernImport(USER_ID, 'st.zip', archive)
+
+    expect(job.status).toBe('PREVIEW')
+    expect(job.s3Key).toMatch(/^users\/user-1\/imports\/.+_st\.zip$/)
+    expect(job.items.map(item => [item.kind, item.name, item.conflict, item.action])).toEqual([
+      ['WORLD_INFO', 'Harbor', null, 'IMPORT'],
+      ['PERSONA', 'Sam', null, 'IMPORT'],
+      ['CHARACTER', 'Bob', 'NAME_EXISTS', 'IMPORT'],
+      ['CHARACTER', 'Mira', null, 'IMPORT'],
+      ['CHAT', 'Ghost: Ghost - lost', 'MISSING_CHARACTER', 'SKIP'],
+      ['CHAT', 'Mira: Mira - first', null, 'IMPORT'],
+      ['GROUP_CHAT', 'Harbor Crew: harbor-1', null, 'IMPORT'],
+    ])
+  })
+
+  it('rejects archives without SillyTavern data', async () => {
+    await expect(createSillyTavernImport(USER_ID, 'empty.zip', createZip([{ path: 'readme.txt', data: Buffer.from('hi') }])))
+      .rejects.toThrow(SillyTavernImportError)
+    await expect(createSillyTavernImport(USER_ID, 'bad.zip', Buffer.from('not a zip')))
+      .rejects.toThrow(SillyTavernImportError)
+  })
+
+  it('imports everything, linking chats to their characters and persona', async () => {
+    const existingBob = await characters.create({ userId: USER_ID, name: 'Bob', tags: [] })
+    const preview = await createSillyTavernImport(USER_ID, 'st.zip', archive)
+    // Skipping a character whose name is taken makes its chats use the existing one
+    itemAt(jobs.get(preview.id)!, 'characters/Bob.json').action = 'SKIP'
+
+    const job = await runJob(preview)
+
+    expect(job.status).toBe('COMPLETED')
+    expect(job.processed).toBe(job.items.length)
+    expect(job.s3Key).toBeNull()
+    expect(deleteFile).toHaveBeenCalledWith(preview.s3Key!)
+    expect(job.items.map(item => item.status)).toEqual(['IMPORTED', 'IMPORTED', 'SKIPPED', 'IMPORTED', 'SKIPPED', 'IMPORTED', 'IMPORTED'])
+
+    const mira = characters.rows.get(itemAt(job, 'characters/Mira.json').entityId!)!
+    const sam = itemAt(job, 'User Avatars/sam.png').entityId!
+    // The card's World Info link is kept
+    expect(lorebooks.rows.get(itemAt(job, 'worlds/Harbor.json').entityId!)!.characterIds).toEqual([mira.id])
+
+    const chat = chats.rows.get(itemAt(job, 'chats/Mira/Mira - first.jsonl').entityId!)!
+    expect(chat.title).toBe('Mira - first')
+    expect(chat.participants.map((p: any) => p.characterId ?? p.personaId)).toEqual([mira.id, sam])
+    expect(messages.get(chat.id)!.map(m => [m.role, m.content])).toEqual([['ASSISTANT', 'The lamp flickers.'], ['USER', 'Who is there?']])
+
+    const group = chats.rows.get(itemAt(job, 'group chats/harbor-1.jsonl').entityId!)!
+    expect(group.title).toBe('Harbor Crew')
+    const participantOf = (characterId: string) => group.participants.find((p: any) => p.characterId === characterId).id
+    expect(messages.get(group.id)!.map(m => m.participantId)).toEqual([participantOf(mira.id), participantOf(existingBob.id)])
+  })
+
+  it('gives a chat picked without its character a stub character', async () => {
+    const preview = await createSillyTavernImport(USER_ID, 'st.zip', archive)
+
+    itemAt(jobs.get(preview.id)!, 'chats/Ghost/Ghost - lost.jsonl').action = 'IMPORT'
+
+    const job = await runJob(preview)
+
+    const chat = chats.rows.get(itemAt(job, 'chats/Ghost/Ghost - lost.jsonl').entityId!)!
+    expect(characters.rows.get(chat.participants[0].characterId)!.name).toBe('Ghost')
+  })
+
+  it('skips what an earlier import brought in', async () => {
+    const first = await runJob(await createSillyTavernImport(USER_ID, 'st.zip', archive))
+    const second = await createSillyTavernImport(USER_ID, 'st.zip', archive)
+
+    const imported = first.items.filter(item => item.status === 'IMPORTED')
+    for (const item of imported) {
+      expect(itemAt(second, item.path)).toMatchObject({ conflict: 'DUPLICATE', existingId: item.entityId, action: 'SKIP' })
+    }
+  })
+
+  it('skips copies of an item within the archive', async () => {
+    archive = createZip([
+      { path: 'default-user/characters/Mira.json', data: json(card('Mira')) },
+      { path: 'default-user/characters/Mira (backup).json', data: json(card('Mira')) },
+    ])
+
+    const job = await createSillyTavernImport(USER_ID, 'st.zip', archive)
+
+    expect(job.items.map(item => [item.conflict, item.existingId, item.action])).toEqual([
+      [null, null, 'IMPORT'],
+      ['DUPLICATE', null, 'SKIP'],
+    ])
+  })
+
+  it('stays cancelled when cancelled during its last item', async () => {
+    const preview = await createSillyTavernImport(USER_ID, 'st.zip', archive)
+    // Everything but the World Info is done already
+    for (const item of jobs.get(preview.id)!.items) {
+      if (item.path !== 'worlds/Harbor.json') item.status = 'SKIPPED'
+    }
+    const createLorebook = lorebooks.create.getMockImplementation()!
+    lorebooks.create.mockImplementationOnce(async data => {
+      jobs.get(preview.id)!.status = 'CANCELLED'
+      return createLorebook(data)
+    })
+
+    const job = await runJob(preview)
+
+    expect(job.status).toBe('CANCELLED')
+    expect(job.completedAt).toBeFalsy()
+    expect(itemAt(job, 'worlds/Harbor.json').status).toBe('IMPORTED')
+    expect(job.s3Key).toBeNull()
+  })
+
+  it('records failed items and goes on', async () => {
+    const preview = await createSillyTavernImport(USER_ID, 'st.zip', archive)
+    lorebooks.create.mockRejectedValueOnce(new Error('disk full'))
+
+    const job = await runJob(preview)
+
+    expect(job.status).toBe('COMPLETED')
+    expect(itemAt(job, 'worlds/Harbor.json')).toMatchObject({ status: 'FAILED', error: 'disk full' })
+    expect(itemAt(job, 'characters/Mira.json').status).toBe('IMPORTED')
+  })
+
+  it('needs a connection profile to import chats', async () => {
+    const preview = await createSillyTavernImport(USER_ID, 'st.zip', archive)
+
+    await expect(startSillyTavernImport(preview)).rejects.toThrow('connection profile')
+    await expect(startSillyTavernImport(preview, { connectionProfileId: 'someone-elses' })).rejects.toThrow('not found')
+    expect(jobs.get(preview.id)!.status).toBe('PREVIEW')
+  })
+})
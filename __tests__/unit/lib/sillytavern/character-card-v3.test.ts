@@ -0,0 +1,202 @@
+/**
+ * Tests for Character Card V3 support: PNG cards with ccv3 and asset chunks,
+ * CharX archives, lorebook decorators and physical descriptions carried in
+ * card extensions.
+ */
+
+import {
+  createSTCharacterPNG,
+  exportSTCharacter,
+  exportSTCharacterV3,
+  extractSTCharacterPNGAssets,
+  importSTCharacter,
+  parseSTCharacterPNG,
+  replaceSTCharacterPNGChunks,
+} from '@/lib/sillytavern/character'
+import { charXAssetPath, createCharX, parseCharX } from '@/lib/sillytavern/charx'
+import { exportSTCharacterBook, importSTCharacterBook, parseSTDecorators, STCharacterBook } from '@/lib/sillytavern/world-info'
+import { crc32, createZip } from '@/lib/zip'
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(typeAndData))
+  return Buffer.concat([length, typeAndData, crc])
+}
+
+function textChunk(keyword: string, text: string): Buffer {
+  return pngChunk('tEXt', Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), Buffer.from(text, 'utf8')]))
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10])
+const IHDR = pngChunk('IHDR', Buffer.alloc(13))
+const IEND = pngChunk('IEND', Buffer.alloc(0))
+const blankPNG = Buffer.concat([PNG_SIGNATURE, IHDR, IEND])
+
+const character = {
+  id: 'char-1',
+  name: 'Mira',
+  title: null,
+  description: 'A lighthouse keeper.',
+  personality: 'Patient',
+  scenario: 'A stormy night',
+  firstMessage: 'The lamp flickers.',
+  exampleDialogues: '',
+  systemPrompt: '',
+  physicalDescriptions: [{
+    id: 'pd-1',
+    name: 'Storm gear',
+    shortPrompt: 'oilskin coat',
+    mediumPrompt: null,
+    longPrompt: null,
+    completePrompt: null,
+    fullDescription: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  }],
+  sillyTavernData: null,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-02-01T00:00:00.000Z',
+}
+
+describe('V3 character export', () => {
+  it('fills the V3 fields and dates and keeps unknown extensions', () => {
+    const card = exportSTCharacterV3(
+      { ...character, sillyTavernData: { ...importSTCharacter({ ...exportSTCharacter(character).data, extensions: { depth_prompt: { depth: 4 } } }).sillyTavernData } },
+      null,
+      [{ type: 'icon', uri: 'ccdefault:', name: 'main', ext: 'png' }]
+    )
+
+    expect(card.spec).toBe('chara_card_v3')
+    expect(card.data.group_only_greetings).toEqual([])
+    expect(card.data.assets).toHaveLength(1)
+    expect(card.data.extensions?.depth_prompt).toEqual({ depth: 4 })
+    expect(card.data.modification_date).toBe(Date.parse(character.updatedAt) / 1000)
+  })
+
+  it('round trips physical descriptions through card extensions', () => {
+    const imported = importSTCharacter(exportSTCharacterV3(character))
+
+    expect(imported.physicalDescriptions).toHaveLength(1)
+    expect(imported.physicalDescriptions[0].name).toBe('Storm gear')
+    expect(imported.physicalDescriptions[0].shortPrompt).toBe('oilskin coat')
+    expect(imported.physicalDescriptions[0].id).not.toBe('pd-1')
+  })
+
+  it('leaves assets out of V2 cards', () => {
+    const card = exportSTCharacter({
+      ...character,
+      sillyTavernData: { ...exportSTCharacter(character).data, assets: [{ type: 'icon', uri: 'quilltap-file://f1', name: 'main', ext: 'png' }] },
+    })
+
+    expect(card.data).not.toHaveProperty('assets')
+  })
+})
+
+describe('PNG cards', () => {
+  it('writes V2 and V3 cards and embeds extra assets as chunks', async () => {
+    const sprite = Buffer.from('sprite bytes')
+    const png = await createSTCharacterPNG(character, blankPNG, null, [
+      { asset: { type: 'icon', uri: 'quilltap-file://f1', name: 'main', ext: 'png' }, data: blankPNG },
+      { asset: { type: 'emotion', uri: 'quilltap-file://f2', name: 'happy', ext: 'webp' }, data: sprite },
+      { asset: { type: 'background', uri: 'https://example.com/bg.png', name: 'main', ext: 'png' }, data: null },
+    ])
+
+    const data = await parseSTCharacterPNG(png)
+    expect(data?.name).toBe('Mira')
+    expect(data?.assets).toEqual([
+      { type: 'icon', uri: 'ccdefault:', name: 'main', ext: 'png' },
+      { type: 'emotion', uri: '__asset:1', name: 'happy', ext: 'webp' },
+      { type: 'background', uri: 'https://example.com/bg.png', name: 'main', ext: 'png' },
+    ])
+    expect(extractSTCharacterPNGAssets(png).get('1')?.equals(sprite)).toBe(true)
+  })
+
+  it('replaces the card chunks of a re-exported image', async () => {
+    const first = await createSTCharacterPNG(character, blankPNG)
+    const second = await createSTCharacterPNG({ ...character, name: 'Mira II' }, first)
+
+    expect((await parseSTCharacterPNG(second))?.name).toBe('Mira II')
+    expect(second.toString('latin1').split('ccv3\0')).toHaveLength(2)
+    expect(replaceSTCharacterPNGChunks(second, []).equals(blankPNG)).toBe(true)
+  })
+
+  it('prefers the V3 chunk and reads raw JSON from old tools', async () => {
+    const v2 = Buffer.from(JSON.stringify(exportSTCharacter({ ...character, name: 'Old' }))).toString('base64')
+    const v3 = Buffer.from(JSON.stringify(exportSTCharacterV3({ ...character, name: 'New' }))).toString('base64')
+    const both = Buffer.concat([PNG_SIGNATURE, IHDR, textChunk('chara', v2), textChunk('ccv3', v3), IEND])
+    const raw = Buffer.concat([PNG_SIGNATURE, IHDR, textChunk('chara', JSON.stringify({ name: 'Raw', first_mes: 'Hi' })), IEND])
+
+    expect((await parseSTCharacterPNG(both))?.name).toBe('New')
+    expect((await parseSTCharacterPNG(raw))?.name).toBe('Raw')
+    expect(await parseSTCharacterPNG(blankPNG)).toBeNull()
+  })
+})
+
+describe('CharX', () => {
+  it('round trips a card with embedded assets', () => {
+    const sprite = Buffer.from('sprite bytes')
+    const charx = createCharX(character, null, [
+      { asset: { type: 'icon', uri: 'quilltap-file://f1', name: 'main', ext: 'png' }, data: blankPNG },
+      { asset: { type: 'emotion', uri: 'quilltap-file://f2', name: 'happy', ext: 'webp' }, data: sprite },
+    ])
+
+    const { card, files } = parseCharX(charx)
+    expect(card.data.name).toBe('Mira')
+    expect(card.data.assets?.map(a => a.uri)).toEqual([
+      'embeded://assets/icon/images/main.png',
+      'embeded://assets/emotion/images/happy.webp',
+    ])
+    expect(files.get(charXAssetPath(card.data.assets![1].uri)!)?.equals(sprite)).toBe(true)
+  })
+
+  it('accepts either spelling of the embedded scheme', () => {
+    expect(charXAssetPath('embeded://assets/a.png')).toBe('assets/a.png')
+    expect(charXAssetPath('embedded:///assets/a.png')).toBe('assets/a.png')
+    expect(charXAssetPath('ccdefault:')).toBeNull()
+  })
+
+  it('rejects archives without a V3 card.json', () => {
+    const v2 = createZip([{ path: 'card.json', data: Buffer.from(JSON.stringify(exportSTCharacter(character))) }])
+
+    expect(() => parseCharX(createZip([]))).toThrow('no card.json')
+    expect(() => parseCharX(v2)).toThrow('not a V3 character card')
+  })
+})
+
+describe('lorebook decorators', () => {
+  const book: STCharacterBook = {
+    name: 'Lore',
+    extensions: {},
+    entries: [{
+      keys: [],
+      content: '@@activate\n@@depth 2\n@@@fallback 3\n@@position before_desc\nThe lighthouse is haunted.',
+      enabled: true,
+      insertion_order: 10,
+      extensions: {},
+    }],
+  }
+
+  it('parses decorators and their fallbacks', () => {
+    const { decorators, content } = parseSTDecorators(book.entries[0].content)
+
+    expect(decorators.map(d => [d.name, d.value])).toEqual([['activate', ''], ['depth', '2'], ['position', 'before_desc']])
+    expect(decorators[1].fallbacks).toEqual(['@@@fallback 3'])
+    expect(content).toBe('The lighthouse is haunted.')
+  })
+
+  it('maps known decorators to entry fields and keeps the rest on export', () => {
+    const lorebook = importSTCharacterBook(book)
+    const entry = lorebook.entries[0]
+
+    expect(entry.content).toBe('The lighthouse is haunted.')
+    expect(entry.constant).toBe(true)
+    expect(entry.position).toBe('BEFORE_CHARACTER')
+
+    const exported = exportSTCharacterBook({ ...lorebook, entries: [{ ...entry, content: 'The lighthouse is empty.' }] })
+    expect(exported.entries[0].content).toBe('@@depth 2\n@@@fallback 3\nThe lighthouse is empty.')
+    expect(exported.entries[0].constant).toBe(true)
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Unit Tests for importing SillyTavern chats
+ * Tests lib/sillytavern/chat-import.ts
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { getRepositories } from '@/lib/repositories/factory'
+import { importSTChatForUser, readSTGroupChatZip, STChatImportError } from '@/lib/sillytavern/chat-import'
+import { serializeSTChatJSONL, type STChat } from '@/lib/sillytavern/chat'
+import { createZip } from '@/lib/zip'
+import { createInMemoryTable, type InMemoryTable } from '@/__tests__/helpers/in-memory-table'
+
+const USER_ID = 'user-1'
+
+let characters: InMemoryTable
+let personas: InMemoryTable
+let chats: InMemoryTable
+let messages: Map<string, any[]>
+
+const groupChat: STChat = {
+  character_name: 'unused',
+  user_name: 'unused',
+  messages: [
+    { name: 'Mira', is_user: false, is_name: true, send_date: 1, mes: 'Ahoy.' },
+    { name: 'Sam', is_user: true, is_name: true, send_date: 2, mes: 'Hello both.' },
+    { name: 'Bob', is_user: false, is_name: true, send_date: 3, mes: 'Hello.' },
+  ],
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  characters = createInMemoryTable()
+  personas = createInMemoryTable()
+  chats = createInMemoryTable()
+  messages = new Map()
+
+  ;(getRepositories as jest.Mock).mockReturnValue({
+    characters,
+    personas,
+    chats: {
+      ...chats,
+      addMessages: jest.fn(async (chatId: string, events: any[]) => {
+        messages.set(chatId, events)
+        return events
+      }),
+    },
+    connections: {
+      findById: jest.fn(async (id: string) => ({ id, userId: USER_ID, tags: ['tag-profile'] })),
+    },
+  })
+})
+
+describe('importSTChatForUser', () => {
+  it('imports a one-on-one chat with the chosen character', async () => {
+    const character = await characters.create({ userId: USER_ID, name: 'Someone Else', tags: ['tag-char'] })
+    const oneOnOne: STChat = { messages: [groupChat.messages[0], groupChat.messages[1]] }
+
+    const { chat, stubCharacterIds } = await importSTChatForUser(USER_ID, oneOnOne, {
+      connectionProfileId: 'profile-1',
+      characterId: character.id,
+    })
+
+    expect(stubCharacterIds).toEqual([])
+    expect(chat.title).toBe('Chat with Someone Else')
+    expect(chat.tags.sort()).toEqual(['tag-char', 'tag-profile'])
+    expect(chat.participants.map((p: any) => p.characterId)).toEqual([character.id])
+    expect(messages.get(chat.id)!.map(m => m.participantId)).toEqual([null, null])
+  })
+
+  it('gives every speaker to the chosen character when no group comes with the chat', async () => {
+    const character = await characters.create({ userId: USER_ID, name: 'Mira', tags: [] })
+
+    // Several speakers, as after /sendas or a mid-chat rename
+    const { chat, stubCharacterIds } = await importSTChatForUser(USER_ID, groupChat, {
+      connectionProfileId: 'profile-1',
+      characterId: character.id,
+    })
+
+    expect(stubCharacterIds).toEqual([])
+    expect(characters.create).toHaveBeenCalledTimes(1)
+    expect(chat.participants.map((p: any) => p.characterId)).toEqual([character.id])
+  })
+
+  it('matches group chat speakers by name and creates stubs for the rest', async () => {
+    const mira = await characters.create({ userId: USER_ID, name: 'mira', tags: [] })
+    await characters.create({ userId: 'someone-else', name: 'Bob', tags: [] })
+
+    const { chat, stubCharacterIds } = await importSTChatForUser(USER_ID, groupChat, { connectionProfileId: 'profile-1' })
+
+    expect(stubCharacterIds).toHaveLength(1)
+    expect(characters.rows.get(stubCharacterIds[0])).toMatchObject({ userId: USER_ID, name: 'Bob', description: null })
+    expect(chat.participants.map((p: any) => p.characterId)).toEqual([mira.id, stubCharacterIds[0]])
+
+    const [miraParticipant, bobParticipant] = chat.participants
+    expect(messages.get(chat.id)!.map(m => [m.role, m.participantId])).toEqual([
+      ['ASSISTANT', miraParticipant.id],
+      ['USER', null],
+      ['ASSISTANT', bobParticipant.id],
+    ])
+  })
+
+  it('takes members, disabled members and turn order from the group', async () => {
+    const resolved = await characters.create({ userId: USER_ID, name: 'Mira (imported)', tags: [] })
+
+    const { chat } = await importSTChatForUser(USER_ID, groupChat, {
+      connectionProfileId: 'profile-1',
+      group: {
+        id: '1',
+        name: 'Harbor Crew',
+        members: ['Mira.png', 'Bob.png', 'Quiet.png'],
+        disabled_members: ['Quiet.png'],
+        activation_strategy: 2,
+      },
+      resolveCharacter: speaker => (speaker.name === 'Mira' ? resolved.id : null),
+    })
+
+    expect(chat.title).toBe('Harbor Crew')
+    expect(chat.turnStrategy).toBe('MANUAL')
+    expect(chat.participants.map((p: any) => [characters.rows.get(p.characterId)!.name, p.isActive])).toEqual([
+      ['Mira (imported)', true],
+      ['Bob', true],
+      ['Quiet', false],
+    ])
+  })
+
+  it('needs a character when none speaks', async () => {
+    const userOnly: STChat = { messages: [groupChat.messages[1]] }
+
+    await expect(importSTChatForUser(USER_ID, userOnly, { connectionProfileId: 'profile-1' }))
+      .rejects.toThrow(STChatImportError)
+    expect(chats.create).not.toHaveBeenCalled()
+  })
+})
+
+describe('readSTGroupChatZip', () => {
+  it('reads the group and chat of a group chat export', async () => {
+    const group = { id: 1700000000000, name: 'Harbor Crew', members: ['Mira.png', 'Bob.png'], chat_id: 'chat-1' }
+    const zip = createZip([
+      { path: 'groups/1700000000000.json', data: Buffer.from(JSON.stringify(group)) },
+      { path: 'group chats/chat-1.jsonl', data: Buffer.from(serializeSTChatJSONL(groupChat)) },
+    ])
+
+    const groupChats = await readSTGroupChatZip(zip)
+
+    expect(groupChats).toHaveLength(1)
+    expect(groupChats![0].group).toMatchObject({ id: '1700000000000', name: 'Harbor Crew', members: ['Mira.png', 'Bob.png'] })
+    expect(groupChats![0].chat.messages.map(m => m.mes)).toEqual(['Ahoy.', 'Hello both.', 'Hello.'])
+  })
+
+  it('leaves out a group whose members are not a list of names', async () => {
+    const zip = createZip([
+      { path: 'groups/1.json', data: Buffer.from(JSON.stringify({ id: '1', name: 'Broken', members: 'Mira.png', chat_id: 'chat-1' })) },
+      { path: 'group chats/chat-1.jsonl', data: Buffer.from(serializeSTChatJSONL(groupChat)) },
+    ])
+
+    const groupChats = await readSTGroupChatZip(zip)
+
+    expect(groupChats).toHaveLength(1)
+    expect(groupChats![0].group).toBeNull()
+  })
+
+  it('returns null for zips without a group chat', async () => {
+    const zip = createZip([{ path: 'manifest.json', data: Buffer.from('{}') }])
+
+    await expect(readSTGroupChatZip(zip)).resolves.toBeNull()
+    await expect(readSTGroupChatZip(Buffer.from('not a zip'))).resolves.toBeNull()
+  })
+})
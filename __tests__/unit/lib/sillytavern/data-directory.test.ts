@@ -0,0 +1,153 @@
+/**
+ * Tests for reading a zipped SillyTavern data directory
+ * Tests lib/sillytavern/data-directory.ts
+ */
+
+import { createSTCharacterPNG, exportSTCharacter } from '@/lib/sillytavern/character'
+import { parseSTChatJSONL } from '@/lib/sillytavern/chat'
+import { readSTDataDirectory, STDataChat, STDataCharacter, STDataPersona } from '@/lib/sillytavern/data-directory'
+import { crc32, ZipEntry } from '@/lib/zip'
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(typeAndData))
+  return Buffer.concat([length, typeAndData, crc])
+}
+
+const blankPNG = Buffer.concat([
+  Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+  pngChunk('IHDR', Buffer.alloc(13)),
+  pngChunk('IEND', Buffer.alloc(0)),
+])
+
+const character = (name: string) => ({
+  name,
+  description: `${name} description`,
+  personality: '',
+  scenario: '',
+  firstMessage: 'Hello.',
+  exampleDialogues: '',
+  systemPrompt: '',
+  sillyTavernData: null,
+})
+
+function jsonl(...lines: object[]): Buffer {
+  return Buffer.from(lines.map(line => JSON.stringify(line)).join('\n'), 'utf8')
+}
+
+function entry(path: string, data: Buffer | string | object): ZipEntry {
+  return {
+    path,
+    data: Buffer.isBuffer(data) ? data : Buffer.from(typeof data === 'string' ? data : JSON.stringify(data), 'utf8'),
+  }
+}
+
+async function dataDirectory(root: string): Promise<ZipEntry[]> {
+  return [
+    entry(`${root}characters/Mira.png`, await createSTCharacterPNG(character('Mira'), blankPNG)),
+    entry(`${root}characters/Bob.json`, exportSTCharacter(character('Bob'))),
+    entry(`${root}characters/notes.txt`, 'not a card'),
+    entry(`${root}chats/Mira/Mira - 2025-01-01@10h00m00s.jsonl`, jsonl(
+      { user_name: 'Sam', character_name: 'Mira', create_date: '2025-01-01', chat_metadata: { note_prompt: 'Stormy' } },
+      { name: 'Mira', is_user: false, is_name: true, send_date: 1735725600000, mes: 'The lamp flickers.' },
+      { name: 'Sam', is_user: true, is_name: true, send_date: 1735725660000, mes: 'Who is there?' },
+    )),
+    entry(`${root}chats/Ghost/empty.jsonl`, jsonl({ user_name: 'Sam', character_name: 'Ghost' })),
+    entry(`${root}groups/1735725600000.json`, { id: '1735725600000', name: 'Harbor Crew', members: ['Mira.png', 'Bob.json'], chat_id: 'harbor-1', chats: ['harbor-1'] }),
+    entry(`${root}group chats/harbor-1.jsonl`, jsonl(
+      { user_name: 'Sam', character_name: 'unused', chat_metadata: {} },
+      { name: 'Mira', is_user: false, is_name: true, send_date: 1, mes: 'Ahoy.' },
+      { name: 'Bob', is_user: false, is_name: true, send_date: 2, mes: 'Hello.' },
+      { name: 'Narrator', is_user: false, is_system: true, is_name: true, send_date: 3, mes: 'The tide turns.' },
+    )),
+    entry(`${root}settings.json`, {
+      power_user: {
+        personas: { 'sam.png': 'Sam', 'ghost.png': 'Nobody' },
+        persona_descriptions: { 'sam.png': { description: 'A sailor.' } },
+        default_persona: 'sam.png',
+      },
+    }),
+    entry(`${root}User Avatars/sam.png`, blankPNG),
+    entry(`${root}worlds/Harbor.json`, { entries: { 0: { uid: 0, key: ['harbor'], content: 'The harbor is old.' } } }),
+    entry(`${root}worlds/broken.json`, '{ not json'),
+    entry(`${root}backgrounds/sky.png`, blankPNG),
+  ]
+}
+
+describe('readSTDataDirectory', () => {
+  it('reads every kind of item in import order', async () => {
+    const { items } = await readSTDataDirectory(await dataDirectory(''))
+
+    expect(items.map(item => [item.kind, item.path])).toEqual([
+      ['WORLD_INFO', 'worlds/Harbor.json'],
+      ['PERSONA', 'User Avatars/sam.png'],
+      ['CHARACTER', 'characters/Bob.json'],
+      ['CHARACTER', 'characters/Mira.png'],
+      ['CHAT', 'chats/Mira/Mira - 2025-01-01@10h00m00s.jsonl'],
+      ['GROUP_CHAT', 'group chats/harbor-1.jsonl'],
+    ])
+  })
+
+  it('finds the data directory below a top folder', async () => {
+    const { items } = await readSTDataDirectory(await dataDirectory('SillyTavern/data/default-user/'))
+
+    expect(items).toHaveLength(6)
+    expect(items.every(item => !item.path.startsWith('SillyTavern'))).toBe(true)
+  })
+
+  it('keeps the card image without the card text and links chats to characters', async () => {
+    const { items } = await readSTDataDirectory(await dataDirectory(''))
+    const mira = items.find(item => item.name === 'Mira') as STDataCharacter
+    const chat = items.find(item => item.kind === 'CHAT') as STDataChat
+    const group = items.find(item => item.kind === 'GROUP_CHAT') as STDataChat
+
+    expect(mira.key).toBe('Mira.png')
+    expect(mira.image?.equals(blankPNG)).toBe(true)
+    expect(chat.characterKeys).toEqual(['Mira.png'])
+    expect(chat.chat.user_name).toBe('Sam')
+    expect(chat.chat.messages).toHaveLength(2)
+    expect(group.name).toBe('Harbor Crew: harbor-1')
+    expect(group.characterKeys).toEqual(['Mira.png', 'Bob.json'])
+    expect(group.characterNames).toEqual(['Mira', 'Bob'])
+  })
+
+  it('reads personas with their avatars from the settings', async () => {
+    const { items } = await readSTDataDirectory(await dataDirectory(''))
+    const personas = items.filter(item => item.kind === 'PERSONA') as STDataPersona[]
+
+    // Personas without a description are left out, as in the persona backup import
+    expect(personas).toHaveLength(1)
+    expect(personas[0].name).toBe('Sam')
+    expect(personas[0].isDefault).toBe(true)
+    expect(personas[0].avatar?.equals(blankPNG)).toBe(true)
+  })
+
+  it('reports unreadable files and gives the same items the same hashes', async () => {
+    const first = await readSTDataDirectory(await dataDirectory(''))
+    const second = await readSTDataDirectory(await dataDirectory('data/'))
+
+    expect(first.warnings).toEqual([
+      expect.stringMatching(/^worlds\/broken\.json: /),
+      'chats/Ghost/empty.jsonl: no messages',
+    ])
+    expect(first.items.map(item => item.hash)).toEqual(second.items.map(item => item.hash))
+  })
+})
+
+describe('parseSTChatJSONL', () => {
+  it('reads the header line and skips broken lines', () => {
+    const chat = parseSTChatJSONL([
+      JSON.stringify({ user_name: 'Sam', character_name: 'Mira', chat_metadata: { note_depth: 2 } }),
+      '{ broken',
+      JSON.stringify({ name: 'Mira', is_user: false, is_name: true, send_date: 1, mes: 'Hi' }),
+      '',
+    ].join('\n'))
+
+    expect(chat.character_name).toBe('Mira')
+    expect(chat.chat_metadata).toEqual({ note_depth: 2 })
+    expect(chat.messages.map(m => m.mes)).toEqual(['Hi'])
+  })
+})
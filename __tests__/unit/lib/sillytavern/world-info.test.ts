@@ -0,0 +1,222 @@
+/**
+ * Tests for SillyTavern World Info and character_book import/export.
+ * Covers field mapping, unsupported positions, null "global" flags,
+ * embedding lorebooks in character cards, and lossless round trips.
+ */
+
+import {
+  exportSTCharacterBook,
+  exportSTWorldInfo,
+  importSTCharacterBook,
+  importSTWorldInfo,
+  isSTCharacterBook,
+  isSTWorldInfoFile,
+  STCharacterBook,
+  STWorldInfoFile,
+} from '@/lib/sillytavern/world-info'
+import { exportSTCharacter, getSTCharacterBook, importSTCharacter } from '@/lib/sillytavern/character'
+import { matchEntry } from '@/lib/lorebooks/world-info'
+
+const worldInfoFile: STWorldInfoFile = {
+  name: 'Eldoria',
+  originalData: { kept: true },
+  entries: {
+    '0': {
+      uid: 0,
+      key: ['Aldmere', 'capital'],
+      keysecondary: [],
+      comment: 'The Capital',
+      content: 'Aldmere is the walled capital.',
+      constant: false,
+      selective: true,
+      order: 100,
+      position: 0,
+      disable: false,
+      scanDepth: null,
+      caseSensitive: null,
+      matchWholeWords: null,
+      probability: 75,
+      group: 'places',
+      displayIndex: 1,
+    },
+    '5': {
+      uid: 5,
+      key: ['/wyrms?/i'],
+      keysecondary: ['mountain'],
+      comment: 'Wyrms',
+      content: 'Wyrms nest in the mountains.',
+      constant: false,
+      selective: true,
+      order: 50,
+      position: 4,
+      depth: 2,
+      disable: true,
+      scanDepth: 6,
+      caseSensitive: true,
+      matchWholeWords: true,
+      displayIndex: 0,
+    },
+  },
+}
+
+const characterBook: STCharacterBook = {
+  name: 'Alice Lore',
+  description: 'Things Alice knows',
+  scan_depth: 3,
+  token_budget: 500,
+  recursive_scanning: true,
+  extensions: { custom: 'value' },
+  entries: [
+    {
+      id: 7,
+      keys: ['tea'],
+      secondary_keys: [],
+      comment: 'Tea',
+      content: 'Alice loves tea.',
+      enabled: true,
+      insertion_order: 10,
+      constant: false,
+      selective: false,
+      position: 'before_char',
+      use_regex: true,
+      extensions: { position: 0, match_whole_words: null, scan_depth: null, probability: 100 },
+    },
+  ],
+}
+
+describe('lib/sillytavern/world-info', () => {
+  it('detects standalone files and character books', () => {
+    expect(isSTWorldInfoFile(worldInfoFile)).toBe(true)
+    expect(isSTCharacterBook(worldInfoFile)).toBe(false)
+    expect(isSTCharacterBook(characterBook)).toBe(true)
+    expect(isSTWorldInfoFile(characterBook)).toBe(false)
+  })
+
+  it('maps standalone World Info entries in display order', () => {
+    const lorebook = importSTWorldInfo(worldInfoFile)
+
+    expect(lorebook.name).toBe('Eldoria')
+    expect(lorebook.entries.map(e => e.name)).toEqual(['Wyrms', 'The Capital'])
+
+    const [wyrms, capital] = lorebook.entries
+    expect(capital).toMatchObject({
+      keys: ['Aldmere', 'capital'],
+      position: 'BEFORE_CHARACTER',
+      insertionOrder: 100,
+      enabled: true,
+      useRegex: false,
+      caseSensitive: false,
+      matchWholeWords: false,
+      scanDepth: null,
+    })
+    expect(wyrms).toMatchObject({
+      useRegex: true,
+      keys: ['/wyrms?/i'],
+      enabled: false,
+      position: 'AFTER_CHARACTER',
+      scanDepth: 6,
+      caseSensitive: true,
+      matchWholeWords: true,
+    })
+  })
+
+  it('round-trips a World Info file without losing unsupported settings', () => {
+    const exported = exportSTWorldInfo(importSTWorldInfo(worldInfoFile))
+
+    expect(exported.originalData).toEqual({ kept: true })
+    expect(exported.entries['0']).toMatchObject({
+      probability: 75,
+      group: 'places',
+      caseSensitive: null,
+      matchWholeWords: null,
+      position: 0,
+    })
+    // At-depth position is not supported natively but survives export
+    expect(exported.entries['5']).toMatchObject({
+      position: 4,
+      depth: 2,
+      disable: true,
+      key: ['/wyrms?/i'],
+      keysecondary: ['mountain'],
+    })
+  })
+
+  it('keeps plain keys plain when other keys of the entry are regular expressions', () => {
+    const file: STWorldInfoFile = {
+      entries: {
+        '0': { uid: 0, key: ['/drakes?/', 'a.b', 'Fire'], comment: 'Mixed', content: 'Mixed keys', matchWholeWords: true },
+      },
+    }
+    const [entry] = importSTWorldInfo(file).entries
+
+    expect(entry.useRegex).toBe(true)
+    expect(matchEntry(entry, 'two drakes')).toBe('/drakes?/')
+    // A plain key is neither a pattern nor a substring match once the entry uses regex
+    expect(matchEntry(entry, 'aXb')).toBeNull()
+    expect(matchEntry(entry, 'a.b')).not.toBeNull()
+    expect(matchEntry(entry, 'Fireball')).toBeNull()
+    expect(matchEntry(entry, 'a fire burns')).not.toBeNull()
+
+    expect(exportSTWorldInfo(importSTWorldInfo(file)).entries['0'].key).toEqual(['/drakes?/', 'a.b', 'Fire'])
+  })
+
+  it('exports edits and assigns unused uids to new entries', () => {
+    const lorebook = importSTWorldInfo(worldInfoFile)
+    lorebook.entries[1] = { ...lorebook.entries[1], content: 'Edited', position: 'AFTER_CHARACTER' }
+    lorebook.entries.push({ ...lorebook.entries[1], id: 'new', extensions: null, name: 'New' })
+
+    const exported = exportSTWorldInfo(lorebook)
+
+    expect(exported.entries['0']).toMatchObject({ content: 'Edited', position: 1 })
+    expect(exported.entries['1']).toMatchObject({ uid: 1, comment: 'New', probability: 100 })
+  })
+
+  it('maps and round-trips a character_book', () => {
+    const lorebook = importSTCharacterBook(characterBook)
+
+    expect(lorebook).toMatchObject({ name: 'Alice Lore', scanDepth: 3, tokenBudget: 500 })
+    expect(lorebook.entries[0]).toMatchObject({
+      name: 'Tea',
+      position: 'BEFORE_CHARACTER',
+      insertionOrder: 10,
+      useRegex: false,
+    })
+
+    const exported = exportSTCharacterBook(lorebook)
+    expect(exported).toMatchObject({ recursive_scanning: true, extensions: { custom: 'value' } })
+    expect(exported.entries[0]).toMatchObject({
+      id: 7,
+      keys: ['tea'],
+      position: 'before_char',
+      use_regex: true,
+      extensions: { position: 0, match_whole_words: null, probability: 100 },
+    })
+  })
+
+  it('moves the card character_book into a lorebook and embeds it again on export', () => {
+    const card = {
+      spec: 'chara_card_v2' as const,
+      spec_version: '2.0' as const,
+      data: {
+        name: 'Alice',
+        description: 'Curious',
+        personality: '',
+        scenario: '',
+        first_mes: 'Hi',
+        mes_example: '',
+        character_book: characterBook,
+      },
+    }
+
+    const book = getSTCharacterBook(card)
+    const imported = importSTCharacter(card)
+
+    expect(book).toBe(characterBook)
+    expect(imported.sillyTavernData).not.toHaveProperty('character_book')
+
+    const lorebook = { ...importSTCharacterBook(book!), id: 'lb', userId: 'u', createdAt: '', updatedAt: '' }
+    const exported = exportSTCharacter({ ...imported, firstMessage: 'Hi' }, lorebook)
+
+    expect(exported.data.character_book?.entries[0].content).toBe('Alice loves tea.')
+  })
+})
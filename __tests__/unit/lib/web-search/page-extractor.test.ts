@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for fetching result pages
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from '@jest/globals'
+import fetchMock from 'jest-fetch-mock'
+import { fetchPageContent } from '@/lib/web-search/page-extractor'
+
+const ARTICLE = '<html><body><article><p>The goose quill was the standard writing instrument for centuries.</p></article></body></html>'
+
+/**
+ * A response with a web stream body, as the runtime's fetch returns
+ */
+function pageResponse(body: string | ReadableStream<Uint8Array> | null, init: { status?: number; headers?: Record<string, string> } = {}) {
+  const status = init.status ?? 200
+  const stream = typeof body === 'string'
+    ? new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(body))
+        controller.close()
+      },
+    })
+    : body
+  return { ok: status >= 200 && status < 300, status, headers: new Headers(init.headers), body: stream } as unknown as Response
+}
+
+describe('fetchPageContent', () => {
+  beforeAll(() => {
+    fetchMock.enableMocks()
+  })
+
+  beforeEach(() => {
+    fetchMock.resetMocks()
+  })
+
+  it('refuses pages on loopback, private and link-local hosts', async () => {
+    for (const url of ['http://127.0.0.1/', 'http://[::1]/', 'http://localhost/', 'http://10.0.0.5/', 'http://169.254.169.254/latest/meta-data/']) {
+      expect(await fetchPageContent(url)).toBeNull()
+    }
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('refuses redirects to private hosts', async () => {
+    fetchMock.mockImplementationOnce(async () =>
+      pageResponse(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data/' } })
+    )
+
+    expect(await fetchPageContent('https://93.184.216.34/page')).toBeNull()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('follows redirects to public hosts', async () => {
+    fetchMock
+      .mockImplementationOnce(async () => pageResponse(null, { status: 301, headers: { Location: 'https://93.184.216.35/moved' } }))
+      .mockImplementationOnce(async () => pageResponse(ARTICLE, { headers: { 'Content-Type': 'text/html' } }))
+
+    const page = await fetchPageContent('https://93.184.216.34/page')
+
+    expect(page?.text).toContain('goose quill')
+    expect(fetchMock.mock.calls[1][0]).toBe('https://93.184.216.35/moved')
+  })
+
+  it('stops reading pages at the size cap', async () => {
+    const chunk = new TextEncoder().encode(`<p>${'quill '.repeat(10_000)}</p>`)
+    let bytesSent = 0
+    let cancelled = false
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        bytesSent += chunk.byteLength
+        controller.enqueue(chunk)
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+    fetchMock.mockImplementationOnce(async () => pageResponse(endless, { headers: { 'Content-Type': 'text/html' } }))
+
+    const page = await fetchPageContent('https://93.184.216.34/endless', { timeoutMs: 60_000 })
+
+    expect(page?.text).toContain('quill')
+    expect(cancelled).toBe(true)
+    expect(bytesSent).toBeLessThan(3 * 1024 * 1024)
+  })
+})
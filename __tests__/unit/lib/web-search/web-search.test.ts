@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for web search backends and page extraction
+ * Runs the backends against a local HTTP server standing in for SearxNG,
+ * Brave, Tavily and the result pages they link to.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import fetchMock from 'jest-fetch-mock'
+import {
+  createBraveBackend,
+  createSearchBackend,
+  createSearxngBackend,
+  createTavilyBackend,
+  extractReadableContent,
+  runWebSearch,
+  SearchBackendError,
+} from '@/lib/web-search'
+
+// The local server stands in for public sites, which page fetches are limited to
+jest.mock('@/lib/public-address', () => ({
+  ...jest.requireActual('@/lib/public-address'),
+  fetchPublicUrl: (url: string, init?: RequestInit) => fetch(url, init),
+}))
+
+const ARTICLE_PAGE = `<!doctype html>
+<html>
+<head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Quills &amp; Inkwells">
+  <meta property="og:site_name" content="Stationery Times">
+  <meta property="article:published_time" content="2024-03-01T12:00:00Z">
+  <script>window.tracking = 'should never appear'</script>
+</head>
+<body>
+  <nav><ul><li>Home — a navigation link that is long enough to count</li></ul></nav>
+  <article>
+    <h1>Quills and inkwells</h1>
+    <p>The goose quill was the standard writing instrument for over a thousand years.</p>
+    <p>Short.</p>
+    <p>Inkwells were usually made of glass, pewter or ceramic and kept on the desk.</p>
+  </article>
+  <footer><p>Copyright Stationery Times, all rights reserved forever and ever.</p></footer>
+</body>
+</html>`
+
+let server: http.Server
+let baseUrl: string
+const requests: { method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string }[] = []
+
+beforeAll(async () => {
+  // These tests talk to a real server, so use real fetch instead of the global mock
+  fetchMock.disableMocks()
+
+  server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body })
+      const url = new URL(req.url || '/', baseUrl)
+
+      if (url.pathname === '/search' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({
+          results: [
+            { title: 'Quills <b>history</b>', url: `${baseUrl}/article`, content: 'About quills', publishedDate: '2024-03-01' },
+            { title: 'Duplicate', url: `${baseUrl}/article`, content: 'Same page again' },
+            { title: 'Not a web page', url: 'ftp://files.example.com/quills' },
+            { title: 'Missing page', url: `${baseUrl}/missing`, content: 'This page 404s' },
+          ],
+        }))
+        return
+      }
+
+      if (url.pathname === '/brave') {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({
+          web: { results: [{ title: 'Brave result', url: 'https://brave.example.com/', description: 'A &quot;quoted&quot; description' }] },
+        }))
+        return
+      }
+
+      if (url.pathname === '/tavily' && req.method === 'POST') {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({
+          results: [{ title: 'Tavily result', url: 'https://tavily.example.com/', content: 'Tavily content', published_date: '2024-02-02' }],
+        }))
+        return
+      }
+
+      if (url.pathname === '/article') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+        res.end(ARTICLE_PAGE)
+        return
+      }
+
+      if (url.pathname === '/broken/search') {
+        res.writeHead(500, { 'Content-Type': 'text/plain' })
+        res.end('engine exploded')
+        return
+      }
+
+      res.writeHead(404, { 'Content-Type': 'text/plain' })
+      res.end('not found')
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()))
+  fetchMock.enableMocks()
+})
+
+describe('extractReadableContent', () => {
+  it('keeps article text and drops page chrome', () => {
+    const page = extractReadableContent(ARTICLE_PAGE)
+
+    expect(page.title).toBe('Quills & Inkwells')
+    expect(page.siteName).toBe('Stationery Times')
+    expect(page.publishedDate).toBe('2024-03-01T12:00:00.000Z')
+    expect(page.text).toContain('Quills and inkwells')
+    expect(page.text).toContain('The goose quill was the standard writing instrument')
+    expect(page.text).not.toContain('Short.')
+    expect(page.text).not.toContain('tracking')
+    expect(page.text).not.toContain('navigation link')
+    expect(page.text).not.toContain('Copyright')
+  })
+
+  it('truncates long text', () => {
+    const html = `<body><p>${'word '.repeat(500)}</p></body>`
+    const page = extractReadableContent(html, { maxChars: 100 })
+
+    expect(page.text.length).toBeLessThanOrEqual(101)
+    expect(page.text.endsWith('…')).toBe(true)
+  })
+})
+
+describe('search backends', () => {
+  it('queries SearxNG and cleans up its results', async () => {
+    const backend = createSearxngBackend({ baseUrl: `${baseUrl}/` })
+    const results = await backend.search('quills', { maxResults: 5 })
+
+    expect(results.map(r => r.url)).toEqual([`${baseUrl}/article`, `${baseUrl}/missing`])
+    expect(results[0].title).toBe('Quills history')
+    expect(results[0].publishedDate).toBe('2024-03-01T00:00:00.000Z')
+
+    const request = requests.find(r => r.url?.startsWith('/search'))
+    expect(request?.url).toContain('format=json')
+    expect(request?.url).toContain('q=quills')
+  })
+
+  it('sends the Brave subscription token', async () => {
+    const backend = createBraveBackend({ apiKey: 'brave-key', baseUrl: `${baseUrl}/brave` })
+    const results = await backend.search('quills', { maxResults: 3 })
+
+    expect(results).toEqual([
+      { title: 'Brave result', url: 'https://brave.example.com/', snippet: 'A "quoted" description', publishedDate: undefined },
+    ])
+    const request = requests.find(r => r.url?.startsWith('/brave'))
+    expect(request?.headers['x-subscription-token']).toBe('brave-key')
+    expect(request?.url).toContain('count=3')
+  })
+
+  it('posts the query to Tavily', async () => {
+    const backend = createTavilyBackend({ apiKey: 'tvly-key', baseUrl: `${baseUrl}/tavily` })
+    const results = await backend.search('quills', { maxResults: 2 })
+
+    expect(results[0].title).toBe('Tavily result')
+    const request = requests.find(r => r.url === '/tavily')
+    expect(request?.headers.authorization).toBe('Bearer tvly-key')
+    expect(JSON.parse(request!.body)).toMatchObject({ query: 'quills', max_results: 2 })
+  })
+
+  it('raises SearchBackendError for failed requests', async () => {
+    const backend = createSearxngBackend({ baseUrl: `${baseUrl}/broken` })
+
+    await expect(backend.search('quills', { maxResults: 5 })).rejects.toThrow(SearchBackendError)
+    await expect(backend.search('quills', { maxResults: 5 })).rejects.toThrow('SearxNG returned 500: engine exploded')
+  })
+})
+
+describe('createSearchBackend', () => {
+  it('returns null when the settings are incomplete', () => {
+    const base = { fetchPageContent: true, maxPageChars: 4000 }
+
+    expect(createSearchBackend({ ...base, backend: 'NONE' })).toBeNull()
+    expect(createSearchBackend({ ...base, backend: 'SEARXNG' })).toBeNull()
+    expect(createSearchBackend({ ...base, backend: 'BRAVE' })).toBeNull()
+    expect(createSearchBackend({ ...base, backend: 'PLUGIN', pluginBackendId: 'not-registered' })).toBeNull()
+    expect(createSearchBackend({ ...base, backend: 'TAVILY' }, 'tvly-key')?.id).toBe('TAVILY')
+  })
+})
+
+describe('runWebSearch', () => {
+  it('fetches result pages and builds citations', async () => {
+    const backend = createSearxngBackend({ baseUrl })
+    const { results, citations } = await runWebSearch(backend, 'quills', {
+      maxResults: 5,
+      fetchPageContent: true,
+      maxPageChars: 2000,
+    })
+
+    expect(results).toHaveLength(2)
+    expect(results[0].siteName).toBe('Stationery Times')
+    expect(results[0].content).toContain('goose quill')
+    // The 404 page falls back to the snippet and the host name
+    expect(results[1].content).toBeUndefined()
+    expect(results[1].siteName).toBe('127.0.0.1')
+
+    expect(citations).toEqual([
+      expect.objectContaining({ index: 1, title: 'Quills history', url: `${baseUrl}/article`, siteName: 'Stationery Times' }),
+      expect.objectContaining({ index: 2, title: 'Missing page', url: `${baseUrl}/missing` }),
+    ])
+    expect(citations[0].accessedAt).toBe(citations[1].accessedAt)
+  })
+
+  it('skips page fetches when page content is off', async () => {
+    const before = requests.filter(r => r.url === '/article').length
+    const backend = createSearxngBackend({ baseUrl })
+    const { results } = await runWebSearch(backend, 'quills', { maxResults: 1, fetchPageContent: false })
+
+    expect(results).toHaveLength(1)
+    expect(results[0].content).toBeUndefined()
+    expect(requests.filter(r => r.url === '/article').length).toBe(before)
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * Tests for the minimal ZIP reader/writer in lib/zip.ts
+ */
+
+import { crc32, createZip, isZip, readZip, ZipError } from '@/lib/zip'
+
+describe('zip', () => {
+  it('round trips stored and deflated entries with UTF-8 names', () => {
+    const entries = [
+      { path: 'card.json', data: Buffer.from(JSON.stringify({ text: 'x'.repeat(1000) }), 'utf8') },
+      { path: 'assets/icon/images/résumé.png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+    ]
+
+    const zip = createZip(entries)
+
+    expect(isZip(zip)).toBe(true)
+    const read = readZip(zip)
+    expect(read.map(e => e.path)).toEqual(['card.json', 'assets/icon/images/résumé.png'])
+    expect(read[0].data.equals(entries[0].data)).toBe(true)
+    expect(read[1].data.equals(entries[1].data)).toBe(true)
+    // The repetitive JSON is compressed
+    expect(zip.length).toBeLessThan(entries[0].data.length)
+  })
+
+  it('computes the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789', 'ascii'))).toBe(0xcbf43926)
+  })
+
+  it('rejects corrupt entries and non-archives', () => {
+    const zip = createZip([{ path: 'a.txt', data: Buffer.from('hello', 'utf8') }])
+    // The stored payload follows the 30-byte local header and the name
+    zip[30 + 'a.txt'.length] ^= 0xff
+
+    expect(() => readZip(zip)).toThrow(ZipError)
+    expect(() => readZip(Buffer.from('not a zip at all, just some text'))).toThrow('Not a ZIP archive')
+    expect(isZip(Buffer.from('PK'))).toBe(false)
+  })
+
+  it('refuses archives larger than the size limit', () => {
+    const zip = createZip([{ path: 'big.txt', data: Buffer.alloc(2048) }])
+
+    expect(() => readZip(zip, 1024)).toThrow('too large')
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for resolving memory proposals
+ * Tests app/api/characters/[id]/memories/proposals/[proposalId]/route.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { PUT as resolveProposal } from '@/app/api/characters/[id]/memories/proposals/[proposalId]/route'
+import { getServerSession } from '@/lib/auth/session'
+import { acceptMemoryProposal } from '@/lib/memory/consolidation'
+import { MemoryVetoedError } from '@/lib/memory/memory-service'
+import { getRepositories } from '@/lib/repositories/factory'
+
+jest.mock('@/lib/auth/session', () => ({
+  getServerSession: jest.fn(),
+}))
+jest.mock('@/lib/memory/consolidation', () => ({
+  acceptMemoryProposal: jest.fn(),
+  rejectMemoryProposal: jest.fn(),
+}))
+
+const mockGetServerSession = jest.mocked(getServerSession)
+const mockAcceptMemoryProposal = jest.mocked(acceptMemoryProposal)
+const mockGetRepositories = jest.mocked(getRepositories)
+
+function request(body: unknown) {
+  return { json: async () => body } as any
+}
+
+const params = { params: Promise.resolve({ id: 'char-1', proposalId: 'proposal-1' }) }
+
+describe('PUT /api/characters/:id/memories/proposals/:proposalId', () => {
+  beforeEach(() => {
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', email: 'user@example.com' } } as any)
+    mockGetRepositories.mockReturnValue({
+      users: {
+        findByEmail: jest.fn().mockResolvedValue({ id: 'user-1' }),
+        getChatSettings: jest.fn().mockResolvedValue(null),
+      },
+      characters: { findById: jest.fn().mockResolvedValue({ id: 'char-1', userId: 'user-1' }) },
+      memoryProposals: {
+        findById: jest.fn().mockResolvedValue({ id: 'proposal-1', characterId: 'char-1', status: 'PENDING' }),
+      },
+    } as any)
+  })
+
+  it('reports a merge vetoed by a plugin with its reason', async () => {
+    mockAcceptMemoryProposal.mockRejectedValue(new MemoryVetoedError('guard', 'No secrets'))
+
+    const response = await resolveProposal(request({ action: 'accept' }), params)
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toEqual({ error: 'Memory blocked by plugin', plugin: 'guard', reason: 'No secrets' })
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for the message swipe endpoint
+ * Tests app/api/messages/[id]/swipe/route.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { POST as generateSwipe, PUT as switchSwipe } from '@/app/api/messages/[id]/swipe/route'
+import { getServerSession } from '@/lib/auth/session'
+import { createLLMProvider } from '@/lib/llm'
+import { getRepositories } from '@/lib/repositories/factory'
+import type { ChatEvent, MessageEvent } from '@/lib/schemas/types'
+
+jest.mock('@/lib/auth/session', () => ({
+  getServerSession: jest.fn(),
+}))
+jest.mock('@/lib/llm', () => ({
+  createLLMProvider: jest.fn(),
+}))
+jest.mock('@/lib/encryption', () => ({
+  decryptApiKey: jest.fn(),
+}))
+
+const mockGetServerSession = jest.mocked(getServerSession)
+const mockCreateLLMProvider = jest.mocked(createLLMProvider)
+const mockGetRepositories = jest.mocked(getRepositories)
+
+const CHAT_ID = 'chat-1'
+
+function message(id: string, role: MessageEvent['role'], content: string, createdAt: string, swipe?: { index: number; active?: boolean }): MessageEvent {
+  return {
+    type: 'message',
+    id,
+    role,
+    content,
+    attachments: [],
+    createdAt,
+    ...(swipe ? { swipeGroupId: 'swipe-reply', swipeIndex: swipe.index, activeSwipe: swipe.active } : {}),
+  }
+}
+
+function request(body?: unknown) {
+  return { json: async () => body } as any
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) }
+}
+
+describe('/api/messages/:id/swipe', () => {
+  let messages: ChatEvent[]
+  let sendMessage: jest.Mock
+
+  beforeEach(() => {
+    messages = [
+      message('user-1', 'USER', 'Hello', '2024-01-01T00:00:00.000Z'),
+      message('reply-a', 'ASSISTANT', 'First reply', '2024-01-01T00:01:00.000Z', { index: 0 }),
+      message('reply-b', 'ASSISTANT', 'Second reply', '2024-01-01T00:01:00.000Z', { index: 1 }),
+      message('user-2', 'USER', 'Tell me more', '2024-01-01T00:02:00.000Z'),
+      message('answer', 'ASSISTANT', 'More', '2024-01-01T00:03:00.000Z'),
+    ]
+
+    sendMessage = jest.fn().mockResolvedValue({ content: 'Another answer', usage: { totalTokens: 5 }, raw: {} })
+    mockCreateLLMProvider.mockResolvedValue({ sendMessage } as any)
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-123' } } as any)
+    mockGetRepositories.mockReturnValue({
+      chats: {
+        findAll: jest.fn().mockResolvedValue([
+          { id: CHAT_ID, participants: [{ id: 'participant-1', type: 'CHARACTER', isActive: true, connectionProfileId: 'profile-1' }] },
+        ]),
+        getMessages: jest.fn(async () => messages.map(m => ({ ...m }))),
+        updateMessage: jest.fn(async (chatId: string, messageId: string, updates: Partial<MessageEvent>) => {
+          const index = messages.findIndex(m => m.id === messageId)
+          messages[index] = { ...messages[index], ...updates } as ChatEvent
+          return messages[index]
+        }),
+        addMessage: jest.fn(async (chatId: string, event: ChatEvent) => {
+          messages.push(event)
+          return event
+        }),
+        update: jest.fn(),
+      },
+      connections: {
+        findById: jest.fn().mockResolvedValue({ provider: 'OPENAI', modelName: 'gpt-4o', parameters: {} }),
+      },
+    } as any)
+  })
+
+  it('saves the chosen swipe as the active one', async () => {
+    const response = await switchSwipe(request({ swipeIndex: 1 }), params('reply-a'))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).id).toBe('reply-b')
+    expect(messages.find(m => m.id === 'reply-b')).toMatchObject({ activeSwipe: true })
+
+    await switchSwipe(request({ swipeIndex: 0 }), params('reply-b'))
+
+    expect(messages.find(m => m.id === 'reply-a')).toMatchObject({ activeSwipe: true })
+    expect(messages.find(m => m.id === 'reply-b')).toMatchObject({ activeSwipe: false })
+  })
+
+  it('builds the context from the active swipe', async () => {
+    await switchSwipe(request({ swipeIndex: 1 }), params('reply-a'))
+
+    const response = await generateSwipe(request(), params('answer'))
+
+    expect(response.status).toBe(201)
+    expect(sendMessage.mock.calls[0][0].messages.map((m: { content: string }) => m.content)).toEqual([
+      'Hello',
+      'Second reply',
+      'Tell me more',
+    ])
+  })
+
+  it('puts a message swiped for the first time into its swipe group', async () => {
+    const response = await generateSwipe(request(), params('answer'))
+    const swipe = await response.json()
+
+    expect(swipe).toMatchObject({ swipeGroupId: 'swipe-answer', swipeIndex: 1 })
+    expect(messages.find(m => m.id === 'answer')).toMatchObject({ swipeGroupId: 'swipe-answer', swipeIndex: 0 })
+  })
+})
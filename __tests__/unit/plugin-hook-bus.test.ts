@@ -0,0 +1,180 @@
+/**
+ * Plugin Hook Bus Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  HOOK_POINTS,
+  clearPluginHooks,
+  getPluginHookRegistry,
+  hasHooks,
+  pluginHookRegistry,
+  registerHookHandler,
+  registerPluginHooks,
+  runHook,
+  unregisterPluginHooks,
+} from '@/lib/plugins/hook-bus';
+import { pluginRegistry } from '@/lib/plugins/registry';
+import type { LoadedPlugin } from '@/lib/plugins/manifest-loader';
+import type { PluginCapability } from '@/lib/schemas/plugin-manifest';
+
+function makePlugin(
+  name: string,
+  capabilities: PluginCapability[],
+  hooks: NonNullable<LoadedPlugin['manifest']['hooks']>,
+  enabled = true
+): LoadedPlugin {
+  return {
+    manifest: {
+      name,
+      title: name,
+      version: '1.0.0',
+      description: 'Hook test plugin',
+      author: 'Test',
+      license: 'MIT',
+      keywords: [],
+      main: 'index.js',
+      compatibility: {
+        quilltapVersion: '>=1.7.0',
+      },
+      capabilities,
+      sandboxed: true,
+      hooks,
+    },
+    pluginPath: `/test/${name}`,
+    manifestPath: `/test/${name}/manifest.json`,
+    enabled,
+    capabilities,
+    source: 'manual',
+  };
+}
+
+describe('Plugin Hook Bus', () => {
+  beforeEach(() => {
+    clearPluginHooks();
+    pluginRegistry.reset();
+  });
+
+  describe('runHook', () => {
+    it('should return the payload untouched when no handlers are registered', async () => {
+      const payload = { content: 'hello' };
+
+      const result = await runHook(HOOK_POINTS.STREAM_CHUNK, payload);
+
+      expect(result).toEqual({ payload, vetoed: false });
+      expect(hasHooks(HOOK_POINTS.STREAM_CHUNK)).toBe(false);
+    });
+
+    it('should run handlers in priority order, passing along transformed payloads', async () => {
+      const order: string[] = [];
+      registerHookHandler(HOOK_POINTS.BEFORE_CONTEXT_BUILD, (payload: { newUserMessage: string }) => {
+        order.push('late');
+        return { payload: { newUserMessage: `${payload.newUserMessage}!` } };
+      }, { pluginName: 'late', priority: 90 });
+      registerHookHandler(HOOK_POINTS.BEFORE_CONTEXT_BUILD, async (payload: { newUserMessage: string }) => {
+        order.push('early');
+        return { payload: { newUserMessage: payload.newUserMessage.toUpperCase() } };
+      }, { pluginName: 'early', priority: 10 });
+      registerHookHandler(HOOK_POINTS.BEFORE_CONTEXT_BUILD, () => {
+        order.push('observer');
+      }, { pluginName: 'observer' });
+
+      const result = await runHook(HOOK_POINTS.BEFORE_CONTEXT_BUILD, { newUserMessage: 'hi' });
+
+      expect(order).toEqual(['early', 'observer', 'late']);
+      expect(result).toEqual({ payload: { newUserMessage: 'HI!' }, vetoed: false });
+    });
+
+    it('should stop at the first veto and report who vetoed', async () => {
+      const after = jest.fn<() => void>();
+      registerHookHandler(HOOK_POINTS.MEMORY_CREATE, () => ({ veto: true as const, reason: 'No secrets' }), {
+        pluginName: 'guard',
+        priority: 20,
+      });
+      registerHookHandler(HOOK_POINTS.MEMORY_CREATE, after, { pluginName: 'later', priority: 30 });
+
+      const result = await runHook(HOOK_POINTS.MEMORY_CREATE, { content: 'password' });
+
+      expect(result).toEqual({
+        payload: { content: 'password' },
+        vetoed: true,
+        vetoedBy: 'guard',
+        reason: 'No secrets',
+      });
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('should isolate handlers that throw or time out', async () => {
+      pluginHookRegistry.timeoutMs = 20;
+      registerHookHandler(HOOK_POINTS.STREAM_CHUNK, () => {
+        throw new Error('boom');
+      }, { pluginName: 'broken', priority: 1 });
+      registerHookHandler(HOOK_POINTS.STREAM_CHUNK, () => new Promise(() => undefined), {
+        pluginName: 'hung',
+        priority: 2,
+      });
+      registerHookHandler(HOOK_POINTS.STREAM_CHUNK, (payload: { content: string }) => ({
+        payload: { content: payload.content.replace('darn', '****') },
+      }), { pluginName: 'filter', priority: 3 });
+
+      const result = await runHook(HOOK_POINTS.STREAM_CHUNK, { content: 'oh darn' });
+
+      expect(result).toEqual({ payload: { content: 'oh ****' }, vetoed: false });
+    });
+  });
+
+  describe('registerPluginHooks', () => {
+    beforeEach(async () => {
+      await pluginRegistry.initialize({
+        plugins: [
+          makePlugin('qtap-plugin-processor', ['MESSAGE_PROCESSORS'], [
+            { name: 'chat.streamChunk', handler: 'hooks/chunk.js', priority: 40, enabled: true },
+            { name: 'chat.afterMessageSave', handler: 'hooks/off.js', priority: 50, enabled: false },
+            { name: 'chat.unknownHook', handler: 'hooks/unknown.js', priority: 50, enabled: true },
+            { name: 'memory.create', handler: 'hooks/missing.js', priority: 50, enabled: true },
+          ]),
+          makePlugin('qtap-plugin-no-capability', ['UI_COMPONENTS'], [
+            { name: 'chat.streamChunk', handler: 'hooks/chunk.js', priority: 10, enabled: true },
+          ]),
+          makePlugin('qtap-plugin-disabled', ['MESSAGE_PROCESSORS'], [
+            { name: 'chat.streamChunk', handler: 'hooks/chunk.js', priority: 10, enabled: true },
+          ], false),
+        ],
+        errors: [],
+      });
+    });
+
+    it('should only register enabled, known hooks from MESSAGE_PROCESSORS plugins', () => {
+      const loadModule = jest.fn((modulePath: string) => {
+        if (modulePath.endsWith('missing.js')) {
+          throw new Error('Cannot find module');
+        }
+        return { default: () => undefined };
+      });
+
+      registerPluginHooks(loadModule);
+
+      const registry = getPluginHookRegistry();
+      expect(registry.initialized).toBe(true);
+      expect(registry.totalHooks).toBe(1);
+      expect(registry.hooks).toEqual([
+        {
+          name: 'chat.streamChunk',
+          handlers: [
+            expect.objectContaining({ plugin: 'qtap-plugin-processor', priority: 40 }),
+          ],
+        },
+      ]);
+      expect(loadModule).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove a plugin\'s hooks when unregistered', () => {
+      registerPluginHooks(() => ({ handle: () => undefined }));
+      expect(hasHooks(HOOK_POINTS.STREAM_CHUNK)).toBe(true);
+
+      unregisterPluginHooks('qtap-plugin-processor');
+
+      expect(hasHooks(HOOK_POINTS.STREAM_CHUNK)).toBe(false);
+    });
+  });
+});
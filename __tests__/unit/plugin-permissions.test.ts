@@ -0,0 +1,263 @@
+/**
+ * Plugin Permission Enforcement Tests
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  checkPluginPermission,
+  clearPermissionViolations,
+  getPermissionViolations,
+  isNetworkAllowed,
+  isPathAllowed,
+  PluginPermissionError,
+} from '@/lib/plugins/permissions';
+import { loadPluginModule, resetPluginSandboxes } from '@/lib/plugins/sandbox';
+import type { LoadedPlugin } from '@/lib/plugins/manifest-loader';
+import type { Permissions } from '@/lib/schemas/plugin-manifest';
+
+const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'qtap-plugin-permissions-'));
+
+function makePlugin(
+  name: string,
+  permissions: Partial<Permissions>,
+  source: LoadedPlugin['source'] = 'manual'
+): LoadedPlugin {
+  const pluginPath = path.join(tempRoot, name);
+  fs.mkdirSync(pluginPath, { recursive: true });
+
+  return {
+    manifest: {
+      name,
+      title: name,
+      version: '1.0.0',
+      description: 'Permission test plugin',
+      author: 'Test',
+      license: 'MIT',
+      keywords: [],
+      main: 'index.js',
+      compatibility: {
+        quilltapVersion: '>=1.7.0',
+      },
+      capabilities: ['API_ROUTES'],
+      sandboxed: true,
+      permissions: {
+        fileSystem: [],
+        network: [],
+        environment: [],
+        database: false,
+        userData: false,
+        ...permissions,
+      },
+    },
+    pluginPath,
+    manifestPath: path.join(pluginPath, 'manifest.json'),
+    enabled: true,
+    capabilities: ['API_ROUTES'],
+    source,
+  };
+}
+
+function writeModule(plugin: LoadedPlugin, filename: string, source: string): string {
+  const modulePath = path.join(plugin.pluginPath, filename);
+  fs.writeFileSync(modulePath, source);
+  return modulePath;
+}
+
+describe('Plugin Permissions', () => {
+  beforeEach(() => {
+    clearPermissionViolations();
+    resetPluginSandboxes();
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempRoot, { recursive: true, force: true });
+  });
+
+  describe('isNetworkAllowed', () => {
+    it('should match hosts, subdomains, ports, wildcards and URL prefixes', () => {
+      expect(isNetworkAllowed(['api.example.com'], 'https://api.example.com/v1/chat')).toBe(true);
+      expect(isNetworkAllowed(['example.com'], 'https://cdn.example.com/x')).toBe(true);
+      expect(isNetworkAllowed(['example.com'], 'https://notexample.com/')).toBe(false);
+      expect(isNetworkAllowed(['*.example.com'], 'https://example.com/')).toBe(true);
+      expect(isNetworkAllowed(['localhost:11434'], 'http://localhost:11434/api')).toBe(true);
+      expect(isNetworkAllowed(['localhost:11434'], 'http://localhost:8080/api')).toBe(false);
+      expect(isNetworkAllowed(['https://api.example.com/v1'], 'https://api.example.com/v2')).toBe(false);
+      expect(isNetworkAllowed(['*'], 'https://anything.test/')).toBe(true);
+      expect(isNetworkAllowed([], 'https://api.example.com/')).toBe(false);
+    });
+
+    it('should compare URL entries by origin and path segment', () => {
+      const allowed = ['https://api.example.com', 'https://api.other.com/v1'];
+
+      expect(isNetworkAllowed(allowed, 'https://api.example.com/anything')).toBe(true);
+      expect(isNetworkAllowed(allowed, 'https://api.example.com.evil.net/')).toBe(false);
+      expect(isNetworkAllowed(allowed, 'https://api.example.com@evil.net/')).toBe(false);
+      expect(isNetworkAllowed(allowed, 'http://api.example.com/')).toBe(false);
+      expect(isNetworkAllowed(allowed, 'https://api.other.com/v1/chat')).toBe(true);
+      expect(isNetworkAllowed(allowed, 'https://api.other.com/v10')).toBe(false);
+    });
+  });
+
+  describe('isPathAllowed', () => {
+    it('should allow declared paths and the plugin directory only', () => {
+      const pluginPath = path.join(tempRoot, 'paths');
+
+      expect(isPathAllowed(['data/'], pluginPath, path.join(process.cwd(), 'data', 'file.json'))).toBe(true);
+      expect(isPathAllowed(['data/'], pluginPath, path.join(pluginPath, 'cache', 'x'))).toBe(true);
+      expect(isPathAllowed(['data/'], pluginPath, path.join(process.cwd(), 'data', '..', '.env'))).toBe(false);
+      expect(isPathAllowed(['data/'], pluginPath, path.join(process.cwd(), 'database'))).toBe(false);
+    });
+  });
+
+  describe('checkPluginPermission', () => {
+    it('should record each denied target once with a running count', () => {
+      const plugin = makePlugin('qtap-plugin-counter', { database: false });
+
+      expect(checkPluginPermission(plugin, 'database', 'mongodb')).toBe(false);
+      expect(checkPluginPermission(plugin, 'database', 'mongodb')).toBe(false);
+
+      expect(getPermissionViolations('qtap-plugin-counter')).toEqual([
+        expect.objectContaining({ kind: 'database', target: 'mongodb', count: 2 }),
+      ]);
+    });
+
+    it('should not restrict plugins that ship with Quilltap', () => {
+      const plugin = makePlugin('qtap-plugin-included', {}, 'included');
+
+      expect(checkPluginPermission(plugin, 'network', 'https://api.example.com/')).toBe(true);
+      expect(getPermissionViolations()).toEqual([]);
+    });
+  });
+
+  describe('loadPluginModule', () => {
+    it('should only expose declared environment variables', () => {
+      process.env.QTAP_TEST_DECLARED = 'visible';
+      process.env.QTAP_TEST_SECRET = 'hidden';
+      const plugin = makePlugin('qtap-plugin-env', { environment: ['QTAP_TEST_DECLARED'] });
+      const modulePath = writeModule(plugin, 'index.js', `
+        module.exports = {
+          declared: process.env.QTAP_TEST_DECLARED,
+          secret: process.env.QTAP_TEST_SECRET,
+          keys: Object.keys(process.env).filter(key => key.startsWith('QTAP_TEST_')),
+        };
+      `);
+
+      const mod = loadPluginModule(plugin, modulePath) as Record<string, unknown>;
+
+      expect(mod).toEqual({ declared: 'visible', secret: undefined, keys: ['QTAP_TEST_DECLARED'] });
+      expect(getPermissionViolations('qtap-plugin-env')).toEqual([
+        expect.objectContaining({ kind: 'environment', target: 'QTAP_TEST_SECRET' }),
+      ]);
+    });
+
+    it('should deny file access outside declared paths', async () => {
+      const plugin = makePlugin('qtap-plugin-fs', {});
+      writeModule(plugin, 'own.txt', 'mine');
+      const modulePath = writeModule(plugin, 'index.js', `
+        const fs = require('fs');
+        const path = require('path');
+        exports.readOwn = () => fs.readFileSync(path.join(__dirname, 'own.txt'), 'utf-8');
+        exports.readOutside = () => fs.readFileSync(path.join(__dirname, '..', 'elsewhere.txt'), 'utf-8');
+        exports.readOutsideAsync = () => require('fs/promises').readFile('/etc/hostname', 'utf-8');
+      `);
+
+      const mod = loadPluginModule(plugin, modulePath) as Record<string, () => unknown>;
+
+      expect(mod.readOwn()).toBe('mine');
+      expect(() => mod.readOutside()).toThrow(PluginPermissionError);
+      await expect(mod.readOutsideAsync()).rejects.toBeInstanceOf(PluginPermissionError);
+      expect(getPermissionViolations('qtap-plugin-fs')).toHaveLength(2);
+    });
+
+    it('should restrict outbound requests and database drivers', async () => {
+      const plugin = makePlugin('qtap-plugin-net', { network: ['api.example.com'] });
+      const modulePath = writeModule(plugin, 'index.js', `
+        exports.fetchBlocked = () => fetch('https://evil.example.org/steal');
+        exports.httpBlocked = () => require('https').get('https://evil.example.org/steal');
+        exports.loadDriver = () => require('mongodb');
+      `);
+
+      const mod = loadPluginModule(plugin, modulePath) as Record<string, () => unknown>;
+
+      await expect(mod.fetchBlocked()).rejects.toBeInstanceOf(PluginPermissionError);
+      expect(() => mod.httpBlocked()).toThrow(PluginPermissionError);
+      expect(() => mod.loadDriver()).toThrow(PluginPermissionError);
+      const violations = getPermissionViolations('qtap-plugin-net');
+      expect(violations).toHaveLength(2);
+      expect(violations).toEqual(expect.arrayContaining([
+        expect.objectContaining({ kind: 'network', target: 'https://evil.example.org/steal', count: 2 }),
+        expect.objectContaining({ kind: 'database', target: 'mongodb', count: 1 }),
+      ]));
+    });
+
+    it('should check the host in http options objects', () => {
+      const plugin = makePlugin('qtap-plugin-http-options', { network: ['api.example.com'] });
+      const modulePath = writeModule(plugin, 'index.js', `
+        const https = require('https');
+        exports.overrideHost = () => https.request('https://api.example.com/', { hostname: 'evil.example.org' });
+        exports.optionsOnly = () => https.request({ host: 'evil.example.org', port: 8443, path: '/' });
+      `);
+
+      const mod = loadPluginModule(plugin, modulePath) as Record<string, () => unknown>;
+
+      expect(() => mod.overrideHost()).toThrow(PluginPermissionError);
+      expect(() => mod.optionsOnly()).toThrow(PluginPermissionError);
+      expect(getPermissionViolations('qtap-plugin-http-options').map(v => v.target).sort()).toEqual([
+        'https://evil.example.org/',
+        'https://evil.example.org:8443/',
+      ]);
+    });
+
+    it('should not expose host globals or process builtins', async () => {
+      process.env.QTAP_TEST_SECRET = 'hidden';
+      const plugin = makePlugin('qtap-plugin-escape', {});
+      const modulePath = writeModule(plugin, 'index.js', `
+        exports.globalEnv = () => globalThis.process.env.QTAP_TEST_SECRET;
+        exports.globalFetch = () => globalThis.fetch('https://evil.example.org/');
+        exports.childProcess = () => require('node:child_process');
+        exports.workerThreads = () => require('worker_threads');
+        exports.binding = () => process.binding('spawn_sync');
+        exports.requireCache = () => Object.keys(require.cache).length;
+        exports.mainModule = () => process.mainModule;
+      `);
+
+      const mod = loadPluginModule(plugin, modulePath) as Record<string, () => unknown>;
+
+      expect(mod.globalEnv()).toBeUndefined();
+      await expect(mod.globalFetch()).rejects.toBeInstanceOf(PluginPermissionError);
+      expect(() => mod.childProcess()).toThrow(PluginPermissionError);
+      expect(() => mod.workerThreads()).toThrow(PluginPermissionError);
+      expect(() => mod.binding()).toThrow(PluginPermissionError);
+      expect(mod.requireCache()).toBe(0);
+      expect(mod.mainModule()).toBeUndefined();
+      expect(getPermissionViolations('qtap-plugin-escape')).toEqual(expect.arrayContaining([
+        expect.objectContaining({ kind: 'module', target: 'child_process' }),
+        expect.objectContaining({ kind: 'module', target: 'worker_threads' }),
+        expect.objectContaining({ kind: 'module', target: 'process.binding' }),
+      ]));
+    });
+
+    it('should hold host packages to the plugin permissions', () => {
+      const plugin = makePlugin('qtap-plugin-host-packages', {});
+      // Packages in Quilltap's node_modules that wrap child_process and fs
+      const modulePath = writeModule(plugin, 'index.js', `
+        exports.spawn = () => require(${JSON.stringify(require.resolve('cross-spawn'))}).sync('id');
+        exports.readFile = () => require(${JSON.stringify(require.resolve('graceful-fs'))}).readFileSync('/etc/passwd', 'utf-8');
+        exports.copiedFs = () => Object.getOwnPropertyDescriptor(require('fs'), 'readFileSync').value('/etc/passwd', 'utf-8');
+      `);
+
+      const mod = loadPluginModule(plugin, modulePath) as Record<string, () => unknown>;
+
+      expect(() => mod.spawn()).toThrow(PluginPermissionError);
+      expect(() => mod.readFile()).toThrow(PluginPermissionError);
+      expect(() => mod.copiedFs()).toThrow(PluginPermissionError);
+      expect(getPermissionViolations('qtap-plugin-host-packages')).toEqual(expect.arrayContaining([
+        expect.objectContaining({ kind: 'module', target: 'child_process' }),
+        expect.objectContaining({ kind: 'fileSystem', target: '/etc/passwd' }),
+      ]));
+    });
+  });
+});
@@ -8,7 +8,18 @@ import {
   STCharacterV2,
 } from '@/lib/sillytavern/character'
 import { importSTPersona, exportSTPersona } from '@/lib/sillytavern/persona'
-import { importSTChat, exportSTChat } from '@/lib/sillytavern/chat'
+import {
+  importSTChat,
+  exportSTChat,
+  exportSTGroup,
+  exportSTGroupChat,
+  getSTChatSpeakers,
+  importSTActivationStrategy,
+  exportSTActivationStrategy,
+  isSTGroupChat,
+  parseSTChatJSONL,
+  serializeSTChatJSONL,
+} from '@/lib/sillytavern/chat'
 
 describe('SillyTavern Character Import/Export', () => {
   const mockSTCharacter: STCharacterV2 = {
@@ -81,6 +92,16 @@ describe('SillyTavern Character Import/Export', () => {
       expect(result.name).toBe('Minimal')
       expect(result.exampleDialogues).toBe('')
       expect(result.systemPrompt).toBe('')
+      expect(result.alternateGreetings).toEqual([])
+    })
+
+    it('should import alternate greetings, skipping blank ones', () => {
+      const result = importSTCharacter({
+        ...mockSTCharacter,
+        alternate_greetings: ['Hi again!', '   ', 'Oh, it is you.'],
+      })
+
+      expect(result.alternateGreetings).toEqual(['Hi again!', 'Oh, it is you.'])
     })
   })
 
@@ -113,6 +134,24 @@ describe('SillyTavern Character Import/Export', () => {
       expect(result.spec).toBe('chara_card_v2')
       expect(result.data.creator).toBe('Quilltap')
     })
+
+    it('should export alternate greetings', () => {
+      const result = exportSTCharacter({
+        ...mockInternalCharacter,
+        alternateGreetings: ['Hi again!'],
+      })
+
+      expect(result.data.alternate_greetings).toEqual(['Hi again!'])
+    })
+
+    it('should keep the card greetings of characters imported before they were stored', () => {
+      const result = exportSTCharacter({
+        ...mockInternalCharacter,
+        sillyTavernData: { ...mockSTCharacter, alternate_greetings: ['From the card'] },
+      })
+
+      expect(result.data.alternate_greetings).toEqual(['From the card'])
+    })
   })
 })
 
@@ -319,4 +358,76 @@ describe('SillyTavern Chat Import/Export', () => {
       expect(result.messages.every((m) => !m.mes.includes('System prompt'))).toBe(true)
     })
   })
+
+  describe('group chats', () => {
+    const groupSTChat = {
+      character_name: 'unused',
+      user_name: 'unused',
+      messages: [
+        { name: 'Mira', is_user: false, is_name: true, send_date: 1, mes: 'Ahoy.', original_avatar: 'Mira.png' },
+        { name: 'Sam', is_user: true, is_name: true, send_date: 2, mes: 'Hello both.' },
+        { name: 'Bob', is_user: false, is_name: true, send_date: 3, mes: 'Hello.' },
+        { name: 'mira', is_user: false, is_name: true, send_date: 4, mes: 'Welcome aboard.' },
+        { name: 'Narrator', is_user: false, is_system: true, is_name: true, send_date: 5, mes: 'The tide turns.' },
+      ],
+    }
+
+    const members = [
+      { name: 'Mira', avatar: 'Mira.png', isActive: true },
+      { name: 'Bob', avatar: 'Bob.png', isActive: false },
+    ]
+
+    it('should list the speaking characters in order of appearance', () => {
+      expect(getSTChatSpeakers(groupSTChat)).toEqual([{ name: 'Mira', avatar: 'Mira.png' }, { name: 'Bob' }])
+    })
+
+    it('should tell group chats from one-on-one chats', () => {
+      expect(isSTGroupChat(groupSTChat)).toBe(true)
+      expect(isSTGroupChat(mockSTChat)).toBe(false)
+      expect(isSTGroupChat({ character_name: 'unused', messages: [] })).toBe(true)
+    })
+
+    it('should map activation strategies both ways', () => {
+      expect([0, 1, 2, 7, undefined].map(importSTActivationStrategy)).toEqual(['NATURAL', 'ROUND_ROBIN', 'MANUAL', 'ROUND_ROBIN', 'ROUND_ROBIN'])
+      expect((['NATURAL', 'ROUND_ROBIN', 'MANUAL', 'MENTION'] as const).map(exportSTActivationStrategy)).toEqual([0, 1, 2, 0])
+    })
+
+    it('should export each message under the member who wrote it', () => {
+      const messages = [
+        { ...mockMessages[0], participantId: null },
+        { ...mockMessages[1], swipeGroupId: null, participantId: 'p-bob' },
+      ]
+      const result = exportSTGroupChat(mockInternalChat, messages, msg => (msg.participantId === 'p-bob' ? members[1] : undefined), 'Sam')
+
+      expect(result.character_name).toBe('unused')
+      expect(result.messages.map(m => [m.name, m.is_user, m.original_avatar])).toEqual([
+        ['Sam', true, undefined],
+        ['Bob', false, 'Bob.png'],
+      ])
+    })
+
+    it('should export the group definition', () => {
+      const group = exportSTGroup({ ...mockInternalChat, turnStrategy: 'MANUAL' }, members, 'chat-123')
+
+      expect(group).toMatchObject({
+        name: 'Test Chat',
+        members: ['Mira.png', 'Bob.png'],
+        disabled_members: ['Bob.png'],
+        activation_strategy: 2,
+        chat_id: 'chat-123',
+        chats: ['chat-123'],
+      })
+    })
+
+    it('should write JSONL that reads back the same', () => {
+      const text = serializeSTChatJSONL({ ...groupSTChat, chat_metadata: { note_depth: 2 } })
+
+      expect(text.split('\n')).toHaveLength(6)
+      expect(parseSTChatJSONL(text)).toMatchObject({
+        character_name: 'unused',
+        chat_metadata: { note_depth: 2 },
+        messages: groupSTChat.messages,
+      })
+    })
+  })
 })
@@ -204,6 +204,18 @@ describe('Template Processing', () => {
 
       expect(context.scenario).toBe('In a modern city')
     })
+
+    it('should fill world info variables and their lore aliases', () => {
+      const context = buildTemplateContext({
+        character: { name: 'Alice' },
+        worldInfo: { before: 'Before text', after: 'After text' },
+      })
+
+      expect(context.wiBefore).toBe('Before text')
+      expect(context.loreBefore).toBe('Before text')
+      expect(context.wiAfter).toBe('After text')
+      expect(context.loreAfter).toBe('After text')
+    })
   })
 
   describe('processCharacterTemplates', () => {
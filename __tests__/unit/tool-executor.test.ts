@@ -11,6 +11,7 @@ import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals
 import {
   formatToolResult,
   detectToolCalls,
+  executeToolCallsInParallel,
   type ToolResult,
 } from '@/lib/chat/tool-executor'
 
@@ -995,4 +996,31 @@ describe('Tool Executor', () => {
       expect(formatted.content).toContain('Hello')
     })
   })
+
+  // ============================================================================
+  // executeToolCallsInParallel Tests
+  // ============================================================================
+
+  describe('executeToolCallsInParallel', () => {
+    it('should return one result per call in call order', async () => {
+      const results = await executeToolCallsInParallel(
+        [
+          { name: 'generate_image', arguments: { prompt: 'a castle' } },
+          { name: 'not_a_tool', arguments: {} },
+          { name: 'search_memories', arguments: { query: 'castle' } },
+        ],
+        { chatId: 'chat-1', userId: 'user-1' }
+      )
+
+      expect(results.map(result => result.toolName)).toEqual(['generate_image', 'not_a_tool', 'search_memories'])
+      expect(results.every(result => !result.success)).toBe(true)
+      expect(results[0].error).toBe('Image generation is not enabled for this chat')
+      expect(results[1].error).toBe('Unknown tool: not_a_tool')
+      expect(results[2].error).toBe('Memory search requires a character context')
+    })
+
+    it('should return an empty array for an empty round', async () => {
+      await expect(executeToolCallsInParallel([], { chatId: 'chat-1', userId: 'user-1' })).resolves.toEqual([])
+    })
+  })
 })
@@ -11,6 +11,23 @@ import {
   WebSearchToolContext,
 } from '@/lib/tools/handlers/web-search-handler'
 import { WebSearchResult } from '@/lib/tools/web-search-tool'
+import type { SearchBackend } from '@/lib/web-search'
+
+/**
+ * Backend that echoes the query back as canned results
+ */
+const stubBackend: SearchBackend = {
+  id: 'STUB',
+  displayName: 'Stub Search',
+  async search(query, { maxResults }) {
+    return Array.from({ length: Math.min(maxResults, 3) }, (_, i) => ({
+      title: `Result ${i + 1} for ${query}`,
+      url: `https://example.com/${i + 1}`,
+      snippet: `Snippet about ${query}`,
+      publishedDate: '2024-01-15T10:00:00.000Z',
+    }))
+  },
+}
 
 describe('WebSearchError', () => {
   it('should create an error with message and code', () => {
@@ -50,7 +67,7 @@ describe('executeWebSearchTool', () => {
   describe('valid input execution', () => {
     it('should execute with valid query and return results', async () => {
       const input = { query: 'what is artificial intelligence' }
-      const context: WebSearchToolContext = { userId: 'user-123' }
+      const context: WebSearchToolContext = { userId: 'user-123', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -64,7 +81,7 @@ describe('executeWebSearchTool', () => {
 
     it('should execute with custom maxResults', async () => {
       const input = { query: 'latest AI news', maxResults: 3 }
-      const context: WebSearchToolContext = { userId: 'user-456' }
+      const context: WebSearchToolContext = { userId: 'user-456', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -74,7 +91,7 @@ describe('executeWebSearchTool', () => {
 
     it('should log search with user ID and query', async () => {
       const input = { query: 'machine learning', maxResults: 5 }
-      const context: WebSearchToolContext = { userId: 'user-789' }
+      const context: WebSearchToolContext = { userId: 'user-789', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -82,38 +99,40 @@ describe('executeWebSearchTool', () => {
       expect(result.query).toBe('machine learning')
     })
 
-    it('should return mock placeholder result', async () => {
+    it('should return backend results with citations', async () => {
       const input = { query: 'test query' }
-      const context: WebSearchToolContext = { userId: 'test-user' }
+      const context: WebSearchToolContext = { userId: 'test-user', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
       expect(result.success).toBe(true)
-      expect(result.results).toBeDefined()
-      expect(result.results!.length).toBeGreaterThan(0)
+      expect(result.backend).toBe('STUB')
+      expect(result.results).toHaveLength(3)
 
       const firstResult = result.results![0]
-      expect(firstResult.title).toBeDefined()
-      expect(firstResult.url).toBeDefined()
-      expect(firstResult.snippet).toBeDefined()
+      expect(firstResult.title).toBe('Result 1 for test query')
+      expect(firstResult.url).toBe('https://example.com/1')
+      expect(firstResult.siteName).toBe('example.com')
       expect(firstResult.publishedDate).toBeDefined()
+
+      expect(result.citations).toHaveLength(3)
+      expect(result.citations![0]).toMatchObject({ index: 1, url: 'https://example.com/1', siteName: 'example.com' })
+      expect(result.citations![0].accessedAt).toBeDefined()
     })
 
-    it('should include query in snippet for user awareness', async () => {
-      const testQuery = 'my specific search query'
-      const input = { query: testQuery }
-      const context: WebSearchToolContext = { userId: 'user-test' }
+    it('should cap results at maxResults', async () => {
+      const input = { query: 'capped', maxResults: 2 }
+      const context: WebSearchToolContext = { userId: 'user-test', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
-      expect(result.results).toBeDefined()
-      const snippet = result.results![0].snippet
-      expect(snippet).toContain(testQuery)
+      expect(result.totalFound).toBe(2)
+      expect(result.citations).toHaveLength(2)
     })
 
     it('should use default maxResults when not provided', async () => {
       const input = { query: 'default max results test' }
-      const context: WebSearchToolContext = { userId: 'user-default' }
+      const context: WebSearchToolContext = { userId: 'user-default', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -125,7 +144,7 @@ describe('executeWebSearchTool', () => {
   describe('invalid input handling', () => {
     it('should fail with missing query', async () => {
       const input = { maxResults: 5 }
-      const context: WebSearchToolContext = { userId: 'user-123' }
+      const context: WebSearchToolContext = { userId: 'user-123', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -139,7 +158,7 @@ describe('executeWebSearchTool', () => {
 
     it('should fail with null query', async () => {
       const input = { query: null }
-      const context: WebSearchToolContext = { userId: 'user-456' }
+      const context: WebSearchToolContext = { userId: 'user-456', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -150,7 +169,7 @@ describe('executeWebSearchTool', () => {
 
     it('should fail with undefined query', async () => {
       const input = { query: undefined }
-      const context: WebSearchToolContext = { userId: 'user-789' }
+      const context: WebSearchToolContext = { userId: 'user-789', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -160,7 +179,7 @@ describe('executeWebSearchTool', () => {
 
     it('should fail with empty string query', async () => {
       const input = { query: '' }
-      const context: WebSearchToolContext = { userId: 'user-empty' }
+      const context: WebSearchToolContext = { userId: 'user-empty', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -170,7 +189,7 @@ describe('executeWebSearchTool', () => {
 
     it('should fail with whitespace-only query', async () => {
       const input = { query: '   \t\n  ' }
-      const context: WebSearchToolContext = { userId: 'user-whitespace' }
+      const context: WebSearchToolContext = { userId: 'user-whitespace', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -180,7 +199,7 @@ describe('executeWebSearchTool', () => {
 
     it('should fail with non-string query', async () => {
       const input = { query: 12345 }
-      const context: WebSearchToolContext = { userId: 'user-number' }
+      const context: WebSearchToolContext = { userId: 'user-number', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -189,7 +208,7 @@ describe('executeWebSearchTool', () => {
     })
 
     it('should fail with null input', async () => {
-      const context: WebSearchToolContext = { userId: 'user-null' }
+      const context: WebSearchToolContext = { userId: 'user-null', backend: stubBackend }
 
       const result = await executeWebSearchTool(null, context)
 
@@ -199,7 +218,7 @@ describe('executeWebSearchTool', () => {
     })
 
     it('should fail with undefined input', async () => {
-      const context: WebSearchToolContext = { userId: 'user-undefined' }
+      const context: WebSearchToolContext = { userId: 'user-undefined', backend: stubBackend }
 
       const result = await executeWebSearchTool(undefined, context)
 
@@ -209,7 +228,7 @@ describe('executeWebSearchTool', () => {
 
     it('should fail with invalid maxResults too low', async () => {
       const input = { query: 'valid query', maxResults: 0 }
-      const context: WebSearchToolContext = { userId: 'user-low' }
+      const context: WebSearchToolContext = { userId: 'user-low', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -219,7 +238,7 @@ describe('executeWebSearchTool', () => {
 
     it('should fail with invalid maxResults too high', async () => {
       const input = { query: 'valid query', maxResults: 11 }
-      const context: WebSearchToolContext = { userId: 'user-high' }
+      const context: WebSearchToolContext = { userId: 'user-high', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -229,7 +248,7 @@ describe('executeWebSearchTool', () => {
 
     it('should fail with non-integer maxResults', async () => {
       const input = { query: 'valid query', maxResults: 3.7 }
-      const context: WebSearchToolContext = { userId: 'user-float' }
+      const context: WebSearchToolContext = { userId: 'user-float', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -238,7 +257,7 @@ describe('executeWebSearchTool', () => {
     })
 
     it('should fail with non-object input', async () => {
-      const context: WebSearchToolContext = { userId: 'user-string' }
+      const context: WebSearchToolContext = { userId: 'user-string', backend: stubBackend }
 
       const result = await executeWebSearchTool('query string', context)
 
@@ -248,7 +267,7 @@ describe('executeWebSearchTool', () => {
 
     it('should set query to empty string on validation failure when query cannot be determined', async () => {
       const input = { maxResults: 5 }
-      const context: WebSearchToolContext = { userId: 'user-test' }
+      const context: WebSearchToolContext = { userId: 'user-test', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -257,7 +276,7 @@ describe('executeWebSearchTool', () => {
 
     it('should return empty query on validation failure for invalid input', async () => {
       const input = { query: 'partial input', maxResults: 'invalid' }
-      const context: WebSearchToolContext = { userId: 'user-test' }
+      const context: WebSearchToolContext = { userId: 'user-test', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -268,9 +287,39 @@ describe('executeWebSearchTool', () => {
   })
 
   describe('error handling', () => {
+    it('should fail when no search backend is configured', async () => {
+      const input = { query: 'anything' }
+      const context: WebSearchToolContext = { userId: 'user-no-backend' }
+
+      const result = await executeWebSearchTool(input, context)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('not configured')
+      expect(result.query).toBe('anything')
+    })
+
+    it('should report backend failures', async () => {
+      const failingBackend: SearchBackend = {
+        id: 'FAILING',
+        displayName: 'Failing Search',
+        async search() {
+          throw new Error('Search service unavailable')
+        },
+      }
+
+      const result = await executeWebSearchTool(
+        { query: 'broken' },
+        { userId: 'user-fail', backend: failingBackend }
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Search service unavailable')
+      expect(result.query).toBe('broken')
+    })
+
     it('should handle valid execution without errors', async () => {
       const input = { query: 'normal test query' }
-      const context: WebSearchToolContext = { userId: 'user-error' }
+      const context: WebSearchToolContext = { userId: 'user-error', backend: stubBackend }
 
       // Call the function (it handles errors internally)
       const result = await executeWebSearchTool(input, context)
@@ -283,7 +332,7 @@ describe('executeWebSearchTool', () => {
     it('should return error message for validation failures', async () => {
       // Create a scenario with invalid input
       const input = { query: '' }
-      const context: WebSearchToolContext = { userId: 'user-test' }
+      const context: WebSearchToolContext = { userId: 'user-test', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -294,7 +343,7 @@ describe('executeWebSearchTool', () => {
 
     it('should not log console.error on valid execution', async () => {
       const input = { query: 'valid query' }
-      const context: WebSearchToolContext = { userId: 'user-valid' }
+      const context: WebSearchToolContext = { userId: 'user-valid', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -303,7 +352,7 @@ describe('executeWebSearchTool', () => {
 
     it('should not log console.error on validation failure', async () => {
       const input = { query: null }
-      const context: WebSearchToolContext = { userId: 'user-fail' }
+      const context: WebSearchToolContext = { userId: 'user-fail', backend: stubBackend }
 
       // Validation failure is handled gracefully without error logging
       const result = await executeWebSearchTool(input, context)
@@ -316,7 +365,7 @@ describe('executeWebSearchTool', () => {
       // This tests the catch block query extraction logic
       // which attempts to extract query from input when an error occurs
       const input = { query: 'testable query', extraData: 'some data' }
-      const context: WebSearchToolContext = { userId: 'user-catch-test' }
+      const context: WebSearchToolContext = { userId: 'user-catch-test', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -327,7 +376,7 @@ describe('executeWebSearchTool', () => {
 
     it('should return empty query in error when query not extractable', async () => {
       const input = 'just a string'
-      const context: WebSearchToolContext = { userId: 'user-string' }
+      const context: WebSearchToolContext = { userId: 'user-string', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -339,7 +388,7 @@ describe('executeWebSearchTool', () => {
   describe('context handling', () => {
     it('should use provided userId in logging', async () => {
       const input = { query: 'test' }
-      const context: WebSearchToolContext = { userId: 'specific-user-id' }
+      const context: WebSearchToolContext = { userId: 'specific-user-id', backend: stubBackend }
 
       const result = await executeWebSearchTool(input, context)
 
@@ -352,12 +401,13 @@ describe('executeWebSearchTool', () => {
       // Test with UUID format
       let context: WebSearchToolContext = {
         userId: '550e8400-e29b-41d4-a716-446655440000',
+        backend: stubBackend,
       }
       let result = await executeWebSearchTool(input, context)
       expect(result.success).toBe(true)
 
       // Test with simple format
-      context = { userId: 'user-123' }
+      context = { userId: 'user-123', backend: stubBackend }
       result = await executeWebSearchTool(input, context)
       expect(result.success).toBe(true)
     })
@@ -620,3 +670,21 @@ describe('formatWebSearchResults', () => {
     expect(formatted).toContain('http://insecure.example.com/path')
   })
 })
+
+describe('formatWebSearchResults with page content', () => {
+  it('should include the source and page text and ask for numbered citations', () => {
+    const formatted = formatWebSearchResults([
+      {
+        title: 'Article',
+        url: 'https://news.example.com/article',
+        snippet: 'Short snippet',
+        siteName: 'Example News',
+        content: 'The full readable text of the article.',
+      },
+    ])
+
+    expect(formatted).toContain('Source: Example News')
+    expect(formatted).toContain('Page text: The full readable text of the article.')
+    expect(formatted).toContain('cite them by number')
+  })
+})
@@ -22,6 +22,7 @@ interface Character {
   personality?: string | null
   scenario?: string | null
   firstMessage?: string | null
+  alternateGreetings?: string[]
   exampleDialogues?: string | null
   systemPrompt?: string
   avatarUrl?: string
@@ -112,6 +113,7 @@ export default function EditCharacterPage({ params }: { params: Promise<{ id: st
     personality: '',
     scenario: '',
     firstMessage: '',
+    alternateGreetings: [] as string[],
     exampleDialogues: '',
     systemPrompt: '',
     avatarUrl: '',
@@ -124,6 +126,7 @@ export default function EditCharacterPage({ params }: { params: Promise<{ id: st
     personality: '',
     scenario: '',
     firstMessage: '',
+    alternateGreetings: [] as string[],
     exampleDialogues: '',
     systemPrompt: '',
     avatarUrl: '',
@@ -156,6 +159,7 @@ export default function EditCharacterPage({ params }: { params: Promise<{ id: st
         personality: char.personality || '',
         scenario: char.scenario || '',
         firstMessage: char.firstMessage || '',
+        alternateGreetings: char.alternateGreetings || [],
         exampleDialogues: char.exampleDialogues || '',
         systemPrompt: char.systemPrompt || '',
         avatarUrl: char.avatarUrl || '',
@@ -275,6 +279,21 @@ export default function EditCharacterPage({ params }: { params: Promise<{ id: st
     setFormData({ ...formData, [e.target.name]: e.target.value })
   }
 
+  const handleGreetingChange = (index: number, value: string) => {
+    setFormData({
+      ...formData,
+      alternateGreetings: formData.alternateGreetings.map((greeting, i) => (i === index ? value : greeting)),
+    })
+  }
+
+  const handleAddGreeting = () => {
+    setFormData({ ...formData, alternateGreetings: [...formData.alternateGreetings, ''] })
+  }
+
+  const handleRemoveGreeting = (index: number) => {
+    setFormData({ ...formData, alternateGreetings: formData.alternateGreetings.filter((_, i) => i !== index) })
+  }
+
   const handleCancel = async () => {
     if (hasChanges) {
       const result = await showAlert(
@@ -493,6 +512,43 @@ export default function EditCharacterPage({ params }: { params: Promise<{ id: st
                       />
                     </div>
 
+                    <div>
+                      <span className="block text-sm font-medium mb-2 text-gray-900 dark:text-white">
+                        Alternate Greetings (Optional)
+                      </span>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                        Other ways to open a chat. Pick one (or a random one) when starting a chat; the rest are available as swipes of the opening message.
+                      </p>
+                      <div className="space-y-3">
+                        {formData.alternateGreetings.map((greeting, index) => (
+                          <div key={index} className="flex gap-2 items-start">
+                            <textarea
+                              aria-label={`Alternate greeting ${index + 1}`}
+                              value={greeting}
+                              onChange={(e) => handleGreetingChange(index, e.target.value)}
+                              rows={3}
+                              className="flex-1 px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                              placeholder="Another opening message"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveGreeting(index)}
+                              className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded border border-red-200 dark:border-red-900/50"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleAddGreeting}
+                        className="mt-3 inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none"
+                      >
+                        + Add Greeting
+                      </button>
+                    </div>
+
                     <div>
                       <label htmlFor="exampleDialogues" className="block text-sm font-medium mb-2 text-gray-900 dark:text-white">
                         Example Dialogues (Optional)
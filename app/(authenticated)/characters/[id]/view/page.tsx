@@ -52,6 +52,7 @@ interface Character {
   personality?: string | null
   scenario?: string | null
   firstMessage?: string | null
+  alternateGreetings?: string[]
   exampleDialogues?: string | null
   systemPrompt?: string
   avatarUrl?: string
@@ -146,6 +147,7 @@ export default function ViewCharacterPage({ params }: { params: Promise<{ id: st
   const [selectedProfileId, setSelectedProfileId] = useState<string>('')
   const [selectedPersonaId, setSelectedPersonaId] = useState<string>('')
   const [selectedImageProfileId, setSelectedImageProfileId] = useState<string | null>(null)
+  const [selectedGreeting, setSelectedGreeting] = useState<string>('0')
   const [creatingChat, setCreatingChat] = useState(false)
   const [openedFromQuery, setOpenedFromQuery] = useState(false)
   const [defaultPersonaId, setDefaultPersonaId] = useState<string>('')
@@ -273,6 +275,12 @@ export default function ViewCharacterPage({ params }: { params: Promise<{ id: st
     }
   }, [searchParams, character?.defaultConnectionProfileId, profiles, defaultPersonaId])
 
+  // Greetings in the order the server opens chats with them
+  const greetings = [
+    ...(character?.firstMessage?.trim() ? [character.firstMessage] : []),
+    ...(character?.alternateGreetings || []),
+  ]
+
   const getAvatarSrc = () => {
     let src = null
     if (character?.defaultImage) {
@@ -309,6 +317,7 @@ export default function ViewCharacterPage({ params }: { params: Promise<{ id: st
       setSelectedPersonaId('')
     }
 
+    setSelectedGreeting('0')
     setShowChatDialog(true)
   }
 
@@ -342,6 +351,7 @@ export default function ViewCharacterPage({ params }: { params: Promise<{ id: st
         body: JSON.stringify({
           participants,
           title: `Chat with ${character?.name}`,
+          greeting: selectedGreeting === 'random' ? 'random' : Number(selectedGreeting),
         }),
       })
 
@@ -476,6 +486,21 @@ export default function ViewCharacterPage({ params }: { params: Promise<{ id: st
                 </div>
               )}
 
+              {character?.alternateGreetings && character.alternateGreetings.length > 0 && (
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                    Alternate Greetings
+                  </h2>
+                  <div className="space-y-3">
+                    {character.alternateGreetings.map((greeting, index) => (
+                      <div key={index} className="text-gray-700 dark:text-gray-300 border-l-2 border-gray-200 dark:border-slate-600 pl-3">
+                        <MessageContent content={greeting} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {character?.exampleDialogues && (
                 <div>
                   <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
@@ -788,7 +813,32 @@ export default function ViewCharacterPage({ params }: { params: Promise<{ id: st
                 </div>
               )}
 
-              {/* Image Profile Selection */}
+              {/* Greeting Selection */}
+              {greetings.length > 1 && (
+                <div>
+                  <label htmlFor="greeting" className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
+                    Greeting
+                  </label>
+                  <select
+                    id="greeting"
+                    value={selectedGreeting}
+                    onChange={(e) => setSelectedGreeting(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                  >
+                    {greetings.map((greeting, index) => (
+                      <option key={index} value={String(index)}>
+                        {`${index + 1}. ${greeting.length > 60 ? `${greeting.slice(0, 60)}...` : greeting}`}
+                      </option>
+                    ))}
+                    <option value="random">Random greeting</option>
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    The other greetings can be reached by swiping the opening message.
+                  </p>
+                </div>
+              )}
+
+                            {/* Image Profile Selection */}
               <div>
                 <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
                   Image Generation Profile (Optional)
@@ -31,6 +31,14 @@ interface Character {
   }
 }
 
+// Character card formats offered for export
+const CARD_EXPORT_FORMATS = [
+  { query: 'format=json', label: 'JSON (V2 card)' },
+  { query: 'format=json&spec=v3', label: 'JSON (V3 card)' },
+  { query: 'format=png', label: 'PNG card' },
+  { query: 'format=charx', label: 'CharX' },
+]
+
 export default function CharactersPage() {
   const [characters, setCharacters] = useState<Character[]>([])
   const [loading, setLoading] = useState(true)
@@ -259,15 +267,27 @@ export default function CharactersPage() {
                   </svg>
                   View
                 </Link>
-                <a
-                  href={`/api/characters/${character.id}/export?format=json`}
-                  className="px-3 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 flex items-center justify-center"
-                  title="Export character data"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v6a2 2 0 002 2h12a2 2 0 002-2v-6m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                  </svg>
-                </a>
+                <details className="relative">
+                  <summary
+                    className="list-none px-3 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 flex items-center justify-center cursor-pointer h-full"
+                    title="Export character card"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v6a2 2 0 002 2h12a2 2 0 002-2v-6m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                  </summary>
+                  <div className="absolute right-0 bottom-full mb-1 w-44 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded shadow-lg z-10 py-1">
+                    {CARD_EXPORT_FORMATS.map(option => (
+                      <a
+                        key={option.query}
+                        href={`/api/characters/${character.id}/export?${option.query}`}
+                        className="block px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+                      >
+                        {option.label}
+                      </a>
+                    ))}
+                  </div>
+                </details>
                 <button
                   onClick={() => openDeleteDialog(character)}
                   className="px-3 py-2 bg-red-600 text-white rounded hover:bg-red-700 cursor-pointer flex items-center justify-center"
@@ -293,12 +313,12 @@ export default function CharactersPage() {
             <form onSubmit={handleImport}>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Select SillyTavern character file (PNG or JSON)
+                  Select a character card (PNG, CharX or JSON)
                 </label>
                 <input
                   type="file"
                   name="file"
-                  accept=".png,.json"
+                  accept=".png,.json,.charx"
                   required
                   className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                 />
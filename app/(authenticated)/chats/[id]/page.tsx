@@ -1,6 +1,8 @@
 'use client'
 
 import { use, useEffect, useState, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
 import ImageModal from '@/components/chat/ImageModal'
 import PhotoGalleryModal from '@/components/images/PhotoGalleryModal'
 import ToolPalette from '@/components/chat/ToolPalette'
@@ -21,6 +23,7 @@ import type { TagVisualStyle } from '@/lib/schemas/types'
 import { useChatContext } from '@/components/providers/chat-context'
 import { useQuickHide } from '@/components/providers/quick-hide-provider'
 import { HiddenPlaceholder } from '@/components/quick-hide/hidden-placeholder'
+import { getActiveSwipe } from '@/lib/chat/swipes'
 
 interface MessageAttachment {
   id: string
@@ -36,6 +39,8 @@ interface Message {
   createdAt: string
   swipeGroupId?: string | null
   swipeIndex?: number | null
+  activeSwipe?: boolean
+  participantId?: string | null
   attachments?: MessageAttachment[]
   debugMemoryLogs?: string[]
 }
@@ -98,6 +103,9 @@ interface Participant {
 interface Chat {
   id: string
   title: string
+  turnStrategy?: 'MANUAL' | 'ROUND_ROBIN' | 'MENTION' | 'NATURAL'
+  toolPolicies?: Record<string, 'ALWAYS_ALLOW' | 'ASK' | 'NEVER'>
+  parentChat?: { id: string; title: string } | null
   participants: Participant[]
   user: {
     id: string
@@ -119,6 +127,7 @@ interface ChatSettings {
 
 export default function ChatPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params)
+  const router = useRouter()
   useAvatarDisplay()
   const debug = useDebugOptional()
   const [chat, setChat] = useState<Chat | null>(null)
@@ -128,6 +137,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
   const [sending, setSending] = useState(false)
   const [streaming, setStreaming] = useState(false)
   const [streamingContent, setStreamingContent] = useState('')
+  const [streamingParticipantId, setStreamingParticipantId] = useState<string | null>(null)
   const [waitingForResponse, setWaitingForResponse] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
@@ -145,7 +155,11 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
   const [generateImageDialogOpen, setGenerateImageDialogOpen] = useState(false)
   const [toolExecutionStatus, setToolExecutionStatus] = useState<{ tool: string; status: 'pending' | 'success' | 'error'; message: string } | null>(null)
   const [pendingToolCalls, setPendingToolCalls] = useState<Array<{ name: string; status: 'pending' | 'success' | 'error'; result?: unknown; arguments?: Record<string, unknown> }>>([])
+  const [toolRound, setToolRound] = useState<{ round: number; maxRounds: number } | null>(null)
+  const [toolApprovals, setToolApprovals] = useState<Array<{ approvalId: string; toolName: string; arguments?: Record<string, unknown>; submitting?: boolean }>>([])
   const [showPreview, setShowPreview] = useState(false)
+  // Message linked to with #message-<id> (e.g. a memory's source message)
+  const [linkedMessageId, setLinkedMessageId] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -184,6 +198,20 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
     return chat?.participants.find(p => p.type === 'PERSONA' && p.isActive)
   }
 
+  const getActiveCharacterParticipants = () => {
+    return (chat?.participants || [])
+      .filter(p => p.type === 'CHARACTER' && p.isActive && p.character)
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+  }
+
+  const isGroupChat = () => getActiveCharacterParticipants().length > 1
+
+  // Character for a participant ID, falling back to the first character for older messages
+  const getParticipantCharacter = (participantId?: string | null) => {
+    const participant = participantId ? chat?.participants.find(p => p.id === participantId) : undefined
+    return participant?.character || getFirstCharacter()
+  }
+
   const getFirstCharacter = () => getFirstCharacterParticipant()?.character
   const getFirstPersona = () => getFirstPersonaParticipant()?.persona
   const getFirstConnectionProfile = () => getFirstCharacterParticipant()?.connectionProfile
@@ -226,12 +254,13 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
         }
       })
 
-      // For each swipe group, show only the current swipe (index 0 by default)
+      // For each swipe group, show only the active swipe
       Object.entries(swipeGroups).forEach(([groupId, groupMessages]) => {
         const sorted = groupMessages.sort((a, b) => (a.swipeIndex || 0) - (b.swipeIndex || 0))
-        displayMessages.push(sorted[0])
+        const active = getActiveSwipe(sorted) ?? sorted[0]
+        displayMessages.push(active)
         newSwipeStates[groupId] = {
-          current: 0,
+          current: sorted.indexOf(active),
           total: sorted.length,
           messages: sorted
         }
@@ -269,13 +298,33 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
   }, [fetchChat, fetchChatSettings, fetchChatPhotoCount])
 
   useEffect(() => {
-    scrollToBottom()
-  }, [messages, streamingContent])
+    const match = globalThis.window?.location.hash.match(/^#message-(.+)$/)
+    if (match) {
+      setLinkedMessageId(match[1])
+    }
+  }, [])
+
+  useEffect(() => {
+    if (streaming) {
+      setLinkedMessageId(null)
+    }
+  }, [streaming])
+
+  useEffect(() => {
+    const linked = linkedMessageId ? document.getElementById(`message-${linkedMessageId}`) : null
+    if (linked) {
+      linked.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    } else {
+      scrollToBottom()
+    }
+  }, [messages, streamingContent, linkedMessageId])
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      inputRef.current?.focus()
-      inputRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      inputRef.current?.focus({ preventScroll: true })
+      if (!globalThis.window?.location.hash.startsWith('#message-')) {
+        inputRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      }
       if (inputRef.current) {
         resizeTextarea(inputRef.current)
       }
@@ -340,11 +389,13 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
     setAttachedFiles((prev) => prev.filter((f) => f.id !== fileId))
   }
 
-  const sendMessage = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if ((!input.trim() && attachedFiles.length === 0) || sending) return
+  const sendMessage = async (e?: React.FormEvent, respondingParticipantId?: string) => {
+    e?.preventDefault()
+    if ((!input.trim() && attachedFiles.length === 0 && !respondingParticipantId) || sending) return
 
     const userMessage = input.trim()
+    // "Reply as" with an empty input asks a character to speak without a user message
+    const replyOnly = !userMessage && attachedFiles.length === 0
     const fileIds = attachedFiles.map((f) => f.id)
     // Capture attachments before clearing state
     const messageAttachments: MessageAttachment[] = attachedFiles.map((f) => ({
@@ -359,6 +410,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
     setWaitingForResponse(true)
     setStreaming(false)
     setStreamingContent('')
+    setStreamingParticipantId(respondingParticipantId ?? null)
     // Reset textarea to minimum height (single line)
     if (inputRef.current) {
       inputRef.current.style.height = 'auto'
@@ -378,12 +430,18 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
       createdAt: new Date().toISOString(),
       attachments: messageAttachments.length > 0 ? messageAttachments : undefined,
     }
-    setMessages((prev) => [...prev, tempUserMessage])
+    if (!replyOnly) {
+      setMessages((prev) => [...prev, tempUserMessage])
+    }
 
     // Debug: Log outgoing request
-    const requestPayload = { content: userMessage || 'Please look at the attached file(s).', fileIds }
+    const requestPayload = replyOnly
+      ? { respondingParticipantId }
+      : { content: userMessage || 'Please look at the attached file(s).', fileIds, respondingParticipantId }
     let debugEntryId: string | undefined
-    const connectionProfile = getFirstConnectionProfile()
+    const connectionProfile = respondingParticipantId
+      ? chat?.participants.find(p => p.id === respondingParticipantId)?.connectionProfile
+      : getFirstConnectionProfile()
     const debugProviderName = connectionProfile?.name || 'LLM Provider'
     const debugProviderType = (connectionProfile?.apiKey?.provider || 'UNKNOWN') as import('@/components/providers/debug-provider').LLMProviderType
     const debugModel = connectionProfile?.modelName
@@ -448,6 +506,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
       if (!reader) throw new Error('No response body')
 
       let fullContent = ''
+      let speakerParticipantId: string | null = respondingParticipantId ?? null
 
       while (true) {
         const { done, value } = await reader.read()
@@ -466,6 +525,12 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
             try {
               const data = JSON.parse(line.slice(6))
 
+              // Speaker chosen by the server for this turn
+              if (data.speaker) {
+                setStreamingParticipantId(data.speaker.participantId)
+                speakerParticipantId = data.speaker.participantId
+              }
+
               if (data.content) {
                 fullContent += data.content
                 setWaitingForResponse(false)
@@ -492,6 +557,22 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                 }
               }
 
+              // Track which round of tool calls is running in a multi-step turn
+              if (data.toolRound) {
+                setToolRound({ round: data.toolRound.round, maxRounds: data.toolRound.maxRounds })
+              }
+
+              // A tool call is waiting for the user to allow or deny it
+              if (data.toolApprovalRequest) {
+                const { approvalId, toolName, arguments: toolArgs } = data.toolApprovalRequest
+                setToolApprovals(prev => [...prev, { approvalId, toolName, arguments: toolArgs }])
+              }
+
+              if (data.toolApprovalResolved) {
+                const { approvalId } = data.toolApprovalResolved
+                setToolApprovals(prev => prev.filter(approval => approval.approvalId !== approvalId))
+              }
+
               // Handle tool results
               if (data.toolResult) {
                 const { name, success, result } = data.toolResult
@@ -537,10 +618,12 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                   role: 'ASSISTANT',
                   content: fullContent,
                   createdAt: new Date().toISOString(),
+                  participantId: speakerParticipantId,
                 }
                 setMessages((prev) => [...prev, assistantMessage])
                 setStreamingContent('')
                 setStreaming(false)
+                setStreamingParticipantId(null)
                 // Refresh chat to get tool messages and memory debug logs
                 await fetchChat()
                 // Update debug entry with memory logs from the fetched chat (with polling)
@@ -572,6 +655,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                 setTimeout(() => {
                   setToolExecutionStatus(null)
                   setPendingToolCalls([])
+                  setToolRound(null)
                 }, 3000)
               }
 
@@ -602,15 +686,41 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
       setMessages((prev) => prev.filter((m) => m.id !== tempUserMessageId))
       setStreamingContent('')
       setStreaming(false)
+      setStreamingParticipantId(null)
       setWaitingForResponse(false)
     } finally {
       setSending(false)
+      setToolApprovals([])
       setTimeout(() => {
         inputRef.current?.focus()
       }, 0)
     }
   }
 
+  const answerToolApproval = async (approvalId: string, approved: boolean) => {
+    setToolApprovals(prev => prev.map(approval =>
+      approval.approvalId === approvalId ? { ...approval, submitting: true } : approval
+    ))
+
+    try {
+      const res = await fetch(`/api/chats/${id}/tool-approvals/${approvalId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approved }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to answer tool approval')
+      }
+    } catch (err) {
+      clientLogger.error('Error answering tool approval:', { error: err instanceof Error ? err.message : String(err) })
+      showErrorToast(err instanceof Error ? err.message : 'Failed to answer tool approval')
+      // The request is gone (answered elsewhere or timed out), so drop the prompt
+      setToolApprovals(prev => prev.filter(approval => approval.approvalId !== approvalId))
+    }
+  }
+
   const startEdit = (message: Message) => {
     setEditingMessageId(message.id)
     setEditContent(message.content)
@@ -674,6 +784,28 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
     }
   }
 
+  const forkFromMessage = async (messageId: string) => {
+    try {
+      const res = await fetch(`/api/chats/${id}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId }),
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to fork chat')
+      }
+
+      const data = await res.json()
+      showSuccessToast('Branch created')
+      router.push(`/chats/${data.chat.id}`)
+    } catch (err) {
+      clientLogger.error('Error forking chat:', { error: err instanceof Error ? err.message : String(err) })
+      showErrorToast(err instanceof Error ? err.message : 'Failed to fork chat')
+    }
+  }
+
   const switchSwipe = (groupId: string, direction: 'prev' | 'next') => {
     const state = swipeStates[groupId]
     if (!state) return
@@ -692,6 +824,19 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
       ...swipeStates,
       [groupId]: { ...state, current: newIndex }
     })
+
+    // Save the choice so the chat reopens on it and replies build on it
+    fetch(`/api/messages/${newMessage.id}/swipe`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ swipeIndex: newMessage.swipeIndex ?? 0 }),
+    })
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to switch swipe')
+      })
+      .catch(err => {
+        showErrorToast(err instanceof Error ? err.message : 'Failed to switch swipe')
+      })
   }
 
   const copyMessageContent = (content: string) => {
@@ -713,6 +858,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
 
   const shouldShowAvatars = () => {
     if (!chatSettings) return true // Default to showing avatars
+    if (chatSettings.avatarDisplayMode === 'GROUP_ONLY') return isGroupChat()
     return chatSettings.avatarDisplayMode === 'ALWAYS'
   }
 
@@ -736,7 +882,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
         }
       }
     } else if (message.role === 'ASSISTANT') {
-      const character = getFirstCharacter()
+      const character = getParticipantCharacter(message.participantId)
       if (character) {
         return {
           name: character.name,
@@ -856,6 +1002,14 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
       {/* Messages */}
       <div className="flex-1 overflow-y-auto bg-gray-50 dark:bg-slate-900 min-h-0">
         <div className={`${isDebugMode ? '' : 'mx-auto max-w-[800px]'} p-4 space-y-4`}>
+        {chat?.parentChat && (
+          <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+            ↳ Branched from{' '}
+            <Link href={`/chats/${chat.parentChat.id}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+              {chat.parentChat.title}
+            </Link>
+          </div>
+        )}
         {messages.map((message) => {
           const isEditing = editingMessageId === message.id
           const swipeState = message.swipeGroupId ? swipeStates[message.swipeGroupId] : null
@@ -867,7 +1021,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
               <ToolMessage
                 key={message.id}
                 message={message}
-                character={getFirstCharacter() ?? undefined}
+                character={getParticipantCharacter(message.participantId) ?? undefined}
                 onImageClick={(filepath, filename, fileId) => {
                   setModalImage({ src: `/${filepath}`, filename, fileId })
                 }}
@@ -880,9 +1034,10 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
           return (
             <div
               key={message.id}
+              id={`message-${message.id}`}
               className={`flex gap-4 w-[90%] ${
                 message.role === 'USER' ? 'justify-end ml-auto' : 'justify-start'
-              }`}
+              } ${linkedMessageId === message.id ? 'rounded-lg ring-2 ring-amber-400 ring-offset-4 dark:ring-offset-slate-900' : ''}`}
             >
               {message.role === 'ASSISTANT' && shouldShowAvatars() && (
                 <div className="flex-shrink-0">
@@ -982,6 +1137,13 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                     >
                       {viewSourceMessageIds.has(message.id) ? '👁️' : '</>'}
                     </button>
+                    <button
+                      onClick={() => forkFromMessage(message.id)}
+                      className="p-1 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+                      title="Branch a new chat from this message"
+                    >
+                      🌿
+                    </button>
                   </div>
                 )}
 
@@ -1062,10 +1224,10 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
             {shouldShowAvatars() && (
               <div className="flex-shrink-0">
                 {renderAvatar({
-                  name: getFirstCharacter()?.name || 'AI',
+                  name: getParticipantCharacter(streamingParticipantId)?.name || 'AI',
                   title: null,
-                  avatarUrl: getFirstCharacter()?.avatarUrl,
-                  defaultImage: getFirstCharacter()?.defaultImage,
+                  avatarUrl: getParticipantCharacter(streamingParticipantId)?.avatarUrl,
+                  defaultImage: getParticipantCharacter(streamingParticipantId)?.defaultImage,
                 })}
               </div>
             )}
@@ -1102,6 +1264,11 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                       return displayNames[tc.name] || tc.name
                     }).join(', ')}
                   </span>
+                  {toolRound && toolRound.round > 1 && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      Round {toolRound.round} of {toolRound.maxRounds}
+                    </span>
+                  )}
                   {pendingToolCalls.some(tc => tc.status === 'pending') && (
                     <QuillAnimation size="sm" className="ml-auto text-gray-400" />
                   )}
@@ -1131,6 +1298,39 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                   ))}
                 </div>
               </details>
+              {toolApprovals.map((approval) => (
+                <div
+                  key={approval.approvalId}
+                  className="mt-2 px-4 py-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700"
+                >
+                  <div className="text-sm font-medium text-amber-900 dark:text-amber-100">
+                    Allow <span className="font-mono">{approval.toolName}</span> to run?
+                  </div>
+                  {approval.arguments && Object.keys(approval.arguments).length > 0 && (
+                    <pre className="mt-2 text-xs text-amber-800 dark:text-amber-200 whitespace-pre-wrap break-words">
+                      {JSON.stringify(approval.arguments, null, 2)}
+                    </pre>
+                  )}
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => answerToolApproval(approval.approvalId, true)}
+                      disabled={approval.submitting}
+                      className="px-3 py-1 text-sm rounded-md bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Allow
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => answerToolApproval(approval.approvalId, false)}
+                      disabled={approval.submitting}
+                      className="px-3 py-1 text-sm rounded-md border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+                    >
+                      Deny
+                    </button>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -1141,10 +1341,10 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
             {shouldShowAvatars() && (
               <div className="flex-shrink-0">
                 {renderAvatar({
-                  name: getFirstCharacter()?.name || 'AI',
+                  name: getParticipantCharacter(streamingParticipantId)?.name || 'AI',
                   title: null,
-                  avatarUrl: getFirstCharacter()?.avatarUrl,
-                  defaultImage: getFirstCharacter()?.defaultImage,
+                  avatarUrl: getParticipantCharacter(streamingParticipantId)?.avatarUrl,
+                  defaultImage: getParticipantCharacter(streamingParticipantId)?.defaultImage,
                 })}
               </div>
             )}
@@ -1223,6 +1423,24 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
               ))}
             </div>
           )}
+          {/* Group chat: let the user choose who answers next */}
+          {isGroupChat() && (
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className="text-xs text-gray-500 dark:text-gray-400">Reply as:</span>
+              {getActiveCharacterParticipants().map((participant) => (
+                <button
+                  key={participant.id}
+                  type="button"
+                  onClick={() => sendMessage(undefined, participant.id)}
+                  disabled={sending}
+                  className="px-3 py-1 text-xs border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-700 dark:text-gray-300 rounded-full hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={input.trim() ? `Send and have ${participant.character?.name} reply` : `Have ${participant.character?.name} speak next`}
+                >
+                  {participant.character?.name}
+                </button>
+              ))}
+            </div>
+          )}
           <form onSubmit={sendMessage} className="flex gap-2">
             {/* Hidden file input */}
             <input
@@ -1417,6 +1635,8 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
         onClose={() => setChatSettingsModalOpen(false)}
         chatId={id}
         participants={chat?.participants || []}
+        turnStrategy={chat?.turnStrategy}
+        toolPolicies={chat?.toolPolicies}
         onSuccess={fetchChat}
       />
 
@@ -9,6 +9,7 @@ import { TagDisplay } from '@/components/tags/tag-display'
 import { useAvatarDisplay } from '@/hooks/useAvatarDisplay'
 import { getAvatarClasses } from '@/lib/avatar-styles'
 import { useQuickHide } from '@/components/providers/quick-hide-provider'
+import { orderChatsAsBranchTree } from '@/lib/chat/fork'
 
 interface ChatParticipant {
   id: string
@@ -40,6 +41,7 @@ interface ChatParticipant {
 interface Chat {
   id: string
   title: string
+  parentChatId?: string | null
   createdAt: string
   updatedAt: string
   participants: ChatParticipant[]
@@ -71,6 +73,10 @@ export default function ChatsPage() {
     [chats, shouldHideByIds]
   )
 
+  // Forks are listed directly beneath the chat they branched from
+  const chatTree = useMemo(() => orderChatsAsBranchTree(visibleChats), [visibleChats])
+  const chatTitles = useMemo(() => new Map(chats.map(chat => [chat.id, chat.title])), [chats])
+
   useEffect(() => {
     fetchChats()
     fetchCharacters()
@@ -175,8 +181,8 @@ export default function ChatsPage() {
     const characterId = formData.get('characterId') as string
     const profileId = formData.get('profileId') as string
 
-    if (!files || files.length === 0 || !characterId || !profileId) {
-      showErrorToast('Please select at least one file, a character, and a profile')
+    if (!files || files.length === 0 || !profileId) {
+      showErrorToast('Please select at least one file and a profile')
       return
     }
 
@@ -186,9 +192,57 @@ export default function ChatsPage() {
       let failCount = 0
       const errors: string[] = []
 
+      // SillyTavern group definitions (groups/<id>.json) selected along with their chats
+      const groups: Array<{ chat_id?: string; chats?: string[]; [key: string]: any }> = []
+      const chatFiles: Array<{ file: File; text: string }> = []
+      // Quilltap chat archives and SillyTavern group chat zips, imported as they are
+      const archiveFiles: File[] = []
       for (const file of files) {
+        if (file.name.endsWith('.zip')) {
+          archiveFiles.push(file)
+          continue
+        }
+        const text = await file.text()
+        if (file.name.endsWith('.json')) {
+          try {
+            const data = JSON.parse(text)
+            if (Array.isArray(data?.members) && !Array.isArray(data?.messages)) {
+              groups.push(data)
+              continue
+            }
+          } catch {
+            // Reported when the file is imported as a chat
+          }
+        }
+        chatFiles.push({ file, text })
+      }
+
+      const archiveChatIds: string[] = []
+      for (const file of archiveFiles) {
+        try {
+          const body = new FormData()
+          body.append('file', file)
+          body.append('connectionProfileId', profileId)
+          const res = await fetch('/api/chats/import/archive', { method: 'POST', body })
+
+          if (!res.ok) {
+            const errorData = await res.json().catch(() => ({}))
+            throw new Error(errorData.error || 'Failed to import chat archive')
+          }
+
+          const imported = await res.json()
+          archiveChatIds.push(imported.chat.id)
+          successCount++
+        } catch (err) {
+          failCount++
+          const errorMessage = err instanceof Error ? err.message : `Failed to import ${file.name}`
+          errors.push(`${file.name}: ${errorMessage}`)
+          clientLogger.error('Error importing chat archive:', { error: err instanceof Error ? err.message : String(err) })
+        }
+      }
+
+      for (const { file, text } of chatFiles) {
         try {
-          const text = await file.text()
           let chatData
 
           // Handle both JSON and JSONL formats
@@ -234,6 +288,9 @@ export default function ChatsPage() {
             chatData = JSON.parse(text)
           }
 
+          const chatId = file.name.replace(/\.jsonl?$/i, '')
+          const groupData = groups.find(group => group.chat_id === chatId || group.chats?.includes(chatId))
+
           const res = await fetch('/api/chats/import', {
             method: 'POST',
             headers: {
@@ -241,7 +298,8 @@ export default function ChatsPage() {
             },
             body: JSON.stringify({
               chatData,
-              characterId,
+              characterId: characterId || undefined,
+              groupData,
               connectionProfileId: profileId,
             }),
           })
@@ -264,8 +322,11 @@ export default function ChatsPage() {
         }
       }
 
-      // Update chats list with imported chats
-      if (importedChats.length > 0) {
+      // Update chats list with imported chats; archives come back as bare chats, so reload the list for them
+      if (archiveChatIds.length > 0) {
+        await fetchChats()
+        setHighlightedChatId(archiveChatIds[0])
+      } else if (importedChats.length > 0) {
         const sortedChats = [...importedChats, ...chats].sort(
           (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
         )
@@ -359,11 +420,12 @@ export default function ChatsPage() {
         </div>
       ) : (
         <div className="space-y-4">
-          {visibleChats.map((chat) => (
+          {chatTree.map(({ chat, depth }) => (
             <div
               key={chat.id}
               ref={highlightedChatId === chat.id ? importedChatRef : null}
-              className="border border-gray-200 dark:border-slate-700 rounded-lg p-6 bg-white dark:bg-slate-800 hover:shadow-lg dark:hover:shadow-xl transition-shadow relative"
+              className={`border border-gray-200 dark:border-slate-700 rounded-lg p-6 bg-white dark:bg-slate-800 hover:shadow-lg dark:hover:shadow-xl transition-shadow relative ${depth > 0 ? 'border-l-4 border-l-blue-300 dark:border-l-blue-700' : ''}`}
+              style={depth > 0 ? { marginLeft: `${Math.min(depth, 4) * 1.5}rem` } : undefined}
             >
               {highlightedChatId === chat.id && (
                 <div className="absolute -right-12 top-1/2 transform -translate-y-1/2 arrow-highlight">
@@ -408,6 +470,11 @@ export default function ChatsPage() {
                             {' \u2022 '}
                             {new Date(chat.updatedAt).toLocaleDateString()}
                           </p>
+                          {chat.parentChatId && chatTitles.has(chat.parentChatId) && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              ↳ Branched from {chatTitles.get(chat.parentChatId)}
+                            </p>
+                          )}
                           {chat.tags.length > 0 && (
                             <div className="mt-2">
                               <TagDisplay tags={chat.tags.map(ct => ct.tag)} />
@@ -457,12 +524,15 @@ export default function ChatsPage() {
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    Select SillyTavern chat JSON files (one or more)
+                    Select SillyTavern chat JSON files, group chat zips or Quilltap chat archives (one or more)
                   </label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                    For group chats, add the group&apos;s file from the groups folder. Characters in a group chat are matched by name; any not found are created as stubs.
+                  </p>
                   <input
                     type="file"
                     name="files"
-                    accept=".json,.jsonl"
+                    accept=".json,.jsonl,.zip"
                     multiple
                     required
                     className="block w-full text-sm text-gray-500 dark:text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 dark:file:bg-blue-900 file:text-blue-700 dark:file:text-blue-200 hover:file:bg-blue-100 dark:hover:file:bg-blue-800"
@@ -475,10 +545,9 @@ export default function ChatsPage() {
                   </label>
                   <select
                     name="characterId"
-                    required
                     className="block w-full rounded-md border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border"
                   >
-                    <option value="">Select a character</option>
+                    <option value="">Match speakers by name</option>
                     {characters.map((char) => (
                       <option key={char.id} value={char.id}>
                         {char.title ? `${char.name} (${char.title})` : char.name}
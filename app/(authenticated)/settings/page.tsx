@@ -7,6 +7,9 @@ import ChatSettingsTab from '@/components/settings/chat-settings-tab'
 import ImageProfilesTab from '@/components/settings/image-profiles-tab'
 import EmbeddingProfilesTab from '@/components/settings/embedding-profiles-tab'
 import PluginsTab from '@/components/settings/plugins-tab'
+import LorebooksTab from '@/components/settings/lorebooks-tab'
+import McpServersTab from '@/components/settings/mcp-servers-tab'
+import SillyTavernImportTab from '@/components/settings/sillytavern-import-tab'
 import { EntityTabs, Tab } from '@/components/tabs'
 
 const SETTINGS_TABS: Tab[] = [
@@ -55,6 +58,33 @@ const SETTINGS_TABS: Tab[] = [
       </svg>
     ),
   },
+  {
+    id: 'lorebooks',
+    label: 'Lorebooks',
+    icon: (
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+      </svg>
+    ),
+  },
+  {
+    id: 'mcp-servers',
+    label: 'MCP Servers',
+    icon: (
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01" />
+      </svg>
+    ),
+  },
+  {
+    id: 'sillytavern-import',
+    label: 'SillyTavern Import',
+    icon: (
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+      </svg>
+    ),
+  },
   {
     id: 'plugins',
     label: 'Plugins',
@@ -79,6 +109,12 @@ export default function SettingsPage() {
         return <ImageProfilesTab />
       case 'embedding-profiles':
         return <EmbeddingProfilesTab />
+      case 'lorebooks':
+        return <LorebooksTab />
+      case 'mcp-servers':
+        return <McpServersTab />
+      case 'sillytavern-import':
+        return <SillyTavernImportTab />
       case 'plugins':
         return <PluginsTab />
       default:
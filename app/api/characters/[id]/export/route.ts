@@ -1,13 +1,16 @@
 /**
  * Character Export API
- * GET /api/characters/:id/export - Export a character in SillyTavern format
- * Supports JSON and PNG (with embedded character card) formats
+ * GET /api/characters/:id/export - Export a character as a character card
+ *   ?format=json (default) | png | charx, ?spec=v2 (default) | v3 for JSON
+ * PNG embeds both the V2 and V3 card; CharX is always V3
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
-import { exportSTCharacter, createSTCharacterPNG } from '@/lib/sillytavern/character'
+import { exportSTCharacter, exportSTCharacterV3, createSTCharacterPNG } from '@/lib/sillytavern/character'
+import { createCharX } from '@/lib/sillytavern/charx'
+import { embedCardAssetsAsDataURIs, loadCardAssets } from '@/lib/sillytavern/card-assets'
 import { logger } from '@/lib/logger'
 
 export async function GET(
@@ -24,7 +27,8 @@ export async function GET(
     const { id } = await params
     const repos = getRepositories()
     const { searchParams } = new URL(req.url)
-    const format = searchParams.get('format') || 'json' // json or png
+    const format = searchParams.get('format') || 'json' // json, png or charx
+    const spec = searchParams.get('spec') || 'v2' // v2 or v3 (JSON only)
 
     // Get character
     const character = await repos.characters.findById(id)
@@ -36,47 +40,47 @@ export async function GET(
       )
     }
 
-    // Export to SillyTavern format
-    const stCharacter = exportSTCharacter(character)
+    // Embed the character's lorebook, preferring the one imported with the card
+    const lorebooks = await repos.lorebooks.findByCharacterId(character.id)
+    const lorebook =
+      lorebooks.find(l => (l.extensions as { sillyTavern?: { format?: string } } | null)?.sillyTavern?.format === 'character_book') ||
+      lorebooks[0] ||
+      null
 
-    if (format === 'png') {
-      // Export as PNG with embedded character card
-      if (!character.avatarUrl) {
-        return NextResponse.json(
-          { error: 'Character must have an avatar for PNG export' },
-          { status: 400 }
-        )
-      }
+    if (format === 'png' || format === 'charx' || spec === 'v3') {
+      const assetFiles = await loadCardAssets(character)
+
+      if (format === 'png') {
+        // The avatar is the card image, so it has to be a PNG
+        const avatar = assetFiles.find(f => f.asset.type === 'icon' && f.asset.name === 'main' && f.data)
+        if (!avatar?.data || avatar.asset.ext !== 'png') {
+          return NextResponse.json(
+            { error: 'Character must have a PNG avatar for PNG export' },
+            { status: 400 }
+          )
+        }
 
-      try {
-        // TODO: Fetch avatar image from URL or storage
-        // For now, return an error that this feature needs avatar storage
-        return NextResponse.json(
-          {
-            error:
-              'PNG export requires avatar storage implementation. Use JSON export for now.',
+        const pngBuffer = await createSTCharacterPNG(character, avatar.data, lorebook, assetFiles)
+        return new NextResponse(new Uint8Array(pngBuffer), {
+          headers: {
+            'Content-Type': 'image/png',
+            'Content-Disposition': `attachment; filename="${character.name}.png"`,
           },
-          { status: 501 }
-        )
+        })
+      }
 
-        // When avatar storage is implemented:
-        // const avatarBuffer = await fetchAvatarBuffer(character.avatarUrl)
-        // const pngBuffer = await createSTCharacterPNG(character, avatarBuffer)
-        // return new NextResponse(pngBuffer, {
-        //   headers: {
-        //     'Content-Type': 'image/png',
-        //     'Content-Disposition': `attachment; filename="${character.name}.png"`,
-        //   },
-        // })
-      } catch (error) {
-        logger.error('Error creating PNG export', { context: 'GET /api/characters/[id]/export (PNG)' }, error instanceof Error ? error : undefined)
-        return NextResponse.json(
-          { error: 'Failed to create PNG export' },
-          { status: 500 }
-        )
+      if (format === 'charx') {
+        const charXBuffer = createCharX(character, lorebook, assetFiles)
+        return new NextResponse(new Uint8Array(charXBuffer), {
+          headers: {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${character.name}.charx"`,
+          },
+        })
       }
-    } else {
-      // Export as JSON
+
+      // V3 JSON carries its assets as data URIs
+      const stCharacter = exportSTCharacterV3(character, lorebook, embedCardAssetsAsDataURIs(assetFiles))
       return new NextResponse(JSON.stringify(stCharacter, null, 2), {
         headers: {
           'Content-Type': 'application/json',
@@ -84,6 +88,15 @@ export async function GET(
         },
       })
     }
+
+    // Export as V2 JSON
+    const stCharacter = exportSTCharacter(character, lorebook)
+    return new NextResponse(JSON.stringify(stCharacter, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${character.name}.json"`,
+      },
+    })
   } catch (error) {
     logger.error('Error exporting character', { context: 'GET /api/characters/[id]/export' }, error instanceof Error ? error : undefined)
     return NextResponse.json(
@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
 import { z } from 'zod'
+import { MemoryVisibilityEnum } from '@/lib/schemas/types'
 import { logger } from '@/lib/logger'
 
 // Validation schema for updating a memory
@@ -18,6 +19,7 @@ const updateMemorySchema = z.object({
   importance: z.number().min(0).max(1).optional(),
   personaId: z.string().uuid().nullable().optional(),
   chatId: z.string().uuid().nullable().optional(),
+  visibility: MemoryVisibilityEnum.optional(),
 })
 
 // GET /api/characters/[id]/memories/[memoryId] - Get a specific memory
@@ -0,0 +1,114 @@
+// Embedding Migration API: Re-embed a character's memories with the current embedding profile
+// GET /api/characters/[id]/memories/embeddings/migration - Index model and migration progress
+// POST /api/characters/[id]/memories/embeddings/migration - Start or resume a migration
+// DELETE /api/characters/[id]/memories/embeddings/migration - Cancel the unfinished migration
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import {
+  cancelEmbeddingMigration,
+  getEmbeddingIndexStatus,
+  startEmbeddingMigration,
+} from '@/lib/memory/embedding-migration'
+import { logger } from '@/lib/logger'
+
+async function getOwnedCharacter(characterId: string) {
+  const session = await getServerSession()
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const repos = getRepositories()
+  const user = await repos.users.findByEmail(session.user.email)
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) }
+  }
+
+  // Verify character exists and belongs to user
+  const character = await repos.characters.findById(characterId)
+  if (!character || character.userId !== user.id) {
+    return { error: NextResponse.json({ error: 'Character not found' }, { status: 404 }) }
+  }
+
+  return { user, character }
+}
+
+// GET /api/characters/[id]/memories/embeddings/migration - Get migration status
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const owned = await getOwnedCharacter(characterId)
+    if (owned.error) {
+      return owned.error
+    }
+
+    return NextResponse.json(await getEmbeddingIndexStatus(characterId, owned.user.id))
+  } catch (error) {
+    logger.error('Error getting embedding migration status', {}, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to get embedding migration status' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/characters/[id]/memories/embeddings/migration - Start or resume a migration
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const owned = await getOwnedCharacter(characterId)
+    if (owned.error) {
+      return owned.error
+    }
+
+    const migration = await startEmbeddingMigration(characterId, owned.user.id)
+    if (!migration) {
+      return NextResponse.json(
+        { error: 'No embedding profile configured. Please set up an embedding profile in settings.' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ migration }, { status: 202 })
+  } catch (error) {
+    logger.error('Error starting embedding migration', {}, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to start embedding migration' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/characters/[id]/memories/embeddings/migration - Cancel the migration
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const owned = await getOwnedCharacter(characterId)
+    if (owned.error) {
+      return owned.error
+    }
+
+    const migration = await cancelEmbeddingMigration(characterId)
+    if (!migration) {
+      return NextResponse.json({ error: 'No migration in progress' }, { status: 404 })
+    }
+
+    return NextResponse.json({ migration })
+  } catch (error) {
+    logger.error('Error cancelling embedding migration', {}, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to cancel embedding migration' },
+      { status: 500 }
+    )
+  }
+}
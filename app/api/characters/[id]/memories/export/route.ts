@@ -0,0 +1,76 @@
+// Memory Export API: Download a character's memories
+// GET /api/characters/[id]/memories/export - Export memories as JSON or JSONL
+//   ?format=json|jsonl (default json), ?embeddings=true to include vectors
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { exportCharacterMemories, serializeMemoryExport } from '@/lib/memory/memory-transfer'
+import { z } from 'zod'
+import { logger } from '@/lib/logger'
+
+// Validation schema for query params
+const exportQuerySchema = z.object({
+  format: z.enum(['json', 'jsonl']).default('json'),
+  embeddings: z.enum(['true', 'false']).default('false'),
+})
+
+// GET /api/characters/[id]/memories/export - Export memories
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Verify character exists and belongs to user
+    const character = await repos.characters.findById(characterId)
+    if (!character || character.userId !== user.id) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 })
+    }
+
+    const url = new URL(req.url)
+    const query = exportQuerySchema.parse({
+      format: url.searchParams.get('format') ?? undefined,
+      embeddings: url.searchParams.get('embeddings') ?? undefined,
+    })
+
+    const chatSettings = await repos.users.getChatSettings(user.id)
+    const data = await exportCharacterMemories(character, {
+      userId: user.id,
+      includeEmbeddings: query.embeddings === 'true',
+      embeddingProfileId: chatSettings?.cheapLLMSettings?.embeddingProfileId || undefined,
+    })
+
+    return new NextResponse(serializeMemoryExport(data, query.format), {
+      headers: {
+        'Content-Type': query.format === 'jsonl' ? 'application/x-ndjson' : 'application/json',
+        'Content-Disposition': `attachment; filename="${character.name}_memories.${query.format}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error exporting memories', { context: 'GET /api/characters/[id]/memories/export' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to export memories' },
+      { status: 500 }
+    )
+  }
+}
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
 import { runHousekeeping, getHousekeepingPreview, HousekeepingOptions } from '@/lib/memory/housekeeping'
+import { resolveCheapLLMSelection } from '@/lib/memory/cheap-llm-tasks'
 import { z } from 'zod'
 import { logger } from '@/lib/logger'
 
@@ -26,6 +27,8 @@ const housekeepingOptionsSchema = z.object({
   mergeSimilar: z.boolean().optional(),
   /** Similarity threshold for merging (0.8-1.0) */
   mergeThreshold: z.number().min(0.8).max(1).optional(),
+  /** Consolidate faded memories instead of deleting them */
+  consolidateFaded: z.boolean().optional(),
   /** Preview changes without applying */
   dryRun: z.boolean().optional(),
 })
@@ -77,6 +80,11 @@ export async function POST(
       options.embeddingProfileId = chatSettings.cheapLLMSettings.embeddingProfileId
     }
 
+    // Consolidated memories are written by the cheap LLM when one is configured
+    if (!options.dryRun) {
+      options.cheapLLMSelection = await resolveCheapLLMSelection(user.id, character.defaultConnectionProfileId) ?? undefined
+    }
+
     // Run housekeeping (or preview if dryRun)
     const result = options.dryRun
       ? await getHousekeepingPreview(characterId, options)
@@ -88,11 +96,15 @@ export async function POST(
       result: {
         deleted: result.deleted,
         merged: result.merged,
+        consolidated: result.consolidated,
+        decayed: result.decayed,
         kept: result.kept,
         totalBefore: result.totalBefore,
         totalAfter: result.totalAfter,
         deletedIds: result.deletedIds,
         mergedIds: result.mergedIds,
+        consolidatedIds: result.consolidatedIds,
+        createdIds: result.createdIds,
         // Only include details in preview mode to avoid large responses
         details: options.dryRun ? result.details : undefined,
       },
@@ -154,6 +166,9 @@ export async function GET(
     if (url.searchParams.has('mergeSimilar')) {
       options.mergeSimilar = url.searchParams.get('mergeSimilar') === 'true'
     }
+    if (url.searchParams.has('consolidateFaded')) {
+      options.consolidateFaded = url.searchParams.get('consolidateFaded') === 'true'
+    }
 
     // Get embedding profile from chat settings
     const chatSettings = await repos.users.getChatSettings(user.id)
@@ -169,6 +184,8 @@ export async function GET(
       preview: {
         wouldDelete: preview.deleted,
         wouldMerge: preview.merged,
+        wouldConsolidate: preview.consolidated,
+        wouldDecay: preview.decayed,
         wouldKeep: preview.kept,
         totalBefore: preview.totalBefore,
         totalAfter: preview.totalAfter,
@@ -0,0 +1,68 @@
+// Memory Import API: Add exported memories to a character
+// POST /api/characters/[id]/memories/import - Import a JSON or JSONL memory export
+//   Accepts multipart/form-data with a `file`, or the export itself as the request body
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { importCharacterMemories, MemoryImportError, parseMemoryExport } from '@/lib/memory/memory-transfer'
+import { logger } from '@/lib/logger'
+
+// POST /api/characters/[id]/memories/import - Import memories
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Verify character exists and belongs to user
+    const character = await repos.characters.findById(characterId)
+    if (!character || character.userId !== user.id) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 })
+    }
+
+    let text: string
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await req.formData()
+      const file = formData.get('file') as File | null
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
+      text = Buffer.from(await file.arrayBuffer()).toString('utf-8')
+    } else {
+      text = await req.text()
+    }
+
+    const data = parseMemoryExport(text)
+
+    const chatSettings = await repos.users.getChatSettings(user.id)
+    const result = await importCharacterMemories(characterId, data, {
+      userId: user.id,
+      embeddingProfileId: chatSettings?.cheapLLMSettings?.embeddingProfileId || undefined,
+    })
+
+    return NextResponse.json({ success: true, result }, { status: 201 })
+  } catch (error) {
+    if (error instanceof MemoryImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Error importing memories', { context: 'POST /api/characters/[id]/memories/import' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to import memories' },
+      { status: 500 }
+    )
+  }
+}
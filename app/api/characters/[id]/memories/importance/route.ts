@@ -0,0 +1,66 @@
+// Memory Importance API: How a character's memory importance changes over time
+// GET /api/characters/[id]/memories/importance - Day-by-day importance timeline
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { buildImportanceTimeline } from '@/lib/memory/memory-decay'
+import { z } from 'zod'
+import { logger } from '@/lib/logger'
+
+// Validation schema for query params
+const importanceQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(90),
+})
+
+// GET /api/characters/[id]/memories/importance - Day-by-day importance timeline
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Verify character exists and belongs to user
+    const character = await repos.characters.findById(characterId)
+    if (!character || character.userId !== user.id) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 })
+    }
+
+    const url = new URL(req.url)
+    const { days } = importanceQuerySchema.parse({
+      days: url.searchParams.get('days') ?? undefined,
+    })
+
+    const memories = await repos.memories.findByCharacterId(characterId)
+
+    return NextResponse.json({
+      days,
+      timeline: buildImportanceTimeline(memories, days),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error building memory importance timeline', { context: 'GET /api/characters/[id]/memories/importance' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to load importance timeline' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,100 @@
+// Memory Proposals API: Resolve a proposed merge or contradiction
+// PUT /api/characters/[id]/memories/proposals/[proposalId] - Accept, edit and accept, or reject a proposal
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { acceptMemoryProposal, rejectMemoryProposal } from '@/lib/memory/consolidation'
+import { MemoryVetoedError } from '@/lib/memory/memory-service'
+import { z } from 'zod'
+import { logger } from '@/lib/logger'
+
+// Validation schema for resolving a proposal
+const resolveProposalSchema = z.object({
+  action: z.enum(['accept', 'edit', 'reject']),
+  content: z.string().min(1).optional(),
+  summary: z.string().min(1).optional(),
+  keywords: z.array(z.string()).optional(),
+  importance: z.number().min(0).max(1).optional(),
+})
+
+// PUT /api/characters/[id]/memories/proposals/[proposalId] - Resolve a proposal
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; proposalId: string }> }
+) {
+  try {
+    const { id: characterId, proposalId } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Verify character exists and belongs to user
+    const character = await repos.characters.findById(characterId)
+    if (!character || character.userId !== user.id) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 })
+    }
+
+    const proposal = await repos.memoryProposals.findById(proposalId)
+    if (!proposal || proposal.characterId !== characterId) {
+      return NextResponse.json({ error: 'Proposal not found' }, { status: 404 })
+    }
+    if (proposal.status !== 'PENDING') {
+      return NextResponse.json({ error: 'Proposal has already been resolved' }, { status: 409 })
+    }
+
+    const body = await req.json()
+    const { action, ...edits } = resolveProposalSchema.parse(body)
+
+    if (action === 'reject') {
+      const rejected = await rejectMemoryProposal(proposal)
+      return NextResponse.json({ proposal: rejected })
+    }
+
+    const chatSettings = await repos.users.getChatSettings(user.id)
+    const result = await acceptMemoryProposal(
+      proposal,
+      action === 'edit' ? edits : {},
+      {
+        userId: user.id,
+        embeddingProfileId: chatSettings?.cheapLLMSettings?.embeddingProfileId || undefined,
+      }
+    )
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'The memories in this proposal no longer exist' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ proposal: result.proposal, memory: result.memory })
+  } catch (error) {
+    if (error instanceof MemoryVetoedError) {
+      return NextResponse.json(
+        { error: 'Memory blocked by plugin', plugin: error.pluginName, reason: error.reason },
+        { status: 403 }
+      )
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error resolving memory proposal', { context: 'PUT /api/characters/[id]/memories/proposals/[proposalId]' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to resolve memory proposal' },
+      { status: 500 }
+    )
+  }
+}
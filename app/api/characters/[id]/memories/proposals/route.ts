@@ -0,0 +1,127 @@
+// Memory Proposals API: Review queue of proposed merges and contradictions
+// GET /api/characters/[id]/memories/proposals - List proposals with the memories they cover
+// POST /api/characters/[id]/memories/proposals - Run a consolidation pass over all memories
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { runConsolidationPass } from '@/lib/memory/consolidation'
+import { resolveCheapLLMSelection } from '@/lib/memory/cheap-llm-tasks'
+import { MemoryProposalStatusEnum } from '@/lib/schemas/types'
+import { z } from 'zod'
+import { logger } from '@/lib/logger'
+
+// Validation schema for query params
+const listQuerySchema = z.object({
+  status: MemoryProposalStatusEnum.default('PENDING'),
+})
+
+// GET /api/characters/[id]/memories/proposals - List proposals
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Verify character exists and belongs to user
+    const character = await repos.characters.findById(characterId)
+    if (!character || character.userId !== user.id) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 })
+    }
+
+    const url = new URL(req.url)
+    const { status } = listQuerySchema.parse({
+      status: url.searchParams.get('status') ?? undefined,
+    })
+
+    const [proposals, memories] = await Promise.all([
+      repos.memoryProposals.findByCharacterId(characterId, status),
+      repos.memories.findByCharacterId(characterId),
+    ])
+    const memoriesById = new Map(memories.map(memory => [memory.id, memory]))
+
+    return NextResponse.json({
+      proposals: proposals.map(proposal => ({
+        ...proposal,
+        memories: proposal.memoryIds
+          .map(id => memoriesById.get(id))
+          .filter(memory => memory !== undefined)
+          .map(({ embedding: _embedding, ...memory }) => memory),
+      })),
+      count: proposals.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error listing memory proposals', { context: 'GET /api/characters/[id]/memories/proposals' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to fetch memory proposals' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/characters/[id]/memories/proposals - Run a consolidation pass
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Verify character exists and belongs to user
+    const character = await repos.characters.findById(characterId)
+    if (!character || character.userId !== user.id) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 })
+    }
+
+    const selection = await resolveCheapLLMSelection(user.id, character.defaultConnectionProfileId)
+    if (!selection) {
+      return NextResponse.json(
+        { error: 'No connection profile available to review memories' },
+        { status: 400 }
+      )
+    }
+
+    const result = await runConsolidationPass(characterId, { userId: user.id, selection })
+
+    return NextResponse.json({
+      groupsReviewed: result.groupsReviewed,
+      proposalsCreated: result.proposals.length,
+    })
+  } catch (error) {
+    logger.error('Error running memory consolidation pass', { context: 'POST /api/characters/[id]/memories/proposals' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to review memories' },
+      { status: 500 }
+    )
+  }
+}
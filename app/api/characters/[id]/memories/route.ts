@@ -5,8 +5,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
-import { createMemoryWithEmbedding } from '@/lib/memory/memory-service'
+import { createMemoryWithEmbedding, MemoryVetoedError } from '@/lib/memory/memory-service'
 import { z } from 'zod'
+import { MemoryVisibilityEnum } from '@/lib/schemas/types'
 import { logger } from '@/lib/logger'
 
 // Validation schema for creating a memory
@@ -18,6 +19,7 @@ const createMemorySchema = z.object({
   importance: z.number().min(0).max(1).default(0.5),
   personaId: z.string().uuid().nullable().optional(),
   chatId: z.string().uuid().nullable().optional(),
+  visibility: MemoryVisibilityEnum.optional(),
   source: z.enum(['AUTO', 'MANUAL']).default('MANUAL'),
   sourceMessageId: z.string().uuid().nullable().optional(),
 })
@@ -170,6 +172,7 @@ export async function POST(
         chatId: validatedData.chatId,
         source: validatedData.source,
         sourceMessageId: validatedData.sourceMessageId,
+        visibility: validatedData.visibility,
       },
       {
         userId: user.id,
@@ -179,6 +182,12 @@ export async function POST(
 
     return NextResponse.json({ memory }, { status: 201 })
   } catch (error) {
+    if (error instanceof MemoryVetoedError) {
+      return NextResponse.json(
+        { error: 'Memory blocked by plugin', plugin: error.pluginName, reason: error.reason },
+        { status: 403 }
+      )
+    }
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Validation error', details: error.errors },
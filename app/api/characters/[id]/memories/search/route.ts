@@ -13,7 +13,7 @@ const searchMemorySchema = z.object({
   query: z.string().min(1, 'Search query is required'),
   limit: z.number().min(1).max(100).default(20),
   minImportance: z.number().min(0).max(1).optional(),
-  minScore: z.number().min(0).max(1).optional(),
+  minScore: z.number().min(0).max(1).optional(), // Lowest cosine similarity of a vector hit
   source: z.enum(['AUTO', 'MANUAL']).optional(),
 })
 
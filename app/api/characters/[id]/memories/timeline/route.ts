@@ -0,0 +1,80 @@
+// Memory Timeline API: Memories grouped by chat and day, with their source messages
+// GET /api/characters/[id]/memories/timeline - Get the memory timeline
+//   ?personaId=<id>|none, ?source=AUTO|MANUAL, ?minImportance, ?maxImportance, ?tags=<id>,<id>
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { buildMemoryTimeline } from '@/lib/memory/memory-timeline'
+import { z } from 'zod'
+import { logger } from '@/lib/logger'
+
+// Validation schema for query params
+const timelineQuerySchema = z.object({
+  personaId: z.union([z.literal('none'), z.string().uuid()]).optional(),
+  source: z.enum(['AUTO', 'MANUAL']).optional(),
+  minImportance: z.coerce.number().min(0).max(1).optional(),
+  maxImportance: z.coerce.number().min(0).max(1).optional(),
+  tags: z.string().optional()
+    .transform(value => value ? value.split(',').filter(Boolean) : undefined)
+    .pipe(z.array(z.string().uuid()).optional()),
+})
+
+// GET /api/characters/[id]/memories/timeline - Get the memory timeline
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Verify character exists and belongs to user
+    const character = await repos.characters.findById(characterId)
+    if (!character || character.userId !== user.id) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 })
+    }
+
+    const url = new URL(req.url)
+    const query = timelineQuerySchema.parse({
+      personaId: url.searchParams.get('personaId') ?? undefined,
+      source: url.searchParams.get('source') ?? undefined,
+      minImportance: url.searchParams.get('minImportance') ?? undefined,
+      maxImportance: url.searchParams.get('maxImportance') ?? undefined,
+      tags: url.searchParams.get('tags') ?? undefined,
+    })
+
+    const timeline = await buildMemoryTimeline(characterId, user.id, {
+      personaId: query.personaId === 'none' ? null : query.personaId,
+      source: query.source,
+      minImportance: query.minImportance,
+      maxImportance: query.maxImportance,
+      tagIds: query.tags,
+    })
+
+    return NextResponse.json(timeline)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error building memory timeline', {}, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to build memory timeline' },
+      { status: 500 }
+    )
+  }
+}
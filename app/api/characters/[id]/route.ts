@@ -10,7 +10,7 @@ import { getRepositories } from '@/lib/repositories/factory'
 import { executeCascadeDelete } from '@/lib/cascade-delete'
 import { logger } from '@/lib/logger'
 import { z } from 'zod'
-import type { FileEntry } from '@/lib/schemas/types'
+import { MemoryRetrievalSettingsSchema, MemoryVisibilityEnum, type FileEntry } from '@/lib/schemas/types'
 
 /**
  * Get the filepath for a file based on storage type
@@ -33,10 +33,13 @@ const updateCharacterSchema = z.object({
   personality: z.string().optional(),
   scenario: z.string().optional(),
   firstMessage: z.string().optional(),
+  alternateGreetings: z.array(z.string()).transform(greetings => greetings.filter(g => g.trim())).optional(),
   exampleDialogues: z.string().optional(),
   systemPrompt: z.string().optional(),
   avatarUrl: z.string().url().optional().or(z.literal('')),
   defaultConnectionProfileId: z.string().uuid().optional().or(z.literal('').transform(() => undefined)),
+  memoryRetrieval: MemoryRetrievalSettingsSchema.nullable().optional(),
+  autoMemoryVisibility: MemoryVisibilityEnum.nullable().optional(),
 })
 
 // GET /api/characters/:id
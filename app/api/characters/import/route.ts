@@ -1,13 +1,21 @@
 /**
  * Character Import API
- * POST /api/characters/import - Import a SillyTavern character (PNG or JSON)
+ * POST /api/characters/import - Import a V2/V3 character card (PNG, CharX or JSON)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
 import { logger } from '@/lib/logger'
-import { importSTCharacter, parseSTCharacterPNG } from '@/lib/sillytavern/character'
+import {
+  extractSTCharacterPNGAssets,
+  parseSTCharacterPNG,
+  replaceSTCharacterPNGChunks,
+} from '@/lib/sillytavern/character'
+import { parseCharX } from '@/lib/sillytavern/charx'
+import type { CardAssetSources } from '@/lib/sillytavern/card-assets'
+import { createCharacterFromCard } from '@/lib/sillytavern/card-import'
+import { isZip } from '@/lib/zip'
 
 export async function POST(req: NextRequest) {
   try {
@@ -21,7 +29,7 @@ export async function POST(req: NextRequest) {
     const contentType = req.headers.get('content-type')
 
     let characterData = null
-    let avatarUrl = null
+    let assetSources: CardAssetSources = {}
 
     if (contentType?.includes('multipart/form-data')) {
       // Handle file upload (PNG)
@@ -48,9 +56,23 @@ export async function POST(req: NextRequest) {
           )
         }
 
-        // TODO: Store the avatar image
-        // For now, we'll just note that we should save it
-        avatarUrl = null // Will implement avatar storage later
+        // The image itself is the card's default icon; store it without the card text
+        assetSources = {
+          pngAssets: extractSTCharacterPNGAssets(buffer),
+          defaultImage: replaceSTCharacterPNGChunks(buffer, []),
+        }
+      } else if (file.name.endsWith('.charx') || isZip(buffer)) {
+        // CharX: a V3 card plus its assets in a zip
+        try {
+          const charX = parseCharX(buffer)
+          characterData = charX.card
+          assetSources = { files: charX.files }
+        } catch (error) {
+          return NextResponse.json(
+            { error: `Invalid CharX file: ${error instanceof Error ? error.message : 'unreadable archive'}` },
+            { status: 400 }
+          )
+        }
       } else if (
         file.type === 'application/json' ||
         file.name.endsWith('.json')
@@ -60,7 +82,7 @@ export async function POST(req: NextRequest) {
         characterData = JSON.parse(jsonText)
       } else {
         return NextResponse.json(
-          { error: 'Unsupported file type. Please upload PNG or JSON' },
+          { error: 'Unsupported file type. Please upload PNG, CharX or JSON' },
           { status: 400 }
         )
       }
@@ -82,21 +104,7 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Import character from SillyTavern format
-    const importedData = importSTCharacter(characterData)
-
-    // Create character in database
-    const character = await repos.characters.create({
-      userId: session.user.id,
-      ...importedData,
-      avatarUrl: avatarUrl,
-      isFavorite: false,
-      tags: [] as string[],
-      personaLinks: [] as { personaId: string; isDefault: boolean }[],
-      avatarOverrides: [] as { chatId: string; imageId: string }[],
-      defaultImageId: null,
-      physicalDescriptions: [],
-    })
+    const { character, lorebookId } = await createCharacterFromCard(session.user.id, characterData, assetSources)
 
     // Get chat count for response (will be 0 for new character)
     const chats = await repos.chats.findByCharacterId(character.id)
@@ -106,8 +114,10 @@ export async function POST(req: NextRequest) {
       name: character.name,
       description: character.description,
       avatarUrl: character.avatarUrl,
+      defaultImageId: character.defaultImageId,
       createdAt: character.createdAt,
       updatedAt: character.updatedAt,
+      lorebookId,
       _count: {
         chats: chats.length,
       },
@@ -30,6 +30,7 @@ const createCharacterSchema = z.object({
   personality: z.string().optional(),
   scenario: z.string().optional(),
   firstMessage: z.string().optional(),
+  alternateGreetings: z.array(z.string()).transform(greetings => greetings.filter(g => g.trim())).optional(),
   exampleDialogues: z.string().optional(),
   systemPrompt: z.string().optional(),
   avatarUrl: z.string().url().optional().or(z.literal('')),
@@ -130,6 +131,7 @@ export async function POST(req: NextRequest) {
       personality: validatedData.personality || null,
       scenario: validatedData.scenario || null,
       firstMessage: validatedData.firstMessage || null,
+      alternateGreetings: validatedData.alternateGreetings || [],
       exampleDialogues: validatedData.exampleDialogues || null,
       systemPrompt: validatedData.systemPrompt || null,
       avatarUrl: validatedData.avatarUrl || null,
@@ -10,7 +10,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
 import { logger } from '@/lib/logger'
-import { TagStyleMapSchema, type AvatarDisplayMode } from '@/lib/schemas/types'
+import { getEffectiveEmbeddingProfile } from '@/lib/embedding/embedding-service'
+import { scheduleEmbeddingMigrationsAsync } from '@/lib/memory/embedding-migration'
+import { TagStyleMapSchema, ToolPolicyMapSchema, WebSearchSettingsSchema, type AvatarDisplayMode } from '@/lib/schemas/types'
 
 /**
  * Validate and update chat settings
@@ -21,7 +23,9 @@ async function updateChatSettings(
   avatarDisplayStyle?: string,
   tagStyles?: unknown,
   cheapLLMSettings?: unknown,
-  imageDescriptionProfileId?: string | null
+  imageDescriptionProfileId?: string | null,
+  toolPolicies?: unknown,
+  webSearchSettings?: unknown
 ) {
   // Validate avatarDisplayMode if provided
   if (avatarDisplayMode) {
@@ -67,6 +71,20 @@ async function updateChatSettings(
   if (typeof imageDescriptionProfileId !== 'undefined') {
     updateData.imageDescriptionProfileId = imageDescriptionProfileId
   }
+  if (typeof toolPolicies !== 'undefined') {
+    const parsedPolicies = ToolPolicyMapSchema.safeParse(toolPolicies)
+    if (!parsedPolicies.success) {
+      throw new Error('Invalid tool policies')
+    }
+    updateData.toolPolicies = parsedPolicies.data
+  }
+  if (typeof webSearchSettings !== 'undefined') {
+    const parsedSearch = WebSearchSettingsSchema.safeParse(webSearchSettings)
+    if (!parsedSearch.success) {
+      throw new Error('Invalid web search settings')
+    }
+    updateData.webSearchSettings = parsedSearch.data
+  }
 
   return repos.users.updateChatSettings(userId, updateData)
 }
@@ -123,7 +141,12 @@ async function handleSettingsUpdate(req: NextRequest) {
     }
 
     const body = await req.json()
-    const { avatarDisplayMode, avatarDisplayStyle, tagStyles, cheapLLMSettings, imageDescriptionProfileId } = body
+    const { avatarDisplayMode, avatarDisplayStyle, tagStyles, cheapLLMSettings, imageDescriptionProfileId, toolPolicies, webSearchSettings } = body
+
+    // Profile memories are embedded with before this change
+    const previousProfile = cheapLLMSettings !== undefined
+      ? await getEffectiveEmbeddingProfile(session.user.id)
+      : null
 
     const chatSettings = await updateChatSettings(
       session.user.id,
@@ -131,9 +154,16 @@ async function handleSettingsUpdate(req: NextRequest) {
       avatarDisplayStyle,
       tagStyles,
       cheapLLMSettings,
-      imageDescriptionProfileId
+      imageDescriptionProfileId,
+      toolPolicies,
+      webSearchSettings
     )
 
+    // Re-embed memories if the embedding profile in use changed
+    if (cheapLLMSettings !== undefined) {
+      scheduleEmbeddingMigrationsAsync(session.user.id, previousProfile)
+    }
+
     return NextResponse.json(chatSettings)
   } catch (error) {
     logger.error('Error updating chat settings', { context: 'PUT/POST /api/chat-settings' }, error instanceof Error ? error : undefined)
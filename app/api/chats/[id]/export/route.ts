@@ -1,16 +1,27 @@
 /**
  * Chat Export API
  * GET /api/chats/:id/export - Export a chat in SillyTavern format
+ * Group chats come as a zip holding the group definition and its chat.
+ * GET /api/chats/:id/export?format=quilltap - Export a lossless Quilltap chat archive
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
-import { exportSTChat } from '@/lib/sillytavern/chat'
+import {
+  exportSTChat,
+  exportSTGroup,
+  exportSTGroupChat,
+  serializeSTChatJSONL,
+  stAvatarFileName,
+  STGroupMember,
+} from '@/lib/sillytavern/chat'
+import { exportChatArchive } from '@/lib/chat/chat-archive'
+import { createZip } from '@/lib/zip'
 import { logger } from '@/lib/logger'
 
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
@@ -31,17 +42,32 @@ export async function GET(
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
     }
 
+    // The native archive keeps everything; the SillyTavern formats below keep what SillyTavern can hold
+    const { searchParams } = new URL(req.url)
+    if (searchParams.get('format') === 'quilltap') {
+      const archive = await exportChatArchive(chat)
+      const title = chat.title.replace(/[\\/:*?"<>|]/g, '_')
+      const filename = `${title}_${new Date(chat.createdAt).getTime()}.qtchat.zip`
+
+      return new NextResponse(new Uint8Array(archive), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
     // Get messages (filter for message events only, not context-summary events)
     const allEvents = await repos.chats.getMessages(id)
     const messages = allEvents.filter(event => event.type === 'message')
 
-    // Get character from participants
-    const characterParticipant = chat.participants.find(p => p.type === 'CHARACTER' && p.characterId)
-    if (!characterParticipant?.characterId) {
+    // Get characters from participants
+    const characterParticipants = chat.participants.filter(p => p.type === 'CHARACTER' && p.characterId)
+    if (characterParticipants.length === 0) {
       return NextResponse.json({ error: 'No character in chat' }, { status: 404 })
     }
 
-    const character = await repos.characters.findById(characterParticipant.characterId)
+    const character = await repos.characters.findById(characterParticipants[0].characterId!)
     if (!character) {
       return NextResponse.json({ error: 'Character not found' }, { status: 404 })
     }
@@ -66,8 +92,10 @@ export async function GET(
       updatedAt: new Date(msg.createdAt),
       swipeGroupId: msg.swipeGroupId || null,
       swipeIndex: msg.swipeIndex || null,
+      activeSwipe: msg.activeSwipe || false,
       tokenCount: msg.tokenCount || null,
       rawResponse: msg.rawResponse || null,
+      participantId: msg.participantId || null,
     }))
 
     // Create a chat object compatible with exportSTChat
@@ -77,6 +105,43 @@ export async function GET(
       updatedAt: new Date(chat.updatedAt),
     }
 
+    // Group chats are exported as SillyTavern keeps them: the group definition
+    // and its chat, zipped in the layout of a data directory
+    if (characterParticipants.length > 1) {
+      const members: Array<STGroupMember & { participantId: string }> = []
+      for (const participant of characterParticipants) {
+        const member = await repos.characters.findById(participant.characterId!)
+        if (member) {
+          members.push({
+            participantId: participant.id,
+            name: member.name,
+            avatar: stAvatarFileName(member.name),
+            isActive: participant.isActive,
+          })
+        }
+      }
+
+      // Messages not tied to a participant are put down to the first character
+      const speakerOf = (msg: { participantId: string | null }) =>
+        members.find(member => member.participantId === msg.participantId) ?? members[0]
+      const stChat = exportSTGroupChat(chatForExport, formattedMessages, speakerOf, userName)
+      const group = exportSTGroup(chatForExport, members, chat.id)
+
+      const zip = createZip([
+        { path: `groups/${group.id}.json`, data: Buffer.from(JSON.stringify(group, null, 2), 'utf8') },
+        { path: `group chats/${chat.id}.jsonl`, data: Buffer.from(serializeSTChatJSONL(stChat), 'utf8') },
+      ])
+      const title = chat.title.replace(/[\\/:*?"<>|]/g, '_')
+      const filename = `${title}_group_chat_${new Date(chat.createdAt).getTime()}.zip`
+
+      return new NextResponse(new Uint8Array(zip), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
     const stChat = exportSTChat(chatForExport, formattedMessages, character.name, userName)
 
     // Return as JSON with download headers
@@ -0,0 +1,108 @@
+// Chat Fork API: Branch a conversation from any message
+// POST /api/chats/:id/fork - Create a new chat containing the events up to a message
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { buildForkedEvents } from '@/lib/chat/fork'
+import { logger } from '@/lib/logger'
+import { z } from 'zod'
+
+const forkChatSchema = z.object({
+  messageId: z.string().uuid(),
+  title: z.string().min(1).optional(),
+})
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const sourceChat = await repos.chats.findById(id)
+    if (!sourceChat || sourceChat.userId !== user.id) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
+    }
+
+    const body = await req.json()
+    const { messageId, title } = forkChatSchema.parse(body)
+
+    const sourceEvents = await repos.chats.getMessages(id)
+    const forked = buildForkedEvents(sourceEvents, messageId, sourceChat.contextSummary)
+    if (!forked) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 })
+    }
+
+    const messageEvents = forked.events.filter(e => e.type === 'message')
+    const lastMessage = messageEvents[messageEvents.length - 1]
+
+    const newChat = await repos.chats.create({
+      userId: user.id,
+      participants: sourceChat.participants,
+      title: title || `${sourceChat.title} (branch)`,
+      contextSummary: forked.contextSummary,
+      sillyTavernMetadata: sourceChat.sillyTavernMetadata ?? null,
+      tags: sourceChat.tags,
+      messageCount: messageEvents.length,
+      lastMessageAt: lastMessage?.createdAt ?? null,
+      lastRenameCheckInterchange: sourceChat.lastRenameCheckInterchange || 0,
+      turnStrategy: sourceChat.turnStrategy || 'ROUND_ROBIN',
+      parentChatId: sourceChat.id,
+      forkedFromMessageId: messageId,
+    })
+
+    if (forked.events.length > 0) {
+      await repos.chats.addMessages(newChat.id, forked.events)
+    }
+
+    // Link attachments to the copied messages and to the new chat so they show in its gallery
+    const sourceChatFileIds = new Set((await repos.files.findByLinkedTo(id)).map(f => f.id))
+    for (const event of messageEvents) {
+      for (const fileId of event.attachments || []) {
+        try {
+          await repos.files.addLink(fileId, event.id)
+          if (sourceChatFileIds.has(fileId)) {
+            await repos.files.addLink(fileId, newChat.id)
+          }
+        } catch (error) {
+          logger.warn('Failed to link attachment to forked message', {
+            fileId,
+            messageId: event.id,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+      }
+    }
+
+    logger.info('Chat forked', {
+      sourceChatId: id,
+      newChatId: newChat.id,
+      messageId,
+      eventCount: forked.events.length,
+    })
+
+    return NextResponse.json({ chat: newChat }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error forking chat', { context: 'POST /api/chats/:id/fork' }, error instanceof Error ? error : undefined)
+    return NextResponse.json({ error: 'Failed to fork chat' }, { status: 500 })
+  }
+}
@@ -7,10 +7,21 @@ import { getRepositories } from '@/lib/repositories/factory'
 import { createLLMProvider } from '@/lib/llm'
 import { decryptApiKey } from '@/lib/encryption'
 import { loadChatFilesForLLM } from '@/lib/chat-files-v2'
-import { detectToolCalls, executeToolCallWithContext, type ToolExecutionContext } from '@/lib/chat/tool-executor'
+import { detectToolCalls, executeToolCallsInParallel, type ToolExecutionContext, type ToolResult } from '@/lib/chat/tool-executor'
 import { buildToolsForProvider } from '@/lib/tools'
-import { processMessageForMemoryAsync } from '@/lib/memory'
+import { getMcpUniversalTools, isMcpToolName } from '@/lib/mcp'
+import { isWebSearchConfigured } from '@/lib/web-search'
+import {
+  cancelPendingToolApprovals,
+  requestToolApproval,
+  resolveToolPolicy,
+  type ToolApprovalRecord,
+} from '@/lib/chat/tool-approval'
+import { processMessageForMemoryAsync, chooseNextSpeaker } from '@/lib/memory'
 import { buildContext } from '@/lib/chat/context-manager'
+import { filterActiveSwipes } from '@/lib/chat/swipes'
+import { getEligibleSpeakers, selectNextSpeaker, type NaturalSpeakerSelector } from '@/lib/chat/turn-manager'
+import { getCheapLLMProvider } from '@/lib/llm/cheap-llm'
 import { checkAndGenerateSummaryIfNeeded } from '@/lib/chat/context-summary'
 import {
   processFileAttachmentFallback,
@@ -19,14 +30,21 @@ import {
 } from '@/lib/chat/file-attachment-fallback'
 import { logger } from '@/lib/logger'
 import { requiresApiKey } from '@/lib/plugins/provider-validation'
+import { HOOK_POINTS, hasHooks, runHook } from '@/lib/plugins/hook-bus'
+import { DEFAULT_MAX_TOOL_ITERATIONS, type Character, type ToolPolicyMap } from '@/lib/schemas/types'
 import { z } from 'zod'
 
 // Validation schema
 const sendMessageSchema = z.object({
-  content: z.string().min(1, 'Message content is required'),
+  content: z.string().optional(),
   // Optional array of file IDs to attach to this message
   fileIds: z.array(z.string()).optional(),
-})
+  // Optional participant that should reply; without content this asks that character to continue
+  respondingParticipantId: z.string().uuid().optional(),
+}).refine(
+  data => (data.content && data.content.length > 0) || !!data.respondingParticipantId,
+  { message: 'Message content is required', path: ['content'] }
+)
 
 // Helper function to load attached files
 async function loadAttachedFiles(repos: ReturnType<typeof getRepositories>, chatId: string, fileIds?: string[]) {
@@ -48,14 +66,85 @@ async function loadAttachedFiles(repos: ReturnType<typeof getRepositories>, chat
   }))
 }
 
-// Helper function to process tool execution results
+// Helper function to let plugins rewrite or drop a streamed chunk
+async function applyStreamChunkHook(content: string, chatId: string, characterId: string): Promise<string | null> {
+  if (!hasHooks(HOOK_POINTS.STREAM_CHUNK)) {
+    return content
+  }
+
+  const result = await runHook(HOOK_POINTS.STREAM_CHUNK, { chatId, characterId, content })
+  return result.vetoed ? null : result.payload.content
+}
+
+// Helper function to check a tool call against its approval policy
+// ASK pauses until the user answers the toolApprovalRequest event (or the request times out).
+async function approveToolCall(
+  toolCall: { name: string; arguments: Record<string, unknown> },
+  toolContext: ToolExecutionContext,
+  toolPolicies: { settings?: ToolPolicyMap | null; chat?: ToolPolicyMap | null },
+  controller: ReadableStreamDefaultController,
+  encoder: TextEncoder,
+  round: number
+): Promise<ToolApprovalRecord> {
+  const policy = resolveToolPolicy(toolCall.name, toolPolicies.settings, toolPolicies.chat)
+
+  if (policy === 'ALWAYS_ALLOW') {
+    return { policy, decision: 'auto', decidedAt: new Date().toISOString() }
+  }
+  if (policy === 'NEVER') {
+    return { policy, decision: 'blocked', decidedAt: new Date().toISOString() }
+  }
+
+  const { approvalId, decision } = requestToolApproval({
+    chatId: toolContext.chatId,
+    userId: toolContext.userId,
+    toolName: toolCall.name,
+  })
+  controller.enqueue(
+    encoder.encode(`data: ${JSON.stringify({
+      toolApprovalRequest: { approvalId, toolName: toolCall.name, arguments: toolCall.arguments, round },
+    })}\n\n`)
+  )
+
+  const approved = await decision
+  const record: ToolApprovalRecord = {
+    policy,
+    decision: approved === null ? 'timeout' : approved ? 'approved' : 'denied',
+    decidedAt: new Date().toISOString(),
+  }
+  controller.enqueue(
+    encoder.encode(`data: ${JSON.stringify({
+      toolApprovalResolved: { approvalId, toolName: toolCall.name, decision: record.decision },
+    })}\n\n`)
+  )
+
+  return record
+}
+
+// Error fed back to the model for a call that was not allowed to run
+function describeWithheldToolCall(toolName: string, approval: ToolApprovalRecord): string {
+  switch (approval.decision) {
+    case 'blocked':
+      return `The tool "${toolName}" is disabled by the user's tool policy.`
+    case 'timeout':
+      return `The user did not approve "${toolName}" in time, so it was not run.`
+    default:
+      return `The user declined to run "${toolName}".`
+  }
+}
+
+// Helper function to run one round of tool calls and process the results
+// All calls from the same model response run concurrently; results keep the call order.
 async function processToolResults(
   toolCalls: Array<{ name: string; arguments: Record<string, unknown> }>,
   toolContext: ToolExecutionContext,
+  toolPolicies: { settings?: ToolPolicyMap | null; chat?: ToolPolicyMap | null },
   controller: ReadableStreamDefaultController,
-  encoder: TextEncoder
+  encoder: TextEncoder,
+  round: number,
+  maxRounds: number
 ) {
-  const toolMessages: Array<{ toolName: string; success: boolean; content: string; arguments?: Record<string, unknown>; metadata?: { provider?: string; model?: string } }> = []
+  const toolMessages: Array<{ toolName: string; success: boolean; content: string; arguments?: Record<string, unknown>; metadata?: ToolResult['metadata'] }> = []
   const generatedImagePaths: Array<{ id: string; filename: string; filepath: string; mimeType: string; size: number; width?: number; height?: number; sha256?: string }> = []
 
   // Send tool detection info with tool names for proper UI handling
@@ -66,9 +155,34 @@ async function processToolResults(
       toolArguments: toolCalls.map(tc => tc.arguments),
     })}\n\n`)
   )
+  controller.enqueue(
+    encoder.encode(`data: ${JSON.stringify({
+      toolRound: { round, maxRounds, status: 'running', toolNames: toolCalls.map(tc => tc.name) },
+    })}\n\n`)
+  )
+
+  const approvals = await Promise.all(
+    toolCalls.map(toolCall => approveToolCall(toolCall, toolContext, toolPolicies, controller, encoder, round))
+  )
+  const allowedCalls = toolCalls.filter((_, index) => ['auto', 'approved'].includes(approvals[index].decision))
+  const allowedResults = await executeToolCallsInParallel(allowedCalls, toolContext)
+
+  // Put executed and withheld calls back together in the original call order
+  const toolResults: ToolResult[] = []
+  for (const [index, toolCall] of toolCalls.entries()) {
+    const approval = approvals[index]
+    const executed = allowedCalls.includes(toolCall) ? allowedResults.shift() : undefined
+    const toolResult: ToolResult = executed ?? {
+      toolName: toolCall.name,
+      success: false,
+      result: null,
+      error: describeWithheldToolCall(toolCall.name, approval),
+    }
+    toolResults.push({ ...toolResult, metadata: { ...toolResult.metadata, approval } })
+  }
 
-  for (const toolCall of toolCalls) {
-    const toolResult = await executeToolCallWithContext(toolCall, toolContext)
+  for (const [index, toolCall] of toolCalls.entries()) {
+    const toolResult = toolResults[index]
 
     if (toolResult.success && Array.isArray(toolResult.result)) {
       for (const img of toolResult.result) {
@@ -92,6 +206,8 @@ async function processToolResults(
       resultText = `Error: ${toolResult.error || 'Unknown error'}`
     } else if (toolResult.toolName === 'generate_image') {
       resultText = `Generated ${(toolResult.result as unknown[])?.length || 1} image(s)`
+    } else if (isMcpToolName(toolResult.toolName) || toolResult.toolName === 'search_web') {
+      resultText = (toolResult.result as { formattedText: string }).formattedText
     } else {
       resultText = JSON.stringify(toolResult.result, null, 2)
     }
@@ -111,12 +227,20 @@ async function processToolResults(
             name: toolResult.toolName,
             success: toolResult.success,
             result: toolResult.result,
+            approval: toolResult.metadata?.approval,
           },
         })}\n\n`
       )
     )
   }
 
+  const succeeded = toolResults.filter(result => result.success).length
+  controller.enqueue(
+    encoder.encode(`data: ${JSON.stringify({
+      toolRound: { round, maxRounds, status: 'complete', succeeded, failed: toolResults.length - succeeded },
+    })}\n\n`)
+  )
+
   return { toolMessages, generatedImagePaths }
 }
 
@@ -125,9 +249,10 @@ async function saveToolMessages(
   repos: ReturnType<typeof getRepositories>,
   chatId: string,
   _userId: string,
-  toolMessages: Array<{ toolName: string; success: boolean; content: string; arguments?: Record<string, unknown>; metadata?: { provider?: string; model?: string } }>,
+  toolMessages: Array<{ toolName: string; success: boolean; content: string; arguments?: Record<string, unknown>; metadata?: ToolResult['metadata'] }>,
   generatedImagePaths: Array<{ id: string; filename: string; filepath: string; mimeType: string; size: number; width?: number; height?: number; sha256?: string }>,
-  characterId?: string
+  characterId?: string,
+  participantId?: string
 ) {
   let firstToolMessageId: string | null = null
   const generatedImageIds: string[] = generatedImagePaths.map(img => img.id)
@@ -150,9 +275,15 @@ async function saveToolMessages(
         arguments: toolMsg.arguments,
         provider: toolMsg.metadata?.provider,
         model: toolMsg.metadata?.model,
+        mcpServer: toolMsg.metadata?.mcpServer,
+        mcpTool: toolMsg.metadata?.mcpTool,
+        approval: toolMsg.metadata?.approval,
+        searchBackend: toolMsg.metadata?.searchBackend,
+        citations: toolMsg.metadata?.citations,
       }),
       createdAt: new Date().toISOString(),
       attachments: toolAttachments,
+      participantId: participantId ?? null,
     }
     await repos.chats.addMessage(chatId, toolMessage)
 
@@ -205,25 +336,115 @@ export async function POST(
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
     }
 
-    // Get first active character participant
-    const characterParticipant = chat.participants.find(
-      p => p.type === 'CHARACTER' && p.isActive && p.characterId && p.connectionProfileId
-    )
+    // Validate request body
+    const body = await req.json()
+    const { content: rawContent, fileIds, respondingParticipantId } = sendMessageSchema.parse(body)
+    const content = rawContent ?? ''
+    const hasUserMessage = content.length > 0
 
-    if (!characterParticipant?.characterId) {
+    // Characters able to respond in this chat
+    const eligibleSpeakers = getEligibleSpeakers(chat.participants)
+    if (eligibleSpeakers.length === 0) {
       return NextResponse.json({ error: 'No active character in chat' }, { status: 404 })
     }
 
-    if (!characterParticipant.connectionProfileId) {
-      return NextResponse.json({ error: 'No connection profile for character' }, { status: 404 })
+    if (respondingParticipantId && !eligibleSpeakers.some(p => p.id === respondingParticipantId)) {
+      return NextResponse.json({ error: 'Participant cannot respond in this chat' }, { status: 400 })
+    }
+
+    const speakerCharacters = new Map<string, Character>()
+    for (const participant of eligibleSpeakers) {
+      const speakerCharacter = await repos.characters.findById(participant.characterId!)
+      if (speakerCharacter) {
+        speakerCharacters.set(participant.id, speakerCharacter)
+      }
     }
 
-    // Get character
-    const character = await repos.characters.findById(characterParticipant.characterId)
-    if (!character) {
+    if (speakerCharacters.size === 0) {
       return NextResponse.json({ error: 'Character not found' }, { status: 404 })
     }
 
+    const speakerNames: Record<string, string> = {}
+    for (const [participantId, speakerCharacter] of speakerCharacters) {
+      speakerNames[participantId] = speakerCharacter.name
+    }
+
+    // Get existing messages; of each swipe group only the active swipe is part of the conversation
+    const existingMessages = filterActiveSwipes(await repos.chats.getMessages(id))
+
+    // Get chat settings for embedding profile and cheap LLM selection
+    const chatSettings = await repos.users.getChatSettings(user.id)
+
+    // Let the cheap LLM pick the speaker for chats using the NATURAL strategy
+    const naturalSelector: NaturalSpeakerSelector | undefined = chatSettings
+      ? async (candidates, userMessageText) => {
+          const firstProfile = await repos.connections.findById(candidates[0].participant.connectionProfileId!)
+          if (!firstProfile) {
+            return null
+          }
+          const availableProfiles = await repos.connections.findByUserId(user.id)
+          const selection = getCheapLLMProvider(
+            firstProfile,
+            {
+              strategy: chatSettings.cheapLLMSettings.strategy,
+              userDefinedProfileId: chatSettings.cheapLLMSettings.userDefinedProfileId ?? undefined,
+              defaultCheapProfileId: chatSettings.cheapLLMSettings.defaultCheapProfileId ?? undefined,
+              fallbackToLocal: chatSettings.cheapLLMSettings.fallbackToLocal,
+            },
+            availableProfiles
+          )
+          const recentMessages = existingMessages
+            .filter(msg => msg.type === 'message' && (msg.role === 'USER' || msg.role === 'ASSISTANT'))
+            .map(msg => {
+              const messageEvent = msg as { role: 'USER' | 'ASSISTANT'; content: string; participantId?: string | null }
+              const speakerName = messageEvent.participantId ? speakerNames[messageEvent.participantId] : undefined
+              return {
+                role: messageEvent.role === 'USER' ? 'user' as const : 'assistant' as const,
+                content: speakerName ? `${speakerName}: ${messageEvent.content}` : messageEvent.content,
+              }
+            })
+          if (userMessageText) {
+            recentMessages.push({ role: 'user', content: userMessageText })
+          }
+          const result = await chooseNextSpeaker(
+            candidates.map(c => c.name),
+            recentMessages,
+            selection,
+            user.id
+          )
+          return result.success ? result.result ?? null : null
+        }
+      : undefined
+
+    const speakerSelection = await selectNextSpeaker({
+      strategy: chat.turnStrategy || 'ROUND_ROBIN',
+      participants: chat.participants.filter(p => p.type !== 'CHARACTER' || speakerCharacters.has(p.id)),
+      names: speakerNames,
+      messages: existingMessages,
+      userMessage: hasUserMessage ? content : undefined,
+      requestedParticipantId: respondingParticipantId,
+      naturalSelector,
+    })
+
+    if (!speakerSelection) {
+      return NextResponse.json({ error: 'No active character in chat' }, { status: 404 })
+    }
+
+    const characterParticipant = speakerSelection.participant
+    const character = speakerCharacters.get(characterParticipant.id)!
+    const isGroupChat = speakerCharacters.size > 1
+
+    if (!characterParticipant.connectionProfileId) {
+      return NextResponse.json({ error: 'No connection profile for character' }, { status: 404 })
+    }
+
+    logger.debug('[Chat Messages] Selected speaker', {
+      chatId: id,
+      participantId: characterParticipant.id,
+      characterName: character.name,
+      reason: speakerSelection.reason,
+    })
+
     // Get connection profile with API key from the participant
     const connectionProfile = await repos.connections.findById(characterParticipant.connectionProfileId)
     if (!connectionProfile) {
@@ -242,15 +463,24 @@ export async function POST(
       imageProfile = await repos.imageProfiles.findById(imageProfileId)
     }
 
-    // Get existing messages
-    const existingMessages = await repos.chats.getMessages(id)
-
-    // Validate request body
-    const body = await req.json()
-    const { content, fileIds } = sendMessageSchema.parse(body)
-
     // Load file attachments if provided
-    const attachedFiles = await loadAttachedFiles(repos, id, fileIds)
+    const attachedFiles = hasUserMessage ? await loadAttachedFiles(repos, id, fileIds) : []
+
+    // Let plugins rewrite or block the incoming message before it is saved or any context is assembled
+    // Without a user message, nudge the chosen character to take the next turn
+    const beforeContextHook = await runHook(HOOK_POINTS.BEFORE_CONTEXT_BUILD, {
+      chatId: id,
+      userId: user.id,
+      characterId: character.id,
+      newUserMessage: hasUserMessage ? content : `[Continue the conversation as ${character.name}.]`,
+    })
+    if (beforeContextHook.vetoed) {
+      return NextResponse.json(
+        { error: 'Message blocked by plugin', plugin: beforeContextHook.vetoedBy, reason: beforeContextHook.reason },
+        { status: 403 }
+      )
+    }
+    const hookedContent = beforeContextHook.payload.newUserMessage
 
     // Create user message event
     const userMessageId = crypto.randomUUID()
@@ -259,13 +489,15 @@ export async function POST(
       id: userMessageId,
       type: 'message' as const,
       role: 'USER' as const,
-      content,
+      content: hookedContent,
       createdAt: now,
       attachments: fileIds || [],
     }
 
-    // Add user message to chat
-    await repos.chats.addMessage(id, userMessage)
+    // Add user message to chat (a bare "reply as" request has no user message)
+    if (hasUserMessage) {
+      await repos.chats.addMessage(id, userMessage)
+    }
 
     // Update file attachments with message ID using repository
     if (attachedFiles.length > 0) {
@@ -306,23 +538,22 @@ export async function POST(
     }
 
     // If we have fallback content, prepend it to the user's message
-    const finalUserMessageContent = messageContentPrefix ? messageContentPrefix + content : content
+    const finalUserMessageContent = hasUserMessage && messageContentPrefix
+      ? messageContentPrefix + hookedContent
+      : hookedContent
 
     // Get persona if available
     const personaParticipant = chat.participants.find(
       p => p.type === 'PERSONA' && p.isActive && p.personaId
     )
-    let persona: { name: string; description: string } | null = null
+    let persona: { id: string; name: string; description: string } | null = null
     if (personaParticipant?.personaId) {
       const personaData = await repos.personas.findById(personaParticipant.personaId)
       if (personaData) {
-        persona = { name: personaData.name, description: personaData.description }
+        persona = { id: personaData.id, name: personaData.name, description: personaData.description }
       }
     }
 
-    // Get chat settings for embedding profile
-    const chatSettings = await repos.users.getChatSettings(user.id)
-
     // Build context with intelligent token management
     // Filter existing messages to include USER, ASSISTANT, and TOOL messages (exclude SYSTEM)
     // IMPORTANT: Tool results must be included so LLM knows tools were already executed
@@ -354,6 +585,19 @@ export async function POST(
           }
         }
 
+        // In group chats, label other characters' lines so the speaker can tell them apart
+        const authorId = (msg as { participantId?: string | null }).participantId
+        if (isGroupChat && messageEvent.role === 'ASSISTANT' && authorId && authorId !== characterParticipant.id) {
+          const authorName = speakerNames[authorId]
+          if (authorName) {
+            return {
+              role: 'USER' as const,
+              content: `${authorName}: ${messageEvent.content}`,
+              id: messageEvent.id,
+            }
+          }
+        }
+
         return {
           role: messageEvent.role,
           content: messageEvent.content,
@@ -362,6 +606,18 @@ export async function POST(
       })
       .filter((msg): msg is NonNullable<typeof msg> => msg !== null)
 
+    // When the user only asked a character to speak, search memories with the last thing the user said
+    const lastUserMessage = [...existingMessages]
+      .reverse()
+      .find(msg => msg.type === 'message' && msg.role === 'USER') as { content: string } | undefined
+
+    // Lorebooks attached to the responding character, the persona, or this chat
+    const lorebooks = await repos.lorebooks.findForChat(user.id, {
+      characterIds: [character.id],
+      personaIds: personaParticipant?.personaId ? [personaParticipant.personaId] : [],
+      chatId: id,
+    })
+
     const builtContext = await buildContext({
       provider: connectionProfile.provider,
       modelName: connectionProfile.modelName,
@@ -376,6 +632,11 @@ export async function POST(
       skipMemories: false,
       maxMemories: 10,
       minMemoryImportance: 0.3,
+      groupParticipantNames: isGroupChat
+        ? Object.entries(speakerNames).filter(([pid]) => pid !== characterParticipant.id).map(([, name]) => name)
+        : undefined,
+      memorySearchQuery: hasUserMessage ? undefined : lastUserMessage?.content,
+      lorebooks,
     })
 
     // Log context building results for debugging
@@ -391,8 +652,22 @@ export async function POST(
       return !fallback || (fallback.type !== 'text' && fallback.type !== 'image_description')
     })
 
-    const messages = builtContext.messages.map((msg, idx) => {
-      if (idx === builtContext.messages.length - 1 && msg.role === 'user' && attachmentsToSend.length > 0) {
+    const afterContextHook = await runHook(HOOK_POINTS.AFTER_CONTEXT_BUILD, {
+      chatId: id,
+      userId: user.id,
+      characterId: character.id,
+      messages: builtContext.messages,
+    })
+    if (afterContextHook.vetoed) {
+      return NextResponse.json(
+        { error: 'Message blocked by plugin', plugin: afterContextHook.vetoedBy, reason: afterContextHook.reason },
+        { status: 403 }
+      )
+    }
+    const contextMessages = afterContextHook.payload.messages
+
+    const contextWithAttachments = contextMessages.map((msg, idx) => {
+      if (idx === contextMessages.length - 1 && msg.role === 'user' && attachmentsToSend.length > 0) {
         return {
           role: msg.role,
           content: msg.content,
@@ -429,8 +704,27 @@ export async function POST(
       connectionProfile.baseUrl || undefined
     )
 
+    // Let plugins adjust the final request (messages and parameters) or block the provider call
+    const providerCallHook = await runHook(HOOK_POINTS.BEFORE_PROVIDER_CALL, {
+      chatId: id,
+      userId: user.id,
+      characterId: character.id,
+      provider: connectionProfile.provider,
+      model: connectionProfile.modelName,
+      messages: contextWithAttachments,
+      parameters: connectionProfile.parameters as Record<string, unknown>,
+    })
+    if (providerCallHook.vetoed) {
+      return NextResponse.json(
+        { error: 'Message blocked by plugin', plugin: providerCallHook.vetoedBy, reason: providerCallHook.reason },
+        { status: 403 }
+      )
+    }
+
+    const messages = providerCallHook.payload.messages
+
     // Get parameters
-    const modelParams = connectionProfile.parameters as Record<string, unknown>
+    const modelParams = providerCallHook.payload.parameters
 
     // Create streaming response
     const encoder = new TextEncoder()
@@ -447,8 +741,10 @@ export async function POST(
       imageProfileId: imageProfileId || undefined,
       characterId: character.id,
       embeddingProfileId: chatSettings?.cheapLLMSettings?.embeddingProfileId || undefined,
+      personaId: persona?.id ?? null,
       callingParticipantId: characterParticipant.id,
     }
+    const toolPolicies = { settings: chatSettings?.toolPolicies, chat: chat.toolPolicies }
 
     const stream = new ReadableStream({
       async start(controller) {
@@ -465,11 +761,16 @@ export async function POST(
             webSearchEnabled: connectionProfile.allowWebSearch && !useNativeWebSearch,
             useNativeWebSearch,
           })
+          const mcpTools = await getMcpUniversalTools(user.id)
           const tools = buildToolsForProvider(connectionProfile.provider, {
             imageGeneration: !!imageProfileId,
             imageProviderType: imageProfile?.provider,
             memorySearch: true, // Always enable memory search for characters
-            webSearch: connectionProfile.allowWebSearch && !useNativeWebSearch,
+            // Only offer search_web when the user has picked a search backend
+            webSearch: connectionProfile.allowWebSearch && !useNativeWebSearch && isWebSearchConfigured(chatSettings?.webSearchSettings),
+            mcpTools,
+            // Tools the user has set to NEVER are not offered at all
+            toolFilter: (toolName) => resolveToolPolicy(toolName, toolPolicies.settings, toolPolicies.chat) !== 'NEVER',
           })
           logger.debug('[Chat Messages] Tools built successfully', {
             toolCount: tools.length,
@@ -477,6 +778,17 @@ export async function POST(
           })
 
           // Send debug info about the actual LLM request (for debug panel)
+          // Tell the client who is speaking before any content arrives
+          controller.enqueue(
+            encoder.encode(`data: ${JSON.stringify({
+              speaker: {
+                participantId: characterParticipant.id,
+                characterId: character.id,
+                name: character.name,
+              },
+            })}\n\n`)
+          )
+
           const llmRequestDetails = {
             provider: connectionProfile.provider,
             model: connectionProfile.modelName,
@@ -499,6 +811,7 @@ export async function POST(
                 responseReserve: builtContext.budget.responseReserve,
               },
               memoriesIncluded: builtContext.memoriesIncluded,
+              worldInfoEntriesIncluded: builtContext.worldInfoEntriesIncluded,
               messagesIncluded: builtContext.messagesIncluded,
               messagesTruncated: builtContext.messagesTruncated,
               includedSummary: builtContext.includedSummary,
@@ -506,6 +819,7 @@ export async function POST(
               debugMemories: builtContext.debugMemories,
               debugSummary: builtContext.debugSummary,
               debugSystemPrompt: builtContext.debugSystemPrompt,
+              debugWorldInfo: builtContext.debugWorldInfo,
             },
           }
           controller.enqueue(
@@ -538,10 +852,13 @@ export async function POST(
             },
             decryptedKey
           )) {
-            if (chunk.content) {
-              fullResponse += chunk.content
+            const chunkContent = chunk.content
+              ? await applyStreamChunkHook(chunk.content, id, character.id)
+              : null
+            if (chunkContent) {
+              fullResponse += chunkContent
               controller.enqueue(
-                encoder.encode(`data: ${JSON.stringify({ content: chunk.content })}\n\n`)
+                encoder.encode(`data: ${JSON.stringify({ content: chunkContent })}\n\n`)
               )
             }
 
@@ -558,19 +875,21 @@ export async function POST(
             }
           }
 
-          // Detect and execute tool calls, then continue conversation if needed
-          let toolMessages: Array<{ toolName: string; success: boolean; content: string; arguments?: Record<string, unknown>; metadata?: { provider?: string; model?: string } }> = []
+          // Detect and execute tool calls, feeding the results back to the model until it
+          // answers without calling tools or the profile's round limit is reached
+          let toolMessages: Array<{ toolName: string; success: boolean; content: string; arguments?: Record<string, unknown>; metadata?: ToolResult['metadata'] }> = []
           let generatedImagePaths: Array<{ id: string; filename: string; filepath: string; mimeType: string; size: number; width?: number; height?: number; sha256?: string }> = []
 
           // Track conversation messages for tool call continuation
           let currentMessages = [...messages]
           let currentResponse = fullResponse
           let currentRawResponse = rawResponse
-          const MAX_TOOL_ITERATIONS = 5 // Prevent infinite loops
+          const maxToolIterations = connectionProfile.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS
           let toolIterations = 0
+          let firstToolMessageId: string | null = null
 
           // Tool call loop - continue until LLM gives a text response or max iterations
-          while (currentRawResponse && toolIterations < MAX_TOOL_ITERATIONS) {
+          while (currentRawResponse && toolIterations < maxToolIterations) {
             const toolCalls = detectToolCalls(currentRawResponse, connectionProfile.provider)
 
             if (toolCalls.length === 0) {
@@ -585,10 +904,14 @@ export async function POST(
               tools: toolCalls.map(tc => tc.name),
             })
 
-            const results = await processToolResults(toolCalls, toolContext, controller, encoder)
+            const results = await processToolResults(toolCalls, toolContext, toolPolicies, controller, encoder, toolIterations, maxToolIterations)
             toolMessages = [...toolMessages, ...results.toolMessages]
             generatedImagePaths = [...generatedImagePaths, ...results.generatedImagePaths]
 
+            // Persist this round's TOOL messages now so they survive a later failure and keep their order
+            const roundSaveResult = await saveToolMessages(repos, id, user.id, results.toolMessages, results.generatedImagePaths, character.id, characterParticipant.id)
+            firstToolMessageId = firstToolMessageId ?? roundSaveResult.firstToolMessageId
+
             // Add assistant message with tool call to conversation (if there was any content)
             if (currentResponse && currentResponse.trim().length > 0) {
               currentMessages = [
@@ -611,10 +934,24 @@ export async function POST(
               ]
             }
 
+            // On the last allowed round, withhold the tools so the model has to answer with what it has
+            const lastRound = toolIterations >= maxToolIterations
+            if (lastRound) {
+              logger.warn('[Chat Messages] Max tool iterations reached', {
+                iterations: toolIterations,
+                chatId: id,
+              })
+              currentMessages = [
+                ...currentMessages,
+                { role: 'user' as const, content: '[Tool limit reached: no more tools are available this turn. Reply using the results above.]' }
+              ]
+            }
+
             // Continue the conversation with the tool results
             logger.debug('[Chat Messages] Continuing conversation after tool execution', {
               messageCount: currentMessages.length,
               iteration: toolIterations,
+              toolsAvailable: !lastRound,
             })
 
             // Reset for next iteration
@@ -629,16 +966,19 @@ export async function POST(
                 temperature: modelParams.temperature as number | undefined,
                 maxTokens: modelParams.maxTokens as number | undefined,
                 topP: modelParams.topP as number | undefined,
-                tools: tools.length > 0 ? tools : undefined,
+                tools: tools.length > 0 && !lastRound ? tools : undefined,
                 webSearchEnabled: useNativeWebSearch,
               },
               decryptedKey
             )) {
-              if (chunk.content) {
-                currentResponse += chunk.content
-                fullResponse += chunk.content
+              const chunkContent = chunk.content
+                ? await applyStreamChunkHook(chunk.content, id, character.id)
+                : null
+              if (chunkContent) {
+                currentResponse += chunkContent
+                fullResponse += chunkContent
                 controller.enqueue(
-                  encoder.encode(`data: ${JSON.stringify({ content: chunk.content })}\n\n`)
+                  encoder.encode(`data: ${JSON.stringify({ content: chunkContent })}\n\n`)
                 )
               }
 
@@ -657,13 +997,6 @@ export async function POST(
             }
           }
 
-          if (toolIterations >= MAX_TOOL_ITERATIONS) {
-            logger.warn('[Chat Messages] Max tool iterations reached', {
-              iterations: toolIterations,
-              chatId: id,
-            })
-          }
-
           // Save assistant message only if there's actual content (not just a tool call)
           let assistantMessageId: string | null = null
           if (fullResponse && fullResponse.trim().length > 0) {
@@ -681,14 +1014,17 @@ export async function POST(
               tokenCount: usage?.totalTokens || null,
               rawResponse: (rawResponse as Record<string, unknown>) || null,
               attachments: assistantAttachments,
+              participantId: characterParticipant.id,
             }
             await repos.chats.addMessage(id, assistantMessage)
 
-            // Save tool messages if tools were executed (this also links images to character)
-            const toolSaveResult = toolMessages.length > 0
-              ? await saveToolMessages(repos, id, user.id, toolMessages, generatedImagePaths, character.id)
-              : null
-            const firstToolMessageId = toolSaveResult?.firstToolMessageId ?? null
+            // Notify plugins without holding up the response; handler errors are isolated by the bus
+            void runHook(HOOK_POINTS.AFTER_MESSAGE_SAVE, {
+              chatId: id,
+              userId: user.id,
+              characterId: character.id,
+              message: assistantMessage,
+            })
 
             // Link images to assistant message as well
             if (assistantAttachments.length > 0) {
@@ -726,14 +1062,16 @@ export async function POST(
                 processMessageForMemoryAsync({
                   characterId: character.id,
                   characterName: character.name,
+                  personaId: persona?.id ?? null,
                   chatId: id,
-                  userMessage: content,
+                  userMessage: hasUserMessage ? hookedContent : (lastUserMessage?.content ?? ''),
                   assistantMessage: fullResponse,
                   sourceMessageId: assistantMessageId,
                   userId: user.id,
                   connectionProfile,
                   cheapLLMSettings: chatSettings.cheapLLMSettings,
                   availableProfiles,
+                  visibility: character.autoMemoryVisibility ?? undefined,
                 }, async (result) => {
                   // Store memory debug logs in the assistant message if available
                   if (result.debugLogs && result.debugLogs.length > 0 && assistantMessageId) {
@@ -761,8 +1099,7 @@ export async function POST(
             }
           } else if (toolMessages.length > 0) {
             // Even if there's no text response, send done event if tools were executed
-            const toolSaveResult = await saveToolMessages(repos, id, user.id, toolMessages, generatedImagePaths, character.id)
-            const firstToolMessageId = toolSaveResult.firstToolMessageId
+            // (their TOOL messages were already saved round by round)
             await repos.chats.update(id, { updatedAt: new Date().toISOString() })
 
             controller.enqueue(
@@ -811,6 +1148,10 @@ export async function POST(
           controller.close()
         }
       },
+      cancel() {
+        // The client went away; don't leave tool calls waiting for an answer that can't come
+        cancelPendingToolApprovals(id)
+      },
     })
 
     return new NextResponse(stream, {
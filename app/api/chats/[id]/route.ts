@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
 import { z } from 'zod'
+import { ToolPolicyMapSchema, TurnStrategyEnum } from '@/lib/schemas/types'
 import type { ChatParticipantBase, ChatMetadata, FileEntry } from '@/lib/schemas/types'
 import { logger } from '@/lib/logger'
 
@@ -27,6 +28,9 @@ function getFilePath(file: FileEntry): string {
 const updateChatSchema = z.object({
   title: z.string().optional(),
   contextSummary: z.string().optional(),
+  turnStrategy: TurnStrategyEnum.optional(),
+  // Per-chat tool approval overrides; replaces the chat's whole map
+  toolPolicies: ToolPolicyMapSchema.optional(),
 })
 
 // Validation schema for participant updates
@@ -358,16 +362,30 @@ export async function GET(
             createdAt: event.createdAt,
             swipeGroupId: event.swipeGroupId || null,
             swipeIndex: event.swipeIndex || null,
+            activeSwipe: event.activeSwipe || undefined,
+            participantId: event.participantId || null,
             attachments,
             debugMemoryLogs: event.debugMemoryLogs || undefined,
           }
         })
     ).then(results => results.filter(Boolean))
 
+    // Link back to the chat this one was forked from, if it still exists
+    const parentChatMetadata = chatMetadata.parentChatId
+      ? await repos.chats.findById(chatMetadata.parentChatId)
+      : null
+    const parentChat = parentChatMetadata && parentChatMetadata.userId === user.id
+      ? { id: parentChatMetadata.id, title: parentChatMetadata.title }
+      : null
+
     const chat = {
       id: chatMetadata.id,
       title: chatMetadata.title,
       contextSummary: chatMetadata.contextSummary,
+      turnStrategy: chatMetadata.turnStrategy || 'ROUND_ROBIN',
+      toolPolicies: chatMetadata.toolPolicies || {},
+      parentChat,
+      forkedFromMessageId: chatMetadata.forkedFromMessageId || null,
       updatedAt: chatMetadata.updatedAt,
       createdAt: chatMetadata.createdAt,
       participants: enrichedParticipants,
@@ -0,0 +1,60 @@
+// Chat Tool Approvals API: Answer a pending tool approval request
+// POST /api/chats/:id/tool-approvals/:approvalId - Allow or deny a tool call the stream is waiting on
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { resolveToolApproval } from '@/lib/chat/tool-approval'
+import { logger } from '@/lib/logger'
+import { z } from 'zod'
+
+const approvalDecisionSchema = z.object({
+  approved: z.boolean(),
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; approvalId: string }> }
+) {
+  try {
+    const { id, approvalId } = await params
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const user = await repos.users.findByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const chat = await repos.chats.findById(id)
+    if (!chat || chat.userId !== user.id) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
+    }
+
+    const { approved } = approvalDecisionSchema.parse(await request.json())
+
+    // Unknown, expired and already-answered approvals all look the same to the caller
+    if (!resolveToolApproval(approvalId, user.id, id, approved)) {
+      return NextResponse.json({ error: 'Approval request not found or already answered' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, approved })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error answering tool approval', { context: 'POST /api/chats/:id/tool-approvals/:approvalId' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to answer tool approval' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+// Chat Archive Import API
+// POST /api/chats/import/archive - Import a Quilltap chat archive as a new chat
+//   Accepts multipart/form-data with a `file` and an optional `connectionProfileId`
+//   for character participants whose profile isn't found
+//   A SillyTavern group chat zip (as exported for group chats) is imported too;
+//   it needs the `connectionProfileId`, and its speakers are matched by name
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { ChatArchiveError, importChatArchive, readChatArchive } from '@/lib/chat/chat-archive'
+import { importSTChatForUser, readSTGroupChatZip, STChatImportError } from '@/lib/sillytavern/chat-import'
+import { logger } from '@/lib/logger'
+
+// POST /api/chats/import/archive - Import an archive
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!req.headers.get('content-type')?.includes('multipart/form-data')) {
+      return NextResponse.json({ error: 'Upload the chat archive as a file' }, { status: 400 })
+    }
+
+    const formData = await req.formData()
+    const file = formData.get('file') as File | null
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const connectionProfileId = (formData.get('connectionProfileId') as string | null) || null
+    if (connectionProfileId) {
+      const repos = getRepositories()
+      const profile = await repos.connections.findById(connectionProfileId)
+      if (!profile || profile.userId !== session.user.id) {
+        return NextResponse.json({ error: 'Connection profile not found' }, { status: 404 })
+      }
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+
+    // A group chat exported in SillyTavern format is a zip too
+    const groupChats = await readSTGroupChatZip(buffer)
+    if (groupChats) {
+      if (!connectionProfileId) {
+        return NextResponse.json({ error: 'A connection profile is required to import a SillyTavern group chat' }, { status: 400 })
+      }
+
+      const chats = []
+      const stubCharacterIds: string[] = []
+      for (const { chat: stChat, group } of groupChats) {
+        const result = await importSTChatForUser(session.user.id, stChat, { connectionProfileId, group })
+        chats.push(result.chat)
+        stubCharacterIds.push(...result.stubCharacterIds)
+      }
+
+      return NextResponse.json({ chat: chats[0], chats, stubCharacterIds }, { status: 201 })
+    }
+
+    const archive = readChatArchive(buffer)
+    const result = await importChatArchive(session.user.id, archive, { connectionProfileId })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof ChatArchiveError || error instanceof STChatImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Error importing chat archive', { context: 'POST /api/chats/import/archive' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to import chat archive' },
+      { status: 500 }
+    )
+  }
+}
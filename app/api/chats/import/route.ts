@@ -1,14 +1,15 @@
 /**
  * Chat Import API
- * POST /api/chats/import - Import a SillyTavern chat
+ * POST /api/chats/import - Import a SillyTavern chat, one-on-one or group
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
-import { importSTChat } from '@/lib/sillytavern/chat'
+import { STGroupSchema } from '@/lib/sillytavern/chat'
+import { importSTChatForUser, STChatImportError } from '@/lib/sillytavern/chat-import'
 import { logger } from '@/lib/logger'
-import type { ChatParticipantBase, FileEntry } from '@/lib/schemas/types'
+import type { FileEntry } from '@/lib/schemas/types'
 
 /**
  * Get the filepath for a file based on storage type
@@ -32,29 +33,39 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json()
-    const { chatData, characterId, connectionProfileId, personaId, title } =
+    const { chatData, characterId, connectionProfileId, personaId, title, groupData } =
       body
 
-    if (!chatData || !characterId || !connectionProfileId) {
+    if (!chatData || !connectionProfileId) {
       return NextResponse.json(
         {
-          error:
-            'Chat data, character ID, and connection profile ID are required',
+          error: 'Chat data and connection profile ID are required',
         },
         { status: 400 }
       )
     }
 
+    // The group definition of a group chat, from the groups folder
+    const group = groupData ? STGroupSchema.safeParse(groupData) : null
+    if (group && !group.success) {
+      return NextResponse.json(
+        { error: 'Invalid group data', details: group.error.errors },
+        { status: 400 }
+      )
+    }
+
     const repos = getRepositories()
 
-    // Verify character belongs to user
-    const character = await repos.characters.findById(characterId)
+    // Verify character belongs to user; chats imported with their group match speakers by name instead
+    if (characterId) {
+      const character = await repos.characters.findById(characterId)
 
-    if (!character || character.userId !== session.user.id) {
-      return NextResponse.json(
-        { error: 'Character not found' },
-        { status: 404 }
-      )
+      if (!character || character.userId !== session.user.id) {
+        return NextResponse.json(
+          { error: 'Character not found' },
+          { status: 404 }
+        )
+      }
     }
 
     // Verify connection profile belongs to user
@@ -80,94 +91,17 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Import chat from SillyTavern format
-    const importedData = importSTChat(chatData, characterId, session.user.id)
-
-    // Collect tags from character, persona, and connection profile
-    const tagIds = new Set<string>()
-
-    // Get tags from character
-    if (character.tags) {
-      for (const tagId of character.tags) {
-        tagIds.add(tagId)
-      }
-    }
-
-    // Get tags from persona if specified
-    if (persona?.tags) {
-      for (const tagId of persona.tags) {
-        tagIds.add(tagId)
-      }
-    }
-
-    // Get tags from connection profile
-    if (profile.tags) {
-      for (const tagId of profile.tags) {
-        tagIds.add(tagId)
-      }
-    }
-
-    // Build participants array
-    const now = new Date().toISOString()
-    const participants: ChatParticipantBase[] = []
-
-    // Add character participant
-    participants.push({
-      id: crypto.randomUUID(),
-      type: 'CHARACTER',
-      characterId,
-      personaId: null,
+    const { chat, stubCharacterIds } = await importSTChatForUser(session.user.id, chatData, {
       connectionProfileId,
-      imageProfileId: null,
-      systemPromptOverride: null,
-      displayOrder: 0,
-      isActive: true,
-      createdAt: now,
-      updatedAt: now,
+      characterId: characterId || null,
+      personaId: personaId || null,
+      title: title || null,
+      group: group?.success ? group.data : null,
     })
 
-    // Add persona participant if specified
-    if (personaId) {
-      participants.push({
-        id: crypto.randomUUID(),
-        type: 'PERSONA',
-        characterId: null,
-        personaId,
-        connectionProfileId: null,
-        imageProfileId: null,
-        systemPromptOverride: null,
-        displayOrder: 1,
-        isActive: true,
-        createdAt: now,
-        updatedAt: now,
-      })
-    }
-
-    // Create chat in database
-    const chat = await repos.chats.create({
-      userId: session.user.id,
-      participants,
-      title: title || `Chat with ${character.name}`,
-      sillyTavernMetadata: importedData.metadata || null,
-      tags: Array.from(tagIds),
-      messageCount: importedData.messages.length,
-      lastRenameCheckInterchange: 0,
-    })
-
-    // Add messages to the chat
-    for (const msg of importedData.messages) {
-      await repos.chats.addMessage(chat.id, {
-        id: crypto.randomUUID(),
-        type: 'message',
-        role: msg.role,
-        content: msg.content,
-        swipeGroupId: msg.swipeGroupId || null,
-        swipeIndex: msg.swipeIndex || null,
-        rawResponse: msg.rawResponse || null,
-        attachments: [],
-        createdAt: msg.createdAt.toISOString(),
-      })
-    }
+    // The first character, for backwards compatibility
+    const firstCharacterId = chat.participants.find(p => p.type === 'CHARACTER')?.characterId
+    const character = firstCharacterId ? await repos.characters.findById(firstCharacterId) : null
 
     // Get the complete chat data for response
     const messages = await repos.chats.getMessages(chat.id)
@@ -175,7 +109,7 @@ export async function POST(req: NextRequest) {
 
     // Get character's default image from repository
     let defaultImage = null
-    if (character.defaultImageId) {
+    if (character?.defaultImageId) {
       const fileEntry = await repos.files.findById(character.defaultImageId)
       if (fileEntry) {
         defaultImage = {
@@ -219,10 +153,12 @@ export async function POST(req: NextRequest) {
         rawResponse: msg.rawResponse || null,
       })),
       // Include character and persona for backwards compatibility
-      character: {
+      character: character ? {
         ...character,
         defaultImage,
-      },
+      } : null,
+      // Characters created for group chat speakers that matched none of the user's
+      stubCharacterIds,
       persona: persona,
       connectionProfile: profile,
       tags: chatTagsData,
@@ -233,6 +169,10 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json(completeChat, { status: 201 })
   } catch (error) {
+    if (error instanceof STChatImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error)
     logger.error('Error importing chat', { context: 'POST /api/chats/import', errorMessage }, error instanceof Error ? error : undefined)
     return NextResponse.json(
@@ -7,7 +7,7 @@ import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
 import { buildChatContext, type ChatContext } from '@/lib/chat/initialize'
 import { decryptApiKey } from '@/lib/encryption'
-import { generateGreetingMessage } from '@/lib/chat/initial-greeting'
+import { buildGreetingMessages, generateGreetingMessage, selectGreetingIndex } from '@/lib/chat/initial-greeting'
 import { logger } from '@/lib/logger'
 import { z } from 'zod'
 import type { ChatEvent, ChatParticipantBase, FileEntry } from '@/lib/schemas/types'
@@ -50,6 +50,8 @@ const createChatSchema = z.object({
   participants: z.array(createParticipantSchema).min(1, 'At least one participant is required'),
   title: z.string().optional(),
   scenario: z.string().optional(),
+  // Which of the character's greetings to open with (index into its greeting list, or 'random')
+  greeting: z.union([z.number().int().min(0), z.literal('random')]).optional(),
 })
 
 // Helper to get enriched character for list view
@@ -161,6 +163,7 @@ export async function GET(req: NextRequest) {
           id: chat.id,
           title: chat.title,
           contextSummary: chat.contextSummary,
+          parentChatId: chat.parentChatId || null,
           createdAt: chat.createdAt,
           updatedAt: chat.updatedAt,
           participants,
@@ -309,6 +312,7 @@ async function buildAllParticipants(
 async function createInitialMessages(
   chatId: string,
   context: ChatContext,
+  greetingIndex: number,
   participants: ChatParticipantBase[],
   userId: string,
   repos: Repos
@@ -323,12 +327,13 @@ async function createInitialMessages(
   }
   await repos.chats.addMessage(chatId, systemMessage)
 
-  let firstMessageContent = (context.firstMessage || '').trim()
-
-  if (!firstMessageContent) {
-    firstMessageContent = await autoGenerateFirstMessage(context, participants, userId, repos)
+  if (context.greetings.length > 0) {
+    await repos.chats.addMessages(chatId, buildGreetingMessages(context.greetings, greetingIndex))
+    return
   }
 
+  let firstMessageContent = await autoGenerateFirstMessage(context, participants, userId, repos)
+
   if (!firstMessageContent) {
     firstMessageContent = defaultGreeting(context.character.name)
   }
@@ -464,6 +469,13 @@ export async function POST(req: NextRequest) {
       validatedData.scenario
     )
 
+    const greetingIndex = context.greetings.length > 0
+      ? selectGreetingIndex(context.greetings.length, validatedData.greeting)
+      : 0
+    if (greetingIndex === null) {
+      return NextResponse.json({ error: 'Greeting not found' }, { status: 400 })
+    }
+
     const now = new Date().toISOString()
     const participantsWithTimestamps: ChatParticipantBase[] = buildResult.participants.map(p => ({
       ...p,
@@ -481,11 +493,13 @@ export async function POST(req: NextRequest) {
       messageCount: 0,
       lastMessageAt: null,
       lastRenameCheckInterchange: 0,
+      turnStrategy: 'ROUND_ROBIN',
     })
 
     await createInitialMessages(
       chat.id,
       context,
+      greetingIndex,
       participantsWithTimestamps,
       user.id,
       repos
@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
 import { logger } from '@/lib/logger'
+import { getEffectiveEmbeddingProfile } from '@/lib/embedding/embedding-service'
+import { scheduleEmbeddingMigrationsAsync } from '@/lib/memory/embedding-migration'
 
 /**
  * GET /api/embedding-profiles/[id]
@@ -81,7 +83,7 @@ export async function GET(
  *
  * Body: {
  *   name?: string,
- *   provider?: 'OPENAI' | 'OLLAMA',
+ *   provider?: string, // 'OPENAI' | 'OLLAMA' | 'LOCAL' or an embedding-capable provider plugin
  *   apiKeyId?: string | null,
  *   baseUrl?: string | null,
  *   modelName?: string,
@@ -118,6 +120,9 @@ export async function PUT(
     const body = await req.json()
     const { name, provider, apiKeyId, baseUrl, modelName, dimensions, isDefault } = body
 
+    // Profile memories are embedded with before this change
+    const previousProfile = await getEffectiveEmbeddingProfile(session.user.id)
+
     // Build update data
     const updateData: Record<string, any> = {}
 
@@ -224,6 +229,9 @@ export async function PUT(
       )
     }
 
+    // Re-embed memories if the model they are embedded with changed
+    scheduleEmbeddingMigrationsAsync(session.user.id, previousProfile)
+
     // Enrich with API key info
     let apiKey = null
     if (updatedProfile.apiKeyId) {
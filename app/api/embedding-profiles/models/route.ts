@@ -15,6 +15,7 @@ import {
   getEmbeddingModels,
   getAllEmbeddingModels,
 } from '@/lib/plugins/provider-validation'
+import { LOCAL_EMBEDDING_MODELS } from '@/lib/embedding/local-embedding'
 
 /**
  * GET /api/embedding-profiles/models
@@ -71,6 +72,14 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url)
     const provider = searchParams.get('provider')?.toUpperCase()
 
+    // Local models run in-process and don't come from a provider plugin
+    if (provider === 'LOCAL') {
+      return NextResponse.json({
+        provider,
+        models: LOCAL_EMBEDDING_MODELS,
+      })
+    }
+
     if (provider) {
       // Get embedding providers from registry
       const embeddingProviders = getEmbeddingProviders()
@@ -107,7 +116,7 @@ export async function GET(req: NextRequest) {
       context: 'GET /api/embedding-profiles/models',
     })
 
-    return NextResponse.json(allModels)
+    return NextResponse.json({ ...allModels, LOCAL: LOCAL_EMBEDDING_MODELS })
   } catch (error) {
     logger.error('Failed to fetch embedding models', { context: 'GET /api/embedding-profiles/models' }, error instanceof Error ? error : undefined)
     return NextResponse.json(
@@ -5,13 +5,13 @@
  * POST   /api/embedding-profiles   - Create a new embedding profile
  *
  * Embedding profiles are used for text embedding connections.
- * Supported providers: OpenAI, Ollama
+ * Supported providers: OpenAI, Ollama, Local (in-process CPU), plus any
+ * provider plugin that contributes an embedding provider
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
-import type { EmbeddingProfileProvider } from '@/lib/schemas/types'
 import { logger } from '@/lib/logger'
 
 /**
@@ -90,7 +90,7 @@ export async function GET(req: NextRequest) {
  *
  * Body: {
  *   name: string,
- *   provider: 'OPENAI' | 'OLLAMA',
+ *   provider: string, // 'OPENAI' | 'OLLAMA' | 'LOCAL' or an embedding-capable provider plugin
  *   apiKeyId?: string,
  *   baseUrl?: string,
  *   modelName: string,
@@ -183,7 +183,7 @@ export async function POST(req: NextRequest) {
     const profile = await repos.embeddingProfiles.create({
       userId: session.user.id,
       name: name.trim(),
-      provider: provider as EmbeddingProfileProvider,
+      provider: provider.trim(),
       apiKeyId: apiKeyId || null,
       baseUrl: baseUrl || null,
       modelName: modelName.trim(),
@@ -0,0 +1,52 @@
+/**
+ * Lorebook Export API
+ * GET /api/lorebooks/:id/export - Export a lorebook in SillyTavern format
+ * Supports World Info files (default) and V2 character_book JSON (?format=character_book)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { exportSTCharacterBook, exportSTWorldInfo } from '@/lib/sillytavern/world-info'
+import { logger } from '@/lib/logger'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const repos = getRepositories()
+    const { searchParams } = new URL(req.url)
+    const format = searchParams.get('format') || 'world_info' // world_info or character_book
+
+    const lorebook = await repos.lorebooks.findById(id)
+
+    if (!lorebook || lorebook.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Lorebook not found' }, { status: 404 })
+    }
+
+    const exported = format === 'character_book'
+      ? exportSTCharacterBook(lorebook)
+      : exportSTWorldInfo(lorebook)
+
+    return new NextResponse(JSON.stringify(exported, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${lorebook.name}.json"`,
+      },
+    })
+  } catch (error) {
+    logger.error('Error exporting lorebook', { context: 'GET /api/lorebooks/[id]/export' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to export lorebook' },
+      { status: 500 }
+    )
+  }
+}
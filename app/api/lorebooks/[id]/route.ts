@@ -0,0 +1,136 @@
+/**
+ * Individual Lorebook API
+ * GET /api/lorebooks/:id - Get a specific lorebook
+ * PUT /api/lorebooks/:id - Update a lorebook (settings, entries, attachments)
+ * DELETE /api/lorebooks/:id - Delete a lorebook
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { logger } from '@/lib/logger'
+import { LorebookEntrySchema } from '@/lib/schemas/types'
+
+const updateLorebookSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  entries: z.array(LorebookEntrySchema.extend({ id: z.string().uuid().optional() })).optional(),
+  scanDepth: z.number().int().min(0).max(100).optional(),
+  tokenBudget: z.number().int().min(0).optional(),
+  enabled: z.boolean().optional(),
+  characterIds: z.array(z.string().uuid()).optional(),
+  personaIds: z.array(z.string().uuid()).optional(),
+  chatIds: z.array(z.string().uuid()).optional(),
+})
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const repos = getRepositories()
+
+    const lorebook = await repos.lorebooks.findById(id)
+
+    if (!lorebook || lorebook.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Lorebook not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ lorebook })
+  } catch (error) {
+    logger.error('Error fetching lorebook', { context: 'GET /api/lorebooks/:id' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to fetch lorebook' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const repos = getRepositories()
+
+    // Verify lorebook belongs to user
+    const existing = await repos.lorebooks.findById(id)
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Lorebook not found' }, { status: 404 })
+    }
+
+    const body = await req.json()
+    const { entries, ...data } = updateLorebookSchema.parse(body)
+
+    const lorebook = await repos.lorebooks.update(id, {
+      ...data,
+      ...(entries && {
+        entries: entries.map(entry => ({ ...entry, id: entry.id || crypto.randomUUID() })),
+      }),
+    })
+
+    return NextResponse.json({ lorebook })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error updating lorebook', { context: 'PUT /api/lorebooks/:id' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to update lorebook' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const repos = getRepositories()
+
+    // Verify lorebook belongs to user
+    const existing = await repos.lorebooks.findById(id)
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Lorebook not found' }, { status: 404 })
+    }
+
+    await repos.lorebooks.delete(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error deleting lorebook', { context: 'DELETE /api/lorebooks/:id' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to delete lorebook' },
+      { status: 500 }
+    )
+  }
+}
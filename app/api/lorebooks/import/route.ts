@@ -0,0 +1,95 @@
+/**
+ * Lorebook Import API
+ * POST /api/lorebooks/import - Import a SillyTavern World Info file (or a card's character_book)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { logger } from '@/lib/logger'
+import { getSTCharacterBook } from '@/lib/sillytavern/character'
+import {
+  importSTCharacterBook,
+  importSTWorldInfo,
+  isSTCharacterBook,
+  isSTWorldInfoFile,
+} from '@/lib/sillytavern/world-info'
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const contentType = req.headers.get('content-type')
+
+    let worldInfoData = null
+    let fallbackName: string | undefined
+
+    if (contentType?.includes('multipart/form-data')) {
+      const formData = await req.formData()
+      const file = formData.get('file') as File
+
+      if (!file) {
+        return NextResponse.json(
+          { error: 'No file provided' },
+          { status: 400 }
+        )
+      }
+
+      try {
+        worldInfoData = JSON.parse(Buffer.from(await file.arrayBuffer()).toString('utf-8'))
+      } catch {
+        return NextResponse.json(
+          { error: 'File is not valid JSON' },
+          { status: 400 }
+        )
+      }
+      fallbackName = file.name.replace(/\.json$/i, '')
+    } else if (contentType?.includes('application/json')) {
+      const body = await req.json()
+      worldInfoData = body.worldInfoData || body
+      fallbackName = body.name
+    } else {
+      return NextResponse.json(
+        { error: 'Unsupported content type' },
+        { status: 400 }
+      )
+    }
+
+    // A whole character card can be given too; its character_book is used
+    const cardBook = worldInfoData?.character_book || worldInfoData?.data?.character_book
+      ? getSTCharacterBook(worldInfoData)
+      : null
+
+    let importedData
+    if (cardBook) {
+      importedData = importSTCharacterBook(cardBook, fallbackName)
+    } else if (isSTWorldInfoFile(worldInfoData)) {
+      importedData = importSTWorldInfo(worldInfoData, fallbackName)
+    } else if (isSTCharacterBook(worldInfoData)) {
+      importedData = importSTCharacterBook(worldInfoData, fallbackName)
+    } else {
+      return NextResponse.json(
+        { error: 'Not a SillyTavern World Info file or character book' },
+        { status: 400 }
+      )
+    }
+
+    const lorebook = await repos.lorebooks.create({
+      userId: session.user.id,
+      ...importedData,
+    })
+
+    return NextResponse.json({ lorebook }, { status: 201 })
+  } catch (error) {
+    logger.error('Error importing lorebook', { context: 'POST /api/lorebooks/import' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to import lorebook' },
+      { status: 500 }
+    )
+  }
+}
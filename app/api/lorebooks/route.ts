@@ -0,0 +1,95 @@
+/**
+ * Lorebooks API
+ * GET /api/lorebooks - List all lorebooks for authenticated user
+ * POST /api/lorebooks - Create a new lorebook
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { logger } from '@/lib/logger'
+import { LorebookEntrySchema } from '@/lib/schemas/types'
+
+const entryInputSchema = LorebookEntrySchema.extend({
+  id: z.string().uuid().optional(),
+})
+
+const createLorebookSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().nullable().optional(),
+  entries: z.array(entryInputSchema).default([]),
+  scanDepth: z.number().int().min(0).max(100).default(4),
+  tokenBudget: z.number().int().min(0).default(1024),
+  enabled: z.boolean().default(true),
+  characterIds: z.array(z.string().uuid()).default([]),
+  personaIds: z.array(z.string().uuid()).default([]),
+  chatIds: z.array(z.string().uuid()).default([]),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const lorebooks = await repos.lorebooks.findByUserId(session.user.id)
+
+    lorebooks.sort((a, b) => a.name.localeCompare(b.name))
+
+    return NextResponse.json({ lorebooks })
+  } catch (error) {
+    logger.error('Error fetching lorebooks', { context: 'GET /api/lorebooks' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to fetch lorebooks' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const body = await req.json()
+    const data = createLorebookSchema.parse(body)
+
+    const lorebook = await repos.lorebooks.create({
+      userId: session.user.id,
+      name: data.name,
+      description: data.description ?? null,
+      entries: data.entries.map(entry => ({ ...entry, id: entry.id || crypto.randomUUID() })),
+      scanDepth: data.scanDepth,
+      tokenBudget: data.tokenBudget,
+      enabled: data.enabled,
+      characterIds: data.characterIds,
+      personaIds: data.personaIds,
+      chatIds: data.chatIds,
+      tags: [],
+      extensions: null,
+    })
+
+    return NextResponse.json({ lorebook }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error creating lorebook', { context: 'POST /api/lorebooks' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to create lorebook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Individual MCP Server API
+ * GET /api/mcp-servers/:id - Get a specific MCP server
+ * PUT /api/mcp-servers/:id - Update an MCP server
+ * DELETE /api/mcp-servers/:id - Delete an MCP server
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { logger } from '@/lib/logger'
+import { McpTransportEnum } from '@/lib/schemas/types'
+import { checkMcpServerPolicy, closeMcpConnection } from '@/lib/mcp'
+
+const updateMcpServerSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().nullable().optional(),
+  transport: McpTransportEnum.optional(),
+  command: z.string().trim().min(1).nullable().optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  url: z.string().url().nullable().optional(),
+  headers: z.record(z.string()).optional(),
+  enabled: z.boolean().optional(),
+})
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const repos = getRepositories()
+
+    const server = await repos.mcpServers.findById(id)
+
+    if (!server || server.userId !== session.user.id) {
+      return NextResponse.json({ error: 'MCP server not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ server })
+  } catch (error) {
+    logger.error('Error fetching MCP server', { context: 'GET /api/mcp-servers/:id' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to fetch MCP server' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const repos = getRepositories()
+
+    // Verify server belongs to user
+    const existing = await repos.mcpServers.findById(id)
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'MCP server not found' }, { status: 404 })
+    }
+
+    const body = await req.json()
+    const data = updateMcpServerSchema.parse(body)
+
+    if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      const others = await repos.mcpServers.findByUserId(session.user.id)
+      if (others.some(server => server.id !== id && server.name.toLowerCase() === data.name!.toLowerCase())) {
+        return NextResponse.json(
+          { error: 'An MCP server with this name already exists' },
+          { status: 409 }
+        )
+      }
+    }
+
+    const merged = { ...existing, ...data }
+    if (merged.transport === 'stdio' && !merged.command) {
+      return NextResponse.json({ error: 'Command is required for stdio servers' }, { status: 400 })
+    }
+    if (merged.transport === 'sse' && !merged.url) {
+      return NextResponse.json({ error: 'URL is required for SSE servers' }, { status: 400 })
+    }
+
+    const denied = await checkMcpServerPolicy(merged)
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status })
+    }
+
+    const server = await repos.mcpServers.update(id, data)
+
+    // Reconnect with the new configuration on next use
+    closeMcpConnection(id)
+
+    return NextResponse.json({ server })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error updating MCP server', { context: 'PUT /api/mcp-servers/:id' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to update MCP server' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const repos = getRepositories()
+
+    // Verify server belongs to user
+    const existing = await repos.mcpServers.findById(id)
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'MCP server not found' }, { status: 404 })
+    }
+
+    closeMcpConnection(id)
+    await repos.mcpServers.delete(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error deleting MCP server', { context: 'DELETE /api/mcp-servers/:id' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to delete MCP server' },
+      { status: 500 }
+    )
+  }
+}
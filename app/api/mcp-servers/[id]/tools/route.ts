@@ -0,0 +1,66 @@
+/**
+ * MCP Server Tools API
+ * GET /api/mcp-servers/:id/tools - Connect to the server and list its tools
+ *
+ * Used by the settings tab to test a server. Pass ?refresh=true to bypass
+ * the cached tool list.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { logger } from '@/lib/logger'
+import { buildMcpToolName, listMcpServerTools } from '@/lib/mcp'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const repos = getRepositories()
+
+    const server = await repos.mcpServers.findById(id)
+
+    if (!server || server.userId !== session.user.id) {
+      return NextResponse.json({ error: 'MCP server not found' }, { status: 404 })
+    }
+
+    const refresh = req.nextUrl.searchParams.get('refresh') === 'true'
+
+    try {
+      const tools = await listMcpServerTools(server, { refresh })
+
+      return NextResponse.json({
+        tools: tools.map(tool => ({
+          name: tool.name,
+          exposedName: buildMcpToolName(server.name, tool.name),
+          description: tool.description ?? null,
+          inputSchema: tool.inputSchema ?? null,
+        })),
+      })
+    } catch (error) {
+      logger.warn('MCP server connection failed', {
+        context: 'GET /api/mcp-servers/:id/tools',
+        serverId: id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to connect to MCP server' },
+        { status: 502 }
+      )
+    }
+  } catch (error) {
+    logger.error('Error listing MCP server tools', { context: 'GET /api/mcp-servers/:id/tools' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to list MCP server tools' },
+      { status: 500 }
+    )
+  }
+}
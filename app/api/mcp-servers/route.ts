@@ -0,0 +1,120 @@
+/**
+ * MCP Servers API
+ * GET /api/mcp-servers - List all MCP servers for authenticated user
+ * POST /api/mcp-servers - Register a new MCP server
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { logger } from '@/lib/logger'
+import { McpTransportEnum } from '@/lib/schemas/types'
+import { checkMcpServerPolicy } from '@/lib/mcp'
+
+const mcpServerInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().nullable().optional(),
+  transport: McpTransportEnum,
+  command: z.string().trim().min(1).nullable().optional(),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string()).default({}),
+  url: z.string().url().nullable().optional(),
+  headers: z.record(z.string()).default({}),
+  enabled: z.boolean().default(true),
+})
+
+/**
+ * Checks that the fields required by the chosen transport are present
+ */
+function refineMcpTransport(
+  data: { transport?: string; command?: string | null; url?: string | null },
+  ctx: z.RefinementCtx
+) {
+  if (data.transport === 'stdio' && !data.command) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['command'], message: 'Command is required for stdio servers' })
+  }
+  if (data.transport === 'sse' && !data.url) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: 'URL is required for SSE servers' })
+  }
+}
+
+const createMcpServerSchema = mcpServerInputSchema.superRefine(refineMcpTransport)
+
+export async function GET() {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const servers = await repos.mcpServers.findByUserId(session.user.id)
+
+    servers.sort((a, b) => a.name.localeCompare(b.name))
+
+    return NextResponse.json({ servers })
+  } catch (error) {
+    logger.error('Error fetching MCP servers', { context: 'GET /api/mcp-servers' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to fetch MCP servers' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const body = await req.json()
+    const data = createMcpServerSchema.parse(body)
+
+    const denied = await checkMcpServerPolicy(data)
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status })
+    }
+
+    const existing = await repos.mcpServers.findByUserId(session.user.id)
+    if (existing.some(server => server.name.toLowerCase() === data.name.toLowerCase())) {
+      return NextResponse.json(
+        { error: 'An MCP server with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const server = await repos.mcpServers.create({
+      userId: session.user.id,
+      name: data.name,
+      description: data.description ?? null,
+      transport: data.transport,
+      command: data.transport === 'stdio' ? data.command : null,
+      args: data.transport === 'stdio' ? data.args : [],
+      env: data.transport === 'stdio' ? data.env : {},
+      url: data.transport === 'sse' ? data.url : null,
+      headers: data.transport === 'sse' ? data.headers : {},
+      enabled: data.enabled,
+    })
+
+    return NextResponse.json({ server }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Error creating MCP server', { context: 'POST /api/mcp-servers' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to create MCP server' },
+      { status: 500 }
+    )
+  }
+}
@@ -10,6 +10,7 @@ import { getRepositories } from '@/lib/repositories/factory'
 import { createLLMProvider } from '@/lib/llm'
 import { decryptApiKey } from '@/lib/encryption'
 import { logger } from '@/lib/logger'
+import { filterActiveSwipes } from '@/lib/chat/swipes'
 import type { ChatEvent, MessageEvent } from '@/lib/schemas/types'
 
 export async function POST(
@@ -57,8 +58,11 @@ export async function POST(
       )
     }
 
-    // Get connection profile from first active character participant
+    // Get connection profile from the participant who wrote the message,
+    // falling back to the first active character participant
     const characterParticipant = foundChat.participants.find(
+      p => p.id === foundMessage?.participantId && p.connectionProfileId
+    ) || foundChat.participants.find(
       p => p.type === 'CHARACTER' && p.isActive && p.connectionProfileId
     )
     if (!characterParticipant?.connectionProfileId) {
@@ -83,6 +87,7 @@ export async function POST(
         const msg = allMessages[messageIndex] as MessageEvent
         msg.swipeGroupId = swipeGroupId
         msg.swipeIndex = 0
+        await repos.chats.updateMessage(foundChat.id, msg.id, { swipeGroupId, swipeIndex: 0 })
       }
     }
 
@@ -99,7 +104,7 @@ export async function POST(
 
     // Get all messages before this one for context
     const messageCreatedAt = new Date(foundMessage.createdAt).getTime()
-    const previousMessages = allMessages.filter(
+    const previousMessages = filterActiveSwipes(allMessages).filter(
       (m): m is MessageEvent =>
         m.type === 'message' && new Date(m.createdAt).getTime() < messageCreatedAt
     )
@@ -150,6 +155,7 @@ export async function POST(
       tokenCount: response.usage.totalTokens,
       rawResponse: response.raw,
       attachments: [],
+      participantId: foundMessage.participantId ?? characterParticipant.id,
       createdAt: foundMessage.createdAt, // Keep same timestamp as original
     }
 
@@ -195,6 +201,7 @@ export async function PUT(
 
     // Find the message across all chats
     const allChats = await repos.chats.findAll()
+    let foundChat = null
     let foundMessage: MessageEvent | null = null
     let allMessages: ChatEvent[] = []
 
@@ -204,13 +211,14 @@ export async function PUT(
         (m): m is MessageEvent => m.type === 'message' && m.id === id
       )
       if (message) {
+        foundChat = chat
         foundMessage = message
         allMessages = messages
         break
       }
     }
 
-    if (!foundMessage) {
+    if (!foundMessage || !foundChat) {
       return NextResponse.json({ error: 'Message not found' }, { status: 404 })
     }
 
@@ -226,7 +234,7 @@ export async function PUT(
       (m): m is MessageEvent =>
         m.type === 'message' &&
         m.swipeGroupId === foundMessage!.swipeGroupId &&
-        m.swipeIndex === swipeIndex
+        (m.swipeIndex ?? 0) === swipeIndex
     )
 
     if (!targetSwipe) {
@@ -236,8 +244,19 @@ export async function PUT(
       )
     }
 
-    // Return the target swipe (UI will handle switching)
-    return NextResponse.json(targetSwipe)
+    // Mark the target as the group's active swipe, so the chat reopens on it
+    // and the model sees it from now on
+    const group = allMessages.filter(
+      (m): m is MessageEvent => m.type === 'message' && m.swipeGroupId === targetSwipe.swipeGroupId
+    )
+    for (const swipe of group) {
+      const active = swipe.id === targetSwipe.id
+      if (!!swipe.activeSwipe !== active) {
+        await repos.chats.updateMessage(foundChat.id, swipe.id, { activeSwipe: active })
+      }
+    }
+
+    return NextResponse.json({ ...targetSwipe, activeSwipe: true })
   } catch (error) {
     logger.error('Error switching swipe', { context: 'PUT /api/messages/:id/swipe' }, error instanceof Error ? error : undefined)
     return NextResponse.json(
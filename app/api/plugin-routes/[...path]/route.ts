@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from '@/lib/auth/session';
 import { logger } from '@/lib/logger';
 import { findPluginRoute, type PluginRouteInfo } from '@/lib/plugins/route-loader';
+import { isPluginSandboxed } from '@/lib/plugins/permissions';
+import { loadPluginModule } from '@/lib/plugins/sandbox';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -103,7 +105,8 @@ async function checkAuthentication(
 
 /**
  * Dynamically imports the handler module from a plugin
- * Returns null if the import fails, logging the error
+ * Handlers from plugins that don't ship with Quilltap are loaded through the
+ * permission sandbox. Returns null if the import fails, logging the error
  */
 async function loadHandlerModule(
   routeMatch: PluginRouteInfo,
@@ -115,7 +118,9 @@ async function loadHandlerModule(
   });
 
   try {
-    const handlerModule = await import(routeMatch.handlerPath) as PluginRouteHandler;
+    const handlerModule = isPluginSandboxed(routeMatch.plugin)
+      ? loadPluginModule(routeMatch.plugin, routeMatch.handlerPath) as PluginRouteHandler
+      : await import(routeMatch.handlerPath) as PluginRouteHandler;
     logger.debug('Handler module loaded', {
       plugin: routeMatch.plugin.manifest.name,
       exports: Object.keys(handlerModule),
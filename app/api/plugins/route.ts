@@ -1,17 +1,29 @@
 import { NextResponse } from 'next/server'
 import { pluginRegistry } from '@/lib/plugins/registry'
+import { getPermissionViolations, isPluginSandboxed } from '@/lib/plugins/permissions'
 import { logger } from '@/lib/logger'
 
 /**
  * GET /api/plugins
- * Get all registered plugins
+ * Get all registered plugins with their declared permissions and any
+ * permission violations recorded since startup
  */
 export async function GET() {
   try {
     const state = pluginRegistry.exportState()
 
+    const plugins = state.plugins.map(plugin => {
+      const loaded = pluginRegistry.get(plugin.name)
+      return {
+        ...plugin,
+        permissions: loaded?.manifest.permissions ?? null,
+        sandboxed: loaded ? isPluginSandboxed(loaded) : false,
+        violations: getPermissionViolations(plugin.name),
+      }
+    })
+
     return NextResponse.json({
-      plugins: state.plugins,
+      plugins,
       stats: state.stats,
       errors: state.errors,
     })
@@ -11,6 +11,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from '@/lib/auth/session'
 import { getRepositories } from '@/lib/repositories/factory'
 import { logger } from '@/lib/logger'
+import { MAX_TOOL_ITERATIONS_LIMIT } from '@/lib/schemas/types'
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic'
@@ -112,7 +113,7 @@ export async function PUT(
     }
 
     const body = await req.json()
-    const { name, provider, apiKeyId, baseUrl, modelName, parameters, isDefault, isCheap, allowWebSearch } = body
+    const { name, provider, apiKeyId, baseUrl, modelName, parameters, isDefault, isCheap, allowWebSearch, maxToolIterations } = body
 
     // Build update data
     const updateData: any = {}
@@ -229,6 +230,16 @@ export async function PUT(
       updateData.allowWebSearch = allowWebSearch
     }
 
+    if (maxToolIterations !== undefined) {
+      if (!Number.isInteger(maxToolIterations) || maxToolIterations < 1 || maxToolIterations > MAX_TOOL_ITERATIONS_LIMIT) {
+        return NextResponse.json(
+          { error: `maxToolIterations must be an integer between 1 and ${MAX_TOOL_ITERATIONS_LIMIT}` },
+          { status: 400 }
+        )
+      }
+      updateData.maxToolIterations = maxToolIterations
+    }
+
     // Update the profile
     const updatedProfile = await repos.connections.update(id, updateData)
 
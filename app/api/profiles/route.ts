@@ -13,6 +13,7 @@ import { supportsImageGeneration } from '@/lib/llm/image-capable'
 import { logger } from '@/lib/logger'
 import { initializePlugins, isPluginSystemInitialized } from '@/lib/startup'
 import { requiresBaseUrl } from '@/lib/plugins/provider-validation'
+import { DEFAULT_MAX_TOOL_ITERATIONS, MAX_TOOL_ITERATIONS_LIMIT } from '@/lib/schemas/types'
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic'
@@ -183,6 +184,7 @@ export async function POST(req: NextRequest) {
       isDefault = false,
       isCheap = false,
       allowWebSearch = false,
+      maxToolIterations = DEFAULT_MAX_TOOL_ITERATIONS,
     } = body
 
     // Validation
@@ -207,6 +209,13 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    if (!Number.isInteger(maxToolIterations) || maxToolIterations < 1 || maxToolIterations > MAX_TOOL_ITERATIONS_LIMIT) {
+      return NextResponse.json(
+        { error: `maxToolIterations must be an integer between 1 and ${MAX_TOOL_ITERATIONS_LIMIT}` },
+        { status: 400 }
+      )
+    }
+
     const repos = getRepositories()
 
     // Ensure plugin system is initialized
@@ -293,6 +302,7 @@ export async function POST(req: NextRequest) {
       isDefault,
       isCheap,
       allowWebSearch,
+      maxToolIterations,
       tags: [],
     })
 
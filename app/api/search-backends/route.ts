@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getSearchBackendMetadata } from '@/lib/plugins/search-backend-registry'
+import { logger } from '@/lib/logger'
+
+/**
+ * GET /api/search-backends
+ * Get the web search backends registered by SEARCH_BACKEND plugins
+ * (the built-in SearxNG, Brave and Tavily backends are always available)
+ */
+export async function GET() {
+  try {
+    const backends = getSearchBackendMetadata()
+
+    logger.debug('Fetching search backends list', {
+      context: 'GET /api/search-backends',
+      backendCount: backends.length,
+    })
+
+    return NextResponse.json({ backends })
+  } catch (error) {
+    logger.error('Failed to get search backends', {
+      context: 'GET /api/search-backends',
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return NextResponse.json(
+      { error: 'Failed to retrieve search backends' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,119 @@
+// SillyTavern Data Directory Import API: A single import
+// GET /api/sillytavern/import/[id] - Preview, progress or final report of an import
+// POST /api/sillytavern/import/[id] - Start (or retry) the import with the choices made in the preview
+// DELETE /api/sillytavern/import/[id] - Cancel the import; items already imported are kept
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServerSession } from '@/lib/auth/session'
+import {
+  cancelSillyTavernImport,
+  getSillyTavernImport,
+  SillyTavernImportError,
+  startSillyTavernImport,
+} from '@/lib/sillytavern/bulk-import'
+import { logger } from '@/lib/logger'
+
+const startImportSchema = z.object({
+  connectionProfileId: z.string().uuid().nullable().optional(),
+  actions: z.record(z.string(), z.enum(['IMPORT', 'SKIP'])).optional(),
+})
+
+async function getOwnedImport(importId: string) {
+  const session = await getServerSession()
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify import exists and belongs to user
+  const job = await getSillyTavernImport(importId)
+  if (!job || job.userId !== session.user.id) {
+    return { error: NextResponse.json({ error: 'Import not found' }, { status: 404 }) }
+  }
+
+  return { job }
+}
+
+// GET /api/sillytavern/import/[id] - Get an import
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const owned = await getOwnedImport(id)
+    if (owned.error) {
+      return owned.error
+    }
+
+    return NextResponse.json({ import: owned.job })
+  } catch (error) {
+    logger.error('Error getting SillyTavern import', {}, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to get import' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/sillytavern/import/[id] - Start the import
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const owned = await getOwnedImport(id)
+    if (owned.error) {
+      return owned.error
+    }
+
+    const body = startImportSchema.parse(await req.json().catch(() => ({})))
+    const job = await startSillyTavernImport(owned.job, body)
+
+    return NextResponse.json({ import: job }, { status: 202 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+    if (error instanceof SillyTavernImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Error starting SillyTavern import', {}, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to start import' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/sillytavern/import/[id] - Cancel the import
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const owned = await getOwnedImport(id)
+    if (owned.error) {
+      return owned.error
+    }
+
+    if (owned.job.status === 'COMPLETED' || owned.job.status === 'CANCELLED') {
+      return NextResponse.json({ error: 'Import already finished' }, { status: 400 })
+    }
+
+    const job = await cancelSillyTavernImport(owned.job)
+    return NextResponse.json({ import: job })
+  } catch (error) {
+    logger.error('Error cancelling SillyTavern import', {}, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to cancel import' },
+      { status: 500 }
+    )
+  }
+}
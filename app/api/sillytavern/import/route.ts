@@ -0,0 +1,69 @@
+// SillyTavern Data Directory Import API
+// GET /api/sillytavern/import - List the user's imports, newest first
+// POST /api/sillytavern/import - Upload a zip of a SillyTavern data directory and get its preview
+//   Accepts multipart/form-data with a `file`
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth/session'
+import { getRepositories } from '@/lib/repositories/factory'
+import { createSillyTavernImport, SillyTavernImportError } from '@/lib/sillytavern/bulk-import'
+import { logger } from '@/lib/logger'
+
+// GET /api/sillytavern/import - List imports
+export async function GET() {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const repos = getRepositories()
+    const imports = await repos.sillyTavernImports.findByUserId(session.user.id)
+
+    return NextResponse.json({ imports })
+  } catch (error) {
+    logger.error('Error listing SillyTavern imports', { context: 'GET /api/sillytavern/import' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to list imports' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/sillytavern/import - Upload a data directory for preview
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!req.headers.get('content-type')?.includes('multipart/form-data')) {
+      return NextResponse.json({ error: 'Upload the data directory as a zip file' }, { status: 400 })
+    }
+
+    const formData = await req.formData()
+    const file = formData.get('file') as File | null
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const job = await createSillyTavernImport(
+      session.user.id,
+      file.name || 'sillytavern-data.zip',
+      Buffer.from(await file.arrayBuffer())
+    )
+
+    return NextResponse.json({ import: job }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SillyTavernImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Error reading SillyTavern data directory', { context: 'POST /api/sillytavern/import' }, error instanceof Error ? error : undefined)
+    return NextResponse.json(
+      { error: 'Failed to read the data directory' },
+      { status: 500 }
+    )
+  }
+}
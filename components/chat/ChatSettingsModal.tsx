@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { clientLogger } from '@/lib/client-logger'
 import { showErrorToast, showSuccessToast } from '@/lib/toast'
+import { TOOL_POLICY_OPTIONS, TOOL_POLICY_TARGETS } from '@/lib/chat/tool-policy-options'
 
 interface ConnectionProfile {
   id: string
@@ -53,11 +54,24 @@ interface Participant {
   } | null
 }
 
+type TurnStrategy = 'MANUAL' | 'ROUND_ROBIN' | 'MENTION' | 'NATURAL'
+type ToolPolicy = 'ALWAYS_ALLOW' | 'ASK' | 'NEVER'
+
+const TURN_STRATEGY_OPTIONS: Array<{ value: TurnStrategy; label: string; description: string }> = [
+  { value: 'ROUND_ROBIN', label: 'Round robin', description: 'Characters take turns in participant order.' },
+  { value: 'MENTION', label: 'By mention', description: 'The character named in your message answers; otherwise round robin.' },
+  { value: 'NATURAL', label: 'Natural', description: 'A cheap LLM picks whoever would most naturally speak next.' },
+  { value: 'MANUAL', label: 'Manual', description: 'The last speaker keeps answering until you pick someone with "Reply as".' },
+]
+
 interface ChatSettingsModalProps {
   isOpen: boolean
   onClose: () => void
   chatId: string
   participants: Participant[]
+  turnStrategy?: TurnStrategy
+  /** This chat's overrides of the tool approval policies in chat settings */
+  toolPolicies?: Record<string, ToolPolicy>
   onSuccess?: () => void
 }
 
@@ -229,6 +243,8 @@ export default function ChatSettingsModal({
   onClose,
   chatId,
   participants,
+  turnStrategy,
+  toolPolicies,
   onSuccess,
 }: Readonly<ChatSettingsModalProps>) {
   const modalRef = useRef<HTMLDivElement>(null)
@@ -291,6 +307,58 @@ export default function ChatSettingsModal({
     }
   }
 
+  const handleTurnStrategyChange = async (value: TurnStrategy) => {
+    try {
+      setLoading(true)
+      const res = await fetch(`/api/chats/${chatId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat: { turnStrategy: value } }),
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to update turn order')
+      }
+
+      showSuccessToast('Turn order updated')
+      onSuccess?.()
+    } catch (error) {
+      clientLogger.error('Failed to update turn order', { error: error instanceof Error ? error.message : String(error) })
+      showErrorToast(error instanceof Error ? error.message : 'Failed to update turn order')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToolPolicyChange = async (toolName: string, value: ToolPolicy | '') => {
+    // An empty value drops the override so the chat settings default applies again
+    const { [toolName]: _previous, ...rest } = toolPolicies || {}
+    const nextPolicies = value ? { ...rest, [toolName]: value } : rest
+
+    try {
+      setLoading(true)
+      const res = await fetch(`/api/chats/${chatId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat: { toolPolicies: nextPolicies } }),
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to update tool approval')
+      }
+
+      showSuccessToast('Tool approval updated')
+      onSuccess?.()
+    } catch (error) {
+      clientLogger.error('Failed to update tool approval', { error: error instanceof Error ? error.message : String(error) })
+      showErrorToast(error instanceof Error ? error.message : 'Failed to update tool approval')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleParticipantUpdate = async (participantId: string, updates: ParticipantUpdate) => {
     try {
       setLoading(true)
@@ -323,6 +391,8 @@ export default function ChatSettingsModal({
   if (!isOpen) return null
 
   const sortedParticipants = [...participants].sort((a, b) => a.displayOrder - b.displayOrder)
+  const activeCharacterCount = participants.filter(p => p.type === 'CHARACTER' && p.isActive).length
+  const selectedTurnStrategy = turnStrategy || 'ROUND_ROBIN'
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -332,6 +402,62 @@ export default function ChatSettingsModal({
       >
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Chat Settings</h2>
 
+        {activeCharacterCount > 1 && (
+          <div className="mb-4">
+            <label htmlFor="chat-turn-strategy" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Turn Order
+            </label>
+            <select
+              id="chat-turn-strategy"
+              value={selectedTurnStrategy}
+              onChange={(e) => handleTurnStrategyChange(e.target.value as TurnStrategy)}
+              disabled={loading}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:bg-gray-100 dark:disabled:bg-slate-600 text-sm"
+            >
+              {TURN_STRATEGY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {TURN_STRATEGY_OPTIONS.find(option => option.value === selectedTurnStrategy)?.description}
+            </p>
+          </div>
+        )}
+
+        <div className="mb-4">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Tool Approval
+          </h3>
+          <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+            Overrides for this chat only. &quot;Default&quot; uses the policy from Settings → Chat.
+          </p>
+          <div className="space-y-2">
+            {TOOL_POLICY_TARGETS.map((target) => (
+              <div key={target.toolName} className="flex items-center justify-between gap-3">
+                <label htmlFor={`tool-policy-${target.toolName}`} className="text-sm text-gray-700 dark:text-gray-300">
+                  {target.label}
+                </label>
+                <select
+                  id={`tool-policy-${target.toolName}`}
+                  value={toolPolicies?.[target.toolName] || ''}
+                  onChange={(e) => handleToolPolicyChange(target.toolName, e.target.value as ToolPolicy | '')}
+                  disabled={loading}
+                  className="px-3 py-1.5 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:bg-gray-100 dark:disabled:bg-slate-600 text-sm"
+                >
+                  <option value="">Default</option>
+                  {TOOL_POLICY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
         <div className="mb-4">
           <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
             Participants ({participants.length})
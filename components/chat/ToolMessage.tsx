@@ -44,6 +44,42 @@ interface ToolResult {
   model?: string
   prompt?: string
   images?: Array<{ id: string; filename: string }>
+  mcpServer?: string
+  mcpTool?: string
+  searchBackend?: string
+  citations?: Array<{
+    index: number
+    title: string
+    url: string
+    siteName?: string
+    publishedDate?: string
+    accessedAt: string
+  }>
+  approval?: {
+    policy: 'ALWAYS_ALLOW' | 'ASK' | 'NEVER'
+    decision: 'auto' | 'approved' | 'denied' | 'blocked' | 'timeout'
+    decidedAt: string
+  }
+}
+
+// Badges for calls that went through (or were stopped by) an approval policy
+const APPROVAL_BADGES: Record<string, { label: string; className: string }> = {
+  approved: {
+    label: 'Approved',
+    className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  },
+  denied: {
+    label: 'Denied by you',
+    className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+  },
+  blocked: {
+    label: 'Blocked by policy',
+    className: 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200',
+  },
+  timeout: {
+    label: 'Approval timed out',
+    className: 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200',
+  },
 }
 
 export default function ToolMessage({ message, character, onImageClick, onAttachmentDeleted }: ToolMessageProps) {
@@ -94,7 +130,21 @@ export default function ToolMessage({ message, character, onImageClick, onAttach
     },
   }
 
-  const info = toolInfo[toolData.toolName!] || {
+  // Tools from MCP servers are named mcp__<server>__<tool>
+  const isMcpTool = toolData.toolName!.startsWith('mcp__')
+  const mcpInfo = isMcpTool
+    ? {
+        displayName: toolData.mcpTool || toolData.toolName!.split('__').slice(2).join('__') || toolData.toolName!,
+        icon: '🔌',
+        bgColor: 'bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800',
+      }
+    : null
+
+  const approvalBadge = toolData.approval ? APPROVAL_BADGES[toolData.approval.decision] : undefined
+  // Calls stopped before they ran are "Skipped" rather than "Failed"
+  const withheld = toolData.approval && !['auto', 'approved'].includes(toolData.approval.decision)
+
+  const info = mcpInfo || toolInfo[toolData.toolName!] || {
     displayName: toolData.toolName,
     icon: '⚙️',
     bgColor: 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700',
@@ -135,26 +185,70 @@ export default function ToolMessage({ message, character, onImageClick, onAttach
                 <span className="font-semibold text-sm text-gray-900 dark:text-white">
                   {info.displayName}
                 </span>
+                {isMcpTool && (
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200">
+                    MCP{toolData.mcpServer ? ` · ${toolData.mcpServer}` : ''}
+                  </span>
+                )}
+                {approvalBadge && (
+                  <span
+                    className={`text-xs px-1.5 py-0.5 rounded ${approvalBadge.className}`}
+                    title={toolData.approval?.decidedAt ? new Date(toolData.approval.decidedAt).toLocaleString() : undefined}
+                  >
+                    {approvalBadge.label}
+                  </span>
+                )}
               </div>
             </div>
             <span
               className={`inline-block px-2 py-0.5 text-xs font-medium rounded ml-auto ${
                 toolData.success
                   ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
-                  : 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+                  : withheld
+                    ? 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+                    : 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
               }`}
             >
-              {toolData.success ? 'Success' : 'Failed'}
+              {toolData.success ? 'Success' : withheld ? 'Skipped' : 'Failed'}
             </span>
           </div>
 
           {/* Tool result */}
           {toolData.result && (
-            <div className="text-sm text-gray-700 dark:text-gray-300">
+            <div className={`text-sm text-gray-700 dark:text-gray-300${isMcpTool || toolData.citations ? ' whitespace-pre-wrap break-words max-h-64 overflow-y-auto' : ''}`}>
               {toolData.result}
             </div>
           )}
 
+          {/* Sources for web search results, numbered the way the character cites them */}
+          {toolData.citations && toolData.citations.length > 0 && (
+            <div className="mt-3">
+              <div className="text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">Sources</div>
+              <ol className="space-y-1 text-sm">
+                {toolData.citations.map((citation) => (
+                  <li key={citation.index} className="flex gap-2">
+                    <span className="text-gray-500 dark:text-gray-400">[{citation.index}]</span>
+                    <span className="min-w-0">
+                      <a
+                        href={citation.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-700 dark:text-blue-300 hover:underline break-words"
+                      >
+                        {citation.title}
+                      </a>
+                      {(citation.siteName || citation.publishedDate) && (
+                        <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                          {[citation.siteName, citation.publishedDate ? new Date(citation.publishedDate).toLocaleDateString() : null].filter(Boolean).join(' · ')}
+                        </span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Generated images for user-initiated image generation */}
           {toolData.tool === 'generate_image' && toolData.images && toolData.images.length > 0 && (
             <div className="flex flex-wrap gap-2 mt-3">
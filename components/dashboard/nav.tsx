@@ -92,6 +92,14 @@ export default function DashboardNav({ user }: DashboardNavProps) {
                 >
                   Export Chat
                 </a>
+                <a
+                  href={`/api/chats/${chat.chatId}/export?format=quilltap`}
+                  download
+                  title="Everything in the chat, for importing into Quilltap"
+                  className="px-3 py-2 text-sm bg-gray-600 text-white rounded hover:bg-gray-700 dark:bg-slate-600 dark:hover:bg-slate-500 transition-colors"
+                >
+                  Export Archive
+                </a>
               </>
             )}
 
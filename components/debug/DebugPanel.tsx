@@ -242,6 +242,14 @@ function DebugEntryCard({ entry }: { entry: DebugEntry }) {
                       {entry.llmRequestDetails.contextManagement.tokenUsage.systemPrompt.toLocaleString()}
                     </span>
                   </div>
+                  {entry.llmRequestDetails.contextManagement.tokenUsage.worldInfo !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">World Info:</span>
+                      <span className="font-mono text-violet-600 dark:text-violet-400">
+                        {entry.llmRequestDetails.contextManagement.tokenUsage.worldInfo.toLocaleString()}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-600 dark:text-gray-400">Memories:</span>
                     <span className="font-mono text-violet-600 dark:text-violet-400">
@@ -285,6 +293,11 @@ function DebugEntryCard({ entry }: { entry: DebugEntry }) {
                   <span className="text-xs px-1.5 py-0.5 bg-violet-200 dark:bg-violet-900/50 text-violet-700 dark:text-violet-300 rounded">
                     {entry.llmRequestDetails.contextManagement.memoriesIncluded} memories
                   </span>
+                  {!!entry.llmRequestDetails.contextManagement.worldInfoEntriesIncluded && (
+                    <span className="text-xs px-1.5 py-0.5 bg-sky-200 dark:bg-sky-900/50 text-sky-700 dark:text-sky-300 rounded">
+                      {entry.llmRequestDetails.contextManagement.worldInfoEntriesIncluded} lore entries
+                    </span>
+                  )}
                   <span className="text-xs px-1.5 py-0.5 bg-violet-200 dark:bg-violet-900/50 text-violet-700 dark:text-violet-300 rounded">
                     {entry.llmRequestDetails.contextManagement.messagesIncluded} messages
                   </span>
@@ -323,6 +336,31 @@ function DebugEntryCard({ entry }: { entry: DebugEntry }) {
                   </details>
                 )}
 
+                {/* Expandable: View World Info */}
+                {entry.llmRequestDetails.contextManagement.debugWorldInfo && entry.llmRequestDetails.contextManagement.debugWorldInfo.length > 0 && (
+                  <details className="mb-2 [&[open]>summary>svg.chevron]:rotate-90">
+                    <summary className="text-xs cursor-pointer select-none text-sky-600 dark:text-sky-400 hover:text-sky-800 dark:hover:text-sky-300 flex items-center gap-1">
+                      <svg className="chevron w-3 h-3 transition-transform duration-200" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                      </svg>
+                      View World Info ({entry.llmRequestDetails.contextManagement.debugWorldInfo.length})
+                    </summary>
+                    <div className="mt-1 p-2 bg-sky-100 dark:bg-sky-900/30 rounded border border-sky-300 dark:border-sky-700 max-h-[200px] overflow-y-auto">
+                      {entry.llmRequestDetails.contextManagement.debugWorldInfo.map((wi) => (
+                        <div key={`${wi.lorebookId}-${wi.entryId}`} className="text-xs mb-2 last:mb-0 pb-2 last:pb-0 border-b last:border-b-0 border-sky-200 dark:border-sky-700">
+                          <div className="text-gray-800 dark:text-gray-200">{wi.entryName}</div>
+                          <div className="flex flex-wrap gap-2 mt-1 text-sky-600 dark:text-sky-400">
+                            <span>{wi.lorebookName}</span>
+                            <span>{wi.matchedKey ? `Key: ${wi.matchedKey}` : 'Constant'}</span>
+                            <span>{wi.position === 'BEFORE_CHARACTER' ? 'Before character' : 'After character'}</span>
+                            <span>{wi.tokens.toLocaleString()} tokens</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                )}
+
                 {/* Expandable: View Summary */}
                 {entry.llmRequestDetails.contextManagement.debugSummary && (
                   <details className="mb-2 [&[open]>summary>svg.chevron]:rotate-90">
@@ -347,7 +385,7 @@ function DebugEntryCard({ entry }: { entry: DebugEntry }) {
                       <svg className="chevron w-3 h-3 transition-transform duration-200" fill="currentColor" viewBox="0 0 20 20">
                         <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
                       </svg>
-                      View System Prompt ({entry.llmRequestDetails.contextManagement.tokenUsage.systemPrompt.toLocaleString()} tokens)
+                      View System Prompt ({(entry.llmRequestDetails.contextManagement.tokenUsage.systemPrompt + (entry.llmRequestDetails.contextManagement.tokenUsage.worldInfo ?? 0)).toLocaleString()} tokens)
                     </summary>
                     <div className="mt-1 p-2 bg-yellow-100 dark:bg-yellow-900/30 rounded border border-yellow-300 dark:border-yellow-700 max-h-[300px] overflow-y-auto">
                       <div className="text-xs text-gray-800 dark:text-gray-200 whitespace-pre-wrap font-mono">
@@ -0,0 +1,155 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { showErrorToast, showSuccessToast } from '@/lib/toast'
+
+interface EmbeddingModel {
+  provider: string
+  modelName: string
+}
+
+interface EmbeddingMigration {
+  id: string
+  status: 'RUNNING' | 'FAILED' | 'COMPLETED' | 'CANCELLED'
+  toModel: EmbeddingModel
+  fromModel?: EmbeddingModel | null
+  total: number
+  processed: number
+  error?: string | null
+}
+
+interface EmbeddingIndexStatus {
+  index: {
+    model: EmbeddingModel | null
+    dimensions: number | null
+    size: number
+  }
+  profile: { id: string; name: string; modelName: string } | null
+  needsMigration: boolean
+  migration: EmbeddingMigration | null
+}
+
+interface EmbeddingMigrationBannerProps {
+  characterId: string
+  /** Called once a migration finishes, so the list can refresh */
+  onCompleted?: () => void
+}
+
+const POLL_INTERVAL_MS = 2000
+
+/**
+ * Shows re-embedding progress when the character's vector index is being
+ * moved to a new embedding model, and offers to start or resume it
+ */
+export function EmbeddingMigrationBanner({ characterId, onCompleted }: EmbeddingMigrationBannerProps) {
+  const [status, setStatus] = useState<EmbeddingIndexStatus | null>(null)
+  const [busy, setBusy] = useState(false)
+  const lastStatusRef = useRef<EmbeddingMigration['status'] | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/characters/${characterId}/memories/embeddings/migration`)
+      if (!res.ok) return
+      const data: EmbeddingIndexStatus = await res.json()
+      if (lastStatusRef.current === 'RUNNING' && data.migration?.status === 'COMPLETED') {
+        showSuccessToast(`Memories re-embedded with ${data.migration.toModel.modelName}`)
+        onCompleted?.()
+      }
+      lastStatusRef.current = data.migration?.status ?? null
+      setStatus(data)
+    } catch {
+      // Progress is informational; the memory list works without it
+    }
+  }, [characterId, onCompleted])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const running = status?.migration?.status === 'RUNNING'
+  useEffect(() => {
+    if (!running) return
+    const timer = setInterval(fetchStatus, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [running, fetchStatus])
+
+  const handleStart = async () => {
+    setBusy(true)
+    try {
+      const res = await fetch(`/api/characters/${characterId}/memories/embeddings/migration`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to start re-embedding')
+      await fetchStatus()
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to start re-embedding')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    setBusy(true)
+    try {
+      const res = await fetch(`/api/characters/${characterId}/memories/embeddings/migration`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to cancel re-embedding')
+      await fetchStatus()
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to cancel re-embedding')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!status) return null
+
+  const migration = status.migration
+  const failed = migration?.status === 'FAILED'
+  if (!running && !failed && !status.needsMigration) return null
+
+  const percent = migration && migration.total > 0
+    ? Math.min(100, Math.round((migration.processed / migration.total) * 100))
+    : 0
+  const fromName = status.index.model?.modelName ?? `${status.index.dimensions}-dimension vectors`
+  const toName = migration?.toModel.modelName ?? status.profile?.modelName
+
+  return (
+    <div className="rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-amber-900 dark:text-amber-100">
+          {running && <>Re-embedding memories with {toName}: {migration!.processed} of {migration!.total}. Search keeps using {fromName} until it finishes.</>}
+          {failed && <>Re-embedding with {toName} stopped after {migration!.processed} of {migration!.total}: {migration!.error}</>}
+          {!running && !failed && <>These memories were embedded with {fromName}, but the current embedding profile uses {toName}.</>}
+        </p>
+        <div className="flex gap-2 shrink-0">
+          {!running && (
+            <button
+              onClick={handleStart}
+              disabled={busy}
+              className="px-3 py-1.5 bg-amber-600 dark:bg-amber-700 text-white text-sm rounded-lg hover:bg-amber-700 dark:hover:bg-amber-800 disabled:opacity-50"
+            >
+              {failed ? 'Resume' : 'Re-embed'}
+            </button>
+          )}
+          {(running || failed) && (
+            <button
+              onClick={handleCancel}
+              disabled={busy}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+      {(running || failed) && (
+        <div className="h-2 rounded-full bg-amber-200 dark:bg-amber-950 overflow-hidden">
+          <div
+            className="h-full bg-amber-500 transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import { showErrorToast, showSuccessToast } from '@/lib/toast'
 
 interface HousekeepingDetail {
   memoryId: string
-  action: 'deleted' | 'merged' | 'kept'
+  action: 'deleted' | 'merged' | 'consolidated' | 'kept'
   reason: string
   summary?: string
 }
@@ -13,6 +13,8 @@ interface HousekeepingDetail {
 interface HousekeepingPreview {
   wouldDelete: number
   wouldMerge: number
+  wouldConsolidate: number
+  wouldDecay: number
   wouldKeep: number
   totalBefore: number
   totalAfter: number
@@ -36,6 +38,7 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
   const [maxAgeMonths, setMaxAgeMonths] = useState(6)
   const [minImportance, setMinImportance] = useState(0.3)
   const [mergeSimilar, setMergeSimilar] = useState(false)
+  const [consolidateFaded, setConsolidateFaded] = useState(true)
 
   // Fetch preview when options change
   useEffect(() => {
@@ -48,6 +51,7 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
           maxAgeMonths: maxAgeMonths.toString(),
           minImportance: minImportance.toString(),
           mergeSimilar: mergeSimilar.toString(),
+          consolidateFaded: consolidateFaded.toString(),
         })
 
         const res = await fetch(`/api/characters/${characterId}/memories/housekeep?${params}`)
@@ -64,7 +68,7 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
 
     const debounce = setTimeout(fetchPreview, 300)
     return () => clearTimeout(debounce)
-  }, [characterId, maxMemories, maxAgeMonths, minImportance, mergeSimilar])
+  }, [characterId, maxMemories, maxAgeMonths, minImportance, mergeSimilar, consolidateFaded])
 
   const handleRun = async () => {
     setRunning(true)
@@ -77,6 +81,7 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
           maxAgeMonths,
           minImportance,
           mergeSimilar,
+          consolidateFaded,
           dryRun: false,
         }),
       })
@@ -84,7 +89,11 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
       if (!res.ok) throw new Error('Failed to run housekeeping')
 
       const data = await res.json()
-      showSuccessToast(`Cleaned up ${data.result.deleted} memories`)
+      showSuccessToast(
+        data.result.consolidated > 0
+          ? `Consolidated ${data.result.consolidated} faded memories and removed ${data.result.deleted + data.result.merged}`
+          : `Cleaned up ${data.result.deleted} memories`
+      )
       onComplete()
     } catch (err) {
       showErrorToast(err instanceof Error ? err.message : 'Failed to run cleanup')
@@ -120,7 +129,7 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
             </button>
           </div>
           <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-            Clean up old and low-importance memories to stay within limits.
+            Consolidate faded memories and clean up duplicates to stay within limits.
           </p>
         </div>
 
@@ -157,7 +166,7 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
                 className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
               <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                Delete old low-importance memories
+                Old faded memories are consolidated
               </p>
             </div>
           </div>
@@ -177,7 +186,7 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
             />
             <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
               <span>0%</span>
-              <span>Threshold for deletion</span>
+              <span>Fade threshold</span>
               <span>70%</span>
             </div>
           </div>
@@ -194,6 +203,19 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
               Merge similar memories (requires embeddings)
             </label>
           </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="consolidateFaded"
+              checked={consolidateFaded}
+              onChange={(e) => setConsolidateFaded(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="consolidateFaded" className="text-sm text-gray-700 dark:text-gray-300">
+              Consolidate faded memories into summaries instead of deleting them
+            </label>
+          </div>
         </div>
 
         {/* Preview */}
@@ -209,7 +231,7 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
           ) : preview ? (
             <div className="space-y-4">
               {/* Summary Stats */}
-              <div className="grid grid-cols-3 gap-4">
+              <div className="grid grid-cols-4 gap-4">
                 <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4 text-center">
                   <p className="text-2xl font-bold text-green-700 dark:text-green-400">
                     {preview.wouldKeep}
@@ -228,10 +250,22 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
                   </p>
                   <p className="text-sm text-yellow-600 dark:text-yellow-500">Merge</p>
                 </div>
+                <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 text-center">
+                  <p className="text-2xl font-bold text-blue-700 dark:text-blue-400">
+                    {preview.wouldConsolidate}
+                  </p>
+                  <p className="text-sm text-blue-600 dark:text-blue-500">Consolidate</p>
+                </div>
               </div>
 
+              {preview.wouldDecay > 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {preview.wouldDecay} {preview.wouldDecay === 1 ? 'memory has' : 'memories have'} faded since last recalled and will have {preview.wouldDecay === 1 ? 'its' : 'their'} importance updated.
+                </p>
+              )}
+
               {/* Details */}
-              {preview.wouldDelete > 0 || preview.wouldMerge > 0 ? (
+              {preview.wouldDelete > 0 || preview.wouldMerge > 0 || preview.wouldConsolidate > 0 ? (
                 <div>
                   <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Changes Preview
@@ -245,7 +279,9 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
                           className={`p-3 rounded-lg text-sm ${
                             detail.action === 'deleted'
                               ? 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800'
-                              : 'bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800'
+                              : detail.action === 'consolidated'
+                                ? 'bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800'
+                                : 'bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800'
                           }`}
                         >
                           <p className="font-medium text-gray-900 dark:text-white line-clamp-1">
@@ -273,10 +309,10 @@ export function HousekeepingDialog({ characterId, onClose, onComplete }: Houseke
           <button
             type="button"
             onClick={handleRun}
-            disabled={running || loading || !preview || (preview.wouldDelete === 0 && preview.wouldMerge === 0)}
+            disabled={running || loading || !preview || (preview.wouldDelete === 0 && preview.wouldMerge === 0 && preview.wouldConsolidate === 0 && preview.wouldDecay === 0)}
             className="flex-1 px-4 py-2 bg-red-600 dark:bg-red-700 text-white rounded-lg hover:bg-red-700 dark:hover:bg-red-800 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed font-medium"
           >
-            {running ? 'Running...' : `Delete ${preview?.wouldDelete || 0} Memories`}
+            {running ? 'Running...' : 'Run Cleanup'}
           </button>
           <button
             type="button"
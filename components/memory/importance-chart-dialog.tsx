@@ -0,0 +1,208 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ImportanceTimelinePoint {
+  date: string
+  averageImportance: number
+  memoryCount: number
+  reinforced: number
+  consolidated: number
+}
+
+interface ImportanceChartDialogProps {
+  characterId: string
+  onClose: () => void
+}
+
+const RANGES = [30, 90, 365]
+
+const CHART_WIDTH = 560
+const CHART_HEIGHT = 200
+const PADDING = { top: 10, right: 10, bottom: 24, left: 36 }
+
+export function ImportanceChartDialog({ characterId, onClose }: ImportanceChartDialogProps) {
+  const [days, setDays] = useState(90)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [timeline, setTimeline] = useState<ImportanceTimelinePoint[]>([])
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/characters/${characterId}/memories/importance?days=${days}`)
+        if (!res.ok) throw new Error('Failed to load importance timeline')
+        const data = await res.json()
+        setTimeline(data.timeline)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load importance timeline')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTimeline()
+  }, [characterId, days])
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom
+  const step = timeline.length > 1 ? plotWidth / (timeline.length - 1) : 0
+  const x = (i: number) => PADDING.left + i * step
+  const y = (importance: number) => PADDING.top + (1 - importance) * plotHeight
+  const maxReinforced = Math.max(1, ...timeline.map(point => point.reinforced))
+
+  const linePoints = timeline
+    .map((point, i) => (point.memoryCount > 0 ? `${x(i)},${y(point.averageImportance)}` : null))
+    .filter(Boolean)
+    .join(' ')
+
+  const latest = timeline[timeline.length - 1]
+  const totalReinforced = timeline.reduce((sum, point) => sum + point.reinforced, 0)
+  const totalConsolidated = timeline.reduce((sum, point) => sum + point.consolidated, 0)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Memory Importance
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Memories gain importance each time they are recalled and fade when they are not.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="flex gap-2">
+            {RANGES.map(range => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`px-3 py-1 text-sm rounded-lg ${
+                  days === range
+                    ? 'bg-blue-600 dark:bg-blue-700 text-white'
+                    : 'bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white hover:bg-gray-300 dark:hover:bg-slate-600'
+                }`}
+              >
+                {range} days
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <p className="text-gray-500 dark:text-gray-400">Loading timeline...</p>
+            </div>
+          ) : error ? (
+            <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded">
+              {error}
+            </div>
+          ) : !latest || latest.memoryCount === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <p>No memories in this period.</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 text-center">
+                  <p className="text-2xl font-bold text-blue-700 dark:text-blue-400">
+                    {(latest.averageImportance * 100).toFixed(0)}%
+                  </p>
+                  <p className="text-sm text-blue-600 dark:text-blue-500">Average today</p>
+                </div>
+                <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4 text-center">
+                  <p className="text-2xl font-bold text-green-700 dark:text-green-400">{totalReinforced}</p>
+                  <p className="text-sm text-green-600 dark:text-green-500">Recalls</p>
+                </div>
+                <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 text-center">
+                  <p className="text-2xl font-bold text-yellow-700 dark:text-yellow-400">{totalConsolidated}</p>
+                  <p className="text-sm text-yellow-600 dark:text-yellow-500">Consolidated</p>
+                </div>
+              </div>
+
+              <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                className="w-full h-auto text-gray-400 dark:text-gray-500"
+                role="img"
+                aria-label="Average memory importance over time"
+              >
+                {[0, 0.5, 1].map(tick => (
+                  <g key={tick}>
+                    <line
+                      x1={PADDING.left}
+                      x2={CHART_WIDTH - PADDING.right}
+                      y1={y(tick)}
+                      y2={y(tick)}
+                      stroke="currentColor"
+                      strokeOpacity={0.3}
+                      strokeDasharray="4 4"
+                    />
+                    <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize={10} fill="currentColor">
+                      {tick * 100}%
+                    </text>
+                  </g>
+                ))}
+
+                {/* Recalls per day */}
+                {timeline.map((point, i) => point.reinforced > 0 && (
+                  <rect
+                    key={point.date}
+                    x={x(i) - Math.max(1, step / 2) / 2}
+                    y={PADDING.top + plotHeight - (point.reinforced / maxReinforced) * plotHeight * 0.3}
+                    width={Math.max(1, step / 2)}
+                    height={(point.reinforced / maxReinforced) * plotHeight * 0.3}
+                    className="fill-green-400 dark:fill-green-600"
+                    opacity={0.6}
+                  >
+                    <title>{`${point.date}: ${point.reinforced} recalls`}</title>
+                  </rect>
+                ))}
+
+                <polyline
+                  points={linePoints}
+                  fill="none"
+                  className="stroke-blue-600 dark:stroke-blue-400"
+                  strokeWidth={2}
+                />
+
+                <text x={PADDING.left} y={CHART_HEIGHT - 6} fontSize={10} fill="currentColor">
+                  {timeline[0].date}
+                </text>
+                <text x={CHART_WIDTH - PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end" fontSize={10} fill="currentColor">
+                  {latest.date}
+                </text>
+              </svg>
+
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The line shows average importance across {latest.memoryCount} memories; bars show how often memories were recalled each day.
+              </p>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-200 dark:border-slate-700 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
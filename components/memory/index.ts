@@ -2,3 +2,7 @@ export { MemoryCard } from './memory-card'
 export { MemoryList } from './memory-list'
 export { MemoryEditor } from './memory-editor'
 export { HousekeepingDialog } from './housekeeping-dialog'
+export { RetrievalSettingsDialog } from './retrieval-settings-dialog'
+export { ImportanceChartDialog } from './importance-chart-dialog'
+export { ReviewQueueDialog } from './review-queue-dialog'
+export { MemoryTimeline } from './memory-timeline'
@@ -18,6 +18,9 @@ interface Memory {
   tagDetails?: Tag[]
   importance: number
   source: 'AUTO' | 'MANUAL'
+  personaId?: string | null
+  chatId?: string | null
+  visibility?: 'GLOBAL' | 'PERSONA' | 'CHAT'
   createdAt: string
   updatedAt: string
 }
@@ -72,6 +75,14 @@ export function MemoryCard({ memory, onEdit, onDelete, isDeleting = false }: Mem
           }`}>
             {memory.source === 'AUTO' ? 'Auto' : 'Manual'}
           </span>
+          {memory.visibility && memory.visibility !== 'GLOBAL' && (
+            <span
+              className="text-xs px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300"
+              title={memory.visibility === 'PERSONA' ? 'Only recalled with the same persona' : 'Only recalled in the chat it came from'}
+            >
+              {memory.visibility === 'PERSONA' ? 'Persona only' : 'Chat only'}
+            </span>
+          )}
         </div>
       </div>
 
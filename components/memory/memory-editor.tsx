@@ -8,6 +8,8 @@ interface Tag {
   name: string
 }
 
+type MemoryVisibility = 'GLOBAL' | 'PERSONA' | 'CHAT'
+
 interface Memory {
   id: string
   characterId: string
@@ -18,6 +20,9 @@ interface Memory {
   tagDetails?: Tag[]
   importance: number
   source: 'AUTO' | 'MANUAL'
+  personaId?: string | null
+  chatId?: string | null
+  visibility?: MemoryVisibility
   createdAt: string
   updatedAt: string
 }
@@ -37,11 +42,19 @@ export function MemoryEditor({ characterId, memory, onClose, onSave }: MemoryEdi
     summary: memory?.summary || '',
     keywords: memory?.keywords?.join(', ') || '',
     importance: memory?.importance || 0.5,
+    visibility: memory?.visibility || 'GLOBAL' as MemoryVisibility,
   })
   const [saving, setSaving] = useState(false)
 
+  // Narrower scopes need the persona or chat the memory was formed in
+  const visibilityOptions: { value: MemoryVisibility; label: string }[] = [
+    { value: 'GLOBAL', label: 'Everywhere' },
+    ...(memory?.personaId ? [{ value: 'PERSONA' as const, label: 'Only with the same persona' }] : []),
+    ...(memory?.chatId ? [{ value: 'CHAT' as const, label: 'Only in the chat it came from' }] : []),
+  ]
+
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target
     setFormData({ ...formData, [name]: value })
@@ -66,6 +79,7 @@ export function MemoryEditor({ characterId, memory, onClose, onSave }: MemoryEdi
         summary: formData.summary,
         keywords,
         importance: formData.importance,
+        visibility: formData.visibility,
         source: 'MANUAL' as const,
       }
 
@@ -199,6 +213,25 @@ export function MemoryEditor({ characterId, memory, onClose, onSave }: MemoryEdi
               </p>
             </div>
 
+            {visibilityOptions.length > 1 && (
+              <div>
+                <label htmlFor="visibility" className="block text-sm font-medium mb-1 text-gray-900 dark:text-white">
+                  Recall
+                </label>
+                <select
+                  id="visibility"
+                  name="visibility"
+                  value={formData.visibility}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {visibilityOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="flex gap-3 pt-4">
               <button
                 type="submit"
@@ -1,9 +1,14 @@
 'use client'
 
-import { useCallback, useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { MemoryCard } from './memory-card'
 import { MemoryEditor } from './memory-editor'
 import { HousekeepingDialog } from './housekeeping-dialog'
+import { RetrievalSettingsDialog } from './retrieval-settings-dialog'
+import { ImportanceChartDialog } from './importance-chart-dialog'
+import { ReviewQueueDialog } from './review-queue-dialog'
+import { EmbeddingMigrationBanner } from './embedding-migration-banner'
+import { MemoryTimeline } from './memory-timeline'
 import { showErrorToast, showSuccessToast } from '@/lib/toast'
 import { showConfirmation } from '@/lib/alert'
 
@@ -22,6 +27,9 @@ interface Memory {
   tagDetails?: Tag[]
   importance: number
   source: 'AUTO' | 'MANUAL'
+  personaId?: string | null
+  chatId?: string | null
+  visibility?: 'GLOBAL' | 'PERSONA' | 'CHAT'
   createdAt: string
   updatedAt: string
 }
@@ -32,6 +40,7 @@ interface MemoryListProps {
 
 type SortBy = 'createdAt' | 'updatedAt' | 'importance'
 type SortOrder = 'asc' | 'desc'
+type View = 'cards' | 'timeline'
 
 export function MemoryList({ characterId }: MemoryListProps) {
   const [memories, setMemories] = useState<Memory[]>([])
@@ -41,10 +50,17 @@ export function MemoryList({ characterId }: MemoryListProps) {
   const [sortBy, setSortBy] = useState<SortBy>('createdAt')
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc')
   const [sourceFilter, setSourceFilter] = useState<'ALL' | 'AUTO' | 'MANUAL'>('ALL')
+  const [view, setView] = useState<View>('cards')
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [editingMemory, setEditingMemory] = useState<Memory | null>(null)
   const [showEditor, setShowEditor] = useState(false)
   const [showHousekeeping, setShowHousekeeping] = useState(false)
+  const [showRetrievalSettings, setShowRetrievalSettings] = useState(false)
+  const [showImportanceChart, setShowImportanceChart] = useState(false)
+  const [showReviewQueue, setShowReviewQueue] = useState(false)
+  const [pendingReviews, setPendingReviews] = useState(0)
+  const [importing, setImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const fetchMemories = useCallback(async () => {
     try {
@@ -71,6 +87,21 @@ export function MemoryList({ characterId }: MemoryListProps) {
     fetchMemories()
   }, [fetchMemories])
 
+  const fetchPendingReviews = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/characters/${characterId}/memories/proposals`)
+      if (!res.ok) return
+      const data = await res.json()
+      setPendingReviews(data.count)
+    } catch {
+      // The review badge is optional; the list works without it
+    }
+  }, [characterId])
+
+  useEffect(() => {
+    fetchPendingReviews()
+  }, [fetchPendingReviews])
+
   const handleDelete = async (memoryId: string) => {
     const confirmed = await showConfirmation('Are you sure you want to delete this memory?')
     if (!confirmed) return
@@ -90,6 +121,32 @@ export function MemoryList({ characterId }: MemoryListProps) {
     }
   }
 
+  const handleImport = async (file: File) => {
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const res = await fetch(`/api/characters/${characterId}/memories/import`, {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to import memories')
+      const { imported, duplicates, vetoed } = data.result
+      const skipped = [
+        duplicates > 0 ? `${duplicates} already known` : '',
+        vetoed > 0 ? `${vetoed} blocked by plugins` : '',
+      ].filter(Boolean).join(', ')
+      showSuccessToast(`Imported ${imported} memories${skipped ? ` (${skipped})` : ''}`)
+      fetchMemories()
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to import memories')
+    } finally {
+      setImporting(false)
+      if (importInputRef.current) importInputRef.current.value = ''
+    }
+  }
+
   const handleEdit = (memory: Memory) => {
     setEditingMemory(memory)
     setShowEditor(true)
@@ -132,15 +189,76 @@ export function MemoryList({ characterId }: MemoryListProps) {
           Memories ({memories.length})
         </h3>
         <div className="flex gap-2">
+          {memories.length > 0 && (
+            <button
+              onClick={() => setView(view === 'cards' ? 'timeline' : 'cards')}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
+              title={view === 'cards' ? 'See memories by chat and day, with their source messages' : 'Back to the memory cards'}
+            >
+              {view === 'cards' ? 'Timeline' : 'Cards'}
+            </button>
+          )}
+          <button
+            onClick={() => setShowRetrievalSettings(true)}
+            className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
+            title="Tune how memories are recalled into conversations"
+          >
+            Retrieval
+          </button>
+          {memories.length > 0 && (
+            <button
+              onClick={() => setShowImportanceChart(true)}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
+              title="See how memory importance changes over time"
+            >
+              Importance
+            </button>
+          )}
+          {memories.length > 1 && (
+            <button
+              onClick={() => setShowReviewQueue(true)}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
+              title="Review proposed merges and contradictions"
+            >
+              Review{pendingReviews > 0 ? ` (${pendingReviews})` : ''}
+            </button>
+          )}
           {memories.length > 0 && (
             <button
               onClick={() => setShowHousekeeping(true)}
               className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
-              title="Clean up old and low-importance memories"
+              title="Consolidate faded memories and clean up duplicates"
             >
               Cleanup
             </button>
           )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.jsonl,application/json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0]
+              if (file) handleImport(file)
+            }}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+            className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600 disabled:opacity-50"
+            title="Import memories from a JSON or JSONL export"
+          >
+            {importing ? 'Importing...' : 'Import'}
+          </button>
+          {memories.length > 0 && (
+            <a
+              href={`/api/characters/${characterId}/memories/export?embeddings=true`}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
+              title="Download these memories, with their embeddings"
+            >
+              Export
+            </a>
+          )}
           <button
             onClick={handleCreate}
             className="px-3 py-1.5 bg-blue-600 dark:bg-blue-700 text-white text-sm rounded-lg hover:bg-blue-700 dark:hover:bg-blue-800"
@@ -150,77 +268,87 @@ export function MemoryList({ characterId }: MemoryListProps) {
         </div>
       </div>
 
-      {/* Filters */}
-      <div className="flex flex-wrap gap-3 items-center">
-        <div className="flex-1 min-w-[200px]">
-          <input
-            type="text"
-            placeholder="Search memories..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
-        </div>
-        <select
-          value={sortBy}
-          onChange={(e) => setSortBy(e.target.value as SortBy)}
-          className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-        >
-          <option value="createdAt">Created Date</option>
-          <option value="updatedAt">Updated Date</option>
-          <option value="importance">Importance</option>
-        </select>
-        <button
-          onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
-          className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700"
-          title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
-        >
-          {sortOrder === 'asc' ? '↑' : '↓'}
-        </button>
-        <select
-          value={sourceFilter}
-          onChange={(e) => setSourceFilter(e.target.value as 'ALL' | 'AUTO' | 'MANUAL')}
-          className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-        >
-          <option value="ALL">All Sources</option>
-          <option value="AUTO">Auto-generated</option>
-          <option value="MANUAL">Manual</option>
-        </select>
-      </div>
+      {/* Re-embedding progress */}
+      <EmbeddingMigrationBanner characterId={characterId} onCompleted={fetchMemories} />
 
-      {/* Error State */}
-      {error && (
-        <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-4 py-3 rounded">
-          {error}
-        </div>
-      )}
+      {/* Timeline View */}
+      {view === 'timeline' && <MemoryTimeline characterId={characterId} />}
 
-      {/* Empty State */}
-      {!loading && memories.length === 0 && (
-        <div className="text-center py-8 bg-gray-50 dark:bg-slate-800/50 rounded-lg">
-          <p className="text-gray-500 dark:text-gray-400 mb-2">
-            {search ? 'No memories match your search' : 'No memories yet'}
-          </p>
-          {!search && (
-            <p className="text-sm text-gray-400 dark:text-gray-500">
-              Memories will be created automatically during conversations, or you can add them manually.
-            </p>
+      {view === 'cards' && (
+        <>
+          {/* Filters */}
+          <div className="flex flex-wrap gap-3 items-center">
+            <div className="flex-1 min-w-[200px]">
+              <input
+                type="text"
+                placeholder="Search memories..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as SortBy)}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="createdAt">Created Date</option>
+              <option value="updatedAt">Updated Date</option>
+              <option value="importance">Importance</option>
+            </select>
+            <button
+              onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700"
+              title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
+            >
+              {sortOrder === 'asc' ? '↑' : '↓'}
+            </button>
+            <select
+              value={sourceFilter}
+              onChange={(e) => setSourceFilter(e.target.value as 'ALL' | 'AUTO' | 'MANUAL')}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="ALL">All Sources</option>
+              <option value="AUTO">Auto-generated</option>
+              <option value="MANUAL">Manual</option>
+            </select>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+              {error}
+            </div>
           )}
-        </div>
-      )}
 
-      {/* Memory Grid */}
-      <div className="grid gap-4 sm:grid-cols-1 lg:grid-cols-2">
-        {memories.map((memory) => (
-          <MemoryCard
-            key={memory.id}
-            memory={memory}
-            onEdit={handleEdit}
-            onDelete={handleDelete}
-            isDeleting={deletingId === memory.id}
-          />
-        ))}
-      </div>
+          {/* Empty State */}
+          {!loading && memories.length === 0 && (
+            <div className="text-center py-8 bg-gray-50 dark:bg-slate-800/50 rounded-lg">
+              <p className="text-gray-500 dark:text-gray-400 mb-2">
+                {search ? 'No memories match your search' : 'No memories yet'}
+              </p>
+              {!search && (
+                <p className="text-sm text-gray-400 dark:text-gray-500">
+                  Memories will be created automatically during conversations, or you can add them manually.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Memory Grid */}
+          <div className="grid gap-4 sm:grid-cols-1 lg:grid-cols-2">
+            {memories.map((memory) => (
+              <MemoryCard
+                key={memory.id}
+                memory={memory}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+                isDeleting={deletingId === memory.id}
+              />
+            ))}
+          </div>
+        </>
+      )}
 
       {/* Memory Editor Modal */}
       {showEditor && (
@@ -240,6 +368,34 @@ export function MemoryList({ characterId }: MemoryListProps) {
           onComplete={handleHousekeepingComplete}
         />
       )}
+
+      {/* Retrieval Settings Dialog */}
+      {showRetrievalSettings && (
+        <RetrievalSettingsDialog
+          characterId={characterId}
+          onClose={() => setShowRetrievalSettings(false)}
+        />
+      )}
+
+      {/* Importance Chart Dialog */}
+      {showImportanceChart && (
+        <ImportanceChartDialog
+          characterId={characterId}
+          onClose={() => setShowImportanceChart(false)}
+        />
+      )}
+
+      {/* Review Queue Dialog */}
+      {showReviewQueue && (
+        <ReviewQueueDialog
+          characterId={characterId}
+          onClose={() => {
+            setShowReviewQueue(false)
+            fetchPendingReviews()
+          }}
+          onResolved={fetchMemories}
+        />
+      )}
     </div>
   )
 }
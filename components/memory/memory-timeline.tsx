@@ -0,0 +1,295 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { TagBadge } from '@/components/tags/tag-badge'
+
+interface FilterOption {
+  id: string
+  name: string
+}
+
+interface Provenance {
+  memoryId: string
+  chatId?: string | null
+  sourceMessageId?: string | null
+  summary: string
+  createdAt: string
+}
+
+interface TimelineMemory {
+  memory: {
+    id: string
+    summary: string
+    content: string
+    importance: number
+    source: 'AUTO' | 'MANUAL'
+    personaId?: string | null
+    chatId?: string | null
+    sourceMessageId?: string | null
+    visibility?: 'GLOBAL' | 'PERSONA' | 'CHAT'
+    tags: string[]
+    consolidatedFrom?: Provenance[]
+    createdAt: string
+  }
+  effectiveImportance: number
+  sourceMessage: {
+    id: string
+    role: string
+    excerpt: string
+    createdAt: string
+  } | null
+  sourceMissing: boolean
+}
+
+interface TimelineGroup {
+  chatId: string | null
+  chatTitle: string | null
+  chatExists: boolean
+  latestAt: string
+  count: number
+  days: { date: string; memories: TimelineMemory[] }[]
+}
+
+interface Timeline {
+  groups: TimelineGroup[]
+  total: number
+  filterOptions: {
+    personas: FilterOption[]
+    tags: FilterOption[]
+  }
+}
+
+interface MemoryTimelineProps {
+  characterId: string
+}
+
+// Minimum importance choices, matching the card's Medium and High bands
+const IMPORTANCE_FILTERS = [
+  { value: '', label: 'Any Importance' },
+  { value: '0.4', label: 'Medium and above' },
+  { value: '0.7', label: 'High only' },
+]
+
+const selectClassName = 'px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+}
+
+function messageLink(chatId: string, messageId: string): string {
+  return `/chats/${chatId}#message-${messageId}`
+}
+
+/**
+ * A character's memories grouped by chat and day, each linked back to the
+ * message it was formed from
+ */
+export function MemoryTimeline({ characterId }: MemoryTimelineProps) {
+  const [timeline, setTimeline] = useState<Timeline | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [personaFilter, setPersonaFilter] = useState('')
+  const [sourceFilter, setSourceFilter] = useState('')
+  const [importanceFilter, setImportanceFilter] = useState('')
+  const [tagFilter, setTagFilter] = useState('')
+
+  const fetchTimeline = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams()
+      if (personaFilter) params.set('personaId', personaFilter)
+      if (sourceFilter) params.set('source', sourceFilter)
+      if (importanceFilter) params.set('minImportance', importanceFilter)
+      if (tagFilter) params.set('tags', tagFilter)
+
+      const res = await fetch(`/api/characters/${characterId}/memories/timeline?${params}`)
+      if (!res.ok) throw new Error('Failed to load memory timeline')
+      setTimeline(await res.json())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [characterId, personaFilter, sourceFilter, importanceFilter, tagFilter])
+
+  useEffect(() => {
+    fetchTimeline()
+  }, [fetchTimeline])
+
+  const personaNames = new Map(timeline?.filterOptions.personas.map(p => [p.id, p.name]))
+  const tagsById = new Map(timeline?.filterOptions.tags.map(t => [t.id, t]))
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3 items-center">
+        <select value={personaFilter} onChange={e => setPersonaFilter(e.target.value)} className={selectClassName}>
+          <option value="">All Personas</option>
+          <option value="none">No Persona</option>
+          {timeline?.filterOptions.personas.map(persona => (
+            <option key={persona.id} value={persona.id}>{persona.name}</option>
+          ))}
+        </select>
+        <select value={sourceFilter} onChange={e => setSourceFilter(e.target.value)} className={selectClassName}>
+          <option value="">All Sources</option>
+          <option value="AUTO">Auto-generated</option>
+          <option value="MANUAL">Manual</option>
+        </select>
+        <select value={importanceFilter} onChange={e => setImportanceFilter(e.target.value)} className={selectClassName}>
+          {IMPORTANCE_FILTERS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {(timeline?.filterOptions.tags.length ?? 0) > 0 && (
+          <select value={tagFilter} onChange={e => setTagFilter(e.target.value)} className={selectClassName}>
+            <option value="">All Tags</option>
+            {timeline!.filterOptions.tags.map(tag => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+        )}
+        {timeline && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {timeline.total} {timeline.total === 1 ? 'memory' : 'memories'}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {loading && !timeline && (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">Loading timeline...</p>
+      )}
+
+      {timeline && timeline.groups.length === 0 && (
+        <div className="text-center py-8 bg-gray-50 dark:bg-slate-800/50 rounded-lg">
+          <p className="text-gray-500 dark:text-gray-400">No memories match these filters</p>
+        </div>
+      )}
+
+      {timeline?.groups.map(group => (
+        <section
+          key={group.chatId ?? 'no-chat'}
+          className="border border-gray-200 dark:border-slate-700 rounded-lg overflow-hidden"
+        >
+          <header className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-slate-800/60 border-b border-gray-200 dark:border-slate-700">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {group.chatId === null && 'Not from a chat'}
+              {group.chatId !== null && group.chatExists && (
+                <Link href={`/chats/${group.chatId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                  {group.chatTitle}
+                </Link>
+              )}
+              {group.chatId !== null && !group.chatExists && (
+                <span className="text-gray-500 dark:text-gray-400">Deleted chat</span>
+              )}
+            </h4>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{group.count}</span>
+          </header>
+
+          <div className="px-4 py-3 space-y-4">
+            {group.days.map(day => (
+              <div key={day.date}>
+                <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+                  {formatDay(day.date)}
+                </p>
+                <ol className="space-y-3 border-l-2 border-gray-200 dark:border-slate-700 pl-4">
+                  {day.memories.map(({ memory, effectiveImportance, sourceMessage, sourceMissing }) => (
+                    <li key={memory.id} className="space-y-1">
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{memory.summary}</p>
+                        <div className="flex items-center gap-2 flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                          <span title="Current importance, after decay">{Math.round(effectiveImportance * 100)}%</span>
+                          <span className={`px-2 py-0.5 rounded-full ${
+                            memory.source === 'AUTO'
+                              ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                              : 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300'
+                          }`}>
+                            {memory.source === 'AUTO' ? 'Auto' : 'Manual'}
+                          </span>
+                          {memory.visibility && memory.visibility !== 'GLOBAL' && (
+                            <span className="px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300">
+                              {memory.visibility === 'PERSONA' ? 'Persona only' : 'Chat only'}
+                            </span>
+                          )}
+                          <span>{formatTime(memory.createdAt)}</span>
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-1">
+                        {memory.personaId && personaNames.has(memory.personaId) && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">
+                            with {personaNames.get(memory.personaId)}
+                          </span>
+                        )}
+                        {memory.tags.map(tagId => tagsById.get(tagId)).filter(tag => tag !== undefined).map(tag => (
+                          <TagBadge key={tag.id} tag={tag} size="sm" />
+                        ))}
+                      </div>
+
+                      {sourceMessage && memory.chatId && (
+                        <blockquote className="text-xs text-gray-600 dark:text-gray-300 border-l-2 border-amber-300 dark:border-amber-700 pl-2">
+                          <span className="font-medium">{sourceMessage.role === 'USER' ? 'User' : 'Character'}:</span>{' '}
+                          {sourceMessage.excerpt}{' '}
+                          <Link
+                            href={messageLink(memory.chatId, sourceMessage.id)}
+                            className="text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                          >
+                            View in chat
+                          </Link>
+                        </blockquote>
+                      )}
+                      {sourceMissing && (
+                        <p className="text-xs italic text-gray-400 dark:text-gray-500">The source message no longer exists</p>
+                      )}
+
+                      {memory.consolidatedFrom && memory.consolidatedFrom.length > 0 && (
+                        <details className="text-xs text-gray-600 dark:text-gray-300">
+                          <summary className="cursor-pointer">Merged from {memory.consolidatedFrom.length} memories</summary>
+                          <ul className="mt-1 space-y-1 pl-4 list-disc">
+                            {memory.consolidatedFrom.map(source => (
+                              <li key={source.memoryId}>
+                                {source.summary}
+                                {source.chatId && source.sourceMessageId && (
+                                  <>
+                                    {' '}
+                                    <Link
+                                      href={messageLink(source.chatId, source.sourceMessageId)}
+                                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                                    >
+                                      source
+                                    </Link>
+                                  </>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
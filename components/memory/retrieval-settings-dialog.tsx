@@ -0,0 +1,236 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { showErrorToast, showSuccessToast } from '@/lib/toast'
+
+interface MemoryRetrievalSettings {
+  lexicalWeight: number
+  semanticWeight: number
+  rrfK: number
+  recencyWeight: number
+  recencyHalfLifeDays: number
+  importanceWeight: number
+  mmrLambda: number
+}
+
+const DEFAULT_SETTINGS: MemoryRetrievalSettings = {
+  lexicalWeight: 1,
+  semanticWeight: 1,
+  rrfK: 60,
+  recencyWeight: 0,
+  recencyHalfLifeDays: 30,
+  importanceWeight: 0,
+  mmrLambda: 0.7,
+}
+
+const WEIGHT_FIELDS: { key: keyof MemoryRetrievalSettings; label: string; hint: string }[] = [
+  { key: 'lexicalWeight', label: 'Keyword matching', hint: 'BM25 match on memory text and keywords' },
+  { key: 'semanticWeight', label: 'Meaning similarity', hint: 'Embedding similarity (needs an embedding profile)' },
+  { key: 'recencyWeight', label: 'Recency boost', hint: 'Prefer newer memories' },
+  { key: 'importanceWeight', label: 'Importance boost', hint: 'Prefer memories marked as important' },
+]
+
+type MemoryVisibility = 'GLOBAL' | 'PERSONA' | 'CHAT'
+
+const VISIBILITY_OPTIONS: { value: MemoryVisibility; label: string }[] = [
+  { value: 'GLOBAL', label: 'Everywhere' },
+  { value: 'PERSONA', label: 'Only with the same persona' },
+  { value: 'CHAT', label: 'Only in the chat they came from' },
+]
+
+interface RetrievalSettingsDialogProps {
+  characterId: string
+  onClose: () => void
+}
+
+export function RetrievalSettingsDialog({ characterId, onClose }: RetrievalSettingsDialogProps) {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [settings, setSettings] = useState<MemoryRetrievalSettings>(DEFAULT_SETTINGS)
+  const [autoVisibility, setAutoVisibility] = useState<MemoryVisibility>('GLOBAL')
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const res = await fetch(`/api/characters/${characterId}`)
+        if (!res.ok) throw new Error('Failed to load character')
+        const data = await res.json()
+        setSettings({ ...DEFAULT_SETTINGS, ...(data.character?.memoryRetrieval || {}) })
+        setAutoVisibility(data.character?.autoMemoryVisibility || 'GLOBAL')
+      } catch (err) {
+        showErrorToast(err instanceof Error ? err.message : 'Failed to load retrieval settings')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSettings()
+  }, [characterId])
+
+  const update = (key: keyof MemoryRetrievalSettings, value: number) => {
+    setSettings(prev => ({ ...prev, [key]: value }))
+  }
+
+  const handleSave = async (next: MemoryRetrievalSettings | null) => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/characters/${characterId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ memoryRetrieval: next, autoMemoryVisibility: next ? autoVisibility : null }),
+      })
+      if (!res.ok) throw new Error('Failed to save retrieval settings')
+
+      showSuccessToast(next ? 'Retrieval settings saved' : 'Retrieval settings reset to defaults')
+      onClose()
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to save retrieval settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Memory Retrieval
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            How this character&apos;s memories are ranked and where they can be recalled into a conversation.
+          </p>
+        </div>
+
+        {/* Options */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {loading ? (
+            <p className="text-gray-500 dark:text-gray-400">Loading settings...</p>
+          ) : (
+            <>
+              {WEIGHT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {field.label}: {(settings[field.key] * 100).toFixed(0)}%
+                  </label>
+                  <input
+                    type="range"
+                    value={settings[field.key]}
+                    onChange={(e) => update(field.key, parseFloat(e.target.value))}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    className="w-full h-2 bg-gray-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{field.hint}</p>
+                </div>
+              ))}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Diversity: {((1 - settings.mmrLambda) * 100).toFixed(0)}%
+                </label>
+                <input
+                  type="range"
+                  value={1 - settings.mmrLambda}
+                  onChange={(e) => update('mmrLambda', 1 - parseFloat(e.target.value))}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  className="w-full h-2 bg-gray-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Skip memories that repeat ones already recalled
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Recency half-life (days)
+                  </label>
+                  <input
+                    type="number"
+                    value={settings.recencyHalfLifeDays}
+                    onChange={(e) => update('recencyHalfLifeDays', parseInt(e.target.value) || DEFAULT_SETTINGS.recencyHalfLifeDays)}
+                    min={1}
+                    max={3650}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Rank fusion constant
+                  </label>
+                  <input
+                    type="number"
+                    value={settings.rrfK}
+                    onChange={(e) => update('rrfK', parseInt(e.target.value) || DEFAULT_SETTINGS.rrfK)}
+                    min={1}
+                    max={200}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Recall auto-generated memories
+                </label>
+                <select
+                  value={autoVisibility}
+                  onChange={(e) => setAutoVisibility(e.target.value as MemoryVisibility)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {VISIBILITY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Applies to memories formed from now on; existing memories keep their visibility
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-200 dark:border-slate-700 flex justify-between gap-3">
+          <button
+            onClick={() => handleSave(null)}
+            disabled={loading || saving}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-50"
+          >
+            Reset to defaults
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleSave(settings)}
+              disabled={loading || saving}
+              className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-800 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,304 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { showErrorToast, showSuccessToast } from '@/lib/toast'
+
+interface ProposalMemory {
+  id: string
+  summary: string
+  content: string
+  importance: number
+  createdAt: string
+}
+
+interface MemoryProposal {
+  id: string
+  type: 'MERGE' | 'CONFLICT'
+  reason: string
+  content: string
+  summary: string
+  keywords: string[]
+  importance: number
+  createdAt: string
+  memories: ProposalMemory[]
+}
+
+interface ProposalDraft {
+  content: string
+  summary: string
+  keywords: string
+  importance: number
+}
+
+interface ReviewQueueDialogProps {
+  characterId: string
+  onClose: () => void
+  onResolved: () => void
+}
+
+export function ReviewQueueDialog({ characterId, onClose, onResolved }: ReviewQueueDialogProps) {
+  const [proposals, setProposals] = useState<MemoryProposal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reviewing, setReviewing] = useState(false)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<ProposalDraft | null>(null)
+
+  const fetchProposals = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/characters/${characterId}/memories/proposals`)
+      if (!res.ok) throw new Error('Failed to load review queue')
+      const data = await res.json()
+      setProposals(data.proposals)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [characterId])
+
+  useEffect(() => {
+    fetchProposals()
+  }, [fetchProposals])
+
+  const handleReviewAll = async () => {
+    setReviewing(true)
+    try {
+      const res = await fetch(`/api/characters/${characterId}/memories/proposals`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to review memories')
+      showSuccessToast(
+        data.proposalsCreated > 0
+          ? `Found ${data.proposalsCreated} memories to review`
+          : 'No new merges or contradictions found'
+      )
+      fetchProposals()
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to review memories')
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  const startEditing = (proposal: MemoryProposal) => {
+    setEditingId(proposal.id)
+    setDraft({
+      content: proposal.content,
+      summary: proposal.summary,
+      keywords: proposal.keywords.join(', '),
+      importance: proposal.importance,
+    })
+  }
+
+  const resolve = async (proposal: MemoryProposal, action: 'accept' | 'edit' | 'reject') => {
+    setResolvingId(proposal.id)
+    try {
+      const body = action === 'edit' && draft
+        ? {
+          action,
+          content: draft.content,
+          summary: draft.summary,
+          keywords: draft.keywords.split(',').map(k => k.trim()).filter(Boolean),
+          importance: draft.importance,
+        }
+        : { action }
+
+      const res = await fetch(`/api/characters/${characterId}/memories/proposals/${proposal.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.reason ? `${data.error}: ${data.reason}` : data.error || 'Failed to resolve proposal')
+
+      setProposals(prev => prev.filter(p => p.id !== proposal.id))
+      setEditingId(null)
+      setDraft(null)
+      showSuccessToast(action === 'reject' ? 'Proposal dismissed' : 'Memories merged')
+      if (action !== 'reject') {
+        onResolved()
+      }
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to resolve proposal')
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Memory Review
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Similar memories that could be merged, and memories that contradict each other.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <p className="text-gray-500 dark:text-gray-400">Loading review queue...</p>
+            </div>
+          ) : error ? (
+            <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded">
+              {error}
+            </div>
+          ) : proposals.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <p>Nothing to review.</p>
+            </div>
+          ) : (
+            proposals.map(proposal => {
+              const editing = editingId === proposal.id && draft
+              const busy = resolvingId === proposal.id
+
+              return (
+                <div
+                  key={proposal.id}
+                  className="border border-gray-200 dark:border-slate-700 rounded-lg p-4 space-y-3"
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`px-2 py-0.5 text-xs font-medium rounded ${
+                        proposal.type === 'CONFLICT'
+                          ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                          : 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                      }`}
+                    >
+                      {proposal.type === 'CONFLICT' ? 'Contradiction' : 'Merge'}
+                    </span>
+                    <p className="text-sm text-gray-600 dark:text-gray-300">{proposal.reason}</p>
+                  </div>
+
+                  <ul className="space-y-1">
+                    {proposal.memories.map(memory => (
+                      <li key={memory.id} className="text-sm text-gray-700 dark:text-gray-300 flex gap-2">
+                        <span className="text-gray-400 dark:text-gray-500 shrink-0">
+                          {new Date(memory.createdAt).toLocaleDateString()}
+                        </span>
+                        <span>{memory.summary}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {editing ? (
+                    <div className="space-y-2">
+                      <input
+                        type="text"
+                        value={draft.summary}
+                        onChange={e => setDraft({ ...draft, summary: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white text-sm"
+                        placeholder="Summary"
+                      />
+                      <textarea
+                        value={draft.content}
+                        onChange={e => setDraft({ ...draft, content: e.target.value })}
+                        rows={3}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white text-sm"
+                        placeholder="Content"
+                      />
+                      <input
+                        type="text"
+                        value={draft.keywords}
+                        onChange={e => setDraft({ ...draft, keywords: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white text-sm"
+                        placeholder="Keywords, comma separated"
+                      />
+                      <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                        Importance
+                        <input
+                          type="range"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={draft.importance}
+                          onChange={e => setDraft({ ...draft, importance: parseFloat(e.target.value) })}
+                          className="flex-1"
+                        />
+                        {(draft.importance * 100).toFixed(0)}%
+                      </label>
+                    </div>
+                  ) : (
+                    <div className="bg-gray-50 dark:bg-slate-900/50 rounded-lg p-3">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{proposal.summary}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{proposal.content}</p>
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => resolve(proposal, 'reject')}
+                      disabled={busy}
+                      className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                    {editing ? (
+                      <button
+                        onClick={() => { setEditingId(null); setDraft(null) }}
+                        disabled={busy}
+                        className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => startEditing(proposal)}
+                        disabled={busy}
+                        className="px-3 py-1.5 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    <button
+                      onClick={() => resolve(proposal, editing ? 'edit' : 'accept')}
+                      disabled={busy}
+                      className="px-3 py-1.5 bg-blue-600 dark:bg-blue-700 text-white text-sm rounded-lg hover:bg-blue-700 dark:hover:bg-blue-800 disabled:opacity-50"
+                    >
+                      {busy ? 'Saving...' : editing ? 'Save & Accept' : 'Accept'}
+                    </button>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-200 dark:border-slate-700 flex justify-between">
+          <button
+            onClick={handleReviewAll}
+            disabled={reviewing}
+            className="px-4 py-2 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600 disabled:opacity-50"
+            title="Check all memories for merges and contradictions"
+          >
+            {reviewing ? 'Reviewing...' : 'Review All Memories'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -59,6 +59,7 @@ export interface DebugEntry {
     contextManagement?: {
       tokenUsage: {
         systemPrompt: number;
+        worldInfo?: number;
         memories: number;
         summary: number;
         recentMessages: number;
@@ -69,6 +70,7 @@ export interface DebugEntry {
         responseReserve: number;
       };
       memoriesIncluded: number;
+      worldInfoEntriesIncluded?: number;
       messagesIncluded: number;
       messagesTruncated: boolean;
       includedSummary: boolean;
@@ -76,6 +78,15 @@ export interface DebugEntry {
       debugMemories?: Array<{ summary: string; importance: number; score: number }>;
       debugSummary?: string;
       debugSystemPrompt?: string;
+      debugWorldInfo?: Array<{
+        lorebookId: string;
+        lorebookName: string;
+        entryId: string;
+        entryName: string;
+        position: string;
+        matchedKey: string | null;
+        tokens: number;
+      }>;
     };
   };
   // Memory extraction debug logs (Sprint 6)
@@ -7,11 +7,23 @@ import { DEFAULT_TAG_STYLE, mergeWithDefaultTagStyle } from '@/lib/tags/styles'
 import type { TagVisualStyle } from '@/lib/schemas/types'
 import { TagBadge } from '@/components/tags/tag-badge'
 import { useQuickHide } from '@/components/providers/quick-hide-provider'
+import { TOOL_POLICY_OPTIONS, TOOL_POLICY_TARGETS } from '@/lib/chat/tool-policy-options'
 
 type AvatarDisplayMode = 'ALWAYS' | 'GROUP_ONLY' | 'NEVER'
 type AvatarDisplayStyle = 'CIRCULAR' | 'RECTANGULAR'
 type CheapLLMStrategy = 'USER_DEFINED' | 'PROVIDER_CHEAPEST' | 'LOCAL_FIRST'
 type EmbeddingProvider = 'SAME_PROVIDER' | 'OPENAI' | 'LOCAL'
+type ToolPolicy = 'ALWAYS_ALLOW' | 'ASK' | 'NEVER'
+type WebSearchBackend = 'NONE' | 'SEARXNG' | 'BRAVE' | 'TAVILY' | 'PLUGIN'
+
+interface WebSearchSettings {
+  backend: WebSearchBackend
+  baseUrl?: string | null
+  apiKeyId?: string | null
+  pluginBackendId?: string | null
+  fetchPageContent: boolean
+  maxPageChars: number
+}
 
 interface CheapLLMSettings {
   strategy: CheapLLMStrategy
@@ -30,6 +42,8 @@ interface ChatSettings {
   tagStyles: Record<string, TagVisualStyle>
   cheapLLMSettings: CheapLLMSettings
   imageDescriptionProfileId?: string | null
+  toolPolicies?: Record<string, ToolPolicy>
+  webSearchSettings?: WebSearchSettings
   createdAt: string
   updatedAt: string
 }
@@ -51,6 +65,32 @@ interface EmbeddingProfile {
   isDefault: boolean
 }
 
+interface ApiKeyOption {
+  id: string
+  label: string
+  provider: string
+}
+
+interface SearchBackendOption {
+  backendId: string
+  displayName: string
+  description?: string
+}
+
+const DEFAULT_WEB_SEARCH_SETTINGS: WebSearchSettings = {
+  backend: 'NONE',
+  fetchPageContent: true,
+  maxPageChars: 4000,
+}
+
+const WEB_SEARCH_BACKENDS: { value: WebSearchBackend; label: string; description: string }[] = [
+  { value: 'NONE', label: 'Off', description: 'The search_web tool is not offered to characters.' },
+  { value: 'SEARXNG', label: 'SearxNG', description: 'A SearxNG instance (or compatible endpoint) with the JSON format enabled.' },
+  { value: 'BRAVE', label: 'Brave Search', description: 'Brave Search API. Needs an API key.' },
+  { value: 'TAVILY', label: 'Tavily', description: 'Tavily search API. Needs an API key.' },
+  { value: 'PLUGIN', label: 'Plugin', description: 'A search backend provided by an installed plugin.' },
+]
+
 interface TagOption {
   id: string
   name: string
@@ -103,6 +143,9 @@ export default function ChatSettingsTab() {
   const [connectionProfiles, setConnectionProfiles] = useState<ConnectionProfile[]>([])
   const [embeddingProfiles, setEmbeddingProfiles] = useState<EmbeddingProfile[]>([])
   const [loadingProfiles, setLoadingProfiles] = useState(false)
+  const [apiKeys, setApiKeys] = useState<ApiKeyOption[]>([])
+  const [pluginSearchBackends, setPluginSearchBackends] = useState<SearchBackendOption[]>([])
+  const [searchBaseUrlDraft, setSearchBaseUrlDraft] = useState<string | null>(null)
   const { updateStyles: syncTagStyleContext } = useTagStyles()
   const { refresh: refreshQuickHideTags } = useQuickHide()
   const tagFetchIdRef = useRef(0)
@@ -174,12 +217,31 @@ export default function ChatSettingsTab() {
     }
   }, [])
 
+  const fetchSearchOptions = useCallback(async () => {
+    try {
+      const [keysRes, backendsRes] = await Promise.all([
+        fetch('/api/keys'),
+        fetch('/api/search-backends'),
+      ])
+      if (keysRes.ok) {
+        setApiKeys(await keysRes.json())
+      }
+      if (backendsRes.ok) {
+        const data = await backendsRes.json()
+        setPluginSearchBackends(data.backends || [])
+      }
+    } catch (err) {
+      clientLogger.error('Error loading web search options', { error: err instanceof Error ? err.message : String(err) })
+    }
+  }, [])
+
   useEffect(() => {
     fetchSettings()
     fetchTags()
     fetchConnectionProfiles()
     fetchEmbeddingProfiles()
-  }, [fetchSettings, fetchTags, fetchConnectionProfiles, fetchEmbeddingProfiles])
+    fetchSearchOptions()
+  }, [fetchSettings, fetchTags, fetchConnectionProfiles, fetchEmbeddingProfiles, fetchSearchOptions])
 
   const handleAvatarModeChange = async (mode: AvatarDisplayMode) => {
     if (!settings) return
@@ -328,6 +390,69 @@ export default function ChatSettingsTab() {
     }
   }
 
+  const handleToolPolicyChange = async (toolName: string, policy: ToolPolicy) => {
+    if (!settings) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      setSuccess(false)
+
+      const res = await fetch('/api/chat-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ toolPolicies: { ...settings.toolPolicies, [toolName]: policy } }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to update tool policies')
+      }
+
+      const updatedSettings = await res.json()
+      setSettings(updatedSettings)
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 2000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const webSearchSettings = settings?.webSearchSettings ?? DEFAULT_WEB_SEARCH_SETTINGS
+
+  const handleWebSearchUpdate = async (updates: Partial<WebSearchSettings>) => {
+    if (!settings) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      setSuccess(false)
+
+      const res = await fetch('/api/chat-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ webSearchSettings: { ...webSearchSettings, ...updates } }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to update web search settings')
+      }
+
+      const updatedSettings = await res.json()
+      setSettings(updatedSettings)
+      setSearchBaseUrlDraft(null)
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 2000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   const handleAddTagStyle = useCallback(() => {
     if (!selectedTagId || !settings) return
     const nextStyles = {
@@ -724,6 +849,172 @@ export default function ChatSettingsTab() {
         </div>
       </div>
 
+      {/* Web Search */}
+      <div className="border-t border-gray-200 dark:border-slate-700 pt-6">
+        <h2 className="text-xl font-semibold mb-4">Web Search</h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">
+          Backend used when a character calls the web search tool on a connection profile with web search allowed.
+          Providers with built-in web search use their own instead.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Search Backend
+            </label>
+            <select
+              value={webSearchSettings.backend}
+              onChange={(e) => handleWebSearchUpdate({ backend: e.target.value as WebSearchBackend })}
+              disabled={saving}
+              className="w-full rounded-md border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {WEB_SEARCH_BACKENDS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+              {WEB_SEARCH_BACKENDS.find(option => option.value === webSearchSettings.backend)?.description}
+            </p>
+          </div>
+
+          {webSearchSettings.backend === 'PLUGIN' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Plugin Backend
+              </label>
+              <select
+                value={webSearchSettings.pluginBackendId || ''}
+                onChange={(e) => handleWebSearchUpdate({ pluginBackendId: e.target.value || null })}
+                disabled={saving}
+                className="w-full rounded-md border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Select a backend</option>
+                {pluginSearchBackends.map((backend) => (
+                  <option key={backend.backendId} value={backend.backendId}>
+                    {backend.displayName}
+                  </option>
+                ))}
+              </select>
+              {pluginSearchBackends.length === 0 && (
+                <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                  No search backend plugins are installed.
+                </p>
+              )}
+            </div>
+          )}
+
+          {webSearchSettings.backend !== 'NONE' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {webSearchSettings.backend === 'SEARXNG' ? 'Instance URL' : 'API Endpoint Override'}
+                </label>
+                <input
+                  type="url"
+                  value={searchBaseUrlDraft ?? webSearchSettings.baseUrl ?? ''}
+                  onChange={(e) => setSearchBaseUrlDraft(e.target.value)}
+                  onBlur={() => {
+                    if (searchBaseUrlDraft !== null && searchBaseUrlDraft !== (webSearchSettings.baseUrl ?? '')) {
+                      handleWebSearchUpdate({ baseUrl: searchBaseUrlDraft.trim() || null })
+                    }
+                  }}
+                  disabled={saving}
+                  placeholder={webSearchSettings.backend === 'SEARXNG' ? 'https://searx.example.org' : 'Leave blank for the default endpoint'}
+                  className="w-full rounded-md border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  API Key
+                </label>
+                <select
+                  value={webSearchSettings.apiKeyId || ''}
+                  onChange={(e) => handleWebSearchUpdate({ apiKeyId: e.target.value || null })}
+                  disabled={saving}
+                  className="w-full rounded-md border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">None</option>
+                  {apiKeys.map((key) => (
+                    <option key={key.id} value={key.id}>
+                      {key.label} ({key.provider})
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  Add search API keys in the API Keys tab (any provider name, e.g. BRAVE or TAVILY).
+                </p>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-6">
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={webSearchSettings.fetchPageContent}
+                    onChange={(e) => handleWebSearchUpdate({ fetchPageContent: e.target.checked })}
+                    disabled={saving}
+                    className="rounded"
+                  />
+                  <span>Read result pages</span>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <span>Characters per page</span>
+                  <input
+                    type="number"
+                    min={500}
+                    max={20000}
+                    step={500}
+                    value={webSearchSettings.maxPageChars}
+                    onChange={(e) => {
+                      const value = Number.parseInt(e.target.value, 10)
+                      if (Number.isInteger(value) && value >= 500 && value <= 20000) {
+                        handleWebSearchUpdate({ maxPageChars: value })
+                      }
+                    }}
+                    disabled={saving || !webSearchSettings.fetchPageContent}
+                    className="w-28 rounded-md border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white px-2 py-1"
+                  />
+                </label>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Tool Approval */}
+      <div className="border-t border-gray-200 dark:border-slate-700 pt-6">
+        <h2 className="text-xl font-semibold mb-4">Tool Approval</h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">
+          Choose which tools characters may use on their own. &quot;Ask every time&quot; pauses the reply until you allow or deny the call;
+          &quot;Never&quot; hides the tool from the model. Individual chats can override these in their chat settings.
+        </p>
+
+        <div className="space-y-3">
+          {TOOL_POLICY_TARGETS.map((target) => (
+            <div key={target.toolName} className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <div className="text-sm font-medium text-gray-700 dark:text-gray-300">{target.label}</div>
+                <p className="text-xs text-gray-600 dark:text-gray-400">{target.description}</p>
+              </div>
+              <select
+                value={settings?.toolPolicies?.[target.toolName] || 'ALWAYS_ALLOW'}
+                onChange={(e) => handleToolPolicyChange(target.toolName, e.target.value as ToolPolicy)}
+                disabled={saving}
+                className="rounded-md border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {TOOL_POLICY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
       <div className="border-t border-gray-200 dark:border-slate-700 pt-6">
         <h2 className="text-xl font-semibold mb-4">Tag Appearance</h2>
         <p className="text-gray-600 dark:text-gray-400 mb-4">
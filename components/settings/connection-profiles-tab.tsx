@@ -46,6 +46,7 @@ interface ConnectionProfile {
   isDefault: boolean
   isCheap?: boolean
   allowWebSearch?: boolean
+  maxToolIterations?: number
   apiKey?: ApiKey | null
   tags?: Tag[]
   messageCount?: number
@@ -74,6 +75,7 @@ export default function ConnectionProfilesTab() {
     isDefault: false,
     isCheap: false,
     allowWebSearch: false,
+    maxToolIterations: 5,
   })
 
   // Connection testing states
@@ -279,6 +281,7 @@ export default function ConnectionProfilesTab() {
       isDefault: false,
       isCheap: false,
       allowWebSearch: false,
+      maxToolIterations: 5,
     })
     setEditingId(null)
     // Reset connection states
@@ -302,6 +305,7 @@ export default function ConnectionProfilesTab() {
       isDefault: profile.isDefault,
       isCheap: profile.isCheap ?? false,
       allowWebSearch: profile.allowWebSearch ?? false,
+      maxToolIterations: profile.maxToolIterations ?? 5,
     })
     setEditingId(profile.id)
     setShowForm(true)
@@ -331,6 +335,7 @@ export default function ConnectionProfilesTab() {
         isDefault: formData.isDefault,
         isCheap: formData.isCheap,
         allowWebSearch: formData.allowWebSearch,
+        maxToolIterations: parseInt(String(formData.maxToolIterations)) || 5,
         parameters: {
           temperature: parseFloat(String(formData.temperature)),
           max_tokens: parseInt(String(formData.maxTokens)),
@@ -992,6 +997,23 @@ export default function ConnectionProfilesTab() {
                   />
                   <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Nucleus sampling (0-1)</p>
                 </div>
+
+                <div>
+                  <label htmlFor="maxToolIterations" className="block text-sm font-medium mb-2">
+                    Max Tool Rounds
+                  </label>
+                  <input
+                    type="number"
+                    id="maxToolIterations"
+                    name="maxToolIterations"
+                    value={formData.maxToolIterations}
+                    onChange={handleChange}
+                    min="1"
+                    max="25"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                  />
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Rounds of tool calls allowed per response (1-25)</p>
+                </div>
               </div>
             </div>
 
@@ -17,10 +17,13 @@ interface EmbeddingModel {
   description: string
 }
 
+// OPENAI, OLLAMA and LOCAL are built in; provider plugins can add others
+type EmbeddingProvider = string
+
 interface EmbeddingProfile {
   id: string
   name: string
-  provider: 'OPENAI' | 'OLLAMA'
+  provider: EmbeddingProvider
   apiKeyId?: string
   baseUrl?: string
   modelName: string
@@ -32,6 +35,25 @@ interface EmbeddingProfile {
 const PROVIDER_COLORS: Record<string, string> = {
   OPENAI: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-400',
   OLLAMA: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400',
+  LOCAL: 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-400',
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  OPENAI: 'OpenAI',
+  OLLAMA: 'Ollama (Local)',
+  LOCAL: 'Local (CPU, offline)',
+  GOOGLE: 'Google Gemini',
+  OPENROUTER: 'OpenRouter',
+  OPENAI_COMPATIBLE: 'OpenAI-compatible',
+}
+
+// Providers that never need an API key
+const KEYLESS_PROVIDERS = ['OLLAMA', 'LOCAL']
+
+// Providers that run against a server the user points at
+const BASE_URL_DEFAULTS: Record<string, string> = {
+  OLLAMA: 'http://localhost:11434',
+  OPENAI_COMPATIBLE: 'http://localhost:8080/v1',
 }
 
 function ProviderBadge({ provider }: { provider: string }) {
@@ -55,7 +77,7 @@ export default function EmbeddingProfilesTab() {
   // Form state
   const [formData, setFormData] = useState({
     name: '',
-    provider: 'OPENAI' as 'OPENAI' | 'OLLAMA',
+    provider: 'OPENAI' as EmbeddingProvider,
     apiKeyId: '',
     baseUrl: '',
     modelName: '',
@@ -197,11 +219,12 @@ export default function EmbeddingProfilesTab() {
   }
 
   // Filter API keys for selected provider
-  const filteredApiKeys = apiKeys.filter(key => {
-    if (formData.provider === 'OPENAI') return key.provider === 'OPENAI'
-    if (formData.provider === 'OLLAMA') return key.provider === 'OLLAMA'
-    return false
-  })
+  const filteredApiKeys = apiKeys.filter(key => key.provider === formData.provider)
+  const needsApiKey = !KEYLESS_PROVIDERS.includes(formData.provider)
+  const baseUrlDefault = BASE_URL_DEFAULTS[formData.provider]
+
+  // Built-in providers first, then any plugin that lists embedding models
+  const providerOptions = [...new Set(['OPENAI', 'OLLAMA', 'LOCAL', ...Object.keys(embeddingModels)])]
 
   const currentModels = embeddingModels[formData.provider] || []
 
@@ -220,7 +243,7 @@ export default function EmbeddingProfilesTab() {
         <div>
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Embedding Profiles</h2>
           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-            Manage text embedding connections for semantic search (OpenAI or Ollama)
+            Manage text embedding connections for semantic search (OpenAI, Ollama, a local model, or any provider plugin with embedding support)
           </p>
         </div>
         {!showForm && !editingId && (
@@ -276,16 +299,24 @@ export default function EmbeddingProfilesTab() {
               </label>
               <select
                 value={formData.provider}
-                onChange={e => setFormData(prev => ({ ...prev, provider: e.target.value as 'OPENAI' | 'OLLAMA', apiKeyId: '', modelName: '', dimensions: '' }))}
+                onChange={e => setFormData(prev => ({ ...prev, provider: e.target.value as EmbeddingProvider, apiKeyId: '', modelName: '', dimensions: '' }))}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
               >
-                <option value="OPENAI">OpenAI</option>
-                <option value="OLLAMA">Ollama (Local)</option>
+                {providerOptions.map(provider => (
+                  <option key={provider} value={provider}>
+                    {PROVIDER_LABELS[provider] || provider}
+                  </option>
+                ))}
               </select>
+              {formData.provider === 'LOCAL' && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Runs in the Quilltap server process. The model is downloaded once on first use and cached on disk; after that no network access is needed.
+                </p>
+              )}
             </div>
 
-            {/* API Key (for OpenAI) */}
-            {formData.provider === 'OPENAI' && (
+            {/* API Key (for hosted providers) */}
+            {needsApiKey && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   API Key
@@ -304,14 +335,14 @@ export default function EmbeddingProfilesTab() {
                 </select>
                 {filteredApiKeys.length === 0 && (
                   <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
-                    No OpenAI API keys found. Add one in the API Keys tab first.
+                    No {PROVIDER_LABELS[formData.provider] || formData.provider} API keys found. Add one in the API Keys tab first.
                   </p>
                 )}
               </div>
             )}
 
-            {/* Base URL (for Ollama) */}
-            {formData.provider === 'OLLAMA' && (
+            {/* Base URL (for self-hosted servers) */}
+            {baseUrlDefault && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Base URL
@@ -321,10 +352,10 @@ export default function EmbeddingProfilesTab() {
                   value={formData.baseUrl}
                   onChange={e => setFormData(prev => ({ ...prev, baseUrl: e.target.value }))}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
-                  placeholder="http://localhost:11434"
+                  placeholder={baseUrlDefault}
                 />
                 <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                  Leave empty for default Ollama URL (http://localhost:11434)
+                  Leave empty for the default URL ({baseUrlDefault})
                 </p>
               </div>
             )}
@@ -0,0 +1,716 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { clientLogger } from '@/lib/client-logger'
+
+type LorebookPosition = 'BEFORE_CHARACTER' | 'AFTER_CHARACTER'
+
+interface LorebookEntry {
+  id?: string
+  name: string
+  keys: string[]
+  secondaryKeys: string[]
+  useRegex: boolean
+  caseSensitive: boolean
+  matchWholeWords: boolean
+  content: string
+  constant: boolean
+  enabled: boolean
+  position: LorebookPosition
+  insertionOrder: number
+  scanDepth?: number | null
+}
+
+interface Lorebook {
+  id: string
+  name: string
+  description?: string | null
+  entries: LorebookEntry[]
+  scanDepth: number
+  tokenBudget: number
+  enabled: boolean
+  characterIds: string[]
+  personaIds: string[]
+  chatIds: string[]
+}
+
+interface NamedItem {
+  id: string
+  name: string
+}
+
+interface LorebookForm {
+  name: string
+  description: string
+  scanDepth: string
+  tokenBudget: string
+  enabled: boolean
+  characterIds: string[]
+  personaIds: string[]
+  chatIds: string[]
+  entries: LorebookEntry[]
+}
+
+const EMPTY_FORM: LorebookForm = {
+  name: '',
+  description: '',
+  scanDepth: '4',
+  tokenBudget: '1024',
+  enabled: true,
+  characterIds: [],
+  personaIds: [],
+  chatIds: [],
+  entries: [],
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400'
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+
+function newEntry(): LorebookEntry {
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    keys: [],
+    secondaryKeys: [],
+    useRegex: false,
+    caseSensitive: false,
+    matchWholeWords: true,
+    content: '',
+    constant: false,
+    enabled: true,
+    position: 'AFTER_CHARACTER',
+    insertionOrder: 100,
+    scanDepth: null,
+  }
+}
+
+function parseKeys(value: string): string[] {
+  return value.split(',').map(k => k.trim()).filter(Boolean)
+}
+
+function AttachmentPicker({
+  label,
+  items,
+  selected,
+  onChange,
+}: {
+  label: string
+  items: NamedItem[]
+  selected: string[]
+  onChange: (ids: string[]) => void
+}) {
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id])
+  }
+
+  return (
+    <div>
+      <p className={labelClass}>{label}</p>
+      {items.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">None available</p>
+      ) : (
+        <div className="max-h-32 overflow-y-auto border border-gray-200 dark:border-slate-700 rounded-md p-2 space-y-1 bg-white dark:bg-slate-800">
+          {items.map(item => (
+            <label key={item.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={selected.includes(item.id)}
+                onChange={() => toggle(item.id)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="truncate">{item.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function EntryEditor({
+  entry,
+  onChange,
+  onRemove,
+}: {
+  entry: LorebookEntry
+  onChange: (entry: LorebookEntry) => void
+  onRemove: () => void
+}) {
+  const update = (changes: Partial<LorebookEntry>) => onChange({ ...entry, ...changes })
+
+  return (
+    <div className="border border-gray-200 dark:border-slate-700 rounded-md p-4 space-y-3 bg-white dark:bg-slate-800">
+      <div className="flex gap-3">
+        <input
+          type="text"
+          value={entry.name}
+          onChange={e => update({ name: e.target.value })}
+          className={inputClass}
+          placeholder="Entry name"
+        />
+        <button
+          type="button"
+          onClick={onRemove}
+          className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded border border-red-200 dark:border-red-900/50"
+        >
+          Remove
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Keys (comma separated)</label>
+          <input
+            type="text"
+            defaultValue={entry.keys.join(', ')}
+            onBlur={e => update({ keys: parseKeys(e.target.value) })}
+            className={inputClass}
+            placeholder={entry.useRegex ? '/dragons?/i' : 'dragon, wyrm'}
+            disabled={entry.constant}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Secondary keys (optional)</label>
+          <input
+            type="text"
+            defaultValue={entry.secondaryKeys.join(', ')}
+            onBlur={e => update({ secondaryKeys: parseKeys(e.target.value) })}
+            className={inputClass}
+            disabled={entry.constant}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Content</label>
+        <textarea
+          value={entry.content}
+          onChange={e => update({ content: e.target.value })}
+          className={inputClass}
+          rows={4}
+          placeholder="Text inserted into the context when this entry triggers"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Position</label>
+          <select
+            value={entry.position}
+            onChange={e => update({ position: e.target.value as LorebookPosition })}
+            className={inputClass}
+          >
+            <option value="BEFORE_CHARACTER">Before character</option>
+            <option value="AFTER_CHARACTER">After character</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Insertion order</label>
+          <input
+            type="number"
+            value={entry.insertionOrder}
+            onChange={e => update({ insertionOrder: Number(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Scan depth override</label>
+          <input
+            type="number"
+            min="0"
+            value={entry.scanDepth ?? ''}
+            onChange={e => update({ scanDepth: e.target.value === '' ? null : parseInt(e.target.value) })}
+            className={inputClass}
+            placeholder="Lorebook default"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700 dark:text-gray-300">
+        {([
+          ['enabled', 'Enabled'],
+          ['constant', 'Always active'],
+          ['useRegex', 'Regex keys'],
+          ['caseSensitive', 'Case sensitive'],
+          ['matchWholeWords', 'Whole words'],
+        ] as const).map(([field, label]) => (
+          <label key={field} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={entry[field]}
+              onChange={e => update({ [field]: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function LorebooksTab() {
+  const [lorebooks, setLorebooks] = useState<Lorebook[]>([])
+  const [characters, setCharacters] = useState<NamedItem[]>([])
+  const [personas, setPersonas] = useState<NamedItem[]>([])
+  const [chats, setChats] = useState<NamedItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [deleteConfirming, setDeleteConfirming] = useState<string | null>(null)
+  const [formData, setFormData] = useState<LorebookForm>(EMPTY_FORM)
+  const [formLoading, setFormLoading] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchLorebooks()
+    fetchAttachmentTargets()
+  }, [])
+
+  const fetchLorebooks = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const res = await fetch('/api/lorebooks')
+      if (!res.ok) throw new Error('Failed to fetch lorebooks')
+      const data = await res.json()
+      setLorebooks(data.lorebooks)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchAttachmentTargets = async () => {
+    try {
+      const [charactersRes, personasRes, chatsRes] = await Promise.all([
+        fetch('/api/characters'),
+        fetch('/api/personas'),
+        fetch('/api/chats'),
+      ])
+      if (charactersRes.ok) {
+        const data = await charactersRes.json()
+        setCharacters(data.characters.map((c: NamedItem) => ({ id: c.id, name: c.name })))
+      }
+      if (personasRes.ok) {
+        const data = await personasRes.json()
+        setPersonas(data.map((p: NamedItem) => ({ id: p.id, name: p.name })))
+      }
+      if (chatsRes.ok) {
+        const data = await chatsRes.json()
+        setChats(data.chats.map((c: { id: string; title: string }) => ({ id: c.id, name: c.title })))
+      }
+    } catch (err) {
+      clientLogger.error('Failed to fetch lorebook attachment targets', { error: err instanceof Error ? err.message : String(err) })
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      setError(null)
+      const body = new FormData()
+      body.append('file', file)
+      const res = await fetch('/api/lorebooks/import', { method: 'POST', body })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to import lorebook')
+      }
+      await fetchLorebooks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/lorebooks/${id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('Failed to delete lorebook')
+      await fetchLorebooks()
+      setDeleteConfirming(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormLoading(true)
+    setFormError(null)
+
+    try {
+      const payload = {
+        name: formData.name,
+        description: formData.description || null,
+        scanDepth: parseInt(formData.scanDepth) || 0,
+        tokenBudget: parseInt(formData.tokenBudget) || 0,
+        enabled: formData.enabled,
+        characterIds: formData.characterIds,
+        personaIds: formData.personaIds,
+        chatIds: formData.chatIds,
+        entries: formData.entries,
+      }
+
+      const url = editingId ? `/api/lorebooks/${editingId}` : '/api/lorebooks'
+      const method = editingId ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to save lorebook')
+      }
+
+      await fetchLorebooks()
+      handleFormCancel()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setFormLoading(false)
+    }
+  }
+
+  const handleFormCancel = () => {
+    setShowForm(false)
+    setEditingId(null)
+    setFormData(EMPTY_FORM)
+    setFormError(null)
+  }
+
+  const handleEdit = (lorebook: Lorebook) => {
+    setEditingId(lorebook.id)
+    setFormData({
+      name: lorebook.name,
+      description: lorebook.description || '',
+      scanDepth: lorebook.scanDepth.toString(),
+      tokenBudget: lorebook.tokenBudget.toString(),
+      enabled: lorebook.enabled,
+      characterIds: lorebook.characterIds,
+      personaIds: lorebook.personaIds,
+      chatIds: lorebook.chatIds,
+      entries: lorebook.entries,
+    })
+  }
+
+  const updateEntry = (index: number, entry: LorebookEntry) => {
+    setFormData(prev => ({ ...prev, entries: prev.entries.map((e, i) => (i === index ? entry : e)) }))
+  }
+
+  const removeEntry = (index: number) => {
+    setFormData(prev => ({ ...prev, entries: prev.entries.filter((_, i) => i !== index) }))
+  }
+
+  const nameOf = (items: NamedItem[], id: string) => items.find(i => i.id === id)?.name
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="text-gray-600 dark:text-gray-400">Loading lorebooks...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Lorebooks</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            World info entries inserted into the context when their keywords appear in the conversation.
+            Import and export SillyTavern World Info files.
+          </p>
+        </div>
+        {!showForm && !editingId && (
+          <div className="flex gap-2">
+            <label className="px-4 py-2 bg-gray-200 dark:bg-slate-700 text-gray-800 dark:text-white rounded-md hover:bg-gray-300 dark:hover:bg-slate-600 cursor-pointer">
+              Import
+              <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </label>
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+            >
+              New Lorebook
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Form */}
+      {(showForm || editingId) && (
+        <div className="border border-gray-200 dark:border-slate-700 rounded-lg p-6 bg-gray-50 dark:bg-slate-900/50">
+          <h3 className="text-md font-semibold text-gray-900 dark:text-white mb-4">
+            {editingId ? 'Edit Lorebook' : 'Create New Lorebook'}
+          </h3>
+
+          {formError && (
+            <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+              {formError}
+            </div>
+          )}
+
+          <form onSubmit={handleFormSubmit} className="space-y-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className={inputClass}
+                placeholder="Kingdom of Eldoria"
+                required
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Description</label>
+              <textarea
+                value={formData.description}
+                onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                className={inputClass}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Scan depth</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.scanDepth}
+                  onChange={e => setFormData(prev => ({ ...prev, scanDepth: e.target.value }))}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Number of recent messages searched for keys
+                </p>
+              </div>
+              <div>
+                <label className={labelClass}>Token budget</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.tokenBudget}
+                  onChange={e => setFormData(prev => ({ ...prev, tokenBudget: e.target.value }))}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Maximum tokens of entries inserted per request
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="lorebookEnabled"
+                checked={formData.enabled}
+                onChange={e => setFormData(prev => ({ ...prev, enabled: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="lorebookEnabled" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                Enabled
+              </label>
+            </div>
+
+            {/* Attachments */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <AttachmentPicker
+                label="Characters"
+                items={characters}
+                selected={formData.characterIds}
+                onChange={ids => setFormData(prev => ({ ...prev, characterIds: ids }))}
+              />
+              <AttachmentPicker
+                label="Personas"
+                items={personas}
+                selected={formData.personaIds}
+                onChange={ids => setFormData(prev => ({ ...prev, personaIds: ids }))}
+              />
+              <AttachmentPicker
+                label="Chats"
+                items={chats}
+                selected={formData.chatIds}
+                onChange={ids => setFormData(prev => ({ ...prev, chatIds: ids }))}
+              />
+            </div>
+
+            {/* Entries */}
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Entries ({formData.entries.length})
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, entries: [...prev.entries, newEntry()] }))}
+                  className="px-3 py-1 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded border border-blue-200 dark:border-blue-900/50"
+                >
+                  Add Entry
+                </button>
+              </div>
+              {formData.entries.map((entry, index) => (
+                <EntryEditor
+                  key={entry.id || index}
+                  entry={entry}
+                  onChange={updated => updateEntry(index, updated)}
+                  onRemove={() => removeEntry(index)}
+                />
+              ))}
+            </div>
+
+            {/* Buttons */}
+            <div className="flex gap-3 pt-4">
+              <button
+                type="submit"
+                disabled={formLoading}
+                className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50"
+              >
+                {formLoading ? 'Saving...' : editingId ? 'Update Lorebook' : 'Create Lorebook'}
+              </button>
+              <button
+                type="button"
+                onClick={handleFormCancel}
+                className="px-4 py-2 bg-gray-200 dark:bg-slate-700 text-gray-800 dark:text-white rounded-md hover:bg-gray-300 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-gray-500 dark:focus:ring-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Lorebooks List */}
+      {!showForm && !editingId && (
+        <div className="space-y-3">
+          {lorebooks.length === 0 ? (
+            <div className="text-center py-8 bg-gray-50 dark:bg-slate-900/30 rounded-lg border border-gray-200 dark:border-slate-700">
+              <p className="text-gray-600 dark:text-gray-400 mb-2">No lorebooks yet</p>
+              <p className="text-sm text-gray-500 dark:text-gray-500 mb-4">
+                Attach a lorebook to characters, personas or chats to give them world knowledge
+              </p>
+              <button
+                onClick={() => setShowForm(true)}
+                className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+              >
+                Create First Lorebook
+              </button>
+            </div>
+          ) : (
+            lorebooks.map(lorebook => {
+              const attachedTo = [
+                ...lorebook.characterIds.map(id => nameOf(characters, id)),
+                ...lorebook.personaIds.map(id => nameOf(personas, id)),
+                ...lorebook.chatIds.map(id => nameOf(chats, id)),
+              ].filter(Boolean)
+
+              return (
+                <div
+                  key={lorebook.id}
+                  className="border border-gray-200 dark:border-slate-700 rounded-lg p-4 hover:border-gray-300 dark:hover:border-slate-600 transition bg-white dark:bg-slate-800"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="font-medium text-gray-900 dark:text-white">{lorebook.name}</h3>
+                        {!lorebook.enabled && (
+                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300">
+                            Disabled
+                          </span>
+                        )}
+                      </div>
+                      {lorebook.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{lorebook.description}</p>
+                      )}
+                      <div className="grid grid-cols-3 gap-4 text-sm text-gray-600 dark:text-gray-400">
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-500 uppercase">Entries</p>
+                          <p className="text-sm dark:text-gray-300">{lorebook.entries.length}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-500 uppercase">Scan depth</p>
+                          <p className="text-sm dark:text-gray-300">{lorebook.scanDepth}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-500 uppercase">Token budget</p>
+                          <p className="text-sm dark:text-gray-300">{lorebook.tokenBudget}</p>
+                        </div>
+                      </div>
+                      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        {attachedTo.length > 0 ? `Attached to: ${attachedTo.join(', ')}` : 'Not attached to anything yet'}
+                      </p>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex gap-2 ml-4">
+                      <a
+                        href={`/api/lorebooks/${lorebook.id}/export`}
+                        className="px-3 py-1 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 rounded border border-gray-200 dark:border-slate-600"
+                        title="Export as SillyTavern World Info"
+                      >
+                        Export
+                      </a>
+                      <button
+                        onClick={() => handleEdit(lorebook)}
+                        className="px-3 py-1 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded border border-blue-200 dark:border-blue-900/50 hover:border-blue-300 dark:hover:border-blue-900/70 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                      >
+                        Edit
+                      </button>
+                      <div className="relative">
+                        <button
+                          onClick={() => setDeleteConfirming(deleteConfirming === lorebook.id ? null : lorebook.id)}
+                          className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded border border-red-200 dark:border-red-900/50 hover:border-red-300 dark:hover:border-red-900/70 focus:outline-none focus:ring-2 focus:ring-red-500 dark:focus:ring-red-400"
+                        >
+                          Delete
+                        </button>
+
+                        {/* Delete Confirmation Popover */}
+                        {deleteConfirming === lorebook.id && (
+                          <div className="absolute right-0 top-full mt-1 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg shadow-lg p-3 whitespace-nowrap z-10">
+                            <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">Delete this lorebook?</p>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => setDeleteConfirming(null)}
+                                className="px-2 py-1 text-xs bg-gray-100 dark:bg-slate-700 text-gray-900 dark:text-white hover:bg-gray-200 dark:hover:bg-slate-600 rounded focus:outline-none focus:ring-2 focus:ring-gray-500 dark:focus:ring-gray-400"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => handleDelete(lorebook.id)}
+                                className="px-2 py-1 text-xs bg-red-600 dark:bg-red-700 text-white hover:bg-red-700 dark:hover:bg-red-600 rounded focus:outline-none focus:ring-2 focus:ring-red-500 dark:focus:ring-red-400"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,538 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+type McpTransport = 'stdio' | 'sse'
+
+interface McpServer {
+  id: string
+  name: string
+  description?: string | null
+  transport: McpTransport
+  command?: string | null
+  args: string[]
+  env: Record<string, string>
+  url?: string | null
+  headers: Record<string, string>
+  enabled: boolean
+}
+
+interface McpTool {
+  name: string
+  exposedName: string
+  description: string | null
+}
+
+interface McpServerForm {
+  name: string
+  description: string
+  transport: McpTransport
+  command: string
+  args: string
+  env: string
+  url: string
+  headers: string
+  enabled: boolean
+}
+
+interface ToolListState {
+  loading: boolean
+  tools?: McpTool[]
+  error?: string
+}
+
+const EMPTY_FORM: McpServerForm = {
+  name: '',
+  description: '',
+  transport: 'stdio',
+  command: '',
+  args: '',
+  env: '',
+  url: '',
+  headers: '',
+  enabled: true,
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400'
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+
+/**
+ * Parses KEY=value lines (env) or "Name: value" lines (headers)
+ */
+function parsePairs(value: string, separator: '=' | ':'): Record<string, string> {
+  const pairs: Record<string, string> = {}
+  for (const line of value.split('\n')) {
+    const index = line.indexOf(separator)
+    if (index <= 0) continue
+    const key = line.slice(0, index).trim()
+    if (key) {
+      pairs[key] = line.slice(index + 1).trim()
+    }
+  }
+  return pairs
+}
+
+function formatPairs(pairs: Record<string, string>, separator: '=' | ': '): string {
+  return Object.entries(pairs).map(([key, value]) => `${key}${separator}${value}`).join('\n')
+}
+
+export default function McpServersTab() {
+  const [servers, setServers] = useState<McpServer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [deleteConfirming, setDeleteConfirming] = useState<string | null>(null)
+  const [formData, setFormData] = useState<McpServerForm>(EMPTY_FORM)
+  const [formLoading, setFormLoading] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [toolLists, setToolLists] = useState<Record<string, ToolListState>>({})
+
+  useEffect(() => {
+    fetchServers()
+  }, [])
+
+  const fetchServers = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const res = await fetch('/api/mcp-servers')
+      if (!res.ok) throw new Error('Failed to fetch MCP servers')
+      const data = await res.json()
+      setServers(data.servers)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchTools = async (id: string) => {
+    setToolLists(prev => ({ ...prev, [id]: { loading: true } }))
+    try {
+      const res = await fetch(`/api/mcp-servers/${id}/tools?refresh=true`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to connect to MCP server')
+      setToolLists(prev => ({ ...prev, [id]: { loading: false, tools: data.tools } }))
+    } catch (err) {
+      setToolLists(prev => ({
+        ...prev,
+        [id]: { loading: false, error: err instanceof Error ? err.message : 'An error occurred' },
+      }))
+    }
+  }
+
+  const handleToggleEnabled = async (server: McpServer) => {
+    try {
+      const res = await fetch(`/api/mcp-servers/${server.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !server.enabled }),
+      })
+      if (!res.ok) throw new Error('Failed to update MCP server')
+      await fetchServers()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/mcp-servers/${id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('Failed to delete MCP server')
+      await fetchServers()
+      setDeleteConfirming(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormLoading(true)
+    setFormError(null)
+
+    try {
+      const stdio = formData.transport === 'stdio'
+      const payload = {
+        name: formData.name,
+        description: formData.description || null,
+        transport: formData.transport,
+        command: stdio ? formData.command : null,
+        args: stdio ? formData.args.split('\n').map(a => a.trim()).filter(Boolean) : [],
+        env: stdio ? parsePairs(formData.env, '=') : {},
+        url: stdio ? null : formData.url,
+        headers: stdio ? {} : parsePairs(formData.headers, ':'),
+        enabled: formData.enabled,
+      }
+
+      const url = editingId ? `/api/mcp-servers/${editingId}` : '/api/mcp-servers'
+      const method = editingId ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to save MCP server')
+      }
+
+      if (editingId) {
+        setToolLists(prev => {
+          const next = { ...prev }
+          delete next[editingId]
+          return next
+        })
+      }
+      await fetchServers()
+      handleFormCancel()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setFormLoading(false)
+    }
+  }
+
+  const handleFormCancel = () => {
+    setShowForm(false)
+    setEditingId(null)
+    setFormData(EMPTY_FORM)
+    setFormError(null)
+  }
+
+  const handleEdit = (server: McpServer) => {
+    setEditingId(server.id)
+    setFormData({
+      name: server.name,
+      description: server.description || '',
+      transport: server.transport,
+      command: server.command || '',
+      args: server.args.join('\n'),
+      env: formatPairs(server.env, '='),
+      url: server.url || '',
+      headers: formatPairs(server.headers, ': '),
+      enabled: server.enabled,
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="text-gray-600 dark:text-gray-400">Loading MCP servers...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">MCP Servers</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Connect Model Context Protocol servers to give characters extra tools.
+            Tools from enabled servers are offered in every chat that supports tool calling.
+          </p>
+        </div>
+        {!showForm && !editingId && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          >
+            Add Server
+          </button>
+        )}
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Form */}
+      {(showForm || editingId) && (
+        <div className="border border-gray-200 dark:border-slate-700 rounded-lg p-6 bg-gray-50 dark:bg-slate-900/50">
+          <h3 className="text-md font-semibold text-gray-900 dark:text-white mb-4">
+            {editingId ? 'Edit MCP Server' : 'Add MCP Server'}
+          </h3>
+
+          {formError && (
+            <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+              {formError}
+            </div>
+          )}
+
+          <form onSubmit={handleFormSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  className={inputClass}
+                  placeholder="filesystem"
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Tools are exposed as mcp__name__tool
+                </p>
+              </div>
+              <div>
+                <label className={labelClass}>Transport</label>
+                <select
+                  value={formData.transport}
+                  onChange={e => setFormData(prev => ({ ...prev, transport: e.target.value as McpTransport }))}
+                  className={inputClass}
+                >
+                  <option value="stdio">stdio (local command)</option>
+                  <option value="sse">HTTP + SSE (remote URL)</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+
+            {formData.transport === 'stdio' ? (
+              <>
+                <div>
+                  <label className={labelClass}>Command</label>
+                  <input
+                    type="text"
+                    value={formData.command}
+                    onChange={e => setFormData(prev => ({ ...prev, command: e.target.value }))}
+                    className={inputClass}
+                    placeholder="npx"
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Arguments (one per line)</label>
+                    <textarea
+                      value={formData.args}
+                      onChange={e => setFormData(prev => ({ ...prev, args: e.target.value }))}
+                      className={`${inputClass} font-mono text-sm`}
+                      rows={3}
+                      placeholder={'-y\n@modelcontextprotocol/server-filesystem\n/srv/notes'}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Environment (KEY=value per line)</label>
+                    <textarea
+                      value={formData.env}
+                      onChange={e => setFormData(prev => ({ ...prev, env: e.target.value }))}
+                      className={`${inputClass} font-mono text-sm`}
+                      rows={3}
+                    />
+                  </div>
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className={labelClass}>SSE URL</label>
+                  <input
+                    type="url"
+                    value={formData.url}
+                    onChange={e => setFormData(prev => ({ ...prev, url: e.target.value }))}
+                    className={inputClass}
+                    placeholder="https://mcp.example.com/sse"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Headers (Name: value per line)</label>
+                  <textarea
+                    value={formData.headers}
+                    onChange={e => setFormData(prev => ({ ...prev, headers: e.target.value }))}
+                    className={`${inputClass} font-mono text-sm`}
+                    rows={2}
+                    placeholder="Authorization: Bearer ..."
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="mcpServerEnabled"
+                checked={formData.enabled}
+                onChange={e => setFormData(prev => ({ ...prev, enabled: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="mcpServerEnabled" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                Enabled
+              </label>
+            </div>
+
+            {/* Buttons */}
+            <div className="flex gap-3 pt-4">
+              <button
+                type="submit"
+                disabled={formLoading}
+                className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50"
+              >
+                {formLoading ? 'Saving...' : editingId ? 'Update Server' : 'Add Server'}
+              </button>
+              <button
+                type="button"
+                onClick={handleFormCancel}
+                className="px-4 py-2 bg-gray-200 dark:bg-slate-700 text-gray-800 dark:text-white rounded-md hover:bg-gray-300 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-gray-500 dark:focus:ring-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Server List */}
+      {!showForm && !editingId && (
+        <div className="space-y-3">
+          {servers.length === 0 ? (
+            <div className="text-center py-8 bg-gray-50 dark:bg-slate-900/30 rounded-lg border border-gray-200 dark:border-slate-700">
+              <p className="text-gray-600 dark:text-gray-400 mb-2">No MCP servers yet</p>
+              <p className="text-sm text-gray-500 dark:text-gray-500 mb-4">
+                Add a server to let characters use its tools
+              </p>
+              <button
+                onClick={() => setShowForm(true)}
+                className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+              >
+                Add First Server
+              </button>
+            </div>
+          ) : (
+            servers.map(server => {
+              const toolList = toolLists[server.id]
+
+              return (
+                <div
+                  key={server.id}
+                  className="border border-gray-200 dark:border-slate-700 rounded-lg p-4 hover:border-gray-300 dark:hover:border-slate-600 transition bg-white dark:bg-slate-800"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="font-medium text-gray-900 dark:text-white">{server.name}</h3>
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300">
+                          {server.transport === 'stdio' ? 'stdio' : 'SSE'}
+                        </span>
+                        {!server.enabled && (
+                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300">
+                            Disabled
+                          </span>
+                        )}
+                      </div>
+                      {server.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{server.description}</p>
+                      )}
+                      <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                        {server.transport === 'stdio'
+                          ? [server.command, ...server.args].join(' ')
+                          : server.url}
+                      </p>
+
+                      {/* Discovered tools */}
+                      {toolList?.loading && (
+                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Connecting...</p>
+                      )}
+                      {toolList?.error && (
+                        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{toolList.error}</p>
+                      )}
+                      {toolList?.tools && (
+                        <div className="mt-2">
+                          <p className="text-xs text-gray-500 dark:text-gray-500 uppercase mb-1">
+                            Tools ({toolList.tools.length})
+                          </p>
+                          <ul className="space-y-1">
+                            {toolList.tools.map(tool => (
+                              <li key={tool.name} className="text-xs text-gray-700 dark:text-gray-300">
+                                <span className="font-mono">{tool.name}</span>
+                                {tool.description && (
+                                  <span className="text-gray-500 dark:text-gray-400"> — {tool.description}</span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex gap-2 ml-4">
+                      <button
+                        onClick={() => fetchTools(server.id)}
+                        disabled={toolList?.loading}
+                        className="px-3 py-1 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 rounded border border-gray-200 dark:border-slate-600 disabled:opacity-50"
+                        title="Connect and list the server's tools"
+                      >
+                        Test
+                      </button>
+                      <button
+                        onClick={() => handleToggleEnabled(server)}
+                        className="px-3 py-1 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 rounded border border-gray-200 dark:border-slate-600"
+                      >
+                        {server.enabled ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        onClick={() => handleEdit(server)}
+                        className="px-3 py-1 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded border border-blue-200 dark:border-blue-900/50 hover:border-blue-300 dark:hover:border-blue-900/70 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                      >
+                        Edit
+                      </button>
+                      <div className="relative">
+                        <button
+                          onClick={() => setDeleteConfirming(deleteConfirming === server.id ? null : server.id)}
+                          className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded border border-red-200 dark:border-red-900/50 hover:border-red-300 dark:hover:border-red-900/70 focus:outline-none focus:ring-2 focus:ring-red-500 dark:focus:ring-red-400"
+                        >
+                          Delete
+                        </button>
+
+                        {/* Delete Confirmation Popover */}
+                        {deleteConfirming === server.id && (
+                          <div className="absolute right-0 top-full mt-1 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg shadow-lg p-3 whitespace-nowrap z-10">
+                            <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">Delete this MCP server?</p>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => setDeleteConfirming(null)}
+                                className="px-2 py-1 text-xs bg-gray-100 dark:bg-slate-700 text-gray-900 dark:text-white hover:bg-gray-200 dark:hover:bg-slate-600 rounded focus:outline-none focus:ring-2 focus:ring-gray-500 dark:focus:ring-gray-400"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => handleDelete(server.id)}
+                                className="px-2 py-1 text-xs bg-red-600 dark:bg-red-700 text-white hover:bg-red-700 dark:hover:bg-red-600 rounded focus:outline-none focus:ring-2 focus:ring-red-500 dark:focus:ring-red-400"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
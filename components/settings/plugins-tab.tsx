@@ -5,6 +5,22 @@ import { showErrorToast, showSuccessToast } from '@/lib/toast'
 
 type PluginSource = 'included' | 'npm' | 'git' | 'manual'
 
+interface PluginPermissions {
+  fileSystem?: string[]
+  network?: string[]
+  environment?: string[]
+  database?: boolean
+  userData?: boolean
+}
+
+interface PermissionViolation {
+  kind: 'network' | 'fileSystem' | 'environment' | 'database' | 'userData' | 'module'
+  target: string
+  count: number
+  firstSeen: string
+  lastSeen: string
+}
+
 interface Plugin {
   name: string
   title: string
@@ -13,6 +29,29 @@ interface Plugin {
   capabilities: string[]
   path: string
   source: PluginSource
+  permissions: PluginPermissions | null
+  sandboxed: boolean
+  violations: PermissionViolation[]
+}
+
+const VIOLATION_LABELS: Record<PermissionViolation['kind'], string> = {
+  network: 'Network',
+  fileSystem: 'File',
+  environment: 'Env',
+  database: 'Database',
+  userData: 'User data',
+  module: 'Module',
+}
+
+const describePermissions = (permissions: PluginPermissions | null): string[] => {
+  if (!permissions) return []
+  const items: string[] = []
+  if (permissions.network?.length) items.push(`Network: ${permissions.network.join(', ')}`)
+  if (permissions.fileSystem?.length) items.push(`Files: ${permissions.fileSystem.join(', ')}`)
+  if (permissions.environment?.length) items.push(`Env: ${permissions.environment.join(', ')}`)
+  if (permissions.database) items.push('Database')
+  if (permissions.userData) items.push('User data')
+  return items
 }
 
 interface PluginStats {
@@ -53,6 +92,19 @@ export default function PluginsTab() {
   const [stats, setStats] = useState<PluginStats | null>(null)
   const [loading, setLoading] = useState(true)
   const [toggling, setToggling] = useState<Set<string>>(new Set())
+  const [expandedViolations, setExpandedViolations] = useState<Set<string>>(new Set())
+
+  const toggleViolations = (pluginName: string) => {
+    setExpandedViolations(prev => {
+      const next = new Set(prev)
+      if (next.has(pluginName)) {
+        next.delete(pluginName)
+      } else {
+        next.add(pluginName)
+      }
+      return next
+    })
+  }
 
   const fetchPlugins = async () => {
     try {
@@ -192,6 +244,9 @@ export default function PluginsTab() {
         <div className="space-y-3">
           {plugins.map((plugin) => {
             const isToggling = toggling.has(plugin.name)
+            const permissionItems = describePermissions(plugin.permissions)
+            const violations = plugin.violations || []
+            const showViolations = expandedViolations.has(plugin.name)
             return (
               <div
                 key={plugin.name}
@@ -209,6 +264,14 @@ export default function PluginsTab() {
                       <span className={`px-2 py-0.5 text-xs font-medium rounded ${getSourceBadge(plugin.source).className}`}>
                         {getSourceBadge(plugin.source).label}
                       </span>
+                      {plugin.sandboxed && (
+                        <span
+                          className="px-2 py-0.5 text-xs font-medium bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400 rounded"
+                          title="Only the permissions declared in the manifest are available to this plugin"
+                        >
+                          Sandboxed
+                        </span>
+                      )}
                       {plugin.enabled ? (
                         <span className="px-2 py-0.5 text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded">
                           Enabled
@@ -234,6 +297,43 @@ export default function PluginsTab() {
                         ))}
                       </div>
                     )}
+                    {plugin.sandboxed && (
+                      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        Permissions: {permissionItems.length > 0 ? permissionItems.join(' · ') : 'none declared'}
+                      </p>
+                    )}
+                    {violations.length > 0 && (
+                      <div className="mt-3">
+                        <button
+                          type="button"
+                          onClick={() => toggleViolations(plugin.name)}
+                          className="text-xs font-medium text-red-700 dark:text-red-400 hover:underline"
+                        >
+                          {showViolations ? '▾' : '▸'} {violations.length} blocked permission{' '}
+                          {violations.length === 1 ? 'violation' : 'violations'}
+                        </button>
+                        {showViolations && (
+                          <ul className="mt-2 space-y-1 rounded border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20 p-2">
+                            {violations.map((violation) => (
+                              <li
+                                key={`${violation.kind}:${violation.target}`}
+                                className="flex items-center gap-2 text-xs text-red-800 dark:text-red-300"
+                              >
+                                <span className="px-1.5 py-0.5 rounded bg-red-100 dark:bg-red-900/40 font-medium">
+                                  {VIOLATION_LABELS[violation.kind]}
+                                </span>
+                                <span className="font-mono truncate" title={violation.target}>
+                                  {violation.target}
+                                </span>
+                                <span className="ml-auto whitespace-nowrap text-red-600 dark:text-red-400">
+                                  {violation.count}× · last {new Date(violation.lastSeen).toLocaleString()}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   {/* Toggle Button */}
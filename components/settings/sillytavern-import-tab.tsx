@@ -0,0 +1,357 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { clientLogger } from '@/lib/client-logger'
+
+type ImportStatus = 'PREVIEW' | 'RUNNING' | 'FAILED' | 'COMPLETED' | 'CANCELLED'
+type ItemKind = 'WORLD_INFO' | 'PERSONA' | 'CHARACTER' | 'CHAT' | 'GROUP_CHAT'
+type ItemAction = 'IMPORT' | 'SKIP'
+
+interface ImportItem {
+  path: string
+  kind: ItemKind
+  name: string
+  conflict: 'DUPLICATE' | 'NAME_EXISTS' | 'MISSING_CHARACTER' | null
+  action: ItemAction
+  status: 'PENDING' | 'IMPORTED' | 'SKIPPED' | 'FAILED'
+  error: string | null
+}
+
+interface ImportJob {
+  id: string
+  status: ImportStatus
+  filename: string
+  connectionProfileId: string | null
+  items: ImportItem[]
+  warnings: string[]
+  total: number
+  processed: number
+  error?: string | null
+  createdAt: string
+  completedAt?: string | null
+}
+
+interface ConnectionProfile {
+  id: string
+  name: string
+  isDefault?: boolean
+}
+
+const KIND_LABELS: Record<ItemKind, string> = {
+  WORLD_INFO: 'World Info',
+  PERSONA: 'Personas',
+  CHARACTER: 'Characters',
+  CHAT: 'Chats',
+  GROUP_CHAT: 'Group Chats',
+}
+
+const CONFLICT_LABELS: Record<NonNullable<ImportItem['conflict']>, string> = {
+  DUPLICATE: 'Already imported or duplicated',
+  NAME_EXISTS: 'Name already in use',
+  MISSING_CHARACTER: 'Character not found, a stub will be created',
+}
+
+const STATUS_CLASSES: Record<ImportItem['status'], string> = {
+  PENDING: 'text-gray-500 dark:text-gray-400',
+  IMPORTED: 'text-green-600 dark:text-green-400',
+  SKIPPED: 'text-gray-500 dark:text-gray-400',
+  FAILED: 'text-red-600 dark:text-red-400',
+}
+
+const POLL_INTERVAL_MS = 2000
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400'
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+
+function countBy(items: ImportItem[], status: ImportItem['status']): number {
+  return items.filter(item => item.status === status).length
+}
+
+export default function SillyTavernImportTab() {
+  const [job, setJob] = useState<ImportJob | null>(null)
+  const [history, setHistory] = useState<ImportJob[]>([])
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([])
+  const [actions, setActions] = useState<Record<string, ItemAction>>({})
+  const [connectionProfileId, setConnectionProfileId] = useState('')
+  const [uploading, setUploading] = useState(false)
+  const [starting, setStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const res = await fetch('/api/sillytavern/import')
+      if (!res.ok) throw new Error('Failed to fetch imports')
+      const data = await res.json()
+      setHistory(data.imports)
+    } catch (err) {
+      clientLogger.error('Failed to fetch SillyTavern imports', { error: err instanceof Error ? err.message : String(err) })
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchHistory()
+    fetch('/api/profiles')
+      .then(res => (res.ok ? res.json() : []))
+      .then((data: ConnectionProfile[]) => {
+        setProfiles(data)
+        const defaultProfile = data.find(p => p.isDefault) ?? data[0]
+        if (defaultProfile) setConnectionProfileId(defaultProfile.id)
+      })
+      .catch(err => {
+        clientLogger.error('Failed to fetch connection profiles', { error: err instanceof Error ? err.message : String(err) })
+      })
+  }, [fetchHistory])
+
+  // Follow a running import until it ends
+  useEffect(() => {
+    if (job?.status !== 'RUNNING') return
+
+    const timer = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/sillytavern/import/${job.id}`)
+        if (!res.ok) return
+        const data = await res.json()
+        setJob(data.import)
+        if (data.import.status !== 'RUNNING') fetchHistory()
+      } catch (err) {
+        clientLogger.error('Failed to poll SillyTavern import', { error: err instanceof Error ? err.message : String(err) })
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [job?.id, job?.status, fetchHistory])
+
+  const openJob = (selected: ImportJob) => {
+    setJob(selected)
+    setActions(Object.fromEntries(selected.items.map(item => [item.path, item.action])))
+    if (selected.connectionProfileId) setConnectionProfileId(selected.connectionProfileId)
+    setError(null)
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      setUploading(true)
+      setError(null)
+      const body = new FormData()
+      body.append('file', file)
+      const res = await fetch('/api/sillytavern/import', { method: 'POST', body })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to read the data directory')
+      openJob(data.import)
+      await fetchHistory()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleStart = async () => {
+    if (!job) return
+
+    try {
+      setStarting(true)
+      setError(null)
+      const res = await fetch(`/api/sillytavern/import/${job.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionProfileId: connectionProfileId || null, actions }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to start import')
+      setJob(data.import)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!job) return
+
+    try {
+      const res = await fetch(`/api/sillytavern/import/${job.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to cancel import')
+      setJob(data.import)
+      await fetchHistory()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setKindAction = (kind: ItemKind, action: ItemAction) => {
+    if (!job) return
+    setActions(prev => ({
+      ...prev,
+      // Chats without their character are only imported when picked one by one
+      ...Object.fromEntries(job.items
+        .filter(item => item.kind === kind && item.conflict !== 'MISSING_CHARACTER')
+        .map(item => [item.path, action])),
+    }))
+  }
+
+  const editable = job?.status === 'PREVIEW' || job?.status === 'FAILED'
+  const selectedCount = job ? job.items.filter(item => item.status !== 'IMPORTED' && actions[item.path] === 'IMPORT').length : 0
+  const kinds = job ? (Object.keys(KIND_LABELS) as ItemKind[]).filter(kind => job.items.some(item => item.kind === kind)) : []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">SillyTavern Import</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Import a whole SillyTavern data directory at once: zip the <code>data/&lt;user&gt;</code> folder and upload it.
+            Characters, chats, group chats, personas with their avatars and World Info are previewed before anything is imported.
+          </p>
+        </div>
+        <label className={`px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 cursor-pointer whitespace-nowrap ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+          {uploading ? 'Reading...' : 'Upload Zip'}
+          <input type="file" accept=".zip,application/zip" onChange={handleUpload} className="hidden" disabled={uploading} />
+        </label>
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-red-700 dark:text-red-400 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {job && (
+        <div className="border border-gray-200 dark:border-slate-700 rounded-lg p-6 bg-gray-50 dark:bg-slate-900/50 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-md font-semibold text-gray-900 dark:text-white">{job.filename}</h3>
+            <button onClick={() => setJob(null)} className="text-sm text-gray-600 dark:text-gray-400 hover:underline">
+              Close
+            </button>
+          </div>
+
+          {/* Progress and report */}
+          {job.status !== 'PREVIEW' && (
+            <div className="space-y-2">
+              <div className="w-full bg-gray-200 dark:bg-slate-700 rounded-full h-2">
+                <div
+                  className="bg-blue-600 dark:bg-blue-500 h-2 rounded-full transition-all"
+                  style={{ width: `${job.total ? Math.round((job.processed / job.total) * 100) : 0}%` }}
+                />
+              </div>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {job.status === 'RUNNING' && `Importing... ${job.processed} of ${job.total}`}
+                {job.status === 'COMPLETED' && 'Import complete.'}
+                {job.status === 'CANCELLED' && 'Import cancelled.'}
+                {job.status === 'FAILED' && `Import stopped: ${job.error || 'unknown error'}. Start it again to carry on.`}
+                {' '}
+                {countBy(job.items, 'IMPORTED')} imported, {countBy(job.items, 'SKIPPED')} skipped, {countBy(job.items, 'FAILED')} failed.
+              </p>
+            </div>
+          )}
+
+          {job.warnings.length > 0 && (
+            <details className="text-sm text-amber-700 dark:text-amber-400">
+              <summary className="cursor-pointer">{job.warnings.length} file{job.warnings.length === 1 ? '' : 's'} could not be read</summary>
+              <ul className="mt-2 space-y-1 list-disc list-inside">
+                {job.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            </details>
+          )}
+
+          {/* Items by kind */}
+          {kinds.map(kind => {
+            const items = job.items.filter(item => item.kind === kind)
+            return (
+              <div key={kind}>
+                <div className="flex justify-between items-center mb-1">
+                  <p className={labelClass}>{KIND_LABELS[kind]} ({items.length})</p>
+                  {editable && (
+                    <div className="flex gap-3 text-xs">
+                      <button onClick={() => setKindAction(kind, 'IMPORT')} className="text-blue-600 dark:text-blue-400 hover:underline">All</button>
+                      <button onClick={() => setKindAction(kind, 'SKIP')} className="text-blue-600 dark:text-blue-400 hover:underline">None</button>
+                    </div>
+                  )}
+                </div>
+                <div className="max-h-48 overflow-y-auto border border-gray-200 dark:border-slate-700 rounded-md p-2 space-y-1 bg-white dark:bg-slate-800">
+                  {items.map(item => (
+                    <label key={item.path} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      {editable && item.status !== 'IMPORTED' ? (
+                        <input
+                          type="checkbox"
+                          checked={actions[item.path] === 'IMPORT'}
+                          onChange={e => setActions(prev => ({ ...prev, [item.path]: e.target.checked ? 'IMPORT' : 'SKIP' }))}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                      ) : (
+                        <span className={`w-16 text-xs ${STATUS_CLASSES[item.status]}`}>{item.status.toLowerCase()}</span>
+                      )}
+                      <span className="truncate" title={item.path}>{item.name}</span>
+                      {item.conflict && (
+                        <span className="text-xs px-2 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 whitespace-nowrap">
+                          {CONFLICT_LABELS[item.conflict]}
+                        </span>
+                      )}
+                      {item.error && <span className="text-xs text-red-600 dark:text-red-400 truncate">{item.error}</span>}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+
+          {editable && (
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="flex-1 min-w-[200px]">
+                <label className={labelClass}>Connection profile for imported chats</label>
+                <select value={connectionProfileId} onChange={e => setConnectionProfileId(e.target.value)} className={inputClass}>
+                  <option value="">Default profile</option>
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleStart}
+                disabled={starting || selectedCount === 0}
+                className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+              >
+                {starting ? 'Starting...' : `Import ${selectedCount} item${selectedCount === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          )}
+
+          {(editable || job.status === 'RUNNING') && (
+            <button onClick={handleCancel} className="text-sm text-red-600 dark:text-red-400 hover:underline">
+              {job.status === 'RUNNING' ? 'Cancel import' : 'Discard upload'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Earlier imports */}
+      {history.length > 0 && (
+        <div>
+          <h3 className="text-md font-semibold text-gray-900 dark:text-white mb-2">Earlier Imports</h3>
+          <div className="space-y-2">
+            {history.map(item => (
+              <button
+                key={item.id}
+                onClick={() => openJob(item)}
+                className="w-full flex justify-between items-center text-left px-4 py-2 border border-gray-200 dark:border-slate-700 rounded-md hover:bg-gray-50 dark:hover:bg-slate-800"
+              >
+                <span className="text-sm text-gray-900 dark:text-white truncate">{item.filename}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap ml-4">
+                  {item.status.toLowerCase()} · {new Date(item.createdAt).toLocaleString()}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+/**
+ * Background Jobs
+ *
+ * Long jobs (embedding migrations, SillyTavern imports) are stored with a
+ * status and run in the background of the process that started them. The
+ * runner tracks which jobs this process is running: a job stored as RUNNING
+ * that isn't among them was interrupted (e.g. by a restart) and is resumed
+ * when next looked at. A job is cancelled by storing another status, which
+ * the job checks between steps.
+ */
+
+import { logger } from '@/lib/logger'
+
+export interface BackgroundJobRunnerOptions<T> {
+  /** Log prefix, e.g. '[EmbeddingMigration]' */
+  name: string
+  /** Runs a job to the end */
+  run: (jobId: string) => Promise<T | null>
+  /** Reads a job's stored status */
+  getStatus: (jobId: string) => Promise<string | null | undefined>
+}
+
+export interface BackgroundJobRunner {
+  /** Run a job in the background, logging how it failed */
+  launch: (jobId: string, context?: Record<string, unknown>) => void
+  /** Whether this process is running a job */
+  isRunning: (jobId: string) => boolean
+  /** Whether a job has left RUNNING, e.g. because it was cancelled */
+  isCancelled: (jobId: string) => Promise<boolean>
+}
+
+/**
+ * Create the runner for one kind of background job
+ */
+export function createBackgroundJobRunner<T>(options: BackgroundJobRunnerOptions<T>): BackgroundJobRunner {
+  const runningJobs = new Map<string, Promise<T | null>>()
+
+  return {
+    launch(jobId, context = {}) {
+      const job = options.run(jobId)
+        .catch(error => {
+          logger.error(`${options.name} Background job failed`, { jobId, ...context }, error instanceof Error ? error : undefined)
+          return null
+        })
+        .finally(() => runningJobs.delete(jobId))
+      runningJobs.set(jobId, job)
+    },
+    isRunning(jobId) {
+      return runningJobs.has(jobId)
+    },
+    async isCancelled(jobId) {
+      return (await options.getStatus(jobId)) !== 'RUNNING'
+    },
+  }
+}
@@ -337,6 +337,20 @@ export async function executeCascadeDelete(
     }
   }
 
+  // Delete the character's memory review queue
+  try {
+    await repos.memoryProposals.deleteByCharacterId(characterId)
+  } catch (err) {
+    logger.error(`Failed to delete memory proposals for character ${characterId}`, { context: { characterId } }, err instanceof Error ? err : undefined)
+  }
+
+  // Delete the character's re-embedding jobs
+  try {
+    await repos.embeddingMigrations.deleteByCharacterId(characterId)
+  } catch (err) {
+    logger.error(`Failed to delete embedding migrations for character ${characterId}`, { context: { characterId } }, err instanceof Error ? err : undefined)
+  }
+
   // Delete the character's vector index (embeddings)
   try {
     const vectorStoreManager = getVectorStoreManager()
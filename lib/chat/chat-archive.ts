@@ -0,0 +1,555 @@
+/**
+ * Quilltap Chat Archives
+ *
+ * Moves a chat between Quilltap instances without losing anything the
+ * SillyTavern format can't carry: tool messages, context-summary events,
+ * swipe groups, attachments, participant settings and tags. An archive is a
+ * zip holding
+ *
+ *   manifest.json    format, versions, the chat, its participants, tag names
+ *                    and the metadata of every included file
+ *   events.jsonl     the chat's event log, one event per line
+ *   files/<id>.<ext> attachments and participant avatars
+ *
+ * The manifest records the schema version it was written under; archives
+ * from a newer or incompatible schema are refused.
+ *
+ * On import, participants are matched to the user's characters, personas
+ * and profiles by ID and then by name; characters and personas that can't be
+ * found are created from the copies in the archive. Events, participants and
+ * files get new IDs so an archive can be imported next to its original.
+ */
+
+import { z } from 'zod'
+import { getRepositories } from '@/lib/repositories/factory'
+import { readImageBuffer, restoreFileBuffer } from '@/lib/images-v2'
+import { formatSchemaVersion, isCompatibleSchemaVersion } from '@/lib/schema-version'
+import {
+  CharacterSchema,
+  ChatEvent,
+  ChatEventSchema,
+  ChatMetadata,
+  ChatMetadataBaseSchema,
+  ChatParticipantBase,
+  ChatParticipantBaseSchema,
+  FileEntrySchema,
+  PersonaSchema,
+} from '@/lib/schemas/types'
+import { createZip, readZip, ZipEntry, ZipError } from '@/lib/zip'
+import { logger } from '@/lib/logger'
+
+export const CHAT_ARCHIVE_FORMAT = 'quilltap-chat'
+export const CHAT_ARCHIVE_VERSION = 1
+
+const MANIFEST_PATH = 'manifest.json'
+const EVENTS_PATH = 'events.jsonl'
+
+/**
+ * A character as archived, to be recreated where it doesn't exist
+ */
+export const ArchivedCharacterSchema = CharacterSchema.omit({
+  userId: true,
+  tags: true,
+  personaLinks: true,
+  avatarOverrides: true,
+})
+
+export const ArchivedPersonaSchema = PersonaSchema.omit({
+  userId: true,
+  tags: true,
+  characterLinks: true,
+})
+
+/**
+ * A connection or image profile, by what identifies it to the user
+ */
+export const ArchivedProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  provider: z.string(),
+  modelName: z.string(),
+})
+
+export const ArchivedParticipantSchema = z.object({
+  participant: ChatParticipantBaseSchema,
+  character: ArchivedCharacterSchema.nullable(),
+  persona: ArchivedPersonaSchema.nullable(),
+  connectionProfile: ArchivedProfileSchema.nullable(),
+  imageProfile: ArchivedProfileSchema.nullable(),
+})
+
+export type ArchivedParticipant = z.infer<typeof ArchivedParticipantSchema>
+
+/**
+ * Metadata of a file in the archive, with where its bytes are
+ */
+export const ArchivedFileSchema = FileEntrySchema.pick({
+  id: true,
+  sha256: true,
+  originalFilename: true,
+  mimeType: true,
+  size: true,
+  width: true,
+  height: true,
+  source: true,
+  category: true,
+  generationPrompt: true,
+  generationModel: true,
+  generationRevisedPrompt: true,
+  description: true,
+}).extend({ path: z.string() })
+
+export type ArchivedFile = z.infer<typeof ArchivedFileSchema>
+
+export const ChatArchiveManifestSchema = z.object({
+  format: z.literal(CHAT_ARCHIVE_FORMAT),
+  version: z.number().int().max(CHAT_ARCHIVE_VERSION),
+  schemaVersion: z.string(),
+  exportedAt: z.string(),
+  chat: ChatMetadataBaseSchema.omit({ userId: true, participants: true, tags: true }),
+  participants: z.array(ArchivedParticipantSchema),
+  // Chat tags by name
+  tags: z.array(z.string()),
+  files: z.array(ArchivedFileSchema),
+  eventCount: z.number().int().min(0),
+})
+
+export type ChatArchiveManifest = z.infer<typeof ChatArchiveManifestSchema>
+
+/**
+ * A read archive: the manifest, the event log and file bytes by archive path
+ */
+export interface ChatArchive {
+  manifest: ChatArchiveManifest
+  events: ChatEvent[]
+  files: Map<string, Buffer>
+}
+
+/**
+ * Options for importing an archive
+ */
+export interface ChatArchiveImportOptions {
+  /** Profile for character participants whose profile can't be found (default: the user's default profile) */
+  connectionProfileId?: string | null
+}
+
+/**
+ * Result of an archive import
+ */
+export interface ChatArchiveImportResult {
+  chat: ChatMetadata
+  /** Characters created from the archive because the user had none to match */
+  createdCharacterIds: string[]
+  createdPersonaIds: string[]
+  /** Attachments left off because their file wasn't in the archive */
+  missingFiles: number
+}
+
+/**
+ * Error thrown when an archive can't be read or imported
+ */
+export class ChatArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ChatArchiveError'
+  }
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf('.')
+  return dot > 0 ? filename.slice(dot).toLowerCase() : ''
+}
+
+/**
+ * Build the archive of a chat
+ * Files that can no longer be read are left out; their attachments are
+ * dropped when the archive is imported.
+ */
+export async function exportChatArchive(chat: ChatMetadata): Promise<Buffer> {
+  const repos = getRepositories()
+  const userId = chat.userId
+  const events = await repos.chats.getMessages(chat.id)
+
+  const fileIds = new Set<string>()
+  for (const event of events) {
+    if (event.type === 'message') {
+      event.attachments.forEach(id => fileIds.add(id))
+    }
+  }
+
+  const participants: ArchivedParticipant[] = []
+  for (const participant of chat.participants) {
+    const character = participant.characterId ? await repos.characters.findById(participant.characterId) : null
+    const persona = participant.personaId ? await repos.personas.findById(participant.personaId) : null
+    const connectionProfile = participant.connectionProfileId ? await repos.connections.findById(participant.connectionProfileId) : null
+    const imageProfile = participant.imageProfileId ? await repos.imageProfiles.findById(participant.imageProfileId) : null
+
+    const ownCharacter = character?.userId === userId ? character : null
+    const ownPersona = persona?.userId === userId ? persona : null
+    for (const avatarId of [ownCharacter?.defaultImageId, ownPersona?.defaultImageId]) {
+      if (avatarId) fileIds.add(avatarId)
+    }
+
+    participants.push({
+      participant,
+      character: ownCharacter ? ArchivedCharacterSchema.parse(ownCharacter) : null,
+      persona: ownPersona ? ArchivedPersonaSchema.parse(ownPersona) : null,
+      connectionProfile: connectionProfile?.userId === userId
+        ? { id: connectionProfile.id, name: connectionProfile.name, provider: connectionProfile.provider, modelName: connectionProfile.modelName }
+        : null,
+      imageProfile: imageProfile?.userId === userId
+        ? { id: imageProfile.id, name: imageProfile.name, provider: imageProfile.provider, modelName: imageProfile.modelName }
+        : null,
+    })
+  }
+
+  const files: ArchivedFile[] = []
+  const entries: ZipEntry[] = []
+  for (const fileId of fileIds) {
+    const entry = await repos.files.findById(fileId)
+    if (entry?.userId !== userId) continue
+    try {
+      const data = await readImageBuffer(fileId)
+      const path = `files/${fileId}${extensionOf(entry.originalFilename)}`
+      files.push({ ...ArchivedFileSchema.omit({ path: true }).parse(entry), path })
+      entries.push({ path, data })
+    } catch (error) {
+      logger.warn('[ChatArchive] Leaving out a file that could not be read', { chatId: chat.id, fileId, error: String(error) })
+    }
+  }
+
+  const tagNames = new Map((await repos.tags.findByUserId(userId)).map(tag => [tag.id, tag.name]))
+  const { userId: _userId, participants: _participants, tags, ...chatFields } = chat
+
+  const manifest: ChatArchiveManifest = {
+    format: CHAT_ARCHIVE_FORMAT,
+    version: CHAT_ARCHIVE_VERSION,
+    schemaVersion: formatSchemaVersion(),
+    exportedAt: new Date().toISOString(),
+    chat: chatFields,
+    participants,
+    tags: tags.map(id => tagNames.get(id)).filter((name): name is string => !!name),
+    files,
+    eventCount: events.length,
+  }
+
+  return createZip([
+    { path: MANIFEST_PATH, data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') },
+    { path: EVENTS_PATH, data: Buffer.from(events.map(event => JSON.stringify(event)).join('\n'), 'utf8') },
+    ...entries,
+  ])
+}
+
+/**
+ * Read and validate an uploaded archive
+ * Throws ChatArchiveError when it isn't a chat archive this version can import.
+ */
+export function readChatArchive(buffer: Buffer): ChatArchive {
+  let entries: ZipEntry[]
+  try {
+    entries = readZip(buffer)
+  } catch (error) {
+    if (error instanceof ZipError) {
+      throw new ChatArchiveError(`Not a readable chat archive: ${error.message}`)
+    }
+    throw error
+  }
+
+  const byPath = new Map(entries.map(entry => [entry.path, entry.data]))
+  const manifestData = byPath.get(MANIFEST_PATH)
+  const eventsData = byPath.get(EVENTS_PATH)
+  if (!manifestData || !eventsData) {
+    throw new ChatArchiveError('Not a Quilltap chat archive: manifest.json or events.jsonl is missing')
+  }
+
+  let raw: any
+  try {
+    raw = JSON.parse(manifestData.toString('utf8'))
+  } catch {
+    throw new ChatArchiveError('The archive manifest is not valid JSON')
+  }
+  if (raw?.format !== CHAT_ARCHIVE_FORMAT) {
+    throw new ChatArchiveError('Not a Quilltap chat archive')
+  }
+  if (typeof raw.version !== 'number' || raw.version > CHAT_ARCHIVE_VERSION) {
+    throw new ChatArchiveError(`Archive format version ${raw.version} is newer than this version of Quilltap supports`)
+  }
+  if (typeof raw.schemaVersion !== 'string' || !isCompatibleSchemaVersion(raw.schemaVersion)) {
+    throw new ChatArchiveError(`Archive schema version ${raw.schemaVersion} can't be imported into schema version ${formatSchemaVersion()}`)
+  }
+
+  const parsed = ChatArchiveManifestSchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new ChatArchiveError(`Invalid archive manifest: ${parsed.error.errors[0]?.message ?? 'unknown error'}`)
+  }
+
+  const events: ChatEvent[] = []
+  const lines = eventsData.toString('utf8').split('\n').filter(line => line.trim())
+  for (const [index, line] of lines.entries()) {
+    let event: unknown
+    try {
+      event = JSON.parse(line)
+    } catch {
+      throw new ChatArchiveError(`Line ${index + 1} of events.jsonl is not valid JSON`)
+    }
+    const result = ChatEventSchema.safeParse(event)
+    if (!result.success) {
+      throw new ChatArchiveError(`Line ${index + 1} of events.jsonl is not a valid chat event`)
+    }
+    events.push(result.data)
+  }
+  if (events.length !== parsed.data.eventCount) {
+    throw new ChatArchiveError(`The archive holds ${events.length} events but its manifest lists ${parsed.data.eventCount}`)
+  }
+
+  const files = new Map<string, Buffer>()
+  for (const file of parsed.data.files) {
+    const data = byPath.get(file.path)
+    if (data) files.set(file.path, data)
+  }
+
+  return { manifest: parsed.data, events, files }
+}
+
+/**
+ * Matches archived participants to the user's entities, creating characters
+ * and personas that can't be found
+ */
+class ParticipantResolver {
+  readonly createdCharacterIds: string[] = []
+  readonly createdPersonaIds: string[] = []
+  // Avatars to attach once the archive's files are stored: file ID -> created entity
+  readonly pendingAvatars = new Map<string, { kind: 'character' | 'persona'; id: string }>()
+
+  private characters = new Map<string, string>()
+  private characterNames = new Map<string, string>()
+  private personas = new Map<string, string>()
+  private personaNames = new Map<string, string>()
+  private connectionProfiles = new Map<string, string>()
+  private connectionProfileNames = new Map<string, string>()
+
+  constructor(private readonly userId: string) {}
+
+  async load(): Promise<void> {
+    const repos = getRepositories()
+    const [characters, personas, profiles] = await Promise.all([
+      repos.characters.findByUserId(this.userId),
+      repos.personas.findByUserId(this.userId),
+      repos.connections.findByUserId(this.userId),
+    ])
+    for (const c of characters) {
+      this.characters.set(c.id, c.id)
+      if (!this.characterNames.has(nameKey(c.name))) this.characterNames.set(nameKey(c.name), c.id)
+    }
+    for (const p of personas) {
+      this.personas.set(p.id, p.id)
+      if (!this.personaNames.has(nameKey(p.name))) this.personaNames.set(nameKey(p.name), p.id)
+    }
+    for (const p of profiles) {
+      this.connectionProfiles.set(p.id, p.id)
+      if (!this.connectionProfileNames.has(nameKey(p.name))) this.connectionProfileNames.set(nameKey(p.name), p.id)
+    }
+  }
+
+  async characterId(archived: NonNullable<ArchivedParticipant['character']>): Promise<string> {
+    const found = this.characters.get(archived.id) ?? this.characterNames.get(nameKey(archived.name))
+    if (found) return found
+
+    const repos = getRepositories()
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, defaultImageId, defaultConnectionProfileId, ...fields } = archived
+    const character = await repos.characters.create({
+      ...fields,
+      userId: this.userId,
+      defaultImageId: null,
+      defaultConnectionProfileId: defaultConnectionProfileId ? this.connectionProfiles.get(defaultConnectionProfileId) ?? null : null,
+      tags: [] as string[],
+      personaLinks: [] as { personaId: string; isDefault: boolean }[],
+      avatarOverrides: [] as { chatId: string; imageId: string }[],
+    })
+    this.remember(this.characters, this.characterNames, archived, character.id)
+    this.createdCharacterIds.push(character.id)
+    if (defaultImageId) this.pendingAvatars.set(defaultImageId, { kind: 'character', id: character.id })
+    return character.id
+  }
+
+  async personaId(archived: NonNullable<ArchivedParticipant['persona']>): Promise<string> {
+    const found = this.personas.get(archived.id) ?? this.personaNames.get(nameKey(archived.name))
+    if (found) return found
+
+    const repos = getRepositories()
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, defaultImageId, ...fields } = archived
+    const persona = await repos.personas.create({
+      ...fields,
+      userId: this.userId,
+      defaultImageId: null,
+      tags: [] as string[],
+      characterLinks: [] as string[],
+    })
+    this.remember(this.personas, this.personaNames, archived, persona.id)
+    this.createdPersonaIds.push(persona.id)
+    if (defaultImageId) this.pendingAvatars.set(defaultImageId, { kind: 'persona', id: persona.id })
+    return persona.id
+  }
+
+  connectionProfileId(archived: ArchivedParticipant['connectionProfile']): string | null {
+    if (!archived) return null
+    return this.connectionProfiles.get(archived.id) ?? this.connectionProfileNames.get(nameKey(archived.name)) ?? null
+  }
+
+  async imageProfileId(archived: ArchivedParticipant['imageProfile']): Promise<string | null> {
+    if (!archived) return null
+    const repos = getRepositories()
+    const byId = await repos.imageProfiles.findById(archived.id)
+    if (byId?.userId === this.userId) return byId.id
+    return (await repos.imageProfiles.findByName(this.userId, archived.name))?.id ?? null
+  }
+
+  private remember(byId: Map<string, string>, byName: Map<string, string>, archived: { id: string; name: string }, id: string) {
+    byId.set(archived.id, id)
+    if (!byName.has(nameKey(archived.name))) byName.set(nameKey(archived.name), id)
+  }
+}
+
+/**
+ * Import a read archive as a new chat of the user
+ *
+ * The fallback connection profile's ownership is the caller's to check.
+ * Throws ChatArchiveError when a character participant is left without a
+ * connection profile.
+ */
+export async function importChatArchive(
+  userId: string,
+  archive: ChatArchive,
+  options: ChatArchiveImportOptions = {}
+): Promise<ChatArchiveImportResult> {
+  const repos = getRepositories()
+  const { manifest } = archive
+
+  const resolver = new ParticipantResolver(userId)
+  await resolver.load()
+  const fallbackProfileId = options.connectionProfileId
+    ?? (await repos.connections.findDefault(userId))?.id
+    ?? null
+
+  const now = new Date().toISOString()
+  const participantIds = new Map<string, string>()
+  const participants: ChatParticipantBase[] = []
+  for (const archived of manifest.participants) {
+    const { participant } = archived
+    const characterId = participant.type === 'CHARACTER' && archived.character ? await resolver.characterId(archived.character) : null
+    const personaId = participant.type === 'PERSONA' && archived.persona ? await resolver.personaId(archived.persona) : null
+    if (!characterId && !personaId) {
+      logger.warn('[ChatArchive] Dropping a participant the archive has no entity for', { participantId: participant.id })
+      continue
+    }
+
+    const connectionProfileId = resolver.connectionProfileId(archived.connectionProfile)
+      ?? (participant.type === 'CHARACTER' ? fallbackProfileId : null)
+    if (participant.type === 'CHARACTER' && !connectionProfileId) {
+      throw new ChatArchiveError('A connection profile is needed to import this chat')
+    }
+
+    const id = crypto.randomUUID()
+    participantIds.set(participant.id, id)
+    participants.push({
+      ...participant,
+      id,
+      characterId,
+      personaId,
+      connectionProfileId,
+      imageProfileId: await resolver.imageProfileId(archived.imageProfile),
+      updatedAt: now,
+    })
+  }
+  if (!participants.some(p => p.type === 'CHARACTER')) {
+    throw new ChatArchiveError('The archive has no character to chat with')
+  }
+
+  // Tags are matched by name and created when missing
+  const tagIds: string[] = []
+  for (const name of new Set(manifest.tags)) {
+    const tag = await repos.tags.findByName(userId, name)
+      ?? await repos.tags.create({ userId, name, nameLower: name.toLowerCase(), quickHide: false })
+    tagIds.push(tag.id)
+  }
+
+  // A fork keeps its link when its parent chat is here too
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, parentChatId, forkedFromMessageId, ...chatFields } = manifest.chat
+  const parent = parentChatId ? await repos.chats.findById(parentChatId) : null
+  const keepsParent = parent?.userId === userId
+
+  const chat = await repos.chats.create({
+    ...chatFields,
+    userId,
+    participants,
+    tags: tagIds,
+    parentChatId: keepsParent ? parentChatId : null,
+    forkedFromMessageId: keepsParent ? forkedFromMessageId ?? null : null,
+  })
+
+  const eventIds = new Map(archive.events.map(event => [event.id, crypto.randomUUID()]))
+
+  // Store each file once, linked to the chat and every message it's attached to
+  const fileIds = new Map<string, string>()
+  for (const file of manifest.files) {
+    const data = archive.files.get(file.path)
+    if (!data) continue
+    const messageIds = archive.events
+      .filter(event => event.type === 'message' && event.attachments.includes(file.id))
+      .map(event => eventIds.get(event.id)!)
+    const avatarOf = resolver.pendingAvatars.get(file.id)
+    try {
+      const stored = await restoreFileBuffer(data, file, userId, [
+        ...(messageIds.length > 0 ? [chat.id, ...messageIds] : []),
+        ...(avatarOf ? [avatarOf.id] : []),
+      ])
+      fileIds.set(file.id, stored.id)
+      if (avatarOf?.kind === 'character') {
+        await repos.characters.update(avatarOf.id, { defaultImageId: stored.id })
+      } else if (avatarOf?.kind === 'persona') {
+        await repos.personas.update(avatarOf.id, { defaultImageId: stored.id })
+      }
+    } catch (error) {
+      logger.warn('[ChatArchive] Could not store an archived file', { chatId: chat.id, fileId: file.id, error: String(error) })
+    }
+  }
+
+  let missingFiles = 0
+  const events: ChatEvent[] = archive.events.map(event => {
+    if (event.type !== 'message') {
+      return { ...event, id: eventIds.get(event.id)! }
+    }
+    const attachments = event.attachments
+      .map(id => fileIds.get(id))
+      .filter((id): id is string => !!id)
+    missingFiles += event.attachments.length - attachments.length
+    return {
+      ...event,
+      id: eventIds.get(event.id)!,
+      participantId: event.participantId ? participantIds.get(event.participantId) ?? null : event.participantId,
+      attachments,
+    }
+  })
+  if (events.length > 0) {
+    await repos.chats.addMessages(chat.id, events)
+  }
+
+  logger.info('[ChatArchive] Imported chat archive', {
+    chatId: chat.id,
+    userId,
+    events: events.length,
+    files: fileIds.size,
+    createdCharacters: resolver.createdCharacterIds.length,
+  })
+
+  return {
+    chat,
+    createdCharacterIds: resolver.createdCharacterIds,
+    createdPersonaIds: resolver.createdPersonaIds,
+    missingFiles,
+  }
+}
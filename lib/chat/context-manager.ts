@@ -7,10 +7,13 @@
  * and message selection to stay within model limits.
  */
 
-import { Provider, Memory, Character, ChatParticipantBase, ChatMetadataBase } from '@/lib/schemas/types'
+import { Provider, Memory, Character, ChatParticipantBase, ChatMetadataBase, Lorebook } from '@/lib/schemas/types'
 import { estimateTokens, countMessagesTokens, truncateToTokenLimit } from '@/lib/tokens/token-counter'
 import { getModelContextLimit, getRecommendedContextAllocation, shouldSummarizeConversation } from '@/lib/llm/model-context-data'
-import { searchMemoriesSemantic, SemanticSearchResult } from '@/lib/memory/memory-service'
+import { reinforceMemories, searchMemoriesSemantic, SemanticSearchResult } from '@/lib/memory/memory-service'
+import { buildWorldInfo, WorldInfoDebugEntry } from '@/lib/lorebooks/world-info'
+import { buildTemplateContext } from '@/lib/templates/processor'
+import { logger } from '@/lib/logger'
 
 /**
  * Message format expected by the context manager
@@ -53,6 +56,7 @@ export interface BuiltContext {
   /** Token usage breakdown */
   tokenUsage: {
     systemPrompt: number
+    worldInfo: number
     memories: number
     summary: number
     recentMessages: number
@@ -64,6 +68,8 @@ export interface BuiltContext {
   includedSummary: boolean
   /** Number of memories included */
   memoriesIncluded: number
+  /** Number of lorebook entries included */
+  worldInfoEntriesIncluded: number
   /** Number of messages included */
   messagesIncluded: number
   /** Whether messages were truncated to fit */
@@ -76,6 +82,8 @@ export interface BuiltContext {
   debugSummary?: string
   /** Debug info: the system prompt that was built */
   debugSystemPrompt?: string
+  /** Debug info: the lorebook entries that were included */
+  debugWorldInfo?: WorldInfoDebugEntry[]
 }
 
 /**
@@ -90,8 +98,8 @@ export interface BuildContextOptions {
   userId: string
   /** Character for system prompt */
   character: Character
-  /** Persona information (optional) */
-  persona?: { name: string; description: string } | null
+  /** Persona information (optional); the id scopes persona-only memories */
+  persona?: { id?: string; name: string; description: string } | null
   /** Chat metadata */
   chat: ChatMetadataBase
   /** Existing messages in the conversation */
@@ -108,6 +116,12 @@ export interface BuildContextOptions {
   maxMemories?: number
   /** Minimum importance for memories */
   minMemoryImportance?: number
+  /** Names of the other characters taking part in a group chat */
+  groupParticipantNames?: string[]
+  /** Text used for memory search (defaults to newUserMessage) */
+  memorySearchQuery?: string
+  /** Lorebooks in scope for this chat (character, persona and chat lorebooks) */
+  lorebooks?: Lorebook[]
 }
 
 /**
@@ -129,21 +143,42 @@ export function calculateContextBudget(
   }
 }
 
+const WORLD_INFO_MACRO = /\{\{(wiBefore|wiAfter|loreBefore|loreAfter)\}\}/g
+
 /**
  * Build the system prompt for a character
+ *
+ * World info is placed wherever the base prompt uses {{wiBefore}}/{{wiAfter}}
+ * (or the lore aliases); otherwise it goes before and after the character
+ * definition sections.
  */
 export function buildSystemPrompt(
   character: Character,
   persona?: { name: string; description: string } | null,
-  systemPromptOverride?: string | null
+  systemPromptOverride?: string | null,
+  groupParticipantNames?: string[],
+  worldInfo?: { before: string; after: string } | null
 ): string {
   const parts: string[] = []
+  let placedBefore = false
+  let placedAfter = false
 
   // Base system prompt from character or override
-  if (systemPromptOverride) {
-    parts.push(systemPromptOverride)
-  } else if (character.systemPrompt) {
-    parts.push(character.systemPrompt)
+  const basePrompt = systemPromptOverride || character.systemPrompt
+  if (basePrompt) {
+    parts.push(basePrompt.replace(WORLD_INFO_MACRO, (_match, name: string) => {
+      if (name === 'wiBefore' || name === 'loreBefore') {
+        placedBefore = true
+        return worldInfo?.before || ''
+      }
+      placedAfter = true
+      return worldInfo?.after || ''
+    }))
+  }
+
+  // World info that belongs before the character definition
+  if (worldInfo?.before && !placedBefore) {
+    parts.push(`\n## World Info\n${worldInfo.before}`)
   }
 
   // Character personality
@@ -161,11 +196,25 @@ export function buildSystemPrompt(
     parts.push(`\n## Example Dialogue Style\n${character.exampleDialogues}`)
   }
 
+  // World info that belongs after the character definition
+  if (worldInfo?.after && !placedAfter) {
+    parts.push(`\n## World Info\n${worldInfo.after}`)
+  }
+
   // Persona information if provided
   if (persona) {
     parts.push(`\n## User Persona\nYou are speaking with ${persona.name}. ${persona.description}`)
   }
 
+  // Other characters sharing the conversation
+  if (groupParticipantNames && groupParticipantNames.length > 0) {
+    parts.push(
+      `\n## Group Chat\nThis is a group conversation. Other characters present: ${groupParticipantNames.join(', ')}. ` +
+      `Their messages appear prefixed with their name. Respond only as ${character.name}; ` +
+      `do not write dialogue or actions for the other characters.`
+    )
+  }
+
   return parts.join('\n\n').trim()
 }
 
@@ -180,15 +229,18 @@ export function formatMemoriesForContext(
   content: string
   tokenCount: number
   memoriesUsed: number
+  /** IDs of the memories that fit in the budget */
+  memoryIds: string[]
   debugMemories: Array<{ summary: string; importance: number; score: number }>
 } {
   if (memories.length === 0) {
-    return { content: '', tokenCount: 0, memoriesUsed: 0, debugMemories: [] }
+    return { content: '', tokenCount: 0, memoriesUsed: 0, memoryIds: [], debugMemories: [] }
   }
 
   const memoryParts: string[] = ['## Relevant Memories']
   let currentTokens = estimateTokens('## Relevant Memories\n', provider)
   let memoriesUsed = 0
+  const memoryIds: string[] = []
   const debugMemories: Array<{ summary: string; importance: number; score: number }> = []
 
   // Sort by relevance score (highest first)
@@ -211,6 +263,7 @@ export function formatMemoriesForContext(
     memoryParts.push(memoryLine)
     currentTokens += lineTokens
     memoriesUsed++
+    memoryIds.push(memory.id)
     debugMemories.push({
       summary: memory.summary,
       importance: memory.importance,
@@ -219,13 +272,14 @@ export function formatMemoriesForContext(
   }
 
   if (memoriesUsed === 0) {
-    return { content: '', tokenCount: 0, memoriesUsed: 0, debugMemories: [] }
+    return { content: '', tokenCount: 0, memoriesUsed: 0, memoryIds: [], debugMemories: [] }
   }
 
   return {
     content: memoryParts.join('\n'),
     tokenCount: currentTokens,
     memoriesUsed,
+    memoryIds,
     debugMemories,
   }
 }
@@ -325,13 +379,26 @@ export async function buildContext(options: BuildContextOptions): Promise<BuiltC
     skipMemories = false,
     maxMemories = 10,
     minMemoryImportance = 0.3,
+    groupParticipantNames,
+    memorySearchQuery,
+    lorebooks = [],
   } = options
 
   const warnings: string[] = []
   const budget = calculateContextBudget(provider, modelName)
 
-  // 1. Build system prompt
-  const systemPrompt = buildSystemPrompt(character, persona, systemPromptOverride)
+  // 1. Scan the conversation for lorebook entries, then build the system prompt
+  const worldInfo = buildWorldInfo({
+    lorebooks,
+    messages: [...existingMessages.map(m => m.content), newUserMessage],
+    provider,
+    templateContext: buildTemplateContext({ character, persona }),
+  })
+  if (worldInfo.skippedForBudget > 0) {
+    warnings.push(`${worldInfo.skippedForBudget} triggered lorebook entries were skipped to stay within lorebook token budgets.`)
+  }
+
+  const systemPrompt = buildSystemPrompt(character, persona, systemPromptOverride, groupParticipantNames, worldInfo)
   const systemPromptTokens = estimateTokens(systemPrompt, provider)
 
   // Check if system prompt exceeds budget
@@ -341,6 +408,8 @@ export async function buildContext(options: BuildContextOptions): Promise<BuiltC
     finalSystemPrompt = truncateToTokenLimit(systemPrompt, budget.systemPromptBudget, provider)
   }
   const finalSystemPromptTokens = estimateTokens(finalSystemPrompt, provider)
+  // Reported separately; world info is part of the system prompt text
+  const worldInfoTokens = Math.min(worldInfo.tokenCount, finalSystemPromptTokens)
 
   // 2. Retrieve and format relevant memories
   let memoryContent = ''
@@ -353,12 +422,13 @@ export async function buildContext(options: BuildContextOptions): Promise<BuiltC
       // Search for memories relevant to the new user message
       const memoryResults = await searchMemoriesSemantic(
         character.id,
-        newUserMessage,
+        memorySearchQuery || newUserMessage,
         {
           userId,
           embeddingProfileId,
           limit: maxMemories * 2, // Get more to filter
           minImportance: minMemoryImportance,
+          scope: { personaId: persona?.id ?? null, chatId: chat.id },
         }
       )
 
@@ -372,6 +442,15 @@ export async function buildContext(options: BuildContextOptions): Promise<BuiltC
       memoryTokens = formatted.tokenCount
       memoriesIncluded = formatted.memoriesUsed
       debugMemories = formatted.debugMemories
+
+      // Injected memories are reinforced; this never blocks the response
+      const injectedIds = new Set(formatted.memoryIds)
+      reinforceMemories(
+        character.id,
+        memoryResults.filter(result => injectedIds.has(result.memory.id)).map(result => result.memory)
+      ).catch(error =>
+        logger.warn('Failed to reinforce injected memories', { characterId: character.id, error: error instanceof Error ? error.message : String(error) })
+      )
     } catch (error) {
       warnings.push(`Failed to retrieve memories: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -456,7 +535,8 @@ export async function buildContext(options: BuildContextOptions): Promise<BuiltC
   return {
     messages: contextMessages,
     tokenUsage: {
-      systemPrompt: finalSystemPromptTokens,
+      systemPrompt: finalSystemPromptTokens - worldInfoTokens,
+      worldInfo: worldInfoTokens,
       memories: memoryTokens,
       summary: summaryTokens,
       recentMessages: messagesTokens + newUserMessageTokens,
@@ -465,6 +545,7 @@ export async function buildContext(options: BuildContextOptions): Promise<BuiltC
     budget,
     includedSummary: summaryTokens > 0,
     memoriesIncluded,
+    worldInfoEntriesIncluded: worldInfo.entries.length,
     messagesIncluded: selectedMessages.length + 1, // +1 for new message
     messagesTruncated: truncated,
     warnings,
@@ -472,6 +553,7 @@ export async function buildContext(options: BuildContextOptions): Promise<BuiltC
     debugMemories,
     debugSummary: chat.contextSummary || undefined,
     debugSystemPrompt: finalSystemPrompt,
+    debugWorldInfo: worldInfo.entries,
   }
 }
 
@@ -0,0 +1,144 @@
+/**
+ * Chat Forking
+ *
+ * Helpers for branching a conversation from any message into a new chat,
+ * and for arranging chats into branch trees for the chat list.
+ * Kept free of server-only imports so the chat list can use them too.
+ */
+
+import type { ChatEvent, MessageEvent } from '@/lib/schemas/types'
+
+/**
+ * Result of slicing a chat's event log at a fork point
+ */
+export interface ForkedEvents {
+  /** Events for the new chat, with fresh IDs */
+  events: ChatEvent[]
+  /** Original event ID -> new event ID */
+  idMap: Map<string, string>
+  /** Context summary text to store on the new chat */
+  contextSummary: string | null
+}
+
+/**
+ * Copy the events of a chat up to and including the given message.
+ *
+ * Earlier swipe alternatives come along so the branch keeps its history;
+ * the forked message itself is kept only in the variant the user forked from.
+ * Every event gets a new ID so message IDs stay unique across chats.
+ *
+ * @returns null when the message is not part of the event log
+ */
+export function buildForkedEvents(
+  events: ChatEvent[],
+  messageId: string,
+  sourceContextSummary?: string | null,
+  generateId: () => string = () => crypto.randomUUID()
+): ForkedEvents | null {
+  const forkIndex = events.findIndex(e => e.type === 'message' && e.id === messageId)
+  if (forkIndex === -1) {
+    return null
+  }
+
+  const forkMessage = events[forkIndex] as MessageEvent
+  const forkGroupId = forkMessage.swipeGroupId || null
+
+  // Swipe groups of earlier messages, whose alternatives may have been appended later
+  const includedGroups = new Set<string>()
+  for (let i = 0; i < forkIndex; i++) {
+    const event = events[i]
+    if (event.type === 'message' && event.swipeGroupId && event.swipeGroupId !== forkGroupId) {
+      includedGroups.add(event.swipeGroupId)
+    }
+  }
+
+  const selected = events.filter((event, index) => {
+    if (event.type === 'message' && forkGroupId && event.swipeGroupId === forkGroupId) {
+      return event.id === messageId
+    }
+    if (index <= forkIndex) {
+      return true
+    }
+    return event.type === 'message' && !!event.swipeGroupId && includedGroups.has(event.swipeGroupId)
+  })
+
+  const idMap = new Map<string, string>()
+  const forkedEvents: ChatEvent[] = selected.map(event => {
+    const newId = generateId()
+    idMap.set(event.id, newId)
+
+    if (event.type === 'message' && event.id === messageId && forkGroupId) {
+      // The chosen variant becomes the only version of this message in the branch
+      return { ...event, id: newId, swipeGroupId: null, swipeIndex: null }
+    }
+
+    return { ...event, id: newId }
+  })
+
+  // Prefer the latest summary inside the branch; a chat without summary events
+  // keeps its original context (usually the scenario it was started with)
+  const summaries = selected.filter(e => e.type === 'context-summary')
+  const hasAnySummaryEvents = events.some(e => e.type === 'context-summary')
+  let contextSummary: string | null = null
+  if (summaries.length > 0) {
+    contextSummary = summaries[summaries.length - 1].context
+  } else if (!hasAnySummaryEvents) {
+    contextSummary = sourceContextSummary ?? null
+  }
+
+  return { events: forkedEvents, idMap, contextSummary }
+}
+
+/**
+ * A chat positioned in its branch tree
+ */
+export interface BranchTreeNode<T> {
+  chat: T
+  depth: number
+}
+
+/**
+ * Order chats so that every fork appears directly under its parent.
+ * Roots and siblings keep their incoming order; chats whose parent is
+ * missing (deleted or hidden) are treated as roots.
+ */
+export function orderChatsAsBranchTree<T extends { id: string; parentChatId?: string | null }>(
+  chats: T[]
+): BranchTreeNode<T>[] {
+  const ids = new Set(chats.map(c => c.id))
+  const children = new Map<string, T[]>()
+  const roots: T[] = []
+
+  for (const chat of chats) {
+    if (chat.parentChatId && chat.parentChatId !== chat.id && ids.has(chat.parentChatId)) {
+      const siblings = children.get(chat.parentChatId) || []
+      siblings.push(chat)
+      children.set(chat.parentChatId, siblings)
+    } else {
+      roots.push(chat)
+    }
+  }
+
+  const ordered: BranchTreeNode<T>[] = []
+  const visited = new Set<string>()
+
+  const visit = (chat: T, depth: number) => {
+    if (visited.has(chat.id)) return
+    visited.add(chat.id)
+    ordered.push({ chat, depth })
+    for (const child of children.get(chat.id) || []) {
+      visit(child, depth + 1)
+    }
+  }
+
+  for (const root of roots) {
+    visit(root, 0)
+  }
+
+  // Anything left is part of a parent cycle; show it at the top level
+  for (const chat of chats) {
+    visit(chat, 0)
+  }
+
+  return ordered
+}
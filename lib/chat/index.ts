@@ -31,3 +31,22 @@ export {
   type GenerateSummaryOptions,
   type SummaryGenerationResult,
 } from './context-summary'
+
+export {
+  getEligibleSpeakers,
+  selectNextSpeaker,
+  selectRoundRobin,
+  selectByMention,
+  findLastSpeakerId,
+  type SpeakerCandidate,
+  type SpeakerSelection,
+  type SelectNextSpeakerOptions,
+  type NaturalSpeakerSelector,
+} from './turn-manager'
+
+export {
+  buildForkedEvents,
+  orderChatsAsBranchTree,
+  type ForkedEvents,
+  type BranchTreeNode,
+} from './fork'
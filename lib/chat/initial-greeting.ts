@@ -1,7 +1,9 @@
 // Initial Greeting Helper
-// Generates a first message for a chat when no scripted greeting exists
+// Opens a chat with the character's scripted greetings, or generates a first
+// message when none exist
 
 import { createLLMProvider } from '@/lib/llm'
+import type { MessageEvent } from '@/lib/schemas/types'
 
 export type GreetingRequest = {
   systemPrompt: string
@@ -15,6 +17,52 @@ export type GreetingRequest = {
   topP?: number
 }
 
+// A greeting picked by its position in the character's list, or a random one
+export type GreetingChoice = number | 'random'
+
+/**
+ * Resolve the greeting to open with. Without a choice the first greeting is
+ * used; returns null when the chosen index is out of range.
+ */
+export function selectGreetingIndex(
+  count: number,
+  choice?: GreetingChoice,
+  random: () => number = Math.random
+): number | null {
+  if (choice === 'random') {
+    return Math.floor(random() * count)
+  }
+  const index = choice ?? 0
+  return index < count ? index : null
+}
+
+/**
+ * Build the opening message from scripted greetings. The selected greeting is
+ * shown first and the others become swipes of the same message, so the user
+ * can still page through them.
+ */
+export function buildGreetingMessages(
+  greetings: string[],
+  selectedIndex: number,
+  createdAt: string = new Date().toISOString()
+): MessageEvent[] {
+  const ordered = [greetings[selectedIndex], ...greetings.filter((_, index) => index !== selectedIndex)]
+  const ids = ordered.map(() => crypto.randomUUID())
+  // Same group id format the swipe route uses, so regenerated swipes join the group
+  const swipeGroupId = ordered.length > 1 ? `swipe-${ids[0]}` : null
+
+  return ordered.map((content, index) => ({
+    type: 'message',
+    id: ids[index],
+    role: 'ASSISTANT',
+    content,
+    swipeGroupId,
+    swipeIndex: swipeGroupId ? index : null,
+    attachments: [],
+    createdAt,
+  }))
+}
+
 /**
  * Ask the configured LLM to produce a short greeting that fits the character.
  */
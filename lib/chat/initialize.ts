@@ -11,6 +11,7 @@ interface Character {
   personality?: string | null
   scenario?: string | null
   firstMessage?: string | null
+  alternateGreetings?: string[] | null
   exampleDialogues?: string | null
   systemPrompt?: string | null
 }
@@ -25,6 +26,8 @@ interface Persona {
 export interface ChatContext {
   systemPrompt: string
   firstMessage: string
+  /** Scripted greetings to choose from: the first message (when set), then the alternates */
+  greetings: string[]
   character: Character
   persona?: Persona | null
 }
@@ -67,10 +70,15 @@ export async function buildChatContext(
     scenario: customScenario || character.scenario || undefined,
   })
   const firstMessage = processedCharacter.firstMessage
+  const greetings = [
+    ...(character.firstMessage?.trim() ? [firstMessage] : []),
+    ...processedCharacter.alternateGreetings,
+  ].map(greeting => greeting.trim())
 
   return {
     systemPrompt,
     firstMessage,
+    greetings,
     character,
     persona: persona || null,
   }
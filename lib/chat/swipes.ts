@@ -0,0 +1,36 @@
+/**
+ * Chat Swipes
+ *
+ * A swipe group holds the alternative versions of one assistant message. The
+ * chat shows, and the model sees, only the group's active swipe: the one the
+ * user switched to, or index 0 until they switch.
+ * Kept free of server-only imports so the chat page can use them too.
+ */
+
+import type { ChatEvent, MessageEvent } from '@/lib/schemas/types'
+
+type Swipe = Pick<MessageEvent, 'id' | 'swipeIndex' | 'activeSwipe'>
+
+/**
+ * The active swipe among the messages of one swipe group
+ */
+export function getActiveSwipe<T extends Swipe>(group: T[]): T | undefined {
+  return group.find(m => m.activeSwipe) ?? group.find(m => !m.swipeIndex) ?? group[0]
+}
+
+/**
+ * Drop the swipes that aren't active, keeping every other event
+ */
+export function filterActiveSwipes<T extends ChatEvent>(events: T[]): T[] {
+  const groups = new Map<string, MessageEvent[]>()
+  for (const event of events) {
+    if (event.type === 'message' && event.swipeGroupId) {
+      const group = groups.get(event.swipeGroupId) ?? []
+      group.push(event)
+      groups.set(event.swipeGroupId, group)
+    }
+  }
+
+  const activeIds = new Set(Array.from(groups.values(), group => getActiveSwipe(group)?.id))
+  return events.filter(event => event.type !== 'message' || !event.swipeGroupId || activeIds.has(event.id))
+}
@@ -0,0 +1,153 @@
+/**
+ * Tool Approval
+ *
+ * Resolves which approval policy applies to a tool call and keeps track of
+ * calls that are waiting on the user. The chat stream registers a pending
+ * approval and awaits its decision; the approval endpoint resolves it when
+ * the user clicks Allow or Deny on the chat page.
+ */
+
+import { logger } from '@/lib/logger'
+import type { ToolApprovalDecision, ToolPolicy, ToolPolicyMap } from '@/lib/schemas/types'
+
+/** Policy for tools that no policy map mentions */
+export const DEFAULT_TOOL_POLICY: ToolPolicy = 'ALWAYS_ALLOW'
+
+/** How long a tool call waits for the user before it is treated as denied */
+export const TOOL_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * Approval outcome recorded on the tool message
+ */
+export interface ToolApprovalRecord {
+  policy: ToolPolicy
+  decision: ToolApprovalDecision
+  decidedAt: string
+}
+
+interface PendingApproval {
+  chatId: string
+  userId: string
+  toolName: string
+  resolve: (approved: boolean | null) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+const pendingApprovals = new Map<string, PendingApproval>()
+
+/**
+ * Finds the policy a map assigns to a tool
+ * An exact key wins over wildcard keys; among wildcards the longest prefix wins.
+ */
+function matchPolicy(toolName: string, policies?: ToolPolicyMap | null): ToolPolicy | undefined {
+  if (!policies) {
+    return undefined
+  }
+
+  if (policies[toolName]) {
+    return policies[toolName]
+  }
+
+  let bestPrefix = -1
+  let best: ToolPolicy | undefined
+  for (const [pattern, policy] of Object.entries(policies)) {
+    if (!pattern.endsWith('*')) {
+      continue
+    }
+    const prefix = pattern.slice(0, -1)
+    if (toolName.startsWith(prefix) && prefix.length > bestPrefix) {
+      bestPrefix = prefix.length
+      best = policy
+    }
+  }
+
+  return best
+}
+
+/**
+ * Resolves the policy for a tool call
+ * The chat's own overrides take precedence over the user's chat settings.
+ */
+export function resolveToolPolicy(
+  toolName: string,
+  settingsPolicies?: ToolPolicyMap | null,
+  chatPolicies?: ToolPolicyMap | null
+): ToolPolicy {
+  return matchPolicy(toolName, chatPolicies)
+    ?? matchPolicy(toolName, settingsPolicies)
+    ?? DEFAULT_TOOL_POLICY
+}
+
+/**
+ * Registers a tool call that needs the user's approval
+ *
+ * The returned promise resolves to true (approved), false (denied) or null
+ * when nobody answered within the timeout.
+ */
+export function requestToolApproval(params: {
+  chatId: string
+  userId: string
+  toolName: string
+  timeoutMs?: number
+}): { approvalId: string; decision: Promise<boolean | null> } {
+  const approvalId = crypto.randomUUID()
+  const timeoutMs = params.timeoutMs ?? TOOL_APPROVAL_TIMEOUT_MS
+
+  const decision = new Promise<boolean | null>((resolve) => {
+    const timer = setTimeout(() => {
+      if (pendingApprovals.delete(approvalId)) {
+        logger.info('Tool approval timed out', { approvalId, chatId: params.chatId, toolName: params.toolName })
+        resolve(null)
+      }
+    }, timeoutMs)
+
+    pendingApprovals.set(approvalId, {
+      chatId: params.chatId,
+      userId: params.userId,
+      toolName: params.toolName,
+      resolve,
+      timer,
+    })
+  })
+
+  logger.debug('Tool approval requested', { approvalId, chatId: params.chatId, toolName: params.toolName })
+
+  return { approvalId, decision }
+}
+
+/**
+ * Records the user's answer to a pending approval
+ * Returns false when the approval does not exist, has already been answered
+ * or belongs to another user or chat.
+ */
+export function resolveToolApproval(
+  approvalId: string,
+  userId: string,
+  chatId: string,
+  approved: boolean
+): boolean {
+  const pending = pendingApprovals.get(approvalId)
+  if (!pending || pending.userId !== userId || pending.chatId !== chatId) {
+    return false
+  }
+
+  clearTimeout(pending.timer)
+  pendingApprovals.delete(approvalId)
+  pending.resolve(approved)
+
+  logger.debug('Tool approval resolved', { approvalId, chatId, toolName: pending.toolName, approved })
+  return true
+}
+
+/**
+ * Denies every approval still waiting in a chat, e.g. when its stream is torn down
+ */
+export function cancelPendingToolApprovals(chatId: string): void {
+  for (const [approvalId, pending] of Array.from(pendingApprovals.entries())) {
+    if (pending.chatId === chatId) {
+      clearTimeout(pending.timer)
+      pendingApprovals.delete(approvalId)
+      pending.resolve(false)
+    }
+  }
+}
@@ -17,6 +17,10 @@ import {
   formatWebSearchResults,
   type WebSearchToolContext,
 } from '@/lib/tools/handlers/web-search-handler';
+import { callMcpTool, isMcpToolName } from '@/lib/mcp';
+import { getWebSearchBackendForUser } from '@/lib/web-search';
+import type { WebSearchCitation } from '@/lib/tools/web-search-tool';
+import type { ToolApprovalRecord } from './tool-approval';
 
 export interface ToolCallRequest {
   name: string;
@@ -31,6 +35,14 @@ export interface ToolResult {
   metadata?: {
     provider?: string;
     model?: string;
+    /** MCP server and tool name, for tools provided by an MCP server */
+    mcpServer?: string;
+    mcpTool?: string;
+    /** How the call got past (or was stopped by) its approval policy */
+    approval?: ToolApprovalRecord;
+    /** Search backend and sources, for search_web results */
+    searchBackend?: string;
+    citations?: WebSearchCitation[];
   };
 }
 
@@ -43,6 +55,8 @@ export interface ToolExecutionContext {
   imageProfileId?: string;
   characterId?: string;
   embeddingProfileId?: string;
+  /** Persona the user is speaking as, for persona-only memories */
+  personaId?: string | null;
   /** Participant ID of who is calling the tool (for {{me}} resolution in image prompts) */
   callingParticipantId?: string;
 }
@@ -161,6 +175,8 @@ export async function executeToolCallWithContext(
         userId,
         characterId,
         embeddingProfileId,
+        chatId,
+        personaId: context.personaId ?? null,
       };
 
       const result = await executeMemorySearchTool(toolCall.arguments, memoryContext);
@@ -186,8 +202,12 @@ export async function executeToolCallWithContext(
     // Handle web search
     if (toolCall.name === 'search_web') {
       // Execute web search tool
+      const configured = await getWebSearchBackendForUser(userId);
       const webSearchContext: WebSearchToolContext = {
         userId,
+        backend: configured?.backend,
+        fetchPageContent: configured?.settings.fetchPageContent,
+        maxPageChars: configured?.settings.maxPageChars,
       };
 
       const result = await executeWebSearchTool(toolCall.arguments, webSearchContext);
@@ -203,10 +223,31 @@ export async function executeToolCallWithContext(
         result: result.success ? {
           formattedText: formattedResult,
           results: result.results,
+          citations: result.citations,
           totalFound: result.totalFound,
           query: result.query,
         } : null,
         error: result.success ? undefined : result.error,
+        metadata: result.success ? { searchBackend: result.backend, citations: result.citations } : undefined,
+      };
+    }
+
+    // Handle tools provided by the user's MCP servers
+    if (isMcpToolName(toolCall.name)) {
+      const result = await callMcpTool(userId, toolCall.name, toolCall.arguments);
+
+      return {
+        toolName: toolCall.name,
+        success: !result.isError,
+        result: {
+          formattedText: result.formattedText,
+          content: result.content,
+        },
+        error: result.isError ? result.formattedText : undefined,
+        metadata: {
+          mcpServer: result.server,
+          mcpTool: result.tool,
+        },
       };
     }
 
@@ -227,6 +268,24 @@ export async function executeToolCallWithContext(
   }
 }
 
+/**
+ * Execute all tool calls from one model response concurrently
+ * Results are returned in the same order as the calls. Individual failures
+ * are reported in their ToolResult rather than failing the whole round.
+ */
+export async function executeToolCallsInParallel(
+  toolCalls: ToolCallRequest[],
+  context: ToolExecutionContext
+): Promise<ToolResult[]> {
+  logger.debug('Executing tool calls in parallel', {
+    context: 'tool-executor',
+    chatId: context.chatId,
+    tools: toolCalls.map(tc => tc.name),
+  })
+
+  return Promise.all(toolCalls.map(toolCall => executeToolCallWithContext(toolCall, context)));
+}
+
 /**
  * Detect tool calls in LLM response
  * Uses plugin's parseToolCalls method when available, with fallback to legacy detection
@@ -0,0 +1,21 @@
+/**
+ * Tool Policy Options
+ *
+ * Tools and policy labels offered by the tool approval settings. Kept free of
+ * server imports so the settings tab and the chat settings modal can share it.
+ */
+
+import type { ToolPolicy } from '@/lib/schemas/types'
+
+export const TOOL_POLICY_TARGETS: Array<{ toolName: string; label: string; description: string }> = [
+  { toolName: 'generate_image', label: 'Image Generation', description: 'Creates images with the image profile (may cost money)' },
+  { toolName: 'search_web', label: 'Web Search', description: 'Searches the web for current information' },
+  { toolName: 'search_memories', label: 'Memory Search', description: "Searches the character's memories" },
+  { toolName: 'mcp__*', label: 'MCP Server Tools', description: 'Every tool provided by your MCP servers' },
+]
+
+export const TOOL_POLICY_OPTIONS: Array<{ value: ToolPolicy; label: string }> = [
+  { value: 'ALWAYS_ALLOW', label: 'Always allow' },
+  { value: 'ASK', label: 'Ask every time' },
+  { value: 'NEVER', label: 'Never' },
+]
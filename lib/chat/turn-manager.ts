@@ -0,0 +1,203 @@
+/**
+ * Turn Manager
+ *
+ * Decides which CHARACTER participant answers next in a chat.
+ * Single-character chats always resolve to that character; group chats
+ * use the chat's turn strategy (manual, round-robin, mention-based, or
+ * an LLM-decided "natural" order) unless the user picked a speaker.
+ */
+
+import { ChatEvent, ChatParticipantBase, TurnStrategy } from '@/lib/schemas/types'
+import { logger } from '@/lib/logger'
+
+/**
+ * A participant that is able to speak, paired with its display name
+ */
+export interface SpeakerCandidate {
+  participant: ChatParticipantBase
+  name: string
+}
+
+/**
+ * Callback used by the NATURAL strategy to ask an LLM who should speak.
+ * Returns the chosen participant ID or name, or null if undecided.
+ */
+export type NaturalSpeakerSelector = (
+  candidates: SpeakerCandidate[],
+  userMessage: string | undefined
+) => Promise<string | null>
+
+/**
+ * Options for selecting the next speaker
+ */
+export interface SelectNextSpeakerOptions {
+  /** Strategy configured on the chat */
+  strategy: TurnStrategy
+  /** All participants of the chat */
+  participants: ChatParticipantBase[]
+  /** Display names keyed by participant ID */
+  names: Record<string, string>
+  /** Existing chat events, oldest first */
+  messages: ChatEvent[]
+  /** The user message that triggered this turn (if any) */
+  userMessage?: string
+  /** Participant explicitly requested by the user */
+  requestedParticipantId?: string | null
+  /** LLM-backed selector used by the NATURAL strategy */
+  naturalSelector?: NaturalSpeakerSelector
+}
+
+/**
+ * Result of speaker selection
+ */
+export interface SpeakerSelection {
+  participant: ChatParticipantBase
+  reason: 'requested' | 'only-speaker' | 'manual' | 'round-robin' | 'mention' | 'natural'
+}
+
+/**
+ * Get the participants that can produce a reply, in display order
+ */
+export function getEligibleSpeakers(participants: ChatParticipantBase[]): ChatParticipantBase[] {
+  return participants
+    .filter(p => p.type === 'CHARACTER' && p.isActive && p.characterId && p.connectionProfileId)
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+}
+
+/**
+ * Find the participant who authored the most recent assistant message
+ */
+export function findLastSpeakerId(
+  messages: ChatEvent[],
+  eligible: ChatParticipantBase[]
+): string | null {
+  const eligibleIds = new Set(eligible.map(p => p.id))
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const event = messages[i]
+    if (event.type !== 'message' || event.role !== 'ASSISTANT') continue
+    if (event.participantId && eligibleIds.has(event.participantId)) {
+      return event.participantId
+    }
+  }
+
+  return null
+}
+
+/**
+ * Pick the speaker after the last one, wrapping around
+ */
+export function selectRoundRobin(
+  messages: ChatEvent[],
+  eligible: ChatParticipantBase[]
+): ChatParticipantBase {
+  const lastSpeakerId = findLastSpeakerId(messages, eligible)
+  if (!lastSpeakerId) {
+    return eligible[0]
+  }
+
+  const lastIndex = eligible.findIndex(p => p.id === lastSpeakerId)
+  return eligible[(lastIndex + 1) % eligible.length]
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`)
+}
+
+/**
+ * Pick the speaker whose name is mentioned first in the message
+ */
+export function selectByMention(
+  userMessage: string | undefined,
+  candidates: SpeakerCandidate[]
+): ChatParticipantBase | null {
+  if (!userMessage) return null
+
+  let best: { participant: ChatParticipantBase; position: number } | null = null
+
+  for (const candidate of candidates) {
+    if (!candidate.name) continue
+    const pattern = new RegExp(String.raw`(^|[^\p{L}\p{N}])@?${escapeRegExp(candidate.name)}(?![\p{L}\p{N}])`, 'iu')
+    const match = pattern.exec(userMessage)
+    if (match && (!best || match.index < best.position)) {
+      best = { participant: candidate.participant, position: match.index }
+    }
+  }
+
+  return best?.participant ?? null
+}
+
+/**
+ * Select the participant who should answer next.
+ * Returns null when the chat has no participant able to reply.
+ */
+export async function selectNextSpeaker(options: SelectNextSpeakerOptions): Promise<SpeakerSelection | null> {
+  const { strategy, participants, names, messages, userMessage, requestedParticipantId, naturalSelector } = options
+
+  const eligible = getEligibleSpeakers(participants)
+  if (eligible.length === 0) {
+    return null
+  }
+
+  if (requestedParticipantId) {
+    const requested = eligible.find(p => p.id === requestedParticipantId)
+    if (requested) {
+      return { participant: requested, reason: 'requested' }
+    }
+    logger.warn('[Turn Manager] Requested participant cannot respond, using strategy', {
+      requestedParticipantId,
+      strategy,
+    })
+  }
+
+  if (eligible.length === 1) {
+    return { participant: eligible[0], reason: 'only-speaker' }
+  }
+
+  const candidates: SpeakerCandidate[] = eligible.map(p => ({ participant: p, name: names[p.id] || '' }))
+
+  switch (strategy) {
+    case 'MANUAL': {
+      // Without an explicit pick, whoever spoke last keeps the floor
+      const lastSpeakerId = findLastSpeakerId(messages, eligible)
+      const participant = eligible.find(p => p.id === lastSpeakerId) || eligible[0]
+      return { participant, reason: 'manual' }
+    }
+
+    case 'MENTION': {
+      const mentioned = selectByMention(userMessage, candidates)
+      if (mentioned) {
+        return { participant: mentioned, reason: 'mention' }
+      }
+      return { participant: selectRoundRobin(messages, eligible), reason: 'round-robin' }
+    }
+
+    case 'NATURAL': {
+      if (naturalSelector) {
+        try {
+          const choice = await naturalSelector(candidates, userMessage)
+          const chosen = choice
+            ? candidates.find(c => c.participant.id === choice || c.name.toLowerCase() === choice.toLowerCase())
+            : undefined
+          if (chosen) {
+            return { participant: chosen.participant, reason: 'natural' }
+          }
+        } catch (error) {
+          logger.warn('[Turn Manager] Natural speaker selection failed, falling back', {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+      }
+
+      const mentioned = selectByMention(userMessage, candidates)
+      if (mentioned) {
+        return { participant: mentioned, reason: 'mention' }
+      }
+      return { participant: selectRoundRobin(messages, eligible), reason: 'round-robin' }
+    }
+
+    case 'ROUND_ROBIN':
+    default:
+      return { participant: selectRoundRobin(messages, eligible), reason: 'round-robin' }
+  }
+}
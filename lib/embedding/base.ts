@@ -0,0 +1,53 @@
+/**
+ * Embedding Provider Interface
+ *
+ * The contract every embedding backend implements, whether it is built in
+ * (OpenAI, Ollama, local) or contributed by a provider plugin through
+ * `createEmbeddingProvider`.
+ */
+
+/**
+ * Parameters for an embedding request
+ */
+export interface EmbeddingParams {
+  /** Model to embed with */
+  model: string
+  /** Requested vector size, for models that can shorten their output */
+  dimensions?: number
+}
+
+export interface EmbeddingProvider {
+  /** Provider name, matching the embedding profile's provider */
+  readonly provider: string
+  /** Whether requests must be authenticated with an API key */
+  readonly requiresApiKey: boolean
+
+  /**
+   * Embeds a single text
+   */
+  embed(text: string, params: EmbeddingParams, apiKey?: string): Promise<number[]>
+
+  /**
+   * Embeds several texts, returning one vector per text in input order
+   */
+  embedBatch(texts: string[], params: EmbeddingParams, apiKey?: string): Promise<number[][]>
+
+  /**
+   * Vector size a model produces, or null when it isn't known ahead of time
+   */
+  getDimensions(model: string): number | null
+}
+
+/**
+ * Error thrown when embedding fails
+ */
+export class EmbeddingError extends Error {
+  constructor(
+    message: string,
+    public readonly provider?: string,
+    public readonly originalError?: Error
+  ) {
+    super(message)
+    this.name = 'EmbeddingError'
+  }
+}
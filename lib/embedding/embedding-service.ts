@@ -2,13 +2,22 @@
  * Embedding Service
  *
  * Provides text embedding functionality using configured embedding profiles.
- * Supports OpenAI and Ollama providers with fallback to text search heuristics
- * when embedding is not available.
+ * The profile's provider is resolved through the provider registry, so any
+ * plugin that implements `createEmbeddingProvider` can serve embeddings;
+ * OpenAI, Ollama and local in-process models are built in. Falls back to
+ * text search heuristics when embedding is not available.
  */
 
 import { logger } from '@/lib/logger'
 import { getRepositories } from '@/lib/repositories/factory'
-import { EmbeddingProfile, EmbeddingProfileProvider } from '@/lib/schemas/types'
+import { providerRegistry } from '@/lib/plugins/provider-registry'
+import { EmbeddingProfile } from '@/lib/schemas/types'
+import { EmbeddingError, EmbeddingProvider } from './base'
+import { OllamaEmbeddingProvider, OpenAICompatibleEmbeddingProvider } from './providers'
+import { localEmbeddingProvider } from './local-embedding'
+
+export { EmbeddingError } from './base'
+export type { EmbeddingParams, EmbeddingProvider } from './base'
 
 /**
  * Result of an embedding operation
@@ -21,7 +30,7 @@ export interface EmbeddingResult {
   /** Number of dimensions */
   dimensions: number
   /** Provider used */
-  provider: EmbeddingProfileProvider
+  provider: string
 }
 
 /**
@@ -43,20 +52,6 @@ export type SearchPreparationResult =
   | { usedEmbedding: true; embedding: EmbeddingResult }
   | FallbackSearchResult
 
-/**
- * Error thrown when embedding fails
- */
-export class EmbeddingError extends Error {
-  constructor(
-    message: string,
-    public readonly provider?: string,
-    public readonly originalError?: Error
-  ) {
-    super(message)
-    this.name = 'EmbeddingError'
-  }
-}
-
 /**
  * Get the default embedding profile for a user
  */
@@ -74,84 +69,20 @@ export async function getEmbeddingProfile(profileId: string): Promise<EmbeddingP
 }
 
 /**
- * Generate an embedding for text using OpenAI
+ * Get the profile memories are embedded with for a user: the one selected in
+ * chat settings, falling back to the default profile
  */
-async function generateOpenAIEmbedding(
-  text: string,
-  profile: EmbeddingProfile,
-  apiKey: string
-): Promise<EmbeddingResult> {
-  const baseUrl = profile.baseUrl || 'https://api.openai.com/v1'
-
-  const response = await fetch(`${baseUrl}/embeddings`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: profile.modelName,
-      input: text,
-      dimensions: profile.dimensions || undefined,
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({}))
-    throw new EmbeddingError(
-      `OpenAI embedding failed: ${error.error?.message || response.statusText}`,
-      'OPENAI'
-    )
-  }
-
-  const data = await response.json()
-  const embedding = data.data[0].embedding
-
-  return {
-    embedding,
-    model: profile.modelName,
-    dimensions: embedding.length,
-    provider: 'OPENAI',
-  }
-}
+export async function getEffectiveEmbeddingProfile(userId: string): Promise<EmbeddingProfile | null> {
+  const repos = getRepositories()
+  const chatSettings = await repos.users.getChatSettings(userId)
+  const selectedId = chatSettings?.cheapLLMSettings?.embeddingProfileId
 
-/**
- * Generate an embedding for text using Ollama
- */
-async function generateOllamaEmbedding(
-  text: string,
-  profile: EmbeddingProfile
-): Promise<EmbeddingResult> {
-  const baseUrl = profile.baseUrl || 'http://localhost:11434'
-
-  const response = await fetch(`${baseUrl}/api/embeddings`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: profile.modelName,
-      prompt: text,
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({}))
-    throw new EmbeddingError(
-      `Ollama embedding failed: ${error.error || response.statusText}`,
-      'OLLAMA'
-    )
+  if (selectedId) {
+    const selected = await repos.embeddingProfiles.findById(selectedId)
+    if (selected && selected.userId === userId) return selected
   }
 
-  const data = await response.json()
-  const embedding = data.embedding
-
-  return {
-    embedding,
-    model: profile.modelName,
-    dimensions: embedding.length,
-    provider: 'OLLAMA',
-  }
+  return repos.embeddingProfiles.findDefault(userId)
 }
 
 /**
@@ -173,6 +104,85 @@ async function getApiKeyForProfile(
   return decryptApiKey(apiKey.ciphertext, apiKey.iv, apiKey.authTag, userId)
 }
 
+/**
+ * Providers that work without a plugin
+ */
+function getBuiltInEmbeddingProvider(provider: string, baseUrl?: string): EmbeddingProvider | null {
+  switch (provider) {
+    case 'OPENAI':
+      return new OpenAICompatibleEmbeddingProvider({
+        provider: 'OPENAI',
+        label: 'OpenAI',
+        baseUrl: baseUrl || 'https://api.openai.com/v1',
+      })
+    case 'OLLAMA':
+      return new OllamaEmbeddingProvider(baseUrl)
+    case 'LOCAL':
+      return localEmbeddingProvider
+    default:
+      return null
+  }
+}
+
+/**
+ * Resolve the embedding provider for a profile
+ *
+ * Plugins that contribute an embedding provider take precedence; the
+ * built-in OpenAI, Ollama and local providers cover profiles whose plugin
+ * doesn't (or isn't loaded).
+ */
+export function getEmbeddingProvider(profile: Pick<EmbeddingProfile, 'provider' | 'baseUrl'>): EmbeddingProvider {
+  const baseUrl = profile.baseUrl || undefined
+  const plugin = providerRegistry.getProvider(profile.provider)
+
+  if (plugin?.capabilities.embeddings && plugin.createEmbeddingProvider) {
+    return providerRegistry.createEmbeddingProvider(profile.provider, baseUrl)
+  }
+
+  const builtIn = getBuiltInEmbeddingProvider(profile.provider, baseUrl)
+  if (!builtIn) {
+    throw new EmbeddingError(`Unsupported embedding provider: ${profile.provider}`, profile.provider)
+  }
+  return builtIn
+}
+
+/**
+ * Resolve the provider and credentials for a profile
+ */
+async function prepareProvider(
+  profile: EmbeddingProfile,
+  userId: string
+): Promise<{ provider: EmbeddingProvider; apiKey?: string }> {
+  const provider = getEmbeddingProvider(profile)
+  const apiKey = await getApiKeyForProfile(profile, userId)
+
+  if (provider.requiresApiKey && !apiKey) {
+    throw new EmbeddingError(`No API key found for ${profile.provider} embedding profile`, profile.provider)
+  }
+
+  return { provider, apiKey: apiKey ?? undefined }
+}
+
+function toResult(embedding: number[], profile: EmbeddingProfile): EmbeddingResult {
+  return {
+    embedding,
+    model: profile.modelName,
+    dimensions: embedding.length,
+    provider: profile.provider,
+  }
+}
+
+function wrapProviderError(error: unknown, profile: EmbeddingProfile): EmbeddingError {
+  if (error instanceof EmbeddingError) return error
+  const message = error instanceof Error ? error.message : String(error)
+  const label = profile.provider === 'LOCAL' ? 'Local' : profile.provider
+  return new EmbeddingError(
+    `${label} embedding failed: ${message}`,
+    profile.provider,
+    error instanceof Error ? error : undefined
+  )
+}
+
 /**
  * Generate an embedding for text using the specified profile
  */
@@ -181,19 +191,41 @@ export async function generateEmbedding(
   profile: EmbeddingProfile,
   userId: string
 ): Promise<EmbeddingResult> {
-  if (profile.provider === 'OPENAI') {
-    const apiKey = await getApiKeyForProfile(profile, userId)
-    if (!apiKey) {
-      throw new EmbeddingError('No API key found for OpenAI embedding profile', 'OPENAI')
-    }
-    return generateOpenAIEmbedding(text, profile, apiKey)
-  }
+  const { provider, apiKey } = await prepareProvider(profile, userId)
 
-  if (profile.provider === 'OLLAMA') {
-    return generateOllamaEmbedding(text, profile)
+  try {
+    const embedding = await provider.embed(text, {
+      model: profile.modelName,
+      dimensions: profile.dimensions ?? undefined,
+    }, apiKey)
+    return toResult(embedding, profile)
+  } catch (error) {
+    throw wrapProviderError(error, profile)
   }
+}
 
-  throw new EmbeddingError(`Unsupported embedding provider: ${profile.provider}`)
+/**
+ * Generate embeddings for several texts in as few requests as the provider
+ * allows, returning results in input order
+ */
+export async function generateEmbeddingsBatch(
+  texts: string[],
+  profile: EmbeddingProfile,
+  userId: string
+): Promise<EmbeddingResult[]> {
+  if (texts.length === 0) return []
+
+  const { provider, apiKey } = await prepareProvider(profile, userId)
+
+  try {
+    const embeddings = await provider.embedBatch(texts, {
+      model: profile.modelName,
+      dimensions: profile.dimensions ?? undefined,
+    }, apiKey)
+    return embeddings.map(embedding => toResult(embedding, profile))
+  } catch (error) {
+    throw wrapProviderError(error, profile)
+  }
 }
 
 /**
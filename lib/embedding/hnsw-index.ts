@@ -0,0 +1,473 @@
+/**
+ * HNSW Index
+ *
+ * Hierarchical Navigable Small World graph for approximate nearest neighbour
+ * search over embeddings (Malkov & Yashunin, 2016). Vectors are normalized on
+ * insert so the inner product is the cosine similarity.
+ *
+ * Design decisions:
+ * - Supports incremental add and remove; removed nodes have their
+ *   neighbourhoods repaired instead of leaving tombstones
+ * - Mutations report which nodes' links changed so callers can persist only
+ *   the affected parts of the graph
+ * - Node state (level and links) can be exported and restored, so a persisted
+ *   graph does not have to be rebuilt on load
+ */
+
+/**
+ * Tuning parameters for the graph
+ */
+export interface HnswOptions {
+  /** Links per node on the upper layers (layer 0 keeps twice as many) */
+  m?: number
+  /** Candidate list size while inserting */
+  efConstruction?: number
+  /** Candidate list size while searching */
+  efSearch?: number
+  /** Random source used to draw node levels (defaults to Math.random) */
+  random?: () => number
+}
+
+/**
+ * Persistable state of one node: its top layer and its links on each layer
+ */
+export interface HnswNodeState {
+  level: number
+  neighbors: string[][]
+}
+
+/**
+ * A single approximate search hit
+ */
+export interface HnswSearchResult {
+  id: string
+  /** Cosine similarity to the query */
+  score: number
+}
+
+interface HnswNode {
+  id: string
+  vector: Float64Array
+  level: number
+  neighbors: Set<string>[]
+}
+
+interface Candidate {
+  id: string
+  distance: number
+}
+
+export const DEFAULT_HNSW_M = 16
+export const DEFAULT_HNSW_EF_CONSTRUCTION = 100
+export const DEFAULT_HNSW_EF_SEARCH = 64
+
+function normalize(vector: number[]): Float64Array {
+  let norm = 0
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i]
+  }
+  norm = Math.sqrt(norm)
+
+  const normalized = new Float64Array(vector.length)
+  if (norm === 0) {
+    return normalized
+  }
+  for (let i = 0; i < vector.length; i++) {
+    normalized[i] = vector[i] / norm
+  }
+  return normalized
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i]
+  }
+  return sum
+}
+
+/**
+ * Inserts a candidate into a list kept sorted by ascending distance
+ */
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0
+  let high = list.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (list[mid].distance < candidate.distance) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  list.splice(low, 0, candidate)
+}
+
+/**
+ * HNSW graph keyed by string IDs
+ */
+export class HnswIndex {
+  private nodes: Map<string, HnswNode> = new Map()
+  private entryPoint: string | null = null
+  private maxLevel: number = -1
+  private readonly m: number
+  private readonly m0: number
+  private readonly efConstruction: number
+  private readonly levelMultiplier: number
+  private readonly random: () => number
+  efSearch: number
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? DEFAULT_HNSW_M
+    this.m0 = this.m * 2
+    this.efConstruction = options.efConstruction ?? DEFAULT_HNSW_EF_CONSTRUCTION
+    this.efSearch = options.efSearch ?? DEFAULT_HNSW_EF_SEARCH
+    this.levelMultiplier = 1 / Math.log(this.m)
+    this.random = options.random ?? Math.random
+  }
+
+  /**
+   * Number of nodes in the graph
+   */
+  get size(): number {
+    return this.nodes.size
+  }
+
+  /**
+   * Check if a node exists
+   */
+  has(id: string): boolean {
+    return this.nodes.has(id)
+  }
+
+  /**
+   * ID of the node searches start from
+   */
+  getEntryPoint(): string | null {
+    return this.entryPoint
+  }
+
+  /**
+   * Add a node, replacing any existing node with the same ID
+   * Returns the IDs of every node whose links changed, including the new one.
+   */
+  add(id: string, vector: number[]): string[] {
+    const changed = new Set<string>()
+    if (this.nodes.has(id)) {
+      for (const affected of this.remove(id)) {
+        changed.add(affected)
+      }
+    }
+
+    const level = Math.floor(-Math.log(Math.max(this.random(), Number.EPSILON)) * this.levelMultiplier)
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => new Set<string>()),
+    }
+    this.nodes.set(id, node)
+    changed.add(id)
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id
+      this.maxLevel = level
+      return Array.from(changed)
+    }
+
+    let current = this.candidate(this.entryPoint, node.vector)
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(node.vector, current, layer)
+    }
+
+    let entries = [current]
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(node.vector, entries, this.efConstruction, layer)
+      const selected = this.selectNeighbors(found.filter(candidate => candidate.id !== id), this.m)
+
+      for (const neighbor of selected) {
+        node.neighbors[layer].add(neighbor.id)
+        const neighborNode = this.nodes.get(neighbor.id)!
+        neighborNode.neighbors[layer].add(id)
+        this.shrinkLinks(neighborNode, layer)
+        changed.add(neighbor.id)
+      }
+
+      entries = found
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id
+      this.maxLevel = level
+    }
+
+    return Array.from(changed)
+  }
+
+  /**
+   * Remove a node and reconnect the neighbours that linked to it
+   * Returns the IDs of the remaining nodes whose links changed.
+   */
+  remove(id: string): string[] {
+    const node = this.nodes.get(id)
+    if (!node) {
+      return []
+    }
+
+    this.nodes.delete(id)
+    const changed = new Set<string>()
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans: string[] = []
+      for (const [otherId, other] of this.nodes) {
+        if (other.level >= layer && other.neighbors[layer].delete(id)) {
+          orphans.push(otherId)
+          changed.add(otherId)
+        }
+      }
+
+      // Each node that lost a link picks up the best of the removed node's
+      // other neighbours, which keeps the local neighbourhood connected
+      const replacements = Array.from(node.neighbors[layer]).filter(neighborId => this.nodes.has(neighborId))
+      for (const orphanId of orphans) {
+        const orphan = this.nodes.get(orphanId)!
+        for (const replacementId of replacements) {
+          if (replacementId !== orphanId) {
+            orphan.neighbors[layer].add(replacementId)
+          }
+        }
+        this.shrinkLinks(orphan, layer)
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null
+      this.maxLevel = -1
+      for (const [otherId, other] of this.nodes) {
+        if (other.level > this.maxLevel) {
+          this.entryPoint = otherId
+          this.maxLevel = other.level
+        }
+      }
+    }
+
+    return Array.from(changed)
+  }
+
+  /**
+   * Find the approximate nearest neighbours of a query vector
+   * Nodes rejected by the filter are still traversed but never returned.
+   */
+  search(query: number[], limit: number, filter?: (id: string) => boolean): HnswSearchResult[] {
+    if (this.entryPoint === null || limit <= 0) {
+      return []
+    }
+
+    const vector = normalize(query)
+    let current = this.candidate(this.entryPoint, vector)
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(vector, current, layer)
+    }
+
+    const found = this.searchLayer(vector, [current], Math.max(this.efSearch, limit), 0)
+    const results: HnswSearchResult[] = []
+    for (const candidate of found) {
+      if (filter && !filter(candidate.id)) {
+        continue
+      }
+      results.push({ id: candidate.id, score: 1 - candidate.distance })
+      if (results.length >= limit) {
+        break
+      }
+    }
+    return results
+  }
+
+  /**
+   * Export a node's level and links for persistence
+   */
+  exportNode(id: string): HnswNodeState | null {
+    const node = this.nodes.get(id)
+    if (!node) {
+      return null
+    }
+    return {
+      level: node.level,
+      neighbors: node.neighbors.map(links => Array.from(links)),
+    }
+  }
+
+  /**
+   * Restore a node from persisted state without searching the graph
+   * Links to nodes that are never restored are dropped by prune().
+   */
+  restoreNode(id: string, vector: number[], state: HnswNodeState): void {
+    const level = Math.max(0, state.level)
+    const neighbors = Array.from({ length: level + 1 }, (_, layer) => new Set(state.neighbors[layer] ?? []))
+    this.nodes.set(id, { id, vector: normalize(vector), level, neighbors })
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id
+      this.maxLevel = level
+    }
+  }
+
+  /**
+   * Drop links that point at missing nodes, e.g. after a partial restore
+   * Returns the IDs of nodes whose links changed.
+   */
+  prune(): string[] {
+    const changed: string[] = []
+    for (const [id, node] of this.nodes) {
+      let modified = false
+      for (const links of node.neighbors) {
+        for (const neighborId of Array.from(links)) {
+          if (!this.nodes.has(neighborId)) {
+            links.delete(neighborId)
+            modified = true
+          }
+        }
+      }
+      if (modified) {
+        changed.push(id)
+      }
+    }
+    return changed
+  }
+
+  /**
+   * Remove every node
+   */
+  clear(): void {
+    this.nodes.clear()
+    this.entryPoint = null
+    this.maxLevel = -1
+  }
+
+  private candidate(id: string, query: Float64Array): Candidate {
+    return { id, distance: 1 - dot(query, this.nodes.get(id)!.vector) }
+  }
+
+  /**
+   * Walks one layer towards the query, always moving to a closer neighbour
+   */
+  private greedyClosest(query: Float64Array, start: Candidate, layer: number): Candidate {
+    let current = start
+    let improved = true
+    while (improved) {
+      improved = false
+      const links = this.nodes.get(current.id)!.neighbors[layer]
+      if (!links) {
+        break
+      }
+      for (const neighborId of links) {
+        const next = this.candidate(neighborId, query)
+        if (next.distance < current.distance) {
+          current = next
+          improved = true
+        }
+      }
+    }
+    return current
+  }
+
+  /**
+   * Best-first search of one layer, returning up to ef candidates by ascending distance
+   */
+  private searchLayer(query: Float64Array, entries: Candidate[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<string>()
+    const candidates: Candidate[] = []
+    const results: Candidate[] = []
+
+    for (const entry of entries) {
+      if (!visited.has(entry.id) && this.nodes.has(entry.id)) {
+        visited.add(entry.id)
+        insertSorted(candidates, entry)
+        insertSorted(results, entry)
+      }
+    }
+    if (results.length > ef) {
+      results.length = ef
+    }
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!
+      if (results.length >= ef && closest.distance > results[results.length - 1].distance) {
+        break
+      }
+
+      const links = this.nodes.get(closest.id)?.neighbors[layer]
+      if (!links) {
+        continue
+      }
+
+      for (const neighborId of links) {
+        if (visited.has(neighborId)) {
+          continue
+        }
+        visited.add(neighborId)
+
+        const neighbor = this.candidate(neighborId, query)
+        if (results.length < ef || neighbor.distance < results[results.length - 1].distance) {
+          insertSorted(candidates, neighbor)
+          insertSorted(results, neighbor)
+          if (results.length > ef) {
+            results.pop()
+          }
+        }
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Picks up to `count` links from candidates sorted by ascending distance
+   * A candidate is preferred when it is closer to the base node than to any
+   * link already chosen, which spreads links across directions and keeps
+   * separate clusters connected; the remaining slots go to the closest
+   * skipped candidates.
+   */
+  private selectNeighbors(candidates: Candidate[], count: number): Candidate[] {
+    const selected: Candidate[] = []
+    const skipped: Candidate[] = []
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) {
+        break
+      }
+      const vector = this.nodes.get(candidate.id)!.vector
+      const diverse = selected.every(chosen => 1 - dot(vector, this.nodes.get(chosen.id)!.vector) > candidate.distance)
+      if (diverse) {
+        selected.push(candidate)
+      } else {
+        skipped.push(candidate)
+      }
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= count) {
+        break
+      }
+      selected.push(candidate)
+    }
+
+    return selected
+  }
+
+  /**
+   * Re-selects a node's links once it has more than the layer allows
+   */
+  private shrinkLinks(node: HnswNode, layer: number): void {
+    const maxLinks = layer === 0 ? this.m0 : this.m
+    const links = node.neighbors[layer]
+    if (links.size <= maxLinks) {
+      return
+    }
+
+    const ranked = Array.from(links)
+      .map(neighborId => this.candidate(neighborId, node.vector))
+      .sort((a, b) => a.distance - b.distance)
+    node.neighbors[layer] = new Set(this.selectNeighbors(ranked, maxLinks).map(candidate => candidate.id))
+  }
+}
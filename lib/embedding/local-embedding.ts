@@ -0,0 +1,161 @@
+/**
+ * Local CPU Embeddings
+ *
+ * Runs small sentence-transformer models in-process through Transformers.js,
+ * so semantic memory works without an API key or a running Ollama. The ONNX
+ * runtime is tried first; where its native binaries can't load (for example
+ * on Alpine), the WASM runtime is used instead. Models shipped with the
+ * install under EMBEDDING_MODEL_DIR (the Docker image bakes in the default
+ * one) are loaded from there without touching the network; others are
+ * downloaded from the Hugging Face hub on first use and cached on disk under
+ * EMBEDDING_MODEL_CACHE_DIR.
+ */
+
+import { existsSync } from 'fs'
+import path from 'path'
+import { logger } from '@/lib/logger'
+import { EmbeddingProvider } from './base'
+
+/**
+ * A model the local provider is known to run well
+ */
+export interface LocalEmbeddingModel {
+  id: string
+  name: string
+  dimensions: number
+  description: string
+}
+
+export const LOCAL_EMBEDDING_MODELS: LocalEmbeddingModel[] = [
+  {
+    id: 'Xenova/all-MiniLM-L6-v2',
+    name: 'all-MiniLM-L6-v2',
+    dimensions: 384,
+    description: 'Small and fast general-purpose English model (~23 MB)',
+  },
+  {
+    id: 'Xenova/bge-small-en-v1.5',
+    name: 'BGE Small EN v1.5',
+    dimensions: 384,
+    description: 'Stronger retrieval quality at the same size (~34 MB)',
+  },
+  {
+    id: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    name: 'Multilingual MiniLM L12',
+    dimensions: 384,
+    description: 'Covers 50+ languages (~118 MB)',
+  },
+]
+
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = LOCAL_EMBEDDING_MODELS[0].id
+
+type Extractor = (text: string, options: { pooling: 'mean'; normalize: boolean }) => Promise<{ data: ArrayLike<number> }>
+
+// Loading a model is slow; share one pipeline per model across requests
+const extractors = new Map<string, Promise<Extractor>>()
+
+// Where a model is loaded from is set on the library's global env, so loads
+// run one at a time
+let loading: Promise<unknown> = Promise.resolve()
+
+/**
+ * Directory downloaded models are cached in
+ */
+export function getLocalModelCacheDir(): string {
+  return process.env.EMBEDDING_MODEL_CACHE_DIR || path.join(process.cwd(), 'data', 'models')
+}
+
+/**
+ * Directory of models shipped with the install, or null when there is none
+ */
+export function getBundledModelDir(): string | null {
+  return process.env.EMBEDDING_MODEL_DIR || null
+}
+
+/**
+ * Whether a model is shipped with the install
+ */
+export function isModelBundled(modelName: string): boolean {
+  const dir = getBundledModelDir()
+  return !!dir && existsSync(path.join(dir, modelName, 'config.json'))
+}
+
+async function createExtractor(modelName: string): Promise<Extractor> {
+  const { pipeline } = await import('@huggingface/transformers')
+  try {
+    return await pipeline('feature-extraction', modelName, { device: 'cpu', dtype: 'fp32' }) as unknown as Extractor
+  } catch (error) {
+    logger.warn('[Embedding] Native ONNX runtime unavailable, falling back to WASM', {
+      modelName,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return await pipeline('feature-extraction', modelName, { device: 'wasm', dtype: 'fp32' }) as unknown as Extractor
+  }
+}
+
+async function loadExtractor(modelName: string): Promise<Extractor> {
+  const { env } = await import('@huggingface/transformers')
+  env.cacheDir = getLocalModelCacheDir()
+  const bundledDir = getBundledModelDir()
+  if (bundledDir) {
+    env.localModelPath = bundledDir
+  }
+  env.allowRemoteModels = !isModelBundled(modelName)
+  return createExtractor(modelName)
+}
+
+/**
+ * Downloads a model into a directory laid out the way EMBEDDING_MODEL_DIR
+ * expects, for baking into an image
+ */
+export async function prefetchLocalModel(modelName: string, dir: string): Promise<void> {
+  const { env } = await import('@huggingface/transformers')
+  // The download cache keeps files as <dir>/<model id>/<file>, which is
+  // where local models are read from
+  env.cacheDir = dir
+  env.allowRemoteModels = true
+  await createExtractor(modelName)
+}
+
+function getExtractor(modelName: string): Promise<Extractor> {
+  let extractor = extractors.get(modelName)
+  if (!extractor) {
+    logger.info('[Embedding] Loading local embedding model', {
+      modelName,
+      bundled: isModelBundled(modelName),
+      cacheDir: getLocalModelCacheDir(),
+    })
+    extractor = loading.then(() => loadExtractor(modelName))
+    loading = extractor.catch(() => undefined)
+    // Let a failed load be retried on the next request
+    extractor.catch(() => extractors.delete(modelName))
+    extractors.set(modelName, extractor)
+  }
+  return extractor
+}
+
+/**
+ * Embeds text with a local model (mean-pooled and normalized)
+ */
+export async function embedLocally(text: string, modelName: string = DEFAULT_LOCAL_EMBEDDING_MODEL): Promise<number[]> {
+  const extractor = await getExtractor(modelName)
+  const output = await extractor(text, { pooling: 'mean', normalize: true })
+  return Array.from(output.data)
+}
+
+/**
+ * Embedding provider for the LOCAL profile type
+ */
+export const localEmbeddingProvider: EmbeddingProvider = {
+  provider: 'LOCAL',
+  requiresApiKey: false,
+  embed: (text, params) => embedLocally(text, params.model),
+  async embedBatch(texts, params) {
+    const embeddings: number[][] = []
+    for (const text of texts) {
+      embeddings.push(await embedLocally(text, params.model))
+    }
+    return embeddings
+  },
+  getDimensions: model => LOCAL_EMBEDDING_MODELS.find(m => m.id === model)?.dimensions ?? null,
+}
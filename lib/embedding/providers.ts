@@ -0,0 +1,160 @@
+/**
+ * HTTP Embedding Providers
+ *
+ * Embedding providers for the two API shapes nearly every backend speaks:
+ * the OpenAI `/embeddings` endpoint (OpenAI itself, Google's and
+ * OpenRouter's compatibility endpoints, LM Studio, vLLM and the like) and
+ * Ollama's native endpoint. Provider plugins build on these rather than
+ * reimplementing the request handling.
+ */
+
+import { EmbeddingError, EmbeddingParams, EmbeddingProvider } from './base'
+
+/**
+ * A model with a known vector size
+ */
+export interface KnownEmbeddingModel {
+  id: string
+  dimensions?: number
+}
+
+export interface OpenAICompatibleEmbeddingOptions {
+  /** Provider name reported on results and errors */
+  provider: string
+  /** Name used in error messages (default: the provider name) */
+  label?: string
+  /** API root the `/embeddings` path is appended to */
+  baseUrl: string
+  /** Whether an API key must be sent (default: true) */
+  requiresApiKey?: boolean
+  /** Models whose dimensions are known ahead of time */
+  models?: KnownEmbeddingModel[]
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>
+}
+
+function dimensionsOf(models: KnownEmbeddingModel[], model: string): number | null {
+  return models.find(m => m.id === model)?.dimensions ?? null
+}
+
+/**
+ * Embeds through an OpenAI-compatible `/embeddings` endpoint
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly provider: string
+  readonly requiresApiKey: boolean
+  private readonly label: string
+  private readonly baseUrl: string
+  private readonly models: KnownEmbeddingModel[]
+  private readonly headers: Record<string, string>
+
+  constructor(options: OpenAICompatibleEmbeddingOptions) {
+    this.provider = options.provider
+    this.label = options.label ?? options.provider
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '')
+    this.requiresApiKey = options.requiresApiKey ?? true
+    this.models = options.models ?? []
+    this.headers = options.headers ?? {}
+  }
+
+  async embed(text: string, params: EmbeddingParams, apiKey?: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text], params, apiKey)
+    return embedding
+  }
+
+  async embedBatch(texts: string[], params: EmbeddingParams, apiKey?: string): Promise<number[][]> {
+    if (texts.length === 0) return []
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        ...this.headers,
+      },
+      body: JSON.stringify({
+        model: params.model,
+        input: texts.length === 1 ? texts[0] : texts,
+        dimensions: params.dimensions || undefined,
+      }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new EmbeddingError(
+        `${this.label} embedding failed: ${error.error?.message || response.statusText}`,
+        this.provider
+      )
+    }
+
+    const data = await response.json()
+    const items: Array<{ embedding: number[]; index?: number }> = data.data ?? []
+    if (items.length !== texts.length) {
+      throw new EmbeddingError(
+        `${this.label} embedding failed: expected ${texts.length} vectors, got ${items.length}`,
+        this.provider
+      )
+    }
+
+    return [...items]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding)
+  }
+
+  getDimensions(model: string): number | null {
+    return dimensionsOf(this.models, model)
+  }
+}
+
+/**
+ * Embeds through Ollama's native embeddings endpoint
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'OLLAMA'
+  readonly requiresApiKey = false
+  private readonly baseUrl: string
+  private readonly models: KnownEmbeddingModel[]
+
+  constructor(baseUrl?: string, models: KnownEmbeddingModel[] = []) {
+    this.baseUrl = (baseUrl || 'http://localhost:11434').replace(/\/+$/, '')
+    this.models = models
+  }
+
+  async embed(text: string, params: EmbeddingParams): Promise<number[]> {
+    const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: params.model,
+        prompt: text,
+      }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new EmbeddingError(
+        `Ollama embedding failed: ${error.error || response.statusText}`,
+        this.provider
+      )
+    }
+
+    const data = await response.json()
+    return data.embedding
+  }
+
+  // The single-prompt endpoint works on every Ollama version, so batches are
+  // sent one text at a time
+  async embedBatch(texts: string[], params: EmbeddingParams): Promise<number[][]> {
+    const embeddings: number[][] = []
+    for (const text of texts) {
+      embeddings.push(await this.embed(text, params))
+    }
+    return embeddings
+  }
+
+  getDimensions(model: string): number | null {
+    return dimensionsOf(this.models, model)
+  }
+}
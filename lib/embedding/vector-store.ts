@@ -3,19 +3,40 @@
  * Sprint 4: Vector Database Integration
  *
  * In-memory vector store with MongoDB persistence for semantic search.
- * Uses cosine similarity for nearest neighbor search.
+ * Uses an HNSW graph for approximate nearest neighbor search.
  *
  * Design decisions:
  * - Per-character vector indices for isolation and efficient loading
- * - In-memory search with persistence (suitable for <1000 memories per character)
- * - Cosine similarity for text embedding comparison
+ * - Exact cosine scan for small indices, HNSW once an index is large enough
+ *   for the scan to matter; the graph is maintained incrementally either way
+ * - Entries (with their graph links) are persisted in fixed-size chunks and
+ *   only changed chunks are rewritten on save
+ * - Each index records the embedding model behind its vectors; a shadow
+ *   store builds the next generation of chunks for a new model while the
+ *   live one keeps serving, and activating it swaps the header in one write
  * - MongoDB is the required backend
  */
 
 import { cosineSimilarity } from './embedding-service'
-import { getMongoVectorIndicesRepository } from '@/lib/mongodb/repositories/vector-indices.repository'
+import { HnswIndex, type HnswOptions } from './hnsw-index'
+import {
+  getMongoVectorIndicesRepository,
+  type VectorEntry as StoredVectorEntry,
+  type VectorIndexModel,
+} from '@/lib/mongodb/repositories/vector-indices.repository'
 import { logger } from '@/lib/logger'
 
+/** Current on-disk format: header document plus entry chunks */
+const VECTOR_INDEX_VERSION = 2
+
+/** Entries per persisted chunk; keeps 1536-dimension chunks well under 16MB */
+export const VECTOR_INDEX_CHUNK_SIZE = 250
+
+/** Below this many vectors a linear scan is fast enough and exact */
+export const ANN_MIN_VECTORS = 1000
+
+export type { VectorIndexModel }
+
 /**
  * Metadata associated with a vector entry
  */
@@ -68,25 +89,64 @@ export interface ICharacterVectorStore {
   hasVector(id: string): boolean
   readonly size: number
   getDimensions(): number | null
+  getModel(): VectorIndexModel | null
+  setModel(model: VectorIndexModel | null): void
+  getGeneration(): number
   search(queryEmbedding: number[], limit?: number, filter?: (metadata: VectorMetadata) => boolean): VectorSearchResult[]
   getAllEntries(): VectorEntry[]
   clear(): void
 }
 
+/**
+ * Options for a character vector store
+ */
+export interface CharacterVectorStoreOptions {
+  /** HNSW graph parameters */
+  hnsw?: HnswOptions
+  /** Minimum size at which searches use the graph instead of a linear scan */
+  annMinVectors?: number
+  /**
+   * Build this generation as a shadow of the live index: only its chunks
+   * are loaded and saved, and the live header is left alone until activate()
+   */
+  shadowGeneration?: number
+}
+
 /**
  * MongoDB-backed vector store for a single character
- * Uses in-memory storage with MongoDB persistence
+ * Uses in-memory storage with chunked MongoDB persistence
  */
 export class CharacterVectorStore implements ICharacterVectorStore {
   private entries: Map<string, VectorEntry> = new Map()
   private dimensions: number | null = null
   private dirty: boolean = false
   private createdAt: string = new Date().toISOString()
-
-  constructor(private readonly characterId: string) {}
+  private readonly graph: HnswIndex
+  private readonly annMinVectors: number
+  /** Chunk each entry is persisted in */
+  private chunkOf: Map<string, number> = new Map()
+  /** Entry IDs in each chunk, including chunks emptied since the last save */
+  private chunks: Map<number, Set<string>> = new Map()
+  private dirtyChunks: Set<number> = new Set()
+  private generation: number = 0
+  private model: VectorIndexModel | null = null
+  private shadow: boolean
+  /** Set once a newer store has replaced this one; saves are then dropped */
+  private retired: boolean = false
+
+  constructor(
+    private readonly characterId: string,
+    options: CharacterVectorStoreOptions = {}
+  ) {
+    this.graph = new HnswIndex(options.hnsw)
+    this.annMinVectors = options.annMinVectors ?? ANN_MIN_VECTORS
+    this.shadow = options.shadowGeneration !== undefined
+    this.generation = options.shadowGeneration ?? 0
+  }
 
   /**
    * Load the vector index from MongoDB
+   * Version 1 indices (all entries inline) are moved into chunks on the next save.
    */
   async load(): Promise<void> {
     try {
@@ -96,24 +156,56 @@ export class CharacterVectorStore implements ICharacterVectorStore {
       })
 
       const repo = getMongoVectorIndicesRepository()
-      const index = await repo.findByCharacterId(this.characterId)
+      const index = this.shadow ? null : await repo.findByCharacterId(this.characterId)
+
+      this.resetState()
+      if (index || this.shadow) {
+        if (index) {
+          this.generation = index.generation
+        }
+        const chunks = this.shadow || index!.version >= VECTOR_INDEX_VERSION
+          ? await repo.findChunks(this.characterId, this.generation)
+          : []
+        const missingGraph: StoredVectorEntry[] = []
+
+        for (const chunk of chunks) {
+          this.chunks.set(chunk.chunkIndex, new Set())
+          for (const stored of chunk.entries) {
+            this.restoreEntry(stored, chunk.chunkIndex, missingGraph)
+          }
+        }
+
+        // Version 1 entries have no chunk or graph state yet
+        for (const stored of index?.entries ?? []) {
+          const chunkIndex = this.nextChunkIndex()
+          this.restoreEntry(stored, chunkIndex, missingGraph)
+          this.dirtyChunks.add(chunkIndex)
+        }
 
-      this.entries.clear()
-      if (index) {
-        for (const entry of index.entries) {
-          this.entries.set(entry.id, entry)
+        for (const chunkIndex of this.graph.prune().map(id => this.chunkOf.get(id))) {
+          if (chunkIndex !== undefined) {
+            this.dirtyChunks.add(chunkIndex)
+          }
+        }
+        for (const stored of missingGraph) {
+          this.markChunksDirty(this.graph.add(stored.id, stored.embedding))
         }
-        this.dimensions = index.dimensions
-        this.createdAt = index.createdAt
-      } else {
-        this.dimensions = null
+
+        const first = this.entries.values().next().value
+        this.dimensions = index?.dimensions || first?.embedding.length || null
+        this.model = index?.model ?? null
+        this.createdAt = index?.createdAt ?? this.createdAt
+        this.dirty = this.dirtyChunks.size > 0 || (!!index && index.version < VECTOR_INDEX_VERSION)
       }
-      this.dirty = false
 
       logger.debug('Vector index loaded from MongoDB', {
         context: 'CharacterVectorStore.load',
         characterId: this.characterId,
         entryCount: this.entries.size,
+        chunkCount: this.chunks.size,
+        version: index?.version,
+        generation: this.generation,
+        shadow: this.shadow,
       })
     } catch (error) {
       logger.error('Error loading vector index from MongoDB', {
@@ -122,38 +214,62 @@ export class CharacterVectorStore implements ICharacterVectorStore {
         error: error instanceof Error ? error.message : String(error),
       })
       // Start fresh on error
-      this.entries.clear()
-      this.dimensions = null
-      this.dirty = false
+      this.resetState()
     }
   }
 
   /**
-   * Save the vector index to MongoDB
+   * Save changed chunks and the index header to MongoDB
    */
   async save(): Promise<void> {
-    if (!this.dirty && this.entries.size === 0) {
+    if (!this.dirty) {
       return // Nothing to save
     }
+    if (this.retired) {
+      logger.debug('Dropping save of a replaced vector index', {
+        context: 'CharacterVectorStore.save',
+        characterId: this.characterId,
+        generation: this.generation,
+      })
+      return
+    }
 
     try {
       logger.debug('Saving vector index to MongoDB', {
         context: 'CharacterVectorStore.save',
         characterId: this.characterId,
         entryCount: this.entries.size,
+        dirtyChunks: this.dirtyChunks.size,
       })
 
       const repo = getMongoVectorIndicesRepository()
       const now = new Date().toISOString()
 
-      await repo.save(this.characterId, {
-        characterId: this.characterId,
-        version: 1,
-        dimensions: this.dimensions || 0,
-        entries: Array.from(this.entries.values()),
-        createdAt: this.createdAt,
-        updatedAt: now,
-      })
+      for (const chunkIndex of Array.from(this.dirtyChunks).sort((a, b) => a - b)) {
+        const ids = this.chunks.get(chunkIndex)
+        if (!ids || ids.size === 0) {
+          await repo.deleteChunk(this.characterId, chunkIndex, this.generation)
+          this.chunks.delete(chunkIndex)
+        } else {
+          await repo.saveChunk(this.characterId, chunkIndex, Array.from(ids, id => this.toStoredEntry(id)), this.generation)
+        }
+        this.dirtyChunks.delete(chunkIndex)
+      }
+
+      // A shadow's header is written when it is activated
+      if (!this.shadow) {
+        await repo.save(this.characterId, {
+          characterId: this.characterId,
+          version: VECTOR_INDEX_VERSION,
+          dimensions: this.dimensions || 0,
+          entries: [],
+          chunkCount: this.chunks.size,
+          generation: this.generation,
+          model: this.model,
+          createdAt: this.createdAt,
+          updatedAt: now,
+        })
+      }
 
       this.dirty = false
 
@@ -198,7 +314,10 @@ export class CharacterVectorStore implements ICharacterVectorStore {
     }
 
     this.entries.set(id, entry)
-    this.dirty = true
+    if (!this.chunkOf.has(id)) {
+      this.assignChunk(id, this.nextChunkIndex())
+    }
+    this.markChunksDirty(this.graph.add(id, embedding))
   }
 
   /**
@@ -207,6 +326,13 @@ export class CharacterVectorStore implements ICharacterVectorStore {
   async removeVector(id: string): Promise<boolean> {
     const deleted = this.entries.delete(id)
     if (deleted) {
+      const chunkIndex = this.chunkOf.get(id)
+      if (chunkIndex !== undefined) {
+        this.chunks.get(chunkIndex)?.delete(id)
+        this.chunkOf.delete(id)
+        this.dirtyChunks.add(chunkIndex)
+      }
+      this.markChunksDirty(this.graph.remove(id))
       this.dirty = true
     }
     return deleted
@@ -228,7 +354,7 @@ export class CharacterVectorStore implements ICharacterVectorStore {
     }
 
     entry.embedding = embedding
-    this.dirty = true
+    this.markChunksDirty(this.graph.add(id, embedding))
     return true
   }
 
@@ -253,8 +379,77 @@ export class CharacterVectorStore implements ICharacterVectorStore {
     return this.dimensions
   }
 
+  /**
+   * Get the embedding model the vectors were produced with, if recorded
+   */
+  getModel(): VectorIndexModel | null {
+    return this.model
+  }
+
+  /**
+   * Record the embedding model the vectors were produced with
+   */
+  setModel(model: VectorIndexModel | null): void {
+    if (model?.provider !== this.model?.provider || model?.modelName !== this.model?.modelName) {
+      this.model = model
+      this.dirty = true
+    }
+  }
+
+  /**
+   * Generation of chunks this store reads and writes
+   */
+  getGeneration(): number {
+    return this.generation
+  }
+
+  /**
+   * Make a shadow store the live index
+   *
+   * Writes any unsaved chunks, then points the header at this generation
+   * (with its model and dimensions) in a single write, so readers see either
+   * the old index or the new one. The previous generation's chunks are
+   * deleted afterwards.
+   */
+  async activate(model: VectorIndexModel | null): Promise<void> {
+    if (!this.shadow) {
+      throw new Error('Only a shadow vector index can be activated')
+    }
+
+    const repo = getMongoVectorIndicesRepository()
+    const previous = await repo.findByCharacterId(this.characterId)
+
+    this.shadow = false
+    this.model = model
+    this.dirty = true
+    await this.save()
+
+    if (previous && previous.generation !== this.generation) {
+      await repo.deleteGeneration(this.characterId, previous.generation)
+    }
+
+    logger.info('Vector index generation activated', {
+      context: 'CharacterVectorStore.activate',
+      characterId: this.characterId,
+      generation: this.generation,
+      previousGeneration: previous?.generation,
+      entryCount: this.entries.size,
+      model,
+    })
+  }
+
+  /**
+   * Stop this store from persisting anything (a newer store has replaced it)
+   */
+  retire(): void {
+    this.retired = true
+  }
+
   /**
    * Search for similar vectors using cosine similarity
+   * Large indices are searched through the HNSW graph; if the graph yields
+   * fewer matches than requested (e.g. under a selective filter) the search
+   * falls back to an exact scan.
    */
   search(
     queryEmbedding: number[],
@@ -272,6 +467,35 @@ export class CharacterVectorStore implements ICharacterVectorStore {
       )
     }
 
+    if (this.entries.size >= this.annMinVectors) {
+      const hits = this.graph.search(
+        queryEmbedding,
+        limit,
+        filter ? (id) => filter(this.entries.get(id)!.metadata) : undefined
+      )
+      if (hits.length >= Math.min(limit, this.entries.size)) {
+        return hits.map(hit => {
+          const entry = this.entries.get(hit.id)!
+          return {
+            id: entry.id,
+            score: cosineSimilarity(queryEmbedding, entry.embedding),
+            metadata: entry.metadata,
+          }
+        })
+      }
+    }
+
+    return this.exactSearch(queryEmbedding, limit, filter)
+  }
+
+  /**
+   * Search by scoring every entry (exact, linear in the index size)
+   */
+  exactSearch(
+    queryEmbedding: number[],
+    limit: number = 10,
+    filter?: (metadata: VectorMetadata) => boolean
+  ): VectorSearchResult[] {
     const results: VectorSearchResult[] = []
 
     for (const entry of this.entries.values()) {
@@ -306,7 +530,79 @@ export class CharacterVectorStore implements ICharacterVectorStore {
    */
   clear(): void {
     this.entries.clear()
+    this.graph.clear()
+    this.chunkOf.clear()
+    for (const [chunkIndex, ids] of this.chunks) {
+      ids.clear()
+      this.dirtyChunks.add(chunkIndex)
+    }
     this.dimensions = null
+    this.model = null
+    this.dirty = true
+  }
+
+  private resetState(): void {
+    this.entries.clear()
+    this.graph.clear()
+    this.chunkOf.clear()
+    this.chunks.clear()
+    this.dirtyChunks.clear()
+    this.dimensions = null
+    this.model = null
+    this.dirty = false
+  }
+
+  private restoreEntry(stored: StoredVectorEntry, chunkIndex: number, missingGraph: StoredVectorEntry[]): void {
+    const { hnsw, ...entry } = stored
+    this.entries.set(entry.id, entry as VectorEntry)
+    this.assignChunk(entry.id, chunkIndex)
+    if (hnsw) {
+      this.graph.restoreNode(entry.id, entry.embedding, hnsw)
+    } else {
+      missingGraph.push(stored)
+    }
+  }
+
+  private toStoredEntry(id: string): StoredVectorEntry {
+    const entry = this.entries.get(id)!
+    return {
+      ...entry,
+      hnsw: this.graph.exportNode(id) ?? undefined,
+    }
+  }
+
+  /**
+   * Lowest chunk with room for another entry
+   */
+  private nextChunkIndex(): number {
+    let index = 0
+    while ((this.chunks.get(index)?.size ?? 0) >= VECTOR_INDEX_CHUNK_SIZE) {
+      index++
+    }
+    return index
+  }
+
+  private assignChunk(id: string, chunkIndex: number): void {
+    let ids = this.chunks.get(chunkIndex)
+    if (!ids) {
+      ids = new Set()
+      this.chunks.set(chunkIndex, ids)
+    }
+    ids.add(id)
+    this.chunkOf.set(id, chunkIndex)
+    this.dirtyChunks.add(chunkIndex)
+  }
+
+  /**
+   * Marks the chunks holding the given entries as needing a rewrite
+   */
+  private markChunksDirty(ids: string[]): void {
+    for (const id of ids) {
+      const chunkIndex = this.chunkOf.get(id)
+      if (chunkIndex !== undefined) {
+        this.dirtyChunks.add(chunkIndex)
+      }
+    }
     this.dirty = true
   }
 }
@@ -341,6 +637,18 @@ export class VectorStoreManager {
     return store
   }
 
+  /**
+   * Replace a character's cached store (after activating a shadow index)
+   * The old store is retired so in-flight writes can't overwrite the new header.
+   */
+  replaceStore(characterId: string, store: ICharacterVectorStore): void {
+    const previous = this.stores.get(characterId)
+    if (previous instanceof CharacterVectorStore && previous !== store) {
+      previous.retire()
+    }
+    this.stores.set(characterId, store)
+  }
+
   /**
    * Save all dirty stores
    */
@@ -347,6 +347,64 @@ export async function importImageFromUrl(url: string, userId: string, linkedTo:
   };
 }
 
+/**
+ * Store bytes that arrived inside an imported file, such as character card assets
+ * Images are stored as images; anything else as an attachment.
+ */
+export async function importFileBuffer(
+  buffer: Buffer,
+  originalFilename: string,
+  mimeType: string,
+  userId: string,
+  linkedTo: string[] = [],
+  description?: string
+): Promise<FileEntry> {
+  if (buffer.length > MAX_FILE_SIZE) {
+    throw new Error(`File size exceeds maximum allowed size of ${MAX_FILE_SIZE / 1024 / 1024} MB`);
+  }
+
+  const isImage = ALLOWED_IMAGE_TYPES.includes(mimeType);
+  return createFile({
+    buffer,
+    originalFilename,
+    mimeType,
+    source: 'IMPORTED',
+    category: isImage ? 'IMAGE' : 'ATTACHMENT',
+    userId,
+    linkedTo,
+    description,
+    ...(isImage ? await getImageDimensions(buffer, mimeType) : {}),
+  });
+}
+
+/**
+ * Store the bytes of a file exported from another Quilltap instance, keeping
+ * its original metadata (source, category, generation details)
+ */
+export async function restoreFileBuffer(
+  buffer: Buffer,
+  entry: Pick<FileEntry, 'originalFilename' | 'mimeType' | 'source' | 'category'> &
+    Partial<Pick<FileEntry, 'width' | 'height' | 'generationPrompt' | 'generationModel' | 'generationRevisedPrompt' | 'description'>>,
+  userId: string,
+  linkedTo: string[] = []
+): Promise<FileEntry> {
+  return createFile({
+    buffer,
+    originalFilename: entry.originalFilename,
+    mimeType: entry.mimeType,
+    source: entry.source,
+    category: entry.category,
+    userId,
+    linkedTo,
+    width: entry.width ?? undefined,
+    height: entry.height ?? undefined,
+    generationPrompt: entry.generationPrompt ?? undefined,
+    generationModel: entry.generationModel ?? undefined,
+    generationRevisedPrompt: entry.generationRevisedPrompt ?? undefined,
+    description: entry.description ?? undefined,
+  });
+}
+
 /**
  * Delete an image file from the server
  */
@@ -0,0 +1,232 @@
+/**
+ * World Info
+ *
+ * Scans recent chat messages for lorebook entry keys and assembles the
+ * triggered entries into "before" and "after" character definition blocks,
+ * respecting each lorebook's scan depth and token budget.
+ */
+
+import { Lorebook, LorebookEntry, LorebookPosition, Provider } from '@/lib/schemas/types'
+import { estimateTokens } from '@/lib/tokens/token-counter'
+import { processTemplate, TemplateContext } from '@/lib/templates/processor'
+
+/**
+ * An entry whose trigger condition matched
+ */
+export interface TriggeredEntry {
+  lorebook: Lorebook
+  entry: LorebookEntry
+  /** Key that triggered the entry, or null for constant entries */
+  matchedKey: string | null
+}
+
+/**
+ * Debug information about an entry inserted into the context
+ */
+export interface WorldInfoDebugEntry {
+  lorebookId: string
+  lorebookName: string
+  entryId: string
+  entryName: string
+  position: LorebookPosition
+  matchedKey: string | null
+  tokens: number
+}
+
+/**
+ * Assembled world info ready for insertion
+ */
+export interface WorldInfoResult {
+  /** Text placed before the character definition */
+  before: string
+  /** Text placed after the character definition */
+  after: string
+  /** Entries that made it into the context */
+  entries: WorldInfoDebugEntry[]
+  /** Entries that triggered but did not fit in their lorebook's budget */
+  skippedForBudget: number
+  /** Estimated tokens of before + after */
+  tokenCount: number
+}
+
+/**
+ * Options for building world info
+ */
+export interface BuildWorldInfoOptions {
+  lorebooks: Lorebook[]
+  /** Message texts to scan, oldest first (include the new user message last) */
+  messages: string[]
+  provider?: Provider
+  /** Variables used to resolve {{char}}, {{user}} etc. inside entry content */
+  templateContext?: TemplateContext
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`)
+}
+
+function plainKeyPattern(key: string, matchWholeWords: boolean): string {
+  const escaped = escapeRegExp(key)
+  return matchWholeWords
+    ? String.raw`(?<![\p{L}\p{N}_])${escaped}(?![\p{L}\p{N}_])`
+    : escaped
+}
+
+/**
+ * Write a plain key as a /pattern/flags key that matches the same text once
+ * the entry's keys are regular expressions
+ */
+export function plainKeyAsRegex(key: string, matchWholeWords: boolean): string {
+  return `/${plainKeyPattern(key.trim(), matchWholeWords)}/u`
+}
+
+/**
+ * Compile a key into a regular expression, or null if the key is unusable.
+ * Regex keys may be written as /pattern/flags like SillyTavern.
+ */
+export function compileEntryKey(key: string, entry: Pick<LorebookEntry, 'useRegex' | 'caseSensitive' | 'matchWholeWords'>): RegExp | null {
+  const trimmed = key.trim()
+  if (!trimmed) return null
+
+  try {
+    if (entry.useRegex) {
+      const literal = /^\/([\s\S]+)\/([a-z]*)$/.exec(trimmed)
+      if (literal) {
+        let flags = literal[2].replace(/[gy]/g, '')
+        if (!entry.caseSensitive && !flags.includes('i')) flags += 'i'
+        return new RegExp(literal[1], flags)
+      }
+      return new RegExp(trimmed, entry.caseSensitive ? '' : 'i')
+    }
+
+    return new RegExp(plainKeyPattern(trimmed, entry.matchWholeWords), entry.caseSensitive ? 'u' : 'iu')
+  } catch {
+    // Invalid user-supplied regex; treat as never matching
+    return null
+  }
+}
+
+function findMatchingKey(keys: string[], entry: LorebookEntry, text: string): string | null {
+  for (const key of keys) {
+    const regex = compileEntryKey(key, entry)
+    if (regex && regex.test(text)) {
+      return key
+    }
+  }
+  return null
+}
+
+/**
+ * Check whether an entry is triggered by the given text.
+ * Returns the matching primary key, or null when it does not trigger.
+ */
+export function matchEntry(entry: LorebookEntry, text: string): string | null {
+  if (!text || entry.keys.length === 0) return null
+
+  const primary = findMatchingKey(entry.keys, entry, text)
+  if (!primary) return null
+
+  if (entry.secondaryKeys.length > 0 && !findMatchingKey(entry.secondaryKeys, entry, text)) {
+    return null
+  }
+
+  return primary
+}
+
+/**
+ * Find every enabled entry that is constant or whose keys appear
+ * within its scan depth
+ */
+export function scanLorebooks(lorebooks: Lorebook[], messages: string[]): TriggeredEntry[] {
+  const triggered: TriggeredEntry[] = []
+
+  for (const lorebook of lorebooks) {
+    if (!lorebook.enabled) continue
+
+    for (const entry of lorebook.entries) {
+      if (!entry.enabled || !entry.content.trim()) continue
+
+      if (entry.constant) {
+        triggered.push({ lorebook, entry, matchedKey: null })
+        continue
+      }
+
+      const depth = entry.scanDepth ?? lorebook.scanDepth
+      if (depth <= 0) continue
+
+      const scanText = messages.slice(-depth).join('\n')
+      const matchedKey = matchEntry(entry, scanText)
+      if (matchedKey) {
+        triggered.push({ lorebook, entry, matchedKey })
+      }
+    }
+  }
+
+  return triggered
+}
+
+/**
+ * Scan the conversation and assemble the triggered entries.
+ * Within each lorebook, constant entries and higher insertion orders are
+ * kept first when the token budget runs out; the chosen entries are then
+ * emitted in ascending insertion order.
+ */
+export function buildWorldInfo(options: BuildWorldInfoOptions): WorldInfoResult {
+  const { lorebooks, messages, provider, templateContext } = options
+  const triggered = scanLorebooks(lorebooks, messages)
+
+  const accepted: Array<{ item: TriggeredEntry; content: string; tokens: number }> = []
+  let skippedForBudget = 0
+
+  for (const lorebook of lorebooks) {
+    const candidates = triggered
+      .filter(t => t.lorebook.id === lorebook.id)
+      .sort((a, b) => {
+        if (a.entry.constant !== b.entry.constant) return a.entry.constant ? -1 : 1
+        return b.entry.insertionOrder - a.entry.insertionOrder
+      })
+
+    let used = 0
+    for (const item of candidates) {
+      const content = templateContext
+        ? processTemplate(item.entry.content, templateContext).trim()
+        : item.entry.content.trim()
+      const tokens = estimateTokens(content, provider)
+
+      if (used + tokens > lorebook.tokenBudget) {
+        skippedForBudget++
+        continue
+      }
+
+      used += tokens
+      accepted.push({ item, content, tokens })
+    }
+  }
+
+  accepted.sort((a, b) => a.item.entry.insertionOrder - b.item.entry.insertionOrder)
+
+  const before = accepted
+    .filter(a => a.item.entry.position === 'BEFORE_CHARACTER')
+    .map(a => a.content)
+    .join('\n')
+  const after = accepted
+    .filter(a => a.item.entry.position === 'AFTER_CHARACTER')
+    .map(a => a.content)
+    .join('\n')
+
+  return {
+    before,
+    after,
+    entries: accepted.map(({ item, tokens }) => ({
+      lorebookId: item.lorebook.id,
+      lorebookName: item.lorebook.name,
+      entryId: item.entry.id,
+      entryName: item.entry.name || item.entry.keys[0] || 'Untitled entry',
+      position: item.entry.position,
+      matchedKey: item.matchedKey,
+      tokens,
+    })),
+    skippedForBudget,
+    tokenCount: estimateTokens(before, provider) + estimateTokens(after, provider),
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * MCP Client
+ *
+ * Minimal Model Context Protocol client speaking JSON-RPC 2.0 over either
+ * a child process's stdio (newline-delimited messages) or the HTTP+SSE
+ * transport (an SSE stream for responses, POSTs for requests).
+ *
+ * Only the parts Quilltap needs are implemented: the initialize handshake,
+ * tools/list and tools/call. SSE requests only go to public addresses.
+ */
+
+import { spawn, ChildProcess } from 'node:child_process'
+import { logger } from '@/lib/logger'
+import { fetchPublicUrl } from '@/lib/public-address'
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05'
+
+const CLIENT_INFO = { name: 'quilltap', version: '1.0.0' }
+
+/** Default time to wait for a response to any request */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000
+
+/** Environment variables passed through to stdio servers; everything else must be configured explicitly */
+const INHERITED_ENV_VARS = ['HOME', 'LOGNAME', 'PATH', 'SHELL', 'TERM', 'USER', 'LANG', 'TMPDIR', 'SYSTEMROOT', 'APPDATA']
+
+/**
+ * A tool advertised by an MCP server
+ */
+export interface McpToolDescriptor {
+  name: string
+  description?: string
+  inputSchema?: {
+    type?: string
+    properties?: Record<string, unknown>
+    required?: string[]
+    [key: string]: unknown
+  }
+}
+
+/**
+ * A content block in a tools/call result
+ */
+export type McpContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'resource'; resource: { uri: string; text?: string; mimeType?: string } }
+  | { type: string; [key: string]: unknown }
+
+/**
+ * Result of a tools/call request
+ */
+export interface McpCallToolResult {
+  content: McpContentBlock[]
+  isError?: boolean
+}
+
+/**
+ * How to reach an MCP server
+ */
+export type McpClientConfig =
+  | { transport: 'stdio'; command: string; args?: string[]; env?: Record<string, string> }
+  | { transport: 'sse'; url: string; headers?: Record<string, string> }
+
+export interface McpClientOptions {
+  /** Label used in logs and errors */
+  name?: string
+  requestTimeoutMs?: number
+}
+
+/**
+ * Error raised for transport failures and JSON-RPC error responses
+ */
+export class McpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message)
+    this.name = 'McpError'
+  }
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: number | string
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * A connection to a single MCP server
+ */
+export class McpClient {
+  private readonly name: string
+  private readonly requestTimeoutMs: number
+  private nextId = 1
+  private pending = new Map<number | string, PendingRequest>()
+  private connected = false
+  private closed = false
+
+  // stdio transport
+  private child: ChildProcess | null = null
+  private stdoutBuffer = ''
+
+  // SSE transport
+  private sseAbort: AbortController | null = null
+  private postEndpoint: string | null = null
+
+  serverInfo: { name?: string; version?: string } | null = null
+
+  constructor(private readonly config: McpClientConfig, options: McpClientOptions = {}) {
+    this.name = options.name ?? (config.transport === 'stdio' ? config.command : config.url)
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+  }
+
+  get isConnected(): boolean {
+    return this.connected && !this.closed
+  }
+
+  /**
+   * Opens the transport and performs the initialize handshake
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return
+    }
+
+    if (this.config.transport === 'stdio') {
+      this.startStdio(this.config)
+    } else {
+      await this.startSse(this.config)
+    }
+
+    const result = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    }) as { serverInfo?: { name?: string; version?: string }; protocolVersion?: string }
+
+    this.serverInfo = result?.serverInfo ?? null
+    await this.notify('notifications/initialized')
+    this.connected = true
+
+    logger.debug('MCP server connected', {
+      server: this.name,
+      transport: this.config.transport,
+      serverInfo: this.serverInfo,
+      protocolVersion: result?.protocolVersion,
+    })
+  }
+
+  /**
+   * Lists every tool the server offers, following pagination cursors
+   */
+  async listTools(): Promise<McpToolDescriptor[]> {
+    const tools: McpToolDescriptor[] = []
+    let cursor: string | undefined
+
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {}) as {
+        tools?: McpToolDescriptor[]
+        nextCursor?: string
+      }
+      tools.push(...(result?.tools ?? []))
+      cursor = result?.nextCursor
+    } while (cursor)
+
+    return tools
+  }
+
+  /**
+   * Calls a tool on the server
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpCallToolResult> {
+    const result = await this.request('tools/call', { name, arguments: args }) as McpCallToolResult
+    return {
+      content: Array.isArray(result?.content) ? result.content : [],
+      isError: result?.isError === true,
+    }
+  }
+
+  /**
+   * Closes the transport and fails any outstanding requests
+   */
+  close(): void {
+    if (this.closed) {
+      return
+    }
+    this.closed = true
+    this.connected = false
+
+    this.failPending(new McpError(`MCP server "${this.name}" connection closed`))
+
+    if (this.child) {
+      this.child.stdin?.end()
+      this.child.kill()
+      this.child = null
+    }
+    if (this.sseAbort) {
+      this.sseAbort.abort()
+      this.sseAbort = null
+    }
+  }
+
+  // ==========================================================================
+  // JSON-RPC
+  // ==========================================================================
+
+  private request(method: string, params?: unknown): Promise<unknown> {
+    if (this.closed) {
+      return Promise.reject(new McpError(`MCP server "${this.name}" connection is closed`))
+    }
+
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new McpError(`MCP request ${method} to "${this.name}" timed out after ${this.requestTimeoutMs}ms`))
+      }, this.requestTimeoutMs)
+
+      this.pending.set(id, { resolve, reject, timer })
+      this.send({ jsonrpc: '2.0', id, method, params }).catch((error) => {
+        clearTimeout(timer)
+        this.pending.delete(id)
+        reject(error instanceof Error ? error : new McpError(String(error)))
+      })
+    })
+  }
+
+  private notify(method: string, params?: unknown): Promise<void> {
+    return this.send({ jsonrpc: '2.0', method, ...(params !== undefined && { params }) })
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (message.id !== undefined && (message.result !== undefined || message.error !== undefined)) {
+      const pending = this.pending.get(message.id)
+      if (!pending) {
+        return
+      }
+      clearTimeout(pending.timer)
+      this.pending.delete(message.id)
+
+      if (message.error) {
+        pending.reject(new McpError(message.error.message, message.error.code))
+      } else {
+        pending.resolve(message.result)
+      }
+      return
+    }
+
+    if (message.method && message.id !== undefined) {
+      // Server-to-client requests (sampling, roots, ping) are not supported; ping gets an empty reply
+      const reply: JsonRpcMessage = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported: ${message.method}` } }
+      this.send(reply).catch(() => undefined)
+      return
+    }
+
+    if (message.method) {
+      logger.debug('MCP notification received', { server: this.name, method: message.method })
+    }
+  }
+
+  private failPending(error: Error): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer)
+      pending.reject(error)
+      this.pending.delete(id)
+    }
+  }
+
+  private handleRawMessage(raw: string): void {
+    const text = raw.trim()
+    if (!text) {
+      return
+    }
+
+    try {
+      const parsed = JSON.parse(text) as JsonRpcMessage | JsonRpcMessage[]
+      for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+        this.handleMessage(message)
+      }
+    } catch {
+      logger.debug('Ignoring non-JSON output from MCP server', { server: this.name, output: text.slice(0, 200) })
+    }
+  }
+
+  private async send(message: JsonRpcMessage): Promise<void> {
+    if (this.config.transport === 'stdio') {
+      if (!this.child?.stdin?.writable) {
+        throw new McpError(`MCP server "${this.name}" is not running`)
+      }
+      this.child.stdin.write(JSON.stringify(message) + '\n')
+      return
+    }
+
+    if (!this.postEndpoint) {
+      throw new McpError(`MCP server "${this.name}" has not sent its message endpoint`)
+    }
+
+    // The endpoint comes from the server, so it is checked like the server URL
+    const response = await fetchPublicUrl(this.postEndpoint, {
+      method: 'POST',
+      headers: { ...this.config.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    })
+
+    if (!response.ok) {
+      throw new McpError(`MCP server "${this.name}" rejected message: HTTP ${response.status}`)
+    }
+  }
+
+  // ==========================================================================
+  // STDIO TRANSPORT
+  // ==========================================================================
+
+  private startStdio(config: Extract<McpClientConfig, { transport: 'stdio' }>): void {
+    const env: Record<string, string> = {}
+    for (const key of INHERITED_ENV_VARS) {
+      const value = process.env[key]
+      if (value !== undefined) {
+        env[key] = value
+      }
+    }
+
+    const child = spawn(config.command, config.args ?? [], {
+      env: { ...env, ...config.env } as NodeJS.ProcessEnv,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: false,
+    })
+    this.child = child
+
+    child.stdout?.setEncoding('utf8')
+    child.stdout?.on('data', (chunk: string) => {
+      this.stdoutBuffer += chunk
+      let newline = this.stdoutBuffer.indexOf('\n')
+      while (newline !== -1) {
+        const line = this.stdoutBuffer.slice(0, newline)
+        this.stdoutBuffer = this.stdoutBuffer.slice(newline + 1)
+        this.handleRawMessage(line)
+        newline = this.stdoutBuffer.indexOf('\n')
+      }
+    })
+
+    // Writing to a process that has just exited raises EPIPE; the exit handler fails pending requests
+    child.stdin?.on('error', (error) => {
+      logger.debug('MCP server stdin error', { server: this.name, error: error.message })
+    })
+
+    child.stderr?.setEncoding('utf8')
+    child.stderr?.on('data', (chunk: string) => {
+      logger.debug('MCP server stderr', { server: this.name, output: chunk.trim().slice(0, 500) })
+    })
+
+    child.on('error', (error) => {
+      logger.warn('MCP server process error', { server: this.name, error: error.message })
+      this.failPending(new McpError(`MCP server "${this.name}" failed to start: ${error.message}`))
+      this.connected = false
+    })
+
+    child.on('exit', (code, signal) => {
+      if (!this.closed) {
+        logger.warn('MCP server process exited', { server: this.name, code, signal })
+      }
+      this.failPending(new McpError(`MCP server "${this.name}" exited (code ${code ?? signal})`))
+      this.connected = false
+      this.closed = true
+      this.child = null
+    })
+  }
+
+  // ==========================================================================
+  // SSE TRANSPORT
+  // ==========================================================================
+
+  private async startSse(config: Extract<McpClientConfig, { transport: 'sse' }>): Promise<void> {
+    this.sseAbort = new AbortController()
+
+    const response = await fetchPublicUrl(config.url, {
+      headers: { ...config.headers, Accept: 'text/event-stream' },
+      signal: this.sseAbort.signal,
+    })
+
+    if (!response.ok || !response.body) {
+      throw new McpError(`MCP server "${this.name}" SSE connection failed: HTTP ${response.status}`)
+    }
+
+    const endpointReady = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new McpError(`MCP server "${this.name}" did not send an endpoint event`))
+      }, this.requestTimeoutMs)
+
+      this.readSseStream(response.body!, config.url, () => {
+        clearTimeout(timer)
+        resolve()
+      }).then(() => {
+        clearTimeout(timer)
+        if (!this.postEndpoint) {
+          reject(new McpError(`MCP server "${this.name}" closed the event stream before sending an endpoint`))
+        }
+      }, (error) => {
+        clearTimeout(timer)
+        reject(error)
+      })
+    })
+
+    await endpointReady
+  }
+
+  private async readSseStream(
+    body: ReadableStream<Uint8Array>,
+    baseUrl: string,
+    onEndpoint: () => void
+  ): Promise<void> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let event = 'message'
+    let data: string[] = []
+
+    const dispatch = () => {
+      if (data.length === 0) {
+        event = 'message'
+        return
+      }
+      const payload = data.join('\n')
+      if (event === 'endpoint') {
+        this.postEndpoint = new URL(payload, baseUrl).toString()
+        onEndpoint()
+      } else if (event === 'message') {
+        this.handleRawMessage(payload)
+      }
+      event = 'message'
+      data = []
+    }
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) {
+          break
+        }
+        buffer += decoder.decode(value, { stream: true })
+
+        let newline = buffer.indexOf('\n')
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).replace(/\r$/, '')
+          buffer = buffer.slice(newline + 1)
+
+          if (line === '') {
+            dispatch()
+          } else if (line.startsWith('event:')) {
+            event = line.slice(6).trim()
+          } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).replace(/^ /, ''))
+          }
+          newline = buffer.indexOf('\n')
+        }
+      }
+    } catch (error) {
+      if (!this.closed) {
+        logger.warn('MCP SSE stream error', {
+          server: this.name,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    } finally {
+      if (!this.closed) {
+        this.failPending(new McpError(`MCP server "${this.name}" closed the event stream`))
+        this.connected = false
+        this.closed = true
+      }
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Model Context Protocol (MCP) support
+ *
+ * Lets users register external MCP servers whose tools are offered to the
+ * LLM alongside the built-in tools.
+ */
+
+export {
+  McpClient,
+  McpError,
+  MCP_PROTOCOL_VERSION,
+  type McpCallToolResult,
+  type McpClientConfig,
+  type McpContentBlock,
+  type McpToolDescriptor,
+} from './client'
+
+export {
+  MCP_TOOL_PREFIX,
+  buildMcpToolName,
+  formatMcpToolResult,
+  isMcpToolName,
+  mcpToolToUniversalTool,
+  type McpToolBinding,
+  type McpToolCallOutput,
+} from './tools'
+
+export {
+  callMcpTool,
+  closeAllMcpConnections,
+  closeMcpConnection,
+  getMcpClientConfig,
+  getMcpToolBindings,
+  getMcpUniversalTools,
+  listMcpServerTools,
+} from './manager'
+
+export {
+  checkMcpServerPolicy,
+  getAllowedMcpCommands,
+  isMcpCommandAllowed,
+} from './policy'
@@ -0,0 +1,245 @@
+/**
+ * MCP Connection Manager
+ *
+ * Keeps one live client per registered MCP server, discovers the tools of a
+ * user's enabled servers and routes tool calls to the server that owns them.
+ * Connections are opened lazily on first use and reopened when a server's
+ * configuration changes or its process/stream goes away.
+ */
+
+import { logger } from '@/lib/logger'
+import { getRepositories } from '@/lib/repositories/factory'
+import type { McpServer } from '@/lib/schemas/types'
+import type { UniversalTool } from '@/lib/plugins/interfaces'
+import { McpClient, McpClientConfig, McpError, McpToolDescriptor } from './client'
+import { isMcpCommandAllowed } from './policy'
+import {
+  buildMcpToolName,
+  formatMcpToolResult,
+  McpToolBinding,
+  McpToolCallOutput,
+  mcpToolToUniversalTool,
+} from './tools'
+
+/** How long a server's tool list is reused before asking again */
+const TOOL_CACHE_TTL_MS = 5 * 60 * 1000
+
+/** Upper bound on connecting and listing tools for one server while building a request */
+const DISCOVERY_TIMEOUT_MS = 15000
+
+interface ManagedConnection {
+  client: McpClient
+  /** Server updatedAt when the connection was opened; a change forces a reconnect */
+  version: string
+  connecting: Promise<void> | null
+  tools: McpToolDescriptor[] | null
+  toolsFetchedAt: number
+}
+
+const connections = new Map<string, ManagedConnection>()
+
+/**
+ * Builds the transport config for a stored server
+ */
+export function getMcpClientConfig(server: McpServer): McpClientConfig {
+  if (server.transport === 'stdio') {
+    if (!server.command) {
+      throw new McpError(`MCP server "${server.name}" has no command configured`)
+    }
+    // Servers registered before the operator narrowed the allowed commands
+    if (!isMcpCommandAllowed(server.command)) {
+      throw new McpError(`MCP server "${server.name}" runs a command that is not allowed (see MCP_STDIO_COMMANDS)`)
+    }
+    return { transport: 'stdio', command: server.command, args: server.args, env: server.env }
+  }
+
+  if (!server.url) {
+    throw new McpError(`MCP server "${server.name}" has no URL configured`)
+  }
+  return { transport: 'sse', url: server.url, headers: server.headers }
+}
+
+async function getConnection(server: McpServer): Promise<ManagedConnection> {
+  let connection = connections.get(server.id)
+
+  if (connection && (connection.version !== server.updatedAt || (!connection.connecting && !connection.client.isConnected))) {
+    connection.client.close()
+    connections.delete(server.id)
+    connection = undefined
+  }
+
+  if (!connection) {
+    const client = new McpClient(getMcpClientConfig(server), { name: server.name })
+    const created: ManagedConnection = {
+      client,
+      version: server.updatedAt,
+      connecting: null,
+      tools: null,
+      toolsFetchedAt: 0,
+    }
+    created.connecting = client.connect().finally(() => {
+      created.connecting = null
+    })
+    connections.set(server.id, created)
+    connection = created
+  }
+
+  if (connection.connecting) {
+    try {
+      await connection.connecting
+    } catch (error) {
+      connection.client.close()
+      connections.delete(server.id)
+      throw error
+    }
+  }
+
+  return connection
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new McpError(`${label} timed out after ${ms}ms`)), ms)
+    promise.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (error) => {
+        clearTimeout(timer)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Lists the tools offered by a server, using the cached list when fresh
+ */
+export async function listMcpServerTools(server: McpServer, options: { refresh?: boolean } = {}): Promise<McpToolDescriptor[]> {
+  const connection = await getConnection(server)
+
+  const stale = Date.now() - connection.toolsFetchedAt > TOOL_CACHE_TTL_MS
+  if (!connection.tools || stale || options.refresh) {
+    connection.tools = await connection.client.listTools()
+    connection.toolsFetchedAt = Date.now()
+    logger.debug('MCP tools discovered', {
+      server: server.name,
+      serverId: server.id,
+      tools: connection.tools.map((tool) => tool.name),
+    })
+  }
+
+  return connection.tools
+}
+
+/**
+ * Discovers the tools of all of a user's enabled MCP servers
+ * Servers that cannot be reached are logged and skipped.
+ */
+export async function getMcpToolBindings(userId: string): Promise<McpToolBinding[]> {
+  const repos = getRepositories()
+  const servers = await repos.mcpServers.findEnabledByUserId(userId)
+
+  if (servers.length === 0) {
+    return []
+  }
+
+  const results = await Promise.all(servers.map(async (server) => {
+    try {
+      const tools = await withTimeout(
+        listMcpServerTools(server),
+        DISCOVERY_TIMEOUT_MS,
+        `Tool discovery for MCP server "${server.name}"`
+      )
+      return tools.map((tool): McpToolBinding => ({
+        exposedName: buildMcpToolName(server.name, tool.name),
+        serverId: server.id,
+        serverName: server.name,
+        toolName: tool.name,
+        tool,
+      }))
+    } catch (error) {
+      logger.warn('Skipping unreachable MCP server', {
+        server: server.name,
+        serverId: server.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return []
+    }
+  }))
+
+  // First server wins if two sanitise to the same exposed name
+  const bindings = new Map<string, McpToolBinding>()
+  for (const binding of results.flat()) {
+    if (bindings.has(binding.exposedName)) {
+      logger.warn('Duplicate MCP tool name, keeping the first', { name: binding.exposedName, server: binding.serverName })
+      continue
+    }
+    bindings.set(binding.exposedName, binding)
+  }
+
+  return Array.from(bindings.values())
+}
+
+/**
+ * Gets a user's MCP tools in universal format for buildToolsForProvider
+ */
+export async function getMcpUniversalTools(userId: string): Promise<UniversalTool[]> {
+  const bindings = await getMcpToolBindings(userId)
+  return bindings.map(mcpToolToUniversalTool)
+}
+
+/**
+ * Calls an MCP tool by its exposed name on behalf of a user
+ */
+export async function callMcpTool(
+  userId: string,
+  exposedName: string,
+  args: Record<string, unknown>
+): Promise<McpToolCallOutput> {
+  const bindings = await getMcpToolBindings(userId)
+  const binding = bindings.find((candidate) => candidate.exposedName === exposedName)
+
+  if (!binding) {
+    throw new McpError(`MCP tool not available: ${exposedName}`)
+  }
+
+  const server = await getRepositories().mcpServers.findById(binding.serverId)
+  if (!server || server.userId !== userId) {
+    throw new McpError(`MCP server not found for tool: ${exposedName}`)
+  }
+
+  logger.debug('Calling MCP tool', { server: server.name, tool: binding.toolName })
+
+  const connection = await getConnection(server)
+  const result = await connection.client.callTool(binding.toolName, args)
+
+  return {
+    server: server.name,
+    tool: binding.toolName,
+    isError: result.isError === true,
+    formattedText: formatMcpToolResult(result),
+    content: result.content,
+  }
+}
+
+/**
+ * Closes a server's connection, e.g. after it is updated or deleted
+ */
+export function closeMcpConnection(serverId: string): void {
+  const connection = connections.get(serverId)
+  if (connection) {
+    connection.client.close()
+    connections.delete(serverId)
+  }
+}
+
+/**
+ * Closes every open MCP connection
+ */
+export function closeAllMcpConnections(): void {
+  for (const serverId of Array.from(connections.keys())) {
+    closeMcpConnection(serverId)
+  }
+}
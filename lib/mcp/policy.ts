@@ -0,0 +1,57 @@
+/**
+ * MCP Server Policy
+ *
+ * What users may register as MCP servers. A stdio server runs its command on
+ * the Quilltap host, so only commands the operator lists in
+ * MCP_STDIO_COMMANDS (comma-separated, `*` for any) can be used; with the
+ * variable unset, stdio servers are disabled. SSE servers must be on public
+ * addresses (see lib/public-address.ts).
+ */
+
+import { assertPublicUrl, PrivateAddressError } from '@/lib/public-address'
+
+/**
+ * Commands the operator allows stdio MCP servers to run
+ */
+export function getAllowedMcpCommands(): string[] {
+  return (process.env.MCP_STDIO_COMMANDS ?? '')
+    .split(',')
+    .map((command) => command.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Whether a stdio MCP server may run a command
+ */
+export function isMcpCommandAllowed(command: string): boolean {
+  const allowed = getAllowedMcpCommands()
+  return allowed.includes('*') || allowed.includes(command.trim())
+}
+
+/**
+ * Checks what a server would run or reach against the policy
+ * @returns Why the server is refused, with the HTTP status to answer with, or null when it is allowed
+ */
+export async function checkMcpServerPolicy(
+  data: { transport?: string; command?: string | null; url?: string | null }
+): Promise<{ error: string; status: number } | null> {
+  if (data.transport === 'stdio' && data.command && !isMcpCommandAllowed(data.command)) {
+    return {
+      error: 'This command is not allowed for MCP servers; the operator can allow it with MCP_STDIO_COMMANDS',
+      status: 403,
+    }
+  }
+
+  if (data.transport === 'sse' && data.url) {
+    try {
+      await assertPublicUrl(data.url)
+    } catch (error) {
+      if (error instanceof PrivateAddressError) {
+        return { error: 'MCP servers must be on a public address', status: 400 }
+      }
+      throw error
+    }
+  }
+
+  return null
+}
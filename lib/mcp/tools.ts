@@ -0,0 +1,111 @@
+/**
+ * MCP Tool Mapping
+ *
+ * Converts tools discovered on MCP servers into UniversalTools and formats
+ * tools/call results for the LLM and the chat UI.
+ *
+ * Exposed tool names take the form `mcp__<server>__<tool>` so they cannot
+ * collide with the built-in tools or with tools from another server.
+ */
+
+import type { UniversalTool } from '@/lib/plugins/interfaces'
+import type { McpCallToolResult, McpToolDescriptor } from './client'
+
+export const MCP_TOOL_PREFIX = 'mcp__'
+
+/** Longest function name accepted by every provider */
+const MAX_TOOL_NAME_LENGTH = 64
+
+/**
+ * A discovered MCP tool bound to the server that provides it
+ */
+export interface McpToolBinding {
+  /** Name the LLM sees and calls */
+  exposedName: string
+  serverId: string
+  serverName: string
+  /** Name of the tool on the MCP server */
+  toolName: string
+  tool: McpToolDescriptor
+}
+
+/**
+ * Result of an MCP tool call, ready for the tool executor
+ */
+export interface McpToolCallOutput {
+  server: string
+  tool: string
+  isError: boolean
+  /** Text sent back to the LLM */
+  formattedText: string
+  /** Raw content blocks, kept for the UI */
+  content: McpCallToolResult['content']
+}
+
+function sanitizeNamePart(value: string): string {
+  return value
+    .trim()
+    .replace(/[^a-zA-Z0-9_-]+/g, '_')
+    .replace(/_{2,}/g, '_')
+    .replace(/^_+|_+$/g, '') || 'tool'
+}
+
+/**
+ * Whether a tool name refers to an MCP tool
+ */
+export function isMcpToolName(name: string): boolean {
+  return name.startsWith(MCP_TOOL_PREFIX)
+}
+
+/**
+ * Builds the name an MCP tool is exposed under
+ */
+export function buildMcpToolName(serverName: string, toolName: string): string {
+  const name = `${MCP_TOOL_PREFIX}${sanitizeNamePart(serverName)}__${sanitizeNamePart(toolName)}`
+  return name.slice(0, MAX_TOOL_NAME_LENGTH)
+}
+
+/**
+ * Converts an MCP tool binding into the universal (OpenAI function) format
+ */
+export function mcpToolToUniversalTool(binding: McpToolBinding): UniversalTool {
+  const schema = binding.tool.inputSchema ?? {}
+  const description = binding.tool.description?.trim() || `Tool "${binding.toolName}"`
+
+  return {
+    type: 'function',
+    function: {
+      name: binding.exposedName,
+      description: `[${binding.serverName}] ${description}`,
+      parameters: {
+        ...schema,
+        type: 'object',
+        properties: (schema.properties as Record<string, unknown>) ?? {},
+        required: Array.isArray(schema.required) ? schema.required : [],
+      },
+    },
+  }
+}
+
+/**
+ * Flattens a tools/call result into text for the LLM
+ * Non-text content is summarised since it cannot be passed back as a tool result.
+ */
+export function formatMcpToolResult(result: McpCallToolResult): string {
+  const parts = result.content.map((block) => {
+    if (block.type === 'text' && typeof block.text === 'string') {
+      return block.text
+    }
+    if (block.type === 'image') {
+      return `[Image: ${(block as { mimeType?: string }).mimeType ?? 'unknown type'}]`
+    }
+    if (block.type === 'resource') {
+      const resource = (block as { resource?: { uri?: string; text?: string } }).resource
+      return resource?.text ?? `[Resource: ${resource?.uri ?? 'unknown'}]`
+    }
+    return `[${block.type} content]`
+  })
+
+  const text = parts.join('\n\n').trim()
+  return text || (result.isError ? 'The tool reported an error without details.' : 'The tool returned no content.')
+}
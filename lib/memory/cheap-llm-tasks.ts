@@ -9,7 +9,7 @@
 
 import { createLLMProvider } from '@/lib/llm'
 import { LLMMessage, LLMResponse } from '@/lib/llm/base'
-import { CheapLLMSelection } from '@/lib/llm/cheap-llm'
+import { CheapLLMSelection, getCheapLLMProvider } from '@/lib/llm/cheap-llm'
 import { getRepositories } from '@/lib/repositories/factory'
 import { decryptApiKey } from '@/lib/encryption'
 
@@ -98,6 +98,43 @@ async function getApiKeyForSelection(
   return decryptApiKey(apiKey.ciphertext, apiKey.iv, apiKey.authTag, userId)
 }
 
+/**
+ * Picks the cheap LLM for a user's background job outside of a chat
+ *
+ * Uses the given connection profile (typically the character's default) or
+ * the user's default profile as the current profile for selection.
+ * Returns null when the user has no cheap LLM settings or profile.
+ */
+export async function resolveCheapLLMSelection(
+  userId: string,
+  connectionProfileId?: string | null
+): Promise<CheapLLMSelection | null> {
+  const repos = getRepositories()
+  const chatSettings = await repos.users.getChatSettings(userId)
+  if (!chatSettings?.cheapLLMSettings) {
+    return null
+  }
+
+  const connectionProfile = connectionProfileId
+    ? await repos.connections.findById(connectionProfileId)
+    : await repos.connections.findDefault(userId)
+  if (!connectionProfile) {
+    return null
+  }
+
+  const cheapLLMSettings = chatSettings.cheapLLMSettings
+  return getCheapLLMProvider(
+    connectionProfile,
+    {
+      strategy: cheapLLMSettings.strategy,
+      userDefinedProfileId: cheapLLMSettings.userDefinedProfileId ?? undefined,
+      defaultCheapProfileId: cheapLLMSettings.defaultCheapProfileId ?? undefined,
+      fallbackToLocal: cheapLLMSettings.fallbackToLocal,
+    },
+    await repos.connections.findByUserId(userId)
+  )
+}
+
 /**
  * Executes a cheap LLM task with the given messages
  */
@@ -853,6 +890,186 @@ ${exchangesText}`,
   )
 }
 
+/**
+ * Consolidated memory written from several faded memories
+ */
+export interface ConsolidatedMemory {
+  /** Full consolidated memory content */
+  content: string
+  /** Brief 1-sentence summary */
+  summary: string
+  /** Keywords for text-based search */
+  keywords: string[]
+}
+
+/**
+ * Memory consolidation prompt template
+ */
+const MEMORY_CONSOLIDATION_PROMPT = `You are condensing several old, rarely recalled memories into a single memory.
+Keep the facts that would still matter in a future conversation and drop incidental detail.
+Do not invent anything that is not in the memories.
+
+Respond with JSON only (no markdown, no code blocks):
+{
+  "content": "Condensed memory content",
+  "summary": "Brief 1-sentence summary",
+  "keywords": ["keyword1", "keyword2"]
+}`
+
+/**
+ * Condenses faded memories into one consolidated memory
+ *
+ * @param memories - Summaries and content of the memories to condense
+ * @param selection - The cheap LLM provider selection
+ * @param userId - The user ID for API key retrieval
+ * @returns The consolidated memory, or null if the response could not be parsed
+ */
+export async function consolidateMemories(
+  memories: Array<{ summary: string; content: string }>,
+  selection: CheapLLMSelection,
+  userId: string
+): Promise<CheapLLMTaskResult<ConsolidatedMemory | null>> {
+  const memoriesText = memories
+    .map((m, i) => `Memory ${i + 1}: ${m.summary}\n${m.content}`)
+    .join('\n\n')
+
+  const messages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: MEMORY_CONSOLIDATION_PROMPT,
+    },
+    {
+      role: 'user',
+      content: memoriesText,
+    },
+  ]
+
+  return executeCheapLLMTask(
+    selection,
+    messages,
+    userId,
+    (content: string): ConsolidatedMemory | null => {
+      try {
+        let cleanContent = content.trim()
+        if (cleanContent.startsWith('```json')) {
+          cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '')
+        } else if (cleanContent.startsWith('```')) {
+          cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
+        }
+
+        const parsed = JSON.parse(cleanContent)
+        if (typeof parsed.content !== 'string' || typeof parsed.summary !== 'string') {
+          return null
+        }
+        return {
+          content: parsed.content,
+          summary: parsed.summary,
+          keywords: Array.isArray(parsed.keywords) ? parsed.keywords.filter((k: unknown) => typeof k === 'string') : [],
+        }
+      } catch {
+        return null
+      }
+    }
+  )
+}
+
+/**
+ * Verdict on a group of similar memories
+ */
+export interface MemoryGroupReview {
+  /** merge: duplicates; conflict: they contradict each other; distinct: leave them alone */
+  verdict: 'merge' | 'conflict' | 'distinct'
+  /** Short explanation for the reviewer */
+  reason: string
+  /** Replacement memory content (merge/conflict) */
+  content?: string
+  /** Replacement memory summary (merge/conflict) */
+  summary?: string
+  /** Keywords for the replacement memory */
+  keywords?: string[]
+}
+
+/**
+ * Memory group review prompt template
+ */
+const MEMORY_GROUP_REVIEW_PROMPT = `You are reviewing a group of similar memories that a character holds.
+Memories are listed oldest first. Decide whether they:
+- "merge": say the same thing and should become one memory
+- "conflict": contradict each other (for example "likes tea" and later "hates tea")
+- "distinct": are related but each worth keeping as they are
+
+For "merge", write one memory that keeps every fact from the group.
+For "conflict", write one memory that resolves the contradiction, treating later memories as more current and noting the change (for example "Used to like tea but now hates it").
+
+Respond with JSON only (no markdown, no code blocks):
+{
+  "verdict": "merge" | "conflict" | "distinct",
+  "reason": "One sentence explaining the verdict",
+  "content": "Replacement memory content (omit for distinct)",
+  "summary": "Brief 1-sentence summary (omit for distinct)",
+  "keywords": ["keyword1", "keyword2"]
+}`
+
+/**
+ * Asks whether a group of similar memories should be merged or contradict each other
+ *
+ * @param memories - The grouped memories, oldest first
+ * @param selection - The cheap LLM provider selection
+ * @param userId - The user ID for API key retrieval
+ * @returns The review; unparseable responses count as distinct
+ */
+export async function reviewMemoryGroup(
+  memories: Array<{ summary: string; content: string; createdAt: string }>,
+  selection: CheapLLMSelection,
+  userId: string
+): Promise<CheapLLMTaskResult<MemoryGroupReview>> {
+  const memoriesText = memories
+    .map((m, i) => `Memory ${i + 1} (${m.createdAt.slice(0, 10)}): ${m.summary}\n${m.content}`)
+    .join('\n\n')
+
+  const messages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: MEMORY_GROUP_REVIEW_PROMPT,
+    },
+    {
+      role: 'user',
+      content: memoriesText,
+    },
+  ]
+
+  return executeCheapLLMTask(
+    selection,
+    messages,
+    userId,
+    (content: string): MemoryGroupReview => {
+      try {
+        let cleanContent = content.trim()
+        if (cleanContent.startsWith('```json')) {
+          cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '')
+        } else if (cleanContent.startsWith('```')) {
+          cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
+        }
+
+        const parsed = JSON.parse(cleanContent)
+        const verdict = parsed.verdict === 'merge' || parsed.verdict === 'conflict' ? parsed.verdict : 'distinct'
+        if (verdict !== 'distinct' && (typeof parsed.content !== 'string' || typeof parsed.summary !== 'string')) {
+          return { verdict: 'distinct', reason: 'No replacement memory was proposed' }
+        }
+        return {
+          verdict,
+          reason: typeof parsed.reason === 'string' ? parsed.reason : '',
+          content: parsed.content,
+          summary: parsed.summary,
+          keywords: Array.isArray(parsed.keywords) ? parsed.keywords.filter((k: unknown) => typeof k === 'string') : [],
+        }
+      } catch {
+        return { verdict: 'distinct', reason: 'Review response could not be parsed' }
+      }
+    }
+  )
+}
+
 /**
  * Image prompt crafting prompt template
  */
@@ -980,3 +1197,59 @@ Create the final image prompt (maximize detail while staying under the limit):`,
     }
   )
 }
+
+/**
+ * Next speaker selection prompt template for group chats
+ */
+const NEXT_SPEAKER_PROMPT = `You are directing a group roleplay conversation.
+Given the list of characters and the most recent messages, decide which character would most naturally speak next.
+Consider who was addressed, who has something to add, and avoid letting one character dominate.
+
+Respond with only the character's name exactly as listed, no quotes or additional text.`
+
+/**
+ * Chooses which character should speak next in a group chat
+ *
+ * @param candidateNames - Names of the characters that may speak
+ * @param recentMessages - Recent chat messages, with speaker names already prefixed
+ * @param selection - The cheap LLM provider selection
+ * @param userId - The user ID for API key retrieval
+ * @returns The chosen character name, or null if the response matched no candidate
+ */
+export async function chooseNextSpeaker(
+  candidateNames: string[],
+  recentMessages: ChatMessage[],
+  selection: CheapLLMSelection,
+  userId: string
+): Promise<CheapLLMTaskResult<string | null>> {
+  const conversationText = recentMessages
+    .slice(-10)
+    .map(m => `${m.role.toUpperCase()}: ${m.content.substring(0, 500)}`)
+    .join('\n\n')
+
+  const llmMessages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: NEXT_SPEAKER_PROMPT,
+    },
+    {
+      role: 'user',
+      content: `Characters: ${candidateNames.join(', ')}\n\nRecent Messages:\n${conversationText}`,
+    },
+  ]
+
+  return executeCheapLLMTask(
+    selection,
+    llmMessages,
+    userId,
+    (content: string): string | null => {
+      const answer = content.trim().replace(/^["']|["']$/g, '').toLowerCase()
+      const exact = candidateNames.find(name => name.toLowerCase() === answer)
+      if (exact) {
+        return exact
+      }
+      // Fall back to the first candidate mentioned anywhere in the response
+      return candidateNames.find(name => answer.includes(name.toLowerCase())) || null
+    }
+  )
+}
@@ -0,0 +1,286 @@
+/**
+ * Memory Consolidation Review
+ *
+ * Auto-extraction skips exact duplicates, but near-duplicates and
+ * contradictions ("likes tea", later "hates tea") still pile up. The
+ * consolidation pass groups similar memories, asks the cheap LLM whether each
+ * group should be merged or contains a contradiction, and queues the answer
+ * as a proposal. Nothing changes until the user accepts a proposal in the
+ * memory review queue; the merged memory then records the provenance of the
+ * memories it replaces.
+ */
+
+import { getRepositories } from '@/lib/repositories/factory'
+import { Memory, MemoryProposal, MemoryProvenance } from '@/lib/schemas/types'
+import { cosineSimilarity } from '@/lib/embedding/embedding-service'
+import { CheapLLMSelection } from '@/lib/llm/cheap-llm'
+import { logger } from '@/lib/logger'
+import { reviewMemoryGroup } from './cheap-llm-tasks'
+import { jaccard, tokenize } from './hybrid-retrieval'
+import { createMemoryWithEmbedding, deleteMemoryWithVector, MemoryServiceOptions } from './memory-service'
+import { memoryScopeKey } from './memory-visibility'
+
+/** Embedding similarity at which two memories are reviewed together */
+export const CONSOLIDATION_SIMILARITY_THRESHOLD = 0.75
+
+/** Term overlap at which two memories without embeddings are reviewed together */
+const LEXICAL_SIMILARITY_THRESHOLD = 0.5
+
+/** Most memories sent to the cheap LLM in one group */
+const MAX_REVIEW_GROUP = 6
+
+/**
+ * Options for a consolidation pass
+ */
+export interface ConsolidationPassOptions {
+  /** User ID for API key retrieval */
+  userId: string
+  /** Cheap LLM that reviews each group */
+  selection: CheapLLMSelection
+  /** Only review groups containing one of these memories (default: all) */
+  memoryIds?: string[]
+  /** Embedding similarity threshold (default: CONSOLIDATION_SIMILARITY_THRESHOLD) */
+  threshold?: number
+}
+
+/**
+ * Result of a consolidation pass
+ */
+export interface ConsolidationPassResult {
+  /** Groups sent to the cheap LLM */
+  groupsReviewed: number
+  /** Proposals added to the review queue */
+  proposals: MemoryProposal[]
+}
+
+/**
+ * Edits a reviewer can make to a proposal before accepting it
+ */
+export interface MemoryProposalEdits {
+  content?: string
+  summary?: string
+  keywords?: string[]
+  importance?: number
+}
+
+/**
+ * Groups memories that are similar enough to review together
+ *
+ * Similarity is embedding cosine when both memories have comparable
+ * embeddings and term overlap otherwise. Memories with different visibility
+ * scopes are never similar, so a merge can't change where content is
+ * recalled. Groups are connected components of the similarity graph, oldest
+ * first, split to at most MAX_REVIEW_GROUP. With focusIds only groups
+ * containing one of those memories are returned, and only their similarities
+ * are computed.
+ */
+export function groupSimilarMemories(
+  memories: Memory[],
+  threshold: number = CONSOLIDATION_SIMILARITY_THRESHOLD,
+  focusIds?: string[]
+): Memory[][] {
+  const tokens = new Map(memories.map(m => [m.id, new Set(tokenize(`${m.summary} ${m.content}`))]))
+  const parent = new Map(memories.map(m => [m.id, m.id]))
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!
+    }
+    parent.set(id, root)
+    return root
+  }
+
+  const similar = (a: Memory, b: Memory) => {
+    if (memoryScopeKey(a) !== memoryScopeKey(b)) {
+      return false
+    }
+    if (a.embedding?.length && b.embedding?.length === a.embedding.length) {
+      return cosineSimilarity(a.embedding, b.embedding) >= threshold
+    }
+    return jaccard(tokens.get(a.id)!, tokens.get(b.id)!) >= LEXICAL_SIMILARITY_THRESHOLD
+  }
+
+  const focus = focusIds ? new Set(focusIds) : null
+  for (let i = 0; i < memories.length; i++) {
+    for (let j = i + 1; j < memories.length; j++) {
+      if (focus && !focus.has(memories[i].id) && !focus.has(memories[j].id)) {
+        continue
+      }
+      if (similar(memories[i], memories[j])) {
+        parent.set(find(memories[i].id), find(memories[j].id))
+      }
+    }
+  }
+
+  const components = new Map<string, Memory[]>()
+  for (const memory of memories) {
+    const root = find(memory.id)
+    components.set(root, [...(components.get(root) ?? []), memory])
+  }
+
+  const groups: Memory[][] = []
+  for (const component of components.values()) {
+    if (component.length < 2 || (focus && !component.some(m => focus.has(m.id)))) {
+      continue
+    }
+    const sorted = component.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    for (let i = 0; i < sorted.length; i += MAX_REVIEW_GROUP) {
+      const group = sorted.slice(i, i + MAX_REVIEW_GROUP)
+      if (group.length >= 2) {
+        groups.push(group)
+      }
+    }
+  }
+  return groups
+}
+
+/**
+ * Groups similar memories and queues the cheap LLM's merge and conflict
+ * proposals for review
+ *
+ * Memories already in a pending proposal are skipped, as are groups the user
+ * has already rejected.
+ */
+export async function runConsolidationPass(
+  characterId: string,
+  options: ConsolidationPassOptions
+): Promise<ConsolidationPassResult> {
+  const repos = getRepositories()
+  const [memories, existing] = await Promise.all([
+    repos.memories.findByCharacterId(characterId),
+    repos.memoryProposals.findByCharacterId(characterId),
+  ])
+
+  const pendingIds = new Set(existing.filter(p => p.status === 'PENDING').flatMap(p => p.memoryIds))
+  const rejected = existing.filter(p => p.status === 'REJECTED').map(p => new Set(p.memoryIds))
+  const candidates = memories.filter(m => !pendingIds.has(m.id))
+
+  const groups = groupSimilarMemories(candidates, options.threshold, options.memoryIds)
+    .filter(group => !rejected.some(ids => group.every(m => ids.has(m.id))))
+
+  const result: ConsolidationPassResult = { groupsReviewed: 0, proposals: [] }
+  for (const group of groups) {
+    const review = await reviewMemoryGroup(
+      group.map(m => ({ summary: m.summary, content: m.content, createdAt: m.createdAt })),
+      options.selection,
+      options.userId
+    )
+    result.groupsReviewed++
+
+    if (!review.success || !review.result) {
+      logger.warn(`[Consolidation] Group review failed`, { characterId, count: group.length, error: review.error })
+      continue
+    }
+    if (review.result.verdict === 'distinct') {
+      continue
+    }
+
+    const proposal = await repos.memoryProposals.create({
+      characterId,
+      type: review.result.verdict === 'merge' ? 'MERGE' : 'CONFLICT',
+      status: 'PENDING',
+      memoryIds: group.map(m => m.id),
+      reason: review.result.reason,
+      content: review.result.content!,
+      summary: review.result.summary!,
+      keywords: review.result.keywords?.length
+        ? review.result.keywords
+        : Array.from(new Set(group.flatMap(m => m.keywords))),
+      importance: Math.max(...group.map(m => m.importance)),
+    })
+    result.proposals.push(proposal)
+  }
+
+  logger.info(`[Consolidation] Pass complete`, { characterId, groupsReviewed: result.groupsReviewed, proposals: result.proposals.length })
+  return result
+}
+
+/**
+ * Runs a consolidation pass without waiting for it (fire-and-forget)
+ */
+export function runConsolidationPassAsync(characterId: string, options: ConsolidationPassOptions): void {
+  runConsolidationPass(characterId, options).catch(error => {
+    logger.error('[Consolidation] Background pass failed', { characterId, userId: options.userId }, error instanceof Error ? error : undefined)
+  })
+}
+
+/**
+ * Provenance of the memories a proposal replaces, flattened through
+ * earlier consolidations
+ */
+function provenanceOf(memories: Memory[]): MemoryProvenance[] {
+  return memories.flatMap(memory => memory.consolidatedFrom?.length
+    ? memory.consolidatedFrom
+    : [{
+      memoryId: memory.id,
+      chatId: memory.chatId ?? null,
+      sourceMessageId: memory.sourceMessageId ?? null,
+      summary: memory.summary,
+      createdAt: memory.createdAt,
+    }])
+}
+
+/**
+ * Accepts a proposal: creates the replacement memory and removes the
+ * memories it replaces
+ *
+ * Returns null when none of the proposal's memories exist any more.
+ */
+export async function acceptMemoryProposal(
+  proposal: MemoryProposal,
+  edits: MemoryProposalEdits,
+  options: MemoryServiceOptions
+): Promise<{ proposal: MemoryProposal; memory: Memory } | null> {
+  const repos = getRepositories()
+  const memories = (await Promise.all(
+    proposal.memoryIds.map(id => repos.memories.findByIdForCharacter(proposal.characterId, id))
+  )).filter((m): m is Memory => m !== null)
+
+  if (memories.length === 0) {
+    return null
+  }
+
+  const shared = <K extends 'chatId' | 'personaId'>(key: K) =>
+    memories.every(m => m[key] === memories[0][key]) ? memories[0][key] ?? null : null
+
+  const memory = await createMemoryWithEmbedding(
+    {
+      characterId: proposal.characterId,
+      content: edits.content ?? proposal.content,
+      summary: edits.summary ?? proposal.summary,
+      keywords: edits.keywords ?? proposal.keywords,
+      tags: Array.from(new Set(memories.flatMap(m => m.tags))),
+      importance: edits.importance ?? proposal.importance,
+      personaId: shared('personaId'),
+      chatId: shared('chatId'),
+      source: memories.every(m => m.source === 'MANUAL') ? 'MANUAL' : 'AUTO',
+      consolidatedFrom: provenanceOf(memories),
+      visibility: memories[0].visibility,
+    },
+    options
+  )
+
+  for (const replaced of memories) {
+    await deleteMemoryWithVector(proposal.characterId, replaced.id)
+  }
+
+  const updated = await repos.memoryProposals.update(proposal.id, {
+    ...edits,
+    status: 'ACCEPTED',
+    resultMemoryId: memory.id,
+    resolvedAt: new Date().toISOString(),
+  })
+
+  return { proposal: updated ?? proposal, memory }
+}
+
+/**
+ * Rejects a proposal; the same group won't be proposed again
+ */
+export async function rejectMemoryProposal(proposal: MemoryProposal): Promise<MemoryProposal | null> {
+  const repos = getRepositories()
+  return repos.memoryProposals.update(proposal.id, {
+    status: 'REJECTED',
+    resolvedAt: new Date().toISOString(),
+  })
+}
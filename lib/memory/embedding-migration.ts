@@ -0,0 +1,431 @@
+/**
+ * Embedding Model Migration
+ *
+ * Vectors from different embedding models can't be compared, so when the
+ * profile memories are embedded with changes, a character's index has to be
+ * rebuilt with the new model. Rather than clearing it and embedding
+ * everything up front, a migration job embeds the memories into a shadow
+ * generation of the index while the old generation keeps answering searches
+ * (queries are embedded with the old model until then). Once every memory is
+ * in the shadow, it is activated in one header write and the old generation
+ * is dropped.
+ *
+ * Progress is stored on the job and the shadow is saved after each batch, so
+ * a failed or interrupted job picks up where it stopped.
+ */
+
+import { getRepositories } from '@/lib/repositories/factory'
+import { EmbeddingMigration, EmbeddingProfile, Memory } from '@/lib/schemas/types'
+import {
+  generateEmbeddingsBatch,
+  getEffectiveEmbeddingProfile,
+  getEmbeddingProfile,
+  getUserEmbeddingProfiles,
+} from '@/lib/embedding/embedding-service'
+import {
+  CharacterVectorStore,
+  getCharacterVectorStore,
+  getVectorStoreManager,
+  type ICharacterVectorStore,
+  type VectorIndexModel,
+} from '@/lib/embedding/vector-store'
+import { getMongoVectorIndicesRepository } from '@/lib/mongodb/repositories/vector-indices.repository'
+import { logger } from '@/lib/logger'
+import { createBackgroundJobRunner } from '@/lib/background-jobs'
+
+/** Memories sent to the embedding provider per request */
+export const REEMBED_BATCH_SIZE = 16
+
+/** Rounds spent embedding memories created while the job was running */
+const MAX_CATCH_UP_ROUNDS = 3
+
+const jobs = createBackgroundJobRunner({
+  name: '[EmbeddingMigration]',
+  run: migrationId => runEmbeddingMigration(migrationId),
+  getStatus: async migrationId => (await getRepositories().embeddingMigrations.findById(migrationId))?.status,
+})
+
+/**
+ * The model and vector size a character's index was built with
+ */
+export interface EmbeddingIndexInfo {
+  model: VectorIndexModel | null
+  /** Null when the index is empty */
+  dimensions: number | null
+  size: number
+}
+
+/**
+ * Where a character's index stands relative to the current embedding profile
+ */
+export interface EmbeddingIndexStatus {
+  index: EmbeddingIndexInfo
+  profile: Pick<EmbeddingProfile, 'id' | 'name' | 'provider' | 'modelName' | 'dimensions'> | null
+  needsMigration: boolean
+  /** Most recent migration job, if any */
+  migration: EmbeddingMigration | null
+}
+
+/**
+ * The model a profile embeds with
+ */
+export function embeddingModelOf(profile: Pick<EmbeddingProfile, 'provider' | 'modelName'>): VectorIndexModel {
+  return { provider: profile.provider, modelName: profile.modelName }
+}
+
+export function sameEmbeddingModel(
+  a: Pick<VectorIndexModel, 'provider' | 'modelName'>,
+  b: Pick<VectorIndexModel, 'provider' | 'modelName'>
+): boolean {
+  return a.provider === b.provider && a.modelName === b.modelName
+}
+
+/**
+ * Whether an index has to be re-embedded to be searched with a profile
+ *
+ * Indices built before models were recorded are judged by vector size alone.
+ */
+export function indexNeedsMigration(
+  index: Pick<EmbeddingIndexInfo, 'model' | 'dimensions'>,
+  profile: EmbeddingProfile
+): boolean {
+  if (!index.dimensions) {
+    return false
+  }
+  if (profile.dimensions && profile.dimensions !== index.dimensions) {
+    return true
+  }
+  return !!index.model && !sameEmbeddingModel(index.model, profile)
+}
+
+function describeIndex(store: ICharacterVectorStore): EmbeddingIndexInfo {
+  return {
+    model: store.getModel(),
+    dimensions: store.size > 0 ? store.getDimensions() : null,
+    size: store.size,
+  }
+}
+
+/**
+ * Profile to embed search queries with for a character's live index
+ *
+ * While a migration is pending the live index still holds the old model's
+ * vectors, so queries are embedded with a profile using that model. Falls back
+ * to the requested profile when none matches (or the index model is unknown).
+ */
+export async function resolveQueryProfileId(
+  store: ICharacterVectorStore,
+  userId: string,
+  requestedProfileId?: string
+): Promise<string | undefined> {
+  const model = store.getModel()
+  if (!model || store.size === 0) {
+    return requestedProfileId
+  }
+
+  const profiles = await getUserEmbeddingProfiles(userId)
+  const requested = requestedProfileId
+    ? profiles.find(p => p.id === requestedProfileId)
+    : profiles.find(p => p.isDefault)
+  if (requested && sameEmbeddingModel(model, requested)) {
+    return requestedProfileId
+  }
+
+  return profiles.find(p => sameEmbeddingModel(model, p))?.id ?? requestedProfileId
+}
+
+/**
+ * Get a character's index model, the current profile and the latest job
+ *
+ * A job left RUNNING by an earlier process is resumed here.
+ */
+export async function getEmbeddingIndexStatus(characterId: string, userId: string): Promise<EmbeddingIndexStatus> {
+  const repos = getRepositories()
+  const [store, profile, migration] = await Promise.all([
+    getCharacterVectorStore(characterId),
+    getEffectiveEmbeddingProfile(userId),
+    repos.embeddingMigrations.findLatestByCharacterId(characterId),
+  ])
+
+  if (migration?.status === 'RUNNING' && !jobs.isRunning(migration.id)) {
+    logger.info('[EmbeddingMigration] Resuming interrupted job', { characterId, migrationId: migration.id })
+    jobs.launch(migration.id, { characterId: migration.characterId })
+  }
+
+  const index = describeIndex(store)
+  return {
+    index,
+    profile: profile
+      ? { id: profile.id, name: profile.name, provider: profile.provider, modelName: profile.modelName, dimensions: profile.dimensions }
+      : null,
+    needsMigration: !!profile && indexNeedsMigration(index, profile),
+    migration,
+  }
+}
+
+/**
+ * Start re-embedding a character's memories with a profile, or resume the
+ * unfinished job already heading there
+ *
+ * Returns once the job is recorded; the embedding runs in the background.
+ * Returns null when the user has no embedding profile.
+ */
+export async function startEmbeddingMigration(
+  characterId: string,
+  userId: string,
+  profile?: EmbeddingProfile | null
+): Promise<EmbeddingMigration | null> {
+  const repos = getRepositories()
+  const target = profile ?? await getEffectiveEmbeddingProfile(userId)
+  if (!target) {
+    return null
+  }
+
+  const unfinished = await repos.embeddingMigrations.findLatestByCharacterId(characterId, ['RUNNING', 'FAILED'])
+  if (unfinished && unfinished.embeddingProfileId === target.id && sameEmbeddingModel(unfinished.toModel, target)) {
+    if (!jobs.isRunning(unfinished.id)) {
+      jobs.launch(unfinished.id, { characterId: unfinished.characterId })
+    }
+    return unfinished
+  }
+  if (unfinished) {
+    await cancelMigration(unfinished)
+  }
+
+  const store = await getCharacterVectorStore(characterId)
+  const latest = await repos.embeddingMigrations.findLatestByCharacterId(characterId)
+  const memories = await repos.memories.findByCharacterId(characterId)
+
+  const migration = await repos.embeddingMigrations.create({
+    userId,
+    characterId,
+    status: 'RUNNING',
+    embeddingProfileId: target.id,
+    toModel: embeddingModelOf(target),
+    fromModel: store.getModel(),
+    // Never reuse a generation an older job may still be cleaning up
+    generation: Math.max(store.getGeneration(), latest?.generation ?? 0) + 1,
+    total: memories.length,
+    processed: 0,
+    error: null,
+    completedAt: null,
+  })
+
+  logger.info('[EmbeddingMigration] Started', {
+    characterId,
+    migrationId: migration.id,
+    from: migration.fromModel,
+    to: migration.toModel,
+    generation: migration.generation,
+  })
+  jobs.launch(migration.id, { characterId: migration.characterId })
+  return migration
+}
+
+/**
+ * Cancel a character's unfinished migration and drop its shadow index
+ */
+export async function cancelEmbeddingMigration(characterId: string): Promise<EmbeddingMigration | null> {
+  const repos = getRepositories()
+  const unfinished = await repos.embeddingMigrations.findLatestByCharacterId(characterId, ['RUNNING', 'FAILED'])
+  return unfinished ? cancelMigration(unfinished) : null
+}
+
+async function cancelMigration(migration: EmbeddingMigration): Promise<EmbeddingMigration | null> {
+  const repos = getRepositories()
+  const cancelled = await repos.embeddingMigrations.update(migration.id, { status: 'CANCELLED' })
+
+  // A running job notices between batches and cleans up after itself
+  if (!jobs.isRunning(migration.id)) {
+    await getMongoVectorIndicesRepository().deleteGeneration(migration.characterId, migration.generation)
+  }
+
+  logger.info('[EmbeddingMigration] Cancelled', { characterId: migration.characterId, migrationId: migration.id })
+  return cancelled
+}
+
+/**
+ * Embeds every memory missing from a store, a batch at a time
+ * Returns false if the job was cancelled part way.
+ */
+async function embedMissing(
+  store: ICharacterVectorStore,
+  memories: Memory[],
+  migration: EmbeddingMigration,
+  profile: EmbeddingProfile
+): Promise<boolean> {
+  const repos = getRepositories()
+  const pending = memories.filter(m => !store.hasVector(m.id))
+
+  for (let i = 0; i < pending.length; i += REEMBED_BATCH_SIZE) {
+    if (await jobs.isCancelled(migration.id)) {
+      return false
+    }
+
+    const batch = pending.slice(i, i + REEMBED_BATCH_SIZE)
+    const results = await generateEmbeddingsBatch(
+      batch.map(m => `${m.summary}\n\n${m.content}`),
+      profile,
+      migration.userId
+    )
+    for (let j = 0; j < batch.length; j++) {
+      await store.addVector(batch[j].id, results[j].embedding, {
+        memoryId: batch[j].id,
+        characterId: migration.characterId,
+        content: batch[j].summary,
+      })
+    }
+    await store.save()
+
+    await repos.embeddingMigrations.update(migration.id, {
+      processed: memories.filter(m => store.hasVector(m.id)).length,
+      total: memories.length,
+    })
+  }
+  return true
+}
+
+/**
+ * Run a migration job to completion
+ *
+ * Safe to call again after a failure or restart: memories already in the
+ * shadow index are skipped. Failures are recorded on the job, not thrown.
+ */
+export async function runEmbeddingMigration(migrationId: string): Promise<EmbeddingMigration | null> {
+  const repos = getRepositories()
+  const existing = await repos.embeddingMigrations.findById(migrationId)
+  if (!existing || existing.status === 'COMPLETED' || existing.status === 'CANCELLED') {
+    return existing
+  }
+
+  const { characterId } = existing
+  const profile = await getEmbeddingProfile(existing.embeddingProfileId)
+  if (!profile) {
+    return repos.embeddingMigrations.update(migrationId, {
+      status: 'FAILED',
+      error: 'The embedding profile for this migration no longer exists',
+    })
+  }
+
+  const migration = (await repos.embeddingMigrations.update(migrationId, { status: 'RUNNING', error: null }))!
+  const shadow = new CharacterVectorStore(characterId, { shadowGeneration: migration.generation })
+  await shadow.load()
+
+  try {
+    // Memories keep arriving while the job runs; go round until none are left
+    let memories = await repos.memories.findByCharacterId(characterId)
+    for (let round = 0; round < MAX_CATCH_UP_ROUNDS; round++) {
+      if (!await embedMissing(shadow, memories, migration, profile)) {
+        await getMongoVectorIndicesRepository().deleteGeneration(characterId, migration.generation)
+        logger.info('[EmbeddingMigration] Stopped after cancellation', { characterId, migrationId })
+        return repos.embeddingMigrations.findById(migrationId)
+      }
+      memories = await repos.memories.findByCharacterId(characterId)
+      if (memories.every(m => shadow.hasVector(m.id))) {
+        break
+      }
+    }
+
+    // Drop vectors of memories deleted while the job ran
+    const ids = new Set(memories.map(m => m.id))
+    for (const entry of shadow.getAllEntries()) {
+      if (!ids.has(entry.id)) {
+        await shadow.removeVector(entry.id)
+      }
+    }
+
+    if (await jobs.isCancelled(migrationId)) {
+      await getMongoVectorIndicesRepository().deleteGeneration(characterId, migration.generation)
+      return repos.embeddingMigrations.findById(migrationId)
+    }
+
+    await shadow.activate(migration.toModel)
+    getVectorStoreManager().replaceStore(characterId, shadow)
+
+    // Keep each memory's own copy of its vector in step with the index
+    const vectors = new Map(shadow.getAllEntries().map(entry => [entry.id, entry.embedding]))
+    for (const memory of memories) {
+      const embedding = vectors.get(memory.id)
+      if (embedding) {
+        await repos.memories.updateForCharacter(characterId, memory.id, { embedding })
+      }
+    }
+
+    // Pick up anything that slipped in around the swap
+    await embedMissing(shadow, await repos.memories.findByCharacterId(characterId), migration, profile)
+
+    logger.info('[EmbeddingMigration] Completed', { characterId, migrationId, vectors: shadow.size })
+    return repos.embeddingMigrations.update(migrationId, {
+      status: 'COMPLETED',
+      processed: shadow.size,
+      total: shadow.size,
+      completedAt: new Date().toISOString(),
+    })
+  } catch (error) {
+    logger.warn('[EmbeddingMigration] Job failed, can be resumed', { characterId, migrationId, error: String(error) })
+    return repos.embeddingMigrations.update(migrationId, {
+      status: 'FAILED',
+      processed: shadow.size,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Start migrations for every character whose index no longer matches the
+ * user's embedding profile
+ *
+ * Called after the embedding profile in use may have changed. `previous` is
+ * the profile in use before the change; indices written before models were
+ * recorded are assumed to have been built with it.
+ */
+export async function scheduleEmbeddingMigrations(
+  userId: string,
+  previous: EmbeddingProfile | null
+): Promise<EmbeddingMigration[]> {
+  const repos = getRepositories()
+  const profile = await getEffectiveEmbeddingProfile(userId)
+  if (!profile) {
+    return []
+  }
+  if (previous && sameEmbeddingModel(previous, profile) && previous.dimensions === profile.dimensions) {
+    return []
+  }
+
+  const indices = getMongoVectorIndicesRepository()
+  const characters = await repos.characters.findByUserId(userId)
+  const started: EmbeddingMigration[] = []
+
+  for (const character of characters) {
+    const header = await indices.findByCharacterId(character.id)
+    if (!header?.dimensions) {
+      continue
+    }
+
+    let index: Pick<EmbeddingIndexInfo, 'model' | 'dimensions'> = { model: header.model ?? null, dimensions: header.dimensions }
+    if (!index.model && previous) {
+      const store = await getCharacterVectorStore(character.id)
+      store.setModel(embeddingModelOf(previous))
+      await store.save()
+      index = describeIndex(store)
+    }
+
+    if (indexNeedsMigration(index, profile)) {
+      const migration = await startEmbeddingMigration(character.id, userId, profile)
+      if (migration) {
+        started.push(migration)
+      }
+    }
+  }
+
+  return started
+}
+
+/**
+ * Schedules migrations without waiting for them (fire-and-forget)
+ */
+export function scheduleEmbeddingMigrationsAsync(userId: string, previous: EmbeddingProfile | null): void {
+  scheduleEmbeddingMigrations(userId, previous).catch(error => {
+    logger.error('[EmbeddingMigration] Scheduling failed', { userId }, error instanceof Error ? error : undefined)
+  })
+}
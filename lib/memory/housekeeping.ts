@@ -3,18 +3,27 @@
  * Sprint 6: Automatic cleanup and maintenance of character memories
  *
  * Implements retention policies based on:
- * - Importance scoring (0-1)
+ * - Importance scoring (0-1), decayed since the last reinforcement
  * - Age of memory (months since creation)
  * - Access time (months since last accessed)
  * - Memory count limits per character
+ *
+ * Memories that have faded below the retention policy are consolidated into
+ * summary memories (one per chat) rather than deleted outright.
  */
 
 import { getRepositories } from '@/lib/repositories/factory'
-import { Memory } from '@/lib/schemas/types'
+import { Memory, MemoryProvenance } from '@/lib/schemas/types'
 import { getCharacterVectorStore } from '@/lib/embedding/vector-store'
-import { findSimilarMemories } from './memory-service'
+import { CheapLLMSelection } from '@/lib/llm/cheap-llm'
+import { createMemoryWithEmbedding, findSimilarMemories, MemoryVetoedError } from './memory-service'
+import { consolidateMemories } from './cheap-llm-tasks'
+import { decayMemory } from './memory-decay'
 import { logger } from '@/lib/logger'
 
+/** Faded memories folded into one consolidated memory at most */
+const MAX_CONSOLIDATION_GROUP = 20
+
 /**
  * Housekeeping options for memory cleanup
  */
@@ -31,14 +40,20 @@ export interface HousekeepingOptions {
   mergeSimilar?: boolean
   /** Similarity threshold for merging (default: 0.9) */
   mergeThreshold?: number
+  /** Consolidate faded memories into summaries instead of deleting them (default: true) */
+  consolidateFaded?: boolean
   /** Preview changes without applying (default: false) */
   dryRun?: boolean
   /** User ID for embedding operations (required for merge) */
   userId?: string
   /** Embedding profile ID */
   embeddingProfileId?: string
+  /** Cheap LLM for writing consolidated memories; summaries are joined without one */
+  cheapLLMSelection?: CheapLLMSelection
 }
 
+type ResolvedHousekeepingOptions = Required<Omit<HousekeepingOptions, 'userId' | 'embeddingProfileId' | 'cheapLLMSelection'>>
+
 /**
  * Result of a housekeeping operation
  */
@@ -47,6 +62,10 @@ export interface HousekeepingResult {
   deleted: number
   /** Number of memories merged */
   merged: number
+  /** Number of faded memories folded into consolidated memories */
+  consolidated: number
+  /** Number of memories whose decayed importance was written back */
+  decayed: number
   /** Number of memories kept */
   kept: number
   /** Total memories before cleanup */
@@ -57,6 +76,10 @@ export interface HousekeepingResult {
   deletedIds: string[]
   /** IDs of merged memories (source memories that were merged into others) */
   mergedIds: string[]
+  /** IDs of faded memories that were consolidated */
+  consolidatedIds: string[]
+  /** IDs of the consolidated memories created */
+  createdIds: string[]
   /** Reasons for each deletion/merge */
   details: HousekeepingDetail[]
 }
@@ -66,7 +89,7 @@ export interface HousekeepingResult {
  */
 export interface HousekeepingDetail {
   memoryId: string
-  action: 'deleted' | 'merged' | 'kept'
+  action: 'deleted' | 'merged' | 'consolidated' | 'kept'
   reason: string
   summary?: string
 }
@@ -74,13 +97,14 @@ export interface HousekeepingDetail {
 /**
  * Default housekeeping options based on PLAN.md retention policy
  */
-const DEFAULT_OPTIONS: Required<Omit<HousekeepingOptions, 'userId' | 'embeddingProfileId'>> = {
+const DEFAULT_OPTIONS: ResolvedHousekeepingOptions = {
   maxMemories: 1000,
   maxAgeMonths: 6,
   maxInactiveMonths: 6,
   minImportance: 0.3,
   mergeSimilar: false,
   mergeThreshold: 0.9,
+  consolidateFaded: true,
   dryRun: false,
 }
 
@@ -121,7 +145,7 @@ function isProtectedMemory(memory: Memory, now: Date): boolean {
 function shouldDeleteMemory(
   memory: Memory,
   now: Date,
-  options: Required<Omit<HousekeepingOptions, 'userId' | 'embeddingProfileId'>>
+  options: ResolvedHousekeepingOptions
 ): { shouldDelete: boolean; reason: string } {
   // Never delete protected memories
   if (isProtectedMemory(memory, now)) {
@@ -158,11 +182,107 @@ function shouldDeleteMemory(
   return { shouldDelete: false, reason: 'within retention policy' }
 }
 
+/**
+ * Groups faded memories that will be consolidated together
+ * Memories are grouped by chat, persona and visibility, oldest first. A lone memory that
+ * is already a consolidation is left alone, since consolidating it again
+ * would only rewrite it.
+ */
+function groupFadedMemories(faded: Memory[]): Memory[][] {
+  const byChat = new Map<string, Memory[]>()
+  const sorted = [...faded].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  for (const memory of sorted) {
+    const key = `${memory.chatId ?? ''}:${memory.personaId ?? ''}:${memory.visibility ?? 'GLOBAL'}`
+    const group = byChat.get(key) ?? []
+    group.push(memory)
+    byChat.set(key, group)
+  }
+
+  const groups: Memory[][] = []
+  for (const memories of byChat.values()) {
+    for (let i = 0; i < memories.length; i += MAX_CONSOLIDATION_GROUP) {
+      const group = memories.slice(i, i + MAX_CONSOLIDATION_GROUP)
+      if (group.length === 1 && group[0].consolidatedFrom?.length) {
+        continue
+      }
+      groups.push(group)
+    }
+  }
+  return groups
+}
+
+/**
+ * Provenance of a group, flattened through earlier consolidations
+ */
+function groupProvenance(group: Memory[]): MemoryProvenance[] {
+  return group.flatMap(memory => memory.consolidatedFrom?.length
+    ? memory.consolidatedFrom
+    : [{
+      memoryId: memory.id,
+      chatId: memory.chatId ?? null,
+      sourceMessageId: memory.sourceMessageId ?? null,
+      summary: memory.summary,
+      createdAt: memory.createdAt,
+    }])
+}
+
+/**
+ * Writes one consolidated memory for a group of faded memories
+ * Uses the cheap LLM when one is available, otherwise joins the summaries.
+ */
+async function consolidateGroup(
+  characterId: string,
+  group: Memory[],
+  options: HousekeepingOptions & { userId: string }
+): Promise<Memory> {
+  let content = group.map(memory => `- ${memory.summary}`).join('\n')
+  let summary = group.length === 1
+    ? group[0].summary
+    : `${group[0].summary} (and ${group.length - 1} related ${group.length === 2 ? 'memory' : 'memories'})`
+  let keywords = Array.from(new Set(group.flatMap(memory => memory.keywords)))
+
+  if (options.cheapLLMSelection) {
+    const condensed = await consolidateMemories(
+      group.map(memory => ({ summary: memory.summary, content: memory.content })),
+      options.cheapLLMSelection,
+      options.userId
+    )
+    if (condensed.success && condensed.result) {
+      content = condensed.result.content
+      summary = condensed.result.summary
+      keywords = condensed.result.keywords.length > 0 ? condensed.result.keywords : keywords
+    } else {
+      logger.warn(`[Housekeeping] Cheap LLM consolidation failed, joining summaries instead`, { characterId, error: condensed.error })
+    }
+  }
+
+  return createMemoryWithEmbedding(
+    {
+      characterId,
+      content,
+      summary,
+      keywords,
+      tags: Array.from(new Set(group.flatMap(memory => memory.tags))),
+      importance: Math.max(...group.map(memory => memory.importance)),
+      personaId: group[0].personaId ?? null,
+      chatId: group[0].chatId ?? null,
+      source: 'AUTO',
+      consolidatedFrom: groupProvenance(group),
+      visibility: group[0].visibility,
+    },
+    {
+      userId: options.userId,
+      embeddingProfileId: options.embeddingProfileId,
+    }
+  )
+}
+
 /**
  * Run housekeeping on a character's memories
  *
- * This function cleans up old, low-importance, and duplicate memories
- * based on the configured retention policy.
+ * This function applies importance decay, consolidates faded memories,
+ * merges duplicates and enforces the memory cap based on the configured
+ * retention policy.
  */
 export async function runHousekeeping(
   characterId: string,
@@ -178,24 +298,39 @@ export async function runHousekeeping(
   }
 
   // Get all memories for this character
-  const memories = await repos.memories.findByCharacterId(characterId)
-  const totalBefore = memories.length
+  const storedMemories = await repos.memories.findByCharacterId(characterId)
+  const totalBefore = storedMemories.length
 
   const result: HousekeepingResult = {
     deleted: 0,
     merged: 0,
+    consolidated: 0,
+    decayed: 0,
     kept: 0,
     totalBefore,
     totalAfter: totalBefore,
     deletedIds: [],
     mergedIds: [],
+    consolidatedIds: [],
+    createdIds: [],
     details: [],
   }
 
-  if (memories.length === 0) {
+  if (storedMemories.length === 0) {
     return result
   }
 
+  // Bring every memory's importance up to date before judging it
+  const decayUpdates = new Map<string, Partial<Memory>>()
+  const memories = storedMemories.map(memory => {
+    const update = decayMemory(memory, now.getTime())
+    if (!update) {
+      return memory
+    }
+    decayUpdates.set(memory.id, update)
+    return { ...memory, ...update }
+  })
+
   // Sort memories by importance (descending) then by creation date (ascending)
   // This ensures we keep the most important and newest memories
   const sortedMemories = [...memories].sort((a, b) => {
@@ -207,12 +342,15 @@ export async function runHousekeeping(
 
   const memoriesToDelete: string[] = []
   const memoriesToMerge: { sourceId: string; targetId: string }[] = []
+  const fadedMemories: Memory[] = []
 
-  // First pass: identify memories to delete based on retention policy
+  // First pass: identify faded memories based on retention policy
   for (const memory of sortedMemories) {
     const { shouldDelete, reason } = shouldDeleteMemory(memory, now, opts)
 
-    if (shouldDelete) {
+    if (shouldDelete && opts.consolidateFaded) {
+      fadedMemories.push(memory)
+    } else if (shouldDelete) {
       memoriesToDelete.push(memory.id)
       result.details.push({
         memoryId: memory.id,
@@ -230,9 +368,33 @@ export async function runHousekeeping(
     }
   }
 
+  const consolidationGroups = groupFadedMemories(fadedMemories)
+  const consolidatedIds = new Set(consolidationGroups.flat().map(m => m.id))
+  for (const memory of fadedMemories) {
+    const { reason } = shouldDeleteMemory(memory, now, opts)
+    if (consolidatedIds.has(memory.id)) {
+      const group = consolidationGroups.find(g => g.some(m => m.id === memory.id))!
+      result.details.push({
+        memoryId: memory.id,
+        action: 'consolidated',
+        reason: group.length > 1
+          ? `${reason}; consolidated with ${group.length - 1} other faded ${group.length === 2 ? 'memory' : 'memories'}`
+          : `${reason}; condensed to its summary`,
+        summary: memory.summary,
+      })
+    } else {
+      result.details.push({
+        memoryId: memory.id,
+        action: 'kept',
+        reason: 'already consolidated',
+        summary: memory.summary,
+      })
+    }
+  }
+
   // Second pass: check for duplicates/similar memories if merge is enabled
   if (opts.mergeSimilar && opts.userId) {
-    const remainingMemories = sortedMemories.filter(m => !memoriesToDelete.includes(m.id))
+    const remainingMemories = sortedMemories.filter(m => !memoriesToDelete.includes(m.id) && !consolidatedIds.has(m.id))
 
     for (let i = 0; i < remainingMemories.length; i++) {
       const memory = remainingMemories[i]
@@ -301,8 +463,8 @@ export async function runHousekeeping(
   }
 
   // Third pass: enforce hard cap if still over limit
-  const remainingAfterDeletion = memories.filter(m => !memoriesToDelete.includes(m.id))
-  if (remainingAfterDeletion.length > opts.maxMemories) {
+  const remainingAfterDeletion = memories.filter(m => !memoriesToDelete.includes(m.id) && !consolidatedIds.has(m.id))
+  if (remainingAfterDeletion.length + consolidationGroups.length > opts.maxMemories) {
     // Sort by score (importance * recency factor)
     const scoredMemories = remainingAfterDeletion.map(m => {
       const ageMonths = (now.getTime() - new Date(m.createdAt).getTime()) / (1000 * 60 * 60 * 24 * 30)
@@ -317,7 +479,7 @@ export async function runHousekeeping(
     scoredMemories.sort((a, b) => b.score - a.score)
 
     // Mark excess memories for deletion (keeping protected ones)
-    const excessCount = remainingAfterDeletion.length - opts.maxMemories
+    const excessCount = remainingAfterDeletion.length + consolidationGroups.length - opts.maxMemories
     let deletedForLimit = 0
 
     for (let i = scoredMemories.length - 1; i >= 0 && deletedForLimit < excessCount; i--) {
@@ -339,34 +501,70 @@ export async function runHousekeeping(
   }
 
   // Apply changes if not a dry run
-  if (!opts.dryRun && memoriesToDelete.length > 0) {
-    // Delete memories from repository
-    const deletedCount = await repos.memories.bulkDelete(characterId, memoriesToDelete)
-
-    // Remove from vector store
-    try {
-      const vectorStore = await getCharacterVectorStore(characterId)
-      for (const id of memoriesToDelete) {
-        await vectorStore.removeVector(id)
+  if (!opts.dryRun) {
+    // Write back decay for the memories that stay
+    for (const [id, update] of decayUpdates) {
+      if (memoriesToDelete.includes(id) || consolidatedIds.has(id)) continue
+      try {
+        await repos.memories.updateForCharacter(characterId, id, update)
+        result.decayed++
+      } catch (error) {
+        logger.warn(`[Housekeeping] Failed to write decayed importance for memory ${id}`, { characterId, memoryId: id, error: String(error) })
       }
-      await vectorStore.save()
-    } catch (error) {
-      logger.warn(`[Housekeeping] Failed to clean up vector store`, { characterId, error: String(error) })
     }
 
-    result.deleted = deletedCount
+    // Consolidate each group; its memories are only removed once the summary exists
+    const removedIds = [...memoriesToDelete]
+    for (const group of consolidationGroups) {
+      if (!opts.userId) {
+        break
+      }
+      try {
+        const created = await consolidateGroup(characterId, group, { ...opts, userId: opts.userId })
+        result.createdIds.push(created.id)
+        result.consolidatedIds.push(...group.map(m => m.id))
+        removedIds.push(...group.map(m => m.id))
+      } catch (error) {
+        const reason = error instanceof MemoryVetoedError ? error.message : String(error)
+        logger.warn(`[Housekeeping] Failed to consolidate faded memories`, { characterId, count: group.length, error: reason })
+      }
+    }
+
+    if (removedIds.length > 0) {
+      // Delete memories from repository
+      const deletedCount = await repos.memories.bulkDelete(characterId, removedIds)
+
+      // Remove from vector store
+      try {
+        const vectorStore = await getCharacterVectorStore(characterId)
+        for (const id of removedIds) {
+          await vectorStore.removeVector(id)
+        }
+        await vectorStore.save()
+      } catch (error) {
+        logger.warn(`[Housekeeping] Failed to clean up vector store`, { characterId, error: String(error) })
+      }
+
+      result.deleted = Math.max(0, deletedCount - result.consolidatedIds.length)
+    }
+
+    result.consolidated = result.consolidatedIds.length
     result.merged = memoriesToMerge.length
     result.deletedIds = memoriesToDelete
     result.mergedIds = memoriesToMerge.map(m => m.sourceId)
-  } else if (opts.dryRun) {
+  } else {
     result.deleted = memoriesToDelete.length
     result.merged = memoriesToMerge.length
+    result.consolidated = consolidatedIds.size
+    result.decayed = Array.from(decayUpdates.keys()).filter(id => !memoriesToDelete.includes(id) && !consolidatedIds.has(id)).length
     result.deletedIds = memoriesToDelete
     result.mergedIds = memoriesToMerge.map(m => m.sourceId)
+    result.consolidatedIds = Array.from(consolidatedIds)
   }
 
-  result.kept = totalBefore - memoriesToDelete.length
-  result.totalAfter = result.kept
+  const createdCount = opts.dryRun ? consolidationGroups.length : result.createdIds.length
+  result.kept = totalBefore - memoriesToDelete.length - result.consolidated
+  result.totalAfter = result.kept + createdCount
 
   return result
 }
@@ -404,7 +602,7 @@ export async function needsHousekeeping(
   // More thorough check: preview housekeeping
   if (count > 0) {
     const preview = await getHousekeepingPreview(characterId, options)
-    return preview.deleted > 0
+    return preview.deleted > 0 || preview.consolidated > 0
   }
 
   return false
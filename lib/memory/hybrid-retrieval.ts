@@ -0,0 +1,308 @@
+/**
+ * Hybrid Memory Retrieval
+ *
+ * Ranks a character's memories by combining two independent rankings:
+ * - Lexical: BM25 over memory content/summary, with keywords weighted higher
+ * - Semantic: cosine similarity from the character's vector store
+ *
+ * The rankings are merged with weighted reciprocal rank fusion (RRF), which
+ * only looks at rank positions and so needs no score calibration between the
+ * two. Optional recency and importance boosts are blended in, and maximal
+ * marginal relevance (MMR) reorders the result so near-duplicate memories
+ * don't crowd out everything else.
+ */
+
+import { cosineSimilarity } from '@/lib/embedding/embedding-service'
+import { getEffectiveImportance } from './memory-decay'
+import {
+  MemoryRetrievalSettingsSchema,
+  type Memory,
+  type MemoryRetrievalSettings,
+} from '@/lib/schemas/types'
+
+/** Retrieval settings used when a character has none */
+export const DEFAULT_MEMORY_RETRIEVAL_SETTINGS: MemoryRetrievalSettings = MemoryRetrievalSettingsSchema.parse({})
+
+/** BM25 term frequency saturation */
+const BM25_K1 = 1.2
+
+/** BM25 document length normalization */
+const BM25_B = 0.75
+
+/** Each keyword token counts as this many occurrences in the document */
+const KEYWORD_BOOST = 2
+
+/** MMR only reorders this many times the requested results (at least MMR_MIN_POOL) */
+const MMR_POOL_FACTOR = 3
+const MMR_MIN_POOL = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me',
+  'my', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there',
+  'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'you', 'your',
+])
+
+/**
+ * A memory with its fused relevance and the scores it was built from
+ */
+export interface RankedMemory {
+  memory: Memory
+  /** Fused relevance including boosts (0-1) */
+  score: number
+  /** BM25 score, when the memory matched lexically */
+  lexicalScore?: number
+  /** Cosine similarity, when the memory was a vector hit */
+  semanticScore?: number
+}
+
+/**
+ * Fills in defaults for any settings a character hasn't set
+ */
+export function resolveRetrievalSettings(
+  ...overrides: (Partial<MemoryRetrievalSettings> | null | undefined)[]
+): MemoryRetrievalSettings {
+  const merged: Partial<MemoryRetrievalSettings> = {}
+  for (const override of overrides) {
+    if (override) {
+      for (const [key, value] of Object.entries(override)) {
+        if (value !== undefined && value !== null) {
+          (merged as Record<string, unknown>)[key] = value
+        }
+      }
+    }
+  }
+  return { ...DEFAULT_MEMORY_RETRIEVAL_SETTINGS, ...merged }
+}
+
+/**
+ * Splits text into lowercase search terms without stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[\s.,;:!?"'“”‘’()[\]{}<>/\\|@#$%^&*+=~`_…—–-]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+}
+
+/**
+ * Scores memories against a query with BM25
+ * Returns only memories that share at least one term with the query,
+ * sorted by descending score.
+ */
+export function bm25Rank(query: string, memories: Memory[]): { id: string; score: number }[] {
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  if (queryTerms.length === 0 || memories.length === 0) {
+    return []
+  }
+
+  const documents = memories.map(memory => {
+    const frequencies = new Map<string, number>()
+    let length = 0
+    for (const token of tokenize(`${memory.summary} ${memory.content}`)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1)
+      length++
+    }
+    for (const token of tokenize(memory.keywords.join(' '))) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + KEYWORD_BOOST)
+      length += KEYWORD_BOOST
+    }
+    return { id: memory.id, frequencies, length }
+  })
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1
+  const documentFrequency = new Map<string, number>()
+  for (const term of queryTerms) {
+    documentFrequency.set(term, documents.filter(doc => doc.frequencies.has(term)).length)
+  }
+
+  const results: { id: string; score: number }[] = []
+  for (const doc of documents) {
+    let score = 0
+    for (const term of queryTerms) {
+      const frequency = doc.frequencies.get(term)
+      if (!frequency) {
+        continue
+      }
+      const df = documentFrequency.get(term)!
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))
+      score += idf * (frequency * (BM25_K1 + 1)) /
+        (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / averageLength)))
+    }
+    if (score > 0) {
+      results.push({ id: doc.id, score })
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Weighted reciprocal rank fusion: each ranking contributes weight / (k + rank)
+ */
+export function reciprocalRankFusion(
+  rankings: { ids: string[]; weight: number }[],
+  k: number
+): Map<string, number> {
+  const fused = new Map<string, number>()
+  for (const ranking of rankings) {
+    if (ranking.weight <= 0) {
+      continue
+    }
+    ranking.ids.forEach((id, index) => {
+      fused.set(id, (fused.get(id) ?? 0) + ranking.weight / (k + index + 1))
+    })
+  }
+  return fused
+}
+
+/**
+ * Exponential decay on memory age: 1 for a new memory, 0.5 at the half-life
+ */
+export function recencyBoost(memory: Memory, halfLifeDays: number, now: number = Date.now()): number {
+  const created = new Date(memory.createdAt).getTime()
+  if (Number.isNaN(created)) {
+    return 0
+  }
+  const ageDays = Math.max(0, now - created) / DAY_MS
+  return Math.pow(0.5, ageDays / halfLifeDays)
+}
+
+/**
+ * Share of terms two token sets have in common (0-1)
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0
+  }
+  let shared = 0
+  for (const token of a) {
+    if (b.has(token)) {
+      shared++
+    }
+  }
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Similarity between two memories for MMR: embedding cosine when both have
+ * comparable embeddings, otherwise term overlap
+ */
+function createMemorySimilarity(): (a: Memory, b: Memory) => number {
+  const tokenCache = new Map<string, Set<string>>()
+  const tokensOf = (memory: Memory) => {
+    let tokens = tokenCache.get(memory.id)
+    if (!tokens) {
+      tokens = new Set(tokenize(`${memory.summary} ${memory.content}`))
+      tokenCache.set(memory.id, tokens)
+    }
+    return tokens
+  }
+
+  return (a, b) => {
+    if (a.embedding && b.embedding && a.embedding.length === b.embedding.length && a.embedding.length > 0) {
+      return cosineSimilarity(a.embedding, b.embedding)
+    }
+    return jaccard(tokensOf(a), tokensOf(b))
+  }
+}
+
+/**
+ * Maximal marginal relevance selection
+ * Repeatedly picks the candidate with the best trade-off between its own
+ * relevance and its similarity to what has already been picked.
+ */
+export function mmrSelect<T extends { score: number }>(
+  candidates: T[],
+  limit: number,
+  lambda: number,
+  similarity: (a: T, b: T) => number
+): T[] {
+  const remaining = [...candidates].sort((a, b) => b.score - a.score)
+  if (lambda >= 1) {
+    return remaining.slice(0, limit)
+  }
+
+  const selected: T[] = []
+  // Highest similarity of each remaining candidate to anything selected so far
+  const redundancy = remaining.map(() => 0)
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0
+    let bestValue = -Infinity
+    for (let i = 0; i < remaining.length; i++) {
+      const value = lambda * remaining[i].score - (1 - lambda) * redundancy[i]
+      if (value > bestValue) {
+        bestValue = value
+        bestIndex = i
+      }
+    }
+
+    const [chosen] = remaining.splice(bestIndex, 1)
+    redundancy.splice(bestIndex, 1)
+    selected.push(chosen)
+    for (let i = 0; i < remaining.length; i++) {
+      redundancy[i] = Math.max(redundancy[i], similarity(remaining[i], chosen))
+    }
+  }
+  return selected
+}
+
+/**
+ * Ranks memories for a query from the lexical ranking and (when available)
+ * the vector store hits
+ */
+export function rankMemories(params: {
+  query: string
+  memories: Memory[]
+  vectorResults?: { id: string; score: number }[] | null
+  settings?: MemoryRetrievalSettings
+  limit: number
+  now?: number
+}): RankedMemory[] {
+  const settings = params.settings ?? DEFAULT_MEMORY_RETRIEVAL_SETTINGS
+  const memoryMap = new Map(params.memories.map(memory => [memory.id, memory]))
+  const lexical = settings.lexicalWeight > 0 ? bm25Rank(params.query, params.memories) : []
+  const semantic = settings.semanticWeight > 0
+    ? (params.vectorResults ?? []).filter(result => memoryMap.has(result.id))
+    : []
+
+  const rankings = [
+    { ids: lexical.map(result => result.id), weight: settings.lexicalWeight },
+    { ids: semantic.map(result => result.id), weight: settings.semanticWeight },
+  ].filter(ranking => ranking.ids.length > 0)
+
+  const fused = reciprocalRankFusion(rankings, settings.rrfK)
+  if (fused.size === 0) {
+    return []
+  }
+
+  // A memory ranked first everywhere gets a relevance of 1
+  const bestPossible = rankings.reduce((sum, ranking) => sum + ranking.weight, 0) / (settings.rrfK + 1)
+  const lexicalScores = new Map(lexical.map(result => [result.id, result.score]))
+  const semanticScores = new Map(semantic.map(result => [result.id, result.score]))
+  const boostTotal = 1 + settings.recencyWeight + settings.importanceWeight
+  const now = params.now ?? Date.now()
+
+  const candidates: RankedMemory[] = Array.from(fused.entries()).map(([id, rrf]) => {
+    const memory = memoryMap.get(id)!
+    const relevance = rrf / bestPossible
+    const recency = settings.recencyWeight > 0 ? recencyBoost(memory, settings.recencyHalfLifeDays, now) : 0
+    return {
+      memory,
+      score: (relevance + settings.recencyWeight * recency + settings.importanceWeight * getEffectiveImportance(memory, now)) / boostTotal,
+      lexicalScore: lexicalScores.get(id),
+      semanticScore: semanticScores.get(id),
+    }
+  })
+
+  const pool = candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(params.limit * MMR_POOL_FACTOR, MMR_MIN_POOL))
+
+  const similarity = createMemorySimilarity()
+  return mmrSelect(pool, params.limit, settings.mmrLambda, (a, b) => similarity(a.memory, b.memory))
+}
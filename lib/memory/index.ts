@@ -15,7 +15,13 @@ export {
   describeAttachment,
   batchExtractMemories,
   considerTitleUpdate,
+  chooseNextSpeaker,
+  consolidateMemories,
+  reviewMemoryGroup,
+  resolveCheapLLMSelection,
   type MemoryCandidate,
+  type ConsolidatedMemory,
+  type MemoryGroupReview,
   type ChatMessage,
   type Attachment,
   type CheapLLMTaskResult,
@@ -39,3 +45,85 @@ export {
   type HousekeepingResult,
   type HousekeepingDetail,
 } from './housekeeping'
+
+// Hybrid Retrieval (lexical + semantic fusion)
+export {
+  rankMemories,
+  resolveRetrievalSettings,
+  bm25Rank,
+  reciprocalRankFusion,
+  mmrSelect,
+  DEFAULT_MEMORY_RETRIEVAL_SETTINGS,
+  type RankedMemory,
+} from './hybrid-retrieval'
+
+// Decay and Reinforcement (access-based importance)
+export {
+  getEffectiveImportance,
+  reinforceMemory,
+  decayMemory,
+  buildImportanceTimeline,
+  IMPORTANCE_DECAY_HALF_LIFE_DAYS,
+  REINFORCEMENT_RATE,
+  type ImportanceTimelinePoint,
+} from './memory-decay'
+
+// Consolidation Review (merge and contradiction proposals)
+export {
+  groupSimilarMemories,
+  runConsolidationPass,
+  runConsolidationPassAsync,
+  acceptMemoryProposal,
+  rejectMemoryProposal,
+  CONSOLIDATION_SIMILARITY_THRESHOLD,
+  type ConsolidationPassOptions,
+  type ConsolidationPassResult,
+  type MemoryProposalEdits,
+} from './consolidation'
+
+// Export and Import (moving memories between instances)
+export {
+  exportCharacterMemories,
+  serializeMemoryExport,
+  parseMemoryExport,
+  importCharacterMemories,
+  MemoryImportError,
+  MEMORY_EXPORT_FORMAT,
+  type MemoryExport,
+  type MemoryExportFormat,
+  type MemoryImportResult,
+} from './memory-transfer'
+
+// Embedding Migration (re-embedding into a shadow index on model change)
+export {
+  startEmbeddingMigration,
+  runEmbeddingMigration,
+  cancelEmbeddingMigration,
+  scheduleEmbeddingMigrations,
+  scheduleEmbeddingMigrationsAsync,
+  getEmbeddingIndexStatus,
+  indexNeedsMigration,
+  REEMBED_BATCH_SIZE,
+  type EmbeddingIndexInfo,
+  type EmbeddingIndexStatus,
+} from './embedding-migration'
+
+// Timeline (memories by chat and day, with their source messages)
+export {
+  buildMemoryTimeline,
+  filterTimelineMemories,
+  groupMemoryTimeline,
+  type MemoryTimeline,
+  type MemoryTimelineFilters,
+  type MemoryTimelineGroup,
+  type TimelineMemory,
+} from './memory-timeline'
+
+// Visibility (global, persona-only and chat-only memories)
+export {
+  isMemoryVisible,
+  filterVisibleMemories,
+  memoryScopeKey,
+  visibilityOf,
+  type MemoryScope,
+} from './memory-visibility'
@@ -0,0 +1,223 @@
+/**
+ * Memory Decay and Reinforcement
+ *
+ * Importance is not fixed at extraction time. Each time a memory is recalled
+ * into a conversation or returned by the memory_search tool it is reinforced,
+ * moving its importance part of the way toward 1. Between reinforcements the
+ * importance decays exponentially toward a floor, so memories that never come
+ * up again slowly fade until housekeeping consolidates them.
+ *
+ * Decay is evaluated lazily from importanceUpdatedAt; reinforcement and
+ * housekeeping write the current value back. Manual memories were saved on
+ * purpose and never decay.
+ */
+
+import type { Memory, MemoryImportanceEvent, MemoryImportancePoint } from '@/lib/schemas/types'
+
+/** Days for an untouched memory to lose half its importance above the floor */
+export const IMPORTANCE_DECAY_HALF_LIFE_DAYS = 60
+
+/** Importance never decays below this */
+export const IMPORTANCE_FLOOR = 0.05
+
+/** Fraction of the remaining distance to 1 gained per reinforcement */
+export const REINFORCEMENT_RATE = 0.15
+
+/** Importance history points kept per memory */
+export const IMPORTANCE_HISTORY_LIMIT = 50
+
+/** Decay smaller than this is not worth a write */
+const MIN_RECORDED_DECAY = 0.01
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * One day of a character's importance timeline
+ */
+export interface ImportanceTimelinePoint {
+  /** Day (YYYY-MM-DD, UTC) */
+  date: string
+  /** Mean importance of the memories that existed at the end of the day */
+  averageImportance: number
+  /** Number of memories that existed at the end of the day */
+  memoryCount: number
+  /** Reinforcements recorded that day */
+  reinforced: number
+  /** Consolidated memories created that day */
+  consolidated: number
+}
+
+function roundImportance(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000
+}
+
+function toTime(timestamp: string | null | undefined): number | null {
+  if (!timestamp) {
+    return null
+  }
+  const time = new Date(timestamp).getTime()
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * When the stored importance was last brought up to date
+ */
+function importanceClock(memory: Memory): number {
+  return toTime(memory.importanceUpdatedAt)
+    ?? toTime(memory.lastAccessedAt)
+    ?? toTime(memory.createdAt)
+    ?? Date.now()
+}
+
+function decay(importance: number, elapsedMs: number): number {
+  if (importance <= IMPORTANCE_FLOOR || elapsedMs <= 0) {
+    return importance
+  }
+  const factor = Math.pow(0.5, elapsedMs / DAY_MS / IMPORTANCE_DECAY_HALF_LIFE_DAYS)
+  return IMPORTANCE_FLOOR + (importance - IMPORTANCE_FLOOR) * factor
+}
+
+/**
+ * A memory's importance right now, with decay since its last update applied
+ */
+export function getEffectiveImportance(memory: Memory, now: number = Date.now()): number {
+  if (memory.source === 'MANUAL') {
+    return memory.importance
+  }
+  return roundImportance(decay(memory.importance, now - importanceClock(memory)))
+}
+
+/**
+ * Appends a point to a memory's importance history
+ * The first change of a memory also records where it started, and the
+ * history is trimmed to the most recent points (the starting point is kept).
+ */
+export function appendImportanceHistory(memory: Memory, point: MemoryImportancePoint): MemoryImportancePoint[] {
+  const history = memory.importanceHistory?.length
+    ? [...memory.importanceHistory]
+    : [{
+      at: memory.createdAt,
+      importance: memory.importance,
+      event: (memory.consolidatedFrom?.length ? 'consolidated' : 'created') as MemoryImportanceEvent,
+    }]
+
+  history.push(point)
+  if (history.length > IMPORTANCE_HISTORY_LIMIT) {
+    return [history[0], ...history.slice(history.length - IMPORTANCE_HISTORY_LIMIT + 1)]
+  }
+  return history
+}
+
+/**
+ * The update that reinforces a memory that was just recalled
+ */
+export function reinforceMemory(memory: Memory, now: number = Date.now()): Partial<Memory> {
+  const current = getEffectiveImportance(memory, now)
+  const importance = roundImportance(current + REINFORCEMENT_RATE * (1 - current))
+  const at = new Date(now).toISOString()
+
+  return {
+    importance,
+    importanceUpdatedAt: at,
+    lastAccessedAt: at,
+    reinforcementCount: (memory.reinforcementCount ?? 0) + 1,
+    importanceHistory: appendImportanceHistory(memory, { at, importance, event: 'reinforced' }),
+  }
+}
+
+/**
+ * The update that writes back a memory's decay, or null when it hasn't
+ * decayed enough to record
+ */
+export function decayMemory(memory: Memory, now: number = Date.now()): Partial<Memory> | null {
+  const importance = getEffectiveImportance(memory, now)
+  if (memory.importance - importance < MIN_RECORDED_DECAY) {
+    return null
+  }
+  const at = new Date(now).toISOString()
+
+  return {
+    importance,
+    importanceUpdatedAt: at,
+    importanceHistory: appendImportanceHistory(memory, { at, importance, event: 'decayed' }),
+  }
+}
+
+/**
+ * A memory's importance at a point in time, or null if it didn't exist yet
+ */
+export function getImportanceAt(memory: Memory, time: number): number | null {
+  const created = toTime(memory.createdAt)
+  if (created !== null && created > time) {
+    return null
+  }
+
+  let base = memory.importance
+  let since = Math.min(importanceClock(memory), time)
+  const history = memory.importanceHistory ?? []
+  if (history.length > 0) {
+    const known = history.filter(point => (toTime(point.at) ?? Infinity) <= time)
+    if (known.length === 0) {
+      base = history[0].importance
+      since = time
+    } else {
+      const last = known[known.length - 1]
+      base = last.importance
+      since = toTime(last.at)!
+    }
+  }
+
+  return memory.source === 'MANUAL' ? base : roundImportance(decay(base, time - since))
+}
+
+/**
+ * Day-by-day importance of a character's memories over the last few days
+ */
+export function buildImportanceTimeline(
+  memories: Memory[],
+  days: number = 90,
+  now: number = Date.now()
+): ImportanceTimelinePoint[] {
+  const endOfToday = new Date(now)
+  endOfToday.setUTCHours(23, 59, 59, 999)
+
+  const reinforcedByDay = new Map<string, number>()
+  const consolidatedByDay = new Map<string, number>()
+  for (const memory of memories) {
+    for (const point of memory.importanceHistory ?? []) {
+      if (point.event === 'reinforced') {
+        const day = point.at.slice(0, 10)
+        reinforcedByDay.set(day, (reinforcedByDay.get(day) ?? 0) + 1)
+      }
+    }
+    if (memory.consolidatedFrom?.length) {
+      const day = memory.createdAt.slice(0, 10)
+      consolidatedByDay.set(day, (consolidatedByDay.get(day) ?? 0) + 1)
+    }
+  }
+
+  const timeline: ImportanceTimelinePoint[] = []
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const time = Math.min(endOfToday.getTime() - offset * DAY_MS, now)
+    const date = new Date(endOfToday.getTime() - offset * DAY_MS).toISOString().slice(0, 10)
+
+    let total = 0
+    let memoryCount = 0
+    for (const memory of memories) {
+      const importance = getImportanceAt(memory, time)
+      if (importance !== null) {
+        total += importance
+        memoryCount++
+      }
+    }
+
+    timeline.push({
+      date,
+      averageImportance: memoryCount > 0 ? roundImportance(total / memoryCount) : 0,
+      memoryCount,
+      reinforced: reinforcedByDay.get(date) ?? 0,
+      consolidated: consolidatedByDay.get(date) ?? 0,
+    })
+  }
+  return timeline
+}
@@ -9,8 +9,9 @@
 import { getRepositories } from '@/lib/repositories/factory'
 import { extractMemoryFromMessage, extractCharacterMemoryFromMessage, MemoryCandidate } from './cheap-llm-tasks'
 import { getCheapLLMProvider, CheapLLMConfig, CheapLLMSelection } from '@/lib/llm/cheap-llm'
-import { ConnectionProfile, CheapLLMSettings, Memory } from '@/lib/schemas/types'
-import { createMemoryWithEmbedding, findSimilarMemories } from './memory-service'
+import { ConnectionProfile, CheapLLMSettings, Memory, MemoryVisibility } from '@/lib/schemas/types'
+import { createMemoryWithEmbedding, findSimilarMemories, MemoryVetoedError } from './memory-service'
+import { runConsolidationPassAsync } from './consolidation'
 import { logger } from '@/lib/logger'
 
 /**
@@ -23,6 +24,8 @@ export interface MemoryExtractionContext {
   characterName: string
   /** Persona name if available */
   personaName?: string
+  /** Persona the user is speaking as, recorded on the memory */
+  personaId?: string | null
   /** Chat ID for source reference */
   chatId: string
   /** User message content */
@@ -39,6 +42,8 @@ export interface MemoryExtractionContext {
   cheapLLMSettings: CheapLLMSettings
   /** Available connection profiles for user-defined strategy */
   availableProfiles?: ConnectionProfile[]
+  /** Visibility for new memories (the character's default; GLOBAL when unset) */
+  visibility?: MemoryVisibility
 }
 
 /**
@@ -170,31 +175,39 @@ async function checkForDuplicateMemory(
 
 /**
  * Creates a memory from an extraction candidate with embedding generation
+ * Returns null when a plugin vetoes the memory
  */
 async function createMemoryFromCandidate(
   ctx: MemoryExtractionContext,
   candidate: MemoryCandidate
-): Promise<Memory> {
-  // Use the memory service which handles embedding generation
-  const memory = await createMemoryWithEmbedding(
-    {
-      characterId: ctx.characterId,
-      chatId: ctx.chatId,
-      content: candidate.content || '',
-      summary: candidate.summary || '',
-      keywords: candidate.keywords || [],
-      importance: candidate.importance || 0.5,
-      source: 'AUTO',
-      sourceMessageId: ctx.sourceMessageId,
-      tags: [], // Could inherit from character/chat tags in the future
-    },
-    {
-      userId: ctx.userId,
-      // Embedding generation is automatic if profile is configured
+): Promise<Memory | null> {
+  try {
+    // Use the memory service which handles embedding generation
+    return await createMemoryWithEmbedding(
+      {
+        characterId: ctx.characterId,
+        personaId: ctx.personaId ?? null,
+        chatId: ctx.chatId,
+        content: candidate.content || '',
+        summary: candidate.summary || '',
+        keywords: candidate.keywords || [],
+        importance: candidate.importance || 0.5,
+        source: 'AUTO',
+        sourceMessageId: ctx.sourceMessageId,
+        tags: [], // Could inherit from character/chat tags in the future
+        visibility: ctx.visibility,
+      },
+      {
+        userId: ctx.userId,
+        // Embedding generation is automatic if profile is configured
+      }
+    )
+  } catch (error) {
+    if (error instanceof MemoryVetoedError) {
+      return null
     }
-  )
-
-  return memory
+    throw error
+  }
 }
 
 /**
@@ -245,6 +258,7 @@ export async function processMessageForMemory(
 
     let memoryCreated = false
     let memoryId: string | undefined = undefined
+    const createdIds: string[] = []
     let totalUsage = {
       promptTokens: 0,
       completionTokens: 0,
@@ -265,15 +279,21 @@ export async function processMessageForMemory(
         const isDuplicate = await checkForDuplicateMemory(ctx.characterId, userCandidate, ctx.userId)
         if (!isDuplicate) {
           const memory = await createMemoryFromCandidate(ctx, userCandidate)
-          memoryCreated = true
-          memoryId = memory.id
-
-          const logMsg = `[Memory] Created USER memory for ${ctx.characterName}:\n` +
-            `  Content: ${userCandidate.content}\n` +
-            `  Summary: ${userCandidate.summary}\n` +
-            `  Importance: ${userCandidate.importance}\n` +
-            `  Keywords: ${userCandidate.keywords?.join(', ')}`
-          debugLogs.push(logMsg)
+          if (memory) {
+            memoryCreated = true
+            memoryId = memory.id
+            createdIds.push(memory.id)
+
+            const logMsg = `[Memory] Created USER memory for ${ctx.characterName}:\n` +
+              `  Content: ${userCandidate.content}\n` +
+              `  Summary: ${userCandidate.summary}\n` +
+              `  Importance: ${userCandidate.importance}\n` +
+              `  Keywords: ${userCandidate.keywords?.join(', ')}`
+            debugLogs.push(logMsg)
+          } else {
+            debugLogs.push(`[Memory] USER memory blocked by plugin for ${ctx.characterName}:\n` +
+              `  Summary: ${userCandidate.summary}`)
+          }
         } else {
           const logMsg = `[Memory] USER memory skipped (duplicate) for ${ctx.characterName}:\n` +
             `  Summary: ${userCandidate.summary}`
@@ -305,14 +325,19 @@ export async function processMessageForMemory(
       if (charCandidate?.significant) {
         const isDuplicate = await checkForDuplicateMemory(ctx.characterId, charCandidate, ctx.userId)
         if (!isDuplicate) {
-          await createMemoryFromCandidate(ctx, charCandidate)
-
-          const logMsg = `[Memory] Created CHARACTER memory for ${ctx.characterName}:\n` +
-            `  Content: ${charCandidate.content}\n` +
-            `  Summary: ${charCandidate.summary}\n` +
-            `  Importance: ${charCandidate.importance}\n` +
-            `  Keywords: ${charCandidate.keywords?.join(', ')}`
-          debugLogs.push(logMsg)
+          const memory = await createMemoryFromCandidate(ctx, charCandidate)
+          if (memory) {
+            createdIds.push(memory.id)
+            const logMsg = `[Memory] Created CHARACTER memory for ${ctx.characterName}:\n` +
+              `  Content: ${charCandidate.content}\n` +
+              `  Summary: ${charCandidate.summary}\n` +
+              `  Importance: ${charCandidate.importance}\n` +
+              `  Keywords: ${charCandidate.keywords?.join(', ')}`
+            debugLogs.push(logMsg)
+          } else {
+            debugLogs.push(`[Memory] CHARACTER memory blocked by plugin for ${ctx.characterName}:\n` +
+              `  Summary: ${charCandidate.summary}`)
+          }
         } else {
           const logMsg = `[Memory] CHARACTER memory skipped (duplicate) for ${ctx.characterName}:\n` +
             `  Summary: ${charCandidate.summary}`
@@ -331,6 +356,11 @@ export async function processMessageForMemory(
       debugLogs.push(logMsg)
     }
 
+    // Review the new memories against similar ones for merges and contradictions
+    if (createdIds.length > 0) {
+      runConsolidationPassAsync(ctx.characterId, { userId: ctx.userId, selection, memoryIds: createdIds })
+    }
+
     return {
       success: true,
       memoryCreated,
@@ -410,8 +440,10 @@ export async function batchProcessChatForMemories(
 }> {
   const repos = getRepositories()
 
-  // Get chat messages
+  // Get chat messages, and the persona the user speaks as in this chat
   const messages = await repos.chats.getMessages(chatId)
+  const chat = await repos.chats.findById(chatId)
+  const personaId = chat?.participants.find(p => p.type === 'PERSONA' && p.isActive && p.personaId)?.personaId ?? null
 
   // Get character
   const character = await repos.characters.findById(characterId)
@@ -474,6 +506,7 @@ export async function batchProcessChatForMemories(
     const result = await processMessageForMemory({
       characterId,
       characterName: character.name,
+      personaId,
       chatId,
       userMessage: pair.userMessage.content,
       assistantMessage: pair.assistantMessage.content,
@@ -482,6 +515,7 @@ export async function batchProcessChatForMemories(
       connectionProfile,
       cheapLLMSettings: chatSettings.cheapLLMSettings,
       availableProfiles,
+      visibility: character.autoMemoryVisibility ?? undefined,
     })
 
     processed++
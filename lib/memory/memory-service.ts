@@ -7,10 +7,28 @@
  */
 
 import { getRepositories } from '@/lib/repositories/factory'
-import { Memory } from '@/lib/schemas/types'
-import { generateEmbeddingForUser, EmbeddingError, cosineSimilarity } from '@/lib/embedding/embedding-service'
-import { getCharacterVectorStore, getVectorStoreManager } from '@/lib/embedding/vector-store'
+import { Memory, MemoryProvenance, MemoryRetrievalSettings, MemoryVisibility } from '@/lib/schemas/types'
+import { generateEmbeddingForUser, EmbeddingError, EmbeddingResult, cosineSimilarity } from '@/lib/embedding/embedding-service'
+import { getCharacterVectorStore, getVectorStoreManager, ICharacterVectorStore } from '@/lib/embedding/vector-store'
 import { logger } from '@/lib/logger'
+import { HOOK_POINTS, runHook } from '@/lib/plugins/hook-bus'
+import { rankMemories, resolveRetrievalSettings } from './hybrid-retrieval'
+import { getEffectiveImportance, reinforceMemory } from './memory-decay'
+import { embeddingModelOf, resolveQueryProfileId, sameEmbeddingModel } from './embedding-migration'
+import { filterVisibleMemories, MemoryScope } from './memory-visibility'
+
+/**
+ * Error thrown when a plugin's memory.create hook vetoes a new memory
+ */
+export class MemoryVetoedError extends Error {
+  constructor(
+    public readonly pluginName?: string,
+    public readonly reason?: string
+  ) {
+    super(`Memory creation blocked by plugin${pluginName ? ` ${pluginName}` : ''}${reason ? `: ${reason}` : ''}`)
+    this.name = 'MemoryVetoedError'
+  }
+}
 
 /**
  * Options for memory creation
@@ -36,6 +54,10 @@ export interface CreateMemoryOptions {
   source?: 'AUTO' | 'MANUAL'
   /** Source message ID for auto-created memories */
   sourceMessageId?: string | null
+  /** Memories this one consolidates */
+  consolidatedFrom?: MemoryProvenance[]
+  /** Where the memory may be recalled (GLOBAL when unset) */
+  visibility?: MemoryVisibility
 }
 
 /**
@@ -56,27 +78,78 @@ export interface MemoryServiceOptions {
 export interface SemanticSearchResult {
   /** The matching memory */
   memory: Memory
-  /** Similarity score (0-1) */
+  /** Fused relevance score (0-1) */
   score: number
   /** Whether embedding was used for search */
   usedEmbedding: boolean
+  /** BM25 score, when the memory matched the query's terms */
+  lexicalScore?: number
+  /** Cosine similarity, when the memory was a vector hit */
+  semanticScore?: number
+}
+
+/**
+ * Add or replace a memory's vector in a character's index
+ *
+ * An empty index takes on the model of its first vector. A vector from a
+ * different model than the index was built with is left out; the migration
+ * job moving the index to that model embeds the memory instead.
+ *
+ * @returns Whether the vector was indexed
+ */
+export async function indexEmbedding(
+  vectorStore: ICharacterVectorStore,
+  characterId: string,
+  memoryId: string,
+  summary: string,
+  result: EmbeddingResult
+): Promise<boolean> {
+  const model = embeddingModelOf({ provider: result.provider, modelName: result.model })
+  const indexModel = vectorStore.getModel()
+  if (vectorStore.size === 0) {
+    vectorStore.setModel(model)
+  } else if (indexModel && !sameEmbeddingModel(indexModel, model)) {
+    logger.debug(`[Memory] Leaving memory ${memoryId} for the embedding migration`, { characterId, indexModel, model })
+    return false
+  }
+
+  if (vectorStore.hasVector(memoryId)) {
+    await vectorStore.updateVector(memoryId, result.embedding)
+  } else {
+    await vectorStore.addVector(memoryId, result.embedding, {
+      memoryId,
+      characterId,
+      content: summary,
+    })
+  }
+  return true
 }
 
 /**
  * Create a memory with optional embedding generation
  *
  * This is the primary function for creating memories. It:
- * 1. Creates the memory in the repository
- * 2. Generates an embedding if a profile is configured
- * 3. Adds the embedding to the vector store
- * 4. Updates the memory with the embedding
+ * 1. Runs the memory.create plugin hook (which may rewrite or veto the memory)
+ * 2. Creates the memory in the repository
+ * 3. Generates an embedding if a profile is configured
+ * 4. Adds the embedding to the vector store
+ * 5. Updates the memory with the embedding
+ *
+ * @throws MemoryVetoedError if a plugin vetoes the memory
  */
 export async function createMemoryWithEmbedding(
-  data: CreateMemoryOptions,
+  input: CreateMemoryOptions,
   options: MemoryServiceOptions
 ): Promise<Memory> {
   const repos = getRepositories()
 
+  const hook = await runHook(HOOK_POINTS.MEMORY_CREATE, { ...input, userId: options.userId })
+  if (hook.vetoed) {
+    throw new MemoryVetoedError(hook.vetoedBy, hook.reason)
+  }
+  // The owning character and user are not the plugin's to change
+  const data: CreateMemoryOptions = { ...hook.payload, characterId: input.characterId }
+
   // Create the memory first (without embedding)
   const memory = await repos.memories.create({
     characterId: data.characterId,
@@ -89,6 +162,8 @@ export async function createMemoryWithEmbedding(
     chatId: data.chatId || null,
     source: data.source || 'MANUAL',
     sourceMessageId: data.sourceMessageId || null,
+    ...(data.consolidatedFrom?.length ? { consolidatedFrom: data.consolidatedFrom } : {}),
+    ...(data.visibility && data.visibility !== 'GLOBAL' ? { visibility: data.visibility } : {}),
   })
 
   // Skip embedding if requested
@@ -114,11 +189,7 @@ export async function createMemoryWithEmbedding(
 
     // Add to vector store
     const vectorStore = await getCharacterVectorStore(data.characterId)
-    await vectorStore.addVector(memory.id, embeddingResult.embedding, {
-      memoryId: memory.id,
-      characterId: data.characterId,
-      content: data.summary,
-    })
+    await indexEmbedding(vectorStore, data.characterId, memory.id, data.summary, embeddingResult)
     await vectorStore.save()
 
     return updatedMemory || memory
@@ -179,15 +250,7 @@ export async function updateMemoryWithEmbedding(
 
       // Update vector store
       const vectorStore = await getCharacterVectorStore(characterId)
-      if (vectorStore.hasVector(memoryId)) {
-        await vectorStore.updateVector(memoryId, embeddingResult.embedding)
-      } else {
-        await vectorStore.addVector(memoryId, embeddingResult.embedding, {
-          memoryId,
-          characterId,
-          content: updatedMemory.summary,
-        })
-      }
+      await indexEmbedding(vectorStore, characterId, memoryId, updatedMemory.summary, embeddingResult)
       await vectorStore.save()
 
       return memoryWithEmbedding || updatedMemory
@@ -227,130 +290,106 @@ export async function deleteMemoryWithVector(
 }
 
 /**
- * Search memories using semantic similarity
+ * Search memories with hybrid lexical + semantic retrieval
  *
- * Falls back to text-based search if embedding is not available.
+ * BM25 over content and keywords is always used; vector similarity joins in
+ * when an embedding can be generated. The two rankings are fused with the
+ * character's retrieval settings (see hybrid-retrieval.ts), so text-only
+ * search is simply the case where the vector ranking is empty.
  */
 export async function searchMemoriesSemantic(
   characterId: string,
   query: string,
   options: MemoryServiceOptions & {
     limit?: number
+    /** Lowest cosine similarity for a vector hit to count; lexical matches are kept regardless */
     minScore?: number
     minImportance?: number
     source?: 'AUTO' | 'MANUAL'
+    /** Where the memories will be recalled; hides memories not visible there */
+    scope?: MemoryScope
+    /** Overrides the character's retrieval settings for this search */
+    retrieval?: Partial<MemoryRetrievalSettings>
   }
 ): Promise<SemanticSearchResult[]> {
   const repos = getRepositories()
   const limit = options.limit || 20
   const minScore = options.minScore || 0.0
 
-  // Try semantic search first
-  try {
-    const embeddingResult = await generateEmbeddingForUser(
-      query,
-      options.userId,
-      options.embeddingProfileId
-    )
+  const [character, allMemories] = await Promise.all([
+    repos.characters.findById(characterId),
+    repos.memories.findByCharacterId(characterId),
+  ])
+  const settings = resolveRetrievalSettings(character?.memoryRetrieval, options.retrieval)
 
-    const vectorStore = await getCharacterVectorStore(characterId)
+  // Apply filters before ranking so every ranking sees the same candidates
+  let memories = allMemories
+  if (options.minImportance !== undefined) {
+    const now = Date.now()
+    memories = memories.filter(m => getEffectiveImportance(m, now) >= options.minImportance!)
+  }
+  if (options.source) {
+    memories = memories.filter(m => m.source === options.source)
+  }
+  if (options.scope) {
+    memories = filterVisibleMemories(memories, options.scope)
+  }
+  if (memories.length === 0) {
+    return []
+  }
 
-    // Search vectors
-    const vectorResults = vectorStore.search(
-      embeddingResult.embedding,
-      limit * 2 // Get more results to filter
-    )
+  let vectorResults: { id: string; score: number }[] | null = null
+  if (settings.semanticWeight > 0) {
+    try {
+      // Embed the query with the model the index was built with
+      const vectorStore = await getCharacterVectorStore(characterId)
+      const embeddingResult = await generateEmbeddingForUser(
+        query,
+        options.userId,
+        await resolveQueryProfileId(vectorStore, options.userId, options.embeddingProfileId)
+      )
 
-    if (vectorResults.length > 0) {
-      // Get full memory data for results
-      const memories = await repos.memories.findByCharacterId(characterId)
-      const memoryMap = new Map(memories.map(m => [m.id, m]))
-
-      let results: SemanticSearchResult[] = vectorResults
-        .filter(vr => vr.score >= minScore)
-        .map(vr => ({
-          memory: memoryMap.get(vr.id)!,
-          score: vr.score,
-          usedEmbedding: true,
-        }))
-        .filter(r => r.memory) // Filter out any missing memories
-
-      // Apply additional filters
-      if (options.minImportance !== undefined) {
-        results = results.filter(r => r.memory.importance >= options.minImportance!)
-      }
-      if (options.source) {
-        results = results.filter(r => r.memory.source === options.source)
-      }
+      const allowedIds = memories.length < allMemories.length ? new Set(memories.map(m => m.id)) : null
 
-      return results.slice(0, limit)
+      vectorResults = vectorStore.search(
+        embeddingResult.embedding,
+        Math.max(limit * 3, 50), // Wide pool for fusion and diversity
+        allowedIds ? (metadata) => allowedIds.has(metadata.memoryId) : undefined
+      ).filter(result => result.score >= minScore)
+    } catch (error) {
+      logger.warn(`[Memory] Semantic search unavailable, using lexical ranking only`, { characterId, query: query.substring(0, 100), userId: options.userId, error: String(error) })
     }
-  } catch (error) {
-    logger.warn(`[Memory] Semantic search failed, falling back to text search`, { characterId, query: query.substring(0, 100), userId: options.userId, error: String(error) })
   }
 
-  // Fallback to text-based search
-  return searchMemoriesText(characterId, query, options)
+  const usedEmbedding = !!vectorResults && vectorResults.length > 0
+  return rankMemories({ query, memories, vectorResults, settings, limit })
+    .map(result => ({
+      memory: result.memory,
+      score: result.score,
+      usedEmbedding,
+      lexicalScore: result.lexicalScore,
+      semanticScore: result.semanticScore,
+    }))
 }
 
 /**
- * Text-based memory search (fallback when embeddings unavailable)
+ * Reinforce memories that were just recalled
+ *
+ * Called when buildContext injects memories and when the memory_search tool
+ * returns them. Each memory's importance moves toward 1 and its decay clock
+ * restarts (see memory-decay.ts). Failures are logged, never thrown.
  */
-async function searchMemoriesText(
-  characterId: string,
-  query: string,
-  options: {
-    limit?: number
-    minImportance?: number
-    source?: 'AUTO' | 'MANUAL'
-  }
-): Promise<SemanticSearchResult[]> {
+export async function reinforceMemories(characterId: string, memories: Memory[]): Promise<void> {
   const repos = getRepositories()
-  const limit = options.limit || 20
-
-  let memories = await repos.memories.searchByContent(characterId, query)
+  const now = Date.now()
 
-  // Apply filters
-  if (options.minImportance !== undefined) {
-    memories = memories.filter(m => m.importance >= options.minImportance!)
-  }
-  if (options.source) {
-    memories = memories.filter(m => m.source === options.source)
-  }
-
-  // Score based on text matching
-  const queryLower = query.toLowerCase()
-  const results: SemanticSearchResult[] = memories.map(memory => {
-    let score = 0
-    const contentLower = memory.content.toLowerCase()
-    const summaryLower = memory.summary.toLowerCase()
-
-    // Exact match in summary is highest score
-    if (summaryLower.includes(queryLower)) {
-      score += 0.5
-    }
-    // Match in content
-    if (contentLower.includes(queryLower)) {
-      score += 0.3
-    }
-    // Keyword matches
-    const queryWords = queryLower.split(/\s+/)
-    const matchingKeywords = memory.keywords.filter(kw =>
-      queryWords.some(qw => kw.toLowerCase().includes(qw))
-    )
-    score += 0.2 * (matchingKeywords.length / Math.max(memory.keywords.length, 1))
-
-    return {
-      memory,
-      score: Math.min(score, 1.0),
-      usedEmbedding: false,
+  await Promise.all(memories.map(async memory => {
+    try {
+      await repos.memories.updateForCharacter(characterId, memory.id, reinforceMemory(memory, now))
+    } catch (error) {
+      logger.warn(`[Memory] Failed to reinforce memory ${memory.id}`, { characterId, memoryId: memory.id, error: String(error) })
     }
-  })
-
-  // Sort by score and limit
-  return results
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit)
+  }))
 }
 
 /**
@@ -367,13 +406,13 @@ export async function findSimilarMemories(
   const threshold = options.threshold || 0.85
 
   try {
+    const vectorStore = await getCharacterVectorStore(characterId)
     const embeddingResult = await generateEmbeddingForUser(
       `${summary}\n\n${content}`,
       options.userId,
-      options.embeddingProfileId
+      await resolveQueryProfileId(vectorStore, options.userId, options.embeddingProfileId)
     )
 
-    const vectorStore = await getCharacterVectorStore(characterId)
     const results = vectorStore.search(embeddingResult.embedding, 10)
 
     // Get full memory data
@@ -437,11 +476,7 @@ export async function generateMissingEmbeddings(
       })
 
       // Add to vector store
-      await vectorStore.addVector(memory.id, embeddingResult.embedding, {
-        memoryId: memory.id,
-        characterId,
-        content: memory.summary,
-      })
+      await indexEmbedding(vectorStore, characterId, memory.id, memory.summary, embeddingResult)
 
       processed++
 
@@ -475,11 +510,15 @@ export async function rebuildVectorIndex(
   const repos = getRepositories()
   const manager = getVectorStoreManager()
 
+  // The stored vectors come from the model the old index recorded
+  const model = (await manager.getStore(characterId)).getModel()
+
   // Delete existing index
   await manager.deleteStore(characterId)
 
   // Get fresh store
   const vectorStore = await manager.getStore(characterId)
+  vectorStore.setModel(model)
 
   // Get all memories with embeddings
   const memories = await repos.memories.findByCharacterId(characterId)
@@ -0,0 +1,243 @@
+/**
+ * Memory Timeline
+ *
+ * Lays a character's memories out by the chat they were formed in and the
+ * day they were formed, with the message that triggered each one attached,
+ * so the user can audit why a character "remembers" something. Memories
+ * without a chat (manual ones, imports) form their own group.
+ */
+
+import { getRepositories } from '@/lib/repositories/factory'
+import type { Memory, MessageEvent } from '@/lib/schemas/types'
+import { getEffectiveImportance } from './memory-decay'
+
+/** Characters of a source message shown alongside its memory */
+export const SOURCE_EXCERPT_LENGTH = 280
+
+/**
+ * Which memories to show on the timeline
+ */
+export interface MemoryTimelineFilters {
+  /** Persona the memory was formed with; null for memories without one */
+  personaId?: string | null
+  source?: 'AUTO' | 'MANUAL'
+  /** Bounds on current (decayed) importance, inclusive */
+  minImportance?: number
+  maxImportance?: number
+  /** Keep memories carrying any of these tags */
+  tagIds?: string[]
+}
+
+/**
+ * The message a memory was extracted from
+ */
+export interface TimelineSourceMessage {
+  id: string
+  role: MessageEvent['role']
+  excerpt: string
+  createdAt: string
+}
+
+export interface TimelineMemory {
+  memory: Omit<Memory, 'embedding'>
+  /** Importance after decay, as used for recall */
+  effectiveImportance: number
+  sourceMessage: TimelineSourceMessage | null
+  /** The memory names a source message that no longer exists */
+  sourceMissing: boolean
+}
+
+export interface MemoryTimelineDay {
+  /** Day (YYYY-MM-DD, UTC) */
+  date: string
+  memories: TimelineMemory[]
+}
+
+export interface MemoryTimelineGroup {
+  /** Null for memories not formed in a chat */
+  chatId: string | null
+  chatTitle: string | null
+  /** False when the chat has since been deleted */
+  chatExists: boolean
+  /** Most recent memory in the group */
+  latestAt: string
+  count: number
+  /** Newest day first */
+  days: MemoryTimelineDay[]
+}
+
+export interface MemoryTimeline {
+  groups: MemoryTimelineGroup[]
+  /** Memories on the timeline after filtering */
+  total: number
+  /** Values the filters can take for this character's memories */
+  filterOptions: {
+    personas: { id: string; name: string }[]
+    tags: { id: string; name: string }[]
+  }
+}
+
+/**
+ * Applies timeline filters to a list of memories
+ */
+export function filterTimelineMemories(
+  memories: Memory[],
+  filters: MemoryTimelineFilters,
+  now: number = Date.now()
+): Memory[] {
+  const tagIds = filters.tagIds?.length ? new Set(filters.tagIds) : null
+
+  return memories.filter(memory => {
+    if (filters.personaId !== undefined && (memory.personaId ?? null) !== filters.personaId) {
+      return false
+    }
+    if (filters.source && memory.source !== filters.source) {
+      return false
+    }
+    if (filters.minImportance !== undefined || filters.maxImportance !== undefined) {
+      const importance = getEffectiveImportance(memory, now)
+      if (filters.minImportance !== undefined && importance < filters.minImportance) {
+        return false
+      }
+      if (filters.maxImportance !== undefined && importance > filters.maxImportance) {
+        return false
+      }
+    }
+    if (tagIds && !memory.tags.some(tagId => tagIds.has(tagId))) {
+      return false
+    }
+    return true
+  })
+}
+
+/**
+ * Groups timeline entries by chat, then by day
+ *
+ * Groups are ordered by their most recent memory, newest first.
+ */
+export function groupMemoryTimeline(
+  entries: TimelineMemory[],
+  chats: Map<string, { title: string }>
+): MemoryTimelineGroup[] {
+  const byChat = new Map<string | null, TimelineMemory[]>()
+  for (const entry of entries) {
+    const chatId = entry.memory.chatId ?? null
+    const group = byChat.get(chatId)
+    if (group) {
+      group.push(entry)
+    } else {
+      byChat.set(chatId, [entry])
+    }
+  }
+
+  const groups: MemoryTimelineGroup[] = []
+  for (const [chatId, chatEntries] of byChat) {
+    chatEntries.sort((a, b) => b.memory.createdAt.localeCompare(a.memory.createdAt))
+
+    const days: MemoryTimelineDay[] = []
+    for (const entry of chatEntries) {
+      const date = entry.memory.createdAt.slice(0, 10)
+      const day = days[days.length - 1]
+      if (day?.date === date) {
+        day.memories.push(entry)
+      } else {
+        days.push({ date, memories: [entry] })
+      }
+    }
+
+    const chat = chatId ? chats.get(chatId) : undefined
+    groups.push({
+      chatId,
+      chatTitle: chat?.title ?? null,
+      chatExists: !!chat,
+      latestAt: chatEntries[0].memory.createdAt,
+      count: chatEntries.length,
+      days,
+    })
+  }
+
+  return groups.sort((a, b) => b.latestAt.localeCompare(a.latestAt))
+}
+
+/**
+ * Build the timeline of a character's memories
+ *
+ * Chats the user doesn't own are treated as missing.
+ */
+export async function buildMemoryTimeline(
+  characterId: string,
+  userId: string,
+  filters: MemoryTimelineFilters = {}
+): Promise<MemoryTimeline> {
+  const repos = getRepositories()
+  const allMemories = await repos.memories.findByCharacterId(characterId)
+  const now = Date.now()
+  const memories = filterTimelineMemories(allMemories, filters, now)
+
+  // Load each referenced chat once, and its messages only when needed
+  const chats = new Map<string, { title: string }>()
+  const messages = new Map<string, MessageEvent>()
+  const chatIds = new Set(memories.map(m => m.chatId).filter((id): id is string => !!id))
+  for (const chatId of chatIds) {
+    const chat = await repos.chats.findById(chatId)
+    if (!chat || chat.userId !== userId) {
+      continue
+    }
+    chats.set(chatId, { title: chat.title })
+
+    if (memories.some(m => m.chatId === chatId && m.sourceMessageId)) {
+      for (const event of await repos.chats.getMessages(chatId)) {
+        if (event.type === 'message') {
+          messages.set(event.id, event)
+        }
+      }
+    }
+  }
+
+  const entries: TimelineMemory[] = memories.map(({ embedding: _embedding, ...memory }) => {
+    const message = memory.sourceMessageId ? messages.get(memory.sourceMessageId) : undefined
+    return {
+      memory,
+      effectiveImportance: getEffectiveImportance(memory, now),
+      sourceMessage: message
+        ? {
+          id: message.id,
+          role: message.role,
+          excerpt: message.content.length > SOURCE_EXCERPT_LENGTH
+            ? `${message.content.slice(0, SOURCE_EXCERPT_LENGTH)}…`
+            : message.content,
+          createdAt: message.createdAt,
+        }
+        : null,
+      sourceMissing: !!memory.sourceMessageId && !message,
+    }
+  })
+
+  // Filter options come from every memory, so narrowing one filter doesn't
+  // hide the choices for the others
+  const personaIds = new Set(allMemories.map(m => m.personaId).filter((id): id is string => !!id))
+  const tagIds = new Set(allMemories.flatMap(m => m.tags))
+  const personas: { id: string; name: string }[] = []
+  for (const personaId of personaIds) {
+    const persona = await repos.personas.findById(personaId)
+    if (persona && persona.userId === userId) {
+      personas.push({ id: persona.id, name: persona.name })
+    }
+  }
+  const tags: { id: string; name: string }[] = []
+  for (const tagId of tagIds) {
+    const tag = await repos.tags.findById(tagId)
+    if (tag) {
+      tags.push({ id: tag.id, name: tag.name })
+    }
+  }
+
+  return {
+    groups: groupMemoryTimeline(entries, chats),
+    total: entries.length,
+    filterOptions: {
+      personas: personas.sort((a, b) => a.name.localeCompare(b.name)),
+      tags: tags.sort((a, b) => a.name.localeCompare(b.name)),
+    },
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Memory Export and Import
+ *
+ * Moves a character's long-term memory between instances, or backs it up on
+ * its own. Exports are a single JSON document or JSONL (a header line
+ * followed by one memory per line, for large memory sets). Tags travel by
+ * name, and the embedding model that produced any included vectors is
+ * recorded so the importing side can tell whether they are usable.
+ *
+ * Imports skip memories whose content the character already has and run the
+ * memory.create plugin hook on the rest, as new memories do. Included
+ * vectors are reused when they come from the model of the character's vector
+ * index and match its dimensions; otherwise the memory is re-embedded with the
+ * importing user's embedding profile.
+ */
+
+import { z } from 'zod'
+import { getRepositories } from '@/lib/repositories/factory'
+import { Character, EmbeddingProfile, Memory, MemorySchema } from '@/lib/schemas/types'
+import {
+  EmbeddingResult,
+  generateEmbeddingForUser,
+  getDefaultEmbeddingProfile,
+  getEmbeddingProfile,
+} from '@/lib/embedding/embedding-service'
+import { getCharacterVectorStore } from '@/lib/embedding/vector-store'
+import { logger } from '@/lib/logger'
+import { HOOK_POINTS, runHook } from '@/lib/plugins/hook-bus'
+import { embeddingModelOf, sameEmbeddingModel } from './embedding-migration'
+import { indexEmbedding } from './memory-service'
+
+export const MEMORY_EXPORT_FORMAT = 'quilltap-memories'
+export const MEMORY_EXPORT_VERSION = 1
+
+/**
+ * The embedding model behind the vectors in an export
+ */
+export const MemoryExportEmbeddingSchema = z.object({
+  provider: z.string(),
+  modelName: z.string(),
+  dimensions: z.number().int().positive(),
+})
+
+export type MemoryExportEmbedding = z.infer<typeof MemoryExportEmbeddingSchema>
+
+/**
+ * A memory as exported: no owning character, tags by name
+ */
+export const ExportedMemorySchema = MemorySchema
+  .omit({ characterId: true, tags: true })
+  .extend({ tags: z.array(z.string()).default([]) })
+
+export type ExportedMemory = z.infer<typeof ExportedMemorySchema>
+
+/**
+ * Everything in an export except the memories (the JSONL header line)
+ */
+export const MemoryExportHeaderSchema = z.object({
+  format: z.literal(MEMORY_EXPORT_FORMAT),
+  version: z.number().int().max(MEMORY_EXPORT_VERSION),
+  exportedAt: z.string(),
+  character: z.object({ id: z.string(), name: z.string() }),
+  embedding: MemoryExportEmbeddingSchema.nullable(),
+  count: z.number().int().min(0),
+})
+
+export type MemoryExportHeader = z.infer<typeof MemoryExportHeaderSchema>
+
+export const MemoryExportSchema = MemoryExportHeaderSchema.extend({
+  memories: z.array(ExportedMemorySchema),
+})
+
+export type MemoryExport = z.infer<typeof MemoryExportSchema>
+
+export type MemoryExportFormat = 'json' | 'jsonl'
+
+/**
+ * Options for exporting a character's memories
+ */
+export interface MemoryExportOptions {
+  /** User ID, for resolving tag names and the embedding profile */
+  userId: string
+  /** Include embedding vectors (default: false) */
+  includeEmbeddings?: boolean
+  /** Embedding profile the vectors were generated with (default: the user's default profile) */
+  embeddingProfileId?: string
+}
+
+/**
+ * Options for importing memories into a character
+ */
+export interface MemoryImportOptions {
+  /** User ID, for tags, ownership checks and embeddings */
+  userId: string
+  /** Embedding profile for re-embedding (default: the user's default profile) */
+  embeddingProfileId?: string
+}
+
+/**
+ * Result of a memory import
+ */
+export interface MemoryImportResult {
+  /** Memories added to the character */
+  imported: number
+  /** Memories skipped because the character already had the same content */
+  duplicates: number
+  /** Memories a plugin's memory.create hook refused */
+  vetoed: number
+  /** Imported vectors that were reused as-is */
+  embeddingsReused: number
+  /** Memories embedded again with the importing user's profile */
+  reembedded: number
+  /** Memories left without a vector (no profile, or embedding failed) */
+  unembedded: number
+}
+
+/**
+ * Error thrown when an import file can't be read as a memory export
+ */
+export class MemoryImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MemoryImportError'
+  }
+}
+
+function contentKey(content: string): string {
+  return content.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+async function resolveEmbeddingProfile(userId: string, profileId?: string): Promise<EmbeddingProfile | null> {
+  const profile = profileId ? await getEmbeddingProfile(profileId) : null
+  return profile ?? getDefaultEmbeddingProfile(userId)
+}
+
+/**
+ * Builds an export of a character's memories
+ */
+export async function exportCharacterMemories(
+  character: Pick<Character, 'id' | 'name'>,
+  options: MemoryExportOptions
+): Promise<MemoryExport> {
+  const repos = getRepositories()
+  const [memories, tags] = await Promise.all([
+    repos.memories.findByCharacterId(character.id),
+    repos.tags.findByUserId(options.userId),
+  ])
+  const tagNames = new Map(tags.map(tag => [tag.id, tag.name]))
+
+  let embedding: MemoryExportEmbedding | null = null
+  if (options.includeEmbeddings) {
+    const sample = memories.find(m => m.embedding?.length)
+    const profile = sample ? await resolveEmbeddingProfile(options.userId, options.embeddingProfileId) : null
+    if (sample && profile) {
+      embedding = { provider: profile.provider, modelName: profile.modelName, dimensions: sample.embedding!.length }
+    }
+  }
+
+  return {
+    format: MEMORY_EXPORT_FORMAT,
+    version: MEMORY_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    character: { id: character.id, name: character.name },
+    embedding,
+    count: memories.length,
+    memories: memories.map(({ characterId: _characterId, tags: tagIds, embedding: vector, ...memory }) => ({
+      ...memory,
+      tags: tagIds.map(id => tagNames.get(id)).filter((name): name is string => !!name),
+      ...(embedding && vector?.length === embedding.dimensions ? { embedding: vector } : {}),
+    })),
+  }
+}
+
+/**
+ * Serializes an export as JSON or JSONL
+ */
+export function serializeMemoryExport(data: MemoryExport, format: MemoryExportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(data, null, 2)
+  }
+  const { memories, ...header } = data
+  return [header, ...memories].map(line => JSON.stringify(line)).join('\n') + '\n'
+}
+
+/**
+ * Reads a JSON or JSONL memory export
+ * @throws MemoryImportError if the text isn't a memory export
+ */
+export function parseMemoryExport(text: string): MemoryExport {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean)
+    try {
+      const [header, ...memories] = lines.map(line => JSON.parse(line))
+      raw = { ...header, memories }
+    } catch {
+      throw new MemoryImportError('File is not valid JSON or JSONL')
+    }
+  }
+
+  const parsed = MemoryExportSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0]
+    throw new MemoryImportError(
+      `Not a Quilltap memory export${issue ? ` (${issue.path.join('.') || 'root'}: ${issue.message})` : ''}`
+    )
+  }
+  return parsed.data
+}
+
+/**
+ * Imports exported memories into a character
+ *
+ * Memories keep their timestamps, importance history and provenance but get
+ * new IDs. Persona and chat links are kept only when the importing user owns
+ * that persona or chat; a memory limited to a dropped link becomes GLOBAL.
+ */
+export async function importCharacterMemories(
+  characterId: string,
+  data: MemoryExport,
+  options: MemoryImportOptions
+): Promise<MemoryImportResult> {
+  const repos = getRepositories()
+  const result: MemoryImportResult = { imported: 0, duplicates: 0, vetoed: 0, embeddingsReused: 0, reembedded: 0, unembedded: 0 }
+
+  // Deduplicate against the character's memories and within the file
+  const seen = new Set((await repos.memories.findByCharacterId(characterId)).map(m => contentKey(m.content)))
+  const incoming: ExportedMemory[] = []
+  for (const memory of data.memories) {
+    const key = contentKey(memory.content)
+    if (seen.has(key)) {
+      result.duplicates++
+      continue
+    }
+    seen.add(key)
+    incoming.push(memory)
+  }
+
+  if (incoming.length === 0) {
+    return result
+  }
+
+  // Tags are matched by name and created when missing
+  const tagIds = new Map<string, string>()
+  for (const name of new Set(incoming.flatMap(m => m.tags))) {
+    const tag = await repos.tags.findByName(options.userId, name)
+      ?? await repos.tags.create({ userId: options.userId, name, nameLower: name.toLowerCase(), quickHide: false })
+    tagIds.set(name, tag.id)
+  }
+
+  const owned = new Map<string, boolean>()
+  const ownedLink = async (kind: 'persona' | 'chat', id: string | null | undefined): Promise<string | null> => {
+    if (!id) {
+      return null
+    }
+    const key = `${kind}:${id}`
+    if (!owned.has(key)) {
+      const entity = kind === 'persona' ? await repos.personas.findById(id) : await repos.chats.findById(id)
+      owned.set(key, entity?.userId === options.userId)
+    }
+    return owned.get(key) ? id : null
+  }
+
+  // Decide which vectors can be kept before inserting: they have to come from
+  // the model the character's index is built with, or that the profile will
+  // give an empty index
+  const profile = await resolveEmbeddingProfile(options.userId, options.embeddingProfileId)
+  const vectorStore = await getCharacterVectorStore(characterId)
+  const targetModel = vectorStore.getModel() ?? (profile ? embeddingModelOf(profile) : null)
+  const targetDimensions = vectorStore.getDimensions() ?? profile?.dimensions ?? null
+  const reusable = (memory: ExportedMemory) =>
+    !!targetModel &&
+    !!memory.embedding?.length &&
+    (!data.embedding || sameEmbeddingModel(data.embedding, targetModel)) &&
+    (targetDimensions === null || memory.embedding.length === targetDimensions)
+
+  const toInsert: Omit<Memory, 'id'>[] = []
+  for (const memory of incoming) {
+    const { id: _id, tags, embedding, visibility, ...rest } = memory
+    const personaId = await ownedLink('persona', memory.personaId)
+    const chatId = await ownedLink('chat', memory.chatId)
+    // A memory limited to a persona or chat that didn't come along is recalled everywhere
+    const scopeDropped =
+      (visibility === 'PERSONA' && !!memory.personaId && !personaId) ||
+      (visibility === 'CHAT' && !!memory.chatId && !chatId)
+    const candidate: Omit<Memory, 'id' | 'embedding'> = {
+      ...rest,
+      characterId,
+      tags: tags.map(name => tagIds.get(name)!),
+      personaId,
+      chatId,
+      ...(visibility && !scopeDropped ? { visibility } : {}),
+    }
+
+    // Plugins may rewrite or veto imported memories just like new ones
+    const hook = await runHook(HOOK_POINTS.MEMORY_CREATE, { ...candidate, userId: options.userId })
+    if (hook.vetoed) {
+      result.vetoed++
+      continue
+    }
+    const { userId: _userId, ...data } = hook.payload
+    // A vector only fits the text it was made from
+    const unchanged = data.content === candidate.content && data.summary === candidate.summary
+    toInsert.push({
+      ...data,
+      characterId,
+      embedding: reusable(memory) && unchanged ? embedding : null,
+    })
+  }
+
+  if (toInsert.length === 0) {
+    return result
+  }
+
+  const inserted = await repos.memories.bulkInsert(toInsert)
+  result.imported = inserted.length
+
+  for (const memory of inserted) {
+    try {
+      let embedding: EmbeddingResult
+      if (memory.embedding?.length && targetModel) {
+        const model = data.embedding ?? targetModel
+        embedding = { embedding: memory.embedding, model: model.modelName, provider: model.provider, dimensions: memory.embedding.length }
+        result.embeddingsReused++
+      } else if (profile) {
+        embedding = await generateEmbeddingForUser(`${memory.summary}\n\n${memory.content}`, options.userId, profile.id)
+        await repos.memories.updateForCharacter(characterId, memory.id, { embedding: embedding.embedding })
+        result.reembedded++
+      } else {
+        result.unembedded++
+        continue
+      }
+
+      await indexEmbedding(vectorStore, characterId, memory.id, memory.summary, embedding)
+    } catch (error) {
+      result.unembedded++
+      logger.warn(`[Memory] Could not embed imported memory ${memory.id}`, { characterId, error: String(error) })
+    }
+  }
+  await vectorStore.save()
+
+  logger.info('[Memory] Imported memories', { characterId, ...result })
+  return result
+}
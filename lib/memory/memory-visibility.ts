@@ -0,0 +1,76 @@
+/**
+ * Memory Visibility
+ *
+ * A memory is GLOBAL (recalled anywhere), PERSONA (recalled only while the
+ * user speaks as the persona it was formed with) or CHAT (recalled only in the
+ * chat it was formed in). Memories written before visibility existed have no
+ * value and count as GLOBAL.
+ *
+ * Visibility is enforced where memories reach the model: context injection
+ * and the memory_search tool. Management screens still see every memory.
+ */
+
+import type { Memory, MemoryVisibility } from '@/lib/schemas/types'
+
+/**
+ * Where a memory is being recalled
+ */
+export interface MemoryScope {
+  /** Persona the user is speaking as; null when none */
+  personaId?: string | null
+  /** Chat the memory would be recalled into */
+  chatId?: string | null
+}
+
+/**
+ * A memory's visibility, treating unset as GLOBAL
+ */
+export function visibilityOf(memory: Pick<Memory, 'visibility'>): MemoryVisibility {
+  return memory.visibility ?? 'GLOBAL'
+}
+
+/**
+ * Whether a memory may be recalled in the given scope
+ *
+ * A persona-only memory formed without a persona belongs to chats without one.
+ */
+export function isMemoryVisible(
+  memory: Pick<Memory, 'visibility' | 'personaId' | 'chatId'>,
+  scope: MemoryScope
+): boolean {
+  switch (visibilityOf(memory)) {
+    case 'PERSONA':
+      return (memory.personaId ?? null) === (scope.personaId ?? null)
+    case 'CHAT':
+      return !!memory.chatId && memory.chatId === scope.chatId
+    default:
+      return true
+  }
+}
+
+/**
+ * Memories visible in a scope
+ */
+export function filterVisibleMemories<T extends Pick<Memory, 'visibility' | 'personaId' | 'chatId'>>(
+  memories: T[],
+  scope: MemoryScope
+): T[] {
+  return memories.filter(memory => isMemoryVisible(memory, scope))
+}
+
+/**
+ * Key shared by memories recalled in exactly the same places
+ *
+ * Consolidation only merges memories with the same key, so a merge never
+ * widens or narrows where its content can be recalled.
+ */
+export function memoryScopeKey(memory: Pick<Memory, 'visibility' | 'personaId' | 'chatId'>): string {
+  switch (visibilityOf(memory)) {
+    case 'PERSONA':
+      return `PERSONA:${memory.personaId ?? ''}`
+    case 'CHAT':
+      return `CHAT:${memory.chatId ?? ''}`
+    default:
+      return 'GLOBAL'
+  }
+}
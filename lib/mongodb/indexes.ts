@@ -114,6 +114,33 @@ export const INDEX_DEFINITIONS: Record<string, IndexDefinition[]> = {
     },
   ],
 
+  // Memory proposals collection indexes
+  memory_proposals: [
+    {
+      key: { characterId: 1, status: 1 },
+    },
+  ],
+
+  // Embedding migrations collection indexes
+  embedding_migrations: [
+    {
+      key: { characterId: 1, createdAt: -1 },
+    },
+    {
+      key: { userId: 1, status: 1 },
+    },
+  ],
+
+  // SillyTavern imports collection indexes
+  sillytavern_imports: [
+    {
+      key: { userId: 1, createdAt: -1 },
+    },
+    {
+      key: { userId: 1, 'items.hash': 1 },
+    },
+  ],
+
   // Tags collection indexes
   tags: [
     {
@@ -132,6 +159,14 @@ export const INDEX_DEFINITIONS: Record<string, IndexDefinition[]> = {
     },
   ],
 
+  // Vector index chunks collection indexes
+  vector_index_chunks: [
+    {
+      key: { characterId: 1, chunkIndex: 1 },
+      options: { unique: true },
+    },
+  ],
+
   // Files collection indexes
   files: [
     {
@@ -0,0 +1,248 @@
+/**
+ * MongoDB Embedding Migrations Repository
+ *
+ * Tracks re-embedding jobs: a character's memories being embedded with a new
+ * model into a shadow vector index. Progress is persisted so an interrupted
+ * job can resume. Uses the 'embedding_migrations' collection.
+ */
+
+import {
+  EmbeddingMigration,
+  EmbeddingMigrationSchema,
+  EmbeddingMigrationStatus,
+} from '@/lib/schemas/types';
+import { logger } from '@/lib/logger';
+import { MongoBaseRepository } from './base.repository';
+
+/**
+ * Embedding Migrations Repository
+ * Manages EmbeddingMigration entities
+ */
+export class EmbeddingMigrationsRepository extends MongoBaseRepository<EmbeddingMigration> {
+  constructor() {
+    super('embedding_migrations', EmbeddingMigrationSchema);
+  }
+
+  /**
+   * Find an embedding migration by ID
+   */
+  async findById(id: string): Promise<EmbeddingMigration | null> {
+    try {
+      logger.debug('Finding embedding migration by ID', { migrationId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const doc = await collection.findOne({ id });
+
+      if (!doc) {
+        logger.debug('Embedding migration not found', { migrationId: id });
+        return null;
+      }
+
+      return this.validate(doc);
+    } catch (error) {
+      logger.error('Error finding embedding migration by ID', {
+        migrationId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Find all embedding migrations
+   */
+  async findAll(): Promise<EmbeddingMigration[]> {
+    try {
+      logger.debug('Finding all embedding migrations', { collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({}).toArray();
+
+      return docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+    } catch (error) {
+      logger.error('Error finding all embedding migrations', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find the most recent embedding migration for a character
+   * @param characterId The character ID
+   * @param statuses Only consider migrations with one of these statuses
+   */
+  async findLatestByCharacterId(
+    characterId: string,
+    statuses?: EmbeddingMigrationStatus[]
+  ): Promise<EmbeddingMigration | null> {
+    try {
+      logger.debug('Finding latest embedding migration for character', { characterId, statuses, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const doc = await collection.findOne(
+        statuses ? { characterId, status: { $in: statuses } } : { characterId },
+        { sort: { createdAt: -1 } }
+      );
+
+      return doc ? this.validate(doc) : null;
+    } catch (error) {
+      logger.error('Error finding latest embedding migration for character', {
+        characterId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Find a user's embedding migrations with the given status
+   */
+  async findByUserId(userId: string, status?: EmbeddingMigrationStatus): Promise<EmbeddingMigration[]> {
+    try {
+      logger.debug('Finding embedding migrations by user ID', { userId, status, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection
+        .find(status ? { userId, status } : { userId })
+        .sort({ createdAt: -1 })
+        .toArray();
+
+      return docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+    } catch (error) {
+      logger.error('Error finding embedding migrations by user ID', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Create a new embedding migration
+   */
+  async create(data: Omit<EmbeddingMigration, 'id' | 'createdAt' | 'updatedAt'>): Promise<EmbeddingMigration> {
+    try {
+      logger.debug('Creating new embedding migration', {
+        characterId: data.characterId,
+        toModel: data.toModel,
+        generation: data.generation,
+      });
+
+      const id = this.generateId();
+      const now = this.getCurrentTimestamp();
+
+      const migration: EmbeddingMigration = {
+        ...data,
+        id,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const validated = this.validate(migration);
+      const collection = await this.getCollection();
+      await collection.insertOne(validated as any);
+
+      logger.info('Embedding migration created successfully', { migrationId: id, characterId: data.characterId });
+      return validated;
+    } catch (error) {
+      logger.error('Error creating embedding migration', {
+        characterId: data.characterId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update an embedding migration
+   */
+  async update(id: string, data: Partial<EmbeddingMigration>): Promise<EmbeddingMigration | null> {
+    try {
+      logger.debug('Updating embedding migration', { migrationId: id, collection: this.collectionName });
+
+      const existing = await this.findById(id);
+      if (!existing) {
+        logger.warn('Embedding migration not found for update', { migrationId: id });
+        return null;
+      }
+
+      const updated: EmbeddingMigration = {
+        ...existing,
+        ...data,
+        id: existing.id,
+        userId: existing.userId,
+        characterId: existing.characterId,
+        createdAt: existing.createdAt,
+        updatedAt: this.getCurrentTimestamp(),
+      };
+
+      const validated = this.validate(updated);
+      const collection = await this.getCollection();
+      await collection.updateOne({ id }, { $set: validated as any });
+
+      logger.debug('Embedding migration updated successfully', { migrationId: id });
+      return validated;
+    } catch (error) {
+      logger.error('Error updating embedding migration', {
+        migrationId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an embedding migration
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      logger.debug('Deleting embedding migration', { migrationId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const result = await collection.deleteOne({ id });
+
+      if (result.deletedCount === 0) {
+        logger.warn('Embedding migration not found for deletion', { migrationId: id });
+        return false;
+      }
+
+      logger.info('Embedding migration deleted successfully', { migrationId: id });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting embedding migration', {
+        migrationId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all of a character's embedding migrations
+   * @returns Number of migrations deleted
+   */
+  async deleteByCharacterId(characterId: string): Promise<number> {
+    try {
+      logger.debug('Deleting embedding migrations for character', { characterId, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const result = await collection.deleteMany({ characterId });
+
+      logger.debug('Embedding migrations deleted for character', { characterId, deletedCount: result.deletedCount });
+      return result.deletedCount || 0;
+    } catch (error) {
+      logger.error('Error deleting embedding migrations for character', {
+        characterId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
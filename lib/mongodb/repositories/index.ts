@@ -22,6 +22,11 @@ export { MongoImageProfilesRepository } from './image-profiles.repository';
 export { EmbeddingProfilesRepository } from './embedding-profiles.repository';
 export { MemoriesRepository } from './memories.repository';
 export { FilesRepository } from './files.repository';
+export { LorebooksRepository } from './lorebooks.repository';
+export { McpServersRepository } from './mcp-servers.repository';
+export { MemoryProposalsRepository } from './memory-proposals.repository';
+export { EmbeddingMigrationsRepository } from './embedding-migrations.repository';
+export { SillyTavernImportsRepository } from './sillytavern-imports.repository';
 
 // Import all repository classes
 import { MongoBaseRepository } from './base.repository';
@@ -35,6 +40,11 @@ import { MongoImageProfilesRepository } from './image-profiles.repository';
 import { EmbeddingProfilesRepository } from './embedding-profiles.repository';
 import { MemoriesRepository } from './memories.repository';
 import { FilesRepository } from './files.repository';
+import { LorebooksRepository } from './lorebooks.repository';
+import { McpServersRepository } from './mcp-servers.repository';
+import { MemoryProposalsRepository } from './memory-proposals.repository';
+import { EmbeddingMigrationsRepository } from './embedding-migrations.repository';
+import { SillyTavernImportsRepository } from './sillytavern-imports.repository';
 
 /**
  * Container interface for all repository instances.
@@ -52,6 +62,11 @@ export interface RepositoryContainer {
   embeddingProfiles: EmbeddingProfilesRepository;
   memories: MemoriesRepository;
   files: FilesRepository; // For direct file access
+  lorebooks: LorebooksRepository;
+  mcpServers: McpServersRepository;
+  memoryProposals: MemoryProposalsRepository;
+  embeddingMigrations: EmbeddingMigrationsRepository;
+  sillyTavernImports: SillyTavernImportsRepository;
 }
 
 /**
@@ -81,6 +96,11 @@ export function createRepositories(): RepositoryContainer {
       embeddingProfiles: new EmbeddingProfilesRepository(),
       memories: new MemoriesRepository(),
       files: new FilesRepository(),
+      lorebooks: new LorebooksRepository(),
+      mcpServers: new McpServersRepository(),
+      memoryProposals: new MemoryProposalsRepository(),
+      embeddingMigrations: new EmbeddingMigrationsRepository(),
+      sillyTavernImports: new SillyTavernImportsRepository(),
     };
 
     logger.debug('Repository container created successfully', {
@@ -0,0 +1,280 @@
+/**
+ * MongoDB Lorebooks Repository
+ *
+ * Handles CRUD operations for Lorebook (world info) entities in MongoDB.
+ * Lorebooks are attached to characters, personas or individual chats and
+ * their entries are inserted into the LLM context when triggered.
+ * Uses the 'lorebooks' collection.
+ */
+
+import {
+  Lorebook,
+  LorebookSchema,
+} from '@/lib/schemas/types';
+import { logger } from '@/lib/logger';
+import { MongoBaseRepository } from './base.repository';
+
+/**
+ * Scope used to find the lorebooks that apply to a chat
+ */
+export interface LorebookChatScope {
+  characterIds?: string[];
+  personaIds?: string[];
+  chatId?: string;
+}
+
+/**
+ * Lorebooks Repository
+ * Manages Lorebook entities
+ */
+export class LorebooksRepository extends MongoBaseRepository<Lorebook> {
+  constructor() {
+    super('lorebooks', LorebookSchema);
+  }
+
+  /**
+   * Find a lorebook by ID
+   */
+  async findById(id: string): Promise<Lorebook | null> {
+    try {
+      logger.debug('Finding lorebook by ID', { lorebookId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const doc = await collection.findOne({ id });
+
+      if (!doc) {
+        logger.debug('Lorebook not found', { lorebookId: id });
+        return null;
+      }
+
+      return this.validate(doc);
+    } catch (error) {
+      logger.error('Error finding lorebook by ID', {
+        lorebookId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Find all lorebooks
+   */
+  async findAll(): Promise<Lorebook[]> {
+    try {
+      logger.debug('Finding all lorebooks', { collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({}).toArray();
+
+      return docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+    } catch (error) {
+      logger.error('Error finding all lorebooks', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find lorebooks by user ID
+   */
+  async findByUserId(userId: string): Promise<Lorebook[]> {
+    try {
+      logger.debug('Finding lorebooks by user ID', { userId, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({ userId }).toArray();
+
+      const validated = docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+
+      logger.debug('User lorebooks retrieved', { userId, count: validated.length });
+      return validated;
+    } catch (error) {
+      logger.error('Error finding lorebooks by user ID', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find lorebooks attached to a character
+   */
+  async findByCharacterId(characterId: string): Promise<Lorebook[]> {
+    try {
+      logger.debug('Finding lorebooks by character ID', { characterId, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({ characterIds: characterId }).toArray();
+
+      return docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+    } catch (error) {
+      logger.error('Error finding lorebooks by character ID', {
+        characterId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find enabled lorebooks attached to any of the given characters, personas or the chat
+   */
+  async findForChat(userId: string, scope: LorebookChatScope): Promise<Lorebook[]> {
+    try {
+      const conditions: Record<string, unknown>[] = [];
+      if (scope.characterIds && scope.characterIds.length > 0) {
+        conditions.push({ characterIds: { $in: scope.characterIds } });
+      }
+      if (scope.personaIds && scope.personaIds.length > 0) {
+        conditions.push({ personaIds: { $in: scope.personaIds } });
+      }
+      if (scope.chatId) {
+        conditions.push({ chatIds: scope.chatId });
+      }
+
+      if (conditions.length === 0) {
+        return [];
+      }
+
+      logger.debug('Finding lorebooks for chat scope', {
+        userId,
+        characterCount: scope.characterIds?.length ?? 0,
+        personaCount: scope.personaIds?.length ?? 0,
+        chatId: scope.chatId,
+      });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({
+        userId,
+        enabled: { $ne: false },
+        $or: conditions,
+      }).toArray();
+
+      const validated = docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+
+      logger.debug('Lorebooks found for chat scope', { userId, count: validated.length });
+      return validated;
+    } catch (error) {
+      logger.error('Error finding lorebooks for chat', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Create a new lorebook
+   */
+  async create(data: Omit<Lorebook, 'id' | 'createdAt' | 'updatedAt'>): Promise<Lorebook> {
+    try {
+      logger.debug('Creating new lorebook', {
+        userId: data.userId,
+        name: data.name,
+        entryCount: data.entries.length,
+      });
+
+      const id = this.generateId();
+      const now = this.getCurrentTimestamp();
+
+      const lorebook: Lorebook = {
+        ...data,
+        id,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const validated = this.validate(lorebook);
+      const collection = await this.getCollection();
+      await collection.insertOne(validated as any);
+
+      logger.info('Lorebook created successfully', { lorebookId: id, userId: data.userId });
+      return validated;
+    } catch (error) {
+      logger.error('Error creating lorebook', {
+        userId: data.userId,
+        name: data.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a lorebook
+   */
+  async update(id: string, data: Partial<Lorebook>): Promise<Lorebook | null> {
+    try {
+      logger.debug('Updating lorebook', { lorebookId: id, collection: this.collectionName });
+
+      const existing = await this.findById(id);
+      if (!existing) {
+        logger.warn('Lorebook not found for update', { lorebookId: id });
+        return null;
+      }
+
+      const updated: Lorebook = {
+        ...existing,
+        ...data,
+        id: existing.id,
+        userId: existing.userId,
+        createdAt: existing.createdAt,
+        updatedAt: this.getCurrentTimestamp(),
+      };
+
+      const validated = this.validate(updated);
+      const collection = await this.getCollection();
+      await collection.updateOne({ id }, { $set: validated as any });
+
+      logger.debug('Lorebook updated successfully', { lorebookId: id });
+      return validated;
+    } catch (error) {
+      logger.error('Error updating lorebook', {
+        lorebookId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a lorebook
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      logger.debug('Deleting lorebook', { lorebookId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const result = await collection.deleteOne({ id });
+
+      if (result.deletedCount === 0) {
+        logger.warn('Lorebook not found for deletion', { lorebookId: id });
+        return false;
+      }
+
+      logger.info('Lorebook deleted successfully', { lorebookId: id });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting lorebook', {
+        lorebookId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
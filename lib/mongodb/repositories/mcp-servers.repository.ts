@@ -0,0 +1,206 @@
+/**
+ * MongoDB MCP Servers Repository
+ *
+ * Handles CRUD operations for Model Context Protocol server registrations.
+ * Each user can register servers over stdio or HTTP+SSE; their tools are
+ * offered to the LLM alongside the built-in tools.
+ * Uses the 'mcp_servers' collection.
+ */
+
+import {
+  McpServer,
+  McpServerSchema,
+} from '@/lib/schemas/types';
+import { logger } from '@/lib/logger';
+import { MongoBaseRepository } from './base.repository';
+
+/**
+ * MCP Servers Repository
+ * Manages McpServer entities
+ */
+export class McpServersRepository extends MongoBaseRepository<McpServer> {
+  constructor() {
+    super('mcp_servers', McpServerSchema);
+  }
+
+  /**
+   * Find an MCP server by ID
+   */
+  async findById(id: string): Promise<McpServer | null> {
+    try {
+      logger.debug('Finding MCP server by ID', { mcpServerId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const doc = await collection.findOne({ id });
+
+      if (!doc) {
+        logger.debug('MCP server not found', { mcpServerId: id });
+        return null;
+      }
+
+      return this.validate(doc);
+    } catch (error) {
+      logger.error('Error finding MCP server by ID', {
+        mcpServerId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Find all MCP servers
+   */
+  async findAll(): Promise<McpServer[]> {
+    try {
+      logger.debug('Finding all MCP servers', { collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({}).toArray();
+
+      return docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+    } catch (error) {
+      logger.error('Error finding all MCP servers', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find MCP servers by user ID
+   */
+  async findByUserId(userId: string): Promise<McpServer[]> {
+    try {
+      logger.debug('Finding MCP servers by user ID', { userId, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({ userId }).toArray();
+
+      const validated = docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+
+      logger.debug('User MCP servers retrieved', { userId, count: validated.length });
+      return validated;
+    } catch (error) {
+      logger.error('Error finding MCP servers by user ID', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find a user's enabled MCP servers
+   */
+  async findEnabledByUserId(userId: string): Promise<McpServer[]> {
+    const servers = await this.findByUserId(userId);
+    return servers.filter((server) => server.enabled);
+  }
+
+  /**
+   * Create a new MCP server
+   */
+  async create(data: Omit<McpServer, 'id' | 'createdAt' | 'updatedAt'>): Promise<McpServer> {
+    try {
+      logger.debug('Creating new MCP server', {
+        userId: data.userId,
+        name: data.name,
+        transport: data.transport,
+      });
+
+      const id = this.generateId();
+      const now = this.getCurrentTimestamp();
+
+      const mcpServer: McpServer = {
+        ...data,
+        id,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const validated = this.validate(mcpServer);
+      const collection = await this.getCollection();
+      await collection.insertOne(validated as any);
+
+      logger.info('MCP server created successfully', { mcpServerId: id, userId: data.userId });
+      return validated;
+    } catch (error) {
+      logger.error('Error creating MCP server', {
+        userId: data.userId,
+        name: data.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update an MCP server
+   */
+  async update(id: string, data: Partial<McpServer>): Promise<McpServer | null> {
+    try {
+      logger.debug('Updating MCP server', { mcpServerId: id, collection: this.collectionName });
+
+      const existing = await this.findById(id);
+      if (!existing) {
+        logger.warn('MCP server not found for update', { mcpServerId: id });
+        return null;
+      }
+
+      const updated: McpServer = {
+        ...existing,
+        ...data,
+        id: existing.id,
+        userId: existing.userId,
+        createdAt: existing.createdAt,
+        updatedAt: this.getCurrentTimestamp(),
+      };
+
+      const validated = this.validate(updated);
+      const collection = await this.getCollection();
+      await collection.updateOne({ id }, { $set: validated as any });
+
+      logger.debug('MCP server updated successfully', { mcpServerId: id });
+      return validated;
+    } catch (error) {
+      logger.error('Error updating MCP server', {
+        mcpServerId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an MCP server
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      logger.debug('Deleting MCP server', { mcpServerId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const result = await collection.deleteOne({ id });
+
+      if (result.deletedCount === 0) {
+        logger.warn('MCP server not found for deletion', { mcpServerId: id });
+        return false;
+      }
+
+      logger.info('MCP server deleted successfully', { mcpServerId: id });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting MCP server', {
+        mcpServerId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
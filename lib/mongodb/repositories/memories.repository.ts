@@ -541,6 +541,34 @@ export class MemoriesRepository extends MongoBaseRepository<Memory> {
     }
   }
 
+  /**
+   * Insert memories that keep their original timestamps (used by imports)
+   * Each memory gets a new ID.
+   * @param memories Memories to insert
+   * @returns Promise<Memory[]> The inserted memories, in input order
+   */
+  async bulkInsert(memories: Omit<Memory, 'id'>[]): Promise<Memory[]> {
+    logger.debug('Bulk inserting memories', { count: memories.length });
+    try {
+      if (memories.length === 0) {
+        return [];
+      }
+
+      const validated = memories.map((data) => this.validate({ ...data, id: this.generateId() }));
+      const collection = await this.getCollection();
+      await collection.insertMany(validated.map((memory) => ({ ...memory })) as any[]);
+
+      logger.debug('Bulk insert completed', { count: validated.length });
+      return validated;
+    } catch (error) {
+      logger.error('Error bulk inserting memories', {
+        count: memories.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
   /**
    * Delete multiple memories for a character
    * @param characterId The character ID
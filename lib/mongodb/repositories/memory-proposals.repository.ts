@@ -0,0 +1,224 @@
+/**
+ * MongoDB Memory Proposals Repository
+ *
+ * Handles the memory review queue: merges and contradictions proposed by
+ * the consolidation pass, waiting for the user to accept, edit or reject.
+ * Uses the 'memory_proposals' collection.
+ */
+
+import {
+  MemoryProposal,
+  MemoryProposalSchema,
+  MemoryProposalStatus,
+} from '@/lib/schemas/types';
+import { logger } from '@/lib/logger';
+import { MongoBaseRepository } from './base.repository';
+
+/**
+ * Memory Proposals Repository
+ * Manages MemoryProposal entities
+ */
+export class MemoryProposalsRepository extends MongoBaseRepository<MemoryProposal> {
+  constructor() {
+    super('memory_proposals', MemoryProposalSchema);
+  }
+
+  /**
+   * Find a memory proposal by ID
+   */
+  async findById(id: string): Promise<MemoryProposal | null> {
+    try {
+      logger.debug('Finding memory proposal by ID', { proposalId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const doc = await collection.findOne({ id });
+
+      if (!doc) {
+        logger.debug('Memory proposal not found', { proposalId: id });
+        return null;
+      }
+
+      return this.validate(doc);
+    } catch (error) {
+      logger.error('Error finding memory proposal by ID', {
+        proposalId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Find all memory proposals
+   */
+  async findAll(): Promise<MemoryProposal[]> {
+    try {
+      logger.debug('Finding all memory proposals', { collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({}).toArray();
+
+      return docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+    } catch (error) {
+      logger.error('Error finding all memory proposals', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find a character's memory proposals, newest first
+   * @param characterId The character ID
+   * @param status Only return proposals with this status
+   */
+  async findByCharacterId(characterId: string, status?: MemoryProposalStatus): Promise<MemoryProposal[]> {
+    try {
+      logger.debug('Finding memory proposals by character ID', { characterId, status, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection
+        .find(status ? { characterId, status } : { characterId })
+        .sort({ createdAt: -1 })
+        .toArray();
+
+      const validated = docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+
+      logger.debug('Character memory proposals retrieved', { characterId, count: validated.length });
+      return validated;
+    } catch (error) {
+      logger.error('Error finding memory proposals by character ID', {
+        characterId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Create a new memory proposal
+   */
+  async create(data: Omit<MemoryProposal, 'id' | 'createdAt' | 'updatedAt'>): Promise<MemoryProposal> {
+    try {
+      logger.debug('Creating new memory proposal', {
+        characterId: data.characterId,
+        type: data.type,
+        memoryCount: data.memoryIds.length,
+      });
+
+      const id = this.generateId();
+      const now = this.getCurrentTimestamp();
+
+      const proposal: MemoryProposal = {
+        ...data,
+        id,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const validated = this.validate(proposal);
+      const collection = await this.getCollection();
+      await collection.insertOne(validated as any);
+
+      logger.info('Memory proposal created successfully', { proposalId: id, characterId: data.characterId });
+      return validated;
+    } catch (error) {
+      logger.error('Error creating memory proposal', {
+        characterId: data.characterId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a memory proposal
+   */
+  async update(id: string, data: Partial<MemoryProposal>): Promise<MemoryProposal | null> {
+    try {
+      logger.debug('Updating memory proposal', { proposalId: id, collection: this.collectionName });
+
+      const existing = await this.findById(id);
+      if (!existing) {
+        logger.warn('Memory proposal not found for update', { proposalId: id });
+        return null;
+      }
+
+      const updated: MemoryProposal = {
+        ...existing,
+        ...data,
+        id: existing.id,
+        characterId: existing.characterId,
+        createdAt: existing.createdAt,
+        updatedAt: this.getCurrentTimestamp(),
+      };
+
+      const validated = this.validate(updated);
+      const collection = await this.getCollection();
+      await collection.updateOne({ id }, { $set: validated as any });
+
+      logger.debug('Memory proposal updated successfully', { proposalId: id });
+      return validated;
+    } catch (error) {
+      logger.error('Error updating memory proposal', {
+        proposalId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a memory proposal
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      logger.debug('Deleting memory proposal', { proposalId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const result = await collection.deleteOne({ id });
+
+      if (result.deletedCount === 0) {
+        logger.warn('Memory proposal not found for deletion', { proposalId: id });
+        return false;
+      }
+
+      logger.info('Memory proposal deleted successfully', { proposalId: id });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting memory proposal', {
+        proposalId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all of a character's memory proposals
+   * @returns Number of proposals deleted
+   */
+  async deleteByCharacterId(characterId: string): Promise<number> {
+    try {
+      logger.debug('Deleting memory proposals for character', { characterId, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const result = await collection.deleteMany({ characterId });
+
+      logger.debug('Memory proposals deleted for character', { characterId, deletedCount: result.deletedCount });
+      return result.deletedCount || 0;
+    } catch (error) {
+      logger.error('Error deleting memory proposals for character', {
+        characterId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
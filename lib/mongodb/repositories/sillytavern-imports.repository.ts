@@ -0,0 +1,235 @@
+/**
+ * MongoDB SillyTavern Imports Repository
+ *
+ * Tracks bulk imports of SillyTavern data directories: the items found in the
+ * upload, what the user chose to do with each and how far the import got.
+ * Items keep the hash of their source so later uploads can recognise what was
+ * already imported. Uses the 'sillytavern_imports' collection.
+ */
+
+import {
+  SillyTavernImport,
+  SillyTavernImportItem,
+  SillyTavernImportSchema,
+} from '@/lib/schemas/types';
+import { logger } from '@/lib/logger';
+import { MongoBaseRepository } from './base.repository';
+
+/**
+ * SillyTavern Imports Repository
+ * Manages SillyTavernImport entities
+ */
+export class SillyTavernImportsRepository extends MongoBaseRepository<SillyTavernImport> {
+  constructor() {
+    super('sillytavern_imports', SillyTavernImportSchema);
+  }
+
+  /**
+   * Find a SillyTavern import by ID
+   */
+  async findById(id: string): Promise<SillyTavernImport | null> {
+    try {
+      logger.debug('Finding SillyTavern import by ID', { importId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const doc = await collection.findOne({ id });
+
+      if (!doc) {
+        logger.debug('SillyTavern import not found', { importId: id });
+        return null;
+      }
+
+      return this.validate(doc);
+    } catch (error) {
+      logger.error('Error finding SillyTavern import by ID', {
+        importId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Find all SillyTavern imports
+   */
+  async findAll(): Promise<SillyTavernImport[]> {
+    try {
+      logger.debug('Finding all SillyTavern imports', { collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({}).toArray();
+
+      return docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+    } catch (error) {
+      logger.error('Error finding all SillyTavern imports', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find a user's SillyTavern imports, newest first
+   */
+  async findByUserId(userId: string): Promise<SillyTavernImport[]> {
+    try {
+      logger.debug('Finding SillyTavern imports by user ID', { userId, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const docs = await collection.find({ userId }).sort({ createdAt: -1 }).toArray();
+
+      return docs
+        .map((doc) => this.validateSafe(doc))
+        .filter((result) => result.success)
+        .map((result) => result.data!);
+    } catch (error) {
+      logger.error('Error finding SillyTavern imports by user ID', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find items a user already imported, by source hash
+   * @returns The imported item for each hash found; the latest wins
+   */
+  async findImportedItemsByHashes(userId: string, hashes: string[]): Promise<Map<string, SillyTavernImportItem>> {
+    const found = new Map<string, SillyTavernImportItem>();
+    if (hashes.length === 0) {
+      return found;
+    }
+
+    try {
+      logger.debug('Finding imported SillyTavern items by hash', { userId, count: hashes.length, collection: this.collectionName });
+
+      const wanted = new Set(hashes);
+      const collection = await this.getCollection();
+      const docs = await collection
+        .find({ userId, 'items.hash': { $in: hashes } })
+        .sort({ createdAt: 1 })
+        .toArray();
+
+      for (const doc of docs) {
+        const result = this.validateSafe(doc);
+        if (!result.success) continue;
+        for (const item of result.data!.items) {
+          if (item.status === 'IMPORTED' && item.entityId && wanted.has(item.hash)) {
+            found.set(item.hash, item);
+          }
+        }
+      }
+
+      return found;
+    } catch (error) {
+      logger.error('Error finding imported SillyTavern items by hash', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return found;
+    }
+  }
+
+  /**
+   * Create a new SillyTavern import
+   */
+  async create(data: Omit<SillyTavernImport, 'id' | 'createdAt' | 'updatedAt'>): Promise<SillyTavernImport> {
+    try {
+      logger.debug('Creating new SillyTavern import', {
+        userId: data.userId,
+        filename: data.filename,
+        items: data.items.length,
+      });
+
+      const id = this.generateId();
+      const now = this.getCurrentTimestamp();
+
+      const job: SillyTavernImport = {
+        ...data,
+        id,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const validated = this.validate(job);
+      const collection = await this.getCollection();
+      await collection.insertOne(validated as any);
+
+      logger.info('SillyTavern import created successfully', { importId: id, userId: data.userId });
+      return validated;
+    } catch (error) {
+      logger.error('Error creating SillyTavern import', {
+        userId: data.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a SillyTavern import
+   */
+  async update(id: string, data: Partial<SillyTavernImport>): Promise<SillyTavernImport | null> {
+    try {
+      logger.debug('Updating SillyTavern import', { importId: id, collection: this.collectionName });
+
+      const existing = await this.findById(id);
+      if (!existing) {
+        logger.warn('SillyTavern import not found for update', { importId: id });
+        return null;
+      }
+
+      const updated: SillyTavernImport = {
+        ...existing,
+        ...data,
+        id: existing.id,
+        userId: existing.userId,
+        createdAt: existing.createdAt,
+        updatedAt: this.getCurrentTimestamp(),
+      };
+
+      const validated = this.validate(updated);
+      const collection = await this.getCollection();
+      await collection.updateOne({ id }, { $set: validated as any });
+
+      logger.debug('SillyTavern import updated successfully', { importId: id });
+      return validated;
+    } catch (error) {
+      logger.error('Error updating SillyTavern import', {
+        importId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a SillyTavern import
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      logger.debug('Deleting SillyTavern import', { importId: id, collection: this.collectionName });
+
+      const collection = await this.getCollection();
+      const result = await collection.deleteOne({ id });
+
+      if (result.deletedCount === 0) {
+        logger.warn('SillyTavern import not found for deletion', { importId: id });
+        return false;
+      }
+
+      logger.info('SillyTavern import deleted successfully', { importId: id });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting SillyTavern import', {
+        importId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
@@ -2,7 +2,15 @@
  * MongoDB Vector Indices Repository
  *
  * Stores character vector indices (embeddings for semantic search) in MongoDB.
- * Each document represents a complete vector index for a single character.
+ * Each character has one header document in `vector_indices`; its entries are
+ * split across fixed-size documents in `vector_index_chunks` so that an index
+ * can grow past the document size limit and a save only rewrites the chunks
+ * that changed. Version 1 indices kept every entry inline in the header.
+ *
+ * The header records which embedding model built the index and which
+ * generation of chunks is live. A re-embedding job writes the next
+ * generation's chunks alongside the live ones, then switches the header to
+ * them in a single write.
  */
 
 import { Collection } from 'mongodb';
@@ -22,29 +30,70 @@ const VectorEntrySchema = z.object({
     content: z.string().optional(),
   }).passthrough(),
   createdAt: z.string(),
+  /** HNSW graph state (level and links per layer), absent for version 1 entries */
+  hnsw: z.object({
+    level: z.number(),
+    neighbors: z.array(z.array(z.string())),
+  }).optional(),
+});
+
+/**
+ * The embedding model an index was built with
+ */
+const VectorIndexModelSchema = z.object({
+  provider: z.string(),
+  modelName: z.string(),
 });
 
 /**
- * Schema for a complete vector index document
+ * Schema for a vector index header document
  */
 const VectorIndexSchema = z.object({
   id: z.string(), // characterId
   characterId: z.string(),
   version: z.number(),
   dimensions: z.number(),
-  entries: z.array(VectorEntrySchema),
+  /** Inline entries (version 1 only; chunked indices keep this empty) */
+  entries: z.array(VectorEntrySchema).default([]),
+  chunkCount: z.number().optional(),
+  /** Generation whose chunks are live (indices from before generations are 0) */
+  generation: z.number().int().min(0).default(0),
+  /** Model that produced the vectors, when known */
+  model: VectorIndexModelSchema.nullable().optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
+/**
+ * Schema for one chunk of a vector index's entries
+ */
+const VectorIndexChunkSchema = z.object({
+  characterId: z.string(),
+  chunkIndex: z.number(),
+  entries: z.array(VectorEntrySchema),
+  updatedAt: z.string(),
+});
+
 export type VectorEntry = z.infer<typeof VectorEntrySchema>;
 export type VectorIndex = z.infer<typeof VectorIndexSchema>;
+export type VectorIndexModel = z.infer<typeof VectorIndexModelSchema>;
+export type VectorIndexChunk = z.infer<typeof VectorIndexChunkSchema>;
+
+/**
+ * Key a generation's chunks are stored under
+ * Generation 0 keeps the bare character ID so chunks written before
+ * generations existed still load.
+ */
+function chunkOwner(characterId: string, generation: number): string {
+  return generation === 0 ? characterId : `${characterId}@${generation}`;
+}
 
 /**
  * MongoDB repository for vector indices
  */
 export class MongoVectorIndicesRepository {
   private readonly collectionName = 'vector_indices';
+  private readonly chunksCollectionName = 'vector_index_chunks';
 
   /**
    * Get the MongoDB collection
@@ -57,6 +106,14 @@ export class MongoVectorIndicesRepository {
     return db.collection<VectorIndex>(this.collectionName);
   }
 
+  /**
+   * Get the MongoDB collection holding index chunks
+   */
+  private async getChunksCollection(): Promise<Collection<VectorIndexChunk>> {
+    const db = await getMongoDatabase();
+    return db.collection<VectorIndexChunk>(this.chunksCollectionName);
+  }
+
   /**
    * Find a vector index by character ID
    */
@@ -93,10 +150,11 @@ export class MongoVectorIndicesRepository {
   }
 
   /**
-   * Save a complete vector index for a character
-   * Uses upsert to create or replace the entire index
+   * Save a vector index header for a character
+   * Uses upsert to create or replace the header; chunked indices pass no
+   * entries and save them with saveChunk()
    */
-  async save(characterId: string, index: Omit<VectorIndex, 'id'>): Promise<VectorIndex> {
+  async save(characterId: string, index: Omit<VectorIndex, 'id' | 'generation'> & { generation?: number }): Promise<VectorIndex> {
     try {
       logger.debug('Saving vector index', {
         context: 'MongoVectorIndicesRepository.save',
@@ -109,6 +167,7 @@ export class MongoVectorIndicesRepository {
 
       const doc: VectorIndex = {
         ...index,
+        generation: index.generation ?? 0,
         id: characterId,
         characterId,
         updatedAt: now,
@@ -133,7 +192,116 @@ export class MongoVectorIndicesRepository {
   }
 
   /**
-   * Delete a vector index by character ID
+   * Find all entry chunks of one generation of a character's index, ordered
+   * by chunk index
+   */
+  async findChunks(characterId: string, generation: number = 0): Promise<VectorIndexChunk[]> {
+    try {
+      const collection = await this.getChunksCollection();
+      const docs = await collection
+        .find({ characterId: chunkOwner(characterId, generation) })
+        .sort({ chunkIndex: 1 })
+        .toArray();
+
+      // Chunks carry the generation key; callers only deal in character IDs
+      const chunks = docs.map((doc) => VectorIndexChunkSchema.parse({ ...doc, characterId }));
+      logger.debug('Vector index chunks found', {
+        characterId,
+        generation,
+        chunkCount: chunks.length,
+      });
+      return chunks;
+    } catch (error) {
+      logger.error('Error finding vector index chunks', {
+        context: 'MongoVectorIndicesRepository.findChunks',
+        characterId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace one entry chunk of a character's index
+   */
+  async saveChunk(characterId: string, chunkIndex: number, entries: VectorEntry[], generation: number = 0): Promise<void> {
+    try {
+      logger.debug('Saving vector index chunk', {
+        context: 'MongoVectorIndicesRepository.saveChunk',
+        characterId,
+        chunkIndex,
+        generation,
+        entryCount: entries.length,
+      });
+
+      const collection = await this.getChunksCollection();
+      const owner = chunkOwner(characterId, generation);
+      const doc: VectorIndexChunk = {
+        characterId: owner,
+        chunkIndex,
+        entries,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await collection.updateOne(
+        { characterId: owner, chunkIndex },
+        { $set: doc },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.error('Error saving vector index chunk', {
+        context: 'MongoVectorIndicesRepository.saveChunk',
+        characterId,
+        chunkIndex,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete one entry chunk of a character's index
+   */
+  async deleteChunk(characterId: string, chunkIndex: number, generation: number = 0): Promise<void> {
+    try {
+      const collection = await this.getChunksCollection();
+      await collection.deleteOne({ characterId: chunkOwner(characterId, generation), chunkIndex });
+    } catch (error) {
+      logger.error('Error deleting vector index chunk', {
+        context: 'MongoVectorIndicesRepository.deleteChunk',
+        characterId,
+        chunkIndex,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every chunk of one generation of a character's index
+   */
+  async deleteGeneration(characterId: string, generation: number): Promise<void> {
+    try {
+      const collection = await this.getChunksCollection();
+      const result = await collection.deleteMany({ characterId: chunkOwner(characterId, generation) });
+      logger.debug('Vector index generation deleted', {
+        characterId,
+        generation,
+        deletedChunks: result.deletedCount,
+      });
+    } catch (error) {
+      logger.error('Error deleting vector index generation', {
+        context: 'MongoVectorIndicesRepository.deleteGeneration',
+        characterId,
+        generation,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a vector index (header and chunks of every generation) by character ID
    */
   async delete(characterId: string): Promise<boolean> {
     try {
@@ -145,6 +313,9 @@ export class MongoVectorIndicesRepository {
       const collection = await this.getCollection();
       const result = await collection.deleteOne({ characterId });
 
+      const chunks = await this.getChunksCollection();
+      await chunks.deleteMany({ characterId: { $regex: `^${characterId}(@\\d+)?$` } });
+
       const deleted = result.deletedCount > 0;
       logger.debug('Vector index deletion result', { characterId, deleted });
       return deleted;
@@ -53,6 +53,18 @@ export function registerAuthProvider(plugin: AuthProviderPluginExport): void {
   });
 }
 
+/**
+ * Check that a loaded module looks like an auth provider plugin
+ */
+export function isAuthProviderPlugin(value: unknown): value is AuthProviderPluginExport {
+  const candidate = value as AuthProviderPluginExport | undefined;
+  return !!candidate &&
+    typeof candidate.config === 'object' &&
+    typeof candidate.isConfigured === 'function' &&
+    typeof candidate.getConfigStatus === 'function' &&
+    typeof candidate.createProvider === 'function';
+}
+
 /**
  * Unregister an authentication provider
  */
@@ -0,0 +1,430 @@
+/**
+ * Plugin Hook Bus
+ *
+ * Registry and dispatcher for the hooks plugins declare in their manifests.
+ * Core code calls runHook() at well-defined points in the chat and memory
+ * pipelines; registered handlers run in priority order and may transform the
+ * payload or veto the step. A failing handler is logged and skipped so one
+ * broken plugin cannot take down a chat request.
+ */
+
+import { logger } from '@/lib/logger';
+import { getEnabledPlugins } from './registry';
+import type { LoadedPlugin } from './manifest-loader';
+import type { HookConfig } from '@/lib/schemas/plugin-manifest';
+import path from 'node:path';
+
+// ============================================================================
+// HOOK POINTS
+// ============================================================================
+
+/**
+ * Hook points core code dispatches to. Manifest hook names must match one of these.
+ */
+export const HOOK_POINTS = {
+  /** Before the chat context is built; payload carries the incoming user message */
+  BEFORE_CONTEXT_BUILD: 'chat.beforeContextBuild',
+  /** After the context is built; payload carries the messages to be sent */
+  AFTER_CONTEXT_BUILD: 'chat.afterContextBuild',
+  /** Right before the provider is called; payload carries messages and model parameters */
+  BEFORE_PROVIDER_CALL: 'chat.beforeProviderCall',
+  /** For every streamed chunk of the assistant response; vetoing drops the chunk */
+  STREAM_CHUNK: 'chat.streamChunk',
+  /** After the assistant message is saved; transforms are ignored */
+  AFTER_MESSAGE_SAVE: 'chat.afterMessageSave',
+  /** Before a memory is stored; vetoing prevents the memory from being created */
+  MEMORY_CREATE: 'memory.create',
+} as const;
+
+export type HookName = typeof HOOK_POINTS[keyof typeof HOOK_POINTS];
+
+const KNOWN_HOOKS = new Set<string>(Object.values(HOOK_POINTS));
+
+/** Handlers that take longer than this are treated as failed */
+const DEFAULT_HOOK_TIMEOUT_MS = 5000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Context passed to every hook handler alongside the payload
+ */
+export interface HookContext {
+  /** The hook point being dispatched */
+  hook: HookName;
+  /** Name of the plugin that registered the handler */
+  pluginName: string;
+}
+
+/**
+ * What a handler may return:
+ * - nothing, to leave the payload untouched
+ * - `{ payload }`, to replace the payload for later handlers and the caller
+ * - `{ veto: true, reason }`, to stop the step (remaining handlers are skipped)
+ */
+export type HookHandlerResult<T> =
+  | void
+  | undefined
+  | { payload: T; veto?: false }
+  | { veto: true; reason?: string };
+
+export type HookHandler<T = any> = (
+  payload: T,
+  context: HookContext
+) => HookHandlerResult<T> | Promise<HookHandlerResult<T>>;
+
+/**
+ * A handler registered on the bus
+ */
+export interface RegisteredHook {
+  /** Hook point this handler listens to */
+  name: HookName;
+  /** Plugin that registered the handler */
+  pluginName: string;
+  /** Lower runs first (0-100) */
+  priority: number;
+  /** The handler function */
+  handler: HookHandler;
+  /** Absolute path to the handler module, when loaded from a manifest */
+  handlerPath?: string;
+}
+
+/**
+ * Result of dispatching a hook
+ */
+export interface HookRunResult<T> {
+  /** The payload after every transform */
+  payload: T;
+  /** Whether a handler vetoed the step */
+  vetoed: boolean;
+  /** Plugin that vetoed the step */
+  vetoedBy?: string;
+  /** Reason given by the vetoing handler */
+  reason?: string;
+}
+
+/**
+ * Registry for managing plugin hooks
+ */
+export interface PluginHookRegistry {
+  /** Map of hook name -> handlers sorted by priority */
+  hooks: Map<HookName, RegisteredHook[]>;
+  /** Whether the registry has been initialized */
+  initialized: boolean;
+  /** Per-handler timeout in milliseconds */
+  timeoutMs: number;
+}
+
+/**
+ * Loads a plugin handler module (plugin-initialization passes the permission sandbox)
+ */
+export type HookModuleLoader = (modulePath: string, plugin: LoadedPlugin) => unknown;
+
+// ============================================================================
+// SINGLETON REGISTRY
+// ============================================================================
+
+/**
+ * Global plugin hook registry instance
+ */
+const pluginHookRegistry: PluginHookRegistry = {
+  hooks: new Map(),
+  initialized: false,
+  timeoutMs: DEFAULT_HOOK_TIMEOUT_MS,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Checks whether a hook name is one the bus dispatches
+ */
+export function isKnownHook(name: string): name is HookName {
+  return KNOWN_HOOKS.has(name);
+}
+
+/**
+ * Picks the handler function out of a loaded module.
+ * Accepts a function export, a default export, or a named `handle` export.
+ */
+function resolveHandlerExport(mod: unknown): HookHandler | null {
+  if (typeof mod === 'function') {
+    return mod as HookHandler;
+  }
+
+  const exports = mod as { default?: unknown; handle?: unknown } | null | undefined;
+  if (typeof exports?.default === 'function') {
+    return exports.default as HookHandler;
+  }
+  if (typeof exports?.handle === 'function') {
+    return exports.handle as HookHandler;
+  }
+  if (typeof (exports?.default as { handle?: unknown } | undefined)?.handle === 'function') {
+    return (exports!.default as { handle: HookHandler }).handle;
+  }
+
+  return null;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Hook handler timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Registers a handler for a hook point
+ * @param name - The hook point
+ * @param handler - The handler function
+ * @param options - Owning plugin and priority (lower runs first, default 50)
+ */
+export function registerHookHandler<T = any>(
+  name: HookName,
+  handler: HookHandler<T>,
+  options: { pluginName: string; priority?: number; handlerPath?: string }
+): void {
+  const entry: RegisteredHook = {
+    name,
+    pluginName: options.pluginName,
+    priority: options.priority ?? 50,
+    handler: handler as HookHandler,
+    handlerPath: options.handlerPath,
+  };
+
+  const list = pluginHookRegistry.hooks.get(name) || [];
+  list.push(entry);
+  // Stable sort keeps registration order for equal priorities
+  list.sort((a, b) => a.priority - b.priority);
+  pluginHookRegistry.hooks.set(name, list);
+
+  logger.debug('Registered hook handler', {
+    hook: name,
+    plugin: options.pluginName,
+    priority: entry.priority,
+  });
+}
+
+/**
+ * Scans enabled plugins with MESSAGE_PROCESSORS capability and registers their hooks
+ * Hooks declared by plugins without the capability, unknown hook names and
+ * handler files that fail to load are logged and skipped.
+ * @param loadModule - Function used to load handler modules
+ */
+export function registerPluginHooks(loadModule: HookModuleLoader): void {
+  logger.info('Registering plugin hooks');
+
+  pluginHookRegistry.hooks.clear();
+
+  const plugins = getEnabledPlugins().filter(plugin => (plugin.manifest.hooks || []).length > 0);
+
+  logger.debug('Found enabled plugins declaring hooks', {
+    pluginCount: plugins.length,
+  });
+
+  let totalRegistered = 0;
+  let totalSkipped = 0;
+
+  for (const plugin of plugins) {
+    const hooks = plugin.manifest.hooks || [];
+
+    if (!plugin.capabilities.includes('MESSAGE_PROCESSORS')) {
+      logger.warn('Plugin declares hooks without MESSAGE_PROCESSORS capability - skipping', {
+        plugin: plugin.manifest.name,
+        hooks: hooks.map(hook => hook.name),
+      });
+      totalSkipped += hooks.length;
+      continue;
+    }
+
+    for (const hook of hooks) {
+      if (registerManifestHook(plugin, hook, loadModule)) {
+        totalRegistered++;
+      } else {
+        totalSkipped++;
+      }
+    }
+  }
+
+  pluginHookRegistry.initialized = true;
+
+  logger.info('Plugin hooks registered', {
+    totalHooks: totalRegistered,
+    skippedHooks: totalSkipped,
+    hookPoints: pluginHookRegistry.hooks.size,
+    pluginsProcessed: plugins.length,
+  });
+}
+
+function registerManifestHook(plugin: LoadedPlugin, hook: HookConfig, loadModule: HookModuleLoader): boolean {
+  const pluginName = plugin.manifest.name;
+
+  if (hook.enabled === false) {
+    logger.debug('Skipping disabled plugin hook', { plugin: pluginName, hook: hook.name });
+    return false;
+  }
+
+  if (!isKnownHook(hook.name)) {
+    logger.warn('Plugin declares unknown hook - skipping', {
+      plugin: pluginName,
+      hook: hook.name,
+      knownHooks: Array.from(KNOWN_HOOKS),
+    });
+    return false;
+  }
+
+  const handlerPath = path.resolve(process.cwd(), plugin.pluginPath, hook.handler);
+
+  try {
+    const handler = resolveHandlerExport(loadModule(handlerPath, plugin));
+    if (!handler) {
+      logger.error('Plugin hook handler module does not export a function - skipping', {
+        plugin: pluginName,
+        hook: hook.name,
+        handlerPath,
+      });
+      return false;
+    }
+
+    registerHookHandler(hook.name, handler, {
+      pluginName,
+      priority: hook.priority,
+      handlerPath,
+    });
+    return true;
+  } catch (error) {
+    logger.error('Failed to load plugin hook handler - skipping', {
+      plugin: pluginName,
+      hook: hook.name,
+      handlerPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Checks whether any handler is registered for a hook point
+ * Callers on hot paths (e.g. stream chunks) use this to skip dispatch entirely.
+ */
+export function hasHooks(name: HookName): boolean {
+  return (pluginHookRegistry.hooks.get(name)?.length ?? 0) > 0;
+}
+
+/**
+ * Dispatches a hook point
+ * Handlers run sequentially in priority order, each receiving the payload as
+ * transformed by the handlers before it. The first veto stops dispatch.
+ * Errors and timeouts are logged and the failing handler is skipped.
+ * @param name - The hook point
+ * @param payload - The payload to pass to handlers
+ * @returns The final payload and veto state
+ */
+export async function runHook<T>(name: HookName, payload: T): Promise<HookRunResult<T>> {
+  const handlers = pluginHookRegistry.hooks.get(name);
+  if (!handlers || handlers.length === 0) {
+    return { payload, vetoed: false };
+  }
+
+  let current = payload;
+
+  for (const registered of handlers) {
+    try {
+      const result = await withTimeout(
+        Promise.resolve(registered.handler(current, { hook: name, pluginName: registered.pluginName })),
+        pluginHookRegistry.timeoutMs
+      );
+
+      if (!result) {
+        continue;
+      }
+
+      if (result.veto) {
+        logger.info('Hook vetoed by plugin', {
+          hook: name,
+          plugin: registered.pluginName,
+          reason: result.reason,
+        });
+        return { payload: current, vetoed: true, vetoedBy: registered.pluginName, reason: result.reason };
+      }
+
+      if ('payload' in result && result.payload !== undefined) {
+        current = result.payload as T;
+      }
+    } catch (error) {
+      logger.error('Plugin hook handler failed - skipping', {
+        hook: name,
+        plugin: registered.pluginName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { payload: current, vetoed: false };
+}
+
+/**
+ * Removes all hooks for a specific plugin
+ * @param pluginName - The name of the plugin
+ */
+export function unregisterPluginHooks(pluginName: string): void {
+  let hooksRemoved = 0;
+
+  for (const [name, list] of pluginHookRegistry.hooks.entries()) {
+    const filtered = list.filter(hook => hook.pluginName !== pluginName);
+    hooksRemoved += list.length - filtered.length;
+
+    if (filtered.length === 0) {
+      pluginHookRegistry.hooks.delete(name);
+    } else {
+      pluginHookRegistry.hooks.set(name, filtered);
+    }
+  }
+
+  logger.info('Plugin hooks unregistered', { plugin: pluginName, hooksRemoved });
+}
+
+/**
+ * Removes every registered hook
+ */
+export function clearPluginHooks(): void {
+  pluginHookRegistry.hooks.clear();
+  pluginHookRegistry.initialized = false;
+  pluginHookRegistry.timeoutMs = DEFAULT_HOOK_TIMEOUT_MS;
+}
+
+/**
+ * Gets the current state of the plugin hook registry
+ * Useful for debugging and admin interfaces
+ * @returns Registry state information
+ */
+export function getPluginHookRegistry() {
+  const hooks = Array.from(pluginHookRegistry.hooks.entries()).map(([name, list]) => ({
+    name,
+    handlers: list.map(hook => ({
+      plugin: hook.pluginName,
+      priority: hook.priority,
+      handlerPath: hook.handlerPath,
+    })),
+  }));
+
+  return {
+    initialized: pluginHookRegistry.initialized,
+    totalHooks: hooks.reduce((sum, hook) => sum + hook.handlers.length, 0),
+    hooks,
+  };
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export { pluginHookRegistry };
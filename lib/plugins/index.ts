@@ -81,6 +81,57 @@ export {
   getPluginRouteRegistry,
 } from './route-loader';
 
+// Export hook bus
+export type {
+  HookName,
+  HookContext,
+  HookHandler,
+  HookHandlerResult,
+  HookRunResult,
+  HookModuleLoader,
+  RegisteredHook,
+  PluginHookRegistry,
+} from './hook-bus';
+
+export {
+  HOOK_POINTS,
+  pluginHookRegistry,
+  isKnownHook,
+  registerHookHandler,
+  registerPluginHooks,
+  runHook,
+  hasHooks,
+  unregisterPluginHooks,
+  clearPluginHooks,
+  getPluginHookRegistry,
+} from './hook-bus';
+
+// Export permission enforcement
+export type {
+  PermissionKind,
+  PermissionViolation,
+} from './permissions';
+
+export {
+  PluginPermissionError,
+  isPluginSandboxed,
+  isNetworkAllowed,
+  isPathAllowed,
+  isEnvAllowed,
+  checkPluginPermission,
+  recordPermissionViolation,
+  getPermissionViolations,
+  clearPermissionViolations,
+} from './permissions';
+
+export {
+  asPluginModule,
+  getPluginExport,
+  loadPluginModule,
+  resetPluginSandboxes,
+  type PluginModule,
+} from './sandbox';
+
 // Export provider plugin interfaces
 export type {
   LLMProviderPlugin,
@@ -132,3 +183,19 @@ export {
   getEmbeddingModels,
   getAllEmbeddingModels,
 } from './provider-validation';
+
+// Export search backend registry
+export type {
+  SearchBackendMetadata,
+  SearchBackendResult,
+  SearchBackendOptions,
+  SearchBackendPluginExport,
+} from './interfaces/search-backend-plugin';
+
+export {
+  registerSearchBackend,
+  isSearchBackendPlugin,
+  getSearchBackend,
+  getSearchBackendMetadata,
+  clearSearchBackends,
+} from './search-backend-registry';
@@ -26,3 +26,11 @@ export type {
 export {
   createProviderLogger,
 } from './provider-plugin';
+
+// Export search backend plugin types
+export type {
+  SearchBackendMetadata,
+  SearchBackendResult,
+  SearchBackendOptions,
+  SearchBackendPluginExport,
+} from './search-backend-plugin';
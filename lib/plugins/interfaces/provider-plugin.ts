@@ -11,6 +11,7 @@
 import { logger } from '@/lib/logger';
 import type { LLMProvider } from '@/lib/llm/base';
 import type { ImageGenProvider } from '@/lib/image-gen/base';
+import type { EmbeddingProvider } from '@/lib/embedding/base';
 
 /**
  * Provider metadata for UI display and identification
@@ -328,9 +329,18 @@ export interface LLMProviderPlugin {
    * Only required if `capabilities.embeddings` is true.
    *
    * @param baseUrl Optional base URL for the provider
-   * @returns An instantiated embedding provider
+   * @returns An instantiated EmbeddingProvider
+   *
+   * @example
+   * ```typescript
+   * createEmbeddingProvider: (baseUrl) => new OpenAICompatibleEmbeddingProvider({
+   *   provider: 'MYPROVIDER',
+   *   baseUrl: baseUrl || 'https://api.example.com/v1',
+   *   models: plugin.getEmbeddingModels?.(),
+   * }),
+   * ```
    */
-  createEmbeddingProvider?: (baseUrl?: string) => unknown;
+  createEmbeddingProvider?: (baseUrl?: string) => EmbeddingProvider;
 
   /**
    * Get list of available models for this provider
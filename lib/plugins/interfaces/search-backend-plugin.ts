@@ -0,0 +1,61 @@
+/**
+ * Search Backend Plugin Interface
+ *
+ * Defines the contract for plugins that provide a web search backend for the
+ * search_web tool (e.g. a self-hosted index or a paid search API).
+ */
+
+/**
+ * Metadata describing a search backend
+ */
+export interface SearchBackendMetadata {
+  /** Backend identifier stored in chat settings (e.g., 'kagi') */
+  backendId: string;
+
+  /** Display name for UI */
+  displayName: string;
+
+  /** Short description for the settings page */
+  description?: string;
+
+  /** Whether the backend needs an API key from the user's key store */
+  requiresApiKey?: boolean;
+
+  /** Whether the backend needs a base URL */
+  requiresBaseUrl?: boolean;
+}
+
+/**
+ * A single result returned by a search backend
+ */
+export interface SearchBackendResult {
+  title: string;
+  url: string;
+  snippet: string;
+  publishedDate?: string;
+}
+
+/**
+ * Options passed to a backend search call
+ */
+export interface SearchBackendOptions {
+  maxResults: number;
+  /** Decrypted API key, when the user selected one */
+  apiKey?: string;
+  /** Base URL configured by the user, if any */
+  baseUrl?: string;
+  /** Aborts the request when the search times out */
+  signal?: AbortSignal;
+}
+
+/**
+ * Search backend plugin export structure
+ * This is what plugin index.ts should export
+ */
+export interface SearchBackendPluginExport {
+  /** Backend metadata */
+  metadata: SearchBackendMetadata;
+
+  /** Runs a search and returns results in rank order */
+  search: (query: string, options: SearchBackendOptions) => Promise<SearchBackendResult[]>;
+}
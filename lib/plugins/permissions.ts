@@ -0,0 +1,295 @@
+/**
+ * Plugin Permissions
+ *
+ * Checks runtime access against the permissions a plugin declares in its
+ * manifest (network, fileSystem, environment, database, userData) and keeps
+ * a log of violations for the plugins tab. Builtins that no manifest can
+ * grant (child_process and friends) are reported as `module` violations.
+ *
+ * Plugins that ship with Quilltap are trusted; every other plugin is loaded
+ * through the sandbox in ./sandbox.ts, which calls into these checks.
+ */
+
+import { logger } from '@/lib/logger';
+import type { LoadedPlugin } from './manifest-loader';
+import type { Permissions } from '@/lib/schemas/plugin-manifest';
+import path from 'node:path';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PermissionKind = 'network' | 'fileSystem' | 'environment' | 'database' | 'userData' | 'module';
+
+/**
+ * A denied access attempt, aggregated by kind and target
+ */
+export interface PermissionViolation {
+  pluginName: string;
+  kind: PermissionKind;
+  /** URL, host, file path, env var or module that was denied */
+  target: string;
+  /** Number of times this access was attempted */
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/**
+ * Error thrown to plugin code when it accesses something it did not declare
+ */
+export class PluginPermissionError extends Error {
+  constructor(
+    public readonly pluginName: string,
+    public readonly kind: PermissionKind,
+    public readonly target: string
+  ) {
+    super(`Plugin "${pluginName}" is not permitted ${kind} access to ${target}`);
+    this.name = 'PluginPermissionError';
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Environment variables every plugin may read */
+const ALWAYS_VISIBLE_ENV = new Set(['NODE_ENV']);
+
+/** Violations kept per plugin; the oldest are dropped first */
+const MAX_VIOLATIONS_PER_PLUGIN = 100;
+
+// ============================================================================
+// SINGLETON VIOLATION LOG
+// ============================================================================
+
+const violationLog = new Map<string, Map<string, PermissionViolation>>();
+
+// ============================================================================
+// PERMISSION CHECKS
+// ============================================================================
+
+/**
+ * Whether a plugin has its permissions enforced
+ * Included plugins are reviewed and shipped with Quilltap, so they run unrestricted.
+ */
+export function isPluginSandboxed(plugin: Pick<LoadedPlugin, 'source'>): boolean {
+  return plugin.source !== 'included';
+}
+
+function getPermissions(plugin: Pick<LoadedPlugin, 'manifest'>): Permissions {
+  return {
+    fileSystem: plugin.manifest.permissions?.fileSystem ?? [],
+    network: plugin.manifest.permissions?.network ?? [],
+    environment: plugin.manifest.permissions?.environment ?? [],
+    database: plugin.manifest.permissions?.database ?? false,
+    userData: plugin.manifest.permissions?.userData ?? false,
+  };
+}
+
+function defaultPort(protocol: string): string {
+  if (protocol === 'https:' || protocol === 'wss:') return '443';
+  if (protocol === 'http:' || protocol === 'ws:') return '80';
+  return '';
+}
+
+/**
+ * Compares scheme, host and port
+ * URL#origin is "null" for non-special schemes such as tcp:, so it can't be used directly.
+ */
+function isSameOrigin(a: URL, b: URL): boolean {
+  return a.protocol === b.protocol &&
+    a.hostname.toLowerCase() === b.hostname.toLowerCase() &&
+    (a.port || defaultPort(a.protocol)) === (b.port || defaultPort(b.protocol));
+}
+
+/**
+ * Whether a URL falls under a URL entry: same origin, and inside the entry's
+ * path when it has one (`/v1` matches `/v1` and `/v1/chat`, not `/v10`)
+ */
+function matchesUrlEntry(entry: string, url: URL): boolean {
+  let entryUrl: URL;
+  try {
+    entryUrl = new URL(entry);
+  } catch {
+    return false;
+  }
+
+  // Lookups only carry a hostname
+  if (url.protocol === 'dns:') {
+    return entryUrl.hostname.toLowerCase() === url.hostname.toLowerCase();
+  }
+
+  if (!isSameOrigin(entryUrl, url)) {
+    return false;
+  }
+
+  const entryPath = entryUrl.pathname.replace(/\/+$/, '');
+  return !entryPath || url.pathname === entryPath || url.pathname.startsWith(`${entryPath}/`);
+}
+
+/**
+ * Checks a URL against declared network entries
+ * Entries may be `*`, a hostname (also matches subdomains), `*.domain`,
+ * `host:port`, or a URL prefix such as `https://api.example.com/v1`.
+ */
+export function isNetworkAllowed(allowed: string[], target: string | URL): boolean {
+  let url: URL;
+  try {
+    url = typeof target === 'string' ? new URL(target) : target;
+  } catch {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = url.port || defaultPort(url.protocol);
+
+  return allowed.some((rawEntry) => {
+    const entry = rawEntry.trim().toLowerCase();
+    if (!entry) return false;
+    if (entry === '*') return true;
+
+    if (entry.includes('://')) {
+      return matchesUrlEntry(entry, url);
+    }
+
+    const [host, entryPort] = entry.split(':');
+    if (entryPort && entryPort !== port) {
+      return false;
+    }
+
+    if (host.startsWith('*.')) {
+      const base = host.slice(2);
+      return hostname === base || hostname.endsWith(`.${base}`);
+    }
+
+    return hostname === host || hostname.endsWith(`.${host}`);
+  });
+}
+
+/**
+ * Checks a file path against declared fileSystem entries
+ * Entries are resolved relative to the Quilltap root; the plugin's own
+ * directory is always accessible.
+ */
+export function isPathAllowed(allowed: string[], pluginPath: string, target: string): boolean {
+  const resolved = path.resolve(target);
+  const roots = [path.resolve(pluginPath), ...allowed.map(entry => path.resolve(process.cwd(), entry))];
+
+  return roots.some(root => resolved === root || resolved.startsWith(root + path.sep));
+}
+
+/**
+ * Checks an environment variable against declared environment entries
+ */
+export function isEnvAllowed(allowed: string[], name: string): boolean {
+  return ALWAYS_VISIBLE_ENV.has(name) || allowed.includes(name);
+}
+
+/**
+ * Checks an access attempt for a plugin, recording a violation when it is denied
+ * @returns true if the access is permitted
+ */
+export function checkPluginPermission(
+  plugin: Pick<LoadedPlugin, 'manifest' | 'pluginPath' | 'source'>,
+  kind: PermissionKind,
+  target: string
+): boolean {
+  if (!isPluginSandboxed(plugin)) {
+    return true;
+  }
+
+  const permissions = getPermissions(plugin);
+  let allowed: boolean;
+
+  switch (kind) {
+    case 'network':
+      allowed = isNetworkAllowed(permissions.network, target);
+      break;
+    case 'fileSystem':
+      allowed = isPathAllowed(permissions.fileSystem, plugin.pluginPath, target);
+      break;
+    case 'environment':
+      allowed = isEnvAllowed(permissions.environment, target);
+      break;
+    case 'database':
+      allowed = permissions.database;
+      break;
+    case 'userData':
+      allowed = permissions.userData;
+      break;
+    case 'module':
+      allowed = false;
+      break;
+  }
+
+  if (!allowed) {
+    recordPermissionViolation(plugin.manifest.name, kind, target);
+  }
+
+  return allowed;
+}
+
+// ============================================================================
+// VIOLATION LOG
+// ============================================================================
+
+/**
+ * Records a denied access attempt
+ * The first occurrence of each kind/target pair is logged as a warning.
+ */
+export function recordPermissionViolation(pluginName: string, kind: PermissionKind, target: string): void {
+  const now = new Date().toISOString();
+  const key = `${kind}:${target}`;
+
+  let pluginViolations = violationLog.get(pluginName);
+  if (!pluginViolations) {
+    pluginViolations = new Map();
+    violationLog.set(pluginName, pluginViolations);
+  }
+
+  const existing = pluginViolations.get(key);
+  if (existing) {
+    existing.count++;
+    existing.lastSeen = now;
+    logger.debug('Plugin permission violation repeated', { plugin: pluginName, kind, target, count: existing.count });
+    return;
+  }
+
+  logger.warn('Plugin permission violation blocked', { plugin: pluginName, kind, target });
+
+  pluginViolations.set(key, { pluginName, kind, target, count: 1, firstSeen: now, lastSeen: now });
+
+  if (pluginViolations.size > MAX_VIOLATIONS_PER_PLUGIN) {
+    const oldestKey = pluginViolations.keys().next().value;
+    if (oldestKey !== undefined) {
+      pluginViolations.delete(oldestKey);
+    }
+  }
+}
+
+/**
+ * Gets recorded violations, most recent first
+ * @param pluginName - Limit to one plugin
+ */
+export function getPermissionViolations(pluginName?: string): PermissionViolation[] {
+  const lists = pluginName
+    ? [violationLog.get(pluginName)]
+    : Array.from(violationLog.values());
+
+  return lists
+    .flatMap(list => (list ? Array.from(list.values()) : []))
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+/**
+ * Clears recorded violations
+ * @param pluginName - Clear only this plugin's violations
+ */
+export function clearPermissionViolations(pluginName?: string): void {
+  if (pluginName) {
+    violationLog.delete(pluginName);
+  } else {
+    violationLog.clear();
+  }
+}
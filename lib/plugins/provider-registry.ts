@@ -15,6 +15,7 @@ import { logger } from '@/lib/logger';
 import type { LLMProviderPlugin, ProviderMetadata, AttachmentSupport, ProviderConfigRequirements, ImageProviderConstraints } from './interfaces/provider-plugin';
 import type { LLMProvider } from '@/lib/llm/base';
 import type { ImageGenProvider } from '@/lib/image-gen/base';
+import type { EmbeddingProvider } from '@/lib/embedding/base';
 
 // ============================================================================
 // TYPES
@@ -179,6 +180,49 @@ class ProviderRegistry {
     }
   }
 
+  /**
+   * Create an EmbeddingProvider instance from a registered plugin
+   *
+   * @param name The provider name
+   * @param baseUrl Optional base URL for providers that support custom endpoints
+   * @returns An instantiated EmbeddingProvider
+   * @throws Error if provider not found, doesn't support embeddings, or creation fails
+   */
+  createEmbeddingProvider(name: string, baseUrl?: string): EmbeddingProvider {
+    const plugin = this.getProvider(name);
+    if (!plugin) {
+      const error = `Provider '${name}' not found in registry`;
+      this.logger.error(error);
+      throw new Error(error);
+    }
+
+    if (!plugin.capabilities.embeddings) {
+      const error = `Provider '${name}' does not support embeddings`;
+      this.logger.warn(error);
+      throw new Error(error);
+    }
+
+    if (!plugin.createEmbeddingProvider) {
+      const error = `Provider '${name}' does not implement createEmbeddingProvider`;
+      this.logger.error(error);
+      throw new Error(error);
+    }
+
+    try {
+      this.logger.debug('Creating embedding provider instance', {
+        provider: name,
+        hasBaseUrl: !!baseUrl,
+      });
+      return plugin.createEmbeddingProvider(baseUrl);
+    } catch (error) {
+      this.logger.error('Failed to create embedding provider', {
+        provider: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get metadata for a specific provider
    *
@@ -436,6 +480,20 @@ export function registerProvider(plugin: LLMProviderPlugin): void {
   providerRegistry.registerProvider(plugin);
 }
 
+/**
+ * Check that a loaded module looks like an LLM provider plugin
+ *
+ * @param value The plugin object a module exports
+ * @returns true if it has provider metadata and a provider factory
+ */
+export function isLLMProviderPlugin(value: unknown): value is LLMProviderPlugin {
+  const candidate = value as LLMProviderPlugin | undefined;
+  return !!candidate &&
+    typeof candidate.metadata === 'object' &&
+    typeof candidate.metadata?.providerName === 'string' &&
+    typeof candidate.createProvider === 'function';
+}
+
 /**
  * Get a provider plugin by name
  *
@@ -0,0 +1,666 @@
+/**
+ * Plugin Sandbox
+ *
+ * Loads CommonJS plugin modules with their manifest permissions enforced.
+ * Each plugin gets its own `vm` context whose only host globals are guarded
+ * ones, and each file it loads is compiled into that context with its own
+ * `require`, so that:
+ * - `fetch`, `http`, `https`, `http2`, `net`, `tls` and `dns` only reach declared hosts
+ * - `fs` and `fs/promises` only touch declared paths and the plugin directory
+ * - `process.env` only exposes declared variables
+ * - process and module builtins (`child_process`, `worker_threads`, `vm`, ...) can't be loaded
+ * - database drivers need `database`, Quilltap repositories need `userData`
+ *
+ * Packages from Quilltap's node_modules are compiled into the plugin's context
+ * as well, so they are held to the same permissions; only database drivers and
+ * repositories granted by the manifest are loaded normally. `node:vm` is not a hard
+ * security boundary, so this catches undeclared access rather than
+ * containing deliberately hostile code.
+ */
+
+import { logger } from '@/lib/logger';
+import type { LoadedPlugin } from './manifest-loader';
+import { checkPluginPermission, isPluginSandboxed, PluginPermissionError, type PermissionKind } from './permissions';
+import fs from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import vm from 'node:vm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type SandboxedPlugin = Pick<LoadedPlugin, 'manifest' | 'pluginPath' | 'source'>;
+
+type ModuleLoader = (modulePath: string) => unknown;
+
+/**
+ * The exports of a loaded plugin module; what is under each name is checked
+ * by whoever uses it
+ */
+export interface PluginModule {
+  plugin?: unknown;
+  default?: unknown;
+  [name: string]: unknown;
+}
+
+interface SandboxState {
+  plugin: SandboxedPlugin;
+  /** Global context plugin files are compiled into */
+  context: vm.Context;
+  /** Compiled plugin files, keyed by absolute filename */
+  cache: Map<string, { exports: unknown }>;
+  /** Guarded builtins, created once per plugin */
+  builtins: Map<string, unknown>;
+  process: NodeJS.Process;
+  fetch: typeof fetch;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** fs functions whose first argument is a path */
+const FS_PATH_FUNCTIONS = new Set([
+  'access', 'appendFile', 'chmod', 'chown', 'createReadStream', 'createWriteStream', 'exists',
+  'lchmod', 'lchown', 'lstat', 'lutimes', 'mkdir', 'mkdtemp', 'open', 'opendir', 'readdir',
+  'readFile', 'readlink', 'realpath', 'rm', 'rmdir', 'stat', 'statfs', 'truncate', 'unlink',
+  'utimes', 'watch', 'watchFile', 'unwatchFile', 'writeFile',
+]);
+
+/** fs functions whose first two arguments are paths */
+const FS_TWO_PATH_FUNCTIONS = new Set(['copyFile', 'cp', 'link', 'rename', 'symlink']);
+
+/** Builtins that could start processes, load unguarded code or open raw sockets */
+const BLOCKED_MODULES = new Set([
+  'child_process', 'cluster', 'dgram', 'inspector', 'inspector/promises', 'module', 'repl',
+  'trace_events', 'v8', 'vm', 'wasi', 'worker_threads',
+]);
+
+/** process members that reach native bindings, other processes or an unguarded require */
+const BLOCKED_PROCESS_MEMBERS = new Set([
+  '_linkedBinding', 'binding', 'dlopen', 'execve', 'getBuiltinModule', 'kill', 'mainModule',
+]);
+
+/** dns functions whose first argument is a hostname */
+const DNS_HOST_FUNCTION = /^(lookup|resolve)/;
+
+/** Host globals copied into every plugin context, on top of the language builtins */
+const CONTEXT_GLOBALS = [
+  'AbortController', 'AbortSignal', 'atob', 'Blob', 'btoa', 'Buffer', 'clearImmediate', 'clearInterval',
+  'clearTimeout', 'console', 'crypto', 'Event', 'EventTarget', 'FormData', 'Headers', 'performance',
+  'queueMicrotask', 'ReadableStream', 'Request', 'Response', 'setImmediate', 'setInterval', 'setTimeout',
+  'structuredClone', 'TextDecoder', 'TextEncoder', 'TransformStream', 'URL', 'URLSearchParams',
+  'WritableStream',
+] as const;
+
+const DATABASE_MODULES = new Set(['mongodb', 'mongoose']);
+
+// ============================================================================
+// GUARDS
+// ============================================================================
+
+/**
+ * Checks an access attempt, returning the error to surface when it is denied
+ */
+function check(state: SandboxState, kind: PermissionKind, target: string): PluginPermissionError | null {
+  if (checkPluginPermission(state.plugin, kind, target)) {
+    return null;
+  }
+  return new PluginPermissionError(state.plugin.manifest.name, kind, target);
+}
+
+function pathArgument(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (value instanceof URL) return value.protocol === 'file:' ? decodeURIComponent(value.pathname) : null;
+  if (Buffer.isBuffer(value)) return value.toString();
+  // File descriptors were already checked when they were opened
+  return null;
+}
+
+/**
+ * Surfaces a denied call the way the wrapped API reports errors
+ * (rejected promise, node-style callback, or a throw)
+ */
+function failCall(denied: PluginPermissionError, args: unknown[], promiseApi: boolean, isSync = false): unknown {
+  if (promiseApi) return Promise.reject(denied);
+  const callback = args[args.length - 1];
+  if (!isSync && typeof callback === 'function') {
+    process.nextTick(callback as (error: Error) => void, denied);
+    return undefined;
+  }
+  throw denied;
+}
+
+/**
+ * Creates a guarding proxy whose property descriptors report the guarded
+ * values too, so copying a module's properties (as graceful-fs does) can't
+ * pick up the originals
+ */
+function guardProperties<T extends object>(target: T, handler: { get: NonNullable<ProxyHandler<T>['get']> }): T {
+  return new Proxy(target, {
+    get: handler.get,
+    getOwnPropertyDescriptor(obj, prop) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(obj, prop);
+      // Proxies must report fixed properties as they are
+      if (!descriptor || (!descriptor.configurable && !descriptor.writable)) return descriptor;
+      if ('value' in descriptor) return { ...descriptor, value: handler.get(obj, prop, obj) };
+      return { ...descriptor, get: () => handler.get(obj, prop, obj) };
+    },
+  });
+}
+
+/**
+ * Wraps an fs-like module so path arguments are checked before each call
+ */
+function guardFs(state: SandboxState, target: Record<string, unknown>, promiseApi: boolean): Record<string, unknown> {
+  const wrapped = new Map<PropertyKey, unknown>();
+
+  return guardProperties(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      if (typeof prop !== 'string') return value;
+
+      if (prop === 'promises' && value && typeof value === 'object') {
+        if (!wrapped.has(prop)) wrapped.set(prop, guardFs(state, value as Record<string, unknown>, true));
+        return wrapped.get(prop);
+      }
+
+      if (typeof value !== 'function') return value;
+
+      const name = prop.replace(/Sync$/, '');
+      const pathCount = FS_TWO_PATH_FUNCTIONS.has(name) ? 2 : FS_PATH_FUNCTIONS.has(name) ? 1 : 0;
+      if (pathCount === 0) return value;
+
+      if (!wrapped.has(prop)) {
+        const isSync = prop.endsWith('Sync');
+        wrapped.set(prop, (...args: unknown[]) => {
+          for (let i = 0; i < pathCount; i++) {
+            const filePath = pathArgument(args[i]);
+            const denied = filePath ? check(state, 'fileSystem', path.resolve(filePath)) : null;
+            if (denied) return failCall(denied, args, promiseApi, isSync);
+          }
+          return (value as (...a: unknown[]) => unknown).apply(obj, args);
+        });
+      }
+      return wrapped.get(prop);
+    },
+  });
+}
+
+/**
+ * Works out the destination of an http(s).request/get call
+ * An options object overrides the host, port and protocol of a URL argument,
+ * the same way Node merges them.
+ */
+function httpTarget(args: unknown[], defaultProtocol: string): string {
+  const [first, second] = args;
+  const hasUrl = typeof first === 'string' || first instanceof URL;
+
+  let url: URL;
+  try {
+    url = new URL(hasUrl ? String(first) : `${defaultProtocol}//localhost/`);
+  } catch {
+    // Let the real call report the malformed URL; checking it denies it anyway
+    return String(first);
+  }
+
+  const optionsArg = hasUrl ? second : first;
+  const options = (optionsArg && typeof optionsArg === 'object' ? optionsArg : {}) as {
+    protocol?: string; hostname?: string; host?: string; port?: number | string;
+  };
+
+  if (options.protocol) url.protocol = options.protocol;
+  const host = options.hostname || options.host;
+  if (host) url.hostname = host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+  if (options.port !== undefined && options.port !== null && options.port !== '') url.port = String(options.port);
+
+  return url.href;
+}
+
+/**
+ * Wraps a constructor so its arguments are checked before an instance is created
+ */
+function guardConstructor<T extends object>(target: T, check: (args: unknown[]) => PluginPermissionError | null): T {
+  return new Proxy(target, {
+    construct(ctor, args, newTarget) {
+      const denied = check(args);
+      if (denied) throw denied;
+      return Reflect.construct(ctor as new (...a: unknown[]) => object, args, newTarget);
+    },
+    apply(fn, thisArg, args) {
+      const denied = check(args);
+      if (denied) throw denied;
+      return Reflect.apply(fn as (...a: unknown[]) => unknown, thisArg, args);
+    },
+  });
+}
+
+function guardHttp(state: SandboxState, target: Record<string, unknown>, defaultProtocol: string): Record<string, unknown> {
+  const checkArgs = (args: unknown[]) => check(state, 'network', httpTarget(args, defaultProtocol));
+  const guard = (original: (...a: unknown[]) => unknown) => (...args: unknown[]) => {
+    const denied = checkArgs(args);
+    if (denied) throw denied;
+    return original.apply(target, args);
+  };
+
+  return guardProperties(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      if ((prop === 'request' || prop === 'get') && typeof value === 'function') {
+        return guard(value as (...a: unknown[]) => unknown);
+      }
+      if (prop === 'ClientRequest' && typeof value === 'function') {
+        return guardConstructor(value, checkArgs);
+      }
+      return value;
+    },
+  });
+}
+
+function guardHttp2(state: SandboxState, target: Record<string, unknown>): Record<string, unknown> {
+  return guardProperties(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      if (prop === 'connect' && typeof value === 'function') {
+        return (...args: unknown[]) => {
+          const denied = check(state, 'network', String(args[0]));
+          if (denied) throw denied;
+          return (value as (...a: unknown[]) => unknown).apply(obj, args);
+        };
+      }
+      return value;
+    },
+  });
+}
+
+/**
+ * Wraps dns (or dns/promises, or a Resolver) so looked-up hostnames are checked
+ */
+function guardDns(state: SandboxState, target: Record<string, unknown>, promiseApi: boolean): Record<string, unknown> {
+  const wrapped = new Map<PropertyKey, unknown>();
+
+  return guardProperties(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      if (typeof prop !== 'string') return value;
+
+      if (prop === 'promises' && value && typeof value === 'object') {
+        if (!wrapped.has(prop)) wrapped.set(prop, guardDns(state, value as Record<string, unknown>, true));
+        return wrapped.get(prop);
+      }
+
+      if (prop === 'Resolver' && typeof value === 'function') {
+        if (!wrapped.has(prop)) {
+          wrapped.set(prop, new Proxy(value, {
+            construct(ctor, args, newTarget) {
+              const resolver = Reflect.construct(ctor as new (...a: unknown[]) => object, args, newTarget);
+              return guardDns(state, resolver as Record<string, unknown>, promiseApi);
+            },
+          }));
+        }
+        return wrapped.get(prop);
+      }
+
+      if (typeof value !== 'function' || !(DNS_HOST_FUNCTION.test(prop) || prop === 'reverse')) return value;
+
+      if (!wrapped.has(prop)) {
+        wrapped.set(prop, (...args: unknown[]) => {
+          const host = String(args[0]);
+          const denied = check(state, 'network', `dns://${host.includes(':') ? `[${host}]` : host}/`);
+          if (denied) return failCall(denied, args, promiseApi);
+          return (value as (...a: unknown[]) => unknown).apply(obj, args);
+        });
+      }
+      return wrapped.get(prop);
+    },
+  });
+}
+
+/**
+ * Works out the destination of a net/tls connect call
+ */
+function socketTarget(args: unknown[]): string | null {
+  const [first, second] = args;
+  if (typeof first === 'number' || (typeof first === 'string' && /^\d+$/.test(first))) {
+    return `tcp://${typeof second === 'string' ? second : 'localhost'}:${first}/`;
+  }
+
+  const options = first as { host?: string; port?: number | string; path?: string } | undefined;
+  if (!options || typeof options !== 'object') return null;
+  // IPC sockets are local files
+  if (options.path && !options.port) return null;
+  return `tcp://${options.host || 'localhost'}:${options.port}/`;
+}
+
+function guardSocket(state: SandboxState, target: Record<string, unknown>): Record<string, unknown> {
+  const guardConnect = (owner: object, connect: (...a: unknown[]) => unknown) => (...args: unknown[]) => {
+    const destination = socketTarget(args);
+    const denied = destination ? check(state, 'network', destination) : null;
+    if (denied) throw denied;
+    return connect.apply(owner, args);
+  };
+
+  return guardProperties(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      if ((prop === 'connect' || prop === 'createConnection') && typeof value === 'function') {
+        return guardConnect(obj, value as (...a: unknown[]) => unknown);
+      }
+      // Sockets created directly still have to connect through a checked destination
+      if ((prop === 'Socket' || prop === 'Stream') && typeof value === 'function') {
+        return new Proxy(value, {
+          construct(ctor, args, newTarget) {
+            const socket = Reflect.construct(ctor as new (...a: unknown[]) => object, args, newTarget) as {
+              connect: (...a: unknown[]) => unknown;
+            };
+            socket.connect = guardConnect(socket, socket.connect);
+            return socket;
+          },
+        });
+      }
+      return value;
+    },
+  });
+}
+
+function createGuardedFetch(state: SandboxState): typeof fetch {
+  return (input: Parameters<typeof fetch>[0], init?: Parameters<typeof fetch>[1]) => {
+    const url = typeof input === 'string' || input instanceof URL ? String(input) : input.url;
+    const denied = check(state, 'network', url);
+    if (denied) return Promise.reject(denied);
+    return fetch(input, init);
+  };
+}
+
+function createGuardedProcess(state: SandboxState): NodeJS.Process {
+  const env = new Proxy(process.env, {
+    get(obj, prop) {
+      if (typeof prop !== 'string') return undefined;
+      if (!(prop in obj)) return undefined;
+      return check(state, 'environment', prop) ? undefined : obj[prop];
+    },
+    has(obj, prop) {
+      return typeof prop === 'string' && prop in obj && !check(state, 'environment', prop);
+    },
+    ownKeys(obj) {
+      const allowed = new Set(state.plugin.manifest.permissions?.environment ?? []);
+      allowed.add('NODE_ENV');
+      return Reflect.ownKeys(obj).filter(key => typeof key === 'string' && allowed.has(key));
+    },
+    getOwnPropertyDescriptor(obj, prop) {
+      if (typeof prop !== 'string' || !(prop in obj)) return undefined;
+      const allowed = state.plugin.manifest.permissions?.environment ?? [];
+      if (prop !== 'NODE_ENV' && !allowed.includes(prop)) return undefined;
+      return Reflect.getOwnPropertyDescriptor(obj, prop);
+    },
+  });
+
+  return guardProperties(process, {
+    get(obj, prop) {
+      if (prop === 'env') return env;
+      if (typeof prop === 'string' && BLOCKED_PROCESS_MEMBERS.has(prop)) {
+        if (prop === 'mainModule') return undefined;
+        return () => {
+          throw check(state, 'module', `process.${prop}`);
+        };
+      }
+      const value = Reflect.get(obj, prop);
+      return typeof value === 'function' ? value.bind(obj) : value;
+    },
+  });
+}
+
+/**
+ * Creates the global context for a plugin: language builtins, a fixed set of
+ * host globals, and the guarded process and fetch
+ */
+function createPluginContext(state: SandboxState): vm.Context {
+  const sandboxGlobals: Record<string, unknown> = {};
+  for (const name of CONTEXT_GLOBALS) {
+    sandboxGlobals[name] = (globalThis as Record<string, unknown>)[name];
+  }
+  sandboxGlobals.process = state.process;
+  sandboxGlobals.fetch = state.fetch;
+
+  const context = vm.createContext(sandboxGlobals, { name: `plugin:${state.plugin.manifest.name}` });
+  vm.runInContext('globalThis.global = globalThis;', context);
+  return context;
+}
+
+// ============================================================================
+// MODULE LOADING
+// ============================================================================
+
+function isInside(root: string, filename: string): boolean {
+  const resolvedRoot = path.resolve(root);
+  return filename === resolvedRoot || filename.startsWith(resolvedRoot + path.sep);
+}
+
+/**
+ * Returns the guarded version of a builtin, or undefined if it is not guarded
+ */
+function guardedBuiltin(state: SandboxState, request: string, realRequire: NodeRequire): unknown {
+  const name = request.replace(/^node:/, '');
+  if (state.builtins.has(name)) return state.builtins.get(name);
+
+  if (BLOCKED_MODULES.has(name)) {
+    throw check(state, 'module', name);
+  }
+
+  let guarded: unknown;
+  switch (name) {
+    case 'fs':
+      guarded = guardFs(state, realRequire('node:fs'), false);
+      break;
+    case 'fs/promises':
+      guarded = guardFs(state, realRequire('node:fs/promises'), true);
+      break;
+    case 'http':
+      guarded = guardHttp(state, realRequire('node:http'), 'http:');
+      break;
+    case 'https':
+      guarded = guardHttp(state, realRequire('node:https'), 'https:');
+      break;
+    case 'http2':
+      guarded = guardHttp2(state, realRequire('node:http2'));
+      break;
+    case 'dns':
+      guarded = guardDns(state, realRequire('node:dns'), false);
+      break;
+    case 'dns/promises':
+      guarded = guardDns(state, realRequire('node:dns/promises'), true);
+      break;
+    case 'net':
+    case 'tls':
+      guarded = guardSocket(state, realRequire(`node:${name}`));
+      break;
+    case 'process':
+      guarded = state.process;
+      break;
+    default:
+      return undefined;
+  }
+
+  state.builtins.set(name, guarded);
+  return guarded;
+}
+
+/**
+ * Checks database and user data access for a module request
+ * @returns Whether the request is a database or user data module the plugin may load
+ */
+function checkModuleAccess(state: SandboxState, request: string, resolved: string | null): boolean {
+  const root = process.cwd();
+  let kind: PermissionKind | null = null;
+
+  if (DATABASE_MODULES.has(request) || request.startsWith('mongodb/')) {
+    kind = 'database';
+  } else if (resolved && (isInside(path.join(root, 'lib', 'repositories'), resolved) ||
+    isInside(path.join(root, 'lib', 'mongodb', 'repositories'), resolved))) {
+    kind = 'userData';
+  } else if (resolved && isInside(path.join(root, 'lib', 'mongodb'), resolved)) {
+    kind = 'database';
+  }
+
+  if (!kind) return false;
+
+  const denied = check(state, kind, request);
+  if (denied) throw denied;
+  return true;
+}
+
+function createSandboxedRequire(state: SandboxState, filename: string): NodeRequire {
+  const realRequire = createRequire(filename);
+
+  const sandboxedRequire = ((request: string) => {
+    const builtin = guardedBuiltin(state, request, realRequire);
+    if (builtin !== undefined) return builtin;
+
+    let resolved: string | null = null;
+    try {
+      resolved = realRequire.resolve(request);
+    } catch {
+      // Let the real require produce the usual "Cannot find module" error
+    }
+
+    const file = resolved && path.isAbsolute(resolved) ? resolved : null;
+
+    // Unguarded builtins, and database drivers or repositories the manifest grants
+    if (checkModuleAccess(state, request, file) || !file) {
+      return realRequire(request);
+    }
+
+    // Native addons could do anything
+    if (file.endsWith('.node')) {
+      throw check(state, 'module', request);
+    }
+
+    // Host packages too, so their own use of builtins is guarded
+    return loadFile(state, file);
+  }) as NodeRequire;
+
+  // The host's module cache, main module and extensions would hand out an unguarded require
+  sandboxedRequire.resolve = realRequire.resolve;
+  sandboxedRequire.cache = Object.create(null);
+  sandboxedRequire.main = undefined;
+  sandboxedRequire.extensions = Object.create(null);
+
+  return sandboxedRequire;
+}
+
+/**
+ * Compiles and runs a plugin file in the plugin's context
+ */
+function loadFile(state: SandboxState, filename: string): unknown {
+  const cached = state.cache.get(filename);
+  if (cached) return cached.exports;
+
+  if (filename.endsWith('.json')) {
+    const json = { exports: JSON.parse(fs.readFileSync(filename, 'utf-8')) };
+    state.cache.set(filename, json);
+    return json.exports;
+  }
+
+  const mod = { exports: {} as unknown };
+  state.cache.set(filename, mod);
+
+  const source = fs.readFileSync(filename, 'utf-8');
+  const compiled = vm.compileFunction(
+    source,
+    ['exports', 'require', 'module', '__filename', '__dirname'],
+    { filename, parsingContext: state.context }
+  );
+
+  try {
+    compiled.call(
+      mod.exports,
+      mod.exports,
+      createSandboxedRequire(state, filename),
+      mod,
+      filename,
+      path.dirname(filename)
+    );
+  } catch (error) {
+    state.cache.delete(filename);
+    throw error;
+  }
+
+  return mod.exports;
+}
+
+const sandboxes = new Map<string, SandboxState>();
+
+function getSandbox(plugin: SandboxedPlugin): SandboxState {
+  let state = sandboxes.get(plugin.manifest.name);
+  if (!state || state.plugin.pluginPath !== plugin.pluginPath) {
+    state = {
+      plugin,
+      context: {},
+      cache: new Map(),
+      builtins: new Map(),
+      process,
+      fetch,
+    };
+    state.process = createGuardedProcess(state);
+    state.fetch = createGuardedFetch(state);
+    state.context = createPluginContext(state);
+    sandboxes.set(plugin.manifest.name, state);
+  }
+  return state;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Treats a value as module exports if it can hold any
+ */
+export function asPluginModule(value: unknown): PluginModule | undefined {
+  return (typeof value === 'object' && value !== null) || typeof value === 'function'
+    ? value as PluginModule
+    : undefined;
+}
+
+/**
+ * The object a plugin module exports as `plugin`, directly or on its default export
+ */
+export function getPluginExport(pluginModule: PluginModule | undefined): unknown {
+  return pluginModule?.plugin ?? asPluginModule(pluginModule?.default)?.plugin;
+}
+
+/**
+ * Loads a plugin module, enforcing its declared permissions unless the plugin is trusted
+ * @param plugin - The plugin that owns the module
+ * @param modulePath - Absolute path to the module
+ * @param loadTrusted - Loader for trusted plugins (defaults to require)
+ * @returns The module's exports, or undefined when it exports nothing usable
+ */
+export function loadPluginModule(plugin: SandboxedPlugin, modulePath: string, loadTrusted?: ModuleLoader): PluginModule | undefined {
+  if (!isPluginSandboxed(plugin)) {
+    return asPluginModule(loadTrusted ? loadTrusted(modulePath) : createRequire(modulePath)(modulePath));
+  }
+
+  const state = getSandbox(plugin);
+  const filename = createRequire(modulePath).resolve(modulePath);
+
+  logger.debug('Loading sandboxed plugin module', {
+    plugin: plugin.manifest.name,
+    filename,
+  });
+
+  return asPluginModule(loadFile(state, filename));
+}
+
+/**
+ * Drops compiled modules so the next load re-reads them (e.g. after a plugin update)
+ * @param pluginName - Reset only this plugin
+ */
+export function resetPluginSandboxes(pluginName?: string): void {
+  if (pluginName) {
+    sandboxes.delete(pluginName);
+  } else {
+    sandboxes.clear();
+  }
+}
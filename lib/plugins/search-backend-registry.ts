@@ -0,0 +1,79 @@
+/**
+ * Search Backend Registry
+ *
+ * Manages registration and retrieval of web search backend plugins.
+ * Backends are loaded from plugins with SEARCH_BACKEND capability.
+ */
+
+import { logger } from '@/lib/logger';
+import type { SearchBackendMetadata, SearchBackendPluginExport } from './interfaces/search-backend-plugin';
+
+// ============================================================================
+// REGISTRY STATE
+// ============================================================================
+
+const searchBackends = new Map<string, SearchBackendPluginExport>();
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * Register a search backend plugin
+ */
+export function registerSearchBackend(plugin: SearchBackendPluginExport): void {
+  const { backendId } = plugin.metadata;
+
+  if (searchBackends.has(backendId)) {
+    logger.warn('Search backend already registered, replacing', {
+      context: 'registerSearchBackend',
+      backendId,
+    });
+  }
+
+  searchBackends.set(backendId, plugin);
+
+  logger.info('Search backend registered', {
+    context: 'registerSearchBackend',
+    backendId,
+    displayName: plugin.metadata.displayName,
+  });
+}
+
+/**
+ * Check that a loaded module looks like a search backend plugin
+ */
+export function isSearchBackendPlugin(value: unknown): value is SearchBackendPluginExport {
+  const candidate = value as SearchBackendPluginExport | undefined;
+  return !!candidate &&
+    typeof candidate.metadata === 'object' &&
+    typeof candidate.metadata?.backendId === 'string' &&
+    typeof candidate.search === 'function';
+}
+
+// ============================================================================
+// RETRIEVAL
+// ============================================================================
+
+/**
+ * Get a search backend plugin by ID
+ */
+export function getSearchBackend(backendId: string): SearchBackendPluginExport | undefined {
+  return searchBackends.get(backendId);
+}
+
+/**
+ * Get metadata for all registered search backends, for UI display
+ */
+export function getSearchBackendMetadata(): SearchBackendMetadata[] {
+  return Array.from(searchBackends.values()).map(plugin => plugin.metadata);
+}
+
+/**
+ * Clear all registered search backends
+ * Useful for testing
+ */
+export function clearSearchBackends(): void {
+  searchBackends.clear();
+  logger.debug('Cleared all search backends', { context: 'clearSearchBackends' });
+}
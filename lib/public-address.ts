@@ -0,0 +1,145 @@
+/**
+ * Public Address Checks
+ *
+ * Guards server-side requests to URLs that users or outside parties choose
+ * (MCP servers, web search results) so they can't reach loopback, private or
+ * link-local addresses such as cloud metadata endpoints.
+ *
+ * Hostnames are resolved and every address checked before each request and
+ * each redirect. The connection resolves the name again, so a DNS answer that
+ * changes in between is not caught.
+ */
+
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+
+/** Redirects followed by fetchPublicUrl before giving up */
+const MAX_REDIRECTS = 5
+
+const blockedAddresses = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Error thrown when a URL points at an address that isn't public
+ */
+export class PrivateAddressError extends Error {
+  constructor(public readonly url: string) {
+    super(`Requests to ${url} are not allowed: it does not resolve to a public address`)
+    this.name = 'PrivateAddressError'
+  }
+}
+
+/**
+ * The IPv4 address embedded in an IPv4-mapped IPv6 address, if it is one
+ */
+function mappedIPv4(address: string): string | null {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (dotted) return dotted[1]
+
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address)
+  if (!hex) return null
+  const high = parseInt(hex[1], 16)
+  const low = parseInt(hex[2], 16)
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.')
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * reachable on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '')
+  const mapped = mappedIPv4(ip)
+  if (mapped) return blockedAddresses.check(mapped, 'ipv4')
+
+  const family = isIP(ip)
+  if (family === 0) return true
+  return blockedAddresses.check(ip, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Checks that a URL is http(s) and that its host resolves only to public
+ * addresses
+ * @throws PrivateAddressError when it doesn't
+ */
+export async function assertPublicUrl(target: string | URL): Promise<void> {
+  let url: URL
+  try {
+    url = new URL(target)
+  } catch {
+    throw new PrivateAddressError(String(target))
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new PrivateAddressError(url.href)
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(hostname)) {
+    if (isPrivateAddress(hostname)) throw new PrivateAddressError(url.href)
+    return
+  }
+
+  let addresses: { address: string }[]
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true })
+  } catch {
+    // Let the request itself report a host that doesn't resolve
+    return
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new PrivateAddressError(url.href)
+  }
+}
+
+/**
+ * fetch() for URLs chosen by someone else: the URL and every redirect target
+ * must be public (see assertPublicUrl)
+ */
+export async function fetchPublicUrl(target: string | URL, init: RequestInit = {}): Promise<Response> {
+  let url = String(target)
+  let requestInit: RequestInit = init
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url)
+    const response = await fetch(url, { ...requestInit, redirect: 'manual' })
+
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response
+    }
+    await response.body?.cancel()
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects fetching ${String(target)}`)
+    }
+
+    url = new URL(location, url).href
+    // Like fetch itself: 303, and 301/302 after a POST, continue as a GET
+    const method = (requestInit.method ?? 'GET').toUpperCase()
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      requestInit = { ...requestInit, method: 'GET', body: undefined }
+    }
+  }
+}
@@ -24,6 +24,26 @@ export const SCHEMA_VERSION = {
   description: 'Complete Quilltap schema including User, Auth, Profiles, Characters, Personas, Chats, Messages, Images, and Tag system',
 } as const;
 
+/**
+ * The schema version as a "major.minor.patch" string, as recorded in exports
+ */
+export function formatSchemaVersion(): string {
+  return `${SCHEMA_VERSION.major}.${SCHEMA_VERSION.minor}.${SCHEMA_VERSION.patch}`;
+}
+
+/**
+ * Whether data recorded under the given schema version can be read by this one:
+ * the same major version, and not a newer minor version
+ */
+export function isCompatibleSchemaVersion(version: string): boolean {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version.trim());
+  if (!match) {
+    return false;
+  }
+  const [major, minor] = [Number(match[1]), Number(match[2])];
+  return major === SCHEMA_VERSION.major && minor <= SCHEMA_VERSION.minor;
+}
+
 /**
  * List of all Prisma models at time of inventory
  * Used to validate migration completeness
@@ -34,6 +34,7 @@ export const PluginCapabilityEnum = z.enum([
   'DATABASE_BACKEND',      // Replaces/augments database
   'FILE_BACKEND',          // Replaces/augments file storage
   'UPGRADE_MIGRATION',     // Provides version upgrade migrations (runs early in startup)
+  'SEARCH_BACKEND',        // Provides a web search backend for the search_web tool
 ]);
 
 export type PluginCapability = z.infer<typeof PluginCapabilityEnum>;
@@ -18,7 +18,8 @@ export type Provider = z.infer<typeof ProviderEnum>;
 export const ImageProviderEnum = z.string().min(1, 'Image provider is required');
 export type ImageProvider = z.infer<typeof ImageProviderEnum>;
 
-export const EmbeddingProfileProviderEnum = z.enum(['OPENAI', 'OLLAMA']);
+// OPENAI, OLLAMA and LOCAL are built in; provider plugins can add others
+export const EmbeddingProfileProviderEnum = z.string().min(1, 'Embedding provider is required');
 export type EmbeddingProfileProvider = z.infer<typeof EmbeddingProfileProviderEnum>;
 
 export const RoleEnum = z.enum(['SYSTEM', 'USER', 'ASSISTANT', 'TOOL']);
@@ -30,6 +31,10 @@ export type ImageTagType = z.infer<typeof ImageTagTypeEnum>;
 export const AvatarDisplayModeEnum = z.enum(['ALWAYS', 'GROUP_ONLY', 'NEVER']);
 export type AvatarDisplayMode = z.infer<typeof AvatarDisplayModeEnum>;
 
+// How the next speaker is chosen in chats with several CHARACTER participants
+export const TurnStrategyEnum = z.enum(['MANUAL', 'ROUND_ROBIN', 'MENTION', 'NATURAL']);
+export type TurnStrategy = z.infer<typeof TurnStrategyEnum>;
+
 // ============================================================================
 // COMMON FIELDS
 // ============================================================================
@@ -114,6 +119,48 @@ export const TagStyleMapSchema = z.record(TagVisualStyleSchema).default({});
 
 export type TagStyleMap = z.infer<typeof TagStyleMapSchema>;
 
+// ============================================================================
+// TOOL APPROVAL POLICIES
+// ============================================================================
+
+export const ToolPolicyEnum = z.enum(['ALWAYS_ALLOW', 'ASK', 'NEVER']);
+export type ToolPolicy = z.infer<typeof ToolPolicyEnum>;
+
+/**
+ * Tool name -> policy. A key ending in "*" matches by prefix (e.g. "mcp__*");
+ * tools that match no key are always allowed.
+ */
+export const ToolPolicyMapSchema = z.record(ToolPolicyEnum);
+export type ToolPolicyMap = z.infer<typeof ToolPolicyMapSchema>;
+
+/** How a tool call made it past (or was stopped by) its policy */
+export const ToolApprovalDecisionEnum = z.enum(['auto', 'approved', 'denied', 'blocked', 'timeout']);
+export type ToolApprovalDecision = z.infer<typeof ToolApprovalDecisionEnum>;
+
+// ============================================================================
+// WEB SEARCH SETTINGS
+// ============================================================================
+
+/** Where search_web sends queries; PLUGIN uses a backend registered by a SEARCH_BACKEND plugin */
+export const WebSearchBackendEnum = z.enum(['NONE', 'SEARXNG', 'BRAVE', 'TAVILY', 'PLUGIN']);
+export type WebSearchBackend = z.infer<typeof WebSearchBackendEnum>;
+
+export const WebSearchSettingsSchema = z.object({
+  backend: WebSearchBackendEnum.default('NONE'),
+  /** SearxNG instance URL, or an override for the Brave/Tavily API endpoint */
+  baseUrl: z.string().url().nullable().optional(),
+  /** API key from the user's key store (Brave, Tavily and plugin backends) */
+  apiKeyId: UUIDSchema.nullable().optional(),
+  /** Backend ID of the plugin backend when backend is PLUGIN */
+  pluginBackendId: z.string().nullable().optional(),
+  /** Fetch the top result pages and extract their main text */
+  fetchPageContent: z.boolean().default(true),
+  /** Characters of extracted text kept per page */
+  maxPageChars: z.number().int().min(500).max(20000).default(4000),
+});
+
+export type WebSearchSettings = z.infer<typeof WebSearchSettingsSchema>;
+
 // ============================================================================
 // CHEAP LLM SETTINGS
 // ============================================================================
@@ -155,6 +202,10 @@ export const ChatSettingsSchema = z.object({
   }),
   /** Profile ID to use for image description fallback (when provider doesn't support images) */
   imageDescriptionProfileId: UUIDSchema.nullable().optional(),
+  /** Per-tool approval policies applied to every chat */
+  toolPolicies: ToolPolicyMapSchema.optional(),
+  /** Backend used by the search_web tool */
+  webSearchSettings: WebSearchSettingsSchema.optional(),
   createdAt: TimestampSchema,
   updatedAt: TimestampSchema,
 });
@@ -214,6 +265,10 @@ export const ApiKeySchema = z.object({
 
 export type ApiKey = z.infer<typeof ApiKeySchema>;
 
+// Tool-call rounds allowed per turn when a profile doesn't set its own limit, and the hard cap
+export const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+export const MAX_TOOL_ITERATIONS_LIMIT = 25;
+
 export const ConnectionProfileSchema = z.object({
   id: UUIDSchema,
   userId: UUIDSchema,
@@ -228,6 +283,8 @@ export const ConnectionProfileSchema = z.object({
   isCheap: z.boolean().default(false),
   /** Whether web search is allowed for this profile (only if provider supports it) */
   allowWebSearch: z.boolean().default(false),
+  /** Maximum rounds of tool calls the model may make in a single turn */
+  maxToolIterations: z.number().int().min(1).max(MAX_TOOL_ITERATIONS_LIMIT).default(DEFAULT_MAX_TOOL_ITERATIONS),
   tags: z.array(UUIDSchema).default([]),
   createdAt: TimestampSchema,
   updatedAt: TimestampSchema,
@@ -235,6 +292,37 @@ export const ConnectionProfileSchema = z.object({
 
 export type ConnectionProfile = z.infer<typeof ConnectionProfileSchema>;
 
+// ============================================================================
+// MEMORY RETRIEVAL SETTINGS
+// ============================================================================
+
+// How a character's memories are ranked: lexical (BM25) and vector rankings are
+// combined by weighted reciprocal rank fusion, optionally boosted by recency and
+// importance, then diversified with maximal marginal relevance
+export const MemoryRetrievalSettingsSchema = z.object({
+  /** Weight of the BM25 ranking over content and keywords */
+  lexicalWeight: z.number().min(0).max(1).default(1),
+  /** Weight of the embedding similarity ranking */
+  semanticWeight: z.number().min(0).max(1).default(1),
+  /** Reciprocal rank fusion constant; larger values flatten rank differences */
+  rrfK: z.number().int().min(1).max(200).default(60),
+  /** How much newer memories are preferred */
+  recencyWeight: z.number().min(0).max(1).default(0),
+  /** Age in days at which the recency boost has halved */
+  recencyHalfLifeDays: z.number().min(1).max(3650).default(30),
+  /** How much more important memories are preferred */
+  importanceWeight: z.number().min(0).max(1).default(0),
+  /** MMR trade-off: 1 ranks purely by relevance, lower values favour diversity */
+  mmrLambda: z.number().min(0).max(1).default(0.7),
+});
+
+export type MemoryRetrievalSettings = z.infer<typeof MemoryRetrievalSettingsSchema>;
+
+// Where a memory may be recalled: anywhere, only with the persona it was formed
+// with, or only in the chat it was formed in
+export const MemoryVisibilityEnum = z.enum(['GLOBAL', 'PERSONA', 'CHAT']);
+export type MemoryVisibility = z.infer<typeof MemoryVisibilityEnum>;
+
 // ============================================================================
 // CHARACTER & PERSONA
 // ============================================================================
@@ -263,6 +351,8 @@ export const CharacterSchema = z.object({
   personality: z.string().nullable().optional(),
   scenario: z.string().nullable().optional(),
   firstMessage: z.string().nullable().optional(),
+  // Other opening messages to pick from when a chat starts (unset on characters created before they existed)
+  alternateGreetings: z.array(z.string()).optional(),
   exampleDialogues: z.string().nullable().optional(),
   systemPrompt: z.string().nullable().optional(),
   avatarUrl: z.string().nullable().optional(),
@@ -283,6 +373,11 @@ export const CharacterSchema = z.object({
   })).default([]),
   physicalDescriptions: z.array(PhysicalDescriptionSchema).default([]),
 
+  // Memory retrieval tuning (defaults apply when unset)
+  memoryRetrieval: MemoryRetrievalSettingsSchema.nullable().optional(),
+  // Visibility given to auto-extracted memories (GLOBAL when unset)
+  autoMemoryVisibility: MemoryVisibilityEnum.nullable().optional(),
+
   // Timestamps
   createdAt: TimestampSchema,
   updatedAt: TimestampSchema,
@@ -326,7 +421,11 @@ export const MessageEventSchema = z.object({
   tokenCount: z.number().nullable().optional(),
   swipeGroupId: z.string().nullable().optional(),
   swipeIndex: z.number().nullable().optional(),
+  // Set on the swipe the user switched to; groups without one show index 0
+  activeSwipe: z.boolean().optional(),
   attachments: z.array(UUIDSchema).default([]),
+  // Chat participant who authored the message (ASSISTANT/TOOL messages in group chats)
+  participantId: UUIDSchema.nullable().optional(),
   createdAt: TimestampSchema,
   // Debug: Memory extraction logs (Sprint 6)
   debugMemoryLogs: z.array(z.string()).optional(),
@@ -435,6 +534,12 @@ export const ChatMetadataSchema = z.object({
   messageCount: z.number().default(0),
   lastMessageAt: TimestampSchema.nullable().optional(),
   lastRenameCheckInterchange: z.number().default(0),
+  turnStrategy: TurnStrategyEnum.default('ROUND_ROBIN'),
+  // Set when this chat was forked from another chat
+  parentChatId: UUIDSchema.nullable().optional(),
+  forkedFromMessageId: UUIDSchema.nullable().optional(),
+  // Per-chat overrides of the user's tool approval policies
+  toolPolicies: ToolPolicyMapSchema.optional(),
   createdAt: TimestampSchema,
   updatedAt: TimestampSchema,
 }).refine(
@@ -456,6 +561,12 @@ export const ChatMetadataBaseSchema = z.object({
   messageCount: z.number().default(0),
   lastMessageAt: TimestampSchema.nullable().optional(),
   lastRenameCheckInterchange: z.number().default(0),
+  turnStrategy: TurnStrategyEnum.default('ROUND_ROBIN'),
+  // Set when this chat was forked from another chat
+  parentChatId: UUIDSchema.nullable().optional(),
+  forkedFromMessageId: UUIDSchema.nullable().optional(),
+  // Per-chat overrides of the user's tool approval policies
+  toolPolicies: ToolPolicyMapSchema.optional(),
   createdAt: TimestampSchema,
   updatedAt: TimestampSchema,
 });
@@ -655,6 +766,29 @@ export type EmbeddingProfilesFile = z.infer<typeof EmbeddingProfilesFileSchema>;
 export const MemorySourceEnum = z.enum(['AUTO', 'MANUAL']);
 export type MemorySource = z.infer<typeof MemorySourceEnum>;
 
+export const MemoryImportanceEventEnum = z.enum(['created', 'reinforced', 'decayed', 'consolidated']);
+export type MemoryImportanceEvent = z.infer<typeof MemoryImportanceEventEnum>;
+
+// One recorded change of a memory's importance
+export const MemoryImportancePointSchema = z.object({
+  at: TimestampSchema,
+  importance: z.number().min(0).max(1),
+  event: MemoryImportanceEventEnum,
+});
+
+export type MemoryImportancePoint = z.infer<typeof MemoryImportancePointSchema>;
+
+// A memory that was folded into a consolidated memory
+export const MemoryProvenanceSchema = z.object({
+  memoryId: UUIDSchema,
+  chatId: UUIDSchema.nullable().optional(),
+  sourceMessageId: UUIDSchema.nullable().optional(),
+  summary: z.string(),
+  createdAt: TimestampSchema,
+});
+
+export type MemoryProvenance = z.infer<typeof MemoryProvenanceSchema>;
+
 export const MemorySchema = z.object({
   id: UUIDSchema,
   characterId: UUIDSchema,
@@ -669,6 +803,11 @@ export const MemorySchema = z.object({
   source: MemorySourceEnum.default('MANUAL'),       // How it was created
   sourceMessageId: UUIDSchema.nullable().optional(), // If auto-created, which message triggered it
   lastAccessedAt: TimestampSchema.nullable().optional(), // For housekeeping decisions
+  reinforcementCount: z.number().int().min(0).optional(), // Times recalled into context or by memory_search
+  importanceUpdatedAt: TimestampSchema.nullable().optional(), // Decay runs from here
+  importanceHistory: z.array(MemoryImportancePointSchema).optional(), // Recent importance changes, oldest first
+  consolidatedFrom: z.array(MemoryProvenanceSchema).optional(), // Faded memories this one replaced
+  visibility: MemoryVisibilityEnum.optional(),       // Where it may be recalled; GLOBAL when unset
   createdAt: TimestampSchema,
   updatedAt: TimestampSchema,
 });
@@ -684,6 +823,186 @@ export const MemoriesFileSchema = z.object({
 
 export type MemoriesFile = z.infer<typeof MemoriesFileSchema>;
 
+export const MemoryProposalTypeEnum = z.enum(['MERGE', 'CONFLICT']);
+export type MemoryProposalType = z.infer<typeof MemoryProposalTypeEnum>;
+
+export const MemoryProposalStatusEnum = z.enum(['PENDING', 'ACCEPTED', 'REJECTED']);
+export type MemoryProposalStatus = z.infer<typeof MemoryProposalStatusEnum>;
+
+// A suggested merge or flagged contradiction awaiting review
+export const MemoryProposalSchema = z.object({
+  id: UUIDSchema,
+  characterId: UUIDSchema,
+  type: MemoryProposalTypeEnum,
+  status: MemoryProposalStatusEnum.default('PENDING'),
+  memoryIds: z.array(UUIDSchema).min(2),            // Memories the proposal replaces
+  reason: z.string(),                               // Why the cheap LLM grouped them
+  content: z.string(),                              // Proposed replacement memory
+  summary: z.string(),
+  keywords: z.array(z.string()).default([]),
+  importance: z.number().min(0).max(1).default(0.5),
+  resultMemoryId: UUIDSchema.nullable().optional(), // Memory created on accept
+  resolvedAt: TimestampSchema.nullable().optional(),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema,
+});
+
+export type MemoryProposal = z.infer<typeof MemoryProposalSchema>;
+
+export const EmbeddingMigrationStatusEnum = z.enum(['RUNNING', 'FAILED', 'COMPLETED', 'CANCELLED']);
+export type EmbeddingMigrationStatus = z.infer<typeof EmbeddingMigrationStatusEnum>;
+
+export const EmbeddingModelRefSchema = z.object({
+  provider: z.string(),
+  modelName: z.string(),
+});
+
+export type EmbeddingModelRef = z.infer<typeof EmbeddingModelRefSchema>;
+
+// Re-embedding of a character's memories into a shadow vector index
+export const EmbeddingMigrationSchema = z.object({
+  id: UUIDSchema,
+  userId: UUIDSchema,
+  characterId: UUIDSchema,
+  status: EmbeddingMigrationStatusEnum.default('RUNNING'),
+  embeddingProfileId: UUIDSchema,                   // Profile the new vectors come from
+  toModel: EmbeddingModelRefSchema,
+  fromModel: EmbeddingModelRefSchema.nullable().optional(),
+  generation: z.number().int().min(1),              // Shadow index generation being built
+  total: z.number().int().min(0).default(0),
+  processed: z.number().int().min(0).default(0),
+  error: z.string().nullable().optional(),
+  completedAt: TimestampSchema.nullable().optional(),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema,
+});
+
+export type EmbeddingMigration = z.infer<typeof EmbeddingMigrationSchema>;
+
+// ============================================================================
+// LOREBOOKS (WORLD INFO)
+// ============================================================================
+
+// Where triggered entries are placed relative to the character definition
+export const LorebookPositionEnum = z.enum(['BEFORE_CHARACTER', 'AFTER_CHARACTER']);
+export type LorebookPosition = z.infer<typeof LorebookPositionEnum>;
+
+export const LorebookEntrySchema = z.object({
+  id: UUIDSchema,
+  name: z.string().default(''),                     // Label shown in the editor
+  keys: z.array(z.string()).default([]),            // Trigger keywords (or regex sources)
+  secondaryKeys: z.array(z.string()).default([]),   // If set, one of these must also match
+  useRegex: z.boolean().default(false),             // Treat keys as regular expressions
+  caseSensitive: z.boolean().default(false),
+  matchWholeWords: z.boolean().default(true),
+  content: z.string(),                              // Text inserted into the context
+  constant: z.boolean().default(false),             // Always inserted, no trigger needed
+  enabled: z.boolean().default(true),
+  position: LorebookPositionEnum.default('AFTER_CHARACTER'),
+  insertionOrder: z.number().default(100),          // Higher values win when the budget is tight
+  scanDepth: z.number().int().min(0).nullable().optional(), // Overrides the lorebook scan depth
+  extensions: JsonSchema.nullable().optional(),     // Unrecognised data kept from imports
+});
+
+export type LorebookEntry = z.infer<typeof LorebookEntrySchema>;
+
+export const LorebookSchema = z.object({
+  id: UUIDSchema,
+  userId: UUIDSchema,
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  entries: z.array(LorebookEntrySchema).default([]),
+  scanDepth: z.number().int().min(0).default(4),    // How many recent messages are scanned for keys
+  tokenBudget: z.number().int().min(0).default(1024), // Max tokens of entries inserted per request
+  enabled: z.boolean().default(true),
+  characterIds: z.array(UUIDSchema).default([]),    // Active in chats with these characters
+  personaIds: z.array(UUIDSchema).default([]),      // Active in chats with these personas
+  chatIds: z.array(UUIDSchema).default([]),         // Active in these individual chats
+  tags: z.array(UUIDSchema).default([]),
+  extensions: JsonSchema.nullable().optional(),     // Unrecognised data kept from imports
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema,
+});
+
+export type Lorebook = z.infer<typeof LorebookSchema>;
+
+// ============================================================================
+// SILLYTAVERN IMPORTS
+// ============================================================================
+
+export const SillyTavernImportStatusEnum = z.enum(['PREVIEW', 'RUNNING', 'FAILED', 'COMPLETED', 'CANCELLED']);
+export type SillyTavernImportStatus = z.infer<typeof SillyTavernImportStatusEnum>;
+
+export const SillyTavernImportItemKindEnum = z.enum(['WORLD_INFO', 'PERSONA', 'CHARACTER', 'CHAT', 'GROUP_CHAT']);
+export type SillyTavernImportItemKind = z.infer<typeof SillyTavernImportItemKindEnum>;
+
+// DUPLICATE: imported before, or a copy of an earlier item; NAME_EXISTS: something of the same name exists;
+// MISSING_CHARACTER: a chat whose character is neither in the archive nor found by name
+export const SillyTavernImportConflictEnum = z.enum(['DUPLICATE', 'NAME_EXISTS', 'MISSING_CHARACTER']);
+export type SillyTavernImportConflict = z.infer<typeof SillyTavernImportConflictEnum>;
+
+// One file (or persona) of an uploaded data directory
+export const SillyTavernImportItemSchema = z.object({
+  path: z.string(),                                 // Path inside the data directory
+  kind: SillyTavernImportItemKindEnum,
+  name: z.string(),
+  hash: z.string(),                                 // SHA-256 of the source, for dedupe
+  conflict: SillyTavernImportConflictEnum.nullable().default(null),
+  existingId: UUIDSchema.nullable().default(null),  // What the conflict is with; stands in for the item when skipped
+  action: z.enum(['IMPORT', 'SKIP']).default('IMPORT'),
+  status: z.enum(['PENDING', 'IMPORTED', 'SKIPPED', 'FAILED']).default('PENDING'),
+  entityId: UUIDSchema.nullable().default(null),    // What the item was imported as
+  error: z.string().nullable().default(null),
+});
+
+export type SillyTavernImportItem = z.infer<typeof SillyTavernImportItemSchema>;
+
+// Bulk import of a SillyTavern data directory, previewed before it runs
+export const SillyTavernImportSchema = z.object({
+  id: UUIDSchema,
+  userId: UUIDSchema,
+  status: SillyTavernImportStatusEnum.default('PREVIEW'),
+  filename: z.string(),
+  s3Key: z.string().nullable(),                     // The uploaded zip; removed once the job ends
+  connectionProfileId: UUIDSchema.nullable().default(null), // Profile imported chats talk through
+  items: z.array(SillyTavernImportItemSchema).default([]),
+  warnings: z.array(z.string()).default([]),        // Files that couldn't be read
+  total: z.number().int().min(0).default(0),
+  processed: z.number().int().min(0).default(0),
+  error: z.string().nullable().optional(),
+  completedAt: TimestampSchema.nullable().optional(),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema,
+});
+
+export type SillyTavernImport = z.infer<typeof SillyTavernImportSchema>;
+
+// ============================================================================
+// MCP SERVERS
+// ============================================================================
+
+// How Quilltap talks to the server: a local child process or a remote HTTP+SSE endpoint
+export const McpTransportEnum = z.enum(['stdio', 'sse']);
+export type McpTransport = z.infer<typeof McpTransportEnum>;
+
+export const McpServerSchema = z.object({
+  id: UUIDSchema,
+  userId: UUIDSchema,
+  name: z.string(),                                 // Also used to namespace the server's tools
+  description: z.string().nullable().optional(),
+  transport: McpTransportEnum,
+  command: z.string().nullable().optional(),        // stdio: executable to launch
+  args: z.array(z.string()).default([]),            // stdio: command-line arguments
+  env: z.record(z.string()).default({}),            // stdio: extra environment variables
+  url: z.string().url().nullable().optional(),      // sse: SSE endpoint URL
+  headers: z.record(z.string()).default({}),        // sse: extra request headers (e.g. Authorization)
+  enabled: z.boolean().default(true),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema,
+});
+
+export type McpServer = z.infer<typeof McpServerSchema>;
+
 // ============================================================================
 // COMPOUND OBJECTS
 // ============================================================================
@@ -0,0 +1,550 @@
+/**
+ * SillyTavern Bulk Import
+ *
+ * Imports a whole SillyTavern data directory from one uploaded zip. The
+ * upload is read into a preview job first: every item with what it would
+ * clash with (something imported before from the same source, something of
+ * the same name, a chat whose character can't be found). The user picks what
+ * to import and the job then runs in the background, World Info first and
+ * chats last so each item finds what it depends on.
+ *
+ * The zip is kept in S3 until the job ends and each item's outcome is saved
+ * as it goes, so an interrupted job picks up where it stopped. The finished
+ * job doubles as the import report.
+ */
+
+import { getRepositories } from '@/lib/repositories/factory'
+import { buildS3Key } from '@/lib/s3/client'
+import { deleteFile, downloadFile, uploadFile } from '@/lib/s3/operations'
+import { importFileBuffer } from '@/lib/images-v2'
+import { logger } from '@/lib/logger'
+import { createBackgroundJobRunner } from '@/lib/background-jobs'
+import type {
+  SillyTavernImport,
+  SillyTavernImportItem,
+  SillyTavernImportItemKind,
+} from '@/lib/schemas/types'
+import { readZip, ZipError } from '@/lib/zip'
+import { mimeTypeForExtension } from './card-assets'
+import { createCharacterFromCard } from './card-import'
+import { importSTChatForUser } from './chat-import'
+import {
+  readSTDataDirectory,
+  STDataCharacter,
+  STDataChat,
+  STDataDirectory,
+  STDataItem,
+  STDataPersona,
+  STDataWorldInfo,
+} from './data-directory'
+import { importSTPersona } from './persona'
+import { importSTWorldInfo } from './world-info'
+
+const jobs = createBackgroundJobRunner({
+  name: '[SillyTavernImport]',
+  run: importId => runSillyTavernImport(importId),
+  getStatus: async importId => (await getRepositories().sillyTavernImports.findById(importId))?.status,
+})
+
+/**
+ * Error thrown when an upload can't be imported or a job can't be started
+ */
+export class SillyTavernImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SillyTavernImportError'
+  }
+}
+
+/**
+ * What the user chose in the preview
+ */
+export interface SillyTavernImportOptions {
+  /** Profile imported chats talk through; defaults to the user's default profile */
+  connectionProfileId?: string | null
+  /** Import or skip, by item path; items not listed keep their default */
+  actions?: Record<string, 'IMPORT' | 'SKIP'>
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+/**
+ * The Quilltap entity an item stands for: what it was imported as, or what
+ * it clashed with when it was skipped
+ */
+function resolvedId(item: SillyTavernImportItem): string | null {
+  if (item.status === 'IMPORTED') {
+    return item.entityId
+  }
+  return item.action === 'SKIP' ? item.existingId : null
+}
+
+async function entityExists(userId: string, kind: SillyTavernImportItemKind, id: string): Promise<boolean> {
+  const repos = getRepositories()
+  const entity = kind === 'CHARACTER'
+    ? await repos.characters.findById(id)
+    : kind === 'PERSONA'
+      ? await repos.personas.findById(id)
+      : kind === 'WORLD_INFO'
+        ? await repos.lorebooks.findById(id)
+        : await repos.chats.findById(id)
+  return entity?.userId === userId
+}
+
+/**
+ * Work out the preview items of a data directory: conflicts and the action
+ * each item defaults to
+ *
+ * Items imported before are skipped by default, as are copies of an earlier
+ * item of the archive and chats whose character
+ * is neither in the archive nor among the user's characters (importing one
+ * anyway gives it a stub character). Items whose name
+ * is taken are imported by default; skipping one makes chats use the
+ * existing entity of that name instead.
+ */
+export async function planSillyTavernImport(userId: string, directory: STDataDirectory): Promise<SillyTavernImportItem[]> {
+  const repos = getRepositories()
+  const [previous, characters, personas, lorebooks] = await Promise.all([
+    repos.sillyTavernImports.findImportedItemsByHashes(userId, directory.items.map(item => item.hash)),
+    repos.characters.findByUserId(userId),
+    repos.personas.findByUserId(userId),
+    repos.lorebooks.findByUserId(userId),
+  ])
+
+  const existingByKind: Partial<Record<SillyTavernImportItemKind, Map<string, string>>> = {
+    CHARACTER: new Map(characters.map(c => [nameKey(c.name), c.id])),
+    PERSONA: new Map(personas.map(p => [nameKey(p.name), p.id])),
+    WORLD_INFO: new Map(lorebooks.map(l => [nameKey(l.name), l.id])),
+  }
+  const archiveCharacterNames = new Set(
+    directory.items.filter(item => item.kind === 'CHARACTER').map(item => nameKey(item.name))
+  )
+
+  const planned: SillyTavernImportItem[] = []
+  const plannedHashes = new Set<string>()
+  for (const item of directory.items) {
+    const base = {
+      path: item.path,
+      kind: item.kind,
+      name: item.name,
+      hash: item.hash,
+      status: 'PENDING' as const,
+      entityId: null,
+      error: null,
+    }
+
+    // The same file under another name, such as a backup copy
+    if (plannedHashes.has(item.hash)) {
+      planned.push({ ...base, conflict: 'DUPLICATE', existingId: null, action: 'SKIP' })
+      continue
+    }
+    plannedHashes.add(item.hash)
+
+    const earlier = previous.get(item.hash)
+    if (earlier?.entityId && earlier.kind === item.kind && await entityExists(userId, item.kind, earlier.entityId)) {
+      planned.push({ ...base, conflict: 'DUPLICATE', existingId: earlier.entityId, action: 'SKIP' })
+      continue
+    }
+
+    if (item.kind === 'CHAT' || item.kind === 'GROUP_CHAT') {
+      const findable = item.characterKeys.length > 0 || item.characterNames.some(name =>
+        archiveCharacterNames.has(nameKey(name)) || existingByKind.CHARACTER!.has(nameKey(name))
+      )
+      planned.push(findable
+        ? { ...base, conflict: null, existingId: null, action: 'IMPORT' }
+        : { ...base, conflict: 'MISSING_CHARACTER', existingId: null, action: 'SKIP' })
+      continue
+    }
+
+    const sameName = existingByKind[item.kind]?.get(nameKey(item.name))
+    planned.push(sameName
+      ? { ...base, conflict: 'NAME_EXISTS', existingId: sameName, action: 'IMPORT' }
+      : { ...base, conflict: null, existingId: null, action: 'IMPORT' })
+  }
+
+  return planned
+}
+
+/**
+ * Read an uploaded data directory into a preview job
+ * Throws SillyTavernImportError when the upload holds nothing to import.
+ */
+export async function createSillyTavernImport(userId: string, filename: string, buffer: Buffer): Promise<SillyTavernImport> {
+  const repos = getRepositories()
+
+  let directory: STDataDirectory
+  try {
+    directory = await readSTDataDirectory(readZip(buffer))
+  } catch (error) {
+    if (error instanceof ZipError) {
+      throw new SillyTavernImportError(error.message)
+    }
+    throw error
+  }
+  if (directory.items.length === 0) {
+    throw new SillyTavernImportError('No SillyTavern characters, chats, personas or World Info found in the archive')
+  }
+
+  const items = await planSillyTavernImport(userId, directory)
+
+  const s3Key = buildS3Key(userId, crypto.randomUUID(), filename, 'imports')
+  await uploadFile(s3Key, buffer, 'application/zip')
+
+  const job = await repos.sillyTavernImports.create({
+    userId,
+    status: 'PREVIEW',
+    filename,
+    s3Key,
+    connectionProfileId: null,
+    items,
+    warnings: directory.warnings,
+    total: items.length,
+    processed: 0,
+    error: null,
+    completedAt: null,
+  })
+
+  logger.info('[SillyTavernImport] Preview ready', { importId: job.id, userId, items: items.length, warnings: directory.warnings.length })
+  return job
+}
+
+/**
+ * Get an import job; a job left RUNNING by an earlier process is resumed here
+ */
+export async function getSillyTavernImport(importId: string): Promise<SillyTavernImport | null> {
+  const repos = getRepositories()
+  const job = await repos.sillyTavernImports.findById(importId)
+
+  if (job?.status === 'RUNNING' && !jobs.isRunning(job.id)) {
+    logger.info('[SillyTavernImport] Resuming interrupted job', { importId: job.id })
+    jobs.launch(job.id)
+  }
+
+  return job
+}
+
+/**
+ * Apply the user's choices to a previewed (or failed) job and run it
+ *
+ * Returns once the job is recorded; the import runs in the background.
+ * Throws SillyTavernImportError when chats are to be imported without a
+ * connection profile.
+ */
+export async function startSillyTavernImport(
+  job: SillyTavernImport,
+  options: SillyTavernImportOptions = {}
+): Promise<SillyTavernImport> {
+  const repos = getRepositories()
+  if (job.status === 'RUNNING') {
+    if (!jobs.isRunning(job.id)) {
+      jobs.launch(job.id)
+    }
+    return job
+  }
+  if (job.status !== 'PREVIEW' && job.status !== 'FAILED') {
+    throw new SillyTavernImportError(`This import has already ${job.status === 'COMPLETED' ? 'completed' : 'been cancelled'}`)
+  }
+
+  const actions = options.actions ?? {}
+  const items = job.items.map(item => {
+    // Items that failed last time get another go
+    if (item.status === 'FAILED') {
+      item = { ...item, status: 'PENDING', error: null }
+    }
+    const action = actions[item.path]
+    if (item.status !== 'PENDING' || !action) {
+      return item
+    }
+    return { ...item, action }
+  })
+
+  let connectionProfileId = job.connectionProfileId
+  if (options.connectionProfileId) {
+    const profile = await repos.connections.findById(options.connectionProfileId)
+    if (!profile || profile.userId !== job.userId) {
+      throw new SillyTavernImportError('Connection profile not found')
+    }
+    connectionProfileId = profile.id
+  } else if (!connectionProfileId) {
+    connectionProfileId = (await repos.connections.findDefault(job.userId))?.id ?? null
+  }
+
+  const importsChats = items.some(item =>
+    item.status === 'PENDING' && item.action === 'IMPORT' && (item.kind === 'CHAT' || item.kind === 'GROUP_CHAT')
+  )
+  if (importsChats && !connectionProfileId) {
+    throw new SillyTavernImportError('A connection profile is needed to import chats')
+  }
+
+  const started = (await repos.sillyTavernImports.update(job.id, {
+    status: 'RUNNING',
+    connectionProfileId,
+    items,
+    error: null,
+  }))!
+
+  logger.info('[SillyTavernImport] Started', {
+    importId: job.id,
+    importing: items.filter(item => item.status === 'PENDING' && item.action === 'IMPORT').length,
+  })
+  jobs.launch(started.id)
+  return started
+}
+
+/**
+ * Cancel an import that hasn't finished and drop its upload
+ * Items already imported are kept.
+ */
+export async function cancelSillyTavernImport(job: SillyTavernImport): Promise<SillyTavernImport | null> {
+  const repos = getRepositories()
+  const cancelled = await repos.sillyTavernImports.update(job.id, { status: 'CANCELLED' })
+  logger.info('[SillyTavernImport] Cancelled', { importId: job.id })
+
+  // A running job notices between items and cleans up after itself
+  return jobs.isRunning(job.id) ? cancelled : dropUpload(job.id, job.s3Key)
+}
+
+async function dropUpload(importId: string, s3Key: string | null): Promise<SillyTavernImport | null> {
+  const repos = getRepositories()
+  if (s3Key) {
+    try {
+      await deleteFile(s3Key)
+    } catch (error) {
+      logger.warn('[SillyTavernImport] Could not delete upload', { importId, s3Key, error: String(error) })
+    }
+  }
+  return repos.sillyTavernImports.update(importId, { s3Key: null })
+}
+
+/**
+ * Looks up what the items of a running job stand for
+ */
+class ImportContext {
+  constructor(
+    readonly job: SillyTavernImport,
+    readonly sources: Map<string, STDataItem>,
+    private readonly existingCharacters: Map<string, string>,
+    private readonly existingPersonas: Map<string, string>
+  ) {}
+
+  private resolvedByName(kind: SillyTavernImportItemKind, name: string): string | null {
+    const item = this.job.items.find(i => i.kind === kind && nameKey(i.name) === nameKey(name) && resolvedId(i))
+    return item ? resolvedId(item) : null
+  }
+
+  /** Character for an avatar file name, or for a name when the file isn't in the archive */
+  characterId(key: string | null, name?: string): string | null {
+    if (key) {
+      const item = this.job.items.find(i => i.kind === 'CHARACTER' && (this.sources.get(i.path) as STDataCharacter | undefined)?.key === key)
+      const id = item ? resolvedId(item) : null
+      if (id) return id
+    }
+    if (!name) return null
+    return this.resolvedByName('CHARACTER', name) ?? this.existingCharacters.get(nameKey(name)) ?? null
+  }
+
+  personaId(name: string | undefined): string | null {
+    if (!name) return null
+    return this.resolvedByName('PERSONA', name) ?? this.existingPersonas.get(nameKey(name)) ?? null
+  }
+
+  /** Lorebook made from a World Info file, by file name without extension */
+  worldInfoId(world: string): string | null {
+    const item = this.job.items.find(i => i.kind === 'WORLD_INFO' && i.path === `worlds/${world}.json`)
+    return item ? resolvedId(item) : null
+  }
+}
+
+async function importWorldInfo(ctx: ImportContext, source: STDataWorldInfo): Promise<string> {
+  const repos = getRepositories()
+  const lorebook = await repos.lorebooks.create({
+    userId: ctx.job.userId,
+    ...importSTWorldInfo(source.file, source.name),
+    characterIds: [],
+  })
+  return lorebook.id
+}
+
+async function importPersona(ctx: ImportContext, source: STDataPersona): Promise<string> {
+  const repos = getRepositories()
+  const persona = await repos.personas.create({
+    userId: ctx.job.userId,
+    ...importSTPersona(source.persona),
+    tags: [] as string[],
+    characterLinks: [] as string[],
+    defaultImageId: null,
+    physicalDescriptions: [],
+  })
+
+  if (source.avatar) {
+    const filename = source.persona.filename || `${source.name}.png`
+    try {
+      const file = await importFileBuffer(
+        source.avatar,
+        filename,
+        mimeTypeForExtension(filename.slice(filename.lastIndexOf('.') + 1)),
+        ctx.job.userId,
+        [persona.id],
+        'Persona avatar'
+      )
+      await repos.personas.update(persona.id, { defaultImageId: file.id })
+    } catch (error) {
+      logger.warn('[SillyTavernImport] Could not store persona avatar', { personaId: persona.id, error: String(error) })
+    }
+  }
+
+  return persona.id
+}
+
+async function importCharacter(ctx: ImportContext, source: STDataCharacter): Promise<string> {
+  const repos = getRepositories()
+  const { character } = await createCharacterFromCard(ctx.job.userId, source.card, {
+    pngAssets: source.pngAssets,
+    defaultImage: source.image,
+  })
+
+  // SillyTavern links a character to a World Info file by name
+  const world = source.card.extensions?.world
+  const lorebookId = typeof world === 'string' && world ? ctx.worldInfoId(world) : null
+  if (lorebookId) {
+    const lorebook = await repos.lorebooks.findById(lorebookId)
+    if (lorebook && !lorebook.characterIds.includes(character.id)) {
+      await repos.lorebooks.update(lorebookId, { characterIds: [...lorebook.characterIds, character.id] })
+    }
+  }
+
+  return character.id
+}
+
+async function importChat(ctx: ImportContext, source: STDataChat): Promise<string> {
+  const { userId, connectionProfileId } = ctx.job
+  if (!connectionProfileId) {
+    throw new Error('No connection profile to import chats with')
+  }
+
+  const title = source.kind === 'GROUP_CHAT'
+    ? source.group?.name || source.name
+    : source.path.slice(source.path.lastIndexOf('/') + 1).replace(/\.jsonl$/i, '')
+
+  // Speakers are looked up among the archive's characters first; any still
+  // unknown become stub characters
+  const { chat } = await importSTChatForUser(userId, source.chat, {
+    connectionProfileId,
+    characterId: source.kind === 'CHAT'
+      ? ctx.characterId(source.characterKeys[0] ?? null, source.characterNames[0])
+      : null,
+    personaId: ctx.personaId(source.chat.user_name),
+    title,
+    group: source.group,
+    resolveCharacter: speaker => ctx.characterId(speaker.avatar ?? null, speaker.name),
+  })
+
+  return chat.id
+}
+
+function importItem(ctx: ImportContext, source: STDataItem): Promise<string> {
+  switch (source.kind) {
+    case 'WORLD_INFO':
+      return importWorldInfo(ctx, source)
+    case 'PERSONA':
+      return importPersona(ctx, source)
+    case 'CHARACTER':
+      return importCharacter(ctx, source)
+    default:
+      return importChat(ctx, source)
+  }
+}
+
+/**
+ * Run an import job to completion
+ *
+ * Safe to call again after a failure or restart: items already done are
+ * skipped. An item that fails is recorded as failed and the job goes on;
+ * failures of the job itself (e.g. the upload can't be read) leave it FAILED
+ * and resumable.
+ */
+export async function runSillyTavernImport(importId: string): Promise<SillyTavernImport | null> {
+  const repos = getRepositories()
+  const existing = await repos.sillyTavernImports.findById(importId)
+  if (!existing || existing.status !== 'RUNNING') {
+    return existing
+  }
+  if (!existing.s3Key) {
+    return repos.sillyTavernImports.update(importId, { status: 'FAILED', error: 'The uploaded archive is no longer available' })
+  }
+
+  try {
+    const directory = await readSTDataDirectory(readZip(await downloadFile(existing.s3Key)))
+    const [characters, personas] = await Promise.all([
+      repos.characters.findByUserId(existing.userId),
+      repos.personas.findByUserId(existing.userId),
+    ])
+    const ctx = new ImportContext(
+      { ...existing, items: existing.items.map(item => ({ ...item })) },
+      new Map(directory.items.map(item => [item.path, item])),
+      new Map(characters.map(c => [nameKey(c.name), c.id])),
+      new Map(personas.map(p => [nameKey(p.name), p.id]))
+    )
+    const items = ctx.job.items
+
+    for (const item of items) {
+      if (item.status !== 'PENDING') {
+        continue
+      }
+      if (await jobs.isCancelled(importId)) {
+        logger.info('[SillyTavernImport] Stopped after cancellation', { importId })
+        await repos.sillyTavernImports.update(importId, { status: 'CANCELLED', items })
+        return dropUpload(importId, existing.s3Key)
+      }
+
+      const source = ctx.sources.get(item.path)
+      if (item.action === 'SKIP') {
+        item.status = 'SKIPPED'
+      } else if (!source) {
+        item.status = 'FAILED'
+        item.error = 'No longer found in the archive'
+      } else {
+        try {
+          item.entityId = await importItem(ctx, source)
+          item.status = 'IMPORTED'
+        } catch (error) {
+          logger.warn('[SillyTavernImport] Item failed', { importId, path: item.path, error: String(error) })
+          item.status = 'FAILED'
+          item.error = error instanceof Error ? error.message : String(error)
+        }
+      }
+
+      await repos.sillyTavernImports.update(importId, {
+        items,
+        processed: items.filter(i => i.status !== 'PENDING').length,
+      })
+    }
+
+    // Cancelled while the last item was importing
+    if (await jobs.isCancelled(importId)) {
+      logger.info('[SillyTavernImport] Stopped after cancellation', { importId })
+      await repos.sillyTavernImports.update(importId, { status: 'CANCELLED', items })
+      return dropUpload(importId, existing.s3Key)
+    }
+
+    logger.info('[SillyTavernImport] Completed', {
+      importId,
+      imported: items.filter(i => i.status === 'IMPORTED').length,
+      failed: items.filter(i => i.status === 'FAILED').length,
+    })
+    await repos.sillyTavernImports.update(importId, {
+      status: 'COMPLETED',
+      processed: items.length,
+      completedAt: new Date().toISOString(),
+    })
+    return dropUpload(importId, existing.s3Key)
+  } catch (error) {
+    logger.warn('[SillyTavernImport] Job failed, can be resumed', { importId, error: String(error) })
+    return repos.sillyTavernImports.update(importId, {
+      status: 'FAILED',
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Character Card Assets
+ *
+ * V3 cards list their assets (icons, backgrounds, emotion sprites...) by URI.
+ * On import, assets whose bytes travel with the card are stored as Quilltap
+ * files linked to the character and their URI is rewritten to point at the
+ * file; the main icon becomes the character's avatar. Assets we can't fetch
+ * (remote URLs) keep their URI. On export the files are read back so the
+ * card writer can embed them.
+ */
+
+import { getRepositories } from '@/lib/repositories/factory'
+import { importFileBuffer, readImageBuffer } from '@/lib/images-v2'
+import { logger } from '@/lib/logger'
+import type { Character } from '@/lib/schemas/types'
+import { QUILLTAP_FILE_URI, STCardAssetFile, STCharacterAsset, STCharacterV3 } from './character'
+import { charXAssetPath } from './charx'
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+}
+
+/**
+ * Where the bytes of a card's assets can come from
+ */
+export interface CardAssetSources {
+  /** Files of a CharX archive, by path */
+  files?: Map<string, Buffer>
+  /** Assets embedded in a PNG card's chunks */
+  pngAssets?: Map<string, Buffer>
+  /** The card image itself, for ccdefault: */
+  defaultImage?: Buffer | null
+}
+
+/**
+ * Result of storing a card's assets
+ */
+export interface CardAssetImportResult {
+  /** The card's assets with stored ones pointing at Quilltap files; null when the card lists none */
+  assets: STCharacterAsset[] | null
+  /** File to use as the character's avatar */
+  avatarFileId: string | null
+}
+
+export function mimeTypeForExtension(ext: string): string {
+  return MIME_TYPES[ext.toLowerCase()] || 'application/octet-stream'
+}
+
+function extensionForMimeType(mimeType: string): string {
+  const match = Object.entries(MIME_TYPES).find(([, type]) => type === mimeType)
+  return match ? match[0] : 'bin'
+}
+
+function isMainIcon(asset: STCharacterAsset): boolean {
+  return asset.type === 'icon' && asset.name === 'main'
+}
+
+/**
+ * The bytes of an asset, when they travel with the card
+ */
+export function resolveCardAsset(asset: STCharacterAsset, sources: CardAssetSources): Buffer | null {
+  const uri = asset.uri || ''
+  if (uri === 'ccdefault:') {
+    return sources.defaultImage ?? null
+  }
+  if (uri.startsWith('__asset:')) {
+    return sources.pngAssets?.get(uri.slice('__asset:'.length)) ?? null
+  }
+  if (uri.startsWith('data:')) {
+    const comma = uri.indexOf(',')
+    if (comma === -1) return null
+    const isBase64 = uri.slice(0, comma).endsWith(';base64')
+    return Buffer.from(decodeURIComponent(uri.slice(comma + 1)), isBase64 ? 'base64' : 'utf8')
+  }
+  const path = charXAssetPath(uri)
+  return path ? sources.files?.get(path) ?? null : null
+}
+
+/**
+ * Store a card's assets as files linked to the character
+ *
+ * A card without an asset list uses its own image as the main icon, as the
+ * V3 spec prescribes. An asset that fails to store keeps its original URI.
+ */
+export async function importCardAssets(
+  data: STCharacterV3,
+  sources: CardAssetSources,
+  userId: string,
+  characterId: string
+): Promise<CardAssetImportResult> {
+  const listed = Array.isArray(data.assets) ? data.assets : null
+  const assets: STCharacterAsset[] = listed ?? (sources.defaultImage
+    ? [{ type: 'icon', uri: 'ccdefault:', name: 'main', ext: 'png' }]
+    : [])
+
+  let avatarFileId: string | null = null
+  const stored: STCharacterAsset[] = []
+  for (const asset of assets) {
+    const bytes = resolveCardAsset(asset, sources)
+    if (!bytes) {
+      stored.push(asset)
+      continue
+    }
+
+    try {
+      const file = await importFileBuffer(
+        bytes,
+        `${asset.name || asset.type}.${asset.ext}`,
+        mimeTypeForExtension(asset.ext),
+        userId,
+        [characterId],
+        `Character card asset (${asset.type}: ${asset.name})`
+      )
+      stored.push({ ...asset, uri: `${QUILLTAP_FILE_URI}${file.id}` })
+      // The main icon wins; otherwise the first icon that is an image
+      if (file.mimeType.startsWith('image/') && (isMainIcon(asset) || (!avatarFileId && asset.type === 'icon'))) {
+        avatarFileId = file.id
+      }
+    } catch (error) {
+      logger.warn(`[CharacterCard] Could not store asset ${asset.type}/${asset.name}`, { characterId, error: String(error) })
+      stored.push(asset)
+    }
+  }
+
+  return { assets: listed ? stored : null, avatarFileId }
+}
+
+/**
+ * Load a character's card assets for export
+ *
+ * The character's current avatar is always the main icon. Assets whose file
+ * is gone are dropped; assets that were never stored keep their URI.
+ */
+export async function loadCardAssets(character: Pick<Character, 'id' | 'defaultImageId' | 'sillyTavernData'>): Promise<STCardAssetFile[]> {
+  const repos = getRepositories()
+  const listed = (character.sillyTavernData as STCharacterV3 | null | undefined)?.assets
+  const assets: STCharacterAsset[] = Array.isArray(listed) ? listed : []
+
+  const files: STCardAssetFile[] = []
+  for (const asset of assets) {
+    if (isMainIcon(asset) && character.defaultImageId) {
+      continue
+    }
+    if (!asset.uri?.startsWith(QUILLTAP_FILE_URI)) {
+      files.push({ asset, data: null })
+      continue
+    }
+    try {
+      files.push({ asset, data: await readImageBuffer(asset.uri.slice(QUILLTAP_FILE_URI.length)) })
+    } catch (error) {
+      logger.warn(`[CharacterCard] Skipping missing asset ${asset.type}/${asset.name}`, { characterId: character.id, error: String(error) })
+    }
+  }
+
+  if (character.defaultImageId) {
+    const avatar = await repos.files.findById(character.defaultImageId)
+    if (avatar) {
+      try {
+        files.unshift({
+          asset: { type: 'icon', uri: `${QUILLTAP_FILE_URI}${avatar.id}`, name: 'main', ext: extensionForMimeType(avatar.mimeType) },
+          data: await readImageBuffer(avatar.id),
+        })
+      } catch (error) {
+        logger.warn('[CharacterCard] Could not read avatar for export', { characterId: character.id, error: String(error) })
+      }
+    }
+  }
+
+  return files
+}
+
+/**
+ * Point assets with bytes at data: URIs, for V3 cards exported as plain JSON
+ */
+export function embedCardAssetsAsDataURIs(files: STCardAssetFile[]): STCharacterAsset[] {
+  return files.map(({ asset, data }) => data
+    ? { ...asset, uri: `data:${mimeTypeForExtension(asset.ext)};base64,${data.toString('base64')}` }
+    : asset)
+}
@@ -0,0 +1,71 @@
+/**
+ * Character Card Import
+ * Creates a character from a parsed V2/V3 card: the character itself, its
+ * stored assets (the main icon becoming the avatar) and a lorebook for the
+ * card's embedded character book.
+ */
+
+import { getRepositories } from '@/lib/repositories/factory'
+import type { Character } from '@/lib/schemas/types'
+import { getSTCharacterBook, importSTCharacter } from './character'
+import { CardAssetSources, importCardAssets } from './card-assets'
+import { importSTCharacterBook } from './world-info'
+
+export interface CardImportResult {
+  character: Character
+  /** Lorebook made from the card's character book, if it has one */
+  lorebookId: string | null
+}
+
+/**
+ * Create a character from card data
+ * @param cardData The card as parsed (wrapped V2/V3 card or bare data)
+ * @param sources Where the bytes of the card's assets come from
+ */
+export async function createCharacterFromCard(
+  userId: string,
+  cardData: any,
+  sources: CardAssetSources = {}
+): Promise<CardImportResult> {
+  const repos = getRepositories()
+  const importedData = importSTCharacter(cardData)
+
+  let character = await repos.characters.create({
+    userId,
+    ...importedData,
+    avatarUrl: null,
+    isFavorite: false,
+    tags: [] as string[],
+    personaLinks: [] as { personaId: string; isDefault: boolean }[],
+    avatarOverrides: [] as { chatId: string; imageId: string }[],
+    defaultImageId: null,
+  })
+
+  // Store the card's assets as files; the main icon becomes the avatar
+  const { assets, avatarFileId } = await importCardAssets(
+    importedData.sillyTavernData,
+    sources,
+    userId,
+    character.id
+  )
+  if (assets || avatarFileId) {
+    character = await repos.characters.update(character.id, {
+      defaultImageId: avatarFileId,
+      ...(assets ? { sillyTavernData: { ...importedData.sillyTavernData, assets } } : {}),
+    }) ?? character
+  }
+
+  // Keep the card's embedded lorebook as a native lorebook attached to the character
+  const characterBook = getSTCharacterBook(cardData)
+  let lorebookId: string | null = null
+  if (characterBook) {
+    const lorebook = await repos.lorebooks.create({
+      userId,
+      ...importSTCharacterBook(characterBook, `${character.name} Lore`),
+      characterIds: [character.id],
+    })
+    lorebookId = lorebook.id
+  }
+
+  return { character, lorebookId }
+}
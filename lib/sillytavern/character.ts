@@ -1,9 +1,16 @@
 /**
  * SillyTavern Character Import/Export
- * Supports SillyTavern V2 character format
+ * Supports V2 and V3 character cards, as JSON or embedded in a PNG
+ * (the V3 CharX container is handled in charx.ts)
+ *
+ * The original card data is kept on the character as sillyTavernData, so
+ * fields and extensions Quilltap does not use survive a round trip.
  */
 
 import { logger } from '@/lib/logger'
+import { PhysicalDescriptionSchema, type Lorebook, type PhysicalDescription } from '@/lib/schemas/types'
+import { crc32 } from '@/lib/zip'
+import { exportSTCharacterBook, isSTCharacterBook, STCharacterBook } from './world-info'
 
 export interface STCharacterV2 {
   name: string
@@ -21,23 +28,135 @@ export interface STCharacterV2 {
   extensions?: Record<string, any>
   // Additional V2 spec fields
   alternate_greetings?: string[]
-  character_book?: any
+  character_book?: STCharacterBook
   title?: string
   [key: string]: any
 }
 
+/**
+ * A file attached to a V3 card (icon, background, emotion sprite...)
+ */
+export interface STCharacterAsset {
+  /** icon, background, user_icon, emotion, or anything else */
+  type: string
+  /** Where the bytes are: ccdefault:, embeded://, __asset:, data: or a URL */
+  uri: string
+  /** main marks the asset to use by default for its type */
+  name: string
+  /** File extension without the dot */
+  ext: string
+  [key: string]: any
+}
+
+export interface STCharacterV3 extends STCharacterV2 {
+  group_only_greetings?: string[]
+  assets?: STCharacterAsset[]
+  nickname?: string
+  creator_notes_multilingual?: Record<string, string>
+  source?: string[]
+  creation_date?: number
+  modification_date?: number
+}
+
 export interface STCharacterCard {
   spec: 'chara_card_v2'
   spec_version: '2.0'
   data: STCharacterV2
 }
 
+export interface STCharacterCardV3 {
+  spec: 'chara_card_v3'
+  spec_version: string
+  data: STCharacterV3
+}
+
+/**
+ * An asset to write into an exported card, with its bytes when Quilltap has them
+ */
+export interface STCardAssetFile {
+  asset: STCharacterAsset
+  data: Buffer | null
+}
+
+/** Asset URI for a file stored in Quilltap; resolved to the file's bytes on export */
+export const QUILLTAP_FILE_URI = 'quilltap-file://'
+
+// PNG tEXt keywords written by SillyTavern and other card editors
+const PNG_KEYWORD_V2 = 'chara'
+const PNG_KEYWORD_V3 = 'ccv3'
+const PNG_ASSET_KEYWORD_PREFIX = 'chara-ext-asset_:'
+const PNG_ASSET_URI_PREFIX = '__asset:'
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10])
+
+type AnySTCharacter = STCharacterV2 | STCharacterV3 | STCharacterCard | STCharacterCardV3
+
+function cardData(stData: AnySTCharacter): STCharacterV3 {
+  return 'data' in stData && stData.data && typeof stData.data === 'object' ? stData.data : stData as STCharacterV3
+}
+
+/**
+ * Check whether parsed JSON is a V3 card
+ */
+export function isSTCharacterCardV3(data: unknown): data is STCharacterCardV3 {
+  return (data as STCharacterCardV3 | null)?.spec === 'chara_card_v3' && !!(data as STCharacterCardV3).data
+}
+
+/**
+ * Get the lorebook embedded in a card, if it has one with entries
+ */
+export function getSTCharacterBook(stData: AnySTCharacter): STCharacterBook | null {
+  const book = cardData(stData).character_book
+  return isSTCharacterBook(book) && book.entries.length > 0 ? book : null
+}
+
+// Physical descriptions travel in the card's extensions so Quilltap keeps them
+// on a round trip; other apps ignore the field
+function importPhysicalDescriptions(extensions: Record<string, any> | undefined): PhysicalDescription[] {
+  const stored = extensions?.quilltap?.physicalDescriptions
+  if (!Array.isArray(stored)) {
+    return []
+  }
+
+  const now = new Date().toISOString()
+  const descriptions: PhysicalDescription[] = []
+  for (const item of stored) {
+    const parsed = PhysicalDescriptionSchema.safeParse({ ...item, id: crypto.randomUUID(), createdAt: now, updatedAt: now })
+    if (parsed.success) {
+      descriptions.push(parsed.data)
+    }
+  }
+  return descriptions
+}
+
+// Blank greetings are dropped; they would only open a chat with an empty message
+function importAlternateGreetings(greetings: unknown): string[] {
+  return Array.isArray(greetings)
+    ? greetings.filter((greeting): greeting is string => typeof greeting === 'string' && greeting.trim() !== '')
+    : []
+}
+
+function exportPhysicalDescriptions(descriptions: PhysicalDescription[] | undefined) {
+  return (descriptions || []).map(({ name, shortPrompt, mediumPrompt, longPrompt, completePrompt, fullDescription }) => ({
+    name,
+    shortPrompt: shortPrompt ?? null,
+    mediumPrompt: mediumPrompt ?? null,
+    longPrompt: longPrompt ?? null,
+    completePrompt: completePrompt ?? null,
+    fullDescription: fullDescription ?? null,
+  }))
+}
+
 /**
  * Import SillyTavern character data to internal format
+ * The embedded character_book is not kept here; import it as a lorebook
+ * with importSTCharacterBook so it can be edited and exported again. Assets
+ * are stored separately (see card-assets.ts).
  */
-export function importSTCharacter(stData: STCharacterV2 | STCharacterCard) {
-  // Handle both direct V2 format and card format
-  const data = 'data' in stData ? stData.data : stData
+export function importSTCharacter(stData: AnySTCharacter) {
+  // Handle both direct data and card format
+  const card = cardData(stData)
+  const { character_book: _characterBook, ...data } = card
 
   // mes_example can be an array or string in SillyTavern format
   // Convert to JSON string for storage
@@ -55,18 +174,20 @@ export function importSTCharacter(stData: STCharacterV2 | STCharacterCard) {
     personality: data.personality,
     scenario: data.scenario,
     firstMessage: data.first_mes,
+    alternateGreetings: importAlternateGreetings(data.alternate_greetings),
     exampleDialogues,
     systemPrompt: data.system_prompt || '',
+    physicalDescriptions: importPhysicalDescriptions(data.extensions),
     sillyTavernData: data, // Store original for full fidelity
   }
 }
 
 /**
- * Export internal character to SillyTavern format
+ * Card data for a character: the original card with current values applied
  */
-export function exportSTCharacter(character: any): STCharacterCard {
+function buildSTCharacterData(character: any, lorebook?: Lorebook | null): STCharacterV3 {
   // If we have original ST data, use it as base to preserve all fields
-  const baseData: STCharacterV2 = character.sillyTavernData || {
+  const baseData: STCharacterV3 = character.sillyTavernData || {
     name: character.name,
     description: character.description,
     personality: character.personality,
@@ -81,18 +202,43 @@ export function exportSTCharacter(character: any): STCharacterCard {
   }
 
   // Override with current values
-  const data: STCharacterV2 = {
+  const data: STCharacterV3 = {
     ...baseData,
     name: character.name,
     description: character.description,
     personality: character.personality,
     scenario: character.scenario,
     first_mes: character.firstMessage,
+    // Characters imported before greetings were kept still have them in the original card
+    alternate_greetings: character.alternateGreetings ?? baseData.alternate_greetings ?? [],
     mes_example: character.exampleDialogues || '',
     system_prompt: character.systemPrompt || '',
     title: character.title || undefined,
   }
 
+  const physicalDescriptions = exportPhysicalDescriptions(character.physicalDescriptions)
+  if (physicalDescriptions.length > 0) {
+    data.extensions = {
+      ...data.extensions,
+      quilltap: { ...data.extensions?.quilltap, physicalDescriptions },
+    }
+  }
+
+  if (lorebook) {
+    data.character_book = exportSTCharacterBook(lorebook)
+  }
+
+  return data
+}
+
+/**
+ * Export internal character to SillyTavern V2 format
+ * Pass the character's lorebook to embed it as the card's character_book
+ */
+export function exportSTCharacter(character: any, lorebook?: Lorebook | null): STCharacterCard {
+  // V2 has no assets, and ours may point at Quilltap files
+  const { assets: _assets, ...data } = buildSTCharacterData(character, lorebook)
+
   return {
     spec: 'chara_card_v2',
     spec_version: '2.0',
@@ -100,52 +246,100 @@ export function exportSTCharacter(character: any): STCharacterCard {
   }
 }
 
+/**
+ * Export internal character to the V3 card format
+ * Assets are written as given; the caller decides how their bytes travel
+ * (PNG chunks, CharX files or data URIs).
+ */
+export function exportSTCharacterV3(
+  character: any,
+  lorebook?: Lorebook | null,
+  assets: STCharacterAsset[] = []
+): STCharacterCardV3 {
+  const data = buildSTCharacterData(character, lorebook)
+
+  return {
+    spec: 'chara_card_v3',
+    spec_version: '3.0',
+    data: {
+      alternate_greetings: [],
+      group_only_greetings: [],
+      creator_notes: '',
+      tags: [],
+      creator: '',
+      character_version: '',
+      ...data,
+      extensions: data.extensions || {},
+      assets,
+      creation_date: data.creation_date ?? Math.floor(new Date(character.createdAt).getTime() / 1000),
+      modification_date: Math.floor(new Date(character.updatedAt).getTime() / 1000),
+    },
+  }
+}
+
+/**
+ * Read the tEXt chunks of a PNG
+ */
+function readPNGTextChunks(buffer: Buffer): Map<string, string> {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Invalid PNG file')
+  }
+
+  const chunks = new Map<string, string>()
+  let offset = 8
+  while (offset + 8 <= buffer.length) {
+    // Read chunk length and type
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString('ascii', offset + 4, offset + 8)
+
+    if (type === 'tEXt') {
+      // Keyword and text are separated by a null byte
+      const chunkData = buffer.subarray(offset + 8, offset + 8 + length)
+      const nullIndex = chunkData.indexOf(0)
+      if (nullIndex !== -1) {
+        chunks.set(chunkData.toString('latin1', 0, nullIndex), chunkData.toString('utf8', nullIndex + 1))
+      }
+    } else if (type === 'IEND') {
+      break
+    }
+
+    // Move to next chunk (length + type + data + CRC)
+    offset += 12 + length
+  }
+  return chunks
+}
+
+/**
+ * Card text is base64 JSON; very old tools wrote the JSON directly
+ */
+function decodeCardText(text: string): any {
+  const trimmed = text.trim()
+  return JSON.parse(trimmed.startsWith('{') ? trimmed : Buffer.from(trimmed, 'base64').toString('utf8'))
+}
+
 /**
  * Parse SillyTavern character from PNG file
- * PNG files embed JSON data in a tEXt chunk
+ * PNG files embed the card in a tEXt chunk; a V3 card (ccv3) is preferred
+ * over the V2 copy (chara) that is usually written next to it.
  */
 export async function parseSTCharacterPNG(
   buffer: Buffer
-): Promise<STCharacterV2 | null> {
+): Promise<STCharacterV3 | null> {
   try {
-    // Look for PNG tEXt chunk with chara data
-    const pngSignature = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10])
-    if (!buffer.slice(0, 8).equals(pngSignature)) {
-      throw new Error('Invalid PNG file')
-    }
+    const chunks = readPNGTextChunks(buffer)
 
-    let offset = 8
-    while (offset < buffer.length) {
-      // Read chunk length and type
-      const length = buffer.readUInt32BE(offset)
-      const type = buffer.toString('ascii', offset + 4, offset + 8)
-
-      if (type === 'tEXt') {
-        // Read chunk data
-        const chunkData = buffer.slice(offset + 8, offset + 8 + length)
-
-        // Find null terminator to separate keyword from text
-        const nullIndex = chunkData.indexOf(0)
-        if (nullIndex === -1) continue
-
-        const keyword = chunkData.toString('utf8', 0, nullIndex)
-
-        // Check for character data keywords
-        if (keyword === 'chara' || keyword === 'ccv2') {
-          const jsonData = chunkData.toString('utf8', nullIndex + 1)
-          const parsed = JSON.parse(jsonData)
-
-          // Handle both V2 card format and direct data
-          if (parsed.spec === 'chara_card_v2' && parsed.data) {
-            return parsed.data
-          } else if (parsed.name) {
-            return parsed
-          }
-        }
-      }
+    for (const keyword of [PNG_KEYWORD_V3, PNG_KEYWORD_V2, 'ccv2']) {
+      const text = chunks.get(keyword)
+      if (!text) continue
+
+      const parsed = decodeCardText(text)
 
-      // Move to next chunk (length + type + data + CRC)
-      offset += 12 + length
+      // Handle both card format and direct data
+      if ((parsed.spec === 'chara_card_v3' || parsed.spec === 'chara_card_v2') && parsed.data) {
+        return parsed.data
+      } else if (parsed.name) {
+        return parsed
+      }
     }
 
     return null
@@ -156,72 +350,103 @@ export async function parseSTCharacterPNG(
 }
 
 /**
- * Create SillyTavern character PNG with embedded JSON
+ * Extract the assets a V3 PNG card embeds in its own chunks
+ * Keyed by the part after __asset: in the asset URI.
  */
-export async function createSTCharacterPNG(
-  character: any,
-  avatarBuffer?: Buffer
-): Promise<Buffer> {
-  const stCard = exportSTCharacter(character)
-  const jsonData = JSON.stringify(stCard)
-
-  // If no avatar provided, create a simple placeholder
-  if (!avatarBuffer) {
-    // TODO: Generate a simple colored PNG placeholder
-    // For now, we'll require an avatar or handle this in the API
-    throw new Error('Avatar image required for PNG export')
+export function extractSTCharacterPNGAssets(buffer: Buffer): Map<string, Buffer> {
+  const assets = new Map<string, Buffer>()
+  for (const [keyword, text] of readPNGTextChunks(buffer)) {
+    if (keyword.startsWith(PNG_ASSET_KEYWORD_PREFIX)) {
+      assets.set(keyword.slice(PNG_ASSET_KEYWORD_PREFIX.length), Buffer.from(text.trim(), 'base64'))
+    }
   }
+  return assets
+}
 
-  // Insert tEXt chunk into PNG
-  const pngSignature = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10])
-
-  // Create tEXt chunk
-  const keyword = 'chara'
-  const keywordBuffer = Buffer.from(keyword, 'utf8')
-  const nullByte = Buffer.from([0])
-  const dataBuffer = Buffer.from(jsonData, 'utf8')
+function isCardKeyword(keyword: string): boolean {
+  return keyword === PNG_KEYWORD_V2 || keyword === PNG_KEYWORD_V3 || keyword === 'ccv2' ||
+    keyword.startsWith(PNG_ASSET_KEYWORD_PREFIX)
+}
 
-  const chunkData = Buffer.concat([keywordBuffer, nullByte, dataBuffer])
+function createTextChunk(keyword: string, text: string): Buffer {
+  const chunkData = Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), Buffer.from(text, 'utf8')])
   const chunkLength = Buffer.alloc(4)
   chunkLength.writeUInt32BE(chunkData.length)
 
   const chunkType = Buffer.from('tEXt', 'ascii')
 
-  // Calculate CRC32 for chunk (type + data)
-  const crc = calculateCRC32(Buffer.concat([chunkType, chunkData]))
+  // CRC32 covers chunk type and data
   const crcBuffer = Buffer.alloc(4)
-  crcBuffer.writeUInt32BE(crc)
-
-  const textChunk = Buffer.concat([chunkLength, chunkType, chunkData, crcBuffer])
+  crcBuffer.writeUInt32BE(crc32(Buffer.concat([chunkType, chunkData])))
 
-  // Insert chunk after PNG header and IHDR chunk
-  // Find the IHDR chunk end
-  let insertOffset = 8 // After PNG signature
-  const ihdrLength = avatarBuffer.readUInt32BE(insertOffset)
-  insertOffset += 12 + ihdrLength // Skip length, type, data, and CRC
+  return Buffer.concat([chunkLength, chunkType, chunkData, crcBuffer])
+}
 
-  // Construct new PNG with tEXt chunk inserted
-  const result = Buffer.concat([
-    avatarBuffer.slice(0, insertOffset),
-    textChunk,
-    avatarBuffer.slice(insertOffset),
-  ])
+/**
+ * Replace a PNG's card chunks with new ones
+ * Card chunks already in the image (it may come from an imported card) are
+ * dropped; the new chunks go right after IHDR. With no chunks this strips
+ * the card from the image.
+ */
+export function replaceSTCharacterPNGChunks(png: Buffer, chunks: { keyword: string; text: string }[]): Buffer {
+  if (!png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Invalid PNG file')
+  }
 
-  return result
+  const parts: Buffer[] = [PNG_SIGNATURE]
+  let offset = 8
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset)
+    const type = png.toString('ascii', offset + 4, offset + 8)
+    const chunk = png.subarray(offset, offset + 12 + length)
+    offset += 12 + length
+
+    if (type === 'tEXt') {
+      const nullIndex = chunk.indexOf(0, 8)
+      if (nullIndex !== -1 && isCardKeyword(chunk.toString('latin1', 8, nullIndex))) {
+        continue
+      }
+    }
+    parts.push(chunk)
+    if (type === 'IHDR') {
+      parts.push(...chunks.map(({ keyword, text }) => createTextChunk(keyword, text)))
+    }
+  }
+  return Buffer.concat(parts)
 }
 
 /**
- * Calculate CRC32 checksum (PNG spec)
+ * Create SillyTavern character PNG with embedded JSON
+ * Writes the V2 card (chara) for older readers and the V3 card (ccv3) with
+ * its assets embedded as chunks. The main icon is the PNG itself.
  */
-function calculateCRC32(buffer: Buffer): number {
-  let crc = 0xffffffff
+export async function createSTCharacterPNG(
+  character: any,
+  avatarBuffer?: Buffer,
+  lorebook?: Lorebook | null,
+  assetFiles: STCardAssetFile[] = []
+): Promise<Buffer> {
+  if (!avatarBuffer) {
+    throw new Error('Avatar image required for PNG export')
+  }
 
-  for (let i = 0; i < buffer.length; i++) {
-    crc ^= buffer[i]
-    for (let j = 0; j < 8; j++) {
-      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1
+  const assetChunks: { keyword: string; text: string }[] = []
+  const assets = assetFiles.map(({ asset, data }, index) => {
+    if (asset.type === 'icon' && asset.name === 'main') {
+      return { ...asset, uri: 'ccdefault:', ext: 'png' }
     }
-  }
+    if (!data) {
+      return asset
+    }
+    assetChunks.push({ keyword: `${PNG_ASSET_KEYWORD_PREFIX}${index}`, text: data.toString('base64') })
+    return { ...asset, uri: `${PNG_ASSET_URI_PREFIX}${index}` }
+  })
+
+  const encode = (card: unknown) => Buffer.from(JSON.stringify(card), 'utf8').toString('base64')
 
-  return (crc ^ 0xffffffff) >>> 0
+  return replaceSTCharacterPNGChunks(avatarBuffer, [
+    { keyword: PNG_KEYWORD_V2, text: encode(exportSTCharacter(character, lorebook)) },
+    { keyword: PNG_KEYWORD_V3, text: encode(exportSTCharacterV3(character, lorebook, assets)) },
+    ...assetChunks,
+  ])
 }
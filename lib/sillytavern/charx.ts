@@ -0,0 +1,92 @@
+/**
+ * CharX Import/Export
+ * The V3 character card container: a ZIP holding card.json and the card's
+ * assets, which the card references as embeded://<path>
+ */
+
+import type { Lorebook } from '@/lib/schemas/types'
+import { createZip, readZip, ZipEntry } from '@/lib/zip'
+import { exportSTCharacterV3, isSTCharacterCardV3, STCardAssetFile, STCharacterAsset, STCharacterCardV3 } from './character'
+
+// The spec spells the scheme this way; the corrected spelling is accepted too
+const EMBEDDED_URI_PREFIX = 'embeded://'
+const EMBEDDED_URI_PREFIXES = [EMBEDDED_URI_PREFIX, 'embedded://']
+
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'webp', 'gif', 'avif'])
+const AUDIO_EXTENSIONS = new Set(['mp3', 'ogg', 'wav', 'flac', 'm4a'])
+
+/**
+ * A parsed CharX file
+ */
+export interface CharX {
+  card: STCharacterCardV3
+  /** Every other file in the archive, by path */
+  files: Map<string, Buffer>
+}
+
+/**
+ * Archive path of an embeded:// asset URI, or null for other URIs
+ */
+export function charXAssetPath(uri: string): string | null {
+  const prefix = EMBEDDED_URI_PREFIXES.find(p => uri.startsWith(p))
+  return prefix ? uri.slice(prefix.length).replace(/^\/+/, '') : null
+}
+
+/**
+ * Read a CharX file
+ * Throws when the archive has no V3 card.json.
+ */
+export function parseCharX(buffer: Buffer): CharX {
+  const files = new Map(readZip(buffer).map(entry => [entry.path, entry.data]))
+  const cardJson = files.get('card.json')
+  if (!cardJson) {
+    throw new Error('CharX file has no card.json')
+  }
+
+  const card = JSON.parse(cardJson.toString('utf8'))
+  if (!isSTCharacterCardV3(card)) {
+    throw new Error('card.json is not a V3 character card')
+  }
+  files.delete('card.json')
+
+  return { card, files }
+}
+
+/**
+ * Folder for an asset inside the archive, following the layout of the spec's examples
+ */
+function assetFolder(asset: STCharacterAsset): string {
+  const ext = asset.ext.toLowerCase()
+  const kind = IMAGE_EXTENSIONS.has(ext) ? 'images' : AUDIO_EXTENSIONS.has(ext) ? 'audio' : 'other'
+  return `assets/${asset.type || 'other'}/${kind}`
+}
+
+/**
+ * Create a CharX file
+ * Assets with bytes are stored in the archive; the others keep their URI.
+ */
+export function createCharX(
+  character: any,
+  lorebook?: Lorebook | null,
+  assetFiles: STCardAssetFile[] = []
+): Buffer {
+  const entries: ZipEntry[] = []
+  const usedPaths = new Set<string>()
+
+  const assets = assetFiles.map(({ asset, data }, index) => {
+    if (!data) {
+      return asset
+    }
+    const base = `${assetFolder(asset)}/${(asset.name || String(index)).replace(/[\\/:*?"<>|]/g, '_')}`
+    let path = `${base}.${asset.ext}`
+    for (let n = 1; usedPaths.has(path); n++) {
+      path = `${base}-${n}.${asset.ext}`
+    }
+    usedPaths.add(path)
+    entries.push({ path, data })
+    return { ...asset, uri: `${EMBEDDED_URI_PREFIX}${path}` }
+  })
+
+  const card = exportSTCharacterV3(character, lorebook, assets)
+  return createZip([{ path: 'card.json', data: Buffer.from(JSON.stringify(card, null, 2), 'utf8') }, ...entries])
+}
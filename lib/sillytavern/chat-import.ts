@@ -0,0 +1,265 @@
+/**
+ * SillyTavern Chat Import
+ * Creates a Quilltap chat from a SillyTavern chat, one-on-one or group. A
+ * chat imported with a chosen character and no group definition is that
+ * character's, whoever it says spoke. Otherwise every speaking character
+ * becomes a participant, matched to the user's characters by name; a speaker
+ * matching none gets a stub character holding just the name, to be filled in
+ * later.
+ */
+
+import { getRepositories } from '@/lib/repositories/factory'
+import type { ChatEvent, ChatMetadata, ChatParticipantBase } from '@/lib/schemas/types'
+import { readZip, ZipError } from '@/lib/zip'
+import {
+  getSTChatSpeakers,
+  importSTActivationStrategy,
+  importSTChat,
+  isSTGroupChat,
+  STChat,
+  STGroup,
+  STSpeaker,
+} from './chat'
+import { readSTDataDirectory } from './data-directory'
+
+/**
+ * Error thrown when a chat can't be imported as given
+ */
+export class STChatImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'STChatImportError'
+  }
+}
+
+export interface STChatImportOptions {
+  connectionProfileId: string
+  /**
+   * Character standing for every speaker of a chat imported without its group;
+   * without it, or with a group, speakers are matched by name
+   */
+  characterId?: string | null
+  personaId?: string | null
+  title?: string | null
+  /** Definition of a group chat's group, for its members and activation strategy */
+  group?: STGroup | null
+  /** Character a speaker stands for, asked before matching by name */
+  resolveCharacter?: (speaker: STSpeaker) => string | null | Promise<string | null>
+}
+
+export interface STChatImportResult {
+  chat: ChatMetadata
+  /** Characters created for speakers that matched none of the user's */
+  stubCharacterIds: string[]
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+function avatarName(avatar: string): string {
+  return avatar.replace(/\.[^.]+$/, '')
+}
+
+/**
+ * Speakers of a chat followed by the group's members who never spoke
+ */
+function chatMembers(stChat: STChat, group: STGroup | null | undefined): STSpeaker[] {
+  const speakers = getSTChatSpeakers(stChat)
+  for (const avatar of group?.members ?? []) {
+    const known = speakers.some(s => s.avatar === avatar || nameKey(s.name) === nameKey(avatarName(avatar)))
+    if (!known) {
+      speakers.push({ name: avatarName(avatar), avatar })
+    }
+  }
+  return speakers
+}
+
+/**
+ * Import a SillyTavern chat for a user
+ *
+ * Ownership of the given character, persona and connection profile is the
+ * caller's to check. Throws STChatImportError when no character speaks in a
+ * chat imported without one.
+ */
+export async function importSTChatForUser(
+  userId: string,
+  stChat: STChat,
+  options: STChatImportOptions
+): Promise<STChatImportResult> {
+  const repos = getRepositories()
+  const { connectionProfileId, personaId, group } = options
+  // A one-on-one chat can still have several speakers (/sendas, a renamed character)
+  const useChosenCharacter = !!options.characterId && !group
+  const isGroup = !useChosenCharacter && (!!group || isSTGroupChat(stChat))
+  const stubCharacterIds: string[] = []
+
+  // Characters by the name they speak under, in order of appearance
+  const speakerCharacters = new Map<string, string>()
+  const inactiveCharacterIds = new Set<string>()
+
+  if (useChosenCharacter && options.characterId) {
+    for (const speaker of getSTChatSpeakers(stChat)) {
+      speakerCharacters.set(nameKey(speaker.name), options.characterId)
+    }
+    if (speakerCharacters.size === 0) {
+      speakerCharacters.set('', options.characterId)
+    }
+  } else {
+    const existing = new Map<string, string>()
+    for (const character of await repos.characters.findByUserId(userId)) {
+      if (!existing.has(nameKey(character.name))) {
+        existing.set(nameKey(character.name), character.id)
+      }
+    }
+
+    for (const speaker of chatMembers(stChat, group)) {
+      let characterId = (await options.resolveCharacter?.(speaker)) ?? existing.get(nameKey(speaker.name)) ?? null
+      if (!characterId) {
+        const stub = await repos.characters.create({
+          userId,
+          name: speaker.name,
+          title: null,
+          description: null,
+          personality: null,
+          scenario: null,
+          firstMessage: null,
+          alternateGreetings: [],
+          exampleDialogues: null,
+          systemPrompt: null,
+          avatarUrl: null,
+          isFavorite: false,
+          tags: [] as string[],
+          personaLinks: [] as { personaId: string; isDefault: boolean }[],
+          avatarOverrides: [] as { chatId: string; imageId: string }[],
+          defaultImageId: null,
+          physicalDescriptions: [],
+        })
+        characterId = stub.id
+        stubCharacterIds.push(stub.id)
+        existing.set(nameKey(speaker.name), stub.id)
+      }
+      speakerCharacters.set(nameKey(speaker.name), characterId)
+      if (speaker.avatar && group?.disabled_members?.includes(speaker.avatar)) {
+        inactiveCharacterIds.add(characterId)
+      }
+    }
+  }
+
+  const characterIds = [...new Set(speakerCharacters.values())]
+  if (characterIds.length === 0) {
+    throw new STChatImportError('No character speaks in this chat; choose the character it is with')
+  }
+
+  const profile = await repos.connections.findById(connectionProfileId)
+  const tagIds = new Set<string>(profile?.tags ?? [])
+  const now = new Date().toISOString()
+  const participants: ChatParticipantBase[] = []
+  const participantByCharacter = new Map<string, string>()
+  const characterNames: string[] = []
+
+  for (const characterId of characterIds) {
+    const character = await repos.characters.findById(characterId)
+    for (const tagId of character?.tags ?? []) {
+      tagIds.add(tagId)
+    }
+    if (character) {
+      characterNames.push(character.name)
+    }
+    const participantId = crypto.randomUUID()
+    participantByCharacter.set(characterId, participantId)
+    participants.push({
+      id: participantId,
+      type: 'CHARACTER',
+      characterId,
+      personaId: null,
+      connectionProfileId,
+      imageProfileId: null,
+      systemPromptOverride: null,
+      displayOrder: participants.length,
+      isActive: !inactiveCharacterIds.has(characterId),
+      createdAt: now,
+      updatedAt: now,
+    })
+  }
+
+  if (personaId) {
+    const persona = await repos.personas.findById(personaId)
+    for (const tagId of persona?.tags ?? []) {
+      tagIds.add(tagId)
+    }
+    participants.push({
+      id: crypto.randomUUID(),
+      type: 'PERSONA',
+      characterId: null,
+      personaId,
+      connectionProfileId: null,
+      imageProfileId: null,
+      systemPromptOverride: null,
+      displayOrder: participants.length,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    })
+  }
+
+  const importedData = importSTChat(stChat, characterIds[0], userId)
+
+  const chat = await repos.chats.create({
+    userId,
+    participants,
+    title: options.title || group?.name || `Chat with ${characterNames.join(', ')}`,
+    sillyTavernMetadata: importedData.metadata || null,
+    tags: Array.from(tagIds),
+    messageCount: importedData.messages.length,
+    lastRenameCheckInterchange: 0,
+    turnStrategy: group ? importSTActivationStrategy(group.activation_strategy) : 'ROUND_ROBIN',
+  })
+
+  const events: ChatEvent[] = importedData.messages.map(msg => {
+    // Character messages of a group chat are tied to the participant who spoke
+    const speaker = isGroup && msg.role === 'ASSISTANT' ? speakerCharacters.get(nameKey(msg.name ?? '')) : undefined
+    return {
+      id: crypto.randomUUID(),
+      type: 'message',
+      role: msg.role,
+      content: msg.content,
+      swipeGroupId: msg.swipeGroupId || null,
+      swipeIndex: msg.swipeIndex || null,
+      activeSwipe: msg.activeSwipe || undefined,
+      rawResponse: msg.rawResponse || null,
+      attachments: [],
+      participantId: speaker ? participantByCharacter.get(speaker) ?? null : null,
+      createdAt: msg.createdAt.toISOString(),
+    }
+  })
+  if (events.length > 0) {
+    await repos.chats.addMessages(chat.id, events)
+  }
+
+  return { chat, stubCharacterIds }
+}
+
+/**
+ * Read the group chats of a zip laid out like a SillyTavern data directory,
+ * such as a group chat exported from Quilltap
+ * @returns null when the zip holds no group chat
+ */
+export async function readSTGroupChatZip(buffer: Buffer): Promise<Array<{ chat: STChat; group: STGroup | null }> | null> {
+  let directory
+  try {
+    directory = await readSTDataDirectory(readZip(buffer))
+  } catch (error) {
+    if (error instanceof ZipError) {
+      return null
+    }
+    throw error
+  }
+
+  const groupChats = directory.items.flatMap(item => (item.kind === 'GROUP_CHAT' ? [item] : []))
+  if (groupChats.length === 0) {
+    return null
+  }
+
+  return groupChats.map(item => ({ chat: item.chat, group: item.group }))
+}
@@ -2,11 +2,18 @@
  * SillyTavern Chat Import/Export
  */
 
+import { z } from 'zod'
+import type { TurnStrategy } from '@/lib/schemas/types'
+import { getActiveSwipe } from '@/lib/chat/swipes'
+
 export interface STMessage {
   name: string
   is_user: boolean
+  is_system?: boolean
   is_name: boolean
   send_date: number | string
+  // Avatar file of the character who spoke, in group chats
+  original_avatar?: string
   mes: string
   swipes?: string[]
   swipe_id?: number
@@ -33,6 +40,66 @@ export interface STChat {
   create_date?: number
 }
 
+/**
+ * A SillyTavern group definition (groups/<id>.json)
+ * Members are the avatar file names SillyTavern uses as character ids.
+ */
+export interface STGroup {
+  id: string
+  name: string
+  members: string[]
+  chat_id?: string
+  chats?: string[]
+  [key: string]: any
+}
+
+/**
+ * The parts of a SillyTavern group definition an import reads; other fields are kept as they are
+ */
+export const STGroupSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String),
+  name: z.string(),
+  members: z.array(z.string()),
+  disabled_members: z.array(z.string()).optional(),
+  activation_strategy: z.number().optional(),
+  chat_id: z.union([z.string(), z.number()]).transform(String).optional(),
+  chats: z.array(z.union([z.string(), z.number()]).transform(String)).optional(),
+}).passthrough()
+
+/**
+ * Parse a chat saved by SillyTavern as JSONL
+ * The first line is a header with the chat metadata; the others are messages.
+ * Lines that aren't valid JSON are skipped.
+ */
+export function parseSTChatJSONL(text: string): STChat {
+  let header: Record<string, any> = {}
+  const messages: STMessage[] = []
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    let obj: any
+    try {
+      obj = JSON.parse(line)
+    } catch {
+      continue
+    }
+
+    if (obj?.mes !== undefined) {
+      messages.push(obj)
+    } else if (obj && typeof obj === 'object' && messages.length === 0) {
+      header = obj
+    }
+  }
+
+  return {
+    messages,
+    chat_metadata: header.chat_metadata,
+    character_name: header.character_name,
+    user_name: header.user_name,
+    create_date: header.create_date,
+  }
+}
+
 /**
  * Helper function to parse send_date which can be either a timestamp or a string
  */
@@ -78,6 +145,8 @@ export function importSTChat(
   stChat.messages.forEach((msg, index) => {
     const baseMessage = {
       role: msg.is_user ? 'USER' : 'ASSISTANT',
+      // Speaker, for telling characters apart in group chats
+      name: msg.name,
       swipeGroupId: msg.swipes && msg.swipes.length > 1 ? `swipe-${index}` : null,
       createdAt: parseSendDate(msg.send_date),
       rawResponse: msg.extra || null,
@@ -90,6 +159,7 @@ export function importSTChat(
           ...baseMessage,
           content: swipe,
           swipeIndex: swipeIdx,
+          activeSwipe: swipeIdx === (msg.swipe_id ?? 0),
         })
       })
     } else {
@@ -109,17 +179,21 @@ export function importSTChat(
 }
 
 /**
- * Export internal chat to SillyTavern format
+ * Who wrote a message, as SillyTavern records it
  */
-export function exportSTChat(
-  chat: any,
-  messages: any[],
-  characterName: string,
-  userName: string = 'User'
-): STChat {
+export interface STSpeaker {
+  name: string
+  /** Avatar file name of the speaking character, for group chats */
+  avatar?: string
+}
+
+/**
+ * Convert internal messages to SillyTavern messages, folding swipe groups
+ * back into one message with its swipes
+ */
+function exportSTMessages(messages: any[], speakerOf: (msg: any) => STSpeaker): STMessage[] {
   // Group messages by swipeGroupId
   const messageGroups = new Map<string, any[]>()
-  const nonSwipeMessages: any[] = []
 
   messages
     .filter((m) => m.role !== 'SYSTEM')
@@ -129,16 +203,24 @@ export function exportSTChat(
           messageGroups.set(msg.swipeGroupId, [])
         }
         messageGroups.get(msg.swipeGroupId)!.push(msg)
-      } else {
-        nonSwipeMessages.push(msg)
       }
     })
 
   // Convert to ST format
   const stMessages: STMessage[] = []
 
-  // Process non-swipe messages and swipe groups in order
-  let currentMessageIndex = 0
+  const toSTMessage = (msg: any, content: string): STMessage => {
+    const speaker = speakerOf(msg)
+    return {
+      name: speaker.name,
+      is_user: msg.role === 'USER',
+      is_name: true,
+      send_date: msg.createdAt.getTime(),
+      mes: content,
+      ...(speaker.avatar ? { original_avatar: speaker.avatar } : {}),
+      extra: msg.rawResponse || undefined,
+    }
+  }
 
   messages
     .filter((m) => m.role !== 'SYSTEM')
@@ -152,40 +234,159 @@ export function exportSTChat(
           groupMessages.sort((a, b) => a.swipeIndex - b.swipeIndex)
 
           const swipes = groupMessages.map((m) => m.content)
-          const currentSwipeIndex = groupMessages.findIndex(
-            (m) => m.swipeIndex === msg.swipeIndex
-          )
+          const currentSwipeIndex = groupMessages.indexOf(getActiveSwipe(groupMessages))
 
           stMessages.push({
-            name: msg.role === 'USER' ? userName : characterName,
-            is_user: msg.role === 'USER',
-            is_name: true,
-            send_date: msg.createdAt.getTime(),
-            mes: groupMessages[currentSwipeIndex >= 0 ? currentSwipeIndex : 0]
-              .content,
+            ...toSTMessage(msg, groupMessages[currentSwipeIndex >= 0 ? currentSwipeIndex : 0].content),
             swipes,
             swipe_id: currentSwipeIndex >= 0 ? currentSwipeIndex : 0,
-            extra: msg.rawResponse || undefined,
           })
         }
       } else {
         // Regular message without swipes
-        stMessages.push({
-          name: msg.role === 'USER' ? userName : characterName,
-          is_user: msg.role === 'USER',
-          is_name: true,
-          send_date: msg.createdAt.getTime(),
-          mes: msg.content,
-          extra: msg.rawResponse || undefined,
-        })
+        stMessages.push(toSTMessage(msg, msg.content))
       }
     })
 
+  return stMessages
+}
+
+/**
+ * Export internal chat to SillyTavern format
+ */
+export function exportSTChat(
+  chat: any,
+  messages: any[],
+  characterName: string,
+  userName: string = 'User'
+): STChat {
   return {
-    messages: stMessages,
+    messages: exportSTMessages(messages, (msg) => ({ name: msg.role === 'USER' ? userName : characterName })),
     chat_metadata: chat.sillyTavernMetadata || {},
     character_name: characterName,
     user_name: userName,
     create_date: chat.createdAt.getTime(),
   }
 }
+
+// SillyTavern writes these in place of the names in a group chat's header line
+const ST_GROUP_CHAT_HEADER_NAME = 'unused'
+
+/**
+ * SillyTavern group activation strategies
+ * 0 natural (characters answer when mentioned or at random), 1 list (in
+ * member order), 2 manual (only when picked)
+ */
+const ST_ACTIVATION_STRATEGIES: Record<number, TurnStrategy> = {
+  0: 'NATURAL',
+  1: 'ROUND_ROBIN',
+  2: 'MANUAL',
+}
+
+export function importSTActivationStrategy(strategy: unknown): TurnStrategy {
+  return (typeof strategy === 'number' && ST_ACTIVATION_STRATEGIES[strategy]) || 'ROUND_ROBIN'
+}
+
+export function exportSTActivationStrategy(strategy: TurnStrategy | null | undefined): number {
+  // SillyTavern's natural order already answers characters who are mentioned
+  if (strategy === 'MENTION') return 0
+  const entry = Object.entries(ST_ACTIVATION_STRATEGIES).find(([, value]) => value === strategy)
+  return entry ? Number(entry[0]) : 1
+}
+
+/**
+ * Names of the characters speaking in a chat, in order of first appearance,
+ * with the avatar file each spoke under when known
+ */
+export function getSTChatSpeakers(stChat: STChat): STSpeaker[] {
+  const speakers = new Map<string, STSpeaker>()
+  for (const msg of stChat.messages) {
+    if (msg.is_user || msg.is_system || !msg.name) continue
+    const key = msg.name.trim().toLowerCase()
+    if (!speakers.has(key)) {
+      speakers.set(key, { name: msg.name, ...(msg.original_avatar ? { avatar: msg.original_avatar } : {}) })
+    }
+  }
+  return [...speakers.values()]
+}
+
+/**
+ * Whether a chat is a SillyTavern group chat: more than one character speaks,
+ * or the header carries the placeholder names group chats are saved with
+ */
+export function isSTGroupChat(stChat: STChat): boolean {
+  return stChat.character_name === ST_GROUP_CHAT_HEADER_NAME || getSTChatSpeakers(stChat).length > 1
+}
+
+/**
+ * A member of an exported group: the avatar file name SillyTavern knows the
+ * character by and whether it takes part
+ */
+export interface STGroupMember {
+  avatar: string
+  name: string
+  isActive: boolean
+}
+
+/**
+ * Avatar file name for a character, which SillyTavern uses as its id
+ */
+export function stAvatarFileName(name: string): string {
+  return `${name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'character'}.png`
+}
+
+/**
+ * Export a group chat to SillyTavern format
+ * @param speakerOf The member who wrote each character message, if known
+ */
+export function exportSTGroupChat(
+  chat: any,
+  messages: any[],
+  speakerOf: (msg: any) => STGroupMember | undefined,
+  userName: string = 'User'
+): STChat {
+  return {
+    messages: exportSTMessages(messages, (msg) => {
+      if (msg.role === 'USER') return { name: userName }
+      const member = speakerOf(msg)
+      return member ? { name: member.name, avatar: member.avatar } : { name: 'Unknown' }
+    }),
+    chat_metadata: chat.sillyTavernMetadata || {},
+    character_name: ST_GROUP_CHAT_HEADER_NAME,
+    user_name: ST_GROUP_CHAT_HEADER_NAME,
+    create_date: chat.createdAt.getTime(),
+  }
+}
+
+/**
+ * Export the group definition (groups/<id>.json) for a group chat
+ */
+export function exportSTGroup(chat: any, members: STGroupMember[], chatId: string): STGroup {
+  return {
+    id: String(chat.createdAt.getTime()),
+    name: chat.title,
+    members: members.map((member) => member.avatar),
+    avatar_url: '',
+    allow_self_responses: false,
+    activation_strategy: exportSTActivationStrategy(chat.turnStrategy),
+    generation_mode: 0,
+    disabled_members: members.filter((member) => !member.isActive).map((member) => member.avatar),
+    chat_metadata: {},
+    fav: false,
+    chat_id: chatId,
+    chats: [chatId],
+  }
+}
+
+/**
+ * Write a chat as SillyTavern saves it: a header line, then one line per message
+ */
+export function serializeSTChatJSONL(stChat: STChat): string {
+  const header = {
+    user_name: stChat.user_name,
+    character_name: stChat.character_name,
+    create_date: stChat.create_date,
+    chat_metadata: stChat.chat_metadata || {},
+  }
+  return [header, ...stChat.messages].map((line) => JSON.stringify(line)).join('\n')
+}
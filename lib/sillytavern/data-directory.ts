@@ -0,0 +1,293 @@
+/**
+ * SillyTavern Data Directory
+ * Reads a zip of a SillyTavern user data directory (data/<user>) into the
+ * items a bulk import works with: character cards, chats, group chats,
+ * personas and World Info files.
+ *
+ * Layout read (other folders are ignored):
+ *   characters/<avatar>.png         character cards (the avatar is the card image)
+ *   chats/<avatar name>/<chat>.jsonl chats with that character
+ *   groups/<id>.json                group definitions
+ *   group chats/<chat id>.jsonl     group chats
+ *   User Avatars/<file>.png         persona avatars
+ *   settings.json                   persona names and descriptions
+ *   worlds/<name>.json              World Info files
+ *
+ * The zip may hold the directory itself or any folder above it.
+ */
+
+import { createHash } from 'node:crypto'
+import type { ZipEntry } from '@/lib/zip'
+import {
+  extractSTCharacterPNGAssets,
+  parseSTCharacterPNG,
+  replaceSTCharacterPNGChunks,
+  STCharacterV3,
+} from './character'
+import { parseSTChatJSONL, STChat, STGroup, STGroupSchema } from './chat'
+import { convertMultiPersonaBackup, STPersona } from './persona'
+import { isSTWorldInfoFile, STWorldInfoFile } from './world-info'
+
+export type STDataItemKind = 'WORLD_INFO' | 'PERSONA' | 'CHARACTER' | 'CHAT' | 'GROUP_CHAT'
+
+interface STDataItemBase {
+  /** Path inside the data directory; unique per item */
+  path: string
+  name: string
+  /** SHA-256 of the item's source, used to recognise items imported before */
+  hash: string
+}
+
+export interface STDataCharacter extends STDataItemBase {
+  kind: 'CHARACTER'
+  /** Avatar file name, which SillyTavern uses as the character's id */
+  key: string
+  card: STCharacterV3
+  /** The card image without the card text, when the card is a PNG */
+  image: Buffer | null
+  pngAssets: Map<string, Buffer>
+}
+
+export interface STDataChat extends STDataItemBase {
+  kind: 'CHAT' | 'GROUP_CHAT'
+  chat: STChat
+  /** Avatar file names of the characters in the chat */
+  characterKeys: string[]
+  /** Character names from the chat itself, for matching characters not in the archive */
+  characterNames: string[]
+  group: STGroup | null
+}
+
+export interface STDataPersona extends STDataItemBase {
+  kind: 'PERSONA'
+  persona: STPersona
+  avatar: Buffer | null
+  isDefault: boolean
+}
+
+export interface STDataWorldInfo extends STDataItemBase {
+  kind: 'WORLD_INFO'
+  file: STWorldInfoFile
+}
+
+export type STDataItem = STDataCharacter | STDataChat | STDataPersona | STDataWorldInfo
+
+export interface STDataDirectory {
+  items: STDataItem[]
+  /** Files that looked like data but couldn't be read */
+  warnings: string[]
+}
+
+const DATA_FOLDERS = ['characters', 'chats', 'groups', 'group chats', 'User Avatars', 'worlds']
+
+/** Order items are imported in, so chats find their characters and personas */
+export const ST_DATA_ITEM_ORDER: STDataItemKind[] = ['WORLD_INFO', 'PERSONA', 'CHARACTER', 'CHAT', 'GROUP_CHAT']
+
+export function hashContent(...parts: (Buffer | string)[]): string {
+  const hash = createHash('sha256')
+  for (const part of parts) {
+    hash.update(part)
+  }
+  return hash.digest('hex')
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+function stripExtension(name: string): string {
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(0, dot) : name
+}
+
+/**
+ * The folder inside the zip that holds the data directory
+ * Picked as the prefix most data files sit under.
+ */
+function findDataRoot(paths: string[]): string {
+  const counts = new Map<string, number>()
+  for (const path of paths) {
+    const segments = path.split('/')
+    for (let i = 0; i < segments.length - 1; i++) {
+      if (DATA_FOLDERS.includes(segments[i])) {
+        const prefix = segments.slice(0, i).map(s => `${s}/`).join('')
+        counts.set(prefix, (counts.get(prefix) ?? 0) + 1)
+        break
+      }
+    }
+  }
+  let root = ''
+  let best = 0
+  for (const [prefix, count] of counts) {
+    if (count > best) {
+      root = prefix
+      best = count
+    }
+  }
+  return root
+}
+
+function parseJSON(data: Buffer): any {
+  return JSON.parse(data.toString('utf8').replace(/^﻿/, ''))
+}
+
+async function readCharacter(path: string, data: Buffer): Promise<STDataCharacter | null> {
+  const key = baseName(path)
+  if (key.toLowerCase().endsWith('.png')) {
+    const card = await parseSTCharacterPNG(data)
+    if (!card) {
+      return null
+    }
+    return {
+      kind: 'CHARACTER',
+      path,
+      name: card.name || stripExtension(key),
+      hash: hashContent(data),
+      key,
+      card,
+      image: replaceSTCharacterPNGChunks(data, []),
+      pngAssets: extractSTCharacterPNGAssets(data),
+    }
+  }
+
+  const parsed = parseJSON(data)
+  const card: STCharacterV3 = parsed?.data && typeof parsed.data === 'object' ? parsed.data : parsed
+  if (!card?.name) {
+    return null
+  }
+  return { kind: 'CHARACTER', path, name: card.name, hash: hashContent(data), key, card, image: null, pngAssets: new Map() }
+}
+
+function readPersonas(settings: any, avatars: Map<string, Buffer>): STDataPersona[] {
+  const powerUser = settings?.power_user
+  if (!powerUser?.personas || typeof powerUser.personas !== 'object') {
+    return []
+  }
+
+  return convertMultiPersonaBackup({
+    personas: powerUser.personas,
+    persona_descriptions: powerUser.persona_descriptions || {},
+    default_persona: powerUser.default_persona,
+  }).map(persona => {
+    const avatar = avatars.get(persona.filename) ?? null
+    return {
+      kind: 'PERSONA',
+      path: `User Avatars/${persona.filename}`,
+      name: persona.name,
+      hash: hashContent(JSON.stringify({ name: persona.name, description: persona.description }), avatar ?? ''),
+      persona,
+      avatar,
+      isDefault: !!persona.isDefault,
+    }
+  })
+}
+
+/**
+ * Read the importable items of a SillyTavern data directory
+ */
+export async function readSTDataDirectory(entries: ZipEntry[]): Promise<STDataDirectory> {
+  const root = findDataRoot(entries.map(entry => entry.path))
+  const files = new Map<string, Buffer>()
+  for (const entry of entries) {
+    if (entry.path.startsWith(root)) {
+      files.set(entry.path.slice(root.length), entry.data)
+    }
+  }
+
+  const items: STDataItem[] = []
+  const warnings: string[] = []
+  const avatars = new Map<string, Buffer>()
+  const groups: STGroup[] = []
+  let settings: any = null
+
+  for (const [path, data] of files) {
+    const segments = path.split('/')
+    const folder = segments[0]
+    const isTopLevelFile = segments.length === 2
+
+    try {
+      if (folder === 'characters' && isTopLevelFile && /\.(png|json)$/i.test(path)) {
+        const character = await readCharacter(path, data)
+        if (character) {
+          items.push(character)
+        } else {
+          warnings.push(`${path}: not a character card`)
+        }
+      } else if (folder === 'worlds' && isTopLevelFile && path.toLowerCase().endsWith('.json')) {
+        const file = parseJSON(data)
+        if (isSTWorldInfoFile(file)) {
+          items.push({ kind: 'WORLD_INFO', path, name: file.name || stripExtension(segments[1]), hash: hashContent(data), file })
+        } else {
+          warnings.push(`${path}: not a World Info file`)
+        }
+      } else if (folder === 'User Avatars' && isTopLevelFile) {
+        avatars.set(segments[1], data)
+      } else if (folder === 'groups' && isTopLevelFile && path.toLowerCase().endsWith('.json')) {
+        const group = STGroupSchema.safeParse(parseJSON(data))
+        if (group.success) {
+          groups.push(group.data)
+        } else {
+          warnings.push(`${path}: not a group definition`)
+        }
+      } else if (path === 'settings.json') {
+        settings = parseJSON(data)
+      }
+    } catch (error) {
+      warnings.push(`${path}: ${error instanceof Error ? error.message : 'unreadable'}`)
+    }
+  }
+
+  const characterKeys = new Set(items.filter(item => item.kind === 'CHARACTER').map(item => (item as STDataCharacter).key))
+
+  for (const [path, data] of files) {
+    const segments = path.split('/')
+    if (!path.toLowerCase().endsWith('.jsonl')) {
+      continue
+    }
+
+    if (segments[0] === 'chats' && segments.length === 3) {
+      const chat = parseSTChatJSONL(data.toString('utf8'))
+      if (chat.messages.length === 0) {
+        warnings.push(`${path}: no messages`)
+        continue
+      }
+      // The folder is named after the character's avatar file
+      const folderKey = `${segments[1]}.png`
+      const characterName = chat.character_name || segments[1]
+      items.push({
+        kind: 'CHAT',
+        path,
+        name: `${characterName}: ${stripExtension(segments[2])}`,
+        hash: hashContent(data),
+        chat,
+        characterKeys: characterKeys.has(folderKey) ? [folderKey] : [],
+        characterNames: [characterName],
+        group: null,
+      })
+    } else if (segments[0] === 'group chats' && segments.length === 2) {
+      const chat = parseSTChatJSONL(data.toString('utf8'))
+      if (chat.messages.length === 0) {
+        warnings.push(`${path}: no messages`)
+        continue
+      }
+      const chatId = stripExtension(segments[1])
+      const group = groups.find(g => g.chat_id === chatId || g.chats?.includes(chatId)) ?? null
+      const speakers = [...new Set(chat.messages.filter(m => !m.is_user && !m.is_system && m.name).map(m => m.name))]
+      items.push({
+        kind: 'GROUP_CHAT',
+        path,
+        name: `${group?.name || 'Group chat'}: ${chatId}`,
+        hash: hashContent(data),
+        chat,
+        characterKeys: (group?.members || []).filter(key => characterKeys.has(key)),
+        characterNames: speakers,
+        group,
+      })
+    }
+  }
+
+  items.push(...readPersonas(settings, avatars))
+
+  items.sort((a, b) => ST_DATA_ITEM_ORDER.indexOf(a.kind) - ST_DATA_ITEM_ORDER.indexOf(b.kind) || a.path.localeCompare(b.path))
+  return { items, warnings }
+}
@@ -6,3 +6,5 @@
 export * from './character'
 export * from './persona'
 export * from './chat'
+export * from './world-info'
+export * from './charx'
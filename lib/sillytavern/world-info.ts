@@ -0,0 +1,473 @@
+/**
+ * SillyTavern World Info Import/Export
+ * Supports standalone World Info files and the character_book embedded in V2
+ * and V3 cards, including V3 decorators
+ *
+ * Each imported entry keeps its original SillyTavern object in
+ * extensions.sillyTavern, and the lorebook keeps the file's other top-level
+ * fields, so settings Quilltap does not use survive a round trip.
+ */
+
+import type { Lorebook, LorebookEntry, LorebookPosition } from '@/lib/schemas/types'
+import { plainKeyAsRegex } from '@/lib/lorebooks/world-info'
+import { logger } from '@/lib/logger'
+
+/**
+ * Entry in a standalone SillyTavern World Info file
+ */
+export interface STWorldInfoEntry {
+  uid?: number
+  key?: string[]
+  keysecondary?: string[]
+  comment?: string
+  content?: string
+  constant?: boolean
+  selective?: boolean
+  order?: number
+  position?: number
+  disable?: boolean
+  scanDepth?: number | null
+  caseSensitive?: boolean | null
+  matchWholeWords?: boolean | null
+  [key: string]: any
+}
+
+/**
+ * Standalone SillyTavern World Info file
+ */
+export interface STWorldInfoFile {
+  entries: Record<string, STWorldInfoEntry>
+  name?: string
+  [key: string]: any
+}
+
+/**
+ * Entry in a V2 card character_book
+ */
+export interface STCharacterBookEntry {
+  keys: string[]
+  content: string
+  extensions: Record<string, any>
+  enabled: boolean
+  insertion_order: number
+  case_sensitive?: boolean
+  name?: string
+  priority?: number
+  id?: number
+  comment?: string
+  selective?: boolean
+  secondary_keys?: string[]
+  constant?: boolean
+  position?: 'before_char' | 'after_char'
+  use_regex?: boolean
+  [key: string]: any
+}
+
+/**
+ * V2 card character_book
+ */
+export interface STCharacterBook {
+  name?: string
+  description?: string
+  scan_depth?: number
+  token_budget?: number
+  recursive_scanning?: boolean
+  extensions: Record<string, any>
+  entries: STCharacterBookEntry[]
+  [key: string]: any
+}
+
+/**
+ * Lorebook fields produced by an import, ready for repos.lorebooks.create
+ */
+export type ImportedLorebook = Omit<Lorebook, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+
+type STFormat = 'world_info' | 'character_book'
+
+// SillyTavern's numeric positions; only the first two exist in Quilltap
+const ST_POSITION_BEFORE_CHAR = 0
+const ST_POSITION_AFTER_CHAR = 1
+
+const DEFAULT_SCAN_DEPTH = 4
+const DEFAULT_TOKEN_BUDGET = 1024
+
+// V3 decorators that map onto entry fields; the rest are kept verbatim and
+// written back in front of the content on export
+const MAPPED_DECORATORS = new Set(['activate', 'dont_activate', 'scan_depth', 'position'])
+
+/**
+ * A V3 lorebook decorator (`@@name value` at the start of an entry's content)
+ */
+export interface STDecorator {
+  name: string
+  value: string
+  /** The decorator line as written */
+  line: string
+  /** `@@@` fallback lines that follow it */
+  fallbacks: string[]
+}
+
+/**
+ * SillyTavern treats keys written as /pattern/flags as regular expressions
+ */
+function isRegexLiteral(key: string): boolean {
+  return /^\/[\s\S]+\/[a-z]*$/.test(key.trim())
+}
+
+/**
+ * Quilltap's useRegex covers all of an entry's keys, while SillyTavern decides
+ * per key; when some keys are regular expressions, the plain ones are written
+ * as escaped patterns that match the same text
+ */
+function keysFromST(
+  keys: string[],
+  secondaryKeys: string[],
+  matchWholeWords: boolean
+): { keys: string[]; secondaryKeys: string[]; useRegex: boolean } {
+  const useRegex = [...keys, ...secondaryKeys].some(isRegexLiteral)
+  if (!useRegex) {
+    return { keys, secondaryKeys, useRegex }
+  }
+  const toRegex = (key: string) => isRegexLiteral(key) ? key : plainKeyAsRegex(key, matchWholeWords)
+  return { keys: keys.map(toRegex), secondaryKeys: secondaryKeys.map(toRegex), useRegex }
+}
+
+/**
+ * Write back the original plain keys that were turned into patterns on import
+ */
+function keysToST(entry: LorebookEntry, keys: string[], originalKeys: unknown): string[] {
+  if (!entry.useRegex) {
+    return keys
+  }
+  const originals = new Map(
+    toStringArray(originalKeys)
+      .filter(key => !isRegexLiteral(key))
+      .map(key => [plainKeyAsRegex(key, entry.matchWholeWords), key])
+  )
+  return keys.map(key => originals.get(key) ?? key)
+}
+
+function positionFromST(position: unknown): LorebookPosition {
+  if (position === ST_POSITION_BEFORE_CHAR || position === 'before_char') {
+    return 'BEFORE_CHARACTER'
+  }
+  return 'AFTER_CHARACTER'
+}
+
+/**
+ * Map an imported entry's position, logging positions Quilltap doesn't have
+ * (such as at-depth); the original stays in extensions.sillyTavern and is
+ * written back on export
+ */
+function importPosition(position: unknown, entryName: string): LorebookPosition {
+  const known = position === undefined || position === null ||
+    position === ST_POSITION_BEFORE_CHAR || position === ST_POSITION_AFTER_CHAR ||
+    position === 'before_char' || position === 'after_char'
+  if (!known) {
+    logger.info('[WorldInfo] Unsupported SillyTavern position, placing entry after the character', {
+      entry: entryName,
+      position,
+    })
+  }
+  return positionFromST(position)
+}
+
+/**
+ * Keep the original numeric position unless the user moved the entry
+ */
+function positionToST(entry: LorebookEntry, originalPosition: unknown): number {
+  if (typeof originalPosition === 'number' && positionFromST(originalPosition) === entry.position) {
+    return originalPosition
+  }
+  return entry.position === 'BEFORE_CHARACTER' ? ST_POSITION_BEFORE_CHAR : ST_POSITION_AFTER_CHAR
+}
+
+/**
+ * SillyTavern uses null for "use the global setting"; keep it unless the flag was turned on
+ */
+function flagToST(value: boolean, original: boolean | null | undefined): boolean | null {
+  if (original == null && !value) {
+    return null
+  }
+  return value
+}
+
+function getOriginal<T>(entry: LorebookEntry): T | undefined {
+  const extensions = entry.extensions as Record<string, any> | null | undefined
+  return extensions?.sillyTavern as T | undefined
+}
+
+function getLorebookOriginal(lorebook: Pick<Lorebook, 'extensions'>, format: STFormat): Record<string, any> {
+  const stored = (lorebook.extensions as Record<string, any> | null | undefined)?.sillyTavern
+  return stored?.format === format && stored.data ? stored.data : {}
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+/**
+ * Split the leading V3 decorators off an entry's content
+ */
+export function parseSTDecorators(content: string): { decorators: STDecorator[]; content: string } {
+  const lines = content.split('\n')
+  const decorators: STDecorator[] = []
+  let index = 0
+  for (; index < lines.length && lines[index].startsWith('@@'); index++) {
+    const line = lines[index]
+    if (line.startsWith('@@@')) {
+      decorators[decorators.length - 1]?.fallbacks.push(line)
+      continue
+    }
+    const [name, ...value] = line.slice(2).trim().split(/\s+/)
+    decorators.push({ name, value: value.join(' '), line, fallbacks: [] })
+  }
+  return { decorators, content: lines.slice(index).join('\n') }
+}
+
+/**
+ * Write decorators back in front of an entry's content
+ */
+export function formatSTDecorators(decorators: STDecorator[], content: string): string {
+  if (decorators.length === 0) {
+    return content
+  }
+  return [...decorators.flatMap(d => [d.line, ...d.fallbacks]), content].join('\n')
+}
+
+function decoratorPosition(decorator: STDecorator | undefined): LorebookPosition | null {
+  if (decorator?.value === 'before_desc') return 'BEFORE_CHARACTER'
+  if (decorator?.value === 'after_desc') return 'AFTER_CHARACTER'
+  return null
+}
+
+/**
+ * Check whether parsed JSON is a standalone World Info file
+ */
+export function isSTWorldInfoFile(data: unknown): data is STWorldInfoFile {
+  const entries = (data as STWorldInfoFile | null)?.entries
+  return !!entries && typeof entries === 'object' && !Array.isArray(entries)
+}
+
+/**
+ * Check whether parsed JSON is a V2 character_book
+ */
+export function isSTCharacterBook(data: unknown): data is STCharacterBook {
+  return Array.isArray((data as STCharacterBook | null)?.entries)
+}
+
+/**
+ * Import a standalone SillyTavern World Info file
+ */
+export function importSTWorldInfo(file: STWorldInfoFile, fallbackName = 'Imported World Info'): ImportedLorebook {
+  const { entries, ...rest } = file
+
+  const sorted = Object.values(entries).sort(
+    (a, b) => (a.displayIndex ?? a.uid ?? 0) - (b.displayIndex ?? b.uid ?? 0)
+  )
+
+  return {
+    name: file.name || fallbackName,
+    description: null,
+    entries: sorted.map((st): LorebookEntry => {
+      // SillyTavern matches substrings unless whole-word matching is turned on
+      const matchWholeWords = st.matchWholeWords ?? false
+      const { keys, secondaryKeys, useRegex } = keysFromST(
+        toStringArray(st.key),
+        st.selective === false ? [] : toStringArray(st.keysecondary),
+        matchWholeWords
+      )
+      return {
+        id: crypto.randomUUID(),
+        name: st.comment || '',
+        keys,
+        secondaryKeys,
+        useRegex,
+        caseSensitive: st.caseSensitive ?? false,
+        matchWholeWords,
+        content: st.content || '',
+        constant: !!st.constant,
+        enabled: !st.disable,
+        position: importPosition(st.position, st.comment || ''),
+        insertionOrder: st.order ?? 100,
+        scanDepth: st.scanDepth ?? null,
+        extensions: { sillyTavern: st },
+      }
+    }),
+    scanDepth: DEFAULT_SCAN_DEPTH,
+    tokenBudget: DEFAULT_TOKEN_BUDGET,
+    enabled: true,
+    characterIds: [],
+    personaIds: [],
+    chatIds: [],
+    tags: [],
+    extensions: { sillyTavern: { format: 'world_info', data: rest } },
+  }
+}
+
+/**
+ * Export a lorebook as a standalone SillyTavern World Info file
+ */
+export function exportSTWorldInfo(lorebook: Pick<Lorebook, 'name' | 'entries' | 'extensions'>): STWorldInfoFile {
+  const usedUids = new Set<number>()
+  const originals = lorebook.entries.map(entry => getOriginal<STWorldInfoEntry>(entry))
+  for (const original of originals) {
+    if (typeof original?.uid === 'number') usedUids.add(original.uid)
+  }
+
+  let nextUid = 0
+  const takeUid = (original?: STWorldInfoEntry): number => {
+    if (typeof original?.uid === 'number') return original.uid
+    while (usedUids.has(nextUid)) nextUid++
+    usedUids.add(nextUid)
+    return nextUid
+  }
+
+  const entries: Record<string, STWorldInfoEntry> = {}
+  lorebook.entries.forEach((entry, index) => {
+    const original = originals[index]
+    const uid = takeUid(original)
+
+    entries[String(uid)] = {
+      // Defaults SillyTavern writes for new entries
+      vectorized: false,
+      selectiveLogic: 0,
+      addMemo: true,
+      excludeRecursion: false,
+      preventRecursion: false,
+      delayUntilRecursion: false,
+      probability: 100,
+      useProbability: true,
+      depth: 4,
+      group: '',
+      groupOverride: false,
+      groupWeight: 100,
+      useGroupScoring: null,
+      automationId: '',
+      role: null,
+      sticky: 0,
+      cooldown: 0,
+      delay: 0,
+      ...original,
+      uid,
+      key: keysToST(entry, entry.keys, original?.key),
+      keysecondary: keysToST(entry, entry.secondaryKeys, original?.keysecondary),
+      comment: entry.name,
+      content: entry.content,
+      constant: entry.constant,
+      selective: original?.selective ?? true,
+      order: entry.insertionOrder,
+      position: positionToST(entry, original?.position),
+      disable: !entry.enabled,
+      scanDepth: entry.scanDepth ?? null,
+      caseSensitive: flagToST(entry.caseSensitive, original?.caseSensitive),
+      matchWholeWords: flagToST(entry.matchWholeWords, original?.matchWholeWords),
+      displayIndex: index,
+    }
+  })
+
+  return {
+    ...getLorebookOriginal(lorebook, 'world_info'),
+    name: lorebook.name,
+    entries,
+  }
+}
+
+/**
+ * Import the character_book embedded in a V2 or V3 character card
+ * Decorators Quilltap understands set the matching entry fields and are
+ * removed from the content; the original entry keeps all of them.
+ */
+export function importSTCharacterBook(book: STCharacterBook, fallbackName = 'Character Lore'): ImportedLorebook {
+  const { entries, ...rest } = book
+
+  return {
+    name: book.name || fallbackName,
+    description: book.description || null,
+    entries: entries.map((st): LorebookEntry => {
+      const ext = st.extensions || {}
+      const matchWholeWords = ext.match_whole_words ?? false
+      const { keys, secondaryKeys, useRegex } = keysFromST(
+        toStringArray(st.keys),
+        st.selective === false ? [] : toStringArray(st.secondary_keys),
+        matchWholeWords
+      )
+      const { decorators, content } = parseSTDecorators(st.content || '')
+      const decorator = (name: string) => decorators.find(d => d.name === name)
+      const decoratedScanDepth = parseInt(decorator('scan_depth')?.value ?? '', 10)
+      return {
+        id: crypto.randomUUID(),
+        name: st.comment || st.name || '',
+        keys,
+        secondaryKeys,
+        useRegex,
+        caseSensitive: st.case_sensitive ?? ext.case_sensitive ?? false,
+        matchWholeWords,
+        content,
+        constant: !!st.constant || !!decorator('activate'),
+        enabled: st.enabled !== false && !decorator('dont_activate'),
+        position: decoratorPosition(decorator('position'))
+          ?? importPosition(typeof ext.position === 'number' ? ext.position : st.position, st.comment || st.name || ''),
+        insertionOrder: st.insertion_order ?? 100,
+        scanDepth: typeof ext.scan_depth === 'number'
+          ? ext.scan_depth
+          : Number.isNaN(decoratedScanDepth) ? null : decoratedScanDepth,
+        extensions: { sillyTavern: st },
+      }
+    }),
+    scanDepth: book.scan_depth ?? DEFAULT_SCAN_DEPTH,
+    tokenBudget: book.token_budget ?? DEFAULT_TOKEN_BUDGET,
+    enabled: true,
+    characterIds: [],
+    personaIds: [],
+    chatIds: [],
+    tags: [],
+    extensions: { sillyTavern: { format: 'character_book', data: rest } },
+  }
+}
+
+/**
+ * Export a lorebook as a V2 or V3 card character_book
+ */
+export function exportSTCharacterBook(
+  lorebook: Pick<Lorebook, 'name' | 'description' | 'entries' | 'scanDepth' | 'tokenBudget' | 'extensions'>
+): STCharacterBook {
+  const original = getLorebookOriginal(lorebook, 'character_book')
+
+  return {
+    recursive_scanning: false,
+    extensions: {},
+    ...original,
+    name: lorebook.name,
+    description: lorebook.description ?? '',
+    scan_depth: lorebook.scanDepth,
+    token_budget: lorebook.tokenBudget,
+    entries: lorebook.entries.map((entry, index): STCharacterBookEntry => {
+      const st = getOriginal<STCharacterBookEntry>(entry)
+      const ext = st?.extensions || {}
+      const decorators = parseSTDecorators(st?.content || '').decorators.filter(d => !MAPPED_DECORATORS.has(d.name))
+      return {
+        ...st,
+        id: st?.id ?? index,
+        keys: keysToST(entry, entry.keys, st?.keys),
+        secondary_keys: keysToST(entry, entry.secondaryKeys, st?.secondary_keys),
+        comment: entry.name,
+        content: formatSTDecorators(decorators, entry.content),
+        constant: entry.constant,
+        selective: st?.selective ?? entry.secondaryKeys.length > 0,
+        insertion_order: entry.insertionOrder,
+        enabled: entry.enabled,
+        position: entry.position === 'BEFORE_CHARACTER' ? 'before_char' : 'after_char',
+        use_regex: st?.use_regex ?? entry.useRegex,
+        case_sensitive: entry.caseSensitive,
+        extensions: {
+          ...ext,
+          position: positionToST(entry, ext.position),
+          scan_depth: entry.scanDepth ?? null,
+          match_whole_words: flagToST(entry.matchWholeWords, ext.match_whole_words),
+          case_sensitive: flagToST(entry.caseSensitive, ext.case_sensitive),
+        },
+      }
+    }),
+  }
+}
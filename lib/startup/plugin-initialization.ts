@@ -9,10 +9,14 @@ import { logger } from '@/lib/logger';
 import { scanPlugins, isPluginCompatible, validatePluginSecurity } from '@/lib/plugins/manifest-loader';
 import { pluginRegistry } from '@/lib/plugins/registry';
 import { registerPluginRoutes, getPluginRouteRegistry, pluginRouteRegistry } from '@/lib/plugins/route-loader';
-import { initializeProviderRegistry } from '@/lib/plugins/provider-registry';
+import { registerPluginHooks, getPluginHookRegistry, clearPluginHooks } from '@/lib/plugins/hook-bus';
+import { asPluginModule, getPluginExport, loadPluginModule, resetPluginSandboxes } from '@/lib/plugins/sandbox';
+import { clearPermissionViolations } from '@/lib/plugins/permissions';
+import { initializeProviderRegistry, isLLMProviderPlugin } from '@/lib/plugins/provider-registry';
 import { transpileAllPlugins } from '@/lib/plugins/plugin-transpiler';
-import { registerAuthProvider, clearAuthProviders } from '@/lib/plugins/auth-provider-registry';
-import type { AuthProviderPluginExport } from '@/lib/plugins/interfaces/auth-provider-plugin';
+import { registerAuthProvider, clearAuthProviders, isAuthProviderPlugin } from '@/lib/plugins/auth-provider-registry';
+import type { LLMProviderPlugin } from '@/lib/plugins/interfaces/provider-plugin';
+import { registerSearchBackend, clearSearchBackends, isSearchBackendPlugin } from '@/lib/plugins/search-backend-registry';
 import packageJson from '@/package.json';
 import { createRequire } from 'node:module';
 import { resolve } from 'node:path';
@@ -48,6 +52,23 @@ export interface PluginInitializationResult {
   }>;
 }
 
+/**
+ * What the upgrade plugin exports (see plugins/dist/qtap-plugin-upgrade)
+ */
+interface UpgradePluginExport {
+  runMigrations: () => Promise<{
+    success: boolean;
+    migrationsRun: number;
+    migrationsSkipped: number;
+    results: unknown[];
+    totalDurationMs: number;
+  }>;
+}
+
+function isUpgradePlugin(value: unknown): value is UpgradePluginExport {
+  return typeof (value as UpgradePluginExport | undefined)?.runMigrations === 'function';
+}
+
 // ============================================================================
 // INITIALIZATION STATE
 // ============================================================================
@@ -90,13 +111,13 @@ async function runUpgradeMigrations(): Promise<void> {
     });
 
     // Use require() to load the compiled JavaScript module
-    const pluginModule = dynamicRequire(modulePath);
-    const plugin = pluginModule?.plugin || pluginModule?.default?.plugin || pluginModule?.default;
+    const pluginModule = loadPluginModule(upgradePlugin, modulePath, dynamicRequire);
+    const plugin = getPluginExport(pluginModule) ?? pluginModule?.default;
 
-    if (!plugin || typeof plugin.runMigrations !== 'function') {
+    if (!isUpgradePlugin(plugin)) {
       logger.warn('Upgrade plugin does not export runMigrations function', {
         plugin: UPGRADE_PLUGIN_NAME,
-        exports: Object.keys(pluginModule),
+        exports: Object.keys(pluginModule ?? {}),
       });
       return;
     }
@@ -315,12 +336,24 @@ async function performInitialization(): Promise<PluginInitializationResult> {
       });
     }
 
+    // Register hook handlers from enabled plugins with MESSAGE_PROCESSORS capability
+    logger.debug('Registering plugin hooks');
+    registerPluginHooks((modulePath, plugin) => loadPluginModule(plugin, modulePath, dynamicRequire));
+
+    const hookRegistry = getPluginHookRegistry();
+    if (hookRegistry.totalHooks > 0) {
+      logger.info('Plugin hooks registered', {
+        totalHooks: hookRegistry.totalHooks,
+        hookPoints: hookRegistry.hooks.map(h => h.name),
+      });
+    }
+
     // Initialize provider registry from enabled plugins with LLM_PROVIDER capability
     logger.debug('Initializing provider registry');
     const providerPlugins = pluginRegistry.getEnabledByCapability('LLM_PROVIDER');
     if (providerPlugins.length > 0) {
       // Load provider plugins using require() - plugins are transpiled to JS first
-      const providers: any[] = [];
+      const providers: LLMProviderPlugin[] = [];
       for (const loadedPlugin of providerPlugins) {
         try {
           const mainFile = loadedPlugin.manifest.main || 'index.js';
@@ -331,25 +364,21 @@ async function performInitialization(): Promise<PluginInitializationResult> {
             path: modulePath,
           });
 
-          // Use require() to load the compiled JavaScript module
-          const pluginModule = dynamicRequire(modulePath);
+          // Use require() to load the compiled JavaScript module, enforcing
+          // declared permissions for plugins that don't ship with Quilltap
+          const pluginModule = loadPluginModule(loadedPlugin, modulePath, dynamicRequire);
+          const providerPlugin = getPluginExport(pluginModule);
 
-          if (pluginModule?.plugin) {
-            providers.push(pluginModule.plugin);
+          if (isLLMProviderPlugin(providerPlugin)) {
+            providers.push(providerPlugin);
             logger.debug('Provider plugin loaded', {
               plugin: loadedPlugin.manifest.name,
-              provider: pluginModule.plugin?.metadata?.providerName,
-            });
-          } else if (pluginModule?.default?.plugin) {
-            providers.push(pluginModule.default.plugin);
-            logger.debug('Provider plugin loaded (default export)', {
-              plugin: loadedPlugin.manifest.name,
-              provider: pluginModule.default.plugin?.metadata?.providerName,
+              provider: providerPlugin.metadata.providerName,
             });
           } else {
             logger.warn('Provider plugin module does not export a plugin object', {
               plugin: loadedPlugin.manifest.name,
-              exports: Object.keys(pluginModule),
+              exports: Object.keys(pluginModule ?? {}),
             });
           }
         } catch (error) {
@@ -380,19 +409,14 @@ async function performInitialization(): Promise<PluginInitializationResult> {
             path: modulePath,
           });
 
-          // Use require() to load the compiled JavaScript module
-          const pluginModule = dynamicRequire(modulePath);
+          // Use require() to load the compiled JavaScript module, enforcing
+          // declared permissions for plugins that don't ship with Quilltap
+          const pluginModule = loadPluginModule(loadedPlugin, modulePath, dynamicRequire);
 
           // Auth plugins export config, isConfigured, getConfigStatus directly
-          const authPlugin = (pluginModule?.default || pluginModule) as AuthProviderPluginExport | undefined;
-
-          if (
-            authPlugin &&
-            typeof authPlugin.config === 'object' &&
-            typeof authPlugin.isConfigured === 'function' &&
-            typeof authPlugin.getConfigStatus === 'function' &&
-            typeof authPlugin.createProvider === 'function'
-          ) {
+          const authPlugin = asPluginModule(pluginModule?.default) ?? pluginModule;
+
+          if (isAuthProviderPlugin(authPlugin)) {
             registerAuthProvider(authPlugin);
             logger.debug('Auth provider plugin registered', {
               plugin: loadedPlugin.manifest.name,
@@ -422,6 +446,35 @@ async function performInitialization(): Promise<PluginInitializationResult> {
       });
     }
 
+    // Register web search backends from enabled plugins with SEARCH_BACKEND capability
+    logger.debug('Initializing search backend registry');
+    clearSearchBackends();
+    const searchPlugins = pluginRegistry.getEnabledByCapability('SEARCH_BACKEND');
+    for (const loadedPlugin of searchPlugins) {
+      try {
+        const mainFile = loadedPlugin.manifest.main || 'index.js';
+        const modulePath = resolve(process.cwd(), loadedPlugin.pluginPath, mainFile);
+
+        const pluginModule = loadPluginModule(loadedPlugin, modulePath, dynamicRequire);
+        const searchPlugin = asPluginModule(pluginModule?.default) ?? pluginModule;
+
+        if (isSearchBackendPlugin(searchPlugin)) {
+          registerSearchBackend(searchPlugin);
+        } else {
+          logger.warn('Search backend plugin missing required exports', {
+            plugin: loadedPlugin.manifest.name,
+            hasMetadata: typeof searchPlugin?.metadata === 'object',
+            hasSearch: typeof searchPlugin?.search === 'function',
+          });
+        }
+      } catch (error) {
+        logger.error('Failed to load search backend plugin module', {
+          plugin: loadedPlugin.manifest.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
     return result;
   } catch (error) {
     logger.error('Failed to initialize plugin system', { error });
@@ -452,6 +505,11 @@ export function resetPluginSystem(): void {
   pluginRouteRegistry.routes.clear();
   pluginRouteRegistry.initialized = false;
   pluginRouteRegistry.skipValidation = false;
+  // Clear registered plugin hooks
+  clearPluginHooks();
+  // Drop sandboxed modules and their recorded permission violations
+  resetPluginSandboxes();
+  clearPermissionViolations();
   logger.debug('Plugin system reset');
 }
 
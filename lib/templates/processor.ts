@@ -21,7 +21,7 @@ export interface TemplateContext {
   mesExamples?: string // Formatted example dialogues
   mesExamplesRaw?: string // Raw example dialogues without formatting
 
-  // World Info / Lorebook (future support)
+  // World Info / Lorebook
   wiBefore?: string // World info before character defs
   wiAfter?: string // World info after character defs
   loreBefore?: string // Alias for wiBefore
@@ -79,6 +79,7 @@ export function buildTemplateContext({
   character,
   persona,
   scenario,
+  worldInfo,
 }: {
   character: {
     name: string
@@ -93,6 +94,10 @@ export function buildTemplateContext({
     description?: string | null
   } | null
   scenario?: string | null
+  worldInfo?: {
+    before?: string
+    after?: string
+  } | null
 }): TemplateContext {
   return {
     // Character data
@@ -112,11 +117,13 @@ export function buildTemplateContext({
     mesExamplesRaw: character.exampleDialogues || '',
     mesExamples: character.exampleDialogues || '',
 
+    // World info triggered by the lorebooks in scope
+    wiBefore: worldInfo?.before || '',
+    wiAfter: worldInfo?.after || '',
+    loreBefore: worldInfo?.before || '',
+    loreAfter: worldInfo?.after || '',
+
     // Future support - these will be empty for now
-    wiBefore: '',
-    wiAfter: '',
-    loreBefore: '',
-    loreAfter: '',
     anchorBefore: '',
     anchorAfter: '',
   }
@@ -137,6 +144,7 @@ export function processCharacterTemplates({
     personality?: string | null
     scenario?: string | null
     firstMessage?: string | null
+    alternateGreetings?: string[] | null
     exampleDialogues?: string | null
     systemPrompt?: string | null
   }
@@ -150,6 +158,7 @@ export function processCharacterTemplates({
   personality: string
   scenario: string
   firstMessage: string
+  alternateGreetings: string[]
   exampleDialogues: string
   systemPrompt: string
 } {
@@ -160,6 +169,7 @@ export function processCharacterTemplates({
     personality: processTemplate(character.personality || '', context),
     scenario: processTemplate(scenario || character.scenario || '', context),
     firstMessage: processTemplate(character.firstMessage || '', context),
+    alternateGreetings: (character.alternateGreetings || []).map(greeting => processTemplate(greeting, context)),
     exampleDialogues: processTemplate(character.exampleDialogues || '', context),
     systemPrompt: processTemplate(character.systemPrompt || '', context),
   }
@@ -6,7 +6,7 @@
  * when the LLM explicitly requests memory lookup.
  */
 
-import { searchMemoriesSemantic } from '@/lib/memory/memory-service'
+import { reinforceMemories, searchMemoriesSemantic } from '@/lib/memory/memory-service'
 import { getRepositories } from '@/lib/repositories/factory'
 import { logger } from '@/lib/logger'
 import {
@@ -26,6 +26,10 @@ export interface MemorySearchToolContext {
   characterId: string
   /** Optional embedding profile ID for semantic search */
   embeddingProfileId?: string
+  /** Chat the search runs in; chat-only memories from other chats are hidden */
+  chatId?: string
+  /** Persona the user is speaking as; other personas' memories are hidden */
+  personaId?: string | null
 }
 
 /**
@@ -87,18 +91,12 @@ export async function executeMemorySearchTool(
         embeddingProfileId: context.embeddingProfileId,
         limit,
         minImportance,
+        scope: { personaId: context.personaId ?? null, chatId: context.chatId ?? null },
       }
     )
 
-    // Update access time for retrieved memories
-    for (const result of searchResults) {
-      try {
-        await repos.memories.updateAccessTime(context.characterId, result.memory.id)
-      } catch (err) {
-        // Non-critical, just log
-        logger.warn(`[MemorySearch] Failed to update access time for memory ${result.memory.id}`, { characterId: context.characterId, memoryId: result.memory.id, userId: context.userId, error: String(err) })
-      }
-    }
+    // Recalled memories are reinforced (importance up, access time updated)
+    await reinforceMemories(context.characterId, searchResults.map(result => result.memory))
 
     // Convert to output format
     const memories: MemorySearchResult[] = searchResults.map(result => ({
@@ -12,6 +12,7 @@ import {
   validateWebSearchInput,
 } from '../web-search-tool'
 import { logger } from '@/lib/logger'
+import { runWebSearch, type SearchBackend } from '@/lib/web-search'
 
 /**
  * Context required for web search execution
@@ -19,6 +20,12 @@ import { logger } from '@/lib/logger'
 export interface WebSearchToolContext {
   /** User ID for authentication and logging */
   userId: string
+  /** Backend to query; without one the tool reports that search isn't set up */
+  backend?: SearchBackend
+  /** Fetch the result pages and include their main text */
+  fetchPageContent?: boolean
+  /** Characters of page text kept per result */
+  maxPageChars?: number
 }
 
 /**
@@ -37,12 +44,12 @@ export class WebSearchError extends Error {
 /**
  * Execute a web search tool call
  *
- * This is a placeholder implementation. In production, you would integrate
- * with a real search API like Google Custom Search, Bing Search API, Brave Search API,
- * or another search provider.
+ * Queries the backend in the context, then (when enabled) fetches the
+ * result pages for their readable text and returns citation metadata for
+ * every result.
  *
  * @param input - The tool input parameters
- * @param context - Execution context including user ID
+ * @param context - Execution context including user ID and search backend
  * @returns Tool output with search results
  */
 export async function executeWebSearchTool(
@@ -62,46 +69,28 @@ export async function executeWebSearchTool(
 
     const { query, maxResults = 5 } = input
 
-    logger.debug('Web search initiated', { userId: context.userId, query, maxResults })
+    if (!context.backend) {
+      return {
+        success: false,
+        error: 'Web search is not configured. Choose a search backend in Settings → Chat.',
+        totalFound: 0,
+        query,
+      }
+    }
 
-    // TODO: Implement actual web search API integration
-    // This is a placeholder that returns mock results
-    // In production, replace this with a call to your chosen search API:
-    //
-    // Examples:
-    // - Google Custom Search API: https://developers.google.com/custom-search/v1/overview
-    // - Bing Search API: https://www.microsoft.com/en-us/bing/apis/bing-web-search-api
-    // - Brave Search API: https://brave.com/search/api/
-    // - DuckDuckGo API: https://duckduckgo.com/api
-    // - SerpAPI: https://serpapi.com/
-    //
-    // Example implementation:
-    // const response = await fetch(`https://api.searchprovider.com/search?q=${encodeURIComponent(query)}&count=${maxResults}`, {
-    //   headers: {
-    //     'Authorization': `Bearer ${process.env.SEARCH_API_KEY}`,
-    //   },
-    // })
-    // const data = await response.json()
-    // const results = data.results.map(r => ({
-    //   title: r.title,
-    //   url: r.url,
-    //   snippet: r.snippet,
-    //   publishedDate: r.date,
-    // }))
+    logger.debug('Web search initiated', { userId: context.userId, query, maxResults, backend: context.backend.id })
 
-    // Placeholder mock results
-    const results: WebSearchResult[] = [
-      {
-        title: 'Web Search Not Yet Implemented',
-        url: 'https://example.com',
-        snippet: `This is a placeholder result. To enable real web search, implement the executeWebSearchTool function in lib/tools/handlers/web-search-handler.ts with your preferred search API provider. Your query was: "${query}"`,
-        publishedDate: new Date().toISOString(),
-      },
-    ]
+    const { results, citations } = await runWebSearch(context.backend, query, {
+      maxResults,
+      fetchPageContent: context.fetchPageContent ?? false,
+      maxPageChars: context.maxPageChars,
+    })
 
     return {
       success: true,
       results,
+      citations,
+      backend: context.backend.id,
       totalFound: results.length,
       query,
     }
@@ -134,11 +123,14 @@ export function formatWebSearchResults(results: WebSearchResult[]): string {
       ? ` (Published: ${new Date(result.publishedDate).toLocaleDateString()})`
       : ''
 
+    const source = result.siteName ? `\nSource: ${result.siteName}` : ''
+    const content = result.content ? `\nPage text: ${result.content}` : ''
+
     return `[Result ${index + 1}]${dateStr}
 Title: ${result.title}
-URL: ${result.url}
-Summary: ${result.snippet}`
+URL: ${result.url}${source}
+Summary: ${result.snippet}${content}`
   })
 
-  return `Found ${results.length} search results:\n\n${formatted.join('\n\n')}`
+  return `Found ${results.length} search results:\n\n${formatted.join('\n\n')}\n\nWhen you use these results, cite them by number, e.g. [1].`
 }
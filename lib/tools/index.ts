@@ -63,6 +63,7 @@ export {
   type WebSearchToolInput,
   type WebSearchToolOutput,
   type WebSearchResult,
+  type WebSearchCitation,
 } from './web-search-tool';
 
 export {
@@ -81,6 +81,12 @@ export interface BuildToolsOptions {
 
   /** Whether to enable web search tool */
   webSearch?: boolean;
+
+  /** Tools discovered on the user's MCP servers (see lib/mcp) */
+  mcpTools?: UniversalTool[];
+
+  /** Tool names for which this returns false are left out (e.g. tools whose approval policy is NEVER) */
+  toolFilter?: (toolName: string) => boolean;
 }
 
 /**
@@ -103,6 +109,7 @@ export interface BuildToolsOptions {
  *   imageProviderType: 'OPENAI',
  *   memorySearch: true,
  *   webSearch: true,
+ *   mcpTools: await getMcpUniversalTools(userId),
  * });
  * ```
  */
@@ -117,11 +124,11 @@ export function buildToolsForProvider(
 
   logger_.debug('Building tools for provider', {
     provider: providerName,
-    options,
+    options: { ...options, mcpTools: options.mcpTools?.map(t => t.function.name), toolFilter: !!options.toolFilter },
   });
 
   // Step 1: Build array of universal tools based on enabled options
-  const universalTools: UniversalTool[] = [];
+  let universalTools: UniversalTool[] = [];
 
   // Add image generation tool if enabled
   if (options.imageGeneration) {
@@ -147,6 +154,22 @@ export function buildToolsForProvider(
     logger_.debug('Added web search tool');
   }
 
+  // Add tools from MCP servers
+  if (options.mcpTools && options.mcpTools.length > 0) {
+    universalTools.push(...options.mcpTools);
+    logger_.debug('Added MCP tools', { count: options.mcpTools.length });
+  }
+
+  // Drop tools the caller has ruled out
+  if (options.toolFilter) {
+    const filter = options.toolFilter;
+    const excluded = universalTools.filter(t => !filter(t.function.name)).map(t => t.function.name);
+    if (excluded.length > 0) {
+      universalTools = universalTools.filter(t => filter(t.function.name));
+      logger_.debug('Excluded tools by filter', { tools: excluded });
+    }
+  }
+
   // If no tools are enabled, return empty array
   if (universalTools.length === 0) {
     logger_.debug('No tools enabled');
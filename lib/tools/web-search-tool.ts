@@ -22,6 +22,23 @@ export interface WebSearchResult {
   url: string
   snippet: string
   publishedDate?: string
+  /** Main text of the page, when page fetching is enabled and succeeded */
+  content?: string
+  /** Site name from the page metadata, or its hostname */
+  siteName?: string
+}
+
+/**
+ * Source metadata for a result, so answers can link back to what they cite
+ */
+export interface WebSearchCitation {
+  /** 1-based result number the model uses to cite this source, e.g. [1] */
+  index: number
+  title: string
+  url: string
+  siteName?: string
+  publishedDate?: string
+  accessedAt: string
 }
 
 /**
@@ -30,6 +47,9 @@ export interface WebSearchResult {
 export interface WebSearchToolOutput {
   success: boolean
   results?: WebSearchResult[]
+  citations?: WebSearchCitation[]
+  /** ID of the backend that answered the query */
+  backend?: string
   error?: string
   totalFound: number
   query: string
@@ -0,0 +1,223 @@
+/**
+ * Web Search Backends
+ *
+ * Adapters that turn a query into ranked results for the search_web tool.
+ * Built-in backends cover SearxNG-compatible JSON endpoints and the Brave
+ * and Tavily search APIs; plugins can add more through the search backend
+ * registry.
+ */
+
+import type {
+  SearchBackendPluginExport,
+  SearchBackendResult,
+} from '@/lib/plugins/interfaces/search-backend-plugin'
+
+export const BRAVE_API_URL = 'https://api.search.brave.com/res/v1/web/search'
+export const TAVILY_API_URL = 'https://api.tavily.com/search'
+
+/**
+ * A configured search backend
+ */
+export interface SearchBackend {
+  /** Backend ID recorded on results (e.g. 'SEARXNG', or a plugin's backendId) */
+  id: string
+  displayName: string
+  search(query: string, options: { maxResults: number; signal?: AbortSignal }): Promise<SearchBackendResult[]>
+}
+
+/**
+ * Error raised when a backend request fails or returns something unusable
+ */
+export class SearchBackendError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message)
+    this.name = 'SearchBackendError'
+  }
+}
+
+/**
+ * Strips the highlight markup some APIs put in titles and snippets
+ */
+function stripMarkup(text: unknown): string {
+  if (typeof text !== 'string') {
+    return ''
+  }
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value.length === 0) {
+    return undefined
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+async function requestJson(url: string, init: RequestInit, backendName: string): Promise<any> {
+  const response = await fetch(url, init)
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '')
+    throw new SearchBackendError(
+      `${backendName} returned ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`,
+      response.status
+    )
+  }
+
+  try {
+    return await response.json()
+  } catch {
+    throw new SearchBackendError(`${backendName} returned a response that is not JSON`)
+  }
+}
+
+/**
+ * Keeps results that have a usable URL, deduplicated and capped
+ */
+function normalizeResults(results: SearchBackendResult[], maxResults: number): SearchBackendResult[] {
+  const seen = new Set<string>()
+  const normalized: SearchBackendResult[] = []
+
+  for (const result of results) {
+    if (!/^https?:\/\//i.test(result.url) || seen.has(result.url)) {
+      continue
+    }
+    seen.add(result.url)
+    normalized.push({ ...result, title: result.title || result.url })
+    if (normalized.length >= maxResults) {
+      break
+    }
+  }
+
+  return normalized
+}
+
+/**
+ * SearxNG (or any endpoint speaking its `format=json` API)
+ */
+export function createSearxngBackend(config: { baseUrl: string; apiKey?: string }): SearchBackend {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '')
+
+  return {
+    id: 'SEARXNG',
+    displayName: 'SearxNG',
+    async search(query, { maxResults, signal }) {
+      const url = `${baseUrl}/search?${new URLSearchParams({ q: query, format: 'json', pageno: '1' })}`
+      const headers: Record<string, string> = { Accept: 'application/json' }
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`
+      }
+
+      const data = await requestJson(url, { headers, signal }, 'SearxNG')
+      if (!Array.isArray(data?.results)) {
+        throw new SearchBackendError('SearxNG response has no results array')
+      }
+
+      return normalizeResults(data.results.map((item: any) => ({
+        title: stripMarkup(item.title),
+        url: String(item.url ?? ''),
+        snippet: stripMarkup(item.content),
+        publishedDate: toIsoDate(item.publishedDate),
+      })), maxResults)
+    },
+  }
+}
+
+/**
+ * Brave Search API
+ */
+export function createBraveBackend(config: { apiKey: string; baseUrl?: string }): SearchBackend {
+  const endpoint = config.baseUrl || BRAVE_API_URL
+
+  return {
+    id: 'BRAVE',
+    displayName: 'Brave Search',
+    async search(query, { maxResults, signal }) {
+      const url = `${endpoint}?${new URLSearchParams({ q: query, count: String(maxResults) })}`
+      const data = await requestJson(url, {
+        headers: {
+          Accept: 'application/json',
+          'X-Subscription-Token': config.apiKey,
+        },
+        signal,
+      }, 'Brave Search')
+
+      const results = Array.isArray(data?.web?.results) ? data.web.results : []
+      return normalizeResults(results.map((item: any) => ({
+        title: stripMarkup(item.title),
+        url: String(item.url ?? ''),
+        snippet: stripMarkup(item.description),
+        publishedDate: toIsoDate(item.page_age),
+      })), maxResults)
+    },
+  }
+}
+
+/**
+ * Tavily Search API
+ */
+export function createTavilyBackend(config: { apiKey: string; baseUrl?: string }): SearchBackend {
+  const endpoint = config.baseUrl || TAVILY_API_URL
+
+  return {
+    id: 'TAVILY',
+    displayName: 'Tavily',
+    async search(query, { maxResults, signal }) {
+      const data = await requestJson(endpoint, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify({ query, max_results: maxResults, search_depth: 'basic' }),
+        signal,
+      }, 'Tavily')
+
+      const results = Array.isArray(data?.results) ? data.results : []
+      return normalizeResults(results.map((item: any) => ({
+        title: stripMarkup(item.title),
+        url: String(item.url ?? ''),
+        snippet: stripMarkup(item.content),
+        publishedDate: toIsoDate(item.published_date),
+      })), maxResults)
+    },
+  }
+}
+
+/**
+ * Wraps a backend provided by a SEARCH_BACKEND plugin
+ */
+export function createPluginBackend(
+  plugin: SearchBackendPluginExport,
+  config: { apiKey?: string; baseUrl?: string } = {}
+): SearchBackend {
+  return {
+    id: plugin.metadata.backendId,
+    displayName: plugin.metadata.displayName,
+    async search(query, { maxResults, signal }) {
+      const results = await plugin.search(query, {
+        maxResults,
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        signal,
+      })
+      if (!Array.isArray(results)) {
+        throw new SearchBackendError(`Search backend "${plugin.metadata.backendId}" did not return an array`)
+      }
+      return normalizeResults(results.map(result => ({
+        title: String(result.title ?? ''),
+        url: String(result.url ?? ''),
+        snippet: String(result.snippet ?? ''),
+        publishedDate: toIsoDate(result.publishedDate),
+      })), maxResults)
+    },
+  }
+}
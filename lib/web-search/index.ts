@@ -0,0 +1,203 @@
+/**
+ * Web Search
+ *
+ * Resolves the search backend a user has configured and runs searches for
+ * the search_web tool: query the backend, fetch the top pages for their
+ * readable text, and attach citation metadata to each result.
+ */
+
+import { logger } from '@/lib/logger'
+import { getRepositories } from '@/lib/repositories/factory'
+import { getSearchBackend } from '@/lib/plugins/search-backend-registry'
+import type { WebSearchSettings } from '@/lib/schemas/types'
+import type { WebSearchCitation, WebSearchResult } from '@/lib/tools/web-search-tool'
+import {
+  createBraveBackend,
+  createPluginBackend,
+  createSearxngBackend,
+  createTavilyBackend,
+  SearchBackend,
+  SearchBackendError,
+} from './backends'
+import { fetchPageContent } from './page-extractor'
+
+export {
+  BRAVE_API_URL,
+  TAVILY_API_URL,
+  createBraveBackend,
+  createPluginBackend,
+  createSearxngBackend,
+  createTavilyBackend,
+  SearchBackendError,
+  type SearchBackend,
+} from './backends'
+
+export {
+  decodeHtmlEntities,
+  extractReadableContent,
+  fetchPageContent,
+  type ExtractedPage,
+} from './page-extractor'
+
+/** Upper bound on the backend query itself */
+const SEARCH_TIMEOUT_MS = 15000
+
+/** Upper bound on fetching one result page */
+const PAGE_TIMEOUT_MS = 8000
+
+/**
+ * How a search run should treat result pages
+ */
+export interface WebSearchRunOptions {
+  maxResults: number
+  fetchPageContent?: boolean
+  maxPageChars?: number
+}
+
+/**
+ * Builds a backend from stored settings and the already-decrypted API key
+ * Returns null when search is turned off or the settings are incomplete.
+ */
+export function createSearchBackend(settings: WebSearchSettings, apiKey?: string | null): SearchBackend | null {
+  switch (settings.backend) {
+    case 'SEARXNG':
+      return settings.baseUrl
+        ? createSearxngBackend({ baseUrl: settings.baseUrl, apiKey: apiKey ?? undefined })
+        : null
+    case 'BRAVE':
+      return apiKey ? createBraveBackend({ apiKey, baseUrl: settings.baseUrl ?? undefined }) : null
+    case 'TAVILY':
+      return apiKey ? createTavilyBackend({ apiKey, baseUrl: settings.baseUrl ?? undefined }) : null
+    case 'PLUGIN': {
+      const plugin = settings.pluginBackendId ? getSearchBackend(settings.pluginBackendId) : undefined
+      if (!plugin) {
+        return null
+      }
+      return createPluginBackend(plugin, { apiKey: apiKey ?? undefined, baseUrl: settings.baseUrl ?? undefined })
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Whether stored settings select a backend at all
+ */
+export function isWebSearchConfigured(settings?: WebSearchSettings | null): boolean {
+  return !!settings && settings.backend !== 'NONE'
+}
+
+/**
+ * Loads the user's search settings and builds their backend
+ */
+export async function getWebSearchBackendForUser(
+  userId: string
+): Promise<{ backend: SearchBackend; settings: WebSearchSettings } | null> {
+  const repos = getRepositories()
+  const chatSettings = await repos.users.getChatSettings(userId)
+  const settings = chatSettings?.webSearchSettings
+
+  if (!settings || !isWebSearchConfigured(settings)) {
+    return null
+  }
+
+  let apiKey: string | null = null
+  if (settings.apiKeyId) {
+    const storedKey = await repos.connections.findApiKeyById(settings.apiKeyId)
+    if (storedKey) {
+      try {
+        const { decryptApiKey } = await import('@/lib/encryption')
+        apiKey = decryptApiKey(storedKey.ciphertext, storedKey.iv, storedKey.authTag, userId)
+      } catch (error) {
+        logger.warn('Could not decrypt web search API key', {
+          userId,
+          apiKeyId: settings.apiKeyId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  }
+
+  const backend = createSearchBackend(settings, apiKey)
+  if (!backend) {
+    logger.warn('Web search backend is selected but not fully configured', {
+      userId,
+      backend: settings.backend,
+      hasBaseUrl: !!settings.baseUrl,
+      hasApiKey: !!apiKey,
+      pluginBackendId: settings.pluginBackendId,
+    })
+    return null
+  }
+
+  return { backend, settings }
+}
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Runs a query against a backend, optionally enriching results with page text
+ */
+export async function runWebSearch(
+  backend: SearchBackend,
+  query: string,
+  options: WebSearchRunOptions
+): Promise<{ results: WebSearchResult[]; citations: WebSearchCitation[] }> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), SEARCH_TIMEOUT_MS)
+
+  let backendResults
+  try {
+    backendResults = await backend.search(query, { maxResults: options.maxResults, signal: controller.signal })
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new SearchBackendError(`${backend.displayName} did not answer within ${SEARCH_TIMEOUT_MS / 1000}s`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+
+  const pages = options.fetchPageContent
+    ? await Promise.all(backendResults.map(result =>
+        fetchPageContent(result.url, { maxChars: options.maxPageChars, timeoutMs: PAGE_TIMEOUT_MS })
+      ))
+    : backendResults.map(() => null)
+
+  const accessedAt = new Date().toISOString()
+  const results: WebSearchResult[] = backendResults.map((result, index) => {
+    const page = pages[index]
+    return {
+      title: result.title,
+      url: result.url,
+      snippet: result.snippet,
+      publishedDate: result.publishedDate ?? page?.publishedDate,
+      content: page?.text || undefined,
+      siteName: page?.siteName ?? hostnameOf(result.url),
+    }
+  })
+
+  const citations: WebSearchCitation[] = results.map((result, index) => ({
+    index: index + 1,
+    title: result.title,
+    url: result.url,
+    siteName: result.siteName,
+    publishedDate: result.publishedDate,
+    accessedAt,
+  }))
+
+  logger.debug('Web search completed', {
+    backend: backend.id,
+    query,
+    results: results.length,
+    pagesExtracted: pages.filter(Boolean).length,
+  })
+
+  return { results, citations }
+}
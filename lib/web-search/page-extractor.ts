@@ -0,0 +1,229 @@
+/**
+ * Page Text Extraction
+ *
+ * Fetches result pages and pulls out their readable text, in the spirit of
+ * Readability: page chrome (navigation, headers, footers, sidebars, scripts)
+ * is dropped, the main article container is preferred, and only text-bearing
+ * blocks are kept.
+ *
+ * Result URLs come from the search backend, so pages are only fetched from
+ * public addresses (see lib/public-address.ts).
+ */
+
+import { fetchPublicUrl } from '@/lib/public-address'
+
+/** Pages larger than this are cut off before parsing */
+const MAX_PAGE_BYTES = 2 * 1024 * 1024
+
+/** Blocks shorter than this are treated as boilerplate unless they are headings */
+const MIN_BLOCK_CHARS = 25
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; QuilltapBot/1.0; +https://github.com/foundry-9/quilltap)'
+
+/**
+ * Readable content extracted from a page
+ */
+export interface ExtractedPage {
+  title?: string
+  siteName?: string
+  byline?: string
+  publishedDate?: string
+  text: string
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+}
+
+/**
+ * Decodes the HTML entities that commonly appear in page text
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function cleanText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function getMetaContent(html: string, names: string[]): string | undefined {
+  for (const name of names) {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const patterns = [
+      new RegExp(`<meta[^>]+(?:property|name)=["']${escaped}["'][^>]*content=["']([^"']*)["']`, 'i'),
+      new RegExp(`<meta[^>]+content=["']([^"']*)["'][^>]*(?:property|name)=["']${escaped}["']`, 'i'),
+    ]
+    for (const pattern of patterns) {
+      const match = html.match(pattern)
+      if (match && match[1].trim()) {
+        return decodeHtmlEntities(match[1].trim())
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Returns the inner HTML of the largest element with the given tag
+ */
+function largestElement(html: string, tag: string): string | undefined {
+  const pattern = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi')
+  let best: string | undefined
+  for (const match of Array.from(html.matchAll(pattern))) {
+    if (!best || match[1].length > best.length) {
+      best = match[1]
+    }
+  }
+  return best
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text
+  }
+  const cut = text.slice(0, maxChars)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > maxChars * 0.8 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`
+}
+
+/**
+ * Extracts the readable text and metadata from an HTML document
+ */
+export function extractReadableContent(html: string, options: { maxChars?: number } = {}): ExtractedPage {
+  const maxChars = options.maxChars ?? 4000
+
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)
+  const title = getMetaContent(html, ['og:title']) ?? (titleMatch ? cleanText(titleMatch[1]) : undefined)
+  const siteName = getMetaContent(html, ['og:site_name', 'application-name'])
+  const byline = getMetaContent(html, ['author', 'article:author'])
+  const publishedRaw = getMetaContent(html, ['article:published_time', 'date', 'pubdate'])
+  const publishedDate = publishedRaw && !Number.isNaN(new Date(publishedRaw).getTime())
+    ? new Date(publishedRaw).toISOString()
+    : undefined
+
+  // Drop things that are never article text
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|svg|iframe|template|form|button|select)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<(nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi, ' ')
+
+  // Prefer the main content container when the page marks one
+  body = largestElement(body, 'article')
+    ?? largestElement(body, 'main')
+    ?? largestElement(body, 'body')
+    ?? body
+
+  const blocks: string[] = []
+  const blockPattern = /<(h[1-6]|p|li|blockquote|pre|td|dd)\b[^>]*>([\s\S]*?)<\/\1>/gi
+  for (const match of Array.from(body.matchAll(blockPattern))) {
+    const text = cleanText(match[2])
+    const isHeading = /^h[1-6]$/i.test(match[1])
+    if (text && (isHeading || text.length >= MIN_BLOCK_CHARS) && blocks[blocks.length - 1] !== text) {
+      blocks.push(text)
+    }
+  }
+
+  // Pages built from bare divs have no blocks; fall back to all of their text
+  const text = blocks.length > 0 ? blocks.join('\n\n') : cleanText(body)
+
+  return {
+    title: title || undefined,
+    siteName,
+    byline,
+    publishedDate,
+    text: truncate(text, maxChars),
+  }
+}
+
+/**
+ * Reads a response body up to maxBytes and cancels the rest, so a huge or
+ * endless page is never held in memory
+ */
+async function readBodyUpTo(response: Response, maxBytes: number): Promise<Buffer> {
+  const chunks: Uint8Array[] = []
+  let size = 0
+  if (response.body) {
+    // Leaving the loop early cancels the stream
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      chunks.push(chunk)
+      size += chunk.byteLength
+      if (size >= maxBytes) {
+        break
+      }
+    }
+  }
+  return Buffer.concat(chunks, Math.min(size, maxBytes))
+}
+
+/**
+ * Fetches a page and extracts its readable content
+ * Returns null for non-HTML responses, private addresses, errors and
+ * timeouts; callers fall back to the search snippet.
+ */
+export async function fetchPageContent(
+  url: string,
+  options: { maxChars?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<ExtractedPage | null> {
+  if (!/^https?:\/\//i.test(url)) {
+    return null
+  }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 8000)
+  const onAbort = () => controller.abort()
+  options.signal?.addEventListener('abort', onAbort)
+
+  try {
+    const response = await fetchPublicUrl(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml;q=0.9,text/plain;q=0.8',
+      },
+      signal: controller.signal,
+    })
+
+    const contentType = response.headers.get('content-type') || ''
+    if (!response.ok || !/text\/html|application\/xhtml\+xml|text\/plain/i.test(contentType)) {
+      await response.body?.cancel()
+      return null
+    }
+
+    const raw = new TextDecoder('utf-8').decode(await readBodyUpTo(response, MAX_PAGE_BYTES))
+
+    if (/text\/plain/i.test(contentType)) {
+      return { text: truncate(raw.replace(/\s+/g, ' ').trim(), options.maxChars ?? 4000) }
+    }
+
+    return extractReadableContent(raw, { maxChars: options.maxChars })
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', onAbort)
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Minimal ZIP Reader/Writer
+ *
+ * Enough of the ZIP format for the containers we exchange with other apps
+ * (CharX character cards, archives): stored and deflated entries, UTF-8
+ * names, no ZIP64, no encryption. Built on node:zlib so no extra dependency
+ * is needed.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'node:zlib'
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+
+// General purpose flag: names are UTF-8
+const FLAG_UTF8 = 0x0800
+
+/** Largest total uncompressed size readZip will produce (guards against zip bombs) */
+export const MAX_UNZIPPED_SIZE = 512 * 1024 * 1024
+
+/**
+ * One file in a ZIP archive
+ */
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  path: string
+  data: Buffer
+}
+
+/**
+ * Error thrown for archives this reader can't handle
+ */
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipError'
+  }
+}
+
+let crcTable: Uint32Array | null = null
+
+/**
+ * CRC-32 checksum, as used by ZIP and PNG
+ */
+export function crc32(buffer: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? (c >>> 1) ^ 0xedb88320 : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < buffer.length; i++) {
+    crc = crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Check for the local file header signature at the start of a buffer
+ */
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff)
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset
+    }
+  }
+  throw new ZipError('Not a ZIP archive')
+}
+
+/**
+ * Read every file in a ZIP archive
+ *
+ * Directory entries are skipped. Throws ZipError for ZIP64, encrypted or
+ * otherwise unsupported archives.
+ */
+export function readZip(buffer: Buffer, maxSize: number = MAX_UNZIPPED_SIZE): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(buffer)
+  const count = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new ZipError('ZIP64 archives are not supported')
+  }
+
+  const entries: ZipEntry[] = []
+  let total = 0
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipError('Corrupt ZIP central directory')
+    }
+    const flags = buffer.readUInt16LE(offset + 8)
+    const method = buffer.readUInt16LE(offset + 10)
+    const checksum = buffer.readUInt32LE(offset + 16)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const size = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const path = buffer.toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (path.endsWith('/')) {
+      continue
+    }
+    if (flags & 0x0001) {
+      throw new ZipError(`Encrypted entry ${path} is not supported`)
+    }
+    if (compressedSize === 0xffffffff || size === 0xffffffff) {
+      throw new ZipError('ZIP64 archives are not supported')
+    }
+    total += size
+    if (total > maxSize) {
+      throw new ZipError('Archive is too large to extract')
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new ZipError(`Corrupt ZIP entry ${path}`)
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Buffer
+    if (method === METHOD_STORED) {
+      data = Buffer.from(raw)
+    } else if (method === METHOD_DEFLATED) {
+      data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) })
+    } else {
+      throw new ZipError(`Compression method ${method} of ${path} is not supported`)
+    }
+    if (data.length !== size || crc32(data) !== checksum) {
+      throw new ZipError(`Checksum mismatch in ${path}`)
+    }
+
+    entries.push({ path: path.replace(/\\/g, '/'), data })
+  }
+
+  return entries
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Write files into a ZIP archive
+ *
+ * Entries are deflated unless that wouldn't make them smaller.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(modified)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8')
+    const deflated = deflateRawSync(entry.data)
+    const stored = deflated.length >= entry.data.length
+    const payload = stored ? entry.data : deflated
+    const checksum = crc32(entry.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(FLAG_UTF8, 6)
+    local.writeUInt16LE(stored ? METHOD_STORED : METHOD_DEFLATED, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(payload.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(FLAG_UTF8, 8)
+    central.writeUInt16LE(stored ? METHOD_STORED : METHOD_DEFLATED, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(payload.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, payload)
+    centralParts.push(central, name)
+    offset += local.length + name.length + payload.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
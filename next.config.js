@@ -3,6 +3,9 @@ const nextConfig = {
   // Standalone output for Docker deployments
   output: 'standalone',
 
+  // Local embedding runtime ships native and WASM binaries; load it from node_modules at runtime
+  serverExternalPackages: ['@huggingface/transformers', 'onnxruntime-node'],
+
   // Experimental features
   experimental: {
     turbopackUseSystemTlsCerts: true,
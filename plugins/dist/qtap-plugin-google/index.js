@@ -904,6 +904,70 @@ function GoogleIcon({ className = "h-5 w-5" }) {
   );
 }
 
+// lib/embedding/base.ts
+var EmbeddingError = class extends Error {
+  constructor(message, provider, originalError) {
+    super(message);
+    this.provider = provider;
+    this.originalError = originalError;
+    this.name = "EmbeddingError";
+  }
+};
+
+// lib/embedding/providers.ts
+function dimensionsOf(models, model) {
+  return models.find((m) => m.id === model)?.dimensions ?? null;
+}
+var OpenAICompatibleEmbeddingProvider = class {
+  constructor(options) {
+    this.provider = options.provider;
+    this.label = options.label ?? options.provider;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.requiresApiKey = options.requiresApiKey ?? true;
+    this.models = options.models ?? [];
+    this.headers = options.headers ?? {};
+  }
+  async embed(text, params, apiKey) {
+    const [embedding] = await this.embedBatch([text], params, apiKey);
+    return embedding;
+  }
+  async embedBatch(texts, params, apiKey) {
+    if (texts.length === 0) return [];
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        ...this.headers
+      },
+      body: JSON.stringify({
+        model: params.model,
+        input: texts.length === 1 ? texts[0] : texts,
+        dimensions: params.dimensions || void 0
+      })
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new EmbeddingError(
+        `${this.label} embedding failed: ${error.error?.message || response.statusText}`,
+        this.provider
+      );
+    }
+    const data = await response.json();
+    const items = data.data ?? [];
+    if (items.length !== texts.length) {
+      throw new EmbeddingError(
+        `${this.label} embedding failed: expected ${texts.length} vectors, got ${items.length}`,
+        this.provider
+      );
+    }
+    return [...items].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map((item) => item.embedding);
+  }
+  getDimensions(model) {
+    return dimensionsOf(this.models, model);
+  }
+};
+
 // lib/llm/tool-formatting-utils.ts
 function convertOpenAIToGoogleFormat(tool) {
   logger.debug("Converting tool to Google format", {
@@ -965,7 +1029,7 @@ var config = {
 var capabilities = {
   chat: true,
   imageGeneration: true,
-  embeddings: false,
+  embeddings: true,
   webSearch: true
 };
 var attachmentSupport = {
@@ -993,6 +1057,19 @@ var plugin = {
     logger.debug("Creating Google Imagen provider instance", { context: "plugin.createImageProvider", baseUrl });
     return new GoogleImagenProvider();
   },
+  /**
+   * Factory method to create a Gemini embedding provider instance
+   * Uses the OpenAI-compatible endpoint of the Generative AI API
+   */
+  createEmbeddingProvider: (baseUrl) => {
+    logger.debug("Creating Google embedding provider instance", { context: "plugin.createEmbeddingProvider", baseUrl });
+    return new OpenAICompatibleEmbeddingProvider({
+      provider: "GOOGLE",
+      label: "Google",
+      baseUrl: baseUrl || "https://generativelanguage.googleapis.com/v1beta/openai",
+      models: plugin.getEmbeddingModels?.()
+    });
+  },
   /**
    * Get list of available models from Google API
    * Requires a valid API key
@@ -1081,6 +1158,27 @@ var plugin = {
       }
     ];
   },
+  /**
+   * Get embedding models supported by Google
+   * Returns static information about available embedding models
+   */
+  getEmbeddingModels: () => {
+    logger.debug("Getting Google embedding models", { context: "plugin.getEmbeddingModels" });
+    return [
+      {
+        id: "gemini-embedding-001",
+        name: "Gemini Embedding 001",
+        dimensions: 3072,
+        description: "Multilingual model; set dimensions to 768 or 1536 for smaller vectors."
+      },
+      {
+        id: "text-embedding-004",
+        name: "Text Embedding 004",
+        dimensions: 768,
+        description: "Previous-generation English model."
+      }
+    ];
+  },
   /**
    * Render the Google icon
    */
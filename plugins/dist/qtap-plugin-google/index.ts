@@ -10,11 +10,12 @@
  * - Web search integration via Google Search
  */
 
-import type { LLMProviderPlugin } from './types';
+import type { LLMProviderPlugin, EmbeddingModelInfo } from './types';
 import { GoogleProvider } from './provider';
 import { GoogleImagenProvider } from './image-provider';
 import { GoogleIcon } from './icon';
 import { logger } from '../../../lib/logger';
+import { OpenAICompatibleEmbeddingProvider } from '../../../lib/embedding/providers';
 import {
   convertOpenAIToGoogleFormat,
   parseGoogleToolCalls,
@@ -53,7 +54,7 @@ const config = {
 const capabilities = {
   chat: true,
   imageGeneration: true,
-  embeddings: false,
+  embeddings: true,
   webSearch: true,
 } as const;
 
@@ -96,6 +97,20 @@ export const plugin: LLMProviderPlugin = {
     return new GoogleImagenProvider();
   },
 
+  /**
+   * Factory method to create a Gemini embedding provider instance
+   * Uses the OpenAI-compatible endpoint of the Generative AI API
+   */
+  createEmbeddingProvider: (baseUrl?: string) => {
+    logger.debug('Creating Google embedding provider instance', { context: 'plugin.createEmbeddingProvider', baseUrl });
+    return new OpenAICompatibleEmbeddingProvider({
+      provider: 'GOOGLE',
+      label: 'Google',
+      baseUrl: baseUrl || 'https://generativelanguage.googleapis.com/v1beta/openai',
+      models: plugin.getEmbeddingModels?.(),
+    });
+  },
+
   /**
    * Get list of available models from Google API
    * Requires a valid API key
@@ -187,6 +202,28 @@ export const plugin: LLMProviderPlugin = {
     ];
   },
 
+  /**
+   * Get embedding models supported by Google
+   * Returns static information about available embedding models
+   */
+  getEmbeddingModels: (): EmbeddingModelInfo[] => {
+    logger.debug('Getting Google embedding models', { context: 'plugin.getEmbeddingModels' });
+    return [
+      {
+        id: 'gemini-embedding-001',
+        name: 'Gemini Embedding 001',
+        dimensions: 3072,
+        description: 'Multilingual model; set dimensions to 768 or 1536 for smaller vectors.',
+      },
+      {
+        id: 'text-embedding-004',
+        name: 'Text Embedding 004',
+        dimensions: 768,
+        description: 'Previous-generation English model.',
+      },
+    ];
+  },
+
   /**
    * Render the Google icon
    */
@@ -802,6 +802,62 @@ function OllamaIcon({ className = "h-5 w-5" }) {
   );
 }
 
+// lib/embedding/base.ts
+var EmbeddingError = class extends Error {
+  constructor(message, provider, originalError) {
+    super(message);
+    this.provider = provider;
+    this.originalError = originalError;
+    this.name = "EmbeddingError";
+  }
+};
+
+// lib/embedding/providers.ts
+function dimensionsOf(models, model) {
+  return models.find((m) => m.id === model)?.dimensions ?? null;
+}
+var OllamaEmbeddingProvider = class {
+  constructor(baseUrl, models = []) {
+    this.provider = "OLLAMA";
+    this.requiresApiKey = false;
+    this.baseUrl = (baseUrl || "http://localhost:11434").replace(/\/+$/, "");
+    this.models = models;
+  }
+  async embed(text, params) {
+    const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        model: params.model,
+        prompt: text
+      })
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new EmbeddingError(
+        `Ollama embedding failed: ${error.error || response.statusText}`,
+        this.provider
+      );
+    }
+    const data = await response.json();
+    return data.embedding;
+  }
+  // The single-prompt endpoint works on every Ollama version, so batches are
+  // sent one text at a time
+  async embedBatch(texts, params) {
+    const embeddings = [];
+    for (const text of texts) {
+      embeddings.push(await this.embed(text, params));
+    }
+    return embeddings;
+  }
+  getDimensions(model) {
+    return dimensionsOf(this.models, model);
+  }
+};
+
 // lib/llm/tool-formatting-utils.ts
 function parseOpenAIToolCalls(response) {
   const toolCalls = [];
@@ -881,6 +937,14 @@ var plugin = {
     logger.debug("Image provider requested but not supported for Ollama", { context: "plugin.createImageProvider" });
     throw new Error("Ollama does not support image generation");
   },
+  /**
+   * Factory method to create an Ollama embedding provider instance
+   */
+  createEmbeddingProvider: (baseUrl) => {
+    const url = baseUrl || config.baseUrlDefault;
+    logger.debug("Creating Ollama embedding provider instance", { context: "plugin.createEmbeddingProvider", baseUrl: url });
+    return new OllamaEmbeddingProvider(url, plugin.getEmbeddingModels?.());
+  },
   /**
    * Get list of available models from Ollama server
    * No API key required, uses baseUrl to connect to local/remote Ollama instance
@@ -14,6 +14,7 @@ import type { LLMProviderPlugin, EmbeddingModelInfo } from './types';
 import { OllamaProvider } from './provider';
 import { OllamaIcon } from './icon';
 import { logger } from '../../../lib/logger';
+import { OllamaEmbeddingProvider } from '../../../lib/embedding/providers';
 import {
   parseOpenAIToolCalls,
   type OpenAIToolDefinition,
@@ -96,6 +97,15 @@ export const plugin: LLMProviderPlugin = {
     throw new Error('Ollama does not support image generation');
   },
 
+  /**
+   * Factory method to create an Ollama embedding provider instance
+   */
+  createEmbeddingProvider: (baseUrl?: string) => {
+    const url = baseUrl || config.baseUrlDefault;
+    logger.debug('Creating Ollama embedding provider instance', { context: 'plugin.createEmbeddingProvider', baseUrl: url });
+    return new OllamaEmbeddingProvider(url, plugin.getEmbeddingModels?.());
+  },
+
   /**
    * Get list of available models from Ollama server
    * No API key required, uses baseUrl to connect to local/remote Ollama instance
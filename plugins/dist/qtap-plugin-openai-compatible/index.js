@@ -680,6 +680,70 @@ function OpenAICompatibleIcon({ className = "h-5 w-5" }) {
   );
 }
 
+// lib/embedding/base.ts
+var EmbeddingError = class extends Error {
+  constructor(message, provider, originalError) {
+    super(message);
+    this.provider = provider;
+    this.originalError = originalError;
+    this.name = "EmbeddingError";
+  }
+};
+
+// lib/embedding/providers.ts
+function dimensionsOf(models, model) {
+  return models.find((m) => m.id === model)?.dimensions ?? null;
+}
+var OpenAICompatibleEmbeddingProvider = class {
+  constructor(options) {
+    this.provider = options.provider;
+    this.label = options.label ?? options.provider;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.requiresApiKey = options.requiresApiKey ?? true;
+    this.models = options.models ?? [];
+    this.headers = options.headers ?? {};
+  }
+  async embed(text, params, apiKey) {
+    const [embedding] = await this.embedBatch([text], params, apiKey);
+    return embedding;
+  }
+  async embedBatch(texts, params, apiKey) {
+    if (texts.length === 0) return [];
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        ...this.headers
+      },
+      body: JSON.stringify({
+        model: params.model,
+        input: texts.length === 1 ? texts[0] : texts,
+        dimensions: params.dimensions || void 0
+      })
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new EmbeddingError(
+        `${this.label} embedding failed: ${error.error?.message || response.statusText}`,
+        this.provider
+      );
+    }
+    const data = await response.json();
+    const items = data.data ?? [];
+    if (items.length !== texts.length) {
+      throw new EmbeddingError(
+        `${this.label} embedding failed: expected ${texts.length} vectors, got ${items.length}`,
+        this.provider
+      );
+    }
+    return [...items].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map((item) => item.embedding);
+  }
+  getDimensions(model) {
+    return dimensionsOf(this.models, model);
+  }
+};
+
 // lib/llm/tool-formatting-utils.ts
 function parseOpenAIToolCalls(response) {
   const toolCalls = [];
@@ -731,7 +795,7 @@ var config = {
 var capabilities = {
   chat: true,
   imageGeneration: false,
-  embeddings: false,
+  embeddings: true,
   webSearch: false
 };
 var attachmentSupport = {
@@ -764,6 +828,23 @@ var plugin = {
     });
     return new OpenAICompatibleProvider(url);
   },
+  /**
+   * Factory method to create an embedding provider for the compatible API
+   * The server decides which embedding models exist, so none are listed
+   */
+  createEmbeddingProvider: (baseUrl) => {
+    const url = baseUrl || "http://localhost:8080/v1";
+    logger.debug("Creating OpenAI-compatible embedding provider instance", {
+      context: "plugin.createEmbeddingProvider",
+      baseUrl: url
+    });
+    return new OpenAICompatibleEmbeddingProvider({
+      provider: "OPENAI_COMPATIBLE",
+      label: "OpenAI-compatible",
+      baseUrl: url,
+      requiresApiKey: false
+    });
+  },
   /**
    * Get list of available models from the compatible API
    * Requires a valid base URL and optional API key
@@ -833,6 +914,10 @@ var plugin = {
       }
     ];
   },
+  /**
+   * Embedding models depend on the server, so they are entered by name
+   */
+  getEmbeddingModels: () => [],
   /**
    * Render the OpenAI-compatible icon
    */
@@ -10,10 +10,11 @@
  * Key difference from OpenAI plugin: baseUrl is REQUIRED for configuration
  */
 
-import type { LLMProviderPlugin } from './types';
+import type { LLMProviderPlugin, EmbeddingModelInfo } from './types';
 import { OpenAICompatibleProvider } from './provider';
 import { OpenAICompatibleIcon } from './icon';
 import { logger } from '../../../lib/logger';
+import { OpenAICompatibleEmbeddingProvider } from '../../../lib/embedding/providers';
 import {
   parseOpenAIToolCalls,
   type OpenAIToolDefinition,
@@ -54,7 +55,7 @@ const config = {
 const capabilities = {
   chat: true,
   imageGeneration: false,
-  embeddings: false,
+  embeddings: true,
   webSearch: false,
 } as const;
 
@@ -105,6 +106,24 @@ export const plugin: LLMProviderPlugin = {
     return new OpenAICompatibleProvider(url);
   },
 
+  /**
+   * Factory method to create an embedding provider for the compatible API
+   * The server decides which embedding models exist, so none are listed
+   */
+  createEmbeddingProvider: (baseUrl?: string) => {
+    const url = baseUrl || 'http://localhost:8080/v1';
+    logger.debug('Creating OpenAI-compatible embedding provider instance', {
+      context: 'plugin.createEmbeddingProvider',
+      baseUrl: url,
+    });
+    return new OpenAICompatibleEmbeddingProvider({
+      provider: 'OPENAI_COMPATIBLE',
+      label: 'OpenAI-compatible',
+      baseUrl: url,
+      requiresApiKey: false,
+    });
+  },
+
   /**
    * Get list of available models from the compatible API
    * Requires a valid base URL and optional API key
@@ -177,6 +196,11 @@ export const plugin: LLMProviderPlugin = {
     ];
   },
 
+  /**
+   * Embedding models depend on the server, so they are entered by name
+   */
+  getEmbeddingModels: (): EmbeddingModelInfo[] => [],
+
   /**
    * Render the OpenAI-compatible icon
    */
@@ -868,6 +868,70 @@ function OpenAIIcon({ className = "h-5 w-5" }) {
   );
 }
 
+// lib/embedding/base.ts
+var EmbeddingError = class extends Error {
+  constructor(message, provider, originalError) {
+    super(message);
+    this.provider = provider;
+    this.originalError = originalError;
+    this.name = "EmbeddingError";
+  }
+};
+
+// lib/embedding/providers.ts
+function dimensionsOf(models, model) {
+  return models.find((m) => m.id === model)?.dimensions ?? null;
+}
+var OpenAICompatibleEmbeddingProvider = class {
+  constructor(options) {
+    this.provider = options.provider;
+    this.label = options.label ?? options.provider;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.requiresApiKey = options.requiresApiKey ?? true;
+    this.models = options.models ?? [];
+    this.headers = options.headers ?? {};
+  }
+  async embed(text, params, apiKey) {
+    const [embedding] = await this.embedBatch([text], params, apiKey);
+    return embedding;
+  }
+  async embedBatch(texts, params, apiKey) {
+    if (texts.length === 0) return [];
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        ...this.headers
+      },
+      body: JSON.stringify({
+        model: params.model,
+        input: texts.length === 1 ? texts[0] : texts,
+        dimensions: params.dimensions || void 0
+      })
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new EmbeddingError(
+        `${this.label} embedding failed: ${error.error?.message || response.statusText}`,
+        this.provider
+      );
+    }
+    const data = await response.json();
+    const items = data.data ?? [];
+    if (items.length !== texts.length) {
+      throw new EmbeddingError(
+        `${this.label} embedding failed: expected ${texts.length} vectors, got ${items.length}`,
+        this.provider
+      );
+    }
+    return [...items].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map((item) => item.embedding);
+  }
+  getDimensions(model) {
+    return dimensionsOf(this.models, model);
+  }
+};
+
 // lib/llm/tool-formatting-utils.ts
 function parseOpenAIToolCalls(response) {
   const toolCalls = [];
@@ -916,7 +980,7 @@ var config = {
 var capabilities = {
   chat: true,
   imageGeneration: true,
-  embeddings: false,
+  embeddings: true,
   webSearch: true
 };
 var attachmentSupport = {
@@ -944,6 +1008,18 @@ var plugin = {
     logger.debug("Creating OpenAI image provider instance", { context: "plugin.createImageProvider", baseUrl });
     return new OpenAIImageProvider();
   },
+  /**
+   * Factory method to create an OpenAI embedding provider instance
+   */
+  createEmbeddingProvider: (baseUrl) => {
+    logger.debug("Creating OpenAI embedding provider instance", { context: "plugin.createEmbeddingProvider", baseUrl });
+    return new OpenAICompatibleEmbeddingProvider({
+      provider: "OPENAI",
+      label: "OpenAI",
+      baseUrl: baseUrl || "https://api.openai.com/v1",
+      models: plugin.getEmbeddingModels?.()
+    });
+  },
   /**
    * Get list of available models from OpenAI API
    * Requires a valid API key
@@ -15,6 +15,7 @@ import { OpenAIProvider } from './provider';
 import { OpenAIImageProvider } from './image-provider';
 import { OpenAIIcon } from './icon';
 import { logger } from '../../../lib/logger';
+import { OpenAICompatibleEmbeddingProvider } from '../../../lib/embedding/providers';
 import {
   parseOpenAIToolCalls,
   type OpenAIToolDefinition,
@@ -51,7 +52,7 @@ const config = {
 const capabilities = {
   chat: true,
   imageGeneration: true,
-  embeddings: false,
+  embeddings: true,
   webSearch: true,
 } as const;
 
@@ -94,6 +95,19 @@ export const plugin: LLMProviderPlugin = {
     return new OpenAIImageProvider();
   },
 
+  /**
+   * Factory method to create an OpenAI embedding provider instance
+   */
+  createEmbeddingProvider: (baseUrl?: string) => {
+    logger.debug('Creating OpenAI embedding provider instance', { context: 'plugin.createEmbeddingProvider', baseUrl });
+    return new OpenAICompatibleEmbeddingProvider({
+      provider: 'OPENAI',
+      label: 'OpenAI',
+      baseUrl: baseUrl || 'https://api.openai.com/v1',
+      models: plugin.getEmbeddingModels?.(),
+    });
+  },
+
   /**
    * Get list of available models from OpenAI API
    * Requires a valid API key
@@ -752,6 +752,70 @@ function OpenRouterIcon({ className = "h-5 w-5" }) {
   );
 }
 
+// lib/embedding/base.ts
+var EmbeddingError = class extends Error {
+  constructor(message, provider, originalError) {
+    super(message);
+    this.provider = provider;
+    this.originalError = originalError;
+    this.name = "EmbeddingError";
+  }
+};
+
+// lib/embedding/providers.ts
+function dimensionsOf(models, model) {
+  return models.find((m) => m.id === model)?.dimensions ?? null;
+}
+var OpenAICompatibleEmbeddingProvider = class {
+  constructor(options) {
+    this.provider = options.provider;
+    this.label = options.label ?? options.provider;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.requiresApiKey = options.requiresApiKey ?? true;
+    this.models = options.models ?? [];
+    this.headers = options.headers ?? {};
+  }
+  async embed(text, params, apiKey) {
+    const [embedding] = await this.embedBatch([text], params, apiKey);
+    return embedding;
+  }
+  async embedBatch(texts, params, apiKey) {
+    if (texts.length === 0) return [];
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        ...this.headers
+      },
+      body: JSON.stringify({
+        model: params.model,
+        input: texts.length === 1 ? texts[0] : texts,
+        dimensions: params.dimensions || void 0
+      })
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new EmbeddingError(
+        `${this.label} embedding failed: ${error.error?.message || response.statusText}`,
+        this.provider
+      );
+    }
+    const data = await response.json();
+    const items = data.data ?? [];
+    if (items.length !== texts.length) {
+      throw new EmbeddingError(
+        `${this.label} embedding failed: expected ${texts.length} vectors, got ${items.length}`,
+        this.provider
+      );
+    }
+    return [...items].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map((item) => item.embedding);
+  }
+  getDimensions(model) {
+    return dimensionsOf(this.models, model);
+  }
+};
+
 // lib/llm/tool-formatting-utils.ts
 function parseOpenAIToolCalls(response) {
   const toolCalls = [];
@@ -800,7 +864,7 @@ var config = {
 var capabilities = {
   chat: true,
   imageGeneration: false,
-  embeddings: false,
+  embeddings: true,
   webSearch: false
 };
 var attachmentSupport = {
@@ -824,6 +888,25 @@ var plugin = {
     });
     return new OpenRouterProvider();
   },
+  /**
+   * Factory method to create an OpenRouter embedding provider instance
+   */
+  createEmbeddingProvider: (baseUrl) => {
+    logger.debug("Creating OpenRouter embedding provider instance", {
+      context: "plugin.createEmbeddingProvider",
+      baseUrl
+    });
+    return new OpenAICompatibleEmbeddingProvider({
+      provider: "OPENROUTER",
+      label: "OpenRouter",
+      baseUrl: baseUrl || "https://openrouter.ai/api/v1",
+      models: plugin.getEmbeddingModels?.(),
+      headers: {
+        "HTTP-Referer": process.env.NEXTAUTH_URL || "http://localhost:3000",
+        "X-Title": "Quilltap"
+      }
+    });
+  },
   /**
    * Get list of available models from OpenRouter API
    * Requires a valid API key
@@ -930,6 +1013,33 @@ var plugin = {
       }
     ];
   },
+  /**
+   * Get embedding models available through OpenRouter
+   * Returns static information about commonly used embedding models
+   */
+  getEmbeddingModels: () => {
+    logger.debug("Getting OpenRouter embedding models", { context: "plugin.getEmbeddingModels" });
+    return [
+      {
+        id: "openai/text-embedding-3-small",
+        name: "OpenAI Text Embedding 3 Small",
+        dimensions: 1536,
+        description: "Fast, inexpensive general-purpose model."
+      },
+      {
+        id: "openai/text-embedding-3-large",
+        name: "OpenAI Text Embedding 3 Large",
+        dimensions: 3072,
+        description: "Higher accuracy for complex retrieval."
+      },
+      {
+        id: "mistralai/mistral-embed-2312",
+        name: "Mistral Embed",
+        dimensions: 1024,
+        description: "Mistral general-purpose embedding model."
+      }
+    ];
+  },
   /**
    * Render the OpenRouter icon
    */
@@ -10,10 +10,11 @@
  * - Access to cutting-edge and open-source models
  */
 
-import type { LLMProviderPlugin } from './types';
+import type { LLMProviderPlugin, EmbeddingModelInfo } from './types';
 import { OpenRouterProvider } from './provider';
 import { OpenRouterIcon } from './icon';
 import { logger } from '../../../lib/logger';
+import { OpenAICompatibleEmbeddingProvider } from '../../../lib/embedding/providers';
 import {
   parseOpenAIToolCalls,
   type OpenAIToolDefinition,
@@ -51,7 +52,7 @@ const config = {
 const capabilities = {
   chat: true,
   imageGeneration: false,
-  embeddings: false,
+  embeddings: true,
   webSearch: false,
 } as const;
 
@@ -92,6 +93,26 @@ export const plugin: LLMProviderPlugin = {
     return new OpenRouterProvider();
   },
 
+  /**
+   * Factory method to create an OpenRouter embedding provider instance
+   */
+  createEmbeddingProvider: (baseUrl?: string) => {
+    logger.debug('Creating OpenRouter embedding provider instance', {
+      context: 'plugin.createEmbeddingProvider',
+      baseUrl,
+    });
+    return new OpenAICompatibleEmbeddingProvider({
+      provider: 'OPENROUTER',
+      label: 'OpenRouter',
+      baseUrl: baseUrl || 'https://openrouter.ai/api/v1',
+      models: plugin.getEmbeddingModels?.(),
+      headers: {
+        'HTTP-Referer': process.env.NEXTAUTH_URL || 'http://localhost:3000',
+        'X-Title': 'Quilltap',
+      },
+    });
+  },
+
   /**
    * Get list of available models from OpenRouter API
    * Requires a valid API key
@@ -201,6 +222,34 @@ export const plugin: LLMProviderPlugin = {
     ];
   },
 
+  /**
+   * Get embedding models available through OpenRouter
+   * Returns static information about commonly used embedding models
+   */
+  getEmbeddingModels: (): EmbeddingModelInfo[] => {
+    logger.debug('Getting OpenRouter embedding models', { context: 'plugin.getEmbeddingModels' });
+    return [
+      {
+        id: 'openai/text-embedding-3-small',
+        name: 'OpenAI Text Embedding 3 Small',
+        dimensions: 1536,
+        description: 'Fast, inexpensive general-purpose model.',
+      },
+      {
+        id: 'openai/text-embedding-3-large',
+        name: 'OpenAI Text Embedding 3 Large',
+        dimensions: 3072,
+        description: 'Higher accuracy for complex retrieval.',
+      },
+      {
+        id: 'mistralai/mistral-embed-2312',
+        name: 'Mistral Embed',
+        dimensions: 1024,
+        description: 'Mistral general-purpose embedding model.',
+      },
+    ];
+  },
+
   /**
    * Render the OpenRouter icon
    */
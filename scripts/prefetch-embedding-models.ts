@@ -0,0 +1,33 @@
+#!/usr/bin/env tsx
+/**
+ * Prefetch Embedding Models
+ *
+ * Downloads local embedding models into EMBEDDING_MODEL_DIR so an install
+ * (such as the all-in-one Docker image) ships them and never fetches them at
+ * runtime. Fetches the default model unless model IDs are given.
+ *
+ * Usage:
+ *   EMBEDDING_MODEL_DIR=/opt/quilltap/models npm run prefetch:embedding-models
+ *   tsx scripts/prefetch-embedding-models.ts Xenova/bge-small-en-v1.5
+ */
+
+import { DEFAULT_LOCAL_EMBEDDING_MODEL, getBundledModelDir, prefetchLocalModel } from '../lib/embedding/local-embedding';
+
+async function main(): Promise<void> {
+  const dir = getBundledModelDir();
+  if (!dir) {
+    console.error('EMBEDDING_MODEL_DIR is not set');
+    process.exit(1);
+  }
+
+  const models = process.argv.slice(2);
+  for (const model of models.length > 0 ? models : [DEFAULT_LOCAL_EMBEDDING_MODEL]) {
+    console.log(`Fetching ${model} into ${dir}`);
+    await prefetchLocalModel(model, dir);
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to prefetch embedding models:', error);
+  process.exit(1);
+});